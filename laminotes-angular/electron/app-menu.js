@@ -0,0 +1,233 @@
+/**
+ * Application menu and keyboard shortcuts for the main process.
+ *
+ * Menu items that act on notes don't do the work here: they send a
+ * 'menu-command' message to the focused window, which runs the matching
+ * action of the page. Accelerators come from the defaults below, overridden
+ * by the user's choices in userData/shortcuts.json.
+ */
+const { app, globalShortcut, Menu } = require('electron');
+const path = require('path');
+const fs = require('fs');
+
+/**
+ * Commands with a configurable accelerator. Global ones work while the app
+ * is in the background too.
+ */
+const COMMANDS = [
+  { id: 'new-file', label: 'New Note', accelerator: 'CommandOrControl+N' },
+  { id: 'open-note-window', label: 'Open Note in New Window', accelerator: 'CommandOrControl+Shift+N' },
+  { id: 'save', label: 'Save', accelerator: 'CommandOrControl+S' },
+  { id: 'save-as', label: 'Save As…', accelerator: 'CommandOrControl+Shift+S' },
+  { id: 'export', label: 'Export…', accelerator: 'CommandOrControl+E' },
+  { id: 'import', label: 'Import Notes…', accelerator: '' },
+  { id: 'search', label: 'Search Notes…', accelerator: 'CommandOrControl+Shift+F' },
+  { id: 'quick-open', label: 'Quick Open…', accelerator: 'CommandOrControl+K' },
+  { id: 'toggle-preview', label: 'Toggle Preview', accelerator: 'CommandOrControl+P' },
+  { id: 'toggle-sidebar', label: 'Toggle Sidebar', accelerator: 'CommandOrControl+\\' },
+  { id: 'toggle-history', label: 'Toggle Version History', accelerator: 'CommandOrControl+Shift+H' },
+  { id: 'toggle-backlinks', label: 'Toggle Backlinks', accelerator: 'CommandOrControl+Shift+B' },
+  { id: 'manage-teams', label: 'Manage Teams…', accelerator: '' },
+  { id: 'focus-app', label: 'Show Laminotes', accelerator: 'CommandOrControl+Shift+L', global: true }
+];
+
+/** Modifiers followed by one key, e.g. CommandOrControl+Shift+S; see Electron's Accelerator docs */
+const ACCELERATOR = new RegExp(
+  '^(?:(?:Command|Cmd|Control|Ctrl|CommandOrControl|CmdOrCtrl|Alt|Option|AltGr|Shift|Super|Meta)\\+)*' +
+  '(?:[!-~]|F(?:[1-9]|1[0-9]|2[0-4])|Plus|Space|Tab|Backspace|Delete|Insert|Return|Enter|Up|Down|Left|Right|' +
+  'Home|End|PageUp|PageDown|Escape|Esc|PrintScreen)$'
+);
+
+/** Longest accelerator accepted from the renderer */
+const MAX_ACCELERATOR_LENGTH = 64;
+
+/**
+ * The accelerators in use: defaults plus the user's overrides
+ */
+class ShortcutSettings {
+  constructor() {
+    this.storePath = path.join(app.getPath('userData'), 'shortcuts.json');
+    this.overrides = {};
+
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.storePath, 'utf8'));
+      this.overrides = ShortcutSettings.validate(saved);
+    } catch (error) {
+      // Defaults only
+    }
+  }
+
+  /**
+   * Keeps the entries of a settings object that name a known command and an accelerator
+   * @param {unknown} value
+   * @returns {Record<string, string>}
+   */
+  static validate(value) {
+    const overrides = {};
+    if (!value || typeof value !== 'object') {
+      return overrides;
+    }
+
+    for (const command of COMMANDS) {
+      const accelerator = value[command.id];
+      // '' removes a command's shortcut
+      if (typeof accelerator === 'string' && accelerator.length <= MAX_ACCELERATOR_LENGTH &&
+          (accelerator === '' || ACCELERATOR.test(accelerator))) {
+        overrides[command.id] = accelerator;
+      }
+    }
+    return overrides;
+  }
+
+  /**
+   * Accelerator of a command; '' when it has none
+   * @param {string} id
+   */
+  accelerator(id) {
+    if (id in this.overrides) {
+      return this.overrides[id];
+    }
+    const command = COMMANDS.find(entry => entry.id === id);
+    return command ? command.accelerator : '';
+  }
+
+  /**
+   * Every command with its current and default accelerator
+   */
+  list() {
+    return COMMANDS.map(command => ({
+      id: command.id,
+      label: command.label,
+      accelerator: this.accelerator(command.id),
+      defaultAccelerator: command.accelerator,
+      global: !!command.global
+    }));
+  }
+
+  /**
+   * Replaces the user's overrides; entries equal to the default are dropped
+   * @param {unknown} value Accelerators keyed by command id
+   */
+  update(value) {
+    const overrides = ShortcutSettings.validate(value);
+    for (const command of COMMANDS) {
+      if (overrides[command.id] === command.accelerator) {
+        delete overrides[command.id];
+      }
+    }
+
+    this.overrides = overrides;
+    try {
+      fs.writeFileSync(this.storePath, JSON.stringify(overrides, null, 2));
+    } catch (error) {
+      console.error('Error saving shortcuts:', error);
+    }
+  }
+}
+
+/**
+ * Builds and installs the application menu, and registers global shortcuts
+ * @param {object} options
+ * @param {ShortcutSettings} options.shortcuts Accelerators to use
+ * @param {{ id: string, name: string }[]} options.teams Teams listed in the Team menu
+ * @param {string | null} options.activeTeamId Team whose notes are shown; null for personal notes
+ * @param {(command: string, argument?: string | null) => void} options.send Delivers a command to the page
+ * @param {() => void} options.focusApp Brings the main window to the front
+ */
+function installMenu({ shortcuts, teams, activeTeamId, send, focusApp }) {
+  const isMac = process.platform === 'darwin';
+
+  const item = id => ({
+    label: COMMANDS.find(command => command.id === id).label,
+    accelerator: shortcuts.accelerator(id) || undefined,
+    click: () => send(id)
+  });
+
+  const template = [
+    ...(isMac ? [{ role: 'appMenu' }] : []),
+    {
+      label: 'File',
+      submenu: [
+        item('new-file'),
+        item('open-note-window'),
+        item('quick-open'),
+        { type: 'separator' },
+        item('save'),
+        item('save-as'),
+        { type: 'separator' },
+        item('import'),
+        item('export'),
+        { type: 'separator' },
+        { label: 'Keyboard Shortcuts…', click: () => send('edit-shortcuts') },
+        { type: 'separator' },
+        isMac ? { role: 'close' } : { role: 'quit' }
+      ]
+    },
+    {
+      label: 'Edit',
+      submenu: [
+        { role: 'undo' },
+        { role: 'redo' },
+        { type: 'separator' },
+        { role: 'cut' },
+        { role: 'copy' },
+        { role: 'paste' },
+        { role: 'selectAll' },
+        { type: 'separator' },
+        item('search')
+      ]
+    },
+    {
+      label: 'View',
+      submenu: [
+        item('toggle-preview'),
+        item('toggle-sidebar'),
+        item('toggle-history'),
+        item('toggle-backlinks'),
+        { type: 'separator' },
+        { role: 'resetZoom' },
+        { role: 'zoomIn' },
+        { role: 'zoomOut' },
+        { type: 'separator' },
+        { role: 'togglefullscreen' },
+        { role: 'toggleDevTools' }
+      ]
+    },
+    {
+      label: 'Team',
+      submenu: [
+        {
+          label: 'Personal Notes',
+          type: 'radio',
+          checked: !activeTeamId,
+          click: () => send('switch-team', null)
+        },
+        ...teams.map(team => ({
+          label: team.name,
+          type: 'radio',
+          checked: team.id === activeTeamId,
+          click: () => send('switch-team', team.id)
+        })),
+        { type: 'separator' },
+        item('manage-teams')
+      ]
+    },
+    { role: 'windowMenu' }
+  ];
+
+  Menu.setApplicationMenu(Menu.buildFromTemplate(template));
+
+  globalShortcut.unregisterAll();
+  for (const command of COMMANDS.filter(entry => entry.global)) {
+    const accelerator = shortcuts.accelerator(command.id);
+    try {
+      if (accelerator && !globalShortcut.register(accelerator, focusApp)) {
+        console.warn(`Global shortcut ${accelerator} is taken by another application`);
+      }
+    } catch (error) {
+      console.error(`Invalid global shortcut ${accelerator}:`, error);
+    }
+  }
+}
+
+module.exports = { ShortcutSettings, installMenu };
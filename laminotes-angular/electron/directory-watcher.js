@@ -0,0 +1,159 @@
+/**
+ * Notes directory watcher for the main process.
+ *
+ * Watches the active notes folder so edits made outside the app (git pulls,
+ * other editors, sync clients) reach the renderer. Raw fs.watch events are
+ * unreliable across platforms (duplicates, renames reported as "rename" on
+ * both ends, no event for files inside a moved folder), so every burst of
+ * events triggers a rescan that is diffed against the previous listing.
+ */
+const fs = require('fs');
+
+/** Quiet time after the last filesystem event before rescanning */
+const RESCAN_DELAY = 250;
+
+/**
+ * Lists the markdown files of a notes directory, including subfolders.
+ * Files in subfolders are named by their path relative to the directory,
+ * e.g. "Projects/Plan.md". Hidden entries such as .obsidian are skipped.
+ */
+function listMarkdownFiles(rootPath, relativeDir = '') {
+  const files = [];
+  const dirPath = relativeDir ? `${rootPath}/${relativeDir}` : rootPath;
+
+  for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+
+    const name = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listMarkdownFiles(rootPath, name));
+    } else if (entry.name.endsWith('.md')) {
+      files.push({ path: `${rootPath}/${name}`, name });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Lists the folders of a notes directory, including empty ones and subfolders,
+ * by their path relative to the directory. Hidden folders are skipped.
+ */
+function listFolders(rootPath, relativeDir = '') {
+  const folders = [];
+  const dirPath = relativeDir ? `${rootPath}/${relativeDir}` : rootPath;
+
+  for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+    if (entry.isDirectory() && !entry.name.startsWith('.')) {
+      const name = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      folders.push(name, ...listFolders(rootPath, name));
+    }
+  }
+
+  return folders;
+}
+
+/**
+ * Whether a path reported by fs.watch lies in a hidden entry such as .git
+ * @param {string | null} filename Path relative to the watched folder
+ */
+function isHidden(filename) {
+  return !!filename && filename.split(/[\\/]/).some(part => part.startsWith('.'));
+}
+
+/**
+ * Watches one notes directory and reports added, changed and removed
+ * markdown files as { type, path, name } objects
+ */
+class DirectoryWatcher {
+  /**
+   * @param {string} rootPath Folder to watch
+   * @param {(change: { type: 'add' | 'change' | 'unlink', path: string, name: string }) => void} onChange
+   */
+  constructor(rootPath, onChange) {
+    this.rootPath = rootPath;
+    this.onChange = onChange;
+    this.timer = null;
+    this.files = this.scan();
+
+    this.watcher = fs.watch(rootPath, { recursive: true }, (eventType, filename) => {
+      if (!isHidden(filename ? filename.toString() : null)) {
+        this.scheduleRescan();
+      }
+    });
+    this.watcher.on('error', error => {
+      console.error(`Error watching ${rootPath}:`, error);
+      this.close();
+    });
+  }
+
+  /** Stops watching */
+  close() {
+    clearTimeout(this.timer);
+    this.timer = null;
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  scheduleRescan() {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.rescan(), RESCAN_DELAY);
+  }
+
+  /**
+   * Modification stamps of the markdown files, keyed by relative name
+   * @returns {Map<string, { path: string, stamp: string }>}
+   */
+  scan() {
+    const files = new Map();
+
+    for (const file of listMarkdownFiles(this.rootPath)) {
+      try {
+        const stats = fs.statSync(file.path);
+        files.set(file.name, { path: file.path, stamp: `${stats.mtimeMs}:${stats.size}` });
+      } catch (error) {
+        // Removed while scanning; the next rescan reports it
+      }
+    }
+
+    return files;
+  }
+
+  rescan() {
+    this.timer = null;
+    if (!this.watcher) {
+      return;
+    }
+
+    let files;
+    try {
+      files = this.scan();
+    } catch (error) {
+      // The folder itself is gone; report everything as removed
+      files = new Map();
+    }
+
+    for (const [name, file] of files) {
+      const previous = this.files.get(name);
+      if (!previous) {
+        this.onChange({ type: 'add', path: file.path, name });
+      } else if (previous.stamp !== file.stamp) {
+        this.onChange({ type: 'change', path: file.path, name });
+      }
+    }
+
+    for (const [name, file] of this.files) {
+      if (!files.has(name)) {
+        this.onChange({ type: 'unlink', path: file.path, name });
+      }
+    }
+
+    this.files = files;
+  }
+}
+
+module.exports = { DirectoryWatcher, listFolders, listMarkdownFiles };
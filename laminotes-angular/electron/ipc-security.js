@@ -0,0 +1,182 @@
+/**
+ * IPC security helpers for the main process.
+ *
+ * The renderer only reaches the filesystem through the IPC handlers in
+ * main.js. These helpers let the handlers check who is calling, validate
+ * arguments, and confine every path to the notes folders the user has
+ * chosen through a native dialog.
+ */
+const { app } = require('electron');
+const path = require('path');
+const fs = require('fs');
+const { fileURLToPath } = require('url');
+
+/** Folder the built app is loaded from */
+const APP_DIRECTORY = path.join(__dirname, '..', 'dist', 'laminotes-angular');
+
+/** Origin of the development server, only trusted while running unpackaged */
+const DEV_SERVER_ORIGIN = 'http://localhost:4200';
+
+/** Pages of the windows the app created; only they may call IPC handlers */
+const appContents = new WeakSet();
+
+/** Longest path accepted from the renderer */
+const MAX_PATH_LENGTH = 4096;
+
+/**
+ * Lets the page of a window the app created call IPC handlers
+ * @param {Electron.BrowserWindow} window
+ */
+function trustWindow(window) {
+  appContents.add(window.webContents);
+}
+
+/**
+ * Whether an IPC message comes from the app's own page: the main frame of a
+ * window the app created, showing the built app, or the development server
+ * when running unpackaged
+ * @param {Electron.IpcMainInvokeEvent} event
+ */
+function isTrustedSender(event) {
+  const frame = event.senderFrame;
+  if (!frame || frame.parent || !appContents.has(event.sender)) {
+    return false;
+  }
+
+  let url;
+  try {
+    url = new URL(frame.url);
+  } catch (error) {
+    return false;
+  }
+
+  if (url.protocol === 'file:') {
+    const relative = path.relative(APP_DIRECTORY, fileURLToPath(url));
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+  return !app.isPackaged && url.origin === DEV_SERVER_ORIGIN;
+}
+
+/**
+ * Whether a value is a usable path string
+ * @param {unknown} value
+ */
+function isPath(value) {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_PATH_LENGTH && !value.includes('\0');
+}
+
+/**
+ * Whether a value is a string no longer than maxLength
+ * @param {unknown} value
+ * @param {number} maxLength
+ */
+function isText(value, maxLength = 1024) {
+  return typeof value === 'string' && value.length <= maxLength;
+}
+
+/**
+ * Resolves a path the way the filesystem will see it, following symlinks of
+ * the part that already exists so a link can't lead out of a notes folder
+ * @param {string} target
+ */
+function realPath(target) {
+  let existing = path.resolve(target);
+  const rest = [];
+
+  while (!fs.existsSync(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) {
+      break;
+    }
+    rest.unshift(path.basename(existing));
+    existing = parent;
+  }
+
+  try {
+    existing = fs.realpathSync(existing);
+  } catch (error) {
+    // Keep the resolved path
+  }
+  return path.join(existing, ...rest);
+}
+
+/**
+ * The folders and files the renderer may touch: the default notes folder plus
+ * everything the user picked in an open, save or folder dialog. Picks are
+ * remembered across restarts so team folders keep working.
+ */
+class NotesSandbox {
+  /**
+   * @param {string} baseDirectory Default notes folder, always allowed
+   */
+  constructor(baseDirectory) {
+    this.baseDirectory = baseDirectory;
+    this.storePath = path.join(app.getPath('userData'), 'approved-paths.json');
+    this.approved = new Set([realPath(baseDirectory)]);
+
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.storePath, 'utf8'));
+      if (Array.isArray(saved)) {
+        saved.filter(isPath).forEach(entry => this.approved.add(entry));
+      }
+    } catch (error) {
+      // Nothing approved yet
+    }
+  }
+
+  /**
+   * Allows a path the user chose in a native dialog, and everything below it
+   * @param {string} target
+   */
+  approve(target) {
+    const resolved = realPath(target);
+    if (this.approved.has(resolved)) {
+      return;
+    }
+
+    this.approved.add(resolved);
+    try {
+      fs.writeFileSync(this.storePath, JSON.stringify(Array.from(this.approved), null, 2));
+    } catch (error) {
+      console.error('Error saving approved paths:', error);
+    }
+  }
+
+  /**
+   * Whether a path is an approved path or inside one
+   * @param {unknown} target
+   */
+  allows(target) {
+    if (!isPath(target)) {
+      return false;
+    }
+
+    const resolved = realPath(target);
+    for (const root of this.approved) {
+      const relative = path.relative(root, resolved);
+      if (relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Whether a path is one of the notes folders themselves, which must not be moved or deleted
+   * @param {unknown} target
+   */
+  isRoot(target) {
+    return isPath(target) && this.approved.has(realPath(target));
+  }
+}
+
+/**
+ * Result returned to the renderer when a request is refused
+ * @param {string} message
+ */
+function refused(message) {
+  console.warn(`Refused IPC request: ${message}`);
+  return { success: false, message };
+}
+
+module.exports = { NotesSandbox, isTrustedSender, trustWindow, isPath, isText, refused };
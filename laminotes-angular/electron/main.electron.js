@@ -1,176 +0,0 @@
-"use strict";
-var __awaiter = (this && this.__awaiter) || function (thisArg, _arguments, P, generator) {
-    function adopt(value) { return value instanceof P ? value : new P(function (resolve) { resolve(value); }); }
-    return new (P || (P = Promise))(function (resolve, reject) {
-        function fulfilled(value) { try { step(generator.next(value)); } catch (e) { reject(e); } }
-        function rejected(value) { try { step(generator["throw"](value)); } catch (e) { reject(e); } }
-        function step(result) { result.done ? resolve(result.value) : adopt(result.value).then(fulfilled, rejected); }
-        step((generator = generator.apply(thisArg, _arguments || [])).next());
-    });
-};
-var __generator = (this && this.__generator) || function (thisArg, body) {
-    var _ = { label: 0, sent: function() { if (t[0] & 1) throw t[1]; return t[1]; }, trys: [], ops: [] }, f, y, t, g = Object.create((typeof Iterator === "function" ? Iterator : Object).prototype);
-    return g.next = verb(0), g["throw"] = verb(1), g["return"] = verb(2), typeof Symbol === "function" && (g[Symbol.iterator] = function() { return this; }), g;
-    function verb(n) { return function (v) { return step([n, v]); }; }
-    function step(op) {
-        if (f) throw new TypeError("Generator is already executing.");
-        while (g && (g = 0, op[0] && (_ = 0)), _) try {
-            if (f = 1, y && (t = op[0] & 2 ? y["return"] : op[0] ? y["throw"] || ((t = y["return"]) && t.call(y), 0) : y.next) && !(t = t.call(y, op[1])).done) return t;
-            if (y = 0, t) op = [op[0] & 2, t.value];
-            switch (op[0]) {
-                case 0: case 1: t = op; break;
-                case 4: _.label++; return { value: op[1], done: false };
-                case 5: _.label++; y = op[1]; op = [0]; continue;
-                case 7: op = _.ops.pop(); _.trys.pop(); continue;
-                default:
-                    if (!(t = _.trys, t = t.length > 0 && t[t.length - 1]) && (op[0] === 6 || op[0] === 2)) { _ = 0; continue; }
-                    if (op[0] === 3 && (!t || (op[1] > t[0] && op[1] < t[3]))) { _.label = op[1]; break; }
-                    if (op[0] === 6 && _.label < t[1]) { _.label = t[1]; t = op; break; }
-                    if (t && _.label < t[2]) { _.label = t[2]; _.ops.push(op); break; }
-                    if (t[2]) _.ops.pop();
-                    _.trys.pop(); continue;
-            }
-            op = body.call(thisArg, _);
-        } catch (e) { op = [6, e]; y = 0; } finally { f = t = 0; }
-        if (op[0] & 5) throw op[1]; return { value: op[0] ? op[1] : void 0, done: true };
-    }
-};
-Object.defineProperty(exports, "__esModule", { value: true });
-var electron_1 = require("electron");
-var path = require("path");
-var fs = require("fs");
-var url = require("url");
-var mainWindow = null;
-function createWindow() {
-    mainWindow = new electron_1.BrowserWindow({
-        width: 1200,
-        height: 800,
-        webPreferences: {
-            nodeIntegration: true,
-            contextIsolation: false,
-            preload: path.join(__dirname, 'preload.js'),
-        }
-    });
-    mainWindow.loadURL(url.format({
-        pathname: path.join(__dirname, 'dist/laminotes-angular/index.html'),
-        protocol: 'file:',
-        slashes: true,
-    }));
-    mainWindow.on('closed', function () {
-        mainWindow = null;
-    });
-    setupIpcHandlers();
-}
-function setupIpcHandlers() {
-    var _this = this;
-    // Handle file saving
-    electron_1.ipcMain.handle('save-file', function (event, args) { return __awaiter(_this, void 0, void 0, function () {
-        var content, filePath, saveAs, savePath, _a, canceled, selectedPath, error_1;
-        return __generator(this, function (_b) {
-            switch (_b.label) {
-                case 0:
-                    content = args.content, filePath = args.filePath, saveAs = args.saveAs;
-                    _b.label = 1;
-                case 1:
-                    _b.trys.push([1, 4, , 5]);
-                    savePath = filePath;
-                    if (!(saveAs || !filePath)) return [3 /*break*/, 3];
-                    return [4 /*yield*/, electron_1.dialog.showSaveDialog(mainWindow, {
-                            title: 'Save Markdown File',
-                            defaultPath: filePath || 'untitled.md',
-                            filters: [
-                                { name: 'Markdown', extensions: ['md'] },
-                                { name: 'All Files', extensions: ['*'] }
-                            ]
-                        })];
-                case 2:
-                    _a = _b.sent(), canceled = _a.canceled, selectedPath = _a.filePath;
-                    if (canceled || !selectedPath) {
-                        return [2 /*return*/, { success: false, message: 'Save cancelled' }];
-                    }
-                    savePath = selectedPath;
-                    _b.label = 3;
-                case 3:
-                    // Write content to file
-                    fs.writeFileSync(savePath, content, { encoding: 'utf8' });
-                    return [2 /*return*/, {
-                            success: true,
-                            filePath: savePath,
-                            message: 'File saved successfully'
-                        }];
-                case 4:
-                    error_1 = _b.sent();
-                    console.error('Error saving file:', error_1);
-                    return [2 /*return*/, {
-                            success: false,
-                            // Use type assertion to access error.message
-                            message: "Error saving file: ".concat(error_1.message || 'Unknown error')
-                        }];
-                case 5: return [2 /*return*/];
-            }
-        });
-    }); });
-    // Handle file opening
-    electron_1.ipcMain.handle('open-file', function () { return __awaiter(_this, void 0, void 0, function () {
-        var _a, canceled, filePaths, filePath, content, error_2;
-        return __generator(this, function (_b) {
-            switch (_b.label) {
-                case 0:
-                    _b.trys.push([0, 2, , 3]);
-                    return [4 /*yield*/, electron_1.dialog.showOpenDialog(mainWindow, {
-                            properties: ['openFile'],
-                            filters: [
-                                { name: 'Markdown', extensions: ['md'] },
-                                { name: 'All Files', extensions: ['*'] }
-                            ]
-                        })];
-                case 1:
-                    _a = _b.sent(), canceled = _a.canceled, filePaths = _a.filePaths;
-                    if (canceled || filePaths.length === 0) {
-                        return [2 /*return*/, { success: false, message: 'Open cancelled' }];
-                    }
-                    filePath = filePaths[0];
-                    content = fs.readFileSync(filePath, { encoding: 'utf8' });
-                    return [2 /*return*/, {
-                            success: true,
-                            filePath: filePath,
-                            content: content,
-                            message: 'File opened successfully'
-                        }];
-                case 2:
-                    error_2 = _b.sent();
-                    console.error('Error opening file:', error_2);
-                    return [2 /*return*/, {
-                            success: false,
-                            message: "Error opening file: ".concat(error_2.message || 'Unknown error')
-                        }];
-                case 3: return [2 /*return*/];
-            }
-        });
-    }); });
-    // Handle checking if file exists
-    electron_1.ipcMain.handle('check-file', function (event, filePath) { return __awaiter(_this, void 0, void 0, function () {
-        return __generator(this, function (_a) {
-            try {
-                return [2 /*return*/, fs.existsSync(filePath)];
-            }
-            catch (error) {
-                console.error('Error checking file:', error);
-                return [2 /*return*/, false];
-            }
-            return [2 /*return*/];
-        });
-    }); });
-}
-// Initialize Electron app
-electron_1.app.on('ready', createWindow);
-electron_1.app.on('window-all-closed', function () {
-    if (process.platform !== 'darwin') {
-        electron_1.app.quit();
-    }
-});
-electron_1.app.on('activate', function () {
-    if (mainWindow === null) {
-        createWindow();
-    }
-});
@@ -1,65 +1,256 @@
-const { app, BrowserWindow } = require('electron');
+const { app, BrowserWindow, globalShortcut, shell } = require('electron');
 const path = require('path');
 const url = require('url');
 const fs = require('fs');
+const { NotesSandbox, isTrustedSender, trustWindow, isPath, isText, refused } = require('./ipc-security');
+const { DirectoryWatcher, listFolders, listMarkdownFiles } = require('./directory-watcher');
+const { ShortcutSettings, installMenu } = require('./app-menu');
 
 // Default base directory in user's Documents folder
 let baseDirectory = path.join(app.getPath('documents'), 'Laminotes');
 
+// Folders and files the renderer may read and write
+const sandbox = new NotesSandbox(baseDirectory);
+
 // Keep a global reference of the window object
 let mainWindow;
 
-function createWindow() {
-  // Create the browser window
-  mainWindow = new BrowserWindow({
-    width: 1200,
-    height: 800,
+// Notes opened in their own window, keyed by the window's webContents id
+const noteWindows = new Map();
+
+// Markdown files the OS asked us to open, waiting for the page to take them
+const pendingOpenFiles = [];
+let pageTakesOpenFiles = false;
+
+// Keyboard shortcuts and the teams listed in the Team menu
+const shortcuts = new ShortcutSettings();
+let menuTeams = [];
+let activeMenuTeamId = null;
+
+// Whether the main window has notes with unsaved edits; closing it then asks the page first
+let hasUnsavedChanges = false;
+let isQuitting = false;
+let quitAfterClose = false;
+
+/**
+ * Creates a window with the app's security settings
+ * @param {Electron.BrowserWindowConstructorOptions} options
+ */
+function createAppWindow(options) {
+  const window = new BrowserWindow({
+    ...options,
     webPreferences: {
       nodeIntegration: false,
       contextIsolation: true,
+      sandbox: true,
       preload: path.join(__dirname, 'preload.js')
     }
   });
+  trustWindow(window);
 
+  // Keep the window on the app; web links open in the browser instead
+  window.webContents.setWindowOpenHandler(({ url: target }) => {
+    if (/^https?:/.test(target)) {
+      shell.openExternal(target);
+    }
+    return { action: 'deny' };
+  });
+  window.webContents.on('will-navigate', (event, target) => {
+    if (target !== window.webContents.getURL()) {
+      event.preventDefault();
+      if (/^https?:/.test(target)) {
+        shell.openExternal(target);
+      }
+    }
+  });
+
+  return window;
+}
+
+/**
+ * Loads the Angular app into a window
+ * @param {BrowserWindow} window
+ * @param {Record<string, string>} [query] Query parameters for the page
+ */
+function loadApp(window, query = {}) {
   // Get the actual path to the built Angular app
   const angularDistPath = path.join(__dirname, '..', 'dist', 'laminotes-angular', 'browser', 'index.html');
-  console.log('Looking for Angular app at:', angularDistPath);
+  // Alternate path without "browser" subdirectory (for older Angular versions)
+  const alternatePath = path.join(__dirname, '..', 'dist', 'laminotes-angular', 'index.html');
 
-  // Check if the file exists
   if (fs.existsSync(angularDistPath)) {
     console.log('Angular app found, loading from:', angularDistPath);
-    mainWindow.loadFile(angularDistPath);
+    window.loadFile(angularDistPath, { query });
+  } else if (fs.existsSync(alternatePath)) {
+    console.log('Angular app found at alternate path:', alternatePath);
+    window.loadFile(alternatePath, { query });
   } else {
-    console.log('Angular app not found at expected path, trying alternate path...');
+    console.log('Angular app not found, trying development server...');
+    const search = new URLSearchParams(query).toString();
+    window.loadURL(`http://localhost:4200/${search ? `?${search}` : ''}`);
+  }
+}
 
-    // Try alternate path without "browser" subdirectory (for older Angular versions)
-    const alternatePath = path.join(__dirname, '..', 'dist', 'laminotes-angular', 'index.html');
+function createWindow() {
+  // Create the browser window
+  mainWindow = createAppWindow({
+    width: 1200,
+    height: 800
+  });
 
-    if (fs.existsSync(alternatePath)) {
-      console.log('Angular app found at alternate path:', alternatePath);
-      mainWindow.loadFile(alternatePath);
-    } else {
-      console.log('Angular app not found, trying development server...');
-      mainWindow.loadURL('http://localhost:4200');
+  // A new page has to ask for files opened from the OS again
+  mainWindow.webContents.on('did-start-loading', () => {
+    pageTakesOpenFiles = false;
+    hasUnsavedChanges = false;
+  });
+
+  // The page asks whether to save unsaved notes, then confirms the close
+  mainWindow.on('close', (event) => {
+    if (hasUnsavedChanges) {
+      event.preventDefault();
+      quitAfterClose = isQuitting;
+      isQuitting = false;
+      mainWindow.webContents.send('close-requested');
     }
-  }
+  });
 
-  // Open the DevTools
-  mainWindow.webContents.openDevTools();
+  loadApp(mainWindow);
 
   // Handle window being closed
   mainWindow.on('closed', function() {
+    stopWatchingDirectory();
     mainWindow = null;
   });
 }
 
-// In your electron/main.js file, add or verify these IPC handlers:
+/**
+ * Opens a note in its own window, or focuses the window already showing it
+ * @param {{ path: string, name: string, content: string }} note
+ */
+function createNoteWindow(note) {
+  for (const entry of noteWindows.values()) {
+    if (entry.path === note.path) {
+      entry.window.focus();
+      return;
+    }
+  }
+
+  const window = createAppWindow({
+    width: 800,
+    height: 700,
+    title: note.name
+  });
+  const id = window.webContents.id;
+  noteWindows.set(id, { window, ...note });
+
+  loadApp(window, { note: note.path });
+
+  window.on('closed', () => {
+    noteWindows.delete(id);
+    sendOpenNotes();
+  });
+  sendOpenNotes();
+}
+
+/**
+ * Tells the main window which notes are open in their own window
+ */
+function sendOpenNotes() {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('note-windows-changed', Array.from(noteWindows.values()).map(entry => entry.path));
+  }
+}
+
+/**
+ * Delivers a menu command to the focused window
+ * @param {string} command
+ * @param {string | null} [argument]
+ */
+function sendMenuCommand(command, argument = null) {
+  const target = BrowserWindow.getFocusedWindow() || mainWindow;
+  if (target) {
+    target.webContents.send('menu-command', { command, argument });
+  }
+}
+
+function focusApp() {
+  if (!mainWindow) {
+    createWindow();
+    return;
+  }
+  if (mainWindow.isMinimized()) {
+    mainWindow.restore();
+  }
+  mainWindow.show();
+  mainWindow.focus();
+}
+
+/**
+ * Markdown files named on a command line, e.g. by "Open with" or a double-click
+ * @param {string[]} argv Arguments of the launch
+ * @param {string} workingDirectory Directory relative paths are resolved against
+ */
+function markdownFilesIn(argv, workingDirectory) {
+  return argv.slice(1)
+    .filter(arg => !arg.startsWith('-') && /\.(md|markdown)$/i.test(arg))
+    .map(arg => path.resolve(workingDirectory, arg))
+    .filter(filePath => fs.existsSync(filePath));
+}
+
+/**
+ * Opens a markdown file the OS handed to the app in a tab of the main window
+ * @param {string} filePath
+ */
+function openFileFromSystem(filePath) {
+  try {
+    const file = { path: filePath, name: path.basename(filePath), content: fs.readFileSync(filePath, 'utf8') };
+
+    // The user chose this file, so it may be saved back
+    sandbox.approve(filePath);
+    app.addRecentDocument(filePath);
+
+    if (pageTakesOpenFiles && mainWindow) {
+      mainWindow.webContents.send('file-opened', file);
+    } else {
+      pendingOpenFiles.push(file);
+    }
+  } catch (error) {
+    console.error(`Error opening ${filePath}:`, error);
+  }
+}
+
+function refreshMenu() {
+  installMenu({
+    shortcuts,
+    teams: menuTeams,
+    activeTeamId: activeMenuTeamId,
+    send: sendMenuCommand,
+    focusApp
+  });
+}
+
 const { ipcMain, dialog } = require('electron');
 
+/**
+ * Registers an IPC handler that only answers the app's own page
+ * @param {string} channel IPC channel
+ * @param {Function} handler Handler receiving the event and the arguments
+ * @param {*} [refusedValue] Returned to untrusted senders instead of an error result
+ */
+function handle(channel, handler, refusedValue) {
+  ipcMain.handle(channel, (event, ...args) => {
+    if (!isTrustedSender(event)) {
+      const result = refused(`${channel} from untrusted sender ${event.senderFrame && event.senderFrame.url}`);
+      return refusedValue !== undefined ? refusedValue : result;
+    }
+    return handler(event, ...args);
+  });
+}
+
 // For opening files
-ipcMain.handle('open-file', async () => {
+handle('open-file', async () => {
   try {
-    const { canceled, filePaths } = await dialog.showOpenDialog({
+    const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
       properties: ['openFile'],
       filters: [
         { name: 'Markdown', extensions: ['md'] },
@@ -74,6 +265,10 @@ ipcMain.handle('open-file', async () => {
     const filePath = filePaths[0];
     const content = fs.readFileSync(filePath, 'utf8');
 
+    // The user picked this file, so it may be saved back later
+    sandbox.approve(filePath);
+    app.addRecentDocument(filePath);
+
     return {
       success: true,
       filePath,
@@ -90,13 +285,30 @@ ipcMain.handle('open-file', async () => {
 });
 
 // For saving files
-ipcMain.handle('save-file', async (event, { content, filePath, saveAs, getPathOnly }) => {
+// Save dialog filters for the file types the app exports
+const SAVE_FILTERS = {
+  '.md': { name: 'Markdown', extensions: ['md'] },
+  '.pdf': { name: 'PDF Document', extensions: ['pdf'] },
+  '.html': { name: 'HTML Page', extensions: ['html'] },
+  '.docx': { name: 'Word Document', extensions: ['docx'] },
+  '.zip': { name: 'Zip Archive', extensions: ['zip'] }
+};
+
+handle('save-file', async (event, options) => {
+  const { content, filePath, saveAs, getPathOnly, saveAsBinary } = options || {};
+
+  if ((filePath !== undefined && filePath !== null && !isPath(filePath)) ||
+      (!getPathOnly && typeof content !== 'string')) {
+    return refused('Invalid save-file arguments');
+  }
+
   try {
     console.log('Save-file handler called with:', { 
       content: content ? `Content provided (${content.length} chars)` : 'No content', 
       filePath, 
       saveAs,
-      getPathOnly 
+      getPathOnly,
+      saveAsBinary
     });
     let targetPath = filePath;
 
@@ -116,8 +328,9 @@ ipcMain.handle('save-file', async (event, { content, filePath, saveAs, getPathOn
       // For paths that don't have directory structure, use our base directory
       defaultPath = path.join(baseDirectory, defaultPath);
       
-      // Ensure proper extension
-      if (!defaultPath.toLowerCase().endsWith('.md')) {
+      // Ensure proper extension; exports keep their own
+      const extension = path.extname(defaultPath).toLowerCase();
+      if (!SAVE_FILTERS[extension]) {
         defaultPath += '.md';
       }
       
@@ -127,7 +340,7 @@ ipcMain.handle('save-file', async (event, { content, filePath, saveAs, getPathOn
         title: 'Save File',
         defaultPath: defaultPath,
         filters: [
-          { name: 'Markdown', extensions: ['md'] },
+          SAVE_FILTERS[path.extname(defaultPath).toLowerCase()],
           { name: 'All Files', extensions: ['*'] }
         ],
         properties: ['createDirectory', 'showOverwriteConfirmation']
@@ -141,6 +354,9 @@ ipcMain.handle('save-file', async (event, { content, filePath, saveAs, getPathOn
       }
 
       targetPath = result.filePath;
+
+      // The user picked this location, so later saves may write to it
+      sandbox.approve(targetPath);
       
       // If we're just getting the path, return it now
       if (getPathOnly) {
@@ -153,6 +369,11 @@ ipcMain.handle('save-file', async (event, { content, filePath, saveAs, getPathOn
       }
     }
 
+    // Files are only written inside the notes folders or where the user chose
+    if (!sandbox.allows(targetPath)) {
+      return refused(`Path is outside the notes folders: ${targetPath}`);
+    }
+
     // Make sure we have content to save
     if (!content && !getPathOnly) {
       console.error('No content provided for save');
@@ -172,7 +393,8 @@ ipcMain.handle('save-file', async (event, { content, filePath, saveAs, getPathOn
     // Write the file (skip if we're just getting the path)
     if (!getPathOnly) {
       console.log('Writing file to:', targetPath);
-      fs.writeFileSync(targetPath, content);
+      // Binary content (e.g. PDF) arrives base64 encoded
+      fs.writeFileSync(targetPath, saveAsBinary ? Buffer.from(content, 'base64') : content);
       console.log('File saved successfully');
     }
     
@@ -191,21 +413,47 @@ ipcMain.handle('save-file', async (event, { content, filePath, saveAs, getPathOn
 });
 
 // For checking if file exists
-ipcMain.handle('check-file', (event, filePath) => {
+handle('check-file', (event, filePath) => {
   try {
-    return fs.existsSync(filePath);
+    return sandbox.allows(filePath) && fs.existsSync(filePath);
   } catch (error) {
     console.error('Error checking file:', error);
     return false;
   }
+}, false);
+
+// For reading a note from a notes folder
+handle('read-file', (event, filePath) => {
+  if (!sandbox.allows(filePath)) {
+    return refused(`Path is outside the notes folders: ${filePath}`);
+  }
+
+  try {
+    return {
+      success: true,
+      filePath,
+      content: fs.readFileSync(filePath, 'utf8'),
+      message: 'File read successfully'
+    };
+  } catch (error) {
+    console.error('Error reading file:', error);
+    return {
+      success: false,
+      message: error.message
+    };
+  }
 });
 
-ipcMain.handle('show-prompt-dialog', async (event, options) => {
-  const { title, label, value } = options;
+handle('show-prompt-dialog', async (event, options) => {
+  const { title, label, value } = options || {};
+
+  if (!isText(title || '') || !isText(label || '') || !isText(value || '')) {
+    return { success: false, value: null };
+  }
 
   // In Electron we need to use custom dialog for input
   try {
-    // Create an input dialog using BrowserWindow
+    // Create an input dialog using BrowserWindow; it only gets a way to send the answer back
     const promptWindow = new BrowserWindow({
       width: 400,
       height: 200,
@@ -213,17 +461,20 @@ ipcMain.handle('show-prompt-dialog', async (event, options) => {
       modal: true,
       show: false,
       webPreferences: {
-        nodeIntegration: true,
-        contextIsolation: false
+        nodeIntegration: false,
+        contextIsolation: true,
+        sandbox: true,
+        preload: path.join(__dirname, 'prompt-preload.js')
       }
     });
 
-    let htmlContent = `
+    const htmlContent = `
       <!DOCTYPE html>
       <html>
       <head>
         <meta charset="UTF-8">
-        <title>${title || 'Input'}</title>
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline'">
+        <title>${escapeHtml(title || 'Input')}</title>
         <style>
           body { font-family: sans-serif; padding: 20px; }
           button { margin-top: 10px; margin-right: 10px; padding: 5px 10px; }
@@ -231,57 +482,50 @@ ipcMain.handle('show-prompt-dialog', async (event, options) => {
         </style>
       </head>
       <body>
-        <h3>${label || 'Please enter a value:'}</h3>
-        <input type="text" id="inputField" value="${value || ''}" />
+        <h3>${escapeHtml(label || 'Please enter a value:')}</h3>
+        <input type="text" id="inputField" value="${escapeHtml(value || '')}" />
         <div>
           <button id="okButton">OK</button>
           <button id="cancelButton">Cancel</button>
         </div>
         <script>
-          const { ipcRenderer } = require('electron');
-          document.getElementById('okButton').addEventListener('click', () => {
-            const value = document.getElementById('inputField').value;
-            ipcRenderer.send('prompt-response', { success: true, value });
-          });
-          document.getElementById('cancelButton').addEventListener('click', () => {
-            ipcRenderer.send('prompt-response', { success: false, value: null });
-          });
-          document.getElementById('inputField').focus();
-          document.getElementById('inputField').addEventListener('keyup', (e) => {
-            if (e.key === 'Enter') {
-              const value = document.getElementById('inputField').value;
-              ipcRenderer.send('prompt-response', { success: true, value });
-            }
-            if (e.key === 'Escape') {
-              ipcRenderer.send('prompt-response', { success: false, value: null });
-            }
+          const input = document.getElementById('inputField');
+          const respond = (success) => window.promptAPI.respond({ success, value: success ? input.value : null });
+          document.getElementById('okButton').addEventListener('click', () => respond(true));
+          document.getElementById('cancelButton').addEventListener('click', () => respond(false));
+          input.focus();
+          input.addEventListener('keyup', (e) => {
+            if (e.key === 'Enter') respond(true);
+            if (e.key === 'Escape') respond(false);
           });
         </script>
       </body>
       </html>
     `;
 
-    // Create a temporary HTML file
-    const tempPath = path.join(app.getPath('temp'), 'prompt-dialog.html');
-    fs.writeFileSync(tempPath, htmlContent);
-    
-    promptWindow.loadFile(tempPath);
+    promptWindow.loadURL(`data:text/html;charset=UTF-8,${encodeURIComponent(htmlContent)}`);
     promptWindow.once('ready-to-show', () => {
       promptWindow.show();
     });
 
     return new Promise((resolve) => {
-      ipcMain.once('prompt-response', (event, result) => {
+      // Only the prompt window may answer
+      const onResponse = (responseEvent, result) => {
+        if (responseEvent.sender !== promptWindow.webContents) {
+          return;
+        }
+        ipcMain.removeListener('prompt-response', onResponse);
+        resolve({
+          success: !!(result && result.success),
+          value: result && isText(result.value, 4096) ? result.value : null
+        });
         promptWindow.close();
-        // Clean up temp file
-        try { fs.unlinkSync(tempPath); } catch (e) { /* ignore */ }
-        resolve(result);
-      });
-      
+      };
+      ipcMain.on('prompt-response', onResponse);
+
       promptWindow.on('closed', () => {
+        ipcMain.removeListener('prompt-response', onResponse);
         resolve({ success: false, value: null });
-        // Clean up temp file
-        try { fs.unlinkSync(tempPath); } catch (e) { /* ignore */ }
       });
     });
   } catch (error) {
@@ -303,7 +547,23 @@ ipcMain.handle('show-prompt-dialog', async (event, options) => {
   }
 });
 
-ipcMain.handle('create-directory', async (event, dirPath) => {
+/**
+ * Escapes text for use in the prompt window's HTML
+ */
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+handle('create-directory', async (event, dirPath) => {
+  if (!sandbox.allows(dirPath)) {
+    return refused(`Path is outside the notes folders: ${dirPath}`);
+  }
+
   try {
     if (fs.existsSync(dirPath)) {
       return { success: false, message: 'Directory already exists' };
@@ -324,12 +584,20 @@ ipcMain.handle('create-directory', async (event, dirPath) => {
 });
 
 // IPC handler for deleting files
-ipcMain.handle('delete-file', async (event, filePath) => {
+handle('delete-file', async (event, filePath) => {
+  if (!sandbox.allows(filePath)) {
+    return refused(`Path is outside the notes folders: ${filePath}`);
+  }
+
   try {
     if (!fs.existsSync(filePath)) {
       return { success: false, message: 'File does not exist' };
     }
 
+    if (!fs.statSync(filePath).isFile()) {
+      return refused(`Not a file: ${filePath}`);
+    }
+
     fs.unlinkSync(filePath);
     return {
       success: true,
@@ -344,8 +612,41 @@ ipcMain.handle('delete-file', async (event, filePath) => {
   }
 });
 
-// IPC handler for renaming files
-ipcMain.handle('rename-file', async (event, oldPath, newPath) => {
+// IPC handler for deleting a folder of notes with everything in it
+handle('delete-directory', async (event, dirPath) => {
+  if (!sandbox.allows(dirPath) || sandbox.isRoot(dirPath)) {
+    return refused(`Not a folder inside the notes folders: ${dirPath}`);
+  }
+
+  try {
+    if (!fs.existsSync(dirPath)) {
+      return { success: false, message: 'Directory does not exist' };
+    }
+
+    if (!fs.statSync(dirPath).isDirectory()) {
+      return refused(`Not a directory: ${dirPath}`);
+    }
+
+    fs.rmSync(dirPath, { recursive: true });
+    return {
+      success: true,
+      message: 'Directory deleted successfully'
+    };
+  } catch (error) {
+    console.error('Error deleting directory:', error);
+    return {
+      success: false,
+      message: error.message
+    };
+  }
+});
+
+// IPC handler for renaming files, and moving folders with everything in them
+handle('rename-file', async (event, oldPath, newPath) => {
+  if (!sandbox.allows(oldPath) || !sandbox.allows(newPath)) {
+    return refused(`Path is outside the notes folders: ${oldPath} -> ${newPath}`);
+  }
+
   try {
     console.log(`Attempting to rename file from "${oldPath}" to "${newPath}"`);
     
@@ -354,6 +655,19 @@ ipcMain.handle('rename-file', async (event, oldPath, newPath) => {
       return { success: false, message: 'Source file does not exist' };
     }
 
+    if (fs.statSync(oldPath).isDirectory()) {
+      if (sandbox.isRoot(oldPath)) {
+        return refused(`Cannot move a notes folder: ${oldPath}`);
+      }
+      const relative = path.relative(oldPath, newPath);
+      if (relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))) {
+        return refused(`Cannot move a folder into itself: ${oldPath} -> ${newPath}`);
+      }
+      if (fs.existsSync(newPath)) {
+        return { success: false, message: 'A folder with that name already exists' };
+      }
+    }
+
     // Create destination directory if it doesn't exist
     const destDir = path.dirname(newPath);
     if (!fs.existsSync(destDir)) {
@@ -380,8 +694,16 @@ ipcMain.handle('rename-file', async (event, oldPath, newPath) => {
       fs.unlinkSync(newPath);
     }
 
-    // Perform the rename
-    fs.renameSync(oldPath, newPath);
+    // Perform the rename; team folders may live on another drive, where a move is a copy
+    try {
+      fs.renameSync(oldPath, newPath);
+    } catch (error) {
+      if (error.code !== 'EXDEV') {
+        throw error;
+      }
+      fs.cpSync(oldPath, newPath, { recursive: true, errorOnExist: true, force: false });
+      fs.rmSync(oldPath, { recursive: true });
+    }
     console.log(`File successfully renamed from "${oldPath}" to "${newPath}"`);
     
     return {
@@ -398,7 +720,11 @@ ipcMain.handle('rename-file', async (event, oldPath, newPath) => {
 });
 
 // Directory selection dialog
-ipcMain.handle('select-directory', async (event, initialPath) => {
+handle('select-directory', async (event, initialPath) => {
+  if (initialPath !== undefined && initialPath !== null && !isPath(initialPath)) {
+    return refused('Invalid select-directory arguments');
+  }
+
   try {
     console.log('Select directory handler called', initialPath ? `with initial path: ${initialPath}` : '');
     
@@ -408,16 +734,16 @@ ipcMain.handle('select-directory', async (event, initialPath) => {
     // If initialPath is provided but directory selection UI should be skipped
     // (this is used for refreshing an existing directory without showing the dialog)
     if (initialPath && fs.existsSync(initialPath)) {
+      // Only folders the user has picked before can be read without asking
+      if (!sandbox.allows(initialPath)) {
+        return refused(`Directory is outside the notes folders: ${initialPath}`);
+      }
+
       // Just read the directory contents and return them
       console.log(`Reading directory contents from: ${initialPath}`);
       
-      // List the files in the selected directory with .md extension
-      const files = fs.readdirSync(initialPath)
-        .filter(fileName => fileName.endsWith('.md'))
-        .map(fileName => ({
-          path: `${initialPath}/${fileName}`,
-          name: fileName
-        }));
+      // List the markdown files in the directory and its subfolders
+      const files = listMarkdownFiles(initialPath);
         
       console.log(`Found ${files.length} files in directory`);
       
@@ -425,6 +751,7 @@ ipcMain.handle('select-directory', async (event, initialPath) => {
         success: true,
         dirPath: initialPath,
         files: files,
+        folders: listFolders(initialPath),
         message: 'Directory contents read successfully'
       };
     }
@@ -451,14 +778,12 @@ ipcMain.handle('select-directory', async (event, initialPath) => {
     if (!fs.existsSync(dirPath)) {
       fs.mkdirSync(dirPath, { recursive: true });
     }
+
+    // The user picked this folder, so it becomes a notes folder
+    sandbox.approve(dirPath);
     
-    // List the files in the selected directory with .md extension
-    const files = fs.readdirSync(dirPath)
-      .filter(fileName => fileName.endsWith('.md'))
-      .map(fileName => ({
-        path: `${dirPath}/${fileName}`,
-        name: fileName
-      }));
+    // List the markdown files in the directory and its subfolders
+    const files = listMarkdownFiles(dirPath);
       
     console.log('Found files:', files);
 
@@ -466,6 +791,7 @@ ipcMain.handle('select-directory', async (event, initialPath) => {
       success: true,
       dirPath: dirPath,
       files: files,
+      folders: listFolders(dirPath),
       message: 'Directory selected successfully'
     };
   } catch (error) {
@@ -477,14 +803,175 @@ ipcMain.handle('select-directory', async (event, initialPath) => {
   }
 });
 
-// Add an IPC listener for the prompt-response event
-ipcMain.on('prompt-response', (event, arg) => {
-  // This is handled in the dialog promise in show-prompt-dialog
-  console.log('Prompt response received:', arg);
+// The notes folder being watched for changes made outside the app
+let directoryWatcher = null;
+
+function stopWatchingDirectory() {
+  if (directoryWatcher) {
+    directoryWatcher.close();
+    directoryWatcher = null;
+  }
+}
+
+// Watches a notes folder and sends 'directory-changed' events to the page
+handle('watch-directory', (event, dirPath) => {
+  if (!sandbox.allows(dirPath)) {
+    return refused(`Directory is outside the notes folders: ${dirPath}`);
+  }
+
+  stopWatchingDirectory();
+
+  try {
+    const sender = event.sender;
+    directoryWatcher = new DirectoryWatcher(dirPath, change => {
+      if (!sender.isDestroyed()) {
+        sender.send('directory-changed', change);
+      }
+    });
+    console.log(`Watching directory: ${dirPath}`);
+    return { success: true, message: 'Watching directory' };
+  } catch (error) {
+    console.error('Error watching directory:', error);
+    return {
+      success: false,
+      message: error.message
+    };
+  }
+});
+
+handle('unwatch-directory', () => {
+  stopWatchingDirectory();
+  return { success: true, message: 'Stopped watching directory' };
+});
+
+// Keyboard shortcuts, editable from the page
+handle('get-shortcuts', () => shortcuts.list(), []);
+
+handle('set-shortcuts', (event, accelerators) => {
+  shortcuts.update(accelerators);
+  refreshMenu();
+  return shortcuts.list();
+}, []);
+
+// Teams listed in the Team menu
+handle('set-menu-teams', (event, teams, activeTeamId) => {
+  if (!Array.isArray(teams) || (activeTeamId !== null && !isText(activeTeamId))) {
+    return refused('Invalid set-menu-teams arguments');
+  }
+
+  menuTeams = teams
+    .filter(team => team && isText(team.id) && isText(team.name))
+    .map(team => ({ id: team.id, name: team.name }));
+  activeMenuTeamId = activeTeamId;
+  refreshMenu();
+  return { success: true, message: 'Menu updated' };
+});
+
+// Notes in their own window
+handle('open-note-window', (event, note) => {
+  const { path: notePath, name, content } = note || {};
+  if (!isPath(notePath) || !isText(name) || typeof content !== 'string') {
+    return refused('Invalid open-note-window arguments');
+  }
+
+  createNoteWindow({ path: notePath, name, content });
+  return { success: true, message: 'Note window opened' };
+});
+
+// The note a note window shows, with the content it had when last synced
+handle('get-note-window', (event) => {
+  const entry = noteWindows.get(event.sender.id);
+  return entry ? { path: entry.path, name: entry.name, content: entry.content } : null;
+}, null);
+
+// Passes edits of a note on to the other windows showing it
+handle('sync-note', (event, note) => {
+  const { path: notePath, content } = note || {};
+  if (!isPath(notePath) || typeof content !== 'string') {
+    return refused('Invalid sync-note arguments');
+  }
+
+  for (const entry of noteWindows.values()) {
+    if (entry.path === notePath) {
+      entry.content = content;
+    }
+  }
+
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (window.webContents !== event.sender && !window.isDestroyed()) {
+      window.webContents.send('note-synced', { path: notePath, content });
+    }
+  }
+  return { success: true, message: 'Note synced' };
+});
+
+// Files opened from the OS before the page was ready; the page asks once it listens
+handle('take-opened-files', (event) => {
+  if (!mainWindow || event.sender !== mainWindow.webContents) {
+    return [];
+  }
+  pageTakesOpenFiles = true;
+  return pendingOpenFiles.splice(0);
+}, []);
+
+// Adds a note the page opened to the OS recent documents (and the Windows jump list)
+handle('add-recent-document', (event, filePath) => {
+  if (!sandbox.allows(filePath) || !fs.existsSync(filePath)) {
+    return refused(`Not a note file: ${filePath}`);
+  }
+  app.addRecentDocument(filePath);
+  return { success: true, message: 'Added to recent documents' };
+});
+
+// Whether the main window has unsaved notes to ask about before closing
+handle('set-unsaved-changes', (event, unsaved) => {
+  if (!mainWindow || event.sender !== mainWindow.webContents) {
+    return refused('Only the main window tracks unsaved changes');
+  }
+  hasUnsavedChanges = !!unsaved;
+  return { success: true, message: 'Unsaved changes updated' };
+});
+
+// The page saved or discarded its unsaved notes; closes the window (or quits) as asked before
+handle('confirm-close', (event) => {
+  if (!mainWindow || event.sender !== mainWindow.webContents) {
+    return refused('Only the main window confirms closing');
+  }
+  hasUnsavedChanges = false;
+  if (quitAfterClose) {
+    app.quit();
+  } else {
+    mainWindow.close();
+  }
+  return { success: true, message: 'Closing' };
+});
+
+// Only one Laminotes runs at a time; later launches hand their files to it
+const isPrimaryInstance = app.requestSingleInstanceLock();
+if (!isPrimaryInstance) {
+  app.quit();
+}
+
+app.on('second-instance', (event, argv, workingDirectory) => {
+  focusApp();
+  markdownFilesIn(argv, workingDirectory).forEach(openFileFromSystem);
+});
+
+// macOS hands over files with an event instead of arguments, possibly before ready
+app.on('open-file', (event, filePath) => {
+  event.preventDefault();
+  openFileFromSystem(filePath);
+  if (app.isReady()) {
+    focusApp();
+  }
 });
 
 // Create window when Electron has finished initialization
 app.whenReady().then(() => {
+  if (!isPrimaryInstance) {
+    return;
+  }
+
   // Ensure base directory exists
   if (!fs.existsSync(baseDirectory)) {
     try {
@@ -494,7 +981,23 @@ app.whenReady().then(() => {
       console.error('Error creating base directory:', error);
     }
   }
+  refreshMenu();
   createWindow();
+
+  // Windows lists the recent notes in the taskbar jump list
+  if (process.platform === 'win32') {
+    app.setJumpList([{ type: 'recent' }]);
+  }
+
+  markdownFilesIn(process.argv, process.cwd()).forEach(openFileFromSystem);
+});
+
+app.on('before-quit', () => {
+  isQuitting = true;
+});
+
+app.on('will-quit', () => {
+  globalShortcut.unregisterAll();
 });
 
 // Quit when all windows are closed (except on macOS)
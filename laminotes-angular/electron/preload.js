@@ -1,17 +1,67 @@
 // preload.js
 const { contextBridge, ipcRenderer } = require('electron');
 
-// Expose protected methods that allow the renderer process to use
-// the ipcRenderer without exposing the entire object
+/**
+ * Subscribes a page callback to messages from the main process
+ * @returns The unsubscribe function
+ */
+function subscribe(channel, callback, shape) {
+  const listener = (event, message) => callback(shape(message));
+  ipcRenderer.on(channel, listener);
+  return () => ipcRenderer.removeListener(channel, listener);
+}
+
+// Expose the ElectronAPI (see src/electron.d.ts) without exposing ipcRenderer
+// itself. Only plain values cross the bridge; the main process validates them.
 contextBridge.exposeInMainWorld(
   'electronAPI', {
-    saveFile: (options) => ipcRenderer.invoke('save-file', options),
+    saveFile: (options = {}) => ipcRenderer.invoke('save-file', {
+      content: options.content,
+      filePath: options.filePath,
+      saveAs: !!options.saveAs,
+      getPathOnly: !!options.getPathOnly,
+      saveAsBinary: !!options.saveAsBinary,
+      mimeType: options.mimeType
+    }),
     openFile: () => ipcRenderer.invoke('open-file'),
     checkFile: (path) => ipcRenderer.invoke('check-file', path),
-    showPromptDialog: (options) => ipcRenderer.invoke('show-prompt-dialog', options),
+    showPromptDialog: (options = {}) => ipcRenderer.invoke('show-prompt-dialog', {
+      title: options.title,
+      label: options.label,
+      value: options.value
+    }),
     deleteFile: (path) => ipcRenderer.invoke('delete-file', path),
+    deleteDirectory: (path) => ipcRenderer.invoke('delete-directory', path),
     renameFile: (oldPath, newPath) => ipcRenderer.invoke('rename-file', oldPath, newPath),
     createDirectory: (path) => ipcRenderer.invoke('create-directory', path),
     selectDirectory: (initialPath = undefined) => ipcRenderer.invoke('select-directory', initialPath),
+    readFile: (path) => ipcRenderer.invoke('read-file', path),
+    watchDirectory: (path) => ipcRenderer.invoke('watch-directory', path),
+    unwatchDirectory: () => ipcRenderer.invoke('unwatch-directory'),
+    onDirectoryChanged: (callback) => subscribe('directory-changed', callback,
+      change => ({ type: change.type, path: change.path, name: change.name })),
+    onMenuCommand: (callback) => subscribe('menu-command', callback,
+      message => ({ command: message.command, argument: message.argument })),
+    getShortcuts: () => ipcRenderer.invoke('get-shortcuts'),
+    setShortcuts: (accelerators = {}) => ipcRenderer.invoke('set-shortcuts', { ...accelerators }),
+    setMenuTeams: (teams = [], activeTeamId = null) => ipcRenderer.invoke('set-menu-teams',
+      teams.map(team => ({ id: team.id, name: team.name })), activeTeamId),
+    openNoteWindow: (note = {}) => ipcRenderer.invoke('open-note-window', {
+      path: note.path,
+      name: note.name,
+      content: note.content
+    }),
+    getNoteWindow: () => ipcRenderer.invoke('get-note-window'),
+    syncNote: (path, content) => ipcRenderer.invoke('sync-note', { path, content }),
+    onNoteSynced: (callback) => subscribe('note-synced', callback,
+      note => ({ path: note.path, content: note.content })),
+    onNoteWindowsChanged: (callback) => subscribe('note-windows-changed', callback, paths => Array.from(paths)),
+    takeOpenedFiles: () => ipcRenderer.invoke('take-opened-files'),
+    onFileOpened: (callback) => subscribe('file-opened', callback,
+      file => ({ path: file.path, name: file.name, content: file.content })),
+    addRecentDocument: (path) => ipcRenderer.invoke('add-recent-document', path),
+    setUnsavedChanges: (unsaved) => ipcRenderer.invoke('set-unsaved-changes', !!unsaved),
+    onCloseRequested: (callback) => subscribe('close-requested', callback, () => undefined),
+    confirmClose: () => ipcRenderer.invoke('confirm-close'),
   }
 );
@@ -0,0 +1,9 @@
+// prompt-preload.js
+const { contextBridge, ipcRenderer } = require('electron');
+
+// The prompt window can only send its answer back
+contextBridge.exposeInMainWorld(
+  'promptAPI', {
+    respond: (result) => ipcRenderer.send('prompt-response', result),
+  }
+);
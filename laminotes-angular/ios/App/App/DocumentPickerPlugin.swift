@@ -0,0 +1,389 @@
+import Capacitor
+import UIKit
+import UniformTypeIdentifiers
+
+/// Opens and saves notes anywhere in the Files app, iCloud Drive included.
+///
+/// Documents and folders picked by the user are only reachable while their
+/// security scope is open, so every pick returns a bookmark. The web layer
+/// keeps the bookmarks and names one in each file operation, which lets a
+/// team folder picked once be used again after the app restarts.
+@objc(DocumentPickerPlugin)
+public class DocumentPickerPlugin: CAPPlugin, CAPBridgedPlugin, UIDocumentPickerDelegate {
+    public let identifier = "DocumentPickerPlugin"
+    public let jsName = "DocumentPicker"
+    public let pluginMethods: [CAPPluginMethod] = [
+        CAPPluginMethod(name: "pickDocument", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "pickDirectory", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "exportDocument", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "resolveBookmark", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "listFiles", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "readFile", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "writeFile", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "deleteFile", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "moveItem", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "createDirectory", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "exists", returnType: CAPPluginReturnPromise)
+    ]
+
+    private enum PickerKind {
+        case document
+        case directory
+        case export(temporaryURL: URL)
+    }
+
+    /// The call waiting for the picker on screen
+    private var pendingCall: CAPPluginCall?
+    private var pendingKind: PickerKind?
+
+    private let markdownType = UTType(filenameExtension: "md", conformingTo: .plainText) ?? .plainText
+
+    // MARK: - Pickers
+
+    @objc func pickDocument(_ call: CAPPluginCall) {
+        let picker = UIDocumentPickerViewController(forOpeningContentTypes: [markdownType, .plainText], asCopy: false)
+        present(picker, kind: .document, for: call)
+    }
+
+    @objc func pickDirectory(_ call: CAPPluginCall) {
+        let picker = UIDocumentPickerViewController(forOpeningContentTypes: [.folder], asCopy: false)
+        present(picker, kind: .directory, for: call)
+    }
+
+    @objc func exportDocument(_ call: CAPPluginCall) {
+        guard let fileName = call.getString("fileName"), !fileName.isEmpty,
+              !fileName.contains("/"), let data = call.getString("data") else {
+            call.reject("fileName and data are required")
+            return
+        }
+
+        // The picker moves this file to the location the user chooses
+        let temporaryURL = FileManager.default.temporaryDirectory.appendingPathComponent(fileName)
+        do {
+            try FileManager.default.removeItemIfPresent(at: temporaryURL)
+            try contents(of: data, binary: call.getBool("binary") ?? false).write(to: temporaryURL)
+        } catch {
+            call.reject("Could not prepare the document: \(error.localizedDescription)")
+            return
+        }
+
+        let picker = UIDocumentPickerViewController(forExporting: [temporaryURL], asCopy: false)
+        present(picker, kind: .export(temporaryURL: temporaryURL), for: call)
+    }
+
+    private func present(_ picker: UIDocumentPickerViewController, kind: PickerKind, for call: CAPPluginCall) {
+        DispatchQueue.main.async {
+            guard let viewController = self.bridge?.viewController else {
+                call.reject("No view to show the document picker from")
+                return
+            }
+            if let pending = self.pendingCall {
+                pending.resolve(["cancelled": true])
+            }
+
+            self.pendingCall = call
+            self.pendingKind = kind
+            picker.delegate = self
+            picker.allowsMultipleSelection = false
+            picker.modalPresentationStyle = .formSheet
+            viewController.present(picker, animated: true)
+        }
+    }
+
+    public func documentPicker(_ controller: UIDocumentPickerViewController, didPickDocumentsAt urls: [URL]) {
+        guard let call = pendingCall, let kind = pendingKind, let url = urls.first else {
+            documentPickerWasCancelled(controller)
+            return
+        }
+        pendingCall = nil
+        pendingKind = nil
+
+        DispatchQueue.global(qos: .userInitiated).async {
+            do {
+                let result: JSObject = try self.accessing(url) {
+                    var picked: JSObject = [
+                        "cancelled": false,
+                        "path": url.path,
+                        "name": url.lastPathComponent
+                    ]
+                    picked["bookmark"] = try self.bookmark(for: url)
+                    if case .document = kind {
+                        picked["content"] = try self.readText(at: url)
+                    }
+                    return picked
+                }
+                call.resolve(result)
+            } catch {
+                call.reject("Could not open \(url.lastPathComponent): \(error.localizedDescription)")
+            }
+        }
+    }
+
+    public func documentPickerWasCancelled(_ controller: UIDocumentPickerViewController) {
+        if case .export(let temporaryURL) = pendingKind {
+            try? FileManager.default.removeItemIfPresent(at: temporaryURL)
+        }
+        pendingCall?.resolve(["cancelled": true])
+        pendingCall = nil
+        pendingKind = nil
+    }
+
+    // MARK: - Bookmarked files
+
+    @objc func resolveBookmark(_ call: CAPPluginCall) {
+        guard let encoded = call.getString("bookmark") else {
+            call.reject("bookmark is required")
+            return
+        }
+
+        do {
+            let (url, isStale) = try resolve(encoded)
+            // A stale bookmark still resolves once; replace it while it does
+            let bookmark = try isStale ? accessing(url) { try self.bookmark(for: url) } : encoded
+            call.resolve(["path": url.path, "bookmark": bookmark])
+        } catch {
+            call.reject("Bookmark no longer resolves: \(error.localizedDescription)")
+        }
+    }
+
+    @objc func listFiles(_ call: CAPPluginCall) {
+        withTarget(call) { root in
+            let (files, folders) = try self.markdownFiles(below: root)
+            return ["files": files, "folders": folders]
+        }
+    }
+
+    @objc func readFile(_ call: CAPPluginCall) {
+        withTarget(call) { url in
+            let text = try self.readText(at: url)
+            return ["data": text]
+        }
+    }
+
+    @objc func writeFile(_ call: CAPPluginCall) {
+        guard let data = call.getString("data") else {
+            call.reject("data is required")
+            return
+        }
+        let binary = call.getBool("binary") ?? false
+
+        withTarget(call) { url in
+            let contents = try self.contents(of: data, binary: binary)
+            try FileManager.default.createDirectory(at: url.deletingLastPathComponent(), withIntermediateDirectories: true)
+            try self.coordinate(writing: url) { try contents.write(to: $0, options: .atomic) }
+            return nil
+        }
+    }
+
+    @objc func deleteFile(_ call: CAPPluginCall) {
+        withTarget(call) { url in
+            try self.coordinate(deleting: url) { try FileManager.default.removeItem(at: $0) }
+            return nil
+        }
+    }
+
+    /// Moves a file or folder to another path below the same bookmarked location
+    @objc func moveItem(_ call: CAPPluginCall) {
+        let relativePath = call.getString("path") ?? ""
+        let destination = (call.getString("to") ?? "").split(separator: "/").map(String.init)
+        guard !destination.isEmpty, !destination.contains("..") else {
+            call.reject("Path leaves the picked location: \(call.getString("to") ?? "")")
+            return
+        }
+
+        withTarget(call) { url in
+            let root = relativePath.split(separator: "/").reduce(url) { url, _ in url.deletingLastPathComponent() }
+            let target = destination.reduce(root) { $0.appendingPathComponent($1) }
+            guard !FileManager.default.fileExists(atPath: target.path) else {
+                throw CocoaError(.fileWriteFileExists)
+            }
+            try FileManager.default.createDirectory(at: target.deletingLastPathComponent(), withIntermediateDirectories: true)
+            try self.coordinate(moving: url, to: target)
+            return nil
+        }
+    }
+
+    @objc func createDirectory(_ call: CAPPluginCall) {
+        withTarget(call) { url in
+            try FileManager.default.createDirectory(at: url, withIntermediateDirectories: true)
+            return nil
+        }
+    }
+
+    @objc func exists(_ call: CAPPluginCall) {
+        withTarget(call) { url in
+            ["exists": FileManager.default.fileExists(atPath: url.path)]
+        }
+    }
+
+    /// Runs a file operation on the call's bookmark and relative path, in the bookmark's security scope
+    private func withTarget(_ call: CAPPluginCall, _ operation: @escaping (URL) throws -> JSObject?) {
+        guard let encoded = call.getString("bookmark") else {
+            call.reject("bookmark is required")
+            return
+        }
+        let relativePath = call.getString("path") ?? ""
+        let components = relativePath.split(separator: "/").map(String.init)
+        guard !components.contains("..") else {
+            call.reject("Path leaves the picked location: \(relativePath)")
+            return
+        }
+
+        DispatchQueue.global(qos: .userInitiated).async {
+            do {
+                let (root, _) = try self.resolve(encoded)
+                let url = components.reduce(root) { $0.appendingPathComponent($1) }
+                let result = try self.accessing(root) { try operation(url) }
+                call.resolve(result ?? [:])
+            } catch {
+                call.reject(error.localizedDescription)
+            }
+        }
+    }
+
+    // MARK: - Helpers
+
+    private func bookmark(for url: URL) throws -> String {
+        try url.bookmarkData(options: [], includingResourceValuesForKeys: nil, relativeTo: nil).base64EncodedString()
+    }
+
+    private func resolve(_ encoded: String) throws -> (URL, Bool) {
+        guard let data = Data(base64Encoded: encoded) else {
+            throw CocoaError(.fileReadCorruptFile)
+        }
+        var isStale = false
+        let url = try URL(resolvingBookmarkData: data, options: [], relativeTo: nil, bookmarkDataIsStale: &isStale)
+        return (url, isStale)
+    }
+
+    /// Opens the security scope of a picked location for the length of the work
+    private func accessing<T>(_ url: URL, _ work: () throws -> T) throws -> T {
+        let isAccessing = url.startAccessingSecurityScopedResource()
+        defer {
+            if isAccessing {
+                url.stopAccessingSecurityScopedResource()
+            }
+        }
+        return try work()
+    }
+
+    private func contents(of data: String, binary: Bool) throws -> Data {
+        if binary {
+            guard let decoded = Data(base64Encoded: data) else {
+                throw CocoaError(.fileWriteInapplicableStringEncoding)
+            }
+            return decoded
+        }
+        return Data(data.utf8)
+    }
+
+    /// Reads through a file coordinator, which downloads iCloud documents not yet on the device
+    private func readText(at url: URL) throws -> String {
+        var text = ""
+        try coordinate(reading: url) { text = try String(contentsOf: $0, encoding: .utf8) }
+        return text
+    }
+
+    private func coordinate(reading url: URL, _ work: (URL) throws -> Void) throws {
+        var coordinationError: NSError?
+        var workError: Error?
+        NSFileCoordinator().coordinate(readingItemAt: url, options: [], error: &coordinationError) { readURL in
+            do { try work(readURL) } catch { workError = error }
+        }
+        if let error = coordinationError ?? workError {
+            throw error
+        }
+    }
+
+    private func coordinate(writing url: URL, _ work: (URL) throws -> Void) throws {
+        var coordinationError: NSError?
+        var workError: Error?
+        NSFileCoordinator().coordinate(writingItemAt: url, options: .forReplacing, error: &coordinationError) { writeURL in
+            do { try work(writeURL) } catch { workError = error }
+        }
+        if let error = coordinationError ?? workError {
+            throw error
+        }
+    }
+
+    private func coordinate(deleting url: URL, _ work: (URL) throws -> Void) throws {
+        var coordinationError: NSError?
+        var workError: Error?
+        NSFileCoordinator().coordinate(writingItemAt: url, options: .forDeleting, error: &coordinationError) { deleteURL in
+            do { try work(deleteURL) } catch { workError = error }
+        }
+        if let error = coordinationError ?? workError {
+            throw error
+        }
+    }
+
+    private func coordinate(moving url: URL, to destination: URL) throws {
+        var coordinationError: NSError?
+        var workError: Error?
+        let coordinator = NSFileCoordinator()
+        coordinator.coordinate(writingItemAt: url, options: .forMoving, writingItemAt: destination, options: .forReplacing, error: &coordinationError) { fromURL, toURL in
+            do {
+                try FileManager.default.moveItem(at: fromURL, to: toURL)
+                coordinator.item(at: fromURL, didMoveTo: toURL)
+            } catch {
+                workError = error
+            }
+        }
+        if let error = coordinationError ?? workError {
+            throw error
+        }
+    }
+
+    /// Markdown files and folders below a folder, named by their path relative to it. iCloud
+    /// files not downloaded yet show up as hidden ".Name.md.icloud" placeholders;
+    /// they are listed under their real name and their download is started.
+    private func markdownFiles(below root: URL) throws -> (files: [JSObject], folders: [String]) {
+        let keys: [URLResourceKey] = [.isDirectoryKey, .fileSizeKey, .contentModificationDateKey]
+        guard let enumerator = FileManager.default.enumerator(at: root, includingPropertiesForKeys: keys) else {
+            throw CocoaError(.fileReadNoSuchFile)
+        }
+
+        let rootComponents = root.standardizedFileURL.pathComponents
+        var files: [JSObject] = []
+        var folders: [String] = []
+        for case let url as URL in enumerator {
+            let values = try url.resourceValues(forKeys: Set(keys))
+            var name = url.lastPathComponent
+
+            if name.hasPrefix(".") && name.hasSuffix(".icloud") {
+                name = String(name.dropFirst().dropLast(".icloud".count))
+                try? FileManager.default.startDownloadingUbiquitousItem(at: url.deletingLastPathComponent().appendingPathComponent(name))
+            } else if name.hasPrefix(".") {
+                if values.isDirectory == true {
+                    enumerator.skipDescendants()
+                }
+                continue
+            }
+
+            let parents = url.deletingLastPathComponent().standardizedFileURL.pathComponents.dropFirst(rootComponents.count)
+            if values.isDirectory == true {
+                folders.append((parents + [name]).joined(separator: "/"))
+                continue
+            }
+
+            guard name.lowercased().hasSuffix(".md") else {
+                continue
+            }
+
+            files.append([
+                "name": (parents + [name]).joined(separator: "/"),
+                "size": values.fileSize ?? 0,
+                "mtime": (values.contentModificationDate?.timeIntervalSince1970 ?? 0) * 1000
+            ])
+        }
+        return (files, folders)
+    }
+}
+
+private extension FileManager {
+    func removeItemIfPresent(at url: URL) throws {
+        if fileExists(atPath: url.path) {
+            try removeItem(at: url)
+        }
+    }
+}
@@ -0,0 +1,10 @@
+import Capacitor
+import UIKit
+
+/// Bridge view controller that registers the plugins living in this app target
+class MainViewController: CAPBridgeViewController {
+    override open func capacitorDidLoad() {
+        bridge?.registerPluginInstance(DocumentPickerPlugin())
+        bridge?.registerPluginInstance(ShareSheetPlugin())
+    }
+}
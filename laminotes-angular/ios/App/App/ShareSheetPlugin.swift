@@ -0,0 +1,117 @@
+import Capacitor
+import UIKit
+
+/// Connects Laminotes to the system share sheet.
+///
+/// Content shared to Laminotes is left in the app group container by the
+/// share extension; this plugin hands it to the web layer and tells it when
+/// new content is waiting. Notes go the other way through a share sheet
+/// showing an exported file.
+@objc(ShareSheetPlugin)
+public class ShareSheetPlugin: CAPPlugin, CAPBridgedPlugin {
+    public let identifier = "ShareSheetPlugin"
+    public let jsName = "ShareSheet"
+    public let pluginMethods: [CAPPluginMethod] = [
+        CAPPluginMethod(name: "takeSharedContent", returnType: CAPPluginReturnPromise),
+        CAPPluginMethod(name: "shareFile", returnType: CAPPluginReturnPromise)
+    ]
+
+    /// App group shared with the share extension
+    private let appGroup = "group.com.laminotes.app"
+
+    override public func load() {
+        NotificationCenter.default.addObserver(self, selector: #selector(applicationDidBecomeActive),
+                                               name: UIApplication.didBecomeActiveNotification, object: nil)
+    }
+
+    deinit {
+        NotificationCenter.default.removeObserver(self)
+    }
+
+    @objc private func applicationDidBecomeActive() {
+        if !pendingShares().isEmpty {
+            notifyListeners("sharedContentAvailable", data: [:])
+        }
+    }
+
+    /// Returns the content shared since the last call, oldest first, and removes it from the container
+    @objc func takeSharedContent(_ call: CAPPluginCall) {
+        var shares: [JSObject] = []
+        for url in pendingShares() {
+            defer { try? FileManager.default.removeItem(at: url) }
+            guard let data = try? Data(contentsOf: url),
+                  let share = try? JSONSerialization.jsonObject(with: data) as? [String: Any],
+                  let object = JSTypes.coerceDictionaryToJSObject(share) else {
+                continue
+            }
+            shares.append(object)
+        }
+
+        shares.sort { ($0["createdAt"] as? Double ?? 0) < ($1["createdAt"] as? Double ?? 0) }
+        call.resolve(["shares": shares])
+    }
+
+    /// Shows the share sheet for a file made from text, or base64 data when binary is set
+    @objc func shareFile(_ call: CAPPluginCall) {
+        guard let fileName = call.getString("fileName"), !fileName.isEmpty, !fileName.contains("/"),
+              let data = call.getString("data") else {
+            call.reject("fileName and data are required")
+            return
+        }
+
+        let contents: Data?
+        if call.getBool("binary") ?? false {
+            contents = Data(base64Encoded: data)
+        } else {
+            contents = Data(data.utf8)
+        }
+
+        let folder = FileManager.default.temporaryDirectory.appendingPathComponent(UUID().uuidString, isDirectory: true)
+        let fileURL = folder.appendingPathComponent(fileName)
+        do {
+            guard let contents = contents else {
+                throw CocoaError(.fileWriteInapplicableStringEncoding)
+            }
+            try FileManager.default.createDirectory(at: folder, withIntermediateDirectories: true)
+            try contents.write(to: fileURL)
+        } catch {
+            call.reject("Could not prepare \(fileName): \(error.localizedDescription)")
+            return
+        }
+
+        DispatchQueue.main.async {
+            guard let viewController = self.bridge?.viewController else {
+                try? FileManager.default.removeItem(at: folder)
+                call.reject("No view to show the share sheet from")
+                return
+            }
+
+            let activity = UIActivityViewController(activityItems: [fileURL], applicationActivities: nil)
+            activity.completionWithItemsHandler = { _, completed, _, error in
+                try? FileManager.default.removeItem(at: folder)
+                if let error = error {
+                    call.reject(error.localizedDescription)
+                } else {
+                    call.resolve(["completed": completed])
+                }
+            }
+
+            // iPad shows the share sheet as a popover
+            if let popover = activity.popoverPresentationController {
+                popover.sourceView = viewController.view
+                popover.sourceRect = CGRect(x: viewController.view.bounds.midX, y: viewController.view.bounds.minY + 60, width: 0, height: 0)
+                popover.permittedArrowDirections = .up
+            }
+            viewController.present(activity, animated: true)
+        }
+    }
+
+    private func pendingShares() -> [URL] {
+        guard let container = FileManager.default.containerURL(forSecurityApplicationGroupIdentifier: appGroup) else {
+            return []
+        }
+        let folder = container.appendingPathComponent("SharedItems", isDirectory: true)
+        let files = (try? FileManager.default.contentsOfDirectory(at: folder, includingPropertiesForKeys: nil)) ?? []
+        return files.filter { $0.pathExtension == "json" }
+    }
+}
@@ -0,0 +1,134 @@
+import Social
+import UIKit
+import UniformTypeIdentifiers
+
+/// Share sheet entry of Laminotes.
+///
+/// Collects the shared text, web links and images with the user's comment and
+/// leaves them in the app group container. Laminotes picks them up the next
+/// time it becomes active and asks whether they go into a new note or the
+/// open one.
+class ShareViewController: SLComposeServiceViewController {
+    /// App group shared with the app; ShareSheetPlugin reads from the same folder
+    private let appGroup = "group.com.laminotes.app"
+
+    /// Longest side of shared images; larger photos are scaled down to keep notes small
+    private let maxImageSide: CGFloat = 2048
+
+    override func viewDidLoad() {
+        super.viewDidLoad()
+        title = "Laminotes"
+        placeholder = "Add a comment"
+    }
+
+    override func isContentValid() -> Bool {
+        true
+    }
+
+    override func configurationItems() -> [Any]! {
+        []
+    }
+
+    override func didSelectPost() {
+        let extensionItems = extensionContext?.inputItems as? [NSExtensionItem] ?? []
+        let attachments = extensionItems.flatMap { item in
+            (item.attachments ?? []).map { (provider: $0, title: item.attributedTitle?.string) }
+        }
+
+        // Loaded out of order; kept in the order they were shared
+        var items = [[String: Any]?](repeating: nil, count: attachments.count)
+        let group = DispatchGroup()
+        for (index, attachment) in attachments.enumerated() {
+            group.enter()
+            load(attachment.provider, title: attachment.title) { item in
+                DispatchQueue.main.async {
+                    items[index] = item
+                    group.leave()
+                }
+            }
+        }
+
+        group.notify(queue: .main) {
+            self.store(comment: self.contentText ?? "", items: items.compactMap { $0 })
+            self.extensionContext?.completeRequest(returningItems: [], completionHandler: nil)
+        }
+    }
+
+    private func load(_ provider: NSItemProvider, title: String?, completion: @escaping ([String: Any]?) -> Void) {
+        if provider.hasItemConformingToTypeIdentifier(UTType.image.identifier) {
+            provider.loadItem(forTypeIdentifier: UTType.image.identifier) { value, _ in
+                var image: UIImage?
+                var name = provider.suggestedName ?? "Image"
+                if let url = value as? URL, let data = try? Data(contentsOf: url) {
+                    image = UIImage(data: data)
+                    name = url.deletingPathExtension().lastPathComponent
+                } else if let data = value as? Data {
+                    image = UIImage(data: data)
+                } else {
+                    image = value as? UIImage
+                }
+
+                guard let jpeg = image.flatMap({ self.scaledDown($0) })?.jpegData(compressionQuality: 0.85) else {
+                    completion(nil)
+                    return
+                }
+                completion(["type": "image", "name": name, "mimeType": "image/jpeg", "data": jpeg.base64EncodedString()])
+            }
+        } else if provider.hasItemConformingToTypeIdentifier(UTType.url.identifier) {
+            provider.loadItem(forTypeIdentifier: UTType.url.identifier) { value, _ in
+                guard let url = value as? URL, !url.isFileURL else {
+                    completion(nil)
+                    return
+                }
+                completion(["type": "url", "url": url.absoluteString, "title": title ?? ""])
+            }
+        } else if provider.hasItemConformingToTypeIdentifier(UTType.plainText.identifier) {
+            provider.loadItem(forTypeIdentifier: UTType.plainText.identifier) { value, _ in
+                var text = value as? String
+                if let url = value as? URL {
+                    text = try? String(contentsOf: url, encoding: .utf8)
+                }
+                completion(text.map { ["type": "text", "text": $0] })
+            }
+        } else {
+            completion(nil)
+        }
+    }
+
+    private func scaledDown(_ image: UIImage) -> UIImage {
+        let longestSide = max(image.size.width, image.size.height)
+        guard longestSide > maxImageSide else {
+            return image
+        }
+
+        let scale = maxImageSide / longestSide
+        let size = CGSize(width: image.size.width * scale, height: image.size.height * scale)
+        return UIGraphicsImageRenderer(size: size).image { _ in
+            image.draw(in: CGRect(origin: .zero, size: size))
+        }
+    }
+
+    /// Writes one share as SharedItems/<id>.json in the app group container
+    private func store(comment: String, items: [[String: Any]]) {
+        guard !items.isEmpty || !comment.trimmingCharacters(in: .whitespacesAndNewlines).isEmpty,
+              let container = FileManager.default.containerURL(forSecurityApplicationGroupIdentifier: appGroup) else {
+            return
+        }
+
+        let id = UUID().uuidString
+        let share: [String: Any] = [
+            "id": id,
+            "createdAt": Date().timeIntervalSince1970 * 1000,
+            "comment": comment,
+            "items": items
+        ]
+
+        do {
+            let folder = container.appendingPathComponent("SharedItems", isDirectory: true)
+            try FileManager.default.createDirectory(at: folder, withIntermediateDirectories: true)
+            try JSONSerialization.data(withJSONObject: share).write(to: folder.appendingPathComponent("\(id).json"), options: .atomic)
+        } catch {
+            NSLog("Laminotes share extension could not store the shared content: \(error)")
+        }
+    }
+}
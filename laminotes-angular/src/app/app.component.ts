@@ -1,14 +1,23 @@
 import {Component, ViewEncapsulation} from '@angular/core';
+import { NgIf } from '@angular/common';
 import { RouterOutlet } from '@angular/router';
+import { NoteWindowComponent } from './components/note-window/note-window.component';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet],
+  imports: [NgIf, RouterOutlet, NoteWindowComponent],
   standalone: true,
-  template: '<router-outlet></router-outlet>',
+  // Electron opens single notes in their own window with ?note=<path>
+  template: `
+    <app-note-window *ngIf="isNoteWindow; else app"></app-note-window>
+    <ng-template #app><router-outlet></router-outlet></ng-template>
+  `,
   styleUrls: ['./layouts/note-app-layout/note-app-layout.component.css'],
   encapsulation: ViewEncapsulation.None
 })
 export class AppComponent {
   title = 'laminotes-angular';
+
+  /** Whether this window shows a single note rather than the whole app */
+  readonly isNoteWindow = new URLSearchParams(window.location.search).has('note');
 }
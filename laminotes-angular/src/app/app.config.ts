@@ -1,4 +1,4 @@
-import { ApplicationConfig, SecurityContext } from '@angular/core';
+import { ApplicationConfig, SecurityContext, inject, provideAppInitializer } from '@angular/core';
 import { provideRouter } from '@angular/router';
 import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { provideAnimations } from '@angular/platform-browser/animations';
@@ -6,6 +6,7 @@ import { MARKED_OPTIONS, MarkedOptions, provideMarkdown } from 'ngx-markdown';
 
 import { routes } from './app.routes';
 import { authInterceptor } from './interceptors/auth.interceptor';
+import { StorageService } from './services/storage.service';
 
 // No need to import Prism components here since we're loading them via CDN in index.html
 
@@ -15,6 +16,8 @@ export const appConfig: ApplicationConfig = {
     provideRouter(routes),
     provideHttpClient(withInterceptors([authInterceptor])),
     provideAnimations(),
+    // Notes are read synchronously, so local storage must be loaded before anything runs
+    provideAppInitializer(() => inject(StorageService).init()),
     provideMarkdown({
       markedOptions: {
         provide: MARKED_OPTIONS,
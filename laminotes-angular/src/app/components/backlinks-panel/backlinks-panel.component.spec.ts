@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { BacklinksPanelComponent } from './backlinks-panel.component';
+
+describe('BacklinksPanelComponent', () => {
+  let component: BacklinksPanelComponent;
+  let fixture: ComponentFixture<BacklinksPanelComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [BacklinksPanelComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(BacklinksPanelComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
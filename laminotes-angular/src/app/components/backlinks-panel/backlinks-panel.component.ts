@@ -0,0 +1,162 @@
+/**
+ * Backlinks panel component.
+ *
+ * Side panel listing the notes whose `[[links]]` point at the open note,
+ * with the line of each link. Choosing one opens that note at the link.
+ */
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Backlink } from '../../services/search.service';
+import { noteTitle } from '../../services/wikilinks';
+
+/**
+ * Component listing the notes linking to the open note
+ */
+@Component({
+  selector: 'app-backlinks-panel',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="backlinks">
+      <div class="backlinks-header">
+        <div class="backlinks-title">
+          <h3>BACKLINKS</h3>
+          <span class="file-label">{{ fileName }}</span>
+        </div>
+        <div class="header-actions">
+          <button class="icon-action" title="Close" (click)="closed.emit()">
+            <i class="fas fa-times"></i>
+          </button>
+        </div>
+      </div>
+
+      <div class="backlinks-hint" *ngIf="loading">
+        <i class="fas fa-spinner fa-spin"></i> Reading notes...
+      </div>
+
+      <div class="backlink-list">
+        <div *ngFor="let backlink of backlinks" class="backlink-item" (click)="backlinkOpened.emit(backlink)">
+          <div class="backlink-name">
+            <i class="fas fa-file-alt"></i>
+            {{ backlink.name }}
+          </div>
+          <div class="backlink-snippet">{{ backlink.snippet }}</div>
+        </div>
+
+        <div class="backlinks-hint" *ngIf="!loading && backlinks.length === 0">
+          No notes link here yet. Link to this note with [[{{ title }}]].
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .backlinks {
+      display: flex;
+      flex-direction: column;
+      height: 100%;
+      background-color: #1A1C25;
+      color: #F3F3F7;
+    }
+
+    .backlinks-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 10px 15px;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .backlinks-title h3 {
+      margin: 0;
+      font-size: 14px;
+      letter-spacing: 1px;
+    }
+
+    .file-label {
+      font-size: 12px;
+      color: #A0A3B1;
+    }
+
+    .header-actions {
+      display: flex;
+      gap: 6px;
+    }
+
+    .icon-action {
+      background: none;
+      border: none;
+      color: #A0A3B1;
+      cursor: pointer;
+      padding: 4px 6px;
+      border-radius: 3px;
+    }
+
+    .icon-action:hover {
+      color: #FF5F1F;
+      background-color: rgba(255, 95, 31, 0.1);
+    }
+
+    .backlinks-hint {
+      padding: 8px 15px;
+      font-size: 12px;
+      color: #A0A3B1;
+    }
+
+    .backlink-list {
+      flex: 1;
+      overflow-y: auto;
+    }
+
+    .backlink-item {
+      padding: 10px 15px;
+      border-bottom: 1px solid #22242E;
+      cursor: pointer;
+    }
+
+    .backlink-item:hover {
+      background-color: #22242E;
+    }
+
+    .backlink-name {
+      font-size: 13px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .backlink-name i {
+      color: #FF5F1F;
+      margin-right: 4px;
+    }
+
+    .backlink-snippet {
+      font-size: 12px;
+      color: #A0A3B1;
+      margin-top: 4px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+  `]
+})
+export class BacklinksPanelComponent {
+  /** Name of the open note */
+  @Input() fileName: string = '';
+
+  /** Notes linking to it */
+  @Input() backlinks: Backlink[] = [];
+
+  /** Whether notes are still being read */
+  @Input() loading: boolean = false;
+
+  /** Emits the backlink chosen */
+  @Output() backlinkOpened = new EventEmitter<Backlink>();
+
+  /** Emits when the panel is closed */
+  @Output() closed = new EventEmitter<void>();
+
+  /** Title other notes link to this one by */
+  get title(): string {
+    return noteTitle(this.fileName);
+  }
+}
@@ -1,7 +1,12 @@
-import { Component, Input, OnChanges, SimpleChanges, AfterViewChecked, ElementRef, ViewChild } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnChanges, SimpleChanges, AfterViewChecked, ElementRef, ViewChild, HostListener } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { MarkdownModule, MarkdownService } from 'ngx-markdown';
 import { ColoredSectionsOverlayComponent } from '../colored-sections-overlay/colored-sections-overlay.component';
+import { AuthorshipSpan } from '../../services/authorship-tracker';
+import { RenderedBlock, collectRenderedBlocks, withSourceMarkers } from '../../services/markdown-source-map';
+import { BlameLine, latestChange } from '../../services/blame';
+import { MeasuredBlock, blockAnchors, lineForOffset, offsetForLine } from '../../services/scroll-sync';
+import { WikiLink, renderWikiLinks, resolveWikiLink } from '../../services/wikilinks';
 
 declare global {
   interface Window {
@@ -10,22 +15,71 @@ declare global {
   }
 }
 
+/**
+ * Blame label for one rendered block
+ */
+interface BlameAnnotation {
+  /** Offset of the block from the top of the scrollable content */
+  top: number;
+
+  /** Height of the block */
+  height: number;
+
+  /** The latest change to the block's lines */
+  line: BlameLine;
+
+  /** Whether the block above was last changed by the same version */
+  repeated: boolean;
+}
+
 @Component({
   selector: 'app-colored-markdown-view',
   standalone: true,
   imports: [CommonModule, MarkdownModule, ColoredSectionsOverlayComponent],
   template: `
     <div class="markdown-container">
-      <div #markdownScrollable class="markdown-scrollable">
+      <div #markdownScrollable class="markdown-scrollable" (click)="onContentClick($event)" (scroll)="onScroll()">
         <markdown
+          #markdownContent
           class="markdown-content"
-          [data]="content"
+          [class.with-blame]="blame"
+          [data]="markedContent"
           [disableSanitizer]="true"
+          (ready)="onRendered()"
         ></markdown>
 
+        <div class="blame-gutter" *ngIf="blame">
+          <div *ngFor="let annotation of blameAnnotations"
+               class="blame-annotation"
+               [class.uncommitted]="!annotation.line.version"
+               [class.repeated]="annotation.repeated"
+               [style.top.px]="annotation.top"
+               [style.height.px]="annotation.height">
+            <div class="blame-label" *ngIf="annotation.line.version as version; else unsaved">
+              <span class="blame-author">{{ version.username || version.userId }}</span>
+              <span class="blame-meta">{{ version.versionId | slice:0:8 }} · {{ version.timestamp | date:'short' }}</span>
+            </div>
+            <ng-template #unsaved>
+              <div class="blame-label">
+                <span class="blame-author">Not saved yet</span>
+              </div>
+            </ng-template>
+
+            <div class="blame-card" *ngIf="annotation.line.version as version">
+              <div class="blame-message">{{ version.message || 'No message' }}</div>
+              <div class="blame-meta">{{ version.username || version.userId }} · {{ version.timestamp | date:'medium' }}</div>
+              <button class="blame-diff-button" (click)="versionDiffRequested.emit(version.versionId)">
+                <i class="fas fa-code-branch"></i> View changes
+              </button>
+            </div>
+          </div>
+        </div>
+
         <app-colored-sections-overlay
-          *ngIf="hasUserColors"
-          [content]="content"
+          *ngIf="hasAuthorship && !blame"
+          [source]="sourceText"
+          [spans]="authorshipSpans"
+          [blocks]="renderedBlocks"
           [userColors]="userColors">
         </app-colored-sections-overlay>
       </div>
@@ -59,6 +113,110 @@ declare global {
       line-height: 1.6;
     }
 
+    :host ::ng-deep .markdown-content .source-active {
+      background-color: rgba(255, 95, 31, 0.06);
+      box-shadow: -6px 0 0 rgba(255, 95, 31, 0.06), -8px 0 0 #FF5F1F;
+      border-radius: 2px;
+    }
+
+    .markdown-content.with-blame {
+      padding-left: 160px;
+    }
+
+    .blame-gutter {
+      position: absolute;
+      top: 0;
+      left: 0;
+      width: 150px;
+      z-index: 2;
+    }
+
+    .blame-annotation {
+      position: absolute;
+      left: 0;
+      width: 100%;
+      border-left: 2px solid #38B6FF;
+      background-color: rgba(56, 182, 255, 0.05);
+      cursor: default;
+    }
+
+    .blame-annotation.uncommitted {
+      border-left-color: #FF5F1F;
+      background-color: rgba(255, 95, 31, 0.05);
+    }
+
+    .blame-annotation.repeated .blame-label {
+      visibility: hidden;
+    }
+
+    .blame-label {
+      display: flex;
+      flex-direction: column;
+      padding: 2px 6px;
+      font-size: 11px;
+      line-height: 1.4;
+      overflow: hidden;
+    }
+
+    .blame-author {
+      color: #F3F3F7;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .blame-meta {
+      color: #A0A3B1;
+      font-size: 11px;
+      white-space: nowrap;
+    }
+
+    .blame-card {
+      display: none;
+      position: absolute;
+      top: 0;
+      left: 100%;
+      width: 260px;
+      padding: 10px 12px;
+      background-color: #22242E;
+      border: 1px solid rgba(255, 95, 31, 0.3);
+      border-radius: 6px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.4);
+      z-index: 3;
+    }
+
+    .blame-annotation:hover .blame-card {
+      display: block;
+    }
+
+    .blame-message {
+      color: #F3F3F7;
+      font-size: 13px;
+      margin-bottom: 6px;
+      white-space: pre-wrap;
+    }
+
+    .blame-diff-button {
+      margin-top: 8px;
+      padding: 4px 10px;
+      background: #161820;
+      border: 1px solid rgba(255, 95, 31, 0.3);
+      border-radius: 3px;
+      color: #A0A3B1;
+      font-size: 12px;
+      cursor: pointer;
+    }
+
+    .blame-diff-button:hover {
+      color: #F3F3F7;
+      border-color: #FF5F1F;
+    }
+
+    .blame-diff-button i {
+      color: #FF5F1F;
+      margin-right: 4px;
+    }
+
     :host ::ng-deep pre {
       background-color: #161b22;
       border-radius: 6px;
@@ -71,6 +229,17 @@ declare global {
       font-family: Menlo, Monaco, Consolas, "Courier New", monospace;
     }
 
+    :host ::ng-deep .wikilink {
+      color: #38B6FF;
+      text-decoration: none;
+      border-bottom: 1px dashed rgba(56, 182, 255, 0.5);
+    }
+
+    :host ::ng-deep .wikilink.wikilink-missing {
+      color: #A0A3B1;
+      border-bottom-color: rgba(160, 163, 177, 0.5);
+    }
+
     :host ::ng-deep .mermaid {
       background-color: #1e1e1e;
       border-radius: 6px;
@@ -229,11 +398,53 @@ declare global {
 export class ColoredMarkdownViewComponent implements OnChanges, AfterViewChecked {
   @Input() content: string = '';
   @Input() userColors: Record<string, string> = {};
+
+  /** Editor text `content` was derived from, line for line; defaults to `content` */
+  @Input() source: string = '';
+
+  /** Authored runs of `source`, shown as coloured blocks */
+  @Input() authorshipSpans: AuthorshipSpan[] = [];
+
+  /** Per-line blame of `source`; set to show blame mode */
+  @Input() blame: BlameLine[] | null = null;
+
+  /** Notes `[[links]]` can point at; links to other names are shown as missing */
+  @Input() notes: { name: string }[] = [];
+
+  /** Emits the id of a version whose changes the user wants to see */
+  @Output() versionDiffRequested = new EventEmitter<string>();
+
+  /** Source line of the editor caret; the block written there is highlighted */
+  @Input() activeLine: number | null = null;
+
+  /** Emits the `[[link]]` clicked */
+  @Output() wikiLinkClicked = new EventEmitter<Pick<WikiLink, 'target' | 'heading'>>();
+
+  /** Emits the first source line of a block clicked */
+  @Output() sourceLineClicked = new EventEmitter<number>();
+
+  /** Emits the source line at the top of the view as the user scrolls, with the fraction scrolled past */
+  @Output() scrolledToLine = new EventEmitter<number>();
+
   @ViewChild('markdownScrollable') markdownScrollable!: ElementRef;
+  @ViewChild('markdownContent', { read: ElementRef }) markdownContent?: ElementRef<HTMLElement>;
+
+  hasAuthorship: boolean = false;
+
+  /** Content with source markers, as handed to the renderer */
+  markedContent: string = '';
+
+  /** Rendered elements of each block of the source */
+  renderedBlocks: RenderedBlock[] = [];
+
+  /** Blame labels shown in blame mode */
+  blameAnnotations: BlameAnnotation[] = [];
 
-  hasUserColors: boolean = false;
   private contentChanged = false;
 
+  /** Scroll position set by scrollToLine, whose scroll event isn't the user's */
+  private syncedScrollTop: number | null = null;
+
   /**
    * Sets up the component and configures the markdown renderer
    * @param markdownService The injected MarkdownService
@@ -287,13 +498,178 @@ export class ColoredMarkdownViewComponent implements OnChanges, AfterViewChecked
   }
 
   ngOnChanges(changes: SimpleChanges): void {
-    if (changes['userColors']) {
-      this.hasUserColors = Object.keys(this.userColors || {}).length > 0;
+    if (changes['authorshipSpans']) {
+      this.hasAuthorship = (this.authorshipSpans || []).length > 0;
     }
 
-    if (changes['content']) {
+    if (changes['content'] || changes['notes']) {
+      const content = renderWikiLinks(this.content || '', link => !!resolveWikiLink(link.target, this.notes));
+      this.markedContent = withSourceMarkers(content);
       this.contentChanged = true;
     }
+
+    if (changes['blame']) {
+      setTimeout(() => this.updateBlameAnnotations(), 0);
+    }
+
+    if (changes['activeLine']) {
+      this.highlightActiveBlock();
+    }
+  }
+
+  @HostListener('window:resize')
+  onResize(): void {
+    this.updateBlameAnnotations();
+  }
+
+  /**
+   * The element the markdown is rendered into, e.g. for export
+   */
+  get renderedElement(): HTMLElement | null {
+    return this.markdownContent?.nativeElement || null;
+  }
+
+  /**
+   * The text line numbers refer to
+   */
+  get sourceText(): string {
+    return this.source || this.content;
+  }
+
+  /**
+   * Follows clicks on `[[links]]` instead of the anchors' empty targets
+   */
+  onContentClick(event: MouseEvent): void {
+    const target = event.target as HTMLElement;
+    const anchor = target.closest('a.wikilink') as HTMLElement | null;
+    if (anchor) {
+      event.preventDefault();
+      this.wikiLinkClicked.emit({
+        target: anchor.dataset['target'] || '',
+        heading: anchor.dataset['heading']
+      });
+      return;
+    }
+
+    // Leave links, buttons and text being selected alone
+    if (target.closest('a, button, input') || window.getSelection()?.toString()) {
+      return;
+    }
+
+    const block = this.renderedBlocks.find(entry => entry.elements.some(element => element.contains(target)));
+    if (block) {
+      this.sourceLineClicked.emit(block.startLine);
+    }
+  }
+
+  /**
+   * Scrolls so that a source line is at the top of the view
+   * @param line Line counted from 0, with the fraction of it to scroll past
+   */
+  scrollToLine(line: number): void {
+    if (!this.markdownScrollable) {
+      return;
+    }
+
+    const scrollable = this.markdownScrollable.nativeElement as HTMLElement;
+    const top = Math.round(offsetForLine(blockAnchors(this.measureBlocks()), line));
+    if (Math.abs(scrollable.scrollTop - top) < 1) {
+      return;
+    }
+
+    scrollable.scrollTop = top;
+    this.syncedScrollTop = scrollable.scrollTop;
+  }
+
+  onScroll(): void {
+    const scrollable = this.markdownScrollable.nativeElement as HTMLElement;
+    const synced = this.syncedScrollTop !== null && Math.abs(scrollable.scrollTop - this.syncedScrollTop) < 2;
+    this.syncedScrollTop = null;
+    if (!synced) {
+      this.scrolledToLine.emit(lineForOffset(blockAnchors(this.measureBlocks()), scrollable.scrollTop));
+    }
+  }
+
+  /**
+   * Maps the freshly rendered elements back to their source lines
+   */
+  onRendered(): void {
+    this.refreshRenderedBlocks();
+  }
+
+  private refreshRenderedBlocks(): void {
+    if (this.markdownContent) {
+      this.renderedBlocks = collectRenderedBlocks(this.markdownContent.nativeElement);
+      this.highlightActiveBlock();
+      this.updateBlameAnnotations();
+    }
+  }
+
+  /**
+   * Places a blame label next to every rendered block
+   */
+  private updateBlameAnnotations(): void {
+    if (!this.blame || !this.markdownScrollable) {
+      this.blameAnnotations = [];
+      return;
+    }
+
+    const annotations: BlameAnnotation[] = [];
+
+    for (const block of this.measureBlocks()) {
+      const line = latestChange(this.blame, block.startLine, block.endLine);
+      if (!line) continue;
+
+      const previous = annotations[annotations.length - 1];
+      annotations.push({
+        top: block.top,
+        height: block.bottom - block.top,
+        line,
+        repeated: !!previous && previous.line.version?.versionId === line.version?.versionId
+      });
+    }
+
+    this.blameAnnotations = annotations;
+  }
+
+  /**
+   * Where each visible rendered block is, from the top of the scrollable content
+   */
+  private measureBlocks(): MeasuredBlock[] {
+    if (!this.markdownScrollable) {
+      return [];
+    }
+
+    const scrollable = this.markdownScrollable.nativeElement as HTMLElement;
+    const origin = scrollable.getBoundingClientRect().top - scrollable.scrollTop;
+    const measured: MeasuredBlock[] = [];
+
+    for (const block of this.renderedBlocks) {
+      const rects = block.elements
+        .map(element => element.getBoundingClientRect())
+        .filter(rect => rect.height > 0);
+      if (rects.length === 0) continue;
+
+      measured.push({
+        startLine: block.startLine,
+        endLine: block.endLine,
+        top: Math.min(...rects.map(rect => rect.top)) - origin,
+        bottom: Math.max(...rects.map(rect => rect.bottom)) - origin
+      });
+    }
+
+    return measured;
+  }
+
+  /**
+   * Marks the rendered elements of the block the editor caret is in
+   */
+  private highlightActiveBlock(): void {
+    const line = this.activeLine;
+    for (const block of this.renderedBlocks) {
+      const active = line !== null && block.startLine <= line && line <= block.endLine;
+      block.elements.forEach(element => element.classList.toggle('source-active', active));
+    }
   }
 
   ngAfterViewChecked(): void {
@@ -308,6 +684,9 @@ export class ColoredMarkdownViewComponent implements OnChanges, AfterViewChecked
     setTimeout(() => {
       this.processMermaidDiagrams();
       this.highlightCodeBlocks();
+
+      // Diagrams and highlighting change block sizes
+      this.refreshRenderedBlocks();
     }, 300);
   }
 
@@ -1,6 +1,21 @@
-import { Component, Input, ElementRef, ViewChild, AfterViewInit, OnChanges, SimpleChanges } from '@angular/core';
+import { Component, Input, ElementRef, ViewChild, AfterViewInit, OnChanges, SimpleChanges, HostListener } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { AuthorshipSpan } from '../../services/authorship-tracker';
+import { RenderedBlock, lineStarts } from '../../services/markdown-source-map';
+
+/**
+ * Characters of one block written by one author
+ */
+interface AuthorShare {
+  userId: string;
+  characters: number;
+}
 
+/**
+ * Paints the authors of each rendered block behind the markdown preview: a
+ * tint in the colour of the block's main author and a bar along the left
+ * edge split between everyone who wrote part of it.
+ */
 @Component({
   selector: 'app-colored-sections-overlay',
   standalone: true,
@@ -12,68 +27,128 @@ import { CommonModule } from '@angular/common';
       top: 0;
       left: 0;
       width: 100%;
-      height: 100%;
       pointer-events: none;
       z-index: 0;
     }
   `]
 })
 export class ColoredSectionsOverlayComponent implements AfterViewInit, OnChanges {
-  @Input() content: string = '';
+  /** Markdown source the spans and blocks refer to */
+  @Input() source: string = '';
+
+  /** Authored runs of the source */
+  @Input() spans: AuthorshipSpan[] = [];
+
+  /** Rendered elements of each source block */
+  @Input() blocks: RenderedBlock[] = [];
+
   @Input() userColors: Record<string, string> = {};
 
   @ViewChild('canvas', { static: false }) canvasRef!: ElementRef<HTMLCanvasElement>;
 
+  private readonly BAR_WIDTH = 3;
+  private readonly FALLBACK_COLOR = '#A0A3B1';
+
   ngAfterViewInit(): void {
     this.drawOverlay();
   }
 
   ngOnChanges(changes: SimpleChanges): void {
-    if ((changes['content'] || changes['userColors']) && this.canvasRef) {
+    if ((changes['spans'] || changes['blocks'] || changes['userColors']) && this.canvasRef) {
       setTimeout(() => this.drawOverlay(), 0);
     }
   }
 
+  @HostListener('window:resize')
+  onResize(): void {
+    this.drawOverlay();
+  }
+
   private drawOverlay(): void {
-    if (!this.canvasRef || !this.content) return;
+    if (!this.canvasRef) return;
 
     const canvas = this.canvasRef.nativeElement;
     const parent = canvas.parentElement;
     if (!parent) return;
 
-    // Set canvas size to match parent
+    // Cover the whole scrollable content, not just the visible part
     canvas.width = parent.clientWidth;
-    canvas.height = parent.clientHeight;
+    canvas.height = parent.scrollHeight;
+    canvas.style.height = `${parent.scrollHeight}px`;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Clear the canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    // Split content into paragraphs
-    const paragraphs = this.content.split('\n\n');
-    if (paragraphs.length === 0) return;
+    if (!this.source || this.spans.length === 0 || this.blocks.length === 0) return;
+
+    const starts = lineStarts(this.source);
+    const parentRect = parent.getBoundingClientRect();
+
+    for (const block of this.blocks) {
+      const from = starts[block.startLine] ?? this.source.length;
+      const to = block.endLine + 1 < starts.length ? starts[block.endLine + 1] : this.source.length;
+      const shares = this.authorShares(from, to);
+      if (shares.length === 0) continue;
+
+      const bounds = this.blockBounds(block, parentRect, parent.scrollTop);
+      if (!bounds) continue;
+
+      // Tint the block in its main author's colour
+      ctx.fillStyle = this.hexToRGBA(this.colorOf(shares[0].userId), 0.08);
+      ctx.fillRect(0, bounds.top, canvas.width, bounds.height);
+
+      // Split the bar between the block's authors, unattributed text left blank
+      const total = Math.max(1, to - from);
+      let y = bounds.top;
+      for (const share of shares) {
+        const height = bounds.height * share.characters / total;
+        ctx.fillStyle = this.hexToRGBA(this.colorOf(share.userId), 0.9);
+        ctx.fillRect(0, y, this.BAR_WIDTH, height);
+        y += height;
+      }
+    }
+  }
 
-    // Calculate the height of each paragraph section
-    const height = canvas.height / paragraphs.length;
+  /**
+   * Counts the characters each author wrote in [from, to), most first
+   */
+  private authorShares(from: number, to: number): AuthorShare[] {
+    const counts = new Map<string, number>();
+
+    for (const span of this.spans) {
+      if (span.start >= to) break;
+      const overlap = Math.min(span.end, to) - Math.max(span.start, from);
+      if (overlap > 0) {
+        counts.set(span.userId, (counts.get(span.userId) || 0) + overlap);
+      }
+    }
 
-    // Draw colored backgrounds for each paragraph
-    let y = 0;
-    Object.keys(this.userColors).forEach((userId, index) => {
-      // Use modulo to cycle through users if there are more paragraphs than users
-      const paragraphIndex = index % paragraphs.length;
+    return Array.from(counts, ([userId, characters]) => ({ userId, characters }))
+      .sort((a, b) => b.characters - a.characters);
+  }
 
-      // Get the color for this user
-      const color = this.userColors[userId];
+  /**
+   * Vertical extent of a block's elements in the parent's scroll coordinates
+   */
+  private blockBounds(block: RenderedBlock, parentRect: DOMRect, scrollTop: number): { top: number; height: number } | null {
+    let top = Infinity;
+    let bottom = -Infinity;
+
+    for (const element of block.elements) {
+      const rect = element.getBoundingClientRect();
+      if (rect.height === 0) continue;
+      top = Math.min(top, rect.top);
+      bottom = Math.max(bottom, rect.bottom);
+    }
 
-      // Calculate paragraph position
-      y = paragraphIndex * height;
+    if (top === Infinity) return null;
+    return { top: top - parentRect.top + scrollTop, height: bottom - top };
+  }
 
-      // Draw colored rectangle with transparency
-      ctx.fillStyle = this.hexToRGBA(color, 0.1);
-      ctx.fillRect(0, y, canvas.width, height);
-    });
+  private colorOf(userId: string): string {
+    return this.userColors[userId] || this.FALLBACK_COLOR;
   }
 
   // Helper function to convert hex color to rgba
@@ -21,6 +21,8 @@ export interface ConflictData {
   lastRemoteUpdate: string;
   remoteAuthor: string;
   conflictRegions: ConflictRegion[];
+  // Output of the client-side merge; region line ranges refer to this text
+  mergedContent?: string;
 }
 
 export interface ResolutionChoice {
@@ -342,8 +344,8 @@ export class ConflictResolutionComponent implements OnInit {
   resolveConflicts() {
     if (!this.conflictData || !this.allConflictsResolved()) return;
 
-    // Start with the remote version as the base
-    let resolvedContent = this.conflictData.remoteVersion;
+    // Start with the merged text (conflict regions hold the remote side)
+    let resolvedContent = this.conflictData.mergedContent ?? this.conflictData.remoteVersion;
 
     // Apply resolutions for each conflict region, from last to first
     // (to avoid changing line numbers as we go)
@@ -376,7 +378,7 @@ export class ConflictResolutionComponent implements OnInit {
       // Replace the conflict region with the resolved content
       const beforeConflict = lines.slice(0, region.startLine);
       const afterConflict = lines.slice(region.endLine);
-      const resolvedLines = contentToInsert.split('\n');
+      const resolvedLines = contentToInsert === '' ? [] : contentToInsert.split('\n');
 
       // Reassemble the content
       resolvedContent = [
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { DiskChangePromptComponent } from './disk-change-prompt.component';
+
+describe('DiskChangePromptComponent', () => {
+  let component: DiskChangePromptComponent;
+  let fixture: ComponentFixture<DiskChangePromptComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DiskChangePromptComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(DiskChangePromptComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
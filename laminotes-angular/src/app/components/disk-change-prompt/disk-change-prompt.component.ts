@@ -0,0 +1,163 @@
+/**
+ * Disk change prompt component.
+ *
+ * Shown when another program changes the open file while it has unsaved
+ * edits. The user can reload the file from disk, merge both versions or
+ * keep editing their own.
+ */
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+/**
+ * Asks what to do with a file changed on disk under unsaved edits
+ */
+@Component({
+  selector: 'app-disk-change-prompt',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="disk-change-modal">
+      <div class="disk-change-container">
+        <div class="disk-change-header">
+          <h2><i class="fas fa-exclamation-triangle"></i> File changed on disk</h2>
+        </div>
+
+        <div class="disk-change-content">
+          <p>
+            <strong>{{ fileName }}</strong> was changed by another program while you have unsaved edits.
+          </p>
+          <ul class="options">
+            <li><strong>Reload</strong> discards your edits and shows the file on disk.</li>
+            <li><strong>Merge</strong> combines both; overlapping changes are for you to resolve.</li>
+            <li><strong>Keep mine</strong> leaves the editor as is; saving overwrites the file on disk.</li>
+          </ul>
+        </div>
+
+        <div class="disk-change-actions">
+          <button class="secondary-button" (click)="keep.emit()">Keep mine</button>
+          <button class="secondary-button" (click)="reload.emit()">
+            <i class="fas fa-redo"></i> Reload
+          </button>
+          <button class="primary-button" (click)="merge.emit()">
+            <i class="fas fa-code-branch"></i> Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .disk-change-modal {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background-color: rgba(15, 17, 26, 0.7);
+      backdrop-filter: blur(3px);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 1000;
+    }
+
+    .disk-change-container {
+      background-color: #1A1C25;
+      border-radius: 8px;
+      width: 90%;
+      max-width: 440px;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+      border: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .disk-change-header {
+      padding: 1.25rem 1.5rem;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .disk-change-header h2 {
+      margin: 0;
+      font-size: 1.25rem;
+      font-weight: 600;
+      color: #FF5F1F;
+    }
+
+    .disk-change-header i {
+      margin-right: 6px;
+    }
+
+    .disk-change-content {
+      padding: 1.25rem 1.5rem;
+      color: #F3F3F7;
+      font-size: 14px;
+      line-height: 1.5;
+    }
+
+    .disk-change-content p {
+      margin: 0 0 0.75rem;
+      overflow-wrap: anywhere;
+    }
+
+    .options {
+      margin: 0;
+      padding-left: 1.1rem;
+      color: #A0A3B1;
+      font-size: 13px;
+    }
+
+    .disk-change-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 10px;
+      padding: 1rem 1.5rem;
+      border-top: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .primary-button, .secondary-button {
+      height: 36px;
+      padding: 0 16px;
+      border-radius: 3px;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 1px;
+      cursor: pointer;
+    }
+
+    .primary-button {
+      background: #FF5F1F;
+      border: none;
+      color: white;
+    }
+
+    .primary-button:hover {
+      background: #FF7A45;
+    }
+
+    .primary-button i, .secondary-button i {
+      margin-right: 6px;
+    }
+
+    .secondary-button {
+      background: #22242E;
+      border: 1px solid rgba(255, 95, 31, 0.2);
+      color: #A0A3B1;
+    }
+
+    .secondary-button:hover {
+      color: #F3F3F7;
+      border-color: #FF5F1F;
+    }
+  `]
+})
+export class DiskChangePromptComponent {
+  /** Name of the changed file */
+  @Input() fileName = '';
+
+  /** Emits when the file on disk should replace the editor content */
+  @Output() reload = new EventEmitter<void>();
+
+  /** Emits when both versions should be merged */
+  @Output() merge = new EventEmitter<void>();
+
+  /** Emits when the editor content should be kept */
+  @Output() keep = new EventEmitter<void>();
+}
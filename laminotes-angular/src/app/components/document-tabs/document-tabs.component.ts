@@ -0,0 +1,219 @@
+/**
+ * Document tabs component.
+ *
+ * Strip of the notes open in the editor. A dot marks tabs with unsaved edits
+ * and a pin the pinned ones, which stay in front. Tabs are reordered by
+ * dragging and closed with their close button or a middle click; pinned
+ * tabs are unpinned before they can be closed.
+ */
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { OpenDocument } from '../../services/open-documents.service';
+import { baseName } from '../../services/file-tree';
+
+/**
+ * A tab dragged to another place
+ */
+export interface DocumentTabMove {
+  fromIndex: number;
+  toIndex: number;
+}
+
+/**
+ * Tabs of the open notes
+ */
+@Component({
+  selector: 'app-document-tabs',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="document-tabs" *ngIf="documents.length > 0">
+      <div class="document-tab"
+           *ngFor="let document of documents; let i = index"
+           [class.active]="document.file.path === activePath"
+           [class.pinned]="document.pinned"
+           [class.drop-before]="dropIndex === i && dragIndex !== null && dragIndex > i"
+           [class.drop-after]="dropIndex === i && dragIndex !== null && dragIndex < i"
+           [title]="document.file.name"
+           draggable="true"
+           (click)="selected.emit(document)"
+           (auxclick)="onAuxClick($event, document)"
+           (dragstart)="onDragStart($event, i)"
+           (dragover)="onDragOver($event, i)"
+           (drop)="onDrop($event, i)"
+           (dragend)="onDragEnd()">
+        <i class="fas fa-thumbtack pin-icon" *ngIf="document.pinned"></i>
+        <span class="tab-name">{{ titleOf(document) }}</span>
+        <i class="fas fa-exclamation-triangle disk-change-icon" *ngIf="document.diskChange" title="Changed outside Laminotes"></i>
+        <span class="dirty-dot" *ngIf="document.dirty" title="Unsaved changes"></span>
+        <button class="tab-action"
+                [title]="document.pinned ? 'Unpin' : 'Pin'"
+                (click)="$event.stopPropagation(); pinToggled.emit(document)">
+          <i class="fas fa-thumbtack"></i>
+        </button>
+        <button class="tab-action" title="Close" *ngIf="!document.pinned"
+                (click)="$event.stopPropagation(); closed.emit(document)">
+          <i class="fas fa-times"></i>
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .document-tabs {
+      display: flex;
+      overflow-x: auto;
+      background-color: #161820;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.2);
+      scrollbar-width: thin;
+    }
+
+    .document-tab {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      max-width: 220px;
+      padding: 8px 10px 8px 14px;
+      border-right: 1px solid #22242E;
+      border-top: 2px solid transparent;
+      color: #A0A3B1;
+      font-size: 12px;
+      cursor: pointer;
+      user-select: none;
+      flex-shrink: 0;
+    }
+
+    .document-tab:hover {
+      background-color: #1A1C25;
+      color: #F3F3F7;
+    }
+
+    .document-tab.active {
+      background-color: #1A1C25;
+      border-top-color: #FF5F1F;
+      color: #F3F3F7;
+    }
+
+    .document-tab.drop-before {
+      box-shadow: inset 2px 0 0 #38B6FF;
+    }
+
+    .document-tab.drop-after {
+      box-shadow: inset -2px 0 0 #38B6FF;
+    }
+
+    .pin-icon {
+      font-size: 10px;
+      color: #FF5F1F;
+    }
+
+    .tab-name {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .disk-change-icon {
+      font-size: 10px;
+      color: #F1C40F;
+    }
+
+    .dirty-dot {
+      width: 7px;
+      height: 7px;
+      border-radius: 50%;
+      background-color: #FF5F1F;
+      flex-shrink: 0;
+    }
+
+    .tab-action {
+      background: none;
+      border: none;
+      color: #A0A3B1;
+      cursor: pointer;
+      padding: 2px 4px;
+      border-radius: 3px;
+      font-size: 11px;
+      visibility: hidden;
+    }
+
+    .document-tab:hover .tab-action,
+    .document-tab.active .tab-action {
+      visibility: visible;
+    }
+
+    .tab-action:hover {
+      color: #FF5F1F;
+      background-color: rgba(255, 95, 31, 0.1);
+    }
+
+    .document-tab.pinned .tab-action {
+      color: #FF5F1F;
+    }
+  `]
+})
+export class DocumentTabsComponent {
+  /** Open documents in tab order */
+  @Input() documents: OpenDocument[] = [];
+
+  /** Path of the note shown in the editor */
+  @Input() activePath: string | null = null;
+
+  /** Emits the tab clicked */
+  @Output() selected = new EventEmitter<OpenDocument>();
+
+  /** Emits the tab to close; closing a tab with unsaved edits is for the parent to confirm */
+  @Output() closed = new EventEmitter<OpenDocument>();
+
+  /** Emits the tab to pin or unpin */
+  @Output() pinToggled = new EventEmitter<OpenDocument>();
+
+  /** Emits a tab dragged to another place */
+  @Output() moved = new EventEmitter<DocumentTabMove>();
+
+  dragIndex: number | null = null;
+  dropIndex: number | null = null;
+
+  /** Tab label: the file name without its folder */
+  titleOf(document: OpenDocument): string {
+    return baseName(document.file.name);
+  }
+
+  /**
+   * Closes a tab on middle click
+   */
+  onAuxClick(event: MouseEvent, document: OpenDocument): void {
+    if (event.button === 1 && !document.pinned) {
+      event.preventDefault();
+      this.closed.emit(document);
+    }
+  }
+
+  onDragStart(event: DragEvent, index: number): void {
+    this.dragIndex = index;
+    event.dataTransfer?.setData('text/plain', this.documents[index].file.name);
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+    }
+  }
+
+  onDragOver(event: DragEvent, index: number): void {
+    if (this.dragIndex === null) {
+      return;
+    }
+    event.preventDefault();
+    this.dropIndex = index;
+  }
+
+  onDrop(event: DragEvent, index: number): void {
+    event.preventDefault();
+    if (this.dragIndex !== null && this.dragIndex !== index) {
+      this.moved.emit({ fromIndex: this.dragIndex, toIndex: index });
+    }
+    this.onDragEnd();
+  }
+
+  onDragEnd(): void {
+    this.dragIndex = null;
+    this.dropIndex = null;
+  }
+}
@@ -0,0 +1,369 @@
+/**
+ * Export dialog component.
+ *
+ * Lets the user pick the format the open note is exported or shared in, and
+ * the page setup for a PDF. The last used settings are remembered.
+ */
+import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DEFAULT_PDF_OPTIONS, PdfExportOptions, PdfPageSize } from '../../services/pdf-export.service';
+import { DocumentExportFormat } from '../../services/export.service';
+
+/**
+ * Formats offered by the dialog
+ */
+export type ExportFormat = 'pdf' | DocumentExportFormat;
+
+/**
+ * What the user asked to export
+ */
+export interface ExportRequest {
+  /** Chosen format */
+  format: ExportFormat;
+
+  /** Page setup, used for PDF */
+  pdfOptions: PdfExportOptions;
+}
+
+/**
+ * Dialog for choosing the export format and options
+ */
+@Component({
+  selector: 'app-export-dialog',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="export-modal" (click)="cancel()">
+      <div class="export-container" (click)="$event.stopPropagation()">
+        <div class="export-header">
+          <h2>{{ mode === 'share' ? 'Share' : 'Export' }}</h2>
+          <button class="close-button" (click)="cancel()">×</button>
+        </div>
+
+        <div class="export-content">
+          <div class="file-label">{{ fileName }}</div>
+
+          <div class="form-row">
+            <label for="format">Format</label>
+            <select id="format" [(ngModel)]="format">
+              <option *ngFor="let option of availableFormats" [value]="option.value">{{ option.label }}</option>
+            </select>
+          </div>
+
+          <ng-container *ngIf="format === 'pdf'">
+            <div class="form-row">
+              <label for="pageSize">Page size</label>
+              <select id="pageSize" [(ngModel)]="options.pageSize">
+                <option *ngFor="let size of pageSizes" [value]="size.value">{{ size.label }}</option>
+              </select>
+            </div>
+
+            <div class="form-row">
+              <label for="orientation">Orientation</label>
+              <select id="orientation" [(ngModel)]="options.orientation">
+                <option value="portrait">Portrait</option>
+                <option value="landscape">Landscape</option>
+              </select>
+            </div>
+
+            <div class="form-row">
+              <label>Margins (mm)</label>
+              <div class="margin-inputs">
+                <input *ngFor="let side of marginSides; let i = index"
+                       type="number" min="0" max="50"
+                       [title]="side"
+                       [placeholder]="side"
+                       [(ngModel)]="options.margins[i]">
+              </div>
+            </div>
+
+            <label class="checkbox-row">
+              <input type="checkbox" [(ngModel)]="options.includeToc">
+              <span>Table of contents</span>
+            </label>
+          </ng-container>
+
+          <p class="format-hint" *ngIf="format === 'pdf'">
+            The PDF uses the standard PDF fonts, which show characters outside Western European scripts, such as emoji, as "?". Use HTML or DOCX for those.
+          </p>
+
+          <p class="format-hint" *ngIf="format === 'markdown-zip'">
+            Embedded images are saved to an assets folder next to the markdown file.
+          </p>
+        </div>
+
+        <div class="export-actions">
+          <button class="secondary-button" (click)="cancel()">Cancel</button>
+          <button class="primary-button" [disabled]="busy" (click)="confirm()">
+            <i class="fas" [ngClass]="busy ? 'fa-spinner fa-spin' : formatIcon"></i>
+            <ng-container *ngIf="mode === 'share'; else exportLabel">{{ busy ? 'Preparing...' : 'Share' }}</ng-container>
+            <ng-template #exportLabel>{{ busy ? 'Exporting...' : 'Export' }}</ng-template>
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .export-modal {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background-color: rgba(15, 17, 26, 0.7);
+      backdrop-filter: blur(3px);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 1000;
+    }
+
+    .export-container {
+      background-color: #1A1C25;
+      border-radius: 8px;
+      width: 90%;
+      max-width: 380px;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+      border: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .export-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 1.25rem 1.5rem;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .export-header h2 {
+      margin: 0;
+      font-size: 1.25rem;
+      font-weight: 600;
+      color: #FF5F1F;
+    }
+
+    .close-button {
+      background: none;
+      border: none;
+      font-size: 1.5rem;
+      cursor: pointer;
+      line-height: 1;
+      opacity: 0.7;
+      color: #A0A3B1;
+    }
+
+    .close-button:hover {
+      opacity: 1;
+      color: #F3F3F7;
+    }
+
+    .export-content {
+      padding: 1.25rem 1.5rem;
+    }
+
+    .file-label {
+      color: #F3F3F7;
+      font-weight: 500;
+      margin-bottom: 1rem;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .form-row {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 0.9rem;
+      gap: 12px;
+    }
+
+    .form-row label, .checkbox-row span {
+      color: #A0A3B1;
+      font-size: 14px;
+    }
+
+    select, input[type="number"] {
+      background-color: #161820;
+      border: 1px solid rgba(255, 95, 31, 0.15);
+      border-radius: 4px;
+      color: #F3F3F7;
+      padding: 6px 8px;
+      font-size: 13px;
+    }
+
+    select:focus, input[type="number"]:focus {
+      outline: none;
+      border-color: #FF5F1F;
+    }
+
+    .margin-inputs {
+      display: flex;
+      gap: 4px;
+    }
+
+    .margin-inputs input {
+      width: 48px;
+    }
+
+    .checkbox-row {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      cursor: pointer;
+    }
+
+    .format-hint {
+      color: #A0A3B1;
+      font-size: 13px;
+      margin: 0;
+    }
+
+    .export-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 10px;
+      padding: 1rem 1.5rem;
+      border-top: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .primary-button, .secondary-button {
+      height: 36px;
+      padding: 0 16px;
+      border-radius: 3px;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 1px;
+      cursor: pointer;
+    }
+
+    .primary-button {
+      background: #FF5F1F;
+      border: none;
+      color: white;
+    }
+
+    .primary-button:hover:not(:disabled) {
+      background: #FF7A45;
+    }
+
+    .primary-button:disabled {
+      opacity: 0.6;
+      cursor: default;
+    }
+
+    .primary-button i {
+      margin-right: 6px;
+    }
+
+    .secondary-button {
+      background: #22242E;
+      border: 1px solid rgba(255, 95, 31, 0.2);
+      color: #A0A3B1;
+    }
+
+    .secondary-button:hover {
+      color: #F3F3F7;
+      border-color: #FF5F1F;
+    }
+  `]
+})
+export class ExportDialogComponent implements OnInit {
+  /** Name of the file being exported */
+  @Input() fileName = '';
+
+  /** Whether an export is running */
+  @Input() busy = false;
+
+  /** Save the export, or send it to another app through the share sheet */
+  @Input() mode: 'export' | 'share' = 'export';
+
+  /** Emits the chosen format and options */
+  @Output() exportRequested = new EventEmitter<ExportRequest>();
+
+  /** Emits when the dialog is dismissed */
+  @Output() cancelled = new EventEmitter<void>();
+
+  /** Format being exported to */
+  format: ExportFormat = 'pdf';
+
+  /** Options being edited */
+  options: PdfExportOptions = this.copy(DEFAULT_PDF_OPTIONS);
+
+  readonly pageSizes: { value: PdfPageSize; label: string }[] = [
+    { value: 'a4', label: 'A4' },
+    { value: 'a5', label: 'A5' },
+    { value: 'letter', label: 'Letter' },
+    { value: 'legal', label: 'Legal' }
+  ];
+
+  readonly formats: { value: ExportFormat; label: string; icon: string }[] = [
+    { value: 'pdf', label: 'PDF', icon: 'fa-file-pdf' },
+    { value: 'html', label: 'HTML page', icon: 'fa-file-code' },
+    { value: 'docx', label: 'Word document (.docx)', icon: 'fa-file-word' },
+    { value: 'markdown', label: 'Markdown (.md)', icon: 'fa-file-alt' },
+    { value: 'markdown-zip', label: 'Markdown + assets (.zip)', icon: 'fa-file-archive' }
+  ];
+
+  /** Formats other apps can open */
+  private readonly SHARE_FORMATS: ExportFormat[] = ['pdf', 'html', 'markdown'];
+
+  readonly marginSides = ['Top', 'Right', 'Bottom', 'Left'];
+
+  /** Local storage key for the last used options */
+  private readonly STORAGE_KEY = 'laminotes_pdf_options';
+
+  /** Local storage key for the last used format */
+  private readonly FORMAT_STORAGE_KEY = 'laminotes_export_format';
+
+  get availableFormats(): { value: ExportFormat; label: string; icon: string }[] {
+    return this.mode === 'share'
+      ? this.formats.filter(option => this.SHARE_FORMATS.includes(option.value))
+      : this.formats;
+  }
+
+  get formatIcon(): string {
+    return this.formats.find(option => option.value === this.format)?.icon || 'fa-file-export';
+  }
+
+  ngOnInit(): void {
+    try {
+      const saved = localStorage.getItem(this.STORAGE_KEY);
+      if (saved) {
+        this.options = { ...this.options, ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      console.warn('⚠️ Ignoring invalid saved PDF options', error);
+    }
+
+    const savedFormat = localStorage.getItem(this.formatStorageKey) as ExportFormat | null;
+    if (savedFormat && this.availableFormats.some(option => option.value === savedFormat)) {
+      this.format = savedFormat;
+    }
+  }
+
+  confirm(): void {
+    const margins = this.options.margins.map(margin =>
+      Math.min(50, Math.max(0, Number(margin) || 0))
+    ) as [number, number, number, number];
+    const options: PdfExportOptions = { ...this.options, margins };
+
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(options));
+    localStorage.setItem(this.formatStorageKey, this.format);
+    this.exportRequested.emit({ format: this.format, pdfOptions: options });
+  }
+
+  cancel(): void {
+    this.cancelled.emit();
+  }
+
+  /** Sharing remembers its own format, as it offers fewer */
+  private get formatStorageKey(): string {
+    return this.mode === 'share' ? `${this.FORMAT_STORAGE_KEY}_share` : this.FORMAT_STORAGE_KEY;
+  }
+
+  private copy(options: PdfExportOptions): PdfExportOptions {
+    return { ...options, margins: [...options.margins] as [number, number, number, number] };
+  }
+}
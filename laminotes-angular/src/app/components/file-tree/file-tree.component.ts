@@ -0,0 +1,470 @@
+/**
+ * File tree component.
+ *
+ * Shows the notes of the current directory as a tree of folders that can be
+ * expanded and collapsed. Notes and folders are moved by dragging them onto
+ * a folder, onto the top level, or onto another team while dragging.
+ */
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FileInfo } from '../../services/file.service';
+import { FileTreeNode, buildFileTree, canMoveFolder, parentFolder } from '../../services/file-tree';
+import { Team } from '../../models/team.model';
+
+/**
+ * A team notes can be dragged to
+ */
+export interface FileTreeTeamTarget {
+  /** The team, or null for personal notes */
+  team: Team | null;
+  name: string;
+}
+
+/**
+ * A note or folder dropped somewhere else
+ */
+export interface FileTreeMove {
+  /** The note being moved, or null for a folder */
+  file: FileInfo | null;
+
+  /** Path of the note or folder being moved */
+  path: string;
+
+  /** Folder it was dropped on; '' for the top level */
+  target: string;
+
+  /** Team it was dropped on, null for personal notes; undefined within the current directory */
+  team?: Team | null;
+}
+
+/** A visible row of the tree */
+interface FileTreeRow {
+  node: FileTreeNode<FileInfo>;
+  depth: number;
+}
+
+/**
+ * Tree of the notes and folders in the current directory
+ */
+@Component({
+  selector: 'app-file-tree',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="file-tree"
+         role="tree"
+         [class.drop-target]="dropTarget === ''"
+         (dragover)="onDragOver($event, '')"
+         (dragleave)="onDragLeave($event, '')"
+         (drop)="onDrop($event, '')">
+      <div *ngFor="let row of rows; trackBy: trackRow"
+           class="file-item"
+           role="treeitem"
+           [attr.aria-expanded]="row.node.type === 'folder' ? !isCollapsed(row.node.path) : null"
+           [class.folder]="row.node.type === 'folder'"
+           [class.active]="row.node.file === currentFile"
+           [class.dragging]="dragged?.path === row.node.path"
+           [class.drop-target]="dropTarget === row.node.path"
+           [style.padding-left.px]="12 + row.depth * 16"
+           [draggable]="canEdit"
+           (dragstart)="onDragStart($event, row.node)"
+           (dragend)="onDragEnd()"
+           (dragover)="onDragOver($event, dropFolderOf(row.node))"
+           (dragleave)="onDragLeave($event, dropFolderOf(row.node))"
+           (drop)="onDrop($event, dropFolderOf(row.node))">
+        <ng-container *ngIf="row.node.type === 'folder'; else fileRow">
+          <i class="fas file-icon"
+             [ngClass]="isCollapsed(row.node.path) ? 'fa-folder' : 'fa-folder-open'"
+             (click)="toggle(row.node.path)"></i>
+          <span class="file-name" [title]="row.node.path" (click)="toggle(row.node.path)">{{ row.node.label }}</span>
+          <div class="file-actions" *ngIf="canEdit">
+            <button class="micro-button" title="New Folder" (click)="createFolder.emit(row.node.path)">
+              <i class="fas fa-folder-plus"></i>
+            </button>
+            <button class="micro-button" title="Rename" (click)="renameFolder.emit(row.node.path)">
+              <i class="fas fa-pencil-alt"></i>
+            </button>
+            <button class="micro-button" title="Delete" (click)="deleteFolder.emit(row.node.path)">
+              <i class="fas fa-trash"></i>
+            </button>
+          </div>
+        </ng-container>
+
+        <ng-template #fileRow>
+          <i class="fas fa-file-alt file-icon"></i>
+          <span class="file-name" [title]="row.node.path" (click)="fileOpened.emit(row.node.file!)">{{ row.node.label }}</span>
+          <div class="file-actions" *ngIf="canEdit">
+            <button class="micro-button" title="Rename" (click)="renameFile.emit(row.node.file!)">
+              <i class="fas fa-pencil-alt"></i>
+            </button>
+            <button class="micro-button" title="Delete" (click)="deleteFile.emit(row.node.file!)">
+              <i class="fas fa-trash"></i>
+            </button>
+          </div>
+        </ng-template>
+      </div>
+
+      <div class="team-targets" *ngIf="dragged && teamTargets.length > 0">
+        <span class="team-targets-label">Move to</span>
+        <div *ngFor="let target of teamTargets"
+             class="team-target"
+             [class.drop-target]="dropTeam === target"
+             (dragover)="onTeamDragOver($event, target)"
+             (dragleave)="dropTeam = null"
+             (drop)="onTeamDrop($event, target)">
+          <i class="fas" [ngClass]="target.team ? 'fa-users' : 'fa-user'"></i>
+          {{ target.name }}
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .file-tree {
+      min-height: 100%;
+      border-radius: 3px;
+    }
+
+    .file-tree.drop-target {
+      box-shadow: inset 0 0 0 1px rgba(255, 95, 31, 0.4);
+    }
+
+    .file-item {
+      display: flex;
+      align-items: center;
+      padding: 8px 12px;
+      border-radius: 3px;
+      margin-bottom: 2px;
+      transition: background 0.15s ease;
+      border-left: 2px solid transparent;
+    }
+
+    .file-icon {
+      color: #A0A3B1;
+      margin-right: 10px;
+      font-size: 14px;
+      width: 16px;
+      text-align: center;
+    }
+
+    .folder .file-icon {
+      color: #38B6FF;
+      cursor: pointer;
+    }
+
+    .file-name {
+      flex: 1;
+      font-size: 14px;
+      color: #A0A3B1;
+      cursor: pointer;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .file-actions {
+      display: flex;
+      gap: 5px;
+      opacity: 0;
+      transition: opacity 0.15s ease;
+    }
+
+    .file-item:hover {
+      background: #1A1C25;
+    }
+
+    .file-item:hover .file-actions {
+      opacity: 1;
+    }
+
+    .file-item:hover .file-name {
+      color: #F3F3F7;
+    }
+
+    .file-item.active {
+      background: rgba(255, 95, 31, 0.1);
+      border-left: 2px solid #FF5F1F;
+    }
+
+    .file-item.active .file-icon {
+      color: #FF5F1F;
+    }
+
+    .file-item.active .file-name {
+      color: #F3F3F7;
+      font-weight: 500;
+    }
+
+    .file-item.dragging {
+      opacity: 0.4;
+    }
+
+    .file-item.drop-target {
+      background: rgba(56, 182, 255, 0.12);
+      border-left: 2px solid #38B6FF;
+    }
+
+    .micro-button {
+      width: 24px;
+      height: 24px;
+      border-radius: 3px;
+      background: #161820;
+      border: 1px solid rgba(255, 255, 255, 0.05);
+      color: #A0A3B1;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      cursor: pointer;
+      font-size: 11px;
+      box-shadow: inset 0 1px 4px rgba(0, 0, 0, 0.3);
+      transition: all 0.15s ease;
+    }
+
+    .micro-button:hover {
+      color: #FF5F1F;
+      border-color: rgba(255, 95, 31, 0.3);
+    }
+
+    .team-targets {
+      margin-top: 12px;
+      padding-top: 10px;
+      border-top: 1px solid rgba(255, 95, 31, 0.15);
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+    }
+
+    .team-targets-label {
+      font-size: 11px;
+      letter-spacing: 1px;
+      text-transform: uppercase;
+      color: #A0A3B1;
+      padding: 0 4px 4px;
+    }
+
+    .team-target {
+      padding: 8px 12px;
+      border-radius: 3px;
+      border: 1px dashed rgba(255, 95, 31, 0.3);
+      color: #A0A3B1;
+      font-size: 13px;
+    }
+
+    .team-target i {
+      margin-right: 8px;
+    }
+
+    .team-target.drop-target {
+      border-color: #FF5F1F;
+      color: #F3F3F7;
+      background: rgba(255, 95, 31, 0.1);
+    }
+  `]
+})
+export class FileTreeComponent implements OnChanges {
+  /** Notes of the current directory, named by their path relative to it */
+  @Input() files: FileInfo[] = [];
+
+  /** Folders of the current directory, empty ones included */
+  @Input() folders: string[] = [];
+
+  /** The open note, highlighted and kept visible */
+  @Input() currentFile: FileInfo | null = null;
+
+  /** Whether notes and folders may be changed and moved */
+  @Input() canEdit = true;
+
+  /** Teams offered as drop targets while dragging */
+  @Input() teamTargets: FileTreeTeamTarget[] = [];
+
+  @Output() fileOpened = new EventEmitter<FileInfo>();
+  @Output() renameFile = new EventEmitter<FileInfo>();
+  @Output() deleteFile = new EventEmitter<FileInfo>();
+
+  /** Emits the folder a new folder goes into */
+  @Output() createFolder = new EventEmitter<string>();
+  @Output() renameFolder = new EventEmitter<string>();
+  @Output() deleteFolder = new EventEmitter<string>();
+
+  /** Emits when a note or folder is dropped somewhere it can move to */
+  @Output() moveRequested = new EventEmitter<FileTreeMove>();
+
+  /** The node being dragged */
+  dragged: FileTreeNode<FileInfo> | null = null;
+
+  /** Folder under the pointer while dragging; '' for the top level */
+  dropTarget: string | null = null;
+
+  /** Team under the pointer while dragging */
+  dropTeam: FileTreeTeamTarget | null = null;
+
+  /** Local storage key of the collapsed folders */
+  private readonly COLLAPSED_KEY = 'laminotes_collapsed_folders';
+
+  private collapsed = new Set<string>(this.loadCollapsed());
+
+  /** Rows last built, and what they were built from */
+  private cachedRows: FileTreeRow[] = [];
+  private cachedKey = '';
+
+  ngOnChanges(changes: SimpleChanges): void {
+    // Reveal the open note
+    const file = this.currentFile;
+    if (changes['currentFile'] && file) {
+      let folder = parentFolder(file.name);
+      let changed = false;
+      for (; folder; folder = parentFolder(folder)) {
+        changed = this.collapsed.delete(folder) || changed;
+      }
+      if (changed) {
+        this.saveCollapsed();
+      }
+    }
+  }
+
+  /**
+   * Rows of the expanded part of the tree, rebuilt only when the notes, folders or expanded folders change
+   */
+  get rows(): FileTreeRow[] {
+    const key = [
+      this.files.map(file => `${file.path}\u0000${file.name}`).join('\u0001'),
+      this.folders.join('\u0001'),
+      Array.from(this.collapsed).join('\u0001')
+    ].join('\u0002');
+
+    if (key !== this.cachedKey) {
+      this.cachedKey = key;
+      this.cachedRows = [];
+      this.addRows(buildFileTree(this.files, this.folders), 0);
+    }
+    return this.cachedRows;
+  }
+
+  isCollapsed(folder: string): boolean {
+    return this.collapsed.has(folder);
+  }
+
+  toggle(folder: string): void {
+    if (!this.collapsed.delete(folder)) {
+      this.collapsed.add(folder);
+    }
+    this.saveCollapsed();
+  }
+
+  trackRow(index: number, row: FileTreeRow): string {
+    return `${row.node.type}:${row.node.path}`;
+  }
+
+  /**
+   * Folder a drop on a row goes to: the folder itself, or the folder holding the note
+   */
+  dropFolderOf(node: FileTreeNode<FileInfo>): string {
+    return node.type === 'folder' ? node.path : parentFolder(node.path);
+  }
+
+  onDragStart(event: DragEvent, node: FileTreeNode<FileInfo>): void {
+    if (!this.canEdit) {
+      event.preventDefault();
+      return;
+    }
+
+    this.dragged = node;
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+      event.dataTransfer.setData('text/plain', node.path);
+    }
+  }
+
+  onDragEnd(): void {
+    this.dragged = null;
+    this.dropTarget = null;
+    this.dropTeam = null;
+  }
+
+  onDragOver(event: DragEvent, folder: string): void {
+    if (!this.canDropOn(folder)) {
+      return;
+    }
+
+    // Rows sit inside the tree, which is a drop target of its own
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = 'move';
+    }
+    this.dropTarget = folder;
+  }
+
+  onDragLeave(event: DragEvent, folder: string): void {
+    if (this.dropTarget === folder && !(event.currentTarget as HTMLElement).contains(event.relatedTarget as Node)) {
+      this.dropTarget = null;
+    }
+  }
+
+  onDrop(event: DragEvent, folder: string): void {
+    const dragged = this.dragged;
+    if (!dragged || !this.canDropOn(folder)) {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+    this.moveRequested.emit({ file: dragged.file ?? null, path: dragged.path, target: folder });
+    this.onDragEnd();
+  }
+
+  onTeamDragOver(event: DragEvent, target: FileTreeTeamTarget): void {
+    if (!this.dragged) {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+    this.dropTeam = target;
+    this.dropTarget = null;
+  }
+
+  onTeamDrop(event: DragEvent, target: FileTreeTeamTarget): void {
+    const dragged = this.dragged;
+    if (!dragged) {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+    this.moveRequested.emit({ file: dragged.file ?? null, path: dragged.path, target: '', team: target.team });
+    this.onDragEnd();
+  }
+
+  /**
+   * Whether the dragged note or folder can move into a folder; not where it already is
+   */
+  private canDropOn(folder: string): boolean {
+    if (!this.dragged) {
+      return false;
+    }
+    return this.dragged.type === 'folder'
+      ? canMoveFolder(this.dragged.path, folder)
+      : parentFolder(this.dragged.path) !== folder;
+  }
+
+  private addRows(nodes: FileTreeNode<FileInfo>[], depth: number): void {
+    for (const node of nodes) {
+      this.cachedRows.push({ node, depth });
+      if (node.type === 'folder' && !this.collapsed.has(node.path)) {
+        this.addRows(node.children, depth + 1);
+      }
+    }
+  }
+
+  private loadCollapsed(): string[] {
+    try {
+      return JSON.parse(localStorage.getItem(this.COLLAPSED_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private saveCollapsed(): void {
+    localStorage.setItem(this.COLLAPSED_KEY, JSON.stringify(Array.from(this.collapsed)));
+  }
+}
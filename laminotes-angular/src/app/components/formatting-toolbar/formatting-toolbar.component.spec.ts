@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { FormattingToolbarComponent } from './formatting-toolbar.component';
+
+describe('FormattingToolbarComponent', () => {
+  let component: FormattingToolbarComponent;
+  let fixture: ComponentFixture<FormattingToolbarComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [FormattingToolbarComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(FormattingToolbarComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
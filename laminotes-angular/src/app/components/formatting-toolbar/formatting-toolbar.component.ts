@@ -0,0 +1,128 @@
+/**
+ * Formatting toolbar component.
+ *
+ * Row of buttons above the editor for the markdown formatting actions, each
+ * titled with its keyboard shortcut. Buttons don't take the focus, so the
+ * editor keeps its selection while one is clicked.
+ */
+import { Component, EventEmitter, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FORMAT_SHORTCUTS, FormatAction } from '../markdown-editor/formatting';
+
+/**
+ * A toolbar button
+ */
+interface FormatButton {
+  action: FormatAction;
+  label: string;
+
+  /** Font Awesome icon class; buttons without one show their text */
+  icon?: string;
+  text?: string;
+}
+
+/**
+ * Buttons for formatting the editor text
+ */
+@Component({
+  selector: 'app-formatting-toolbar',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="formatting-toolbar">
+      <div class="button-group" *ngFor="let group of groups">
+        <button *ngFor="let button of group"
+                class="format-button"
+                [title]="title(button)"
+                (mousedown)="$event.preventDefault()"
+                (click)="format.emit(button.action)">
+          <i *ngIf="button.icon" class="fas" [ngClass]="button.icon"></i>
+          <span *ngIf="!button.icon">{{ button.text }}</span>
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .formatting-toolbar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 4px 8px;
+      background-color: #161820;
+      border-bottom: 1px solid #22242E;
+      overflow-x: auto;
+    }
+
+    .button-group {
+      display: flex;
+      gap: 2px;
+      padding-right: 8px;
+      border-right: 1px solid #22242E;
+    }
+
+    .button-group:last-child {
+      border-right: none;
+    }
+
+    .format-button {
+      min-width: 26px;
+      height: 24px;
+      padding: 0 4px;
+      border-radius: 3px;
+      background: none;
+      border: 1px solid transparent;
+      color: #A0A3B1;
+      font-size: 11px;
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    .format-button:hover {
+      color: #FF5F1F;
+      border-color: rgba(255, 95, 31, 0.3);
+      background-color: rgba(255, 95, 31, 0.05);
+    }
+  `]
+})
+export class FormattingToolbarComponent {
+  /** Emits the action of the button clicked */
+  @Output() format = new EventEmitter<FormatAction>();
+
+  readonly groups: FormatButton[][] = [
+    [
+      { action: 'bold', label: 'Bold', icon: 'fa-bold' },
+      { action: 'italic', label: 'Italic', icon: 'fa-italic' },
+      { action: 'code', label: 'Code', icon: 'fa-code' }
+    ],
+    [
+      { action: 'heading1', label: 'Heading 1', text: 'H1' },
+      { action: 'heading2', label: 'Heading 2', text: 'H2' },
+      { action: 'heading3', label: 'Heading 3', text: 'H3' }
+    ],
+    [
+      { action: 'bulletList', label: 'Bulleted list', icon: 'fa-list-ul' },
+      { action: 'orderedList', label: 'Numbered list', icon: 'fa-list-ol' },
+      { action: 'taskList', label: 'Task list', icon: 'fa-tasks' },
+      { action: 'quote', label: 'Quote', icon: 'fa-quote-right' }
+    ],
+    [
+      { action: 'link', label: 'Link', icon: 'fa-link' }
+    ]
+  ];
+
+  private readonly isMac = /Mac/i.test(navigator.platform);
+
+  /**
+   * Button tooltip with the shortcut in this platform's key names
+   */
+  title(button: FormatButton): string {
+    const keys = FORMAT_SHORTCUTS[button.action]
+      .split('-')
+      .map(key => {
+        if (key === 'Mod') return this.isMac ? 'Cmd' : 'Ctrl';
+        if (key === 'Alt' && this.isMac) return 'Option';
+        return key.length === 1 ? key.toUpperCase() : key;
+      });
+    return `${button.label} (${keys.join('+')})`;
+  }
+}
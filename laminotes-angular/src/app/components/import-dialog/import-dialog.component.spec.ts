@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ImportDialogComponent } from './import-dialog.component';
+
+describe('ImportDialogComponent', () => {
+  let component: ImportDialogComponent;
+  let fixture: ComponentFixture<ImportDialogComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ImportDialogComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ImportDialogComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Import dialog component.
+ *
+ * Lets the user pick a zip or folder of notes from another app, shows what
+ * will be imported and where, and runs the import.
+ */
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ImportBundle, ImportResult, ImportService } from '../../services/import.service';
+import { ImportSource } from '../../services/note-import';
+import { NotificationService } from '../../services/notification.service';
+import { CapacitorService } from '../../services/capacitor.service';
+
+/**
+ * Dialog for importing notes from Obsidian, Notion or markdown folders
+ */
+@Component({
+  selector: 'app-import-dialog',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="import-modal" (click)="cancel()">
+      <div class="import-container" (click)="$event.stopPropagation()">
+        <div class="import-header">
+          <h2>Import Notes</h2>
+          <button class="close-button" (click)="cancel()">×</button>
+        </div>
+
+        <div class="import-content">
+          <ng-container *ngIf="!bundle">
+            <p class="hint">
+              Import an Obsidian vault, a Notion markdown export or any folder of markdown files.
+              Folders are kept, wikilinks become regular links and images are embedded.
+            </p>
+
+            <div class="source-buttons">
+              <button class="secondary-button" [disabled]="reading" (click)="zipInput.click()">
+                <i class="fas fa-file-archive"></i> Choose zip
+              </button>
+              <button class="secondary-button" *ngIf="folderSupported" [disabled]="reading" (click)="folderInput.click()">
+                <i class="fas fa-folder-open"></i> Choose folder
+              </button>
+            </div>
+
+            <div class="hint" *ngIf="reading"><i class="fas fa-spinner fa-spin"></i> Reading...</div>
+
+            <input #zipInput type="file" accept=".zip,application/zip" hidden (change)="onZipSelected(zipInput)">
+            <input #folderInput type="file" webkitdirectory multiple hidden (change)="onFolderSelected(folderInput)">
+          </ng-container>
+
+          <ng-container *ngIf="bundle">
+            <div class="summary">
+              <div class="summary-title">{{ bundle.name }}</div>
+              <div class="summary-detail">
+                {{ sourceLabels[bundle.plan.source] }} ·
+                {{ bundle.plan.notes.size }} {{ bundle.plan.notes.size === 1 ? 'note' : 'notes' }} ·
+                {{ bundle.plan.images.size }} {{ bundle.plan.images.size === 1 ? 'image' : 'images' }}
+              </div>
+            </div>
+
+            <div class="form-row">
+              <label for="importFolder">Into folder</label>
+              <input id="importFolder" type="text" [(ngModel)]="folder" placeholder="Top level">
+            </div>
+
+            <div class="hint" *ngIf="destination">Notes go to {{ destination }}</div>
+
+            <button class="link-button" [disabled]="busy" (click)="reset()">Choose something else</button>
+          </ng-container>
+        </div>
+
+        <div class="import-actions">
+          <button class="secondary-button" (click)="cancel()">Cancel</button>
+          <button class="primary-button" [disabled]="!bundle || busy || bundle.plan.notes.size === 0" (click)="confirm()">
+            <i class="fas" [ngClass]="busy ? 'fa-spinner fa-spin' : 'fa-file-import'"></i>
+            {{ busy ? 'Importing...' : 'Import' }}
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .import-modal {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background-color: rgba(15, 17, 26, 0.7);
+      backdrop-filter: blur(3px);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 1000;
+    }
+
+    .import-container {
+      background-color: #1A1C25;
+      border-radius: 8px;
+      width: 90%;
+      max-width: 420px;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+      border: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .import-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 1.25rem 1.5rem;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .import-header h2 {
+      margin: 0;
+      font-size: 1.25rem;
+      font-weight: 600;
+      color: #FF5F1F;
+    }
+
+    .close-button {
+      background: none;
+      border: none;
+      font-size: 1.5rem;
+      cursor: pointer;
+      line-height: 1;
+      opacity: 0.7;
+      color: #A0A3B1;
+    }
+
+    .close-button:hover {
+      opacity: 1;
+      color: #F3F3F7;
+    }
+
+    .import-content {
+      padding: 1.25rem 1.5rem;
+    }
+
+    .hint {
+      color: #A0A3B1;
+      font-size: 13px;
+      line-height: 1.5;
+      margin: 0 0 1rem;
+    }
+
+    .source-buttons {
+      display: flex;
+      gap: 10px;
+      margin-bottom: 1rem;
+    }
+
+    .summary {
+      margin-bottom: 1rem;
+    }
+
+    .summary-title {
+      color: #F3F3F7;
+      font-weight: 500;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .summary-detail {
+      color: #A0A3B1;
+      font-size: 13px;
+      margin-top: 4px;
+    }
+
+    .form-row {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 0.9rem;
+      gap: 12px;
+    }
+
+    .form-row label {
+      color: #A0A3B1;
+      font-size: 14px;
+      white-space: nowrap;
+    }
+
+    input[type="text"] {
+      flex: 1;
+      background-color: #161820;
+      border: 1px solid rgba(255, 95, 31, 0.15);
+      border-radius: 4px;
+      color: #F3F3F7;
+      padding: 6px 8px;
+      font-size: 13px;
+    }
+
+    input[type="text"]:focus {
+      outline: none;
+      border-color: #FF5F1F;
+    }
+
+    .link-button {
+      background: none;
+      border: none;
+      padding: 0;
+      color: #38B6FF;
+      font-size: 13px;
+      cursor: pointer;
+    }
+
+    .import-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 10px;
+      padding: 1rem 1.5rem;
+      border-top: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .primary-button, .secondary-button {
+      height: 36px;
+      padding: 0 16px;
+      border-radius: 3px;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 1px;
+      cursor: pointer;
+    }
+
+    .primary-button {
+      background: #FF5F1F;
+      border: none;
+      color: white;
+    }
+
+    .primary-button:hover:not(:disabled) {
+      background: #FF7A45;
+    }
+
+    .primary-button:disabled, .secondary-button:disabled {
+      opacity: 0.6;
+      cursor: default;
+    }
+
+    .primary-button i, .secondary-button i {
+      margin-right: 6px;
+    }
+
+    .secondary-button {
+      background: #22242E;
+      border: 1px solid rgba(255, 95, 31, 0.2);
+      color: #A0A3B1;
+    }
+
+    .secondary-button:hover:not(:disabled) {
+      color: #F3F3F7;
+      border-color: #FF5F1F;
+    }
+  `]
+})
+export class ImportDialogComponent {
+  /** Where the notes will be written, e.g. the team directory */
+  @Input() destination = '';
+
+  /** Emits when the notes have been imported */
+  @Output() imported = new EventEmitter<ImportResult>();
+
+  /** Emits when the dialog is dismissed */
+  @Output() cancelled = new EventEmitter<void>();
+
+  /** The zip or folder being imported */
+  bundle: ImportBundle | null = null;
+
+  /** Folder to import into, relative to the notes directory */
+  folder = '';
+
+  reading = false;
+  busy = false;
+
+  /** Whether folders can be picked; the iOS picker only offers files */
+  readonly folderSupported: boolean;
+
+  readonly sourceLabels: Record<ImportSource, string> = {
+    obsidian: 'Obsidian vault',
+    notion: 'Notion export',
+    markdown: 'Markdown folder'
+  };
+
+  constructor(
+    private importService: ImportService,
+    private notificationService: NotificationService,
+    capacitorService: CapacitorService
+  ) {
+    this.folderSupported = !capacitorService.isCapacitor();
+  }
+
+  onZipSelected(input: HTMLInputElement): void {
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    this.reading = true;
+    this.importService.readZip(file).subscribe({
+      next: bundle => this.setBundle(bundle),
+      error: error => {
+        console.error('❌ Error reading zip:', error);
+        this.reading = false;
+        this.notificationService.error(`Could not read ${file.name}: ${error?.message || error}`);
+      }
+    });
+  }
+
+  onFolderSelected(input: HTMLInputElement): void {
+    const files = Array.from(input.files || []);
+    input.value = '';
+    if (files.length === 0) return;
+
+    this.setBundle(this.importService.readFolder(files));
+  }
+
+  confirm(): void {
+    if (!this.bundle) return;
+
+    this.busy = true;
+    this.importService.importBundle(this.bundle, this.folder.trim()).subscribe({
+      next: result => {
+        this.busy = false;
+        this.notificationService.success(
+          `Imported ${result.files.length} notes${result.images ? ` and ${result.images} images` : ''}`
+        );
+        if (result.skipped.length > 0) {
+          this.notificationService.warning(`Could not read ${result.skipped.length} notes: ${result.skipped.join(', ')}`);
+        }
+        this.imported.emit(result);
+      },
+      error: error => {
+        console.error('❌ Error importing notes:', error);
+        this.busy = false;
+        this.notificationService.error(`Import failed: ${error?.message || error}`);
+      }
+    });
+  }
+
+  reset(): void {
+    this.bundle = null;
+    this.folder = '';
+  }
+
+  cancel(): void {
+    if (!this.busy) {
+      this.cancelled.emit();
+    }
+  }
+
+  private setBundle(bundle: ImportBundle): void {
+    this.reading = false;
+    if (bundle.plan.notes.size === 0) {
+      this.notificationService.warning('No markdown notes found');
+      return;
+    }
+    this.bundle = bundle;
+    this.folder = bundle.name;
+  }
+}
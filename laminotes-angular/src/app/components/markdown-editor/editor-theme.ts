@@ -0,0 +1,169 @@
+/**
+ * Editor theme.
+ *
+ * Colours of the markdown editor in the app's dark palette, and the
+ * highlighting of markdown markup and of the code in fenced blocks.
+ */
+import { EditorView } from '@codemirror/view';
+import { HighlightStyle } from '@codemirror/language';
+import { tags } from '@lezer/highlight';
+
+/**
+ * Editor chrome: text, gutters, selection, fold markers and panels
+ */
+export const editorTheme = EditorView.theme({
+  '&': {
+    height: '100%',
+    color: '#F3F3F7',
+    backgroundColor: 'transparent',
+    fontSize: '15px'
+  },
+  '&.cm-focused': {
+    outline: 'none'
+  },
+  '.cm-scroller': {
+    fontFamily: "'Space Grotesk', monospace",
+    lineHeight: '1.6',
+    overflow: 'auto'
+  },
+  '.cm-scroller::-webkit-scrollbar': {
+    width: '6px',
+    height: '6px'
+  },
+  '.cm-scroller::-webkit-scrollbar-track': {
+    background: '#161820'
+  },
+  '.cm-scroller::-webkit-scrollbar-thumb': {
+    background: '#22242E',
+    borderRadius: '3px'
+  },
+  '.cm-scroller::-webkit-scrollbar-thumb:hover': {
+    background: '#FF5F1F'
+  },
+  '.cm-content': {
+    padding: '20px 0',
+    caretColor: '#FF5F1F'
+  },
+  '.cm-line': {
+    padding: '0 20px 0 8px'
+  },
+  '.cm-cursor, .cm-dropCursor': {
+    borderLeftColor: '#FF5F1F',
+    borderLeftWidth: '2px'
+  },
+  '&.cm-focused > .cm-scroller > .cm-selectionLayer .cm-selectionBackground, .cm-selectionBackground, .cm-content ::selection': {
+    backgroundColor: 'rgba(56, 182, 255, 0.25)'
+  },
+  '.cm-activeLine': {
+    backgroundColor: 'rgba(255, 255, 255, 0.02)'
+  },
+  '.cm-selectionMatch': {
+    backgroundColor: 'rgba(56, 182, 255, 0.12)'
+  },
+  '&.cm-focused .cm-matchingBracket': {
+    backgroundColor: 'rgba(255, 95, 31, 0.2)',
+    outline: 'none'
+  },
+  '.cm-gutters': {
+    backgroundColor: '#161820',
+    color: 'rgba(160, 163, 177, 0.5)',
+    border: 'none'
+  },
+  '.cm-activeLineGutter': {
+    backgroundColor: 'transparent',
+    color: '#A0A3B1'
+  },
+  '.cm-foldGutter .cm-gutterElement': {
+    color: '#A0A3B1',
+    cursor: 'pointer'
+  },
+  '.cm-foldPlaceholder': {
+    backgroundColor: '#22242E',
+    border: '1px solid rgba(255, 95, 31, 0.2)',
+    color: '#A0A3B1',
+    padding: '0 6px',
+    borderRadius: '3px'
+  },
+  '.cm-placeholder': {
+    color: 'rgba(160, 163, 177, 0.5)'
+  },
+  '.cm-panels': {
+    backgroundColor: '#1A1C25',
+    color: '#F3F3F7'
+  },
+  '.cm-panels.cm-panels-top': {
+    borderBottom: '1px solid rgba(255, 95, 31, 0.2)'
+  },
+  '.cm-panels.cm-panels-bottom': {
+    borderTop: '1px solid rgba(255, 95, 31, 0.2)'
+  },
+  '.cm-panel input, .cm-panel button': {
+    backgroundColor: '#22242E',
+    color: '#F3F3F7',
+    border: '1px solid rgba(255, 95, 31, 0.2)',
+    borderRadius: '3px'
+  },
+  '.cm-searchMatch': {
+    backgroundColor: 'rgba(255, 95, 31, 0.25)'
+  },
+  '.cm-searchMatch.cm-searchMatch-selected': {
+    backgroundColor: 'rgba(255, 95, 31, 0.5)'
+  },
+  '.cm-tooltip': {
+    backgroundColor: '#1A1C25',
+    border: '1px solid rgba(255, 95, 31, 0.2)',
+    borderRadius: '6px',
+    boxShadow: '0 8px 24px rgba(0, 0, 0, 0.25)',
+    color: '#F3F3F7'
+  },
+  '.cm-tooltip.cm-tooltip-autocomplete > ul': {
+    fontFamily: 'inherit',
+    fontSize: '13px',
+    minWidth: '220px',
+    maxWidth: '360px'
+  },
+  '.cm-tooltip.cm-tooltip-autocomplete > ul > li': {
+    padding: '5px 12px',
+    borderLeft: '2px solid transparent'
+  },
+  '.cm-tooltip-autocomplete ul li[aria-selected]': {
+    backgroundColor: '#22242E',
+    borderLeftColor: '#FF5F1F',
+    color: '#F3F3F7'
+  },
+  '.cm-completionDetail': {
+    marginLeft: '8px',
+    fontSize: '11px',
+    fontStyle: 'normal',
+    color: '#A0A3B1'
+  },
+  '.cm-completionMatchedText': {
+    textDecoration: 'none',
+    color: '#FF5F1F'
+  }
+}, { dark: true });
+
+/**
+ * Highlighting of markdown markup and of fenced code
+ */
+export const markdownHighlightStyle = HighlightStyle.define([
+  { tag: tags.heading1, color: '#FF5F1F', fontWeight: '700', fontSize: '1.3em' },
+  { tag: tags.heading2, color: '#FF5F1F', fontWeight: '700', fontSize: '1.15em' },
+  { tag: [tags.heading3, tags.heading4, tags.heading5, tags.heading6], color: '#FF5F1F', fontWeight: '600' },
+  { tag: tags.strong, fontWeight: '700' },
+  { tag: tags.emphasis, fontStyle: 'italic' },
+  { tag: tags.strikethrough, textDecoration: 'line-through' },
+  { tag: [tags.link, tags.url], color: '#38B6FF' },
+  { tag: tags.quote, color: '#A0A3B1', fontStyle: 'italic' },
+  { tag: tags.monospace, color: '#FFB38A' },
+  { tag: [tags.processingInstruction, tags.contentSeparator, tags.labelName], color: 'rgba(160, 163, 177, 0.7)' },
+  { tag: [tags.keyword, tags.operatorKeyword, tags.modifier], color: '#C792EA' },
+  { tag: [tags.string, tags.special(tags.string), tags.regexp], color: '#C3E88D' },
+  { tag: [tags.number, tags.bool, tags.null, tags.atom], color: '#F78C6C' },
+  { tag: [tags.comment, tags.meta], color: '#6B6F80', fontStyle: 'italic' },
+  { tag: [tags.function(tags.variableName), tags.function(tags.propertyName)], color: '#82AAFF' },
+  { tag: [tags.typeName, tags.className, tags.namespace], color: '#FFCB6B' },
+  { tag: [tags.propertyName, tags.attributeName], color: '#38B6FF' },
+  { tag: [tags.tagName, tags.angleBracket], color: '#FF5F1F' },
+  { tag: tags.invalid, color: '#FF5370' }
+]);
@@ -0,0 +1,56 @@
+import { EditorSelection, EditorState } from '@codemirror/state';
+
+import { FormatAction, formattingCommands } from './formatting';
+
+/**
+ * Runs an action on a text where `[` and `]` mark the selection, and returns
+ * the result marked the same way
+ */
+function format(action: FormatAction, marked: string): string {
+  const from = marked.indexOf('[');
+  const to = marked.indexOf(']') - 1;
+  let state = EditorState.create({
+    doc: marked.replace('[', '').replace(']', ''),
+    selection: EditorSelection.single(from, to)
+  });
+
+  formattingCommands[action]({ state, dispatch: transaction => state = transaction.state });
+
+  const { from: start, to: end } = state.selection.main;
+  const text = state.doc.toString();
+  return text.slice(0, start) + '[' + text.slice(start, end) + ']' + text.slice(end);
+}
+
+describe('formatting', () => {
+  it('should wrap and unwrap inline formats', () => {
+    expect(format('bold', 'a [word] b')).toBe('a **[word]** b');
+    expect(format('bold', 'a **[word]** b')).toBe('a [word] b');
+    expect(format('italic', 'a [**word**] b')).toBe('a _[**word**]_ b');
+    expect(format('code', '[]')).toBe('`[]`');
+  });
+
+  it('should fence code spanning several lines', () => {
+    expect(format('code', '[a\nb]')).toBe('```\n[a\nb]\n```');
+  });
+
+  it('should set and clear headings', () => {
+    expect(format('heading2', '# Ti[]tle')).toBe('## Ti[]tle');
+    expect(format('heading2', '## Ti[]tle')).toBe('Ti[]tle');
+  });
+
+  it('should switch selected lines between kinds of list', () => {
+    expect(format('orderedList', '[- one\n- two]')).toBe('[1. one\n2. two]');
+    expect(format('taskList', '  [one]')).toBe('  - [ ] [one]');
+    expect(format('bulletList', '[- one\n\n- two]')).toBe('[one\n\ntwo]');
+  });
+
+  it('should quote lines, leaving a line after the selection alone', () => {
+    expect(format('quote', '[a\n\nb\n]c')).toBe('> [a\n>\n> b\n]c');
+    expect(format('quote', '[> a\n> b]')).toBe('[a\nb]');
+  });
+
+  it('should select the URL of a new link', () => {
+    expect(format('link', 'see [docs]')).toBe('see [docs]([url])');
+    expect(format('link', '[https://x.io]')).toBe('[[]](https://x.io)');
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Markdown formatting.
+ *
+ * Editor commands behind the formatting toolbar and its shortcuts. Inline
+ * formats wrap each selection in markers, or unwrap it when it's already
+ * wrapped; line formats (headings, lists, quotes) apply to every selected
+ * line, or are removed when all of them have it already.
+ */
+import { EditorSelection, EditorState, Line, StateCommand } from '@codemirror/state';
+import { KeyBinding } from '@codemirror/view';
+
+/**
+ * A formatting toolbar action
+ */
+export type FormatAction =
+  | 'bold'
+  | 'italic'
+  | 'code'
+  | 'heading1'
+  | 'heading2'
+  | 'heading3'
+  | 'bulletList'
+  | 'orderedList'
+  | 'taskList'
+  | 'quote'
+  | 'link';
+
+/** Key of each action, in CodeMirror's notation */
+export const FORMAT_SHORTCUTS: Record<FormatAction, string> = {
+  bold: 'Mod-b',
+  italic: 'Mod-i',
+  code: 'Mod-`',
+  heading1: 'Mod-Alt-1',
+  heading2: 'Mod-Alt-2',
+  heading3: 'Mod-Alt-3',
+  bulletList: 'Mod-Shift-8',
+  orderedList: 'Mod-Shift-7',
+  taskList: 'Mod-Shift-9',
+  quote: 'Mod-Shift-.',
+  link: 'Mod-Alt-k'
+};
+
+const BULLET = /^(\s*)[-*+]\s+(?!\[[ xX]\]\s)/;
+const TASK = /^(\s*)[-*+]\s+\[[ xX]\]\s+/;
+const ORDERED = /^(\s*)\d+[.)]\s+/;
+const QUOTE = /^>\s?/;
+const HEADING = /^#{1,6}\s+/;
+
+/**
+ * Wraps each selection in a marker, or unwraps it
+ */
+function toggleInline(marker: string): StateCommand {
+  return ({ state, dispatch }) => {
+    const length = marker.length;
+    const changes = state.changeByRange(range => {
+      const before = state.sliceDoc(range.from - length, range.from);
+      const after = state.sliceDoc(range.to, range.to + length);
+      if (before === marker && after === marker) {
+        return {
+          changes: [{ from: range.from - length, to: range.from }, { from: range.to, to: range.to + length }],
+          range: EditorSelection.range(range.from - length, range.to - length)
+        };
+      }
+
+      const text = state.sliceDoc(range.from, range.to);
+      if (text.length >= 2 * length && text.startsWith(marker) && text.endsWith(marker)) {
+        return {
+          changes: { from: range.from, to: range.to, insert: text.slice(length, -length) },
+          range: EditorSelection.range(range.from, range.to - 2 * length)
+        };
+      }
+
+      return {
+        changes: [{ from: range.from, insert: marker }, { from: range.to, insert: marker }],
+        range: EditorSelection.range(range.from + length, range.to + length)
+      };
+    });
+
+    dispatch(state.update(changes, { scrollIntoView: true, userEvent: 'input.format' }));
+    return true;
+  };
+}
+
+/**
+ * Inline code, or a fenced code block when the selection spans several lines
+ */
+const toggleCode: StateCommand = ({ state, dispatch }) => {
+  const range = state.selection.main;
+  const first = state.doc.lineAt(range.from);
+  const last = state.doc.lineAt(range.to);
+  if (state.selection.ranges.length > 1 || first.number === last.number) {
+    return toggleInline('`')({ state, dispatch });
+  }
+
+  const fenced = /^```/.test(first.text) && /^```\s*$/.test(last.text);
+  const changes = fenced
+    ? [{ from: first.from, to: first.to + 1 }, { from: last.from - 1, to: last.to }]
+    : [{ from: first.from, insert: '```\n' }, { from: last.to, insert: '\n```' }];
+
+  dispatch(state.update({ changes, scrollIntoView: true, userEvent: 'input.format' }));
+  return true;
+};
+
+/**
+ * Sets every selected line to a heading level, or back to a paragraph
+ */
+function toggleHeading(level: number): StateCommand {
+  const prefix = '#'.repeat(level) + ' ';
+
+  return ({ state, dispatch }) => {
+    const lines = selectedLines(state).filter(line => line.text.trim() !== '');
+    const remove = lines.length > 0 && lines.every(line => (line.text.match(HEADING)?.[0].trim() ?? '') === prefix.trim());
+
+    const changes = lines.map(line => {
+      const existing = line.text.match(HEADING)?.[0].length ?? 0;
+      return { from: line.from, to: line.from + existing, insert: remove ? '' : prefix };
+    });
+
+    dispatch(state.update({ changes, scrollIntoView: true, userEvent: 'input.format' }));
+    return true;
+  };
+}
+
+/**
+ * Turns every selected line into an item of a kind of list, or back into text
+ */
+function toggleList(kind: RegExp, marker: (index: number) => string): StateCommand {
+  return ({ state, dispatch }) => {
+    const lines = selectedLines(state).filter(line => line.text.trim() !== '');
+    const remove = lines.length > 0 && lines.every(line => kind.test(line.text));
+
+    const changes = lines.map((line, index) => {
+      const existing = line.text.match(TASK) || line.text.match(BULLET) || line.text.match(ORDERED);
+      const indent = existing ? existing[1] : line.text.match(/^\s*/)![0];
+      const length = existing ? existing[0].length : indent.length;
+      return { from: line.from, to: line.from + length, insert: remove ? indent : indent + marker(index) };
+    });
+
+    dispatch(state.update({ changes, scrollIntoView: true, userEvent: 'input.format' }));
+    return true;
+  };
+}
+
+/**
+ * Quotes the selected lines, or unquotes them
+ */
+const toggleQuote: StateCommand = ({ state, dispatch }) => {
+  const lines = selectedLines(state);
+  const remove = lines.every(line => line.text.trim() === '' || QUOTE.test(line.text));
+
+  const changes = lines.map(line => remove
+    ? { from: line.from, to: line.from + (line.text.match(QUOTE)?.[0].length ?? 0) }
+    : { from: line.from, insert: line.text.trim() === '' ? '>' : '> ' });
+
+  dispatch(state.update({ changes, scrollIntoView: true, userEvent: 'input.format' }));
+  return true;
+};
+
+/**
+ * Links the selected text, selecting the URL to type; a selected URL becomes
+ * the target and the caret goes to the link text
+ */
+const insertLink: StateCommand = ({ state, dispatch }) => {
+  const changes = state.changeByRange(range => {
+    const text = state.sliceDoc(range.from, range.to);
+    if (text === '' || /^https?:\/\/\S+$/.test(text)) {
+      const link = `[](${text || 'url'})`;
+      return {
+        changes: { from: range.from, to: range.to, insert: link },
+        range: EditorSelection.cursor(range.from + 1)
+      };
+    }
+
+    const link = `[${text}](url)`;
+    const url = range.from + text.length + 3;
+    return {
+      changes: { from: range.from, to: range.to, insert: link },
+      range: EditorSelection.range(url, url + 3)
+    };
+  });
+
+  dispatch(state.update(changes, { scrollIntoView: true, userEvent: 'input.format' }));
+  return true;
+};
+
+/**
+ * The command behind each action
+ */
+export const formattingCommands: Record<FormatAction, StateCommand> = {
+  bold: toggleInline('**'),
+  italic: toggleInline('_'),
+  code: toggleCode,
+  heading1: toggleHeading(1),
+  heading2: toggleHeading(2),
+  heading3: toggleHeading(3),
+  bulletList: toggleList(BULLET, () => '- '),
+  orderedList: toggleList(ORDERED, index => `${index + 1}. `),
+  taskList: toggleList(TASK, () => '- [ ] '),
+  quote: toggleQuote,
+  link: insertLink
+};
+
+/** Shortcuts of the formatting actions */
+export const formattingKeymap: KeyBinding[] = (Object.keys(FORMAT_SHORTCUTS) as FormatAction[])
+  .map(action => ({ key: FORMAT_SHORTCUTS[action], run: formattingCommands[action], preventDefault: true }));
+
+/**
+ * Lines touched by the selection, each once; a range ending at the start of
+ * a line leaves that line out
+ */
+function selectedLines(state: EditorState): Line[] {
+  const lines: Line[] = [];
+  let last = 0;
+
+  for (const range of state.selection.ranges) {
+    const first = state.doc.lineAt(range.from).number;
+    let end = state.doc.lineAt(range.to).number;
+    if (range.to > range.from && state.doc.line(end).from === range.to) {
+      end--;
+    }
+
+    for (let number = Math.max(first, last + 1); number <= end; number++) {
+      lines.push(state.doc.line(number));
+      last = number;
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,455 @@
+/**
+ * Markdown editor component.
+ *
+ * CodeMirror editor for the note text. It highlights markdown and the code
+ * of fenced blocks in their language, folds sections under headings, and
+ * supports several cursors (Ctrl/Cmd-click, Alt-drag for a rectangle,
+ * Ctrl/Cmd-D for the next occurrence). Typing `[[` suggests notes to link to,
+ * typing `/` offers the blocks registered as slash commands, and other
+ * collaborators' carets are drawn in the text. Formatting actions run on
+ * every selection, from the toolbar through format() or by their shortcuts.
+ *
+ * For keeping a preview alongside in step, it reports the line at the top
+ * of the view as the user scrolls and the line the caret is on, and can be
+ * scrolled to a line.
+ *
+ * The parent owns the text: edits typed here come out of contentChange, and
+ * text set through the content input (a remote edit, a restored version) is
+ * merged in without moving the caret or entering the undo history. A new
+ * documentId starts over with a fresh undo history.
+ */
+import {
+  Component,
+  ElementRef,
+  EventEmitter,
+  Input,
+  OnChanges,
+  OnDestroy,
+  OnInit,
+  Output,
+  SimpleChanges,
+  ViewChild
+} from '@angular/core';
+import { acceptCompletion, autocompletion, completionKeymap } from '@codemirror/autocomplete';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import { markdown, markdownLanguage } from '@codemirror/lang-markdown';
+import { bracketMatching, foldGutter, foldKeymap, indentOnInput, syntaxHighlighting } from '@codemirror/language';
+import { languages } from '@codemirror/language-data';
+import { highlightSelectionMatches, searchKeymap } from '@codemirror/search';
+import { Annotation, EditorSelection, EditorState, Extension, Transaction } from '@codemirror/state';
+import {
+  EditorView,
+  ViewUpdate,
+  crosshairCursor,
+  drawSelection,
+  dropCursor,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  keymap,
+  lineNumbers,
+  placeholder,
+  rectangularSelection
+} from '@codemirror/view';
+import { CollaborationParticipant } from '../../services/collaboration.service';
+import { FileInfo } from '../../services/file.service';
+import { SlashCommandRegistryService } from '../../services/slash-command-registry.service';
+import { editorTheme, markdownHighlightStyle } from './editor-theme';
+import { FormatAction, formattingCommands, formattingKeymap } from './formatting';
+import { RemoteCursor, remoteCursors, setRemoteCursors } from './remote-cursors';
+import { slashCommandCompletions } from './slash-command-completion';
+import { wikiLinkCompletions } from './wikilink-completion';
+
+/**
+ * A range of the editor text
+ */
+export interface EditorRange {
+  start: number;
+  end: number;
+}
+
+/** Marks text set by the parent rather than typed in the editor */
+const externalChange = Annotation.define<boolean>();
+
+/**
+ * Code editor for markdown notes
+ */
+@Component({
+  selector: 'app-markdown-editor',
+  standalone: true,
+  template: `<div #host class="markdown-editor"></div>`,
+  styles: [`
+    :host {
+      flex: 1;
+      display: flex;
+      min-width: 0;
+      min-height: 0;
+    }
+
+    .markdown-editor {
+      flex: 1;
+      min-width: 0;
+      height: 100%;
+    }
+  `]
+})
+export class MarkdownEditorComponent implements OnInit, OnChanges, OnDestroy {
+  /** Editor text */
+  @Input() content = '';
+
+  /** Identifies the note being edited; changing it resets the undo history */
+  @Input() documentId: string | null = null;
+
+  /** Text shown while the editor is empty */
+  @Input() placeholder = '';
+
+  /** Notes `[[links]]` can point to */
+  @Input() notes: FileInfo[] = [];
+
+  /** Other collaborators with their selections */
+  @Input() participants: CollaborationParticipant[] = [];
+
+  /** Colours keyed by user id; falls back to the participant's own colour */
+  @Input() userColors: Record<string, string> = {};
+
+  /** Emits the text after each edit made in the editor */
+  @Output() contentChange = new EventEmitter<string>();
+
+  /** Emits the main selection whenever it moves */
+  @Output() selectionChange = new EventEmitter<EditorRange>();
+
+  /** Emits the line at the top of the view as the user scrolls, with the fraction scrolled past */
+  @Output() scrolledToLine = new EventEmitter<number>();
+
+  /** Emits the line of the main caret, counted from 0, when it moves to another line */
+  @Output() caretLineChange = new EventEmitter<number>();
+
+  @ViewChild('host', { static: true }) host!: ElementRef<HTMLDivElement>;
+
+  private view: EditorView | null = null;
+
+  constructor(private slashCommands: SlashCommandRegistryService) {}
+
+  private caretLine: number | null = null;
+
+  /** Scroll position set by scrollToLine, whose scroll event isn't the user's */
+  private syncedScrollTop: number | null = null;
+
+  private readonly onScroll = () => {
+    const scrollTop = this.scrollTop;
+    const synced = this.syncedScrollTop !== null && Math.abs(scrollTop - this.syncedScrollTop) < 2;
+    this.syncedScrollTop = null;
+    if (!synced) {
+      this.scrolledToLine.emit(this.lineAtTop());
+    }
+  };
+
+  ngOnInit(): void {
+    this.view = new EditorView({
+      parent: this.host.nativeElement,
+      state: this.createState(this.content)
+    });
+    this.view.scrollDOM.addEventListener('scroll', this.onScroll);
+    this.showRemoteCursors();
+    this.emitCaretLine();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (!this.view) {
+      return;
+    }
+
+    if (changes['documentId']) {
+      this.view.setState(this.createState(this.content));
+      this.emitCaretLine();
+    } else if (changes['content']) {
+      this.mergeContent(this.content);
+    }
+
+    if (changes['documentId'] || changes['participants'] || changes['userColors']) {
+      this.showRemoteCursors();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.view?.scrollDOM.removeEventListener('scroll', this.onScroll);
+    this.view?.destroy();
+    this.view = null;
+  }
+
+  /** Scroll offset of the editor, kept per tab */
+  get scrollTop(): number {
+    return this.view ? this.view.scrollDOM.scrollTop : 0;
+  }
+
+  set scrollTop(value: number) {
+    if (this.view) {
+      this.view.scrollDOM.scrollTop = value;
+    }
+  }
+
+  focus(): void {
+    this.view?.focus();
+  }
+
+  /**
+   * The main selection; with several cursors, the one last added
+   */
+  getSelection(): EditorRange {
+    if (!this.view) {
+      return { start: 0, end: 0 };
+    }
+    const { from, to } = this.view.state.selection.main;
+    return { start: from, end: to };
+  }
+
+  /**
+   * Text of the main selection, or an empty string when nothing is selected
+   */
+  getSelectedText(): string {
+    if (!this.view) {
+      return '';
+    }
+    const { from, to } = this.view.state.selection.main;
+    return this.view.state.sliceDoc(from, to);
+  }
+
+  /**
+   * Selects a range without scrolling, leaving a single cursor
+   */
+  setSelection(start: number, end: number = start): void {
+    if (!this.view) {
+      return;
+    }
+    const length = this.view.state.doc.length;
+    const clamp = (position: number) => Math.max(0, Math.min(length, position));
+    this.view.dispatch({ selection: EditorSelection.single(clamp(start), clamp(end)) });
+  }
+
+  /**
+   * Replaces every selected range with text, leaving the cursors after it
+   */
+  replaceSelection(text: string): void {
+    if (!this.view) {
+      return;
+    }
+    this.view.dispatch(this.view.state.replaceSelection(text), {
+      scrollIntoView: true,
+      userEvent: 'input.replace'
+    });
+    this.view.focus();
+  }
+
+  /**
+   * Inserts text and puts the caret after it
+   * @param position Where to insert; defaults to the main caret
+   */
+  insert(text: string, position?: number): void {
+    if (!this.view) {
+      return;
+    }
+    const at = Math.max(0, Math.min(this.view.state.doc.length, position ?? this.view.state.selection.main.head));
+    this.view.dispatch({
+      changes: { from: at, insert: text },
+      selection: EditorSelection.cursor(at + text.length),
+      scrollIntoView: true,
+      userEvent: 'input'
+    });
+    this.view.focus();
+  }
+
+  /**
+   * Puts the caret at the start of a line and scrolls it into the upper third
+   * @param line Line number, counted from 0
+   */
+  revealLine(line: number): void {
+    if (!this.view) {
+      return;
+    }
+    const doc = this.view.state.doc;
+    const position = doc.line(Math.max(1, Math.min(doc.lines, line + 1))).from;
+    this.view.dispatch({
+      selection: EditorSelection.cursor(position),
+      effects: EditorView.scrollIntoView(position, { y: 'start', yMargin: this.view.scrollDOM.clientHeight / 3 })
+    });
+    this.view.focus();
+  }
+
+  /**
+   * Applies a formatting action to every selection
+   */
+  format(action: FormatAction): void {
+    if (!this.view) {
+      return;
+    }
+    formattingCommands[action](this.view);
+    this.view.focus();
+  }
+
+  /**
+   * Puts the caret at the start of a line, scrolling only if it's out of view
+   * @param line Line number, counted from 0
+   */
+  placeCaretOnLine(line: number): void {
+    if (!this.view) {
+      return;
+    }
+    const doc = this.view.state.doc;
+    const position = doc.line(Math.max(1, Math.min(doc.lines, line + 1))).from;
+    this.view.dispatch({
+      selection: EditorSelection.cursor(position),
+      effects: EditorView.scrollIntoView(position, { y: 'nearest' })
+    });
+    this.view.focus();
+  }
+
+  /**
+   * Scrolls so that a line is at the top of the view
+   * @param line Line counted from 0, with the fraction of it to scroll past
+   */
+  scrollToLine(line: number): void {
+    if (!this.view) {
+      return;
+    }
+    const doc = this.view.state.doc;
+    const number = Math.max(0, Math.min(doc.lines - 1, Math.floor(line)));
+    const block = this.view.lineBlockAt(doc.line(number + 1).from);
+    const fraction = Math.max(0, Math.min(1, line - number));
+    const scrollTop = Math.round(this.documentOffset() + block.top + fraction * block.height);
+    if (Math.abs(this.scrollTop - scrollTop) < 1) {
+      return;
+    }
+
+    this.scrollTop = scrollTop;
+    this.syncedScrollTop = this.scrollTop;
+  }
+
+  /**
+   * Line at the top of the view, with the fraction of it scrolled past
+   */
+  private lineAtTop(): number {
+    const view = this.view!;
+    const height = this.scrollTop - this.documentOffset();
+    const block = view.lineBlockAtHeight(height);
+    const fraction = block.height > 0 ? Math.max(0, Math.min(1, (height - block.top) / block.height)) : 0;
+    return view.state.doc.lineAt(block.from).number - 1 + fraction;
+  }
+
+  /**
+   * Offset of the document's top within the scrolled content, i.e. its top padding
+   */
+  private documentOffset(): number {
+    const view = this.view!;
+    return view.documentTop - view.scrollDOM.getBoundingClientRect().top + view.scrollDOM.scrollTop;
+  }
+
+  private emitCaretLine(): void {
+    if (!this.view) {
+      return;
+    }
+    const state = this.view.state;
+    const line = state.doc.lineAt(state.selection.main.head).number - 1;
+    if (line !== this.caretLine) {
+      this.caretLine = line;
+      this.caretLineChange.emit(line);
+    }
+  }
+
+  private createState(content: string): EditorState {
+    return EditorState.create({
+      doc: content,
+      extensions: this.extensions()
+    });
+  }
+
+  private extensions(): Extension[] {
+    return [
+      lineNumbers(),
+      highlightActiveLineGutter(),
+      foldGutter(),
+      history(),
+      drawSelection(),
+      dropCursor(),
+      EditorState.allowMultipleSelections.of(true),
+      rectangularSelection(),
+      crosshairCursor(),
+      indentOnInput(),
+      bracketMatching(),
+      highlightActiveLine(),
+      highlightSelectionMatches(),
+      markdown({ base: markdownLanguage, codeLanguages: languages, completeHTMLTags: false }),
+      syntaxHighlighting(markdownHighlightStyle),
+      autocompletion({
+        override: [
+          wikiLinkCompletions(() => this.notes),
+          slashCommandCompletions(() => this.slashCommands.commands())
+        ],
+        icons: false
+      }),
+      remoteCursors(),
+      placeholder(this.placeholder),
+      EditorView.lineWrapping,
+      editorTheme,
+      keymap.of([
+        ...completionKeymap,
+        { key: 'Tab', run: acceptCompletion },
+        indentWithTab,
+        ...formattingKeymap,
+        ...searchKeymap,
+        ...foldKeymap,
+        ...historyKeymap,
+        ...defaultKeymap
+      ]),
+      EditorView.updateListener.of(update => this.onUpdate(update))
+    ];
+  }
+
+  private onUpdate(update: ViewUpdate): void {
+    const typed = update.transactions.some(transaction =>
+      transaction.docChanged && !transaction.annotation(externalChange));
+    if (typed) {
+      this.contentChange.emit(update.state.doc.toString());
+    }
+
+    if (update.selectionSet || update.docChanged) {
+      const { from, to } = update.state.selection.main;
+      this.selectionChange.emit({ start: from, end: to });
+      this.emitCaretLine();
+    }
+  }
+
+  /**
+   * Replaces only the part of the text that differs, so selections map across it
+   */
+  private mergeContent(content: string): void {
+    const view = this.view!;
+    const current = view.state.doc.toString();
+    if (current === content) {
+      return;
+    }
+
+    let start = 0;
+    while (start < current.length && start < content.length && current[start] === content[start]) {
+      start++;
+    }
+    let end = 0;
+    while (end < current.length - start && end < content.length - start
+      && current[current.length - 1 - end] === content[content.length - 1 - end]) {
+      end++;
+    }
+
+    view.dispatch({
+      changes: { from: start, to: current.length - end, insert: content.substring(start, content.length - end) },
+      annotations: [externalChange.of(true), Transaction.addToHistory.of(false)]
+    });
+  }
+
+  private showRemoteCursors(): void {
+    const cursors: RemoteCursor[] = this.participants.map(participant => ({
+      name: participant.name,
+      color: this.userColors[participant.userId] || participant.color,
+      anchor: participant.selectionStart,
+      head: participant.selectionEnd
+    }));
+    this.view?.dispatch({ effects: setRemoteCursors.of(cursors) });
+  }
+}
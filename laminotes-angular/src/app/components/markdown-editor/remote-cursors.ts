@@ -0,0 +1,134 @@
+/**
+ * Remote cursors.
+ *
+ * Editor extension drawing the carets and selections of other collaborators.
+ * They're decorations, so they follow the text through local edits until the
+ * collaborators' next positions come in.
+ */
+import { Extension, StateEffect, StateField } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, WidgetType } from '@codemirror/view';
+
+/**
+ * A collaborator's caret and selection in the editor text
+ */
+export interface RemoteCursor {
+  name: string;
+  color: string;
+
+  /** Where the selection starts */
+  anchor: number;
+
+  /** Where the caret is */
+  head: number;
+}
+
+/**
+ * Replaces the remote cursors shown
+ */
+export const setRemoteCursors = StateEffect.define<RemoteCursor[]>();
+
+class RemoteCaretWidget extends WidgetType {
+  constructor(readonly name: string, readonly color: string) {
+    super();
+  }
+
+  override eq(other: RemoteCaretWidget): boolean {
+    return other.name === this.name && other.color === this.color;
+  }
+
+  toDOM(): HTMLElement {
+    const caret = document.createElement('span');
+    caret.className = 'cm-remote-caret';
+    caret.style.borderColor = this.color;
+
+    const label = document.createElement('span');
+    label.className = 'cm-remote-caret-label';
+    label.style.backgroundColor = this.color;
+    label.textContent = this.name;
+    caret.appendChild(label);
+    return caret;
+  }
+
+  override ignoreEvent(): boolean {
+    return true;
+  }
+}
+
+const remoteCursorField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+
+  update(cursors, transaction) {
+    cursors = cursors.map(transaction.changes);
+    for (const effect of transaction.effects) {
+      if (effect.is(setRemoteCursors)) {
+        cursors = decorationsFor(effect.value, transaction.state.doc.length);
+      }
+    }
+    return cursors;
+  },
+
+  provide: field => EditorView.decorations.from(field)
+});
+
+const remoteCursorTheme = EditorView.baseTheme({
+  '.cm-remote-caret': {
+    position: 'relative',
+    display: 'inline-block',
+    width: '0',
+    height: '1.2em',
+    marginRight: '-2px',
+    borderLeft: '2px solid',
+    verticalAlign: 'text-bottom'
+  },
+  '.cm-remote-caret-label': {
+    position: 'absolute',
+    bottom: '100%',
+    left: '-2px',
+    padding: '0 4px',
+    borderRadius: '3px 3px 3px 0',
+    fontSize: '10px',
+    lineHeight: '14px',
+    color: '#fff',
+    whiteSpace: 'nowrap',
+    opacity: '0.9',
+    pointerEvents: 'none'
+  }
+});
+
+/**
+ * Shows remote cursors set with the setRemoteCursors effect
+ */
+export function remoteCursors(): Extension {
+  return [remoteCursorField, remoteCursorTheme];
+}
+
+function decorationsFor(cursors: RemoteCursor[], length: number): DecorationSet {
+  const clamp = (position: number) => Math.max(0, Math.min(length, position));
+
+  const ranges = cursors.flatMap(cursor => {
+    const from = clamp(Math.min(cursor.anchor, cursor.head));
+    const to = clamp(Math.max(cursor.anchor, cursor.head));
+    const caret = Decoration.widget({ widget: new RemoteCaretWidget(cursor.name, cursor.color), side: 1 })
+      .range(clamp(cursor.head));
+
+    if (from === to) {
+      return [caret];
+    }
+    const selection = Decoration.mark({ attributes: { style: `background-color: ${withAlpha(cursor.color, 0.25)}` } })
+      .range(from, to);
+    return [selection, caret];
+  });
+
+  return Decoration.set(ranges, true);
+}
+
+function withAlpha(color: string, alpha: number): string {
+  const hex = color.replace('#', '');
+  if (!/^[0-9a-fA-F]{6}$/.test(hex)) {
+    return color;
+  }
+  const r = parseInt(hex.substring(0, 2), 16);
+  const g = parseInt(hex.substring(2, 4), 16);
+  const b = parseInt(hex.substring(4, 6), 16);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
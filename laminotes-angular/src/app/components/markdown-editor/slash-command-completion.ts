@@ -0,0 +1,93 @@
+/**
+ * Slash command completion.
+ *
+ * Completion source opening the block menu when `/` is typed at the start of
+ * a line or after a space, outside code. What follows the slash filters the
+ * commands fuzzily; choosing one replaces the typed `/command` with its block.
+ */
+import { Completion, CompletionSource } from '@codemirror/autocomplete';
+import { syntaxTree } from '@codemirror/language';
+import { EditorSelection, EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { fuzzyFilter } from '../../services/fuzzy-match';
+import { SLASH_CURSOR, SlashCommand } from '../../services/slash-command-registry.service';
+
+/** Syntax nodes inside which a slash is just a slash */
+const CODE_NODES = new Set(['FencedCode', 'CodeBlock', 'InlineCode', 'CodeText', 'URL']);
+
+/**
+ * Completes `/commands` with the commands given
+ * @param commands Reads the commands offered when a slash is typed
+ */
+export function slashCommandCompletions(commands: () => SlashCommand[]): CompletionSource {
+  return context => {
+    const typed = context.matchBefore(/\/[\w-]*$/);
+    if (!typed) {
+      return null;
+    }
+
+    const before = context.state.sliceDoc(typed.from - 1, typed.from);
+    if (before !== '' && !/\s/.test(before)) {
+      return null;
+    }
+
+    if (insideCode(context.state, typed.from)) {
+      return null;
+    }
+
+    return {
+      from: typed.from,
+      options: optionsFor(typed.text.substring(1), commands()),
+      // Commands are already ranked by fuzzy matching
+      filter: false
+    };
+  };
+}
+
+function optionsFor(query: string, commands: SlashCommand[]): Completion[] {
+  return fuzzyFilter(commands, query, command => [command.id, command.label, ...(command.keywords || [])].join(' '))
+    .map(({ item: command }, index) => ({
+      label: `/${command.id}`,
+      displayLabel: command.label,
+      detail: command.description,
+      apply: (view: EditorView, _completion: Completion, from: number, to: number) => applyCommand(view, command, from, to),
+      boost: -index
+    }));
+}
+
+/**
+ * Replaces the typed `/command` with the command's block, or runs the command
+ */
+function applyCommand(view: EditorView, command: SlashCommand, from: number, to: number): void {
+  if (!command.insert) {
+    view.dispatch({ changes: { from, to }, userEvent: 'input.complete' });
+    command.run?.();
+    return;
+  }
+
+  let text = command.insert();
+  const line = view.state.doc.lineAt(from);
+  if (text.includes('\n') && view.state.sliceDoc(line.from, from).trim() !== '') {
+    text = '\n' + text;
+  }
+
+  const cursor = text.indexOf(SLASH_CURSOR);
+  text = text.replace(SLASH_CURSOR, '');
+  view.dispatch({
+    changes: { from, to, insert: text },
+    selection: EditorSelection.cursor(from + (cursor >= 0 ? cursor : text.length)),
+    scrollIntoView: true,
+    userEvent: 'input.complete'
+  });
+}
+
+function insideCode(state: EditorState, position: number): boolean {
+  let node = syntaxTree(state).resolveInner(position, 1);
+  while (!CODE_NODES.has(node.name)) {
+    if (!node.parent) {
+      return false;
+    }
+    node = node.parent;
+  }
+  return true;
+}
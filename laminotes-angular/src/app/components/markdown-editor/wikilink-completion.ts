@@ -0,0 +1,63 @@
+/**
+ * Wiki link completion.
+ *
+ * Completion source suggesting notes while a `[[link` is typed, matching
+ * their titles fuzzily. Choosing a note completes the link and closes it
+ * unless the closing brackets are already there.
+ */
+import { Completion, CompletionSource } from '@codemirror/autocomplete';
+import { FileInfo } from '../../services/file.service';
+import { fuzzyFilter } from '../../services/fuzzy-match';
+import { noteTitle, wikiLinkCompletion } from '../../services/wikilinks';
+
+/** Most notes suggested at once */
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Completes `[[links]]` to the notes given
+ * @param notes Reads the notes that can be linked to when a link is typed
+ */
+export function wikiLinkCompletions(notes: () => FileInfo[]): CompletionSource {
+  return context => {
+    const line = context.state.doc.lineAt(context.pos);
+    const completion = wikiLinkCompletion(line.text, context.pos - line.from);
+    if (!completion) {
+      return null;
+    }
+
+    const closed = context.state.sliceDoc(context.pos, context.pos + 2) === ']]';
+    return {
+      from: line.from + completion.start,
+      to: closed ? context.pos + 2 : context.pos,
+      options: suggestionsFor(completion.query, notes()),
+      // Notes are already ranked by fuzzy matching
+      filter: false
+    };
+  };
+}
+
+function suggestionsFor(query: string, files: FileInfo[]): Completion[] {
+  const notes = files.filter(file => !file.isBinary && /\.(md|markdown)$/i.test(file.name));
+
+  const titleCounts = new Map<string, number>();
+  notes.forEach(file => {
+    const key = noteTitle(file.name).toLowerCase();
+    titleCounts.set(key, (titleCounts.get(key) || 0) + 1);
+  });
+
+  return fuzzyFilter(notes, query, file => noteTitle(file.name))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ item: file }, index) => {
+      const title = noteTitle(file.name);
+      const shared = (titleCounts.get(title.toLowerCase()) || 0) > 1;
+      // Titles other notes share would be ambiguous, so those links use the path
+      const target = shared ? file.name.replace(/\.(md|markdown)$/i, '') : title;
+
+      return {
+        label: title,
+        detail: file.name.includes('/') ? file.name.substring(0, file.name.lastIndexOf('/')) : undefined,
+        apply: `${target}]]`,
+        boost: -index
+      };
+    });
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { NoteWindowComponent } from './note-window.component';
+
+describe('NoteWindowComponent', () => {
+  let component: NoteWindowComponent;
+  let fixture: ComponentFixture<NoteWindowComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [NoteWindowComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(NoteWindowComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Note window component.
+ *
+ * Shown instead of the main layout when a note is opened in its own Electron
+ * window. Edits one note with a live preview and keeps it in step with the
+ * other windows showing the same note through the main process.
+ */
+import { Component, ElementRef, OnDestroy, OnInit, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject, Subscription } from 'rxjs';
+import { debounceTime } from 'rxjs/operators';
+import { ElectronService } from '../../services/electron.service';
+import { FileInfo, FileService } from '../../services/file.service';
+import { MarkdownAsset, extractDataImages, inlineDataImages } from '../../services/markdown-assets';
+import { ColoredMarkdownViewComponent } from '../colored-markdown-view/colored-markdown-view.component';
+
+/**
+ * A single note in its own window
+ */
+@Component({
+  selector: 'app-note-window',
+  standalone: true,
+  imports: [CommonModule, ColoredMarkdownViewComponent],
+  template: `
+    <div class="note-window">
+      <div class="note-header">
+        <span class="note-title">
+          {{ file?.name || 'Loading...' }}<span class="unsaved" *ngIf="isDirty" title="Unsaved changes">●</span>
+        </span>
+        <span class="note-status">{{ status }}</span>
+        <button class="header-button" [class.active]="showPreview" title="Toggle preview" (click)="showPreview = !showPreview">
+          <i class="fas fa-eye"></i>
+        </button>
+        <button class="header-button" [disabled]="!file || isSaving" title="Save" (click)="save()">
+          <i class="fas" [ngClass]="isSaving ? 'fa-spinner fa-spin' : 'fa-save'"></i>
+        </button>
+      </div>
+
+      <div class="note-body" *ngIf="file; else missing">
+        <textarea
+          #editor
+          class="note-editor"
+          spellcheck="false"
+          [value]="editorText"
+          (input)="onInput(editor.value)">
+        </textarea>
+        <div class="note-preview" *ngIf="showPreview">
+          <app-colored-markdown-view [content]="content" [source]="content"></app-colored-markdown-view>
+        </div>
+      </div>
+
+      <ng-template #missing>
+        <div class="note-missing" *ngIf="!isLoading">This window's note is no longer available.</div>
+      </ng-template>
+    </div>
+  `,
+  styles: [`
+    :host {
+      display: block;
+      height: 100vh;
+    }
+
+    .note-window {
+      display: flex;
+      flex-direction: column;
+      height: 100%;
+      background-color: #161820;
+      color: #F3F3F7;
+    }
+
+    .note-header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 8px 12px;
+      background-color: #1A1C25;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .note-title {
+      flex: 1;
+      font-weight: 600;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .unsaved {
+      margin-left: 6px;
+      color: #FF5F1F;
+      font-size: 10px;
+    }
+
+    .note-status {
+      color: #A0A3B1;
+      font-size: 12px;
+    }
+
+    .header-button {
+      width: 30px;
+      height: 30px;
+      background: #22242E;
+      border: 1px solid rgba(255, 95, 31, 0.2);
+      border-radius: 3px;
+      color: #A0A3B1;
+      cursor: pointer;
+    }
+
+    .header-button:hover:not(:disabled), .header-button.active {
+      color: #F3F3F7;
+      border-color: #FF5F1F;
+    }
+
+    .header-button:disabled {
+      opacity: 0.6;
+      cursor: default;
+    }
+
+    .note-body {
+      display: flex;
+      flex: 1;
+      min-height: 0;
+    }
+
+    .note-editor {
+      flex: 1;
+      resize: none;
+      border: none;
+      outline: none;
+      padding: 16px;
+      background-color: #161820;
+      color: #F3F3F7;
+      font-family: 'JetBrains Mono', monospace;
+      font-size: 14px;
+      line-height: 1.6;
+    }
+
+    .note-preview {
+      flex: 1;
+      overflow: auto;
+      padding: 16px;
+      border-left: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .note-missing {
+      padding: 2rem;
+      color: #A0A3B1;
+      text-align: center;
+    }
+  `]
+})
+export class NoteWindowComponent implements OnInit, OnDestroy {
+  @ViewChild('editor') editorRef?: ElementRef<HTMLTextAreaElement>;
+
+  /** The note shown */
+  file: FileInfo | null = null;
+
+  /** Full markdown of the note, images included */
+  content = '';
+
+  /** Markdown in the editor, with images as short links into {@link assets} */
+  editorText = '';
+
+  showPreview = true;
+  isLoading = true;
+  isSaving = false;
+  status = '';
+
+  /** Images taken out of the editor text */
+  private assets: MarkdownAsset[] = [];
+
+  /** Content as last saved */
+  private savedContent = '';
+
+  private edits = new Subject<string>();
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private electronService: ElectronService,
+    private fileService: FileService
+  ) {}
+
+  get isDirty(): boolean {
+    return !!this.file && this.content !== this.savedContent;
+  }
+
+  ngOnInit(): void {
+    this.subscriptions = [
+      // Other windows see edits once typing pauses
+      this.edits.pipe(debounceTime(300)).subscribe(content => {
+        if (this.file) {
+          this.electronService.syncNote(this.file.path, content);
+        }
+      }),
+      this.electronService.noteSynced$.subscribe(note => {
+        if (note.path === this.file?.path && note.content !== this.content) {
+          this.showContent(note.content);
+        }
+      }),
+      this.electronService.menuCommands$.subscribe(({ command }) => {
+        if (command === 'save') {
+          this.save();
+        } else if (command === 'toggle-preview') {
+          this.showPreview = !this.showPreview;
+        }
+      })
+    ];
+
+    this.electronService.getNoteWindow().subscribe(note => {
+      if (!note) {
+        this.isLoading = false;
+        return;
+      }
+
+      const file = this.fileService.filesInDirectory.find(entry => entry.path === note.path) ||
+        { path: note.path, name: note.name };
+      document.title = `${file.name} - Laminotes`;
+
+      // The stored copy is the saved state; the main window may have sent unsaved edits
+      this.fileService.openFile(file).subscribe(saved => {
+        this.file = file;
+        this.savedContent = saved;
+        this.isLoading = false;
+        this.showContent(note.content);
+      });
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach(subscription => subscription.unsubscribe());
+  }
+
+  onInput(text: string): void {
+    this.editorText = text;
+    this.content = inlineDataImages(text, this.assets);
+    this.status = '';
+    this.edits.next(this.content);
+  }
+
+  save(): void {
+    if (!this.file || this.isSaving) {
+      return;
+    }
+
+    const content = this.content;
+    this.fileService.currentFile = this.file;
+    this.isSaving = true;
+    this.fileService.saveFile(content, this.file.path).subscribe({
+      next: () => {
+        this.isSaving = false;
+        this.savedContent = content;
+        this.status = 'Saved';
+      },
+      error: error => {
+        console.error('❌ Error saving note window:', error);
+        this.isSaving = false;
+        this.status = `Save failed: ${error?.message || error}`;
+      }
+    });
+  }
+
+  /**
+   * Replaces the note's content, keeping the caret where it was
+   */
+  private showContent(content: string): void {
+    const editor = this.editorRef?.nativeElement;
+    const selectionStart = editor?.selectionStart ?? 0;
+    const selectionEnd = editor?.selectionEnd ?? 0;
+
+    const extracted = extractDataImages(content, 'images');
+    this.content = content;
+    this.editorText = extracted.markdown;
+    this.assets = extracted.assets;
+
+    if (editor && document.activeElement === editor) {
+      editor.value = this.editorText;
+      editor.setSelectionRange(Math.min(selectionStart, editor.value.length), Math.min(selectionEnd, editor.value.length));
+    }
+  }
+}
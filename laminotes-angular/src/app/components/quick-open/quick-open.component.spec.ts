@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { QuickOpenComponent } from './quick-open.component';
+
+describe('QuickOpenComponent', () => {
+  let component: QuickOpenComponent;
+  let fixture: ComponentFixture<QuickOpenComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [QuickOpenComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(QuickOpenComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
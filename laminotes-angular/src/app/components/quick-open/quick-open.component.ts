@@ -0,0 +1,320 @@
+/**
+ * Quick-open component.
+ *
+ * Keyboard-driven palette for jumping to a note or running a command. What is
+ * typed is fuzzy matched against the notes of the current directory, the
+ * recent and shared notes and the commands in the CommandRegistryService;
+ * starting with ">" lists commands only.
+ */
+import { AfterViewInit, Component, ElementRef, EventEmitter, Input, OnInit, Output, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { FileInfo } from '../../services/file.service';
+import { AppCommand, CommandRegistryService } from '../../services/command-registry.service';
+import { FuzzyMatch, fuzzyMatch } from '../../services/fuzzy-match';
+
+/** Part of a label, matched or not */
+interface LabelPart {
+  text: string;
+  match: boolean;
+}
+
+/** A note or command the palette can list */
+interface QuickOpenEntry {
+  label: string;
+
+  /** Shown after the label: where a note comes from, or a command's shortcut */
+  detail: string;
+
+  icon: string;
+  file?: FileInfo;
+  command?: AppCommand;
+
+  /** Extra words matched when the label doesn't match */
+  keywords: string;
+}
+
+/** A listed entry with its highlighted label */
+interface QuickOpenResult {
+  entry: QuickOpenEntry;
+  parts: LabelPart[];
+}
+
+/** Most entries listed at once */
+const MAX_RESULTS = 50;
+
+/**
+ * Palette opening notes and running commands by name
+ */
+@Component({
+  selector: 'app-quick-open',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="quick-open-modal" (click)="close()">
+      <div class="quick-open-container" (click)="$event.stopPropagation()" (keydown)="onKeydown($event)">
+        <input #queryInput
+               type="text"
+               class="quick-open-input"
+               placeholder="Go to a note, or type > for commands"
+               [(ngModel)]="query"
+               (ngModelChange)="filter()">
+
+        <div class="quick-open-results">
+          <div class="quick-open-result"
+               *ngFor="let result of results; let i = index"
+               [class.selected]="i === selectedIndex"
+               (mouseenter)="selectedIndex = i"
+               (click)="choose(result.entry)">
+            <i class="fas" [ngClass]="result.entry.icon"></i>
+            <span class="result-label"><ng-container *ngFor="let part of result.parts"><b *ngIf="part.match">{{ part.text }}</b><ng-container *ngIf="!part.match">{{ part.text }}</ng-container></ng-container></span>
+            <span class="result-detail">{{ result.entry.detail }}</span>
+          </div>
+
+          <p class="quick-open-empty" *ngIf="results.length === 0">Nothing matches</p>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .quick-open-modal {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background-color: rgba(15, 17, 26, 0.7);
+      backdrop-filter: blur(3px);
+      display: flex;
+      justify-content: center;
+      align-items: flex-start;
+      padding-top: 12vh;
+      z-index: 1000;
+    }
+
+    .quick-open-container {
+      background-color: #1A1C25;
+      border-radius: 8px;
+      width: 90%;
+      max-width: 560px;
+      max-height: 60vh;
+      display: flex;
+      flex-direction: column;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+      border: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .quick-open-input {
+      background: none;
+      border: none;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.15);
+      outline: none;
+      color: #F3F3F7;
+      font-size: 16px;
+      padding: 0.9rem 1.25rem;
+    }
+
+    .quick-open-results {
+      overflow-y: auto;
+      padding: 0.4rem 0;
+    }
+
+    .quick-open-result {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      padding: 0.45rem 1.25rem;
+      cursor: pointer;
+      border-left: 2px solid transparent;
+      color: #A0A3B1;
+    }
+
+    .quick-open-result.selected {
+      background-color: #22242E;
+      border-left-color: #FF5F1F;
+    }
+
+    .quick-open-result i {
+      width: 16px;
+      text-align: center;
+    }
+
+    .result-label {
+      flex: 1;
+      color: #F3F3F7;
+      font-size: 14px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .result-label b {
+      color: #FF5F1F;
+    }
+
+    .result-detail {
+      font-size: 11px;
+      white-space: nowrap;
+    }
+
+    .quick-open-empty {
+      color: #A0A3B1;
+      font-size: 13px;
+      padding: 0.5rem 1.25rem;
+      margin: 0;
+    }
+  `]
+})
+export class QuickOpenComponent implements OnInit, AfterViewInit {
+  /** Notes of the current directory */
+  @Input() files: FileInfo[] = [];
+
+  /** Recently opened notes, listed first before anything is typed */
+  @Input() recentFiles: FileInfo[] = [];
+
+  /** Notes shared with the user */
+  @Input() sharedFiles: FileInfo[] = [];
+
+  /** Emits the note chosen */
+  @Output() fileOpened = new EventEmitter<FileInfo>();
+
+  /** Emits when the palette is dismissed or a command was chosen */
+  @Output() closed = new EventEmitter<void>();
+
+  @ViewChild('queryInput') queryInput!: ElementRef<HTMLInputElement>;
+
+  query = '';
+  results: QuickOpenResult[] = [];
+  selectedIndex = 0;
+
+  private fileEntries: QuickOpenEntry[] = [];
+  private commandEntries: QuickOpenEntry[] = [];
+
+  constructor(private commandRegistry: CommandRegistryService) {}
+
+  ngOnInit(): void {
+    const seen = new Set<string>();
+    const entriesOf = (files: FileInfo[], detail: string, icon: string): QuickOpenEntry[] => files
+      .filter(file => !seen.has(file.path) && seen.add(file.path))
+      .map(file => ({ label: file.name, detail, icon, file, keywords: '' }));
+
+    this.fileEntries = [
+      ...entriesOf(this.recentFiles, 'Recent', 'fa-clock'),
+      ...entriesOf(this.files, '', 'fa-file-alt'),
+      ...entriesOf(this.sharedFiles, 'Shared', 'fa-share-alt')
+    ];
+
+    this.commandEntries = this.commandRegistry.available().map(command => ({
+      label: command.category ? `${command.category}: ${command.label}` : command.label,
+      detail: command.shortcut || '',
+      icon: command.icon || 'fa-terminal',
+      command,
+      keywords: (command.keywords || []).join(' ')
+    }));
+
+    this.filter();
+  }
+
+  ngAfterViewInit(): void {
+    setTimeout(() => this.queryInput.nativeElement.focus());
+  }
+
+  filter(): void {
+    const commandsOnly = this.query.startsWith('>');
+    const query = commandsOnly ? this.query.substring(1) : this.query;
+    const entries = commandsOnly ? this.commandEntries : [...this.fileEntries, ...this.commandEntries];
+
+    const matched: { entry: QuickOpenEntry; match: FuzzyMatch }[] = [];
+    for (const entry of entries) {
+      const match = fuzzyMatch(query, entry.label);
+      if (match) {
+        matched.push({ entry, match });
+        continue;
+      }
+
+      // Keywords count for less than the label itself
+      const keywordMatch = entry.keywords ? fuzzyMatch(query, entry.keywords) : null;
+      if (keywordMatch) {
+        matched.push({ entry, match: { score: keywordMatch.score / 2, positions: [] } });
+      }
+    }
+
+    // Without a query the order above stands: recents, notes, shared notes, commands
+    if (query.trim()) {
+      matched.sort((a, b) => b.match.score - a.match.score);
+    }
+
+    this.results = matched.slice(0, MAX_RESULTS).map(({ entry, match }) => ({
+      entry,
+      parts: this.partsOf(entry.label, match.positions)
+    }));
+    this.selectedIndex = 0;
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.select(this.selectedIndex + 1);
+        break;
+
+      case 'ArrowUp':
+        event.preventDefault();
+        this.select(this.selectedIndex - 1);
+        break;
+
+      case 'Enter':
+        if (this.results[this.selectedIndex]) {
+          event.preventDefault();
+          this.choose(this.results[this.selectedIndex].entry);
+        }
+        break;
+
+      case 'Escape':
+        event.preventDefault();
+        this.close();
+        break;
+    }
+  }
+
+  choose(entry: QuickOpenEntry): void {
+    if (entry.file) {
+      this.fileOpened.emit(entry.file);
+      return;
+    }
+
+    // Close first, so commands opening dialogs of their own aren't covered by the palette
+    this.close();
+    entry.command?.run();
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+
+  private select(index: number): void {
+    if (this.results.length === 0) {
+      return;
+    }
+    this.selectedIndex = (index + this.results.length) % this.results.length;
+    setTimeout(() => document.querySelector('.quick-open-result.selected')?.scrollIntoView({ block: 'nearest' }));
+  }
+
+  /**
+   * Splits a label into runs of matched and unmatched characters
+   */
+  private partsOf(label: string, positions: number[]): LabelPart[] {
+    const matched = new Set(positions);
+    const parts: LabelPart[] = [];
+    for (let i = 0; i < label.length; i++) {
+      const match = matched.has(i);
+      const last = parts[parts.length - 1];
+      if (last && last.match === match) {
+        last.text += label[i];
+      } else {
+        parts.push({ text: label[i], match });
+      }
+    }
+    return parts;
+  }
+}
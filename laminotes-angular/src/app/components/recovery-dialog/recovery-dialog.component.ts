@@ -0,0 +1,230 @@
+/**
+ * Recovery dialog component.
+ *
+ * Shown at startup when notes were left with edits that were never saved nor
+ * autosaved as a version, because the app crashed or its tab was closed.
+ * Each note can be reopened with the recovered edits or discarded.
+ */
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AutosaveBuffer } from '../../services/autosave.service';
+
+/**
+ * Offers unsaved edits from the last session
+ */
+@Component({
+  selector: 'app-recovery-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="recovery-modal">
+      <div class="recovery-container">
+        <div class="recovery-header">
+          <h2><i class="fas fa-life-ring"></i> Recover unsaved edits</h2>
+        </div>
+
+        <div class="recovery-content">
+          <p>
+            Laminotes closed before these edits were saved.
+            Restore them to open the notes with the edits, unsaved.
+          </p>
+          <div class="buffer-list">
+            <div class="buffer-item" *ngFor="let buffer of buffers">
+              <div class="buffer-details">
+                <div class="buffer-name">{{ buffer.name }}</div>
+                <div class="buffer-meta">
+                  Edited {{ buffer.savedAt | date:'medium' }} · {{ lineCount(buffer) }} lines
+                </div>
+              </div>
+              <button class="icon-action" title="Discard" (click)="discarded.emit(buffer)">
+                <i class="fas fa-trash-alt"></i>
+              </button>
+              <button class="icon-action" title="Restore" (click)="restored.emit(buffer)">
+                <i class="fas fa-undo"></i>
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div class="recovery-actions">
+          <button class="secondary-button" (click)="closed.emit()">Later</button>
+          <button class="secondary-button" (click)="discardAll()">
+            <i class="fas fa-trash-alt"></i> Discard all
+          </button>
+          <button class="primary-button" (click)="restoreAll()">
+            <i class="fas fa-undo"></i> Restore all
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .recovery-modal {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background-color: rgba(15, 17, 26, 0.7);
+      backdrop-filter: blur(3px);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 1000;
+    }
+
+    .recovery-container {
+      background-color: #1A1C25;
+      border-radius: 8px;
+      width: 90%;
+      max-width: 500px;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+      border: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .recovery-header {
+      padding: 1.25rem 1.5rem;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .recovery-header h2 {
+      margin: 0;
+      font-size: 1.25rem;
+      font-weight: 600;
+      color: #FF5F1F;
+    }
+
+    .recovery-header i {
+      margin-right: 6px;
+    }
+
+    .recovery-content {
+      padding: 1.25rem 1.5rem;
+      color: #F3F3F7;
+      font-size: 14px;
+      line-height: 1.5;
+    }
+
+    .recovery-content p {
+      margin: 0 0 0.75rem;
+    }
+
+    .buffer-list {
+      max-height: 280px;
+      overflow-y: auto;
+      border: 1px solid #22242E;
+      border-radius: 4px;
+    }
+
+    .buffer-item {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 8px 12px;
+      border-bottom: 1px solid #22242E;
+    }
+
+    .buffer-item:last-child {
+      border-bottom: none;
+    }
+
+    .buffer-details {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .buffer-name {
+      font-size: 13px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .buffer-meta {
+      font-size: 12px;
+      color: #A0A3B1;
+    }
+
+    .icon-action {
+      background: none;
+      border: none;
+      color: #A0A3B1;
+      cursor: pointer;
+      padding: 4px 6px;
+      border-radius: 3px;
+    }
+
+    .icon-action:hover {
+      color: #FF5F1F;
+      background-color: rgba(255, 95, 31, 0.1);
+    }
+
+    .recovery-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 10px;
+      padding: 1rem 1.5rem;
+      border-top: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .primary-button, .secondary-button {
+      height: 36px;
+      padding: 0 16px;
+      border-radius: 3px;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 1px;
+      cursor: pointer;
+    }
+
+    .primary-button {
+      background: #FF5F1F;
+      border: none;
+      color: white;
+    }
+
+    .primary-button:hover {
+      background: #FF7A45;
+    }
+
+    .primary-button i, .secondary-button i {
+      margin-right: 6px;
+    }
+
+    .secondary-button {
+      background: #22242E;
+      border: 1px solid rgba(255, 95, 31, 0.2);
+      color: #A0A3B1;
+    }
+
+    .secondary-button:hover {
+      color: #F3F3F7;
+      border-color: #FF5F1F;
+    }
+  `]
+})
+export class RecoveryDialogComponent {
+  /** Buffers left from the last session */
+  @Input() buffers: AutosaveBuffer[] = [];
+
+  /** Emits a buffer to reopen */
+  @Output() restored = new EventEmitter<AutosaveBuffer>();
+
+  /** Emits a buffer to throw away */
+  @Output() discarded = new EventEmitter<AutosaveBuffer>();
+
+  /** Emits when the buffers should be offered again next time */
+  @Output() closed = new EventEmitter<void>();
+
+  lineCount(buffer: AutosaveBuffer): number {
+    return buffer.content.split('\n').length;
+  }
+
+  restoreAll(): void {
+    [...this.buffers].forEach(buffer => this.restored.emit(buffer));
+  }
+
+  discardAll(): void {
+    [...this.buffers].forEach(buffer => this.discarded.emit(buffer));
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Search palette component.
+ *
+ * Command palette for searching the text of every note. Results are ranked,
+ * show the best matching line with the matched words highlighted, and can be
+ * narrowed to a team or a folder. Choosing a result opens the note at that line.
+ */
+import { AfterViewInit, Component, ElementRef, EventEmitter, Input, OnInit, Output, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { SearchService } from '../../services/search.service';
+import { SearchHit } from '../../services/search-index';
+import { Team } from '../../models/team.model';
+
+/** Part of a snippet, highlighted or not */
+interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/** A hit ready to show */
+interface SearchResult {
+  hit: SearchHit;
+  parts: SnippetPart[];
+  teamName: string;
+}
+
+/** Value of the team filter for every note */
+const ALL_TEAMS = '*';
+
+/**
+ * Palette searching the notes and opening the chosen match
+ */
+@Component({
+  selector: 'app-search-palette',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="search-modal" (click)="close()">
+      <div class="search-container" (click)="$event.stopPropagation()" (keydown)="onKeydown($event)">
+        <div class="search-input-row">
+          <i class="fas fa-search"></i>
+          <input #queryInput
+                 type="text"
+                 class="search-input"
+                 placeholder='Search notes, "exact phrase", prefix*'
+                 [(ngModel)]="query"
+                 (ngModelChange)="search()">
+          <span class="indexing" *ngIf="indexing"><i class="fas fa-spinner fa-spin"></i> Indexing</span>
+        </div>
+
+        <div class="search-filters">
+          <select [(ngModel)]="teamFilter" (ngModelChange)="search()" title="Team">
+            <option [value]="allTeams">All notes</option>
+            <option value="">Personal notes</option>
+            <option *ngFor="let team of teams" [value]="team.id">{{ team.name }}</option>
+          </select>
+          <select [(ngModel)]="folderFilter" (ngModelChange)="search()" title="Folder">
+            <option value="">All folders</option>
+            <option *ngFor="let folder of sortedFolders" [value]="folder">{{ folder }}</option>
+          </select>
+        </div>
+
+        <div class="search-results">
+          <div class="search-result"
+               *ngFor="let result of results; let i = index"
+               [class.selected]="i === selectedIndex"
+               (mouseenter)="selectedIndex = i"
+               (click)="open(result.hit)">
+            <div class="result-header">
+              <span class="result-name">{{ result.hit.name }}</span>
+              <span class="result-line">line {{ result.hit.line + 1 }}</span>
+              <span class="result-team" *ngIf="result.teamName">{{ result.teamName }}</span>
+            </div>
+            <div class="result-snippet"><ng-container *ngFor="let part of result.parts"><mark *ngIf="part.match">{{ part.text }}</mark><ng-container *ngIf="!part.match">{{ part.text }}</ng-container></ng-container></div>
+          </div>
+
+          <p class="search-empty" *ngIf="query.trim() && results.length === 0 && !indexing">No notes match</p>
+          <p class="search-empty" *ngIf="!query.trim()">Type to search {{ indexedCount }} notes</p>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .search-modal {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background-color: rgba(15, 17, 26, 0.7);
+      backdrop-filter: blur(3px);
+      display: flex;
+      justify-content: center;
+      align-items: flex-start;
+      padding-top: 12vh;
+      z-index: 1000;
+    }
+
+    .search-container {
+      background-color: #1A1C25;
+      border-radius: 8px;
+      width: 90%;
+      max-width: 640px;
+      max-height: 70vh;
+      display: flex;
+      flex-direction: column;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+      border: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .search-input-row {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      padding: 0.9rem 1.25rem;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.15);
+      color: #A0A3B1;
+    }
+
+    .search-input {
+      flex: 1;
+      background: none;
+      border: none;
+      outline: none;
+      color: #F3F3F7;
+      font-size: 16px;
+    }
+
+    .indexing {
+      font-size: 12px;
+      white-space: nowrap;
+    }
+
+    .search-filters {
+      display: flex;
+      gap: 8px;
+      padding: 0.6rem 1.25rem;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .search-filters select {
+      background-color: #161820;
+      border: 1px solid rgba(255, 95, 31, 0.15);
+      border-radius: 4px;
+      color: #F3F3F7;
+      padding: 4px 8px;
+      font-size: 12px;
+    }
+
+    .search-results {
+      overflow-y: auto;
+      padding: 0.4rem 0;
+    }
+
+    .search-result {
+      padding: 0.5rem 1.25rem;
+      cursor: pointer;
+      border-left: 2px solid transparent;
+    }
+
+    .search-result.selected {
+      background-color: #22242E;
+      border-left-color: #FF5F1F;
+    }
+
+    .result-header {
+      display: flex;
+      align-items: baseline;
+      gap: 8px;
+    }
+
+    .result-name {
+      color: #F3F3F7;
+      font-size: 14px;
+      font-weight: 600;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .result-line {
+      color: #A0A3B1;
+      font-size: 11px;
+      white-space: nowrap;
+    }
+
+    .result-team {
+      margin-left: auto;
+      padding: 1px 6px;
+      border-radius: 8px;
+      background: rgba(56, 182, 255, 0.15);
+      color: #38B6FF;
+      font-size: 11px;
+      white-space: nowrap;
+    }
+
+    .result-snippet {
+      margin-top: 2px;
+      color: #A0A3B1;
+      font-size: 13px;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+
+    .result-snippet mark {
+      background: rgba(255, 95, 31, 0.25);
+      color: #FF5F1F;
+      border-radius: 2px;
+    }
+
+    .search-empty {
+      color: #A0A3B1;
+      font-size: 13px;
+      padding: 0.5rem 1.25rem;
+      margin: 0;
+    }
+  `]
+})
+export class SearchPaletteComponent implements OnInit, AfterViewInit {
+  /** Teams of the user, for the team filter and for their directories to be indexed */
+  @Input() teams: Team[] = [];
+
+  /** Folders of the notes shown now, for the folder filter */
+  @Input() folders: string[] = [];
+
+  /** Emits the match chosen */
+  @Output() hitOpened = new EventEmitter<SearchHit>();
+
+  /** Emits when the palette is dismissed */
+  @Output() closed = new EventEmitter<void>();
+
+  @ViewChild('queryInput') queryInput!: ElementRef<HTMLInputElement>;
+
+  readonly allTeams = ALL_TEAMS;
+
+  query = '';
+  teamFilter = ALL_TEAMS;
+  folderFilter = '';
+  results: SearchResult[] = [];
+  selectedIndex = 0;
+
+  /** Whether notes not indexed yet are being read */
+  indexing = false;
+
+  indexedCount = 0;
+
+  sortedFolders: string[] = [];
+
+  constructor(private searchService: SearchService) {}
+
+  ngOnInit(): void {
+    this.sortedFolders = [...this.folders].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base', numeric: true }));
+    this.indexedCount = this.searchService.size;
+    this.indexing = true;
+    this.searchService.refresh(this.teams).subscribe({
+      next: count => {
+        this.indexing = false;
+        this.indexedCount = count;
+        this.search();
+      },
+      error: () => this.indexing = false
+    });
+  }
+
+  ngAfterViewInit(): void {
+    setTimeout(() => this.queryInput.nativeElement.focus());
+  }
+
+  search(): void {
+    const hits = this.searchService.search(this.query, {
+      teamId: this.teamFilter === ALL_TEAMS ? undefined : this.teamFilter || null,
+      folder: this.folderFilter || undefined
+    });
+
+    this.results = hits.map(hit => ({
+      hit,
+      parts: this.partsOf(hit),
+      teamName: hit.teamId ? this.teams.find(team => team.id === hit.teamId)?.name || 'Team' : ''
+    }));
+    this.selectedIndex = 0;
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.select(this.selectedIndex + 1);
+        break;
+
+      case 'ArrowUp':
+        event.preventDefault();
+        this.select(this.selectedIndex - 1);
+        break;
+
+      case 'Enter':
+        if (this.results[this.selectedIndex]) {
+          event.preventDefault();
+          this.open(this.results[this.selectedIndex].hit);
+        }
+        break;
+
+      case 'Escape':
+        event.preventDefault();
+        this.close();
+        break;
+    }
+  }
+
+  open(hit: SearchHit): void {
+    this.hitOpened.emit(hit);
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+
+  private select(index: number): void {
+    if (this.results.length === 0) {
+      return;
+    }
+    this.selectedIndex = (index + this.results.length) % this.results.length;
+    setTimeout(() => document.querySelector('.search-result.selected')?.scrollIntoView({ block: 'nearest' }));
+  }
+
+  /**
+   * Splits a snippet at its highlights
+   */
+  private partsOf(hit: SearchHit): SnippetPart[] {
+    const parts: SnippetPart[] = [];
+    let position = 0;
+    for (const [start, end] of hit.highlights) {
+      if (start < position) {
+        continue;
+      }
+      if (start > position) {
+        parts.push({ text: hit.snippet.substring(position, start), match: false });
+      }
+      parts.push({ text: hit.snippet.substring(start, end), match: true });
+      position = end;
+    }
+    if (position < hit.snippet.length) {
+      parts.push({ text: hit.snippet.substring(position), match: false });
+    }
+    return parts;
+  }
+}
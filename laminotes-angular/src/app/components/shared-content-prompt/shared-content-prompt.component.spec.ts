@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { SharedContentPromptComponent } from './shared-content-prompt.component';
+
+describe('SharedContentPromptComponent', () => {
+  let component: SharedContentPromptComponent;
+  let fixture: ComponentFixture<SharedContentPromptComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [SharedContentPromptComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(SharedContentPromptComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Shared content prompt component.
+ *
+ * Shown when text, links or images were shared to Laminotes from another
+ * app. The user can turn them into a new note, append them to the open note
+ * or discard them.
+ */
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SharedContent, describeSharedContent } from '../../services/shared-content';
+
+/**
+ * Asks where content shared from another app goes
+ */
+@Component({
+  selector: 'app-shared-content-prompt',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="shared-content-modal">
+      <div class="shared-content-container">
+        <div class="shared-content-header">
+          <h2><i class="fas fa-share-square"></i> Shared to Laminotes</h2>
+          <span class="pending" *ngIf="pendingCount > 0">+{{ pendingCount }} more</span>
+        </div>
+
+        <div class="shared-content-content" *ngIf="share">
+          <p>You shared {{ summary }}.</p>
+
+          <div class="items">
+            <div class="comment" *ngIf="share.comment.trim()">{{ share.comment }}</div>
+            <ng-container *ngFor="let item of share.items">
+              <div class="item text" *ngIf="item.type === 'text'">{{ excerpt(item.text) }}</div>
+              <div class="item link" *ngIf="item.type === 'url'">
+                <i class="fas fa-link"></i> {{ item.title || item.url }}
+              </div>
+              <img class="item image" *ngIf="item.type === 'image'"
+                   [src]="'data:' + (item.mimeType || 'image/jpeg') + ';base64,' + item.data"
+                   [alt]="item.name || 'Shared image'">
+            </ng-container>
+          </div>
+        </div>
+
+        <div class="shared-content-actions">
+          <button class="secondary-button" (click)="discard.emit()">Discard</button>
+          <button class="secondary-button"
+                  [disabled]="!currentFileName"
+                  [title]="currentFileName ? 'Append to ' + currentFileName : 'Open a note to append to it'"
+                  (click)="append.emit()">
+            <i class="fas fa-plus"></i> Append
+          </button>
+          <button class="primary-button" (click)="newNote.emit()">
+            <i class="fas fa-file-alt"></i> New note
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .shared-content-modal {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background-color: rgba(15, 17, 26, 0.7);
+      backdrop-filter: blur(3px);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 1000;
+    }
+
+    .shared-content-container {
+      background-color: #1A1C25;
+      border-radius: 8px;
+      width: 90%;
+      max-width: 480px;
+      max-height: 85vh;
+      display: flex;
+      flex-direction: column;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+      border: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .shared-content-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 1.25rem 1.5rem;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .shared-content-header h2 {
+      margin: 0;
+      font-size: 1.25rem;
+      font-weight: 600;
+      color: #FF5F1F;
+    }
+
+    .shared-content-header i {
+      margin-right: 6px;
+    }
+
+    .pending {
+      color: #A0A3B1;
+      font-size: 12px;
+    }
+
+    .shared-content-content {
+      padding: 1.25rem 1.5rem;
+      color: #F3F3F7;
+      font-size: 14px;
+      line-height: 1.5;
+      overflow-y: auto;
+    }
+
+    .shared-content-content p {
+      margin: 0 0 0.75rem;
+    }
+
+    .items {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+
+    .comment, .item.text, .item.link {
+      padding: 8px 10px;
+      background-color: #161820;
+      border-radius: 4px;
+      color: #A0A3B1;
+      font-size: 13px;
+      white-space: pre-wrap;
+      overflow-wrap: anywhere;
+    }
+
+    .comment {
+      color: #F3F3F7;
+    }
+
+    .item.link {
+      color: #38B6FF;
+    }
+
+    .item.image {
+      max-width: 100%;
+      max-height: 160px;
+      object-fit: contain;
+      align-self: flex-start;
+      border-radius: 4px;
+    }
+
+    .shared-content-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 10px;
+      padding: 1rem 1.5rem;
+      border-top: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .primary-button, .secondary-button {
+      height: 36px;
+      padding: 0 16px;
+      border-radius: 3px;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 1px;
+      cursor: pointer;
+    }
+
+    .primary-button {
+      background: #FF5F1F;
+      border: none;
+      color: white;
+    }
+
+    .primary-button:hover {
+      background: #FF7A45;
+    }
+
+    .primary-button i, .secondary-button i {
+      margin-right: 6px;
+    }
+
+    .secondary-button {
+      background: #22242E;
+      border: 1px solid rgba(255, 95, 31, 0.2);
+      color: #A0A3B1;
+    }
+
+    .secondary-button:hover:not(:disabled) {
+      color: #F3F3F7;
+      border-color: #FF5F1F;
+    }
+
+    .secondary-button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+  `]
+})
+export class SharedContentPromptComponent {
+  /** The shared content */
+  @Input() share: SharedContent | null = null;
+
+  /** Name of the open note; appending is offered only when one is open */
+  @Input() currentFileName = '';
+
+  /** Shares waiting behind this one */
+  @Input() pendingCount = 0;
+
+  /** Emits when the content should become a new note */
+  @Output() newNote = new EventEmitter<void>();
+
+  /** Emits when the content should be appended to the open note */
+  @Output() append = new EventEmitter<void>();
+
+  /** Emits when the content should be dropped */
+  @Output() discard = new EventEmitter<void>();
+
+  /** Longest text excerpt shown */
+  private readonly EXCERPT_LENGTH = 280;
+
+  get summary(): string {
+    return this.share ? describeSharedContent(this.share) : '';
+  }
+
+  excerpt(text: string | undefined): string {
+    const trimmed = (text || '').trim();
+    return trimmed.length > this.EXCERPT_LENGTH ? `${trimmed.substring(0, this.EXCERPT_LENGTH)}…` : trimmed;
+  }
+}
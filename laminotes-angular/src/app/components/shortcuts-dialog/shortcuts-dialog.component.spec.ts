@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ShortcutsDialogComponent } from './shortcuts-dialog.component';
+
+describe('ShortcutsDialogComponent', () => {
+  let component: ShortcutsDialogComponent;
+  let fixture: ComponentFixture<ShortcutsDialogComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ShortcutsDialogComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ShortcutsDialogComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
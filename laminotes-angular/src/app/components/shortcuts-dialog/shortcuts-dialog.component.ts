@@ -0,0 +1,380 @@
+/**
+ * Shortcuts dialog component.
+ *
+ * Lists the desktop menu commands with their keyboard shortcuts and lets the
+ * user record new ones. Changes are applied to the application menu by the
+ * Electron main process.
+ */
+import { Component, EventEmitter, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ElectronService } from '../../services/electron.service';
+import { NotificationService } from '../../services/notification.service';
+
+/** Keys named differently by KeyboardEvent.code and Electron accelerators */
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: '\'',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backquote: '`',
+  Space: 'Space',
+  Tab: 'Tab',
+  Enter: 'Enter',
+  Backspace: 'Backspace',
+  Delete: 'Delete',
+  Insert: 'Insert',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown'
+};
+
+/**
+ * Dialog for changing the keyboard shortcuts of the desktop menus
+ */
+@Component({
+  selector: 'app-shortcuts-dialog',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="shortcuts-modal" (click)="cancel()">
+      <div class="shortcuts-container" (click)="$event.stopPropagation()">
+        <div class="shortcuts-header">
+          <h2>Keyboard Shortcuts</h2>
+          <button class="close-button" (click)="cancel()">×</button>
+        </div>
+
+        <div class="shortcuts-content">
+          <p class="hint">Click a shortcut and press the new key combination. Backspace removes it.</p>
+
+          <div class="shortcut-row" *ngFor="let shortcut of shortcuts">
+            <span class="shortcut-label">
+              {{ shortcut.label }}
+              <span class="global-badge" *ngIf="shortcut.global" title="Works while Laminotes is in the background">global</span>
+            </span>
+            <input
+              type="text"
+              readonly
+              class="shortcut-input"
+              [class.recording]="recordingId === shortcut.id"
+              [value]="recordingId === shortcut.id ? 'Press keys...' : display(accelerators[shortcut.id])"
+              (focus)="recordingId = shortcut.id"
+              (blur)="recordingId = null"
+              (keydown)="record($event, shortcut.id)">
+            <button class="reset-button" title="Use the default"
+                    [disabled]="accelerators[shortcut.id] === shortcut.defaultAccelerator"
+                    (click)="accelerators[shortcut.id] = shortcut.defaultAccelerator">
+              <i class="fas fa-undo"></i>
+            </button>
+          </div>
+        </div>
+
+        <div class="shortcuts-actions">
+          <button class="secondary-button" (click)="cancel()">Cancel</button>
+          <button class="primary-button" [disabled]="busy" (click)="save()">Save</button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .shortcuts-modal {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background-color: rgba(15, 17, 26, 0.7);
+      backdrop-filter: blur(3px);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 1000;
+    }
+
+    .shortcuts-container {
+      background-color: #1A1C25;
+      border-radius: 8px;
+      width: 90%;
+      max-width: 480px;
+      max-height: 85vh;
+      display: flex;
+      flex-direction: column;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+      border: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .shortcuts-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 1.25rem 1.5rem;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .shortcuts-header h2 {
+      margin: 0;
+      font-size: 1.25rem;
+      font-weight: 600;
+      color: #FF5F1F;
+    }
+
+    .close-button {
+      background: none;
+      border: none;
+      font-size: 1.5rem;
+      cursor: pointer;
+      line-height: 1;
+      opacity: 0.7;
+      color: #A0A3B1;
+    }
+
+    .close-button:hover {
+      opacity: 1;
+      color: #F3F3F7;
+    }
+
+    .shortcuts-content {
+      padding: 1.25rem 1.5rem;
+      overflow-y: auto;
+    }
+
+    .hint {
+      color: #A0A3B1;
+      font-size: 13px;
+      margin: 0 0 1rem;
+    }
+
+    .shortcut-row {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 0.6rem;
+    }
+
+    .shortcut-label {
+      flex: 1;
+      color: #F3F3F7;
+      font-size: 14px;
+    }
+
+    .global-badge {
+      margin-left: 6px;
+      padding: 1px 6px;
+      border-radius: 8px;
+      background: rgba(56, 182, 255, 0.15);
+      color: #38B6FF;
+      font-size: 11px;
+    }
+
+    .shortcut-input {
+      width: 170px;
+      background-color: #161820;
+      border: 1px solid rgba(255, 95, 31, 0.15);
+      border-radius: 4px;
+      color: #F3F3F7;
+      padding: 6px 8px;
+      font-size: 13px;
+      text-align: center;
+      cursor: pointer;
+    }
+
+    .shortcut-input.recording {
+      outline: none;
+      border-color: #FF5F1F;
+      color: #FF5F1F;
+    }
+
+    .reset-button {
+      background: none;
+      border: none;
+      color: #A0A3B1;
+      cursor: pointer;
+    }
+
+    .reset-button:disabled {
+      opacity: 0.3;
+      cursor: default;
+    }
+
+    .shortcuts-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 10px;
+      padding: 1rem 1.5rem;
+      border-top: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .primary-button, .secondary-button {
+      height: 36px;
+      padding: 0 16px;
+      border-radius: 3px;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 1px;
+      cursor: pointer;
+    }
+
+    .primary-button {
+      background: #FF5F1F;
+      border: none;
+      color: white;
+    }
+
+    .primary-button:hover:not(:disabled) {
+      background: #FF7A45;
+    }
+
+    .primary-button:disabled {
+      opacity: 0.6;
+      cursor: default;
+    }
+
+    .secondary-button {
+      background: #22242E;
+      border: 1px solid rgba(255, 95, 31, 0.2);
+      color: #A0A3B1;
+    }
+
+    .secondary-button:hover {
+      color: #F3F3F7;
+      border-color: #FF5F1F;
+    }
+  `]
+})
+export class ShortcutsDialogComponent implements OnInit {
+  /** Emits when the dialog is done */
+  @Output() closed = new EventEmitter<void>();
+
+  shortcuts: ElectronShortcut[] = [];
+
+  /** Accelerators being edited, by command id */
+  accelerators: Record<string, string> = {};
+
+  /** Command whose shortcut is being recorded */
+  recordingId: string | null = null;
+
+  busy = false;
+
+  private readonly isMac = /Mac/i.test(navigator.platform);
+
+  constructor(
+    private electronService: ElectronService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnInit(): void {
+    this.electronService.getShortcuts().subscribe(shortcuts => this.setShortcuts(shortcuts));
+  }
+
+  /**
+   * Takes the pressed key combination as the command's shortcut
+   */
+  record(event: KeyboardEvent, id: string): void {
+    if (event.key === 'Tab' && !event.ctrlKey && !event.metaKey && !event.altKey) {
+      return; // Keep keyboard navigation working
+    }
+    event.preventDefault();
+
+    const hasModifier = event.ctrlKey || event.metaKey || event.altKey;
+    if (!hasModifier && (event.code === 'Backspace' || event.code === 'Delete')) {
+      this.accelerators[id] = '';
+      (event.target as HTMLElement).blur();
+      return;
+    }
+    if (!hasModifier && event.code === 'Escape') {
+      (event.target as HTMLElement).blur();
+      return;
+    }
+
+    const accelerator = this.acceleratorFor(event);
+    if (accelerator) {
+      this.accelerators[id] = accelerator;
+      (event.target as HTMLElement).blur();
+    }
+  }
+
+  /**
+   * Shows an accelerator with this platform's key names
+   */
+  display(accelerator: string): string {
+    if (!accelerator) {
+      return 'None';
+    }
+    return accelerator
+      .replace('CommandOrControl', this.isMac ? 'Cmd' : 'Ctrl')
+      .replace(/\+/g, ' + ');
+  }
+
+  save(): void {
+    this.busy = true;
+    this.electronService.setShortcuts(this.accelerators).subscribe({
+      next: shortcuts => {
+        this.busy = false;
+        this.setShortcuts(shortcuts);
+        this.notificationService.success('Keyboard shortcuts updated');
+        this.closed.emit();
+      },
+      error: error => {
+        this.busy = false;
+        this.notificationService.error(`Could not save shortcuts: ${error?.message || error}`);
+      }
+    });
+  }
+
+  cancel(): void {
+    this.closed.emit();
+  }
+
+  private setShortcuts(shortcuts: ElectronShortcut[]): void {
+    this.shortcuts = shortcuts;
+    this.accelerators = Object.fromEntries(shortcuts.map(shortcut => [shortcut.id, shortcut.accelerator]));
+  }
+
+  /**
+   * Electron accelerator for a key combination
+   * @returns null while only modifiers are held, or for keys that need a modifier
+   */
+  private acceleratorFor(event: KeyboardEvent): string | null {
+    let key: string | null = null;
+    if (/^Key[A-Z]$/.test(event.code)) {
+      key = event.code.substring(3);
+    } else if (/^Digit[0-9]$/.test(event.code)) {
+      key = event.code.substring(5);
+    } else if (/^F([1-9]|1[0-9]|2[0-4])$/.test(event.code)) {
+      key = event.code;
+    } else {
+      key = KEY_NAMES[event.code] || null;
+    }
+
+    const isFunctionKey = /^F\d+$/.test(key || '');
+    if (!key || (!isFunctionKey && !event.ctrlKey && !event.metaKey && !event.altKey)) {
+      return null;
+    }
+
+    const modifiers: string[] = [];
+    if (this.isMac ? event.metaKey : event.ctrlKey) {
+      modifiers.push('CommandOrControl');
+    }
+    if (this.isMac ? event.ctrlKey : event.metaKey) {
+      modifiers.push(this.isMac ? 'Control' : 'Super');
+    }
+    if (event.altKey) {
+      modifiers.push('Alt');
+    }
+    if (event.shiftKey) {
+      modifiers.push('Shift');
+    }
+
+    return [...modifiers, key].join('+');
+  }
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { SyncIssuesComponent } from './sync-issues.component';
+
+describe('SyncIssuesComponent', () => {
+  let component: SyncIssuesComponent;
+  let fixture: ComponentFixture<SyncIssuesComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [SyncIssuesComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(SyncIssuesComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Sync issues component.
+ *
+ * Lists the offline changes held back from syncing because they kept failing
+ * or ran into a conflict on the server. Each can be retried, or discarded,
+ * which leaves the local copy of the note as it is.
+ */
+import { Component, EventEmitter, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { OfflineQueueService, PendingOperation, PendingOperationType } from '../../services/offline-queue.service';
+
+/**
+ * Shows the held offline changes with their reason
+ */
+@Component({
+  selector: 'app-sync-issues',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="sync-issues-modal">
+      <div class="sync-issues-container">
+        <div class="sync-issues-header">
+          <h2><i class="fas fa-exclamation-triangle"></i> Changes not synced</h2>
+          <button class="close-button" (click)="closed.emit()" title="Close">
+            <i class="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div class="sync-issues-content">
+          <p *ngIf="(offlineQueue.held$ | async)?.length === 0" class="empty">Every change is synced or on its way.</p>
+
+          <div class="operation" *ngFor="let operation of offlineQueue.held$ | async">
+            <div class="operation-details">
+              <div class="operation-title">{{ describe(operation.type) }} <strong>{{ operation.fileName }}</strong></div>
+              <div class="operation-reason">
+                {{ operation.held === 'conflict' ? 'Conflicts with changes made on the server' : operation.lastError }}
+                · {{ operation.createdAt | date:'short' }}
+              </div>
+            </div>
+            <div class="operation-actions">
+              <button class="secondary-button" (click)="discard(operation)" title="Drop this change; your local copy stays as it is">
+                Discard
+              </button>
+              <button class="primary-button" (click)="retry(operation)">
+                <i class="fas fa-redo"></i> Retry
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .sync-issues-modal {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background-color: rgba(15, 17, 26, 0.7);
+      backdrop-filter: blur(3px);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 1000;
+    }
+
+    .sync-issues-container {
+      background-color: #1A1C25;
+      border-radius: 8px;
+      width: 90%;
+      max-width: 560px;
+      max-height: 80vh;
+      display: flex;
+      flex-direction: column;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+      border: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .sync-issues-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 1.25rem 1.5rem;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .sync-issues-header h2 {
+      margin: 0;
+      font-size: 1.25rem;
+      font-weight: 600;
+      color: #FF5F1F;
+    }
+
+    .sync-issues-header h2 i {
+      margin-right: 6px;
+    }
+
+    .close-button {
+      background: none;
+      border: none;
+      color: #A0A3B1;
+      font-size: 16px;
+      cursor: pointer;
+    }
+
+    .close-button:hover {
+      color: #F3F3F7;
+    }
+
+    .sync-issues-content {
+      padding: 0.5rem 1.5rem 1rem;
+      overflow-y: auto;
+      color: #F3F3F7;
+      font-size: 14px;
+    }
+
+    .empty {
+      color: #A0A3B1;
+    }
+
+    .operation {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 12px;
+      padding: 0.75rem 0;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.1);
+    }
+
+    .operation-details {
+      min-width: 0;
+      overflow-wrap: anywhere;
+    }
+
+    .operation-reason {
+      margin-top: 4px;
+      color: #A0A3B1;
+      font-size: 12px;
+    }
+
+    .operation-actions {
+      display: flex;
+      gap: 8px;
+      flex-shrink: 0;
+    }
+
+    .primary-button, .secondary-button {
+      height: 32px;
+      padding: 0 14px;
+      border-radius: 3px;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 1px;
+      cursor: pointer;
+    }
+
+    .primary-button {
+      background: #FF5F1F;
+      border: none;
+      color: white;
+    }
+
+    .primary-button:hover {
+      background: #FF7A45;
+    }
+
+    .primary-button i {
+      margin-right: 6px;
+    }
+
+    .secondary-button {
+      background: #22242E;
+      border: 1px solid rgba(255, 95, 31, 0.2);
+      color: #A0A3B1;
+    }
+
+    .secondary-button:hover {
+      color: #F3F3F7;
+      border-color: #FF5F1F;
+    }
+  `]
+})
+export class SyncIssuesComponent {
+  /** Emits when the list should be closed */
+  @Output() closed = new EventEmitter<void>();
+
+  constructor(public offlineQueue: OfflineQueueService) {}
+
+  /**
+   * Sends a held change again
+   */
+  retry(operation: PendingOperation): void {
+    this.offlineQueue.retry(operation.id).subscribe();
+  }
+
+  /**
+   * Drops a held change from the journal
+   */
+  discard(operation: PendingOperation): void {
+    this.offlineQueue.discard(operation.id);
+  }
+
+  /**
+   * Names the kind of change
+   */
+  describe(type: PendingOperationType): string {
+    switch (type) {
+      case 'saveFile': return 'Save of';
+      case 'renameFile': return 'Rename of';
+      case 'deleteFile': return 'Deletion of';
+      case 'saveVersion': return 'Version of';
+    }
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Unsaved changes prompt component.
+ *
+ * Shown when tabs with unsaved edits are about to be closed, by closing a tab
+ * or quitting the app. The user can save the edits, discard them or keep the
+ * tabs open.
+ */
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+/**
+ * Asks whether to save notes with unsaved edits before closing them
+ */
+@Component({
+  selector: 'app-unsaved-changes-prompt',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="unsaved-changes-modal">
+      <div class="unsaved-changes-container">
+        <div class="unsaved-changes-header">
+          <h2><i class="fas fa-exclamation-triangle"></i> Unsaved changes</h2>
+        </div>
+
+        <div class="unsaved-changes-content">
+          <p *ngIf="fileNames.length === 1">
+            Do you want to save the changes you made to <strong>{{ fileNames[0] }}</strong>?
+          </p>
+          <ng-container *ngIf="fileNames.length > 1">
+            <p>Do you want to save the changes you made to these {{ fileNames.length }} notes?</p>
+            <ul class="file-names">
+              <li *ngFor="let fileName of fileNames">{{ fileName }}</li>
+            </ul>
+          </ng-container>
+          <p class="hint">Your changes are lost if you don't save them.</p>
+        </div>
+
+        <div class="unsaved-changes-actions">
+          <button class="secondary-button" (click)="cancel.emit()">Cancel</button>
+          <button class="secondary-button" (click)="discard.emit()">
+            <i class="fas fa-trash-alt"></i> Don't save
+          </button>
+          <button class="primary-button" (click)="save.emit()">
+            <i class="fas fa-save"></i> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .unsaved-changes-modal {
+      position: fixed;
+      top: 0;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background-color: rgba(15, 17, 26, 0.7);
+      backdrop-filter: blur(3px);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 1000;
+    }
+
+    .unsaved-changes-container {
+      background-color: #1A1C25;
+      border-radius: 8px;
+      width: 90%;
+      max-width: 440px;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+      border: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .unsaved-changes-header {
+      padding: 1.25rem 1.5rem;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .unsaved-changes-header h2 {
+      margin: 0;
+      font-size: 1.25rem;
+      font-weight: 600;
+      color: #FF5F1F;
+    }
+
+    .unsaved-changes-header i {
+      margin-right: 6px;
+    }
+
+    .unsaved-changes-content {
+      padding: 1.25rem 1.5rem;
+      color: #F3F3F7;
+      font-size: 14px;
+      line-height: 1.5;
+    }
+
+    .unsaved-changes-content p {
+      margin: 0 0 0.75rem;
+      overflow-wrap: anywhere;
+    }
+
+    .hint {
+      color: #A0A3B1;
+      font-size: 13px;
+    }
+
+    .file-names {
+      margin: 0 0 0.75rem;
+      padding-left: 1.1rem;
+      color: #A0A3B1;
+      font-size: 13px;
+    }
+
+    .unsaved-changes-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 10px;
+      padding: 1rem 1.5rem;
+      border-top: 1px solid rgba(255, 95, 31, 0.15);
+    }
+
+    .primary-button, .secondary-button {
+      height: 36px;
+      padding: 0 16px;
+      border-radius: 3px;
+      font-size: 12px;
+      font-weight: 600;
+      letter-spacing: 1px;
+      cursor: pointer;
+    }
+
+    .primary-button {
+      background: #FF5F1F;
+      border: none;
+      color: white;
+    }
+
+    .primary-button:hover {
+      background: #FF7A45;
+    }
+
+    .primary-button i, .secondary-button i {
+      margin-right: 6px;
+    }
+
+    .secondary-button {
+      background: #22242E;
+      border: 1px solid rgba(255, 95, 31, 0.2);
+      color: #A0A3B1;
+    }
+
+    .secondary-button:hover {
+      color: #F3F3F7;
+      border-color: #FF5F1F;
+    }
+  `]
+})
+export class UnsavedChangesPromptComponent {
+  /** Names of the notes with unsaved edits */
+  @Input() fileNames: string[] = [];
+
+  /** Emits when the edits should be saved before closing */
+  @Output() save = new EventEmitter<void>();
+
+  /** Emits when the edits should be thrown away */
+  @Output() discard = new EventEmitter<void>();
+
+  /** Emits when nothing should be closed */
+  @Output() cancel = new EventEmitter<void>();
+}
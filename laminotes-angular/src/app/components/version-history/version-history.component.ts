@@ -0,0 +1,637 @@
+/**
+ * Version history component.
+ *
+ * Side panel listing the saved versions of the open file, with a diff view
+ * between any two versions and one-click restore of an older version.
+ */
+import { Component, EventEmitter, Input, OnChanges, Output, SimpleChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { switchMap } from 'rxjs/operators';
+import {
+  VersionComparison,
+  VersionControlService,
+  VersionMetadata
+} from '../../services/version-control.service';
+import { DiffLine } from '../../services/merge.service';
+import { NotificationService } from '../../services/notification.service';
+
+/**
+ * A row of the side-by-side diff; either side may be empty
+ */
+export interface SplitDiffRow {
+  /** Line from the older version */
+  left?: DiffLine;
+
+  /** Line from the newer version */
+  right?: DiffLine;
+}
+
+/**
+ * Component for browsing, comparing and restoring file versions
+ */
+@Component({
+  selector: 'app-version-history',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="version-history">
+      <div class="history-header">
+        <div class="history-title">
+          <h3>HISTORY</h3>
+          <span class="file-label">{{ fileName }}</span>
+        </div>
+        <div class="header-actions">
+          <button class="icon-action" title="Refresh" (click)="loadHistory(true)" [disabled]="isLoading">
+            <i class="fas fa-sync-alt" [class.fa-spin]="isLoading"></i>
+          </button>
+          <button class="icon-action" title="Close" (click)="close()">
+            <i class="fas fa-times"></i>
+          </button>
+        </div>
+      </div>
+
+      <div class="history-hint" *ngIf="versions.length > 1 && !comparison">
+        Select two versions to compare them.
+      </div>
+
+      <div class="version-list" *ngIf="!comparison">
+        <div *ngFor="let version of versions; let i = index"
+             class="version-item"
+             [class.selected]="isSelected(version)"
+             (click)="toggleSelection(version)">
+          <div class="version-marker">
+            <i class="fas" [ngClass]="isSelected(version) ? 'fa-check-circle' : 'fa-circle'"></i>
+          </div>
+          <div class="version-details">
+            <div class="version-message">{{ version.message || 'No message' }}</div>
+            <div class="version-meta">
+              <span class="version-author">{{ version.username || version.userId }}</span>
+              <span class="version-time" [title]="version.timestamp">{{ version.timestamp | date:'medium' }}</span>
+            </div>
+            <div class="version-id">
+              {{ version.versionId | slice:0:8 }}
+              <span class="latest-badge" *ngIf="i === 0">LATEST</span>
+            </div>
+          </div>
+          <button class="restore-button"
+                  *ngIf="i > 0"
+                  title="Restore this version"
+                  [disabled]="isRestoring"
+                  (click)="$event.stopPropagation(); restoreVersion(version)">
+            <i class="fas fa-undo"></i>
+          </button>
+        </div>
+
+        <div *ngIf="!isLoading && versions.length === 0" class="empty-state">
+          <i class="fas fa-history"></i>
+          <p>No saved versions for this file yet</p>
+        </div>
+      </div>
+
+      <div class="history-footer" *ngIf="!comparison && selectedVersions.length === 2">
+        <button class="action-button" (click)="compareSelected()" [disabled]="isLoading">
+          <i class="fas fa-code-branch"></i>
+          <span>COMPARE</span>
+        </button>
+      </div>
+
+      <div class="diff-panel" *ngIf="comparison">
+        <div class="diff-toolbar">
+          <button class="icon-action" title="Back to history" (click)="clearComparison()">
+            <i class="fas fa-arrow-left"></i>
+          </button>
+          <span class="diff-summary">
+            <span class="added">+{{ comparison.changes.added.length + comparison.changes.changed.length }}</span>
+            <span class="removed">-{{ comparison.changes.removed.length + comparison.changes.changed.length }}</span>
+          </span>
+          <div class="diff-modes">
+            <button class="micro-button" [class.active]="diffMode === 'inline'" (click)="diffMode = 'inline'" title="Inline">
+              <i class="fas fa-align-left"></i>
+            </button>
+            <button class="micro-button" [class.active]="diffMode === 'split'" (click)="diffMode = 'split'" title="Side by side">
+              <i class="fas fa-columns"></i>
+            </button>
+          </div>
+        </div>
+
+        <div class="diff-versions">
+          {{ comparison.oldVersion ? (comparison.oldVersion | slice:0:8) : 'empty' }} → {{ comparison.newVersion | slice:0:8 }}
+        </div>
+
+        <div class="diff-body" *ngIf="diffMode === 'inline'">
+          <div *ngFor="let line of comparison.diff" class="diff-line" [ngClass]="line.type">
+            <span class="line-number">{{ line.oldLineNumber !== undefined ? line.oldLineNumber + 1 : '' }}</span>
+            <span class="line-number">{{ line.newLineNumber !== undefined ? line.newLineNumber + 1 : '' }}</span>
+            <span class="line-sign">{{ line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ' }}</span>
+            <span class="line-content">{{ line.content }}</span>
+          </div>
+        </div>
+
+        <div class="diff-body split" *ngIf="diffMode === 'split'">
+          <div *ngFor="let row of splitRows" class="split-row">
+            <div class="diff-line" [ngClass]="row.left?.type || 'empty'">
+              <span class="line-number">{{ row.left ? row.left.oldLineNumber! + 1 : '' }}</span>
+              <span class="line-content">{{ row.left?.content }}</span>
+            </div>
+            <div class="diff-line" [ngClass]="row.right?.type || 'empty'">
+              <span class="line-number">{{ row.right ? row.right.newLineNumber! + 1 : '' }}</span>
+              <span class="line-content">{{ row.right?.content }}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .version-history {
+      display: flex;
+      flex-direction: column;
+      height: 100%;
+      background-color: #1A1C25;
+      color: #F3F3F7;
+    }
+
+    .history-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 10px 15px;
+      border-bottom: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .history-title h3 {
+      margin: 0;
+      font-size: 14px;
+      letter-spacing: 1px;
+    }
+
+    .file-label {
+      font-size: 12px;
+      color: #A0A3B1;
+    }
+
+    .header-actions {
+      display: flex;
+      gap: 6px;
+    }
+
+    .icon-action, .micro-button {
+      background: none;
+      border: none;
+      color: #A0A3B1;
+      cursor: pointer;
+      padding: 4px 6px;
+      border-radius: 3px;
+    }
+
+    .icon-action:hover, .micro-button:hover, .micro-button.active {
+      color: #FF5F1F;
+      background-color: rgba(255, 95, 31, 0.1);
+    }
+
+    .history-hint {
+      padding: 8px 15px;
+      font-size: 12px;
+      color: #A0A3B1;
+    }
+
+    .version-list {
+      flex: 1;
+      overflow-y: auto;
+    }
+
+    .version-item {
+      display: flex;
+      align-items: flex-start;
+      gap: 10px;
+      padding: 10px 15px;
+      border-bottom: 1px solid #22242E;
+      cursor: pointer;
+    }
+
+    .version-item:hover {
+      background-color: #22242E;
+    }
+
+    .version-item.selected {
+      background-color: rgba(255, 95, 31, 0.1);
+    }
+
+    .version-marker {
+      color: #555;
+      padding-top: 2px;
+    }
+
+    .version-item.selected .version-marker {
+      color: #FF5F1F;
+    }
+
+    .version-details {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .version-message {
+      font-size: 13px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .version-meta {
+      display: flex;
+      justify-content: space-between;
+      gap: 8px;
+      font-size: 11px;
+      color: #A0A3B1;
+      margin-top: 2px;
+    }
+
+    .version-id {
+      font-family: monospace;
+      font-size: 11px;
+      color: #555;
+      margin-top: 2px;
+    }
+
+    .latest-badge {
+      margin-left: 6px;
+      padding: 0 4px;
+      border-radius: 3px;
+      color: #00E5A0;
+      border: 1px solid rgba(0, 229, 160, 0.4);
+      font-family: 'Space Grotesk', sans-serif;
+    }
+
+    .restore-button {
+      background: none;
+      border: 1px solid rgba(255, 95, 31, 0.3);
+      border-radius: 3px;
+      color: #FF5F1F;
+      cursor: pointer;
+      padding: 4px 8px;
+    }
+
+    .restore-button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .history-footer {
+      padding: 10px 15px;
+      border-top: 1px solid rgba(255, 95, 31, 0.2);
+    }
+
+    .action-button {
+      width: 100%;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      gap: 8px;
+      padding: 8px;
+      background-color: #FF5F1F;
+      border: none;
+      border-radius: 4px;
+      color: white;
+      cursor: pointer;
+    }
+
+    .diff-panel {
+      flex: 1;
+      display: flex;
+      flex-direction: column;
+      min-height: 0;
+    }
+
+    .diff-toolbar {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      padding: 6px 10px;
+      border-bottom: 1px solid #22242E;
+    }
+
+    .diff-summary {
+      display: flex;
+      gap: 8px;
+      font-family: monospace;
+      font-size: 12px;
+    }
+
+    .diff-summary .added {
+      color: #00E5A0;
+    }
+
+    .diff-summary .removed {
+      color: #FF5C5C;
+    }
+
+    .diff-versions {
+      padding: 4px 10px;
+      font-family: monospace;
+      font-size: 11px;
+      color: #A0A3B1;
+    }
+
+    .diff-body {
+      flex: 1;
+      overflow: auto;
+      font-family: monospace;
+      font-size: 12px;
+    }
+
+    .diff-line {
+      display: flex;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+
+    .diff-line.added {
+      background-color: rgba(0, 229, 160, 0.12);
+    }
+
+    .diff-line.removed {
+      background-color: rgba(255, 92, 92, 0.12);
+    }
+
+    .diff-line.empty {
+      background-color: #161820;
+    }
+
+    .line-number {
+      flex: 0 0 32px;
+      text-align: right;
+      padding-right: 6px;
+      color: #555;
+      user-select: none;
+    }
+
+    .line-sign {
+      flex: 0 0 12px;
+      color: #A0A3B1;
+    }
+
+    .line-content {
+      flex: 1;
+    }
+
+    .split-row {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+    }
+
+    .split-row .diff-line:first-child {
+      border-right: 1px solid #22242E;
+    }
+
+    .empty-state {
+      padding: 30px 15px;
+      text-align: center;
+      color: #A0A3B1;
+    }
+
+    .empty-state i {
+      font-size: 24px;
+      margin-bottom: 8px;
+    }
+  `]
+})
+export class VersionHistoryComponent implements OnChanges {
+  /** Server-side ID of the file whose history is shown */
+  @Input() fileId: string | null = null;
+
+  /** Display name of the file */
+  @Input() fileName = '';
+
+  /** Team the file belongs to, if any */
+  @Input() teamId?: string;
+
+  /** Emits the restored content after a version has been restored */
+  @Output() restored = new EventEmitter<string>();
+
+  /** Emits when the panel is closed */
+  @Output() closed = new EventEmitter<void>();
+
+  /** Versions of the file, newest first */
+  versions: VersionMetadata[] = [];
+
+  /** Versions picked for comparison (at most two) */
+  selectedVersions: VersionMetadata[] = [];
+
+  /** Current comparison, if one is shown */
+  comparison: VersionComparison | null = null;
+
+  /** Rows for the side-by-side diff of the current comparison */
+  splitRows: SplitDiffRow[] = [];
+
+  /** How the diff is rendered */
+  diffMode: 'inline' | 'split' = 'inline';
+
+  isLoading = false;
+  isRestoring = false;
+
+  /** Version whose changes to show once the history has loaded */
+  private pendingChangesVersionId: string | null = null;
+
+  constructor(
+    private versionControl: VersionControlService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['fileId']) {
+      this.selectedVersions = [];
+      this.clearComparison();
+      this.loadHistory();
+    }
+  }
+
+  /**
+   * Loads the version history of the current file
+   * @param forceRefresh Whether to bypass the local version cache
+   */
+  loadHistory(forceRefresh: boolean = false): void {
+    if (!this.fileId) {
+      this.versions = [];
+      return;
+    }
+
+    this.isLoading = true;
+    this.versionControl.getVersionHistory(this.fileId, forceRefresh).subscribe({
+      next: versions => {
+        this.versions = [...versions].sort(
+          (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+        );
+        this.isLoading = false;
+
+        if (this.pendingChangesVersionId) {
+          const versionId = this.pendingChangesVersionId;
+          this.pendingChangesVersionId = null;
+          this.showChanges(versionId);
+        }
+      },
+      error: () => {
+        this.versions = [];
+        this.isLoading = false;
+        this.notificationService.error('Could not load version history');
+      }
+    });
+  }
+
+  isSelected(version: VersionMetadata): boolean {
+    return this.selectedVersions.some(v => v.versionId === version.versionId);
+  }
+
+  /**
+   * Selects or deselects a version for comparison.
+   * Picking a third version replaces the earliest pick.
+   */
+  toggleSelection(version: VersionMetadata): void {
+    if (this.isSelected(version)) {
+      this.selectedVersions = this.selectedVersions.filter(v => v.versionId !== version.versionId);
+      return;
+    }
+
+    this.selectedVersions = [...this.selectedVersions, version].slice(-2);
+  }
+
+  /**
+   * Shows the diff between the two selected versions, older on the left
+   */
+  compareSelected(): void {
+    if (!this.fileId || this.selectedVersions.length !== 2) return;
+
+    const [older, newer] = [...this.selectedVersions].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+    this.compare(older, newer);
+  }
+
+  /**
+   * Shows what a version changed compared with the version before it
+   * @param versionId The version to show
+   */
+  showChanges(versionId: string): void {
+    if (this.isLoading) {
+      this.pendingChangesVersionId = versionId;
+      return;
+    }
+
+    const index = this.versions.findIndex(v => v.versionId === versionId);
+    if (index < 0) {
+      this.notificationService.warning('That version is not in the history of this file');
+      return;
+    }
+
+    const version = this.versions[index];
+    const previous = this.versions[index + 1] || null;
+    this.selectedVersions = previous ? [previous, version] : [version];
+    this.compare(previous, version);
+  }
+
+  clearComparison(): void {
+    this.comparison = null;
+    this.splitRows = [];
+  }
+
+  /**
+   * Loads and shows the diff between two versions
+   * @param older The older version, or null to diff against an empty file
+   * @param newer The newer version
+   */
+  private compare(older: VersionMetadata | null, newer: VersionMetadata): void {
+    if (!this.fileId) return;
+
+    this.isLoading = true;
+    this.versionControl.compareVersions(this.fileId, older?.versionId || null, newer.versionId).subscribe({
+      next: comparison => {
+        this.comparison = comparison;
+        this.splitRows = this.buildSplitRows(comparison.diff);
+        this.isLoading = false;
+      },
+      error: () => {
+        this.isLoading = false;
+        this.notificationService.error('Could not compare versions');
+      }
+    });
+  }
+
+  /**
+   * Restores an old version by saving its content as a new version on top of the latest one
+   * @param version The version to restore
+   */
+  restoreVersion(version: VersionMetadata): void {
+    if (!this.fileId || this.versions.length === 0) return;
+
+    const when = new Date(version.timestamp).toLocaleString();
+    if (!confirm(`Restore "${this.fileName}" to the version from ${when}?`)) {
+      return;
+    }
+
+    const fileId = this.fileId;
+    const latest = this.versions[0];
+    const message = `Restored version ${version.versionId.substring(0, 8)} from ${when}`;
+    let restoredContent = '';
+
+    this.isRestoring = true;
+    this.versionControl.getVersionContent(fileId, version.versionId).pipe(
+      switchMap(content => {
+        restoredContent = content;
+        return this.versionControl.saveVersion(fileId, content, latest.versionId, message, this.teamId);
+      })
+    ).subscribe({
+      next: response => {
+        this.isRestoring = false;
+
+        if (response.status === 'conflict') {
+          this.notificationService.warning('The file changed while restoring, please try again');
+          this.loadHistory(true);
+          return;
+        }
+
+        // A restore merged with changes saved meanwhile is only saved as merged
+        this.notificationService.success(`Restored version from ${when}`);
+        this.restored.emit(response.mergedContent ?? restoredContent);
+        this.loadHistory(true);
+      },
+      error: error => {
+        this.isRestoring = false;
+        this.notificationService.error(`Error restoring version: ${error.message}`);
+      }
+    });
+  }
+
+  close(): void {
+    this.closed.emit();
+  }
+
+  /**
+   * Pairs removed and added lines of each change so they line up side by side
+   */
+  private buildSplitRows(diff: DiffLine[]): SplitDiffRow[] {
+    const rows: SplitDiffRow[] = [];
+    let index = 0;
+
+    while (index < diff.length) {
+      if (diff[index].type === 'equal') {
+        rows.push({ left: diff[index], right: diff[index] });
+        index++;
+        continue;
+      }
+
+      const removed: DiffLine[] = [];
+      const added: DiffLine[] = [];
+      while (index < diff.length && diff[index].type !== 'equal') {
+        (diff[index].type === 'removed' ? removed : added).push(diff[index]);
+        index++;
+      }
+
+      for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+        rows.push({ left: removed[i], right: added[i] });
+      }
+    }
+
+    return rows;
+  }
+}
@@ -1,16 +1,28 @@
-import {Component, OnDestroy, OnInit, ViewChild, ElementRef } from '@angular/core';
+import {Component, HostListener, OnDestroy, OnInit, ViewChild, ElementRef } from '@angular/core';
 import {CommonModule} from '@angular/common';
 import {FormsModule} from '@angular/forms';
 import {Observable, Subscription, Subject, of} from 'rxjs';
-import {debounceTime, distinctUntilChanged} from 'rxjs/operators';
+import {debounceTime, distinctUntilChanged, map, switchMap} from 'rxjs/operators';
 
-import {FileInfo, FileService} from '../../services/file.service';
+import {DiskChange, FileInfo, FileService} from '../../services/file.service';
 import {AuthService} from '../../services/auth.service';
 import {MetadataService} from '../../services/metadata.service';
 import {NotificationService} from '../../services/notification.service';
 import {InvitationService} from '../../services/invitation.service';
 import { ElectronService } from '../../services/electron.service';
 import { MlService } from '../../services/ml-service';
+import {
+  CollaborationParticipant,
+  CollaborationService,
+  RemoteTextUpdate
+} from '../../services/collaboration.service';
+import { OfflineQueueService, ReplayedContent } from '../../services/offline-queue.service';
+import { ConflictService, ResolvedConflict } from '../../services/conflict.service';
+import { StorageService } from '../../services/storage.service';
+import { AuthorshipService } from '../../services/authorship.service';
+import { AuthorshipSpan } from '../../services/authorship-tracker';
+import { BlameLine, BlamedText, blameEdits, blameHistory } from '../../services/blame';
+import { MergeService } from '../../services/merge.service';
 
 import {ColoredMarkdownViewComponent} from '../../components/colored-markdown-view/colored-markdown-view.component';
 import {AuthTabsComponent} from '../../components/auth-tabs/auth-tabs.component';
@@ -32,6 +44,33 @@ import {TeamService} from '../../services/team.service';
 import {UserInvitationsComponent} from '../../components/user-invitations/user-invitations.component';
 import {MlContextMenuComponent, MlAction} from '../../components/ml-context-menu/ml-context-menu.component';
 import {ImageUploaderComponent, ImageUploadResult} from '../../components/image-uploader/image-uploader.component';
+import {VersionHistoryComponent} from '../../components/version-history/version-history.component';
+import {EditorRange, MarkdownEditorComponent} from '../../components/markdown-editor/markdown-editor.component';
+import { FormattingToolbarComponent } from '../../components/formatting-toolbar/formatting-toolbar.component';
+import {ExportDialogComponent, ExportRequest} from '../../components/export-dialog/export-dialog.component';
+import {ImportDialogComponent} from '../../components/import-dialog/import-dialog.component';
+import {DiskChangePromptComponent} from '../../components/disk-change-prompt/disk-change-prompt.component';
+import {ShortcutsDialogComponent} from '../../components/shortcuts-dialog/shortcuts-dialog.component';
+import {SharedContentPromptComponent} from '../../components/shared-content-prompt/shared-content-prompt.component';
+import {FileTreeComponent, FileTreeMove, FileTreeTeamTarget} from '../../components/file-tree/file-tree.component';
+import {SearchPaletteComponent} from '../../components/search-palette/search-palette.component';
+import {QuickOpenComponent} from '../../components/quick-open/quick-open.component';
+import {BacklinksPanelComponent} from '../../components/backlinks-panel/backlinks-panel.component';
+import {DocumentTabMove, DocumentTabsComponent} from '../../components/document-tabs/document-tabs.component';
+import {UnsavedChangesPromptComponent} from '../../components/unsaved-changes-prompt/unsaved-changes-prompt.component';
+import {RecoveryDialogComponent} from '../../components/recovery-dialog/recovery-dialog.component';
+import {SyncIssuesComponent} from '../../components/sync-issues/sync-issues.component';
+import { baseName, isInFolder, joinPath, parentFolder, validateName } from '../../services/file-tree';
+import { SharedContent, sharedContentToMarkdown, sharedNoteName } from '../../services/shared-content';
+import { SearchHit } from '../../services/search-index';
+import { Backlink, SearchService } from '../../services/search.service';
+import { OpenDocument, OpenDocumentsService } from '../../services/open-documents.service';
+import { AutosaveBuffer, AutosaveService } from '../../services/autosave.service';
+import { WikiLink, headingLine, renameWikiLinks, resolveWikiLink } from '../../services/wikilinks';
+import { AppCommand, CommandRegistryService } from '../../services/command-registry.service';
+import { SlashCommandRegistryService } from '../../services/slash-command-registry.service';
+import { PdfExportService } from '../../services/pdf-export.service';
+import { DocumentExportFormat, ExportService } from '../../services/export.service';
 
 @Component({
   selector: 'app-note-app-layout',
@@ -50,6 +89,22 @@ import {ImageUploaderComponent, ImageUploadResult} from '../../components/image-
     UserInvitationsComponent,
     MlContextMenuComponent,
     ImageUploaderComponent,
+    VersionHistoryComponent,
+    MarkdownEditorComponent,
+    FormattingToolbarComponent,
+    ExportDialogComponent,
+    ImportDialogComponent,
+    DiskChangePromptComponent,
+    ShortcutsDialogComponent,
+    SharedContentPromptComponent,
+    FileTreeComponent,
+    SearchPaletteComponent,
+    QuickOpenComponent,
+    BacklinksPanelComponent,
+    DocumentTabsComponent,
+    UnsavedChangesPromptComponent,
+    RecoveryDialogComponent,
+    SyncIssuesComponent,
   ],
   templateUrl: './note-app-layout.component.html',
   styleUrls: ['./note-app-layout.component.css']
@@ -57,14 +112,30 @@ import {ImageUploaderComponent, ImageUploadResult} from '../../components/image-
 export class NoteAppLayoutComponent implements OnInit, OnDestroy {
   @ViewChild(MlContextMenuComponent) mlContextMenu!: MlContextMenuComponent;
   @ViewChild('previewContainer') previewContainer!: ElementRef;
+  @ViewChild('markdownEditor') markdownEditor?: MarkdownEditorComponent;
+  @ViewChild(VersionHistoryComponent) versionHistory?: VersionHistoryComponent;
+  @ViewChild(ColoredMarkdownViewComponent) previewView?: ColoredMarkdownViewComponent;
+  @ViewChild(ImageUploaderComponent) imageUploader?: ImageUploaderComponent;
 
   markdownContent: string = '';
   isLeftSidebarOpen: boolean = true;
   isRightSidebarOpen: boolean = false;
+  isHistoryPanelOpen: boolean = false;
+  isBacklinksPanelOpen: boolean = false;
+  isLoadingBacklinks: boolean = false;
+  backlinks: Backlink[] = [];
+  isExportDialogOpen: boolean = false;
+  exportDialogMode: 'export' | 'share' = 'export';
+  isExporting: boolean = false;
+  isImportDialogOpen: boolean = false;
+  isShortcutsDialogOpen: boolean = false;
+  isSearchPaletteOpen: boolean = false;
+  isQuickOpenOpen: boolean = false;
   isAuthModalOpen: boolean = false;
   isDebugPanelOpen: boolean = false;
-  activeTabIndex: number = 0;
   viewMode: 'split' | 'editor' | 'preview' = 'split';
+  /** Line of the editor caret, highlighted in the preview */
+  caretLine: number | null = null;
 
   // Subject for debounced content change events
   private contentChangeSubject = new Subject<string>();
@@ -85,62 +156,63 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
 
   /**
    * Storage key prefix for large images
-   * Used to store large base64 strings in localStorage to prevent memory issues
+   * Used to keep large images out of memory and out of the note text
    */
   private readonly IMAGE_STORAGE_PREFIX = 'laminotes_img_';
 
   /**
-   * Store image data in localStorage to avoid memory issues with large base64 strings
-   * @param data The data to store (typically a base64 string)
+   * Store image data in the image store to avoid memory issues with large base64 strings
+   * @param data The data to store (a base64 data URL or a markdown image using one)
    * @returns A storage reference in the format '@storage:key'
    */
-  private storeImageInLocalStorage(data: string): string {
+  private storeImageInStorage(data: string): string {
     // Generate a unique storage key
     const storageKey = `${this.IMAGE_STORAGE_PREFIX}${Date.now()}_${Math.floor(Math.random() * 10000)}`;
 
-    try {
-      // Store data in localStorage
-      localStorage.setItem(storageKey, data);
-      console.log(`Stored image in localStorage: ${storageKey.substring(0, 30)}... (${Math.round(data.length / 1024)}KB)`);
+    // Keep the bytes rather than the base64 text when we can
+    const markdownMatch = /^!\[(.*?)\]\((data:[^)]+)\)$/s.exec(data);
+    const dataUrl = markdownMatch ? markdownMatch[2] : data;
+    const blob = this.storage.dataUrlToBlob(dataUrl);
 
-      // Return a reference to the stored data
-      return `@storage:${storageKey}`;
-    } catch (error) {
-      console.error('Failed to store image in localStorage:', error);
-      // If storage fails, return the original data
-      return data;
+    if (blob) {
+      this.storage.putImage(storageKey, blob, markdownMatch ? markdownMatch[1] : undefined);
+      console.log(`Stored image: ${storageKey.substring(0, 30)}... (${Math.round(blob.size / 1024)}KB)`);
+    } else {
+      this.storage.setItem(storageKey, data);
+      console.log(`Stored image data: ${storageKey.substring(0, 30)}... (${Math.round(data.length / 1024)}KB)`);
     }
+
+    // Return a reference to the stored data
+    return `@storage:${storageKey}`;
   }
 
   /**
-   * Retrieve image data from localStorage
+   * Retrieve image markdown from the image store
    * @param reference Storage reference in the format '@storage:key'
-   * @returns The stored data, or a placeholder if retrieval fails
+   * @returns Markdown for the stored image, or a placeholder if retrieval fails
    */
-  private retrieveImageFromLocalStorage(reference: string): string {
+  private retrieveImageFromStorage(reference: string): string {
     if (!reference.startsWith('@storage:')) {
       return reference; // Not a storage reference
     }
 
     const storageKey = reference.substring(9); // Remove '@storage:' prefix
 
-    try {
-      const data = localStorage.getItem(storageKey);
-      if (!data) {
-        console.warn(`Image storage key not found: ${storageKey}`);
-        return `![Image not found](preview-placeholder)`;
-      }
-      return data;
-    } catch (error: any) {
-      console.error('Failed to retrieve image from localStorage:', error);
-      const errorMessage = error?.message || 'Unknown error';
-      console.warn(`Error retrieving image from localStorage: ${errorMessage}`);
-      return `![Error loading image](preview-placeholder)`;
+    const imageUrl = this.storage.getImageUrl(storageKey);
+    if (imageUrl) {
+      const name = this.storage.getImage(storageKey)?.name || 'image';
+      return `![${name}](${imageUrl})`;
+    }
+
+    const data = this.storage.getItem(storageKey);
+    if (!data) {
+      console.warn(`Image storage key not found: ${storageKey}`);
+      return `![Image not found](preview-placeholder)`;
     }
+    return data;
   }
 
   // ML and context menu related properties
-  private editorElement!: HTMLTextAreaElement;
   private touchStartTime: number = 0;
   private longPressTimeout: any = null;
   private isTouchMoved: boolean = false;
@@ -153,8 +225,30 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
   showUserInvitations: boolean = false;
   hasPendingInvitations: boolean = false;
 
-  // Conflict resolution
-  conflictData: ConflictData | null = null;
+  // Change made by another program to the open file while it had unsaved edits
+  diskChange: DiskChange | null = null;
+  private diskChangeSubscription: Subscription;
+
+  // Content shared from other apps, oldest first, waiting for the user to place it
+  sharedContents: SharedContent[] = [];
+  private sharedContentSubscription?: Subscription;
+
+  // Tabs with unsaved edits waiting to be saved or discarded, and whether the window closes after
+  unsavedPrompt: { documents: OpenDocument[]; closesWindow: boolean } | null = null;
+
+  /** Unsaved edits from the last session offered in the recovery dialog */
+  recoveryBuffers: AutosaveBuffer[] = [];
+  private documentSubscriptions: Subscription[] = [];
+
+  // Desktop menus, and notes open in their own window
+  private notesInWindows = new Set<string>();
+  private desktopSubscriptions: Subscription[] = [];
+
+  /** Removes the commands this layout put in the quick-open palette */
+  private unregisterCommands: (() => void)[] = [];
+
+  /** Removes the team switching commands, which change with the team list */
+  private unregisterTeamCommands?: () => void;
 
   // Tab-specific properties
   currentTabView: 'recents' | 'notes' | 'shared' = 'notes';
@@ -167,6 +261,10 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
   teamRoles: Record<string, TeamRole> = {};
   pendingInvitationsPreview: any[] = [];
 
+  // Teams notes can be dragged to in the file tree, rebuilt when the teams change
+  private cachedFileTreeTeams: FileTreeTeamTarget[] = [];
+  private fileTreeTeamsKey = '';
+
   // User colors for collaborative editing visualization
   userColors: Record<string, string> = {
     'user1': '#3498db',
@@ -174,6 +272,26 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     'user3': '#2ecc71'
   };
 
+  // Other people editing the open file in real time
+  collaborators: CollaborationParticipant[] = [];
+  private collaborationSubscriptions: Subscription[] = [];
+
+  // Who wrote which parts of the open file
+  authorshipSpans: AuthorshipSpan[] = [];
+
+  // Blame mode: which version last changed each line of the open file
+  isBlameMode: boolean = false;
+  blame: BlameLine[] | null = null;
+  /** Blame of the newest version, with images as the editor shows them; edits are diffed against it */
+  private blameBase: BlamedText | null = null;
+
+  // Server operations journaled while offline
+  pendingOperationCount: number = 0;
+  heldOperationCount: number = 0;
+  showSyncIssues: boolean = false;
+  isOnline: boolean = navigator.onLine;
+  private offlineSubscriptions: Subscription[] = [];
+
   // Status messages for operations
   statusMessage: string = '';
   isLoading: boolean = false;
@@ -191,7 +309,20 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     private versionControl: VersionControlService,
     private invitationService: InvitationService,
     private electronService: ElectronService,
-    private mlService: MlService
+    private mlService: MlService,
+    private collaboration: CollaborationService,
+    private offlineQueue: OfflineQueueService,
+    private storage: StorageService,
+    private authorship: AuthorshipService,
+    private mergeService: MergeService,
+    private pdfExportService: PdfExportService,
+    private exportService: ExportService,
+    private commandRegistry: CommandRegistryService,
+    private slashCommands: SlashCommandRegistryService,
+    private searchService: SearchService,
+    public openDocuments: OpenDocumentsService,
+    private autosave: AutosaveService,
+    private conflicts: ConflictService
   ) {
     this.notificationSubscription = this.notificationService.notifications$.subscribe(
       notification => {
@@ -199,6 +330,8 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
       }
     );
 
+    this.diskChangeSubscription = this.fileService.diskChanges$.subscribe(change => this.onDiskChange(change));
+
     // Set up debounced content changes to improve performance with images
     this.contentChangeSubject.pipe(
       debounceTime(800), // Wait 800ms after last input before updating (increased from 300ms)
@@ -206,53 +339,24 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     ).subscribe(content => {
       // Process images for preview with debounce to avoid performance issues
       this.previewContent = this.processImagesForPreview(content);
-    });
-  }
 
-  /**
-   * Clear old storage items to prevent quota issues
-   */
-  private cleanupLocalStorage(): void {
-    try {
-      // Get all keys in localStorage
-      const allKeys = Object.keys(localStorage);
-
-      // Find keys related to image storage and sort by creation time
-      const imageKeys = allKeys.filter(key =>
-        key.startsWith('laminotes_img_') ||
-        key.startsWith('image_data_')
-      ).sort();
-
-      // If we have more than 10 image keys, remove the oldest ones
-      if (imageKeys.length > 10) {
-        console.log(`Cleaning up ${imageKeys.length - 10} old image storage items`);
-
-        // Keep the 10 most recent keys (which will be at the end of the array)
-        const keysToRemove = imageKeys.slice(0, imageKeys.length - 10);
-
-        // Remove the oldest keys
-        keysToRemove.forEach(key => {
-          try {
-            localStorage.removeItem(key);
-          } catch (e) {
-            console.error(`Failed to remove key ${key}:`, e);
-          }
-        });
-
-        console.log(`Removed ${keysToRemove.length} old storage items`);
+      if (this.isBlameMode) {
+        this.updateBlame();
       }
-    } catch (error) {
-      console.error('Error cleaning up localStorage:', error);
-    }
+
+      this.syncNoteWindows();
+    });
   }
 
   ngOnInit(): void {
-    // Clean up old storage to prevent quota issues
-    this.cleanupLocalStorage();
-
     // Try to restore active team first, which might set directories
     this.teamService.activeTeam$.subscribe(team => {
+      // Live sessions are per team, so leave the old team's room
+      if (this.currentTeam?.id !== team?.id) {
+        this.collaboration.leave();
+      }
       this.currentTeam = team;
+      this.updateTeamMenu();
       if (team) {
         // First validate team directory if in Electron environment
         if (this.electronService.isElectron()) {
@@ -282,6 +386,15 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
       }
     });
 
+    this.subscribeToCollaboration();
+    this.subscribeToOfflineQueue();
+    this.subscribeToDesktop();
+    this.subscribeToDocuments();
+    this.registerCommands();
+    this.recoveryBuffers = this.autosave.recoverableBuffers;
+    this.sharedContentSubscription = this.fileService.sharedContent()
+      .subscribe(share => this.sharedContents = [...this.sharedContents, share]);
+
     // Check authentication state
     this.authService.isAuthenticated().subscribe(isAuthenticated => {
       if (isAuthenticated) {
@@ -314,29 +427,28 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     this.showTeamManagement = !this.showTeamManagement;
   }
 
+  /**
+   * Conflict of the open note waiting to be resolved
+   */
+  get conflictData(): ConflictData | null {
+    return this.conflicts.conflictFor(this.fileService.currentFile?.path)?.conflict ?? null;
+  }
+
+  /**
+   * Saves the resolved content to the note the conflict belongs to
+   */
   onConflictResolved(resolvedContent: string): void {
-    if (!this.conflictData) return;
+    const conflict = this.conflictData;
+    if (!conflict) return;
 
     this.isLoading = true;
     this.statusMessage = 'Saving resolved content...';
 
-    this.saveResolvedContent(this.conflictData.fileId, resolvedContent);
-  }
-
-  onConflictCancelled(): void {
-    this.conflictData = null;
-    this.notificationService.info('Conflict resolution cancelled');
-  }
-
-  saveResolvedContent(fileId: string, content: string): void {
-    // If using file service directly
-    this.markdownContent = content;
-    this.fileService.saveFile(content).subscribe({
+    this.conflicts.resolve(conflict.fileId, resolvedContent).subscribe({
       next: () => {
-        this.conflictData = null;
         this.isLoading = false;
         this.statusMessage = '';
-        this.notificationService.success('Conflicts resolved and file saved');
+        this.notificationService.success(`Conflicts resolved and ${conflict.fileName} saved`);
       },
       error: (error) => {
         this.isLoading = false;
@@ -346,6 +458,24 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     });
   }
 
+  onConflictCancelled(): void {
+    const conflict = this.conflictData;
+    if (conflict) {
+      this.conflicts.dismiss(conflict.fileId);
+    }
+    this.notificationService.info('Conflict resolution cancelled');
+  }
+
+  /**
+   * Shows the resolved content if its note is open
+   */
+  private onConflictResolvedSaved(resolved: ResolvedConflict): void {
+    if (this.fileService.currentFile?.path === resolved.path) {
+      this.showContent(resolved.content);
+      this.markCurrentDocumentSaved();
+    }
+  }
+
   ngOnDestroy(): void {
     if (this.notificationSubscription) {
       this.notificationSubscription.unsubscribe();
@@ -353,16 +483,969 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
 
     // Clean up our content change subject
     this.contentChangeSubject.complete();
+
+    this.collaborationSubscriptions.forEach(subscription => subscription.unsubscribe());
+    this.collaboration.leave();
+    this.authorship.close();
+
+    this.offlineSubscriptions.forEach(subscription => subscription.unsubscribe());
+    this.diskChangeSubscription.unsubscribe();
+    this.desktopSubscriptions.forEach(subscription => subscription.unsubscribe());
+    this.documentSubscriptions.forEach(subscription => subscription.unsubscribe());
+    this.sharedContentSubscription?.unsubscribe();
+    this.unregisterCommands.forEach(unregister => unregister());
+    this.unregisterTeamCommands?.();
+  }
+
+  /**
+   * Reloads the open file after another program changed it, or asks what to
+   * do when the editor has unsaved edits. Background tabs are reloaded, or
+   * ask once they're shown.
+   */
+  private onDiskChange(change: DiskChange): void {
+    if (change.type === 'unlink') {
+      this.notificationService.warning(`${change.file.name} was deleted outside Laminotes. Save it to keep your copy.`);
+      return;
+    }
+
+    if (this.fileService.currentFile?.path !== change.file.path) {
+      const images: Record<string, string> = {};
+      const content = this.toImagePlaceholders(change.content as string, images);
+      this.openDocuments.changedOnDisk(change, content, images);
+      return;
+    }
+
+    this.processImagesForSavingAsync(this.markdownContent).subscribe(local => {
+      if (this.fileService.currentFile?.path !== change.file.path) {
+        return;
+      }
+
+      // Already showing what's on disk, e.g. saved from a note window
+      if (local === change.content) {
+        this.fileService.acceptDiskContent(change.file, local);
+        return;
+      }
+
+      if (local === change.base) {
+        this.showDiskContent(change, change.content as string);
+        this.notificationService.info(`${change.file.name} was reloaded with changes made outside Laminotes`);
+      } else {
+        this.diskChange = change;
+      }
+    });
+  }
+
+  /**
+   * Replaces the unsaved edits with the file on disk
+   */
+  reloadFromDisk(): void {
+    const change = this.diskChange;
+    this.diskChange = null;
+    if (!change || this.fileService.currentFile?.path !== change.file.path) {
+      return;
+    }
+
+    this.showDiskContent(change, change.content as string);
+    this.notificationService.info(`Reloaded ${change.file.name}`);
+  }
+
+  /**
+   * Merges the unsaved edits with the file on disk, opening the resolver if they overlap
+   */
+  mergeWithDisk(): void {
+    const change = this.diskChange;
+    this.diskChange = null;
+    if (!change || this.fileService.currentFile?.path !== change.file.path) {
+      return;
+    }
+
+    const diskContent = change.content as string;
+    this.processImagesForSavingAsync(this.markdownContent).subscribe(local => {
+      const result = this.mergeService.merge(change.base, local, diskContent);
+
+      if (result.clean) {
+        this.showDiskContent(change, result.content);
+        this.notificationService.success(`Merged outside changes into ${change.file.name}. Save to write the result.`);
+        return;
+      }
+
+      this.conflicts.add(change.file.path, 'disk', {
+        fileId: change.file.path,
+        fileName: change.file.name,
+        localVersion: local,
+        remoteVersion: diskContent,
+        baseVersion: change.base,
+        lastLocalUpdate: new Date().toISOString(),
+        lastRemoteUpdate: new Date().toISOString(),
+        remoteAuthor: 'another program',
+        conflictRegions: result.conflicts,
+        mergedContent: result.content
+      });
+    });
+  }
+
+  /**
+   * Keeps the unsaved edits; the next save overwrites the file on disk
+   */
+  keepLocalChanges(): void {
+    const change = this.diskChange;
+    this.diskChange = null;
+    if (change?.content != null) {
+      this.fileService.acceptDiskContent(change.file, change.content);
+    }
+  }
+
+  /**
+   * Shows content derived from the file on disk, which becomes the saved state
+   */
+  private showDiskContent(change: DiskChange, content: string): void {
+    this.fileService.acceptDiskContent(change.file, change.content as string);
+    this.showContent(content);
+    this.openDocuments.markSaved(change.file.path);
+  }
+
+  /**
+   * Replaces the editor content with a version of the open file from elsewhere
+   */
+  private showContent(content: string): void {
+    this.markdownContent = this.processImagesForEditing(content);
+    this.previewContent = this.processImagesForPreview(this.markdownContent);
+    this.collaboration.updateLocalText(this.markdownContent);
+    this.authorship.syncText(this.markdownContent);
+  }
+
+  /**
+   * Keeps the tabs in step with renamed and deleted notes, tells the desktop
+   * window whether closing it has to ask about unsaved tabs, and shows
+   * resolved conflicts
+   */
+  private subscribeToDocuments(): void {
+    this.documentSubscriptions = [
+      this.fileService.fileChanges$.subscribe(change => {
+        if (change.type === 'renamed' && change.previous) {
+          this.openDocuments.rename(change.previous.path, change.file);
+          this.autosave.rename(change.previous.path, change.file);
+        } else if (change.type === 'deleted') {
+          this.openDocuments.close(change.file.path);
+        }
+      }),
+      this.openDocuments.documents$.pipe(
+        map(() => this.openDocuments.hasUnsavedChanges),
+        distinctUntilChanged()
+      ).subscribe(unsaved => this.electronService.setUnsavedChanges(unsaved)),
+      this.electronService.closeRequests$.subscribe(() => this.onCloseRequested()),
+      this.conflicts.resolved$.subscribe(resolved => this.onConflictResolvedSaved(resolved))
+    ];
+  }
+
+  /**
+   * Follows the desktop menus and the notes open in their own window
+   */
+  private subscribeToDesktop(): void {
+    if (!this.electronService.isElectron()) {
+      return;
+    }
+
+    this.desktopSubscriptions = [
+      this.electronService.menuCommands$.subscribe(({ command, argument }) => this.onMenuCommand(command, argument)),
+      this.electronService.noteWindows$.subscribe(paths => this.notesInWindows = new Set(paths)),
+      this.electronService.noteSynced$.subscribe(note => {
+        if (note.path === this.fileService.currentFile?.path) {
+          this.showContent(note.content);
+        }
+      }),
+      this.electronService.openedFiles().subscribe(opened => this.openFileFromSystem(opened))
+    ];
+  }
+
+  /**
+   * Opens a markdown file double-clicked or opened with Laminotes in the OS
+   */
+  private openFileFromSystem(opened: ElectronOpenedFile): void {
+    this.showOpenedFile(this.fileService.openFileFromSystem(opened));
+  }
+
+  /**
+   * Opens a note picked in the Files app on iPad
+   */
+  openDocument(): void {
+    this.fileService.openDocument().subscribe({
+      next: file => {
+        if (file) {
+          this.showOpenedFile(file);
+        }
+      },
+      error: error => this.notificationService.error(error?.message || 'Could not open the document')
+    });
+  }
+
+  /**
+   * Switches to the notes view and opens a file added from outside the notes folder
+   */
+  private showOpenedFile(file: FileInfo, line?: number): void {
+    this.currentTabView = 'notes';
+
+    if (this.fileService.currentFile?.path !== file.path) {
+      this.openFile(file, line);
+    } else if (line !== undefined) {
+      this.revealLine(line);
+    }
+  }
+
+  openSearchPalette(): void {
+    this.isSearchPaletteOpen = true;
+  }
+
+  /**
+   * Opens the note of a search match at the matching line
+   */
+  openSearchHit(hit: SearchHit): void {
+    this.isSearchPaletteOpen = false;
+    this.openNoteAt(hit.id, hit.name, hit.line);
+  }
+
+  /**
+   * Opens an indexed note at a line
+   * @param path Path of the note, its id in the search index
+   */
+  private openNoteAt(path: string, name: string, line: number): void {
+    const file = this.fileService.filesInDirectory.find(entry => entry.path === path);
+    if (file) {
+      this.showOpenedFile(file, line);
+      return;
+    }
+
+    // Notes of another team's directory open like files from the OS
+    this.fileService.readNote({ path, name }).subscribe(content => {
+      if (content === null) {
+        this.notificationService.error(`Could not read ${name}`);
+        return;
+      }
+      this.showOpenedFile(this.fileService.openFileFromSystem({ path, name, content }), line);
+    });
+  }
+
+  /**
+   * Puts the caret at the start of an editor line and scrolls it into view
+   * @param line Line number, counted from 0
+   */
+  private revealLine(line: number): void {
+    setTimeout(() => this.markdownEditor?.revealLine(line));
+  }
+
+  /**
+   * Ctrl/Cmd+Shift+F searches the notes and Ctrl/Cmd+K opens the quick-open
+   * palette; on desktop the menu accelerators do this
+   */
+  @HostListener('document:keydown', ['$event'])
+  onDocumentKeydown(event: KeyboardEvent): void {
+    if (this.electronService.isElectron() || !(event.ctrlKey || event.metaKey) || event.altKey) {
+      return;
+    }
+
+    if (event.shiftKey && event.code === 'KeyF') {
+      event.preventDefault();
+      this.openSearchPalette();
+    } else if (!event.shiftKey && event.code === 'KeyK') {
+      event.preventDefault();
+      this.openQuickOpen();
+    }
+  }
+
+  /**
+   * Has the browser ask before leaving the page with unsaved tabs; the
+   * desktop window asks with the unsaved changes prompt instead
+   */
+  /**
+   * Turns pending autosaved edits into versions when the user leaves the window
+   */
+  @HostListener('window:blur')
+  onWindowBlur(): void {
+    this.autosave.commitPending();
+  }
+
+  @HostListener('window:beforeunload', ['$event'])
+  onBeforeUnload(event: BeforeUnloadEvent): void {
+    if (!this.electronService.isElectron() && this.openDocuments.hasUnsavedChanges) {
+      event.preventDefault();
+      event.returnValue = '';
+    }
+  }
+
+  /**
+   * Runs a command chosen from the desktop menu or by its shortcut
+   * @param command Menu command id, see electron/app-menu.js
+   * @param argument The team id for 'switch-team'
+   */
+  private onMenuCommand(command: string, argument: string | null): void {
+    switch (command) {
+      case 'new-file':
+        this.addNewFile();
+        break;
+      case 'open-note-window':
+        this.openInNewWindow();
+        break;
+      case 'save':
+        this.saveCurrentFile();
+        break;
+      case 'save-as':
+        this.saveCurrentFileAs();
+        break;
+      case 'export':
+        this.openExportDialog();
+        break;
+      case 'import':
+        this.openImportDialog();
+        break;
+      case 'toggle-preview':
+        this.togglePreview();
+        break;
+      case 'toggle-sidebar':
+        this.toggleLeftSidebar();
+        break;
+      case 'toggle-history':
+        this.toggleHistoryPanel();
+        break;
+      case 'toggle-backlinks':
+        this.toggleBacklinksPanel();
+        break;
+      case 'switch-team':
+        this.switchToTeamById(argument);
+        break;
+      case 'manage-teams':
+        this.toggleTeamManagement();
+        break;
+      case 'edit-shortcuts':
+        this.isShortcutsDialogOpen = true;
+        break;
+      case 'search':
+        this.openSearchPalette();
+        break;
+      case 'quick-open':
+        this.openQuickOpen();
+        break;
+      default:
+        console.warn(`⚠️ Unknown menu command: ${command}`);
+    }
+  }
+
+  /**
+   * Lists the teams in the desktop Team menu and in the quick-open palette
+   */
+  private updateTeamMenu(): void {
+    if (this.electronService.isElectron()) {
+      this.electronService.setMenuTeams(this.teams, this.currentTeam?.id ?? null);
+    }
+
+    this.unregisterTeamCommands?.();
+    this.unregisterTeamCommands = this.commandRegistry.register(
+      {
+        id: 'team.personal',
+        label: 'Switch to Personal Notes',
+        category: 'Team',
+        icon: 'fa-user',
+        isAvailable: () => !!this.currentTeam,
+        run: () => this.switchToTeamById(null)
+      },
+      ...this.teams.map((team): AppCommand => ({
+        id: `team.switch.${team.id}`,
+        label: `Switch to ${team.name}`,
+        category: 'Team',
+        icon: 'fa-users',
+        isAvailable: () => this.currentTeam?.id !== team.id,
+        run: () => this.switchToTeam(team)
+      }))
+    );
+  }
+
+  /**
+   * Puts the layout's actions in the quick-open palette
+   */
+  private registerCommands(): void {
+    const hasFile = () => !!this.fileService.currentFile;
+    const hasSelection = () => !!this.getSelectedText();
+    const runAi = (type: MlAction['type']) => () => this.onMlActionSelected({ type, text: this.getSelectedText() });
+
+    this.unregisterCommands.push(this.commandRegistry.register(
+      { id: 'file.new', label: 'New Note', category: 'File', icon: 'fa-plus', isAvailable: () => this.canEditTeamFiles(), run: () => this.addNewFile() },
+      { id: 'file.new-folder', label: 'New Folder', category: 'File', icon: 'fa-folder-plus', run: () => this.createNewFolder() },
+      { id: 'file.save', label: 'Save', category: 'File', icon: 'fa-save', isAvailable: hasFile, run: () => this.saveCurrentFile() },
+      { id: 'file.close-tab', label: 'Close Tab', category: 'File', icon: 'fa-times', isAvailable: () => !!this.currentDocument, run: () => this.closeTab(this.currentDocument!) },
+      { id: 'file.pin-tab', label: 'Pin or Unpin Tab', category: 'File', icon: 'fa-thumbtack', isAvailable: () => !!this.currentDocument, run: () => this.togglePinTab(this.currentDocument!) },
+      { id: 'file.save-as', label: 'Save As…', category: 'File', icon: 'fa-save', isAvailable: hasFile, run: () => this.saveCurrentFileAs() },
+      { id: 'file.export', label: 'Export…', category: 'File', icon: 'fa-file-export', keywords: ['pdf', 'html', 'docx'], isAvailable: hasFile, run: () => this.openExportDialog() },
+      { id: 'file.share', label: 'Share…', category: 'File', icon: 'fa-share-square', isAvailable: () => hasFile() && this.fileService.canShare(), run: () => this.openShareDialog() },
+      { id: 'file.import', label: 'Import Notes…', category: 'File', icon: 'fa-file-import', run: () => this.openImportDialog() },
+      { id: 'file.open-folder', label: 'Open Folder…', category: 'File', icon: 'fa-folder-open', run: () => this.selectDirectory() },
+      { id: 'file.search', label: 'Search Notes…', category: 'File', icon: 'fa-search', keywords: ['find', 'full text'], run: () => this.openSearchPalette() },
+      { id: 'view.split', label: 'Editor and Preview', category: 'View', icon: 'fa-columns', run: () => this.changeViewMode('split') },
+      { id: 'view.editor', label: 'Editor Only', category: 'View', icon: 'fa-edit', run: () => this.changeViewMode('editor') },
+      { id: 'view.preview', label: 'Preview Only', category: 'View', icon: 'fa-eye', run: () => this.changeViewMode('preview') },
+      { id: 'view.sidebar', label: 'Toggle Sidebar', category: 'View', icon: 'fa-bars', run: () => this.toggleLeftSidebar() },
+      { id: 'view.history', label: 'Toggle Version History', category: 'View', icon: 'fa-history', isAvailable: hasFile, run: () => this.toggleHistoryPanel() },
+      { id: 'view.backlinks', label: 'Toggle Backlinks', category: 'View', icon: 'fa-link', keywords: ['wiki links'], isAvailable: hasFile, run: () => this.toggleBacklinksPanel() },
+      { id: 'view.blame', label: 'Toggle Blame', category: 'View', icon: 'fa-user-edit', keywords: ['authors'], isAvailable: hasFile, run: () => this.toggleBlameMode() },
+      { id: 'sync.upload-all', label: 'Upload All Notes', category: 'Sync', icon: 'fa-cloud-upload-alt', run: () => this.uploadAllFiles() },
+      { id: 'sync.download-all', label: 'Download All Notes', category: 'Sync', icon: 'fa-cloud-download-alt', run: () => this.downloadAllFiles() },
+      { id: 'sync.pending', label: 'Sync Offline Changes', category: 'Sync', icon: 'fa-sync', run: () => this.syncPendingOperations() },
+      { id: 'team.manage', label: 'Manage Teams…', category: 'Team', icon: 'fa-users-cog', run: () => this.toggleTeamManagement() },
+      { id: 'ai.reformat', label: 'Reformat Selection', category: 'AI', icon: 'fa-magic', isAvailable: hasSelection, run: runAi('reformat') },
+      { id: 'ai.code', label: 'Generate Code from Selection', category: 'AI', icon: 'fa-code', isAvailable: hasSelection, run: runAi('code') },
+      { id: 'ai.mermaid', label: 'Create Diagram from Selection', category: 'AI', icon: 'fa-project-diagram', keywords: ['mermaid'], isAvailable: hasSelection, run: runAi('mermaid') }
+    ));
+
+    this.unregisterCommands.push(this.slashCommands.register(
+      { id: 'image', label: 'Image', description: 'Upload a picture', keywords: ['picture', 'photo', 'upload'], run: () => this.imageUploader?.openFilePicker() }
+    ));
+  }
+
+  /**
+   * Opens the quick-open palette with the recent notes up to date
+   */
+  openQuickOpen(): void {
+    this.loadRecentFiles();
+    this.isQuickOpenOpen = true;
+  }
+
+  /**
+   * Opens a note chosen in the quick-open palette
+   */
+  openFromQuickOpen(file: FileInfo): void {
+    this.isQuickOpenOpen = false;
+    if (this.fileService.filesInDirectory.includes(file)) {
+      this.showOpenedFile(file);
+    } else {
+      this.openFileAndSwitchToNotes(file);
+    }
+  }
+
+  /**
+   * Sends the open file's edits to the windows showing it
+   */
+  private syncNoteWindows(): void {
+    const currentFile = this.fileService.currentFile;
+    if (!currentFile || !this.notesInWindows.has(currentFile.path)) {
+      return;
+    }
+
+    this.processImagesForSavingAsync(this.markdownContent).subscribe(content => {
+      this.electronService.syncNote(currentFile.path, content);
+    });
+  }
+
+  /**
+   * Opens the current file in its own window
+   */
+  openInNewWindow(): void {
+    const currentFile = this.fileService.currentFile;
+    if (!currentFile) {
+      this.notificationService.info('Open a note first');
+      return;
+    }
+
+    this.processImagesForSavingAsync(this.markdownContent).pipe(
+      switchMap(content => this.electronService.openNoteWindow({ path: currentFile.path, name: currentFile.name, content }))
+    ).subscribe(result => {
+      if (!result.success) {
+        this.notificationService.error(`Could not open a window: ${result.message}`);
+      }
+    });
+  }
+
+  /**
+   * Tracks the offline journal and surfaces what happens when it is replayed
+   */
+  private subscribeToOfflineQueue(): void {
+    this.offlineSubscriptions = [
+      this.offlineQueue.pendingCount$.subscribe(count => this.pendingOperationCount = count),
+      this.offlineQueue.held$.subscribe(held => this.heldOperationCount = held.length),
+      this.offlineQueue.online$.subscribe(online => this.isOnline = online),
+      this.offlineQueue.merged$.subscribe(merged => this.onReplayMerged(merged))
+    ];
+  }
+
+  /**
+   * Sends journaled operations to the server now, and lists those held back
+   */
+  syncPendingOperations(): void {
+    if (this.heldOperationCount > 0) {
+      this.showSyncIssues = true;
+    }
+    if (!this.isOnline) {
+      this.notificationService.info(`${this.pendingOperationCount} change(s) will sync when you are back online`);
+      return;
+    }
+    this.offlineQueue.replay().subscribe();
+  }
+
+  /**
+   * Shows content merged during replay if it belongs to the open file
+   */
+  private onReplayMerged(merged: ReplayedContent): void {
+    if (this.fileService.currentFile?.name !== merged.fileName) {
+      return;
+    }
+
+    this.markdownContent = this.processImagesForEditing(merged.content);
+    this.previewContent = this.processImagesForPreview(this.markdownContent);
+    this.collaboration.updateLocalText(this.markdownContent);
+    this.authorship.syncText(this.markdownContent);
+    this.notificationService.info(`${merged.fileName} was merged with changes made on the server`);
+  }
+
+  /**
+   * Listens for edits, cursors and shared images from collaborators
+   */
+  private subscribeToCollaboration(): void {
+    this.collaborationSubscriptions = [
+      this.collaboration.remoteChanges$.subscribe(update => this.applyRemoteUpdate(update)),
+      this.collaboration.participants$.subscribe(participants => {
+        const joined = participants.some(p => !this.collaborators.some(c => c.peerId === p.peerId));
+        this.collaborators = participants;
+
+        // Keep presence colours in the shared user colour map
+        participants.forEach(p => {
+          if (!this.userColors[p.userId]) {
+            this.userColors = { ...this.userColors, [p.userId]: p.color };
+          }
+        });
+
+        // Newcomers need the image data behind our placeholders
+        if (joined) {
+          this.collaboration.shareAssets(this.imageReplacements);
+        }
+      }),
+      this.collaboration.assets$.subscribe(assets => {
+        this.imageReplacements = { ...this.imageReplacements, ...assets };
+        this.contentChangeSubject.next(this.markdownContent);
+      }),
+      this.authorship.spans$.subscribe(spans => {
+        this.authorshipSpans = spans;
+
+        // Authors who have left still need their colour in the preview
+        const recorded = this.authorship.metadata?.userColors || {};
+        const missing = Object.keys(recorded).filter(userId => !this.userColors[userId]);
+        if (missing.length > 0) {
+          const added: Record<string, string> = {};
+          missing.forEach(userId => added[userId] = recorded[userId]);
+          this.userColors = { ...this.userColors, ...added };
+        }
+      })
+    ];
+  }
+
+  /**
+   * Starts recording who edits the opened file, attributing local edits to the signed-in user
+   * @param file The file that was opened
+   */
+  private startAuthorship(file: FileInfo): void {
+    const user = this.collaboration.localUserInfo;
+    this.authorship.open(file.path, this.markdownContent, {
+      userId: user.userId,
+      username: user.name,
+      color: this.collaboration.colorFor(user.userId)
+    });
+  }
+
+  /**
+   * Joins the live editing session for a team file
+   * @param file The file that was opened
+   */
+  private startCollaboration(file: FileInfo): void {
+    const teamId = file.team_id || this.currentTeam?.id;
+    if (!teamId) {
+      this.collaboration.leave();
+      return;
+    }
+
+    this.collaboration.join(teamId, file.name, this.markdownContent, this.userColors);
+  }
+
+  /**
+   * Applies collaborators' edits to the editor; the editor keeps the local selection in place
+   * @param update Text update from the collaboration session
+   */
+  private applyRemoteUpdate(update: RemoteTextUpdate): void {
+    if (update.author) {
+      this.authorship.recordRemoteChanges(update.changes, {
+        userId: update.author.userId,
+        username: update.author.name,
+        color: this.collaboration.colorFor(update.author.userId)
+      });
+    } else {
+      this.authorship.syncText(update.text);
+    }
+
+    this.markdownContent = update.text;
+    this.contentChangeSubject.next(update.text);
+  }
+
+  /**
+   * Passes an edit made in the local editor to collaborators and the authorship record
+   * @param text Full editor text after the edit
+   */
+  private publishLocalEdit(text: string): void {
+    this.collaboration.updateLocalText(text);
+    this.authorship.recordLocalEdit(text);
+    this.markCurrentDocumentDirty();
+
+    const file = this.fileService.currentFile;
+    if (file) {
+      this.autosave.bufferChanged(file, text, this.imageReplacements, file.team_id || this.currentTeam?.id);
+    }
+  }
+
+  private markCurrentDocumentDirty(): void {
+    if (this.fileService.currentFile) {
+      this.openDocuments.markDirty(this.fileService.currentFile.path);
+    }
+  }
+
+  private markCurrentDocumentSaved(): void {
+    if (this.fileService.currentFile) {
+      this.openDocuments.markSaved(this.fileService.currentFile.path);
+      this.autosave.markSaved(this.fileService.currentFile.path);
+    }
+  }
+
+  /**
+   * Shares the local caret/selection with collaborators
+   */
+  onEditorSelectionChange(selection: EditorRange): void {
+    this.collaboration.updateLocalSelection(selection.start, selection.end);
+  }
+
+  /**
+   * Scrolls the preview along with the editor in split mode
+   */
+  onEditorScrolled(line: number): void {
+    if (this.viewMode === 'split') {
+      this.previewView?.scrollToLine(line);
+    }
+  }
+
+  /**
+   * Scrolls the editor along with the preview in split mode
+   */
+  onPreviewScrolled(line: number): void {
+    if (this.viewMode === 'split') {
+      this.markdownEditor?.scrollToLine(line);
+    }
+  }
+
+  /**
+   * Moves the editor caret to the source of a block clicked in the preview
+   */
+  onPreviewLineClicked(line: number): void {
+    if (this.viewMode !== 'preview') {
+      this.markdownEditor?.placeCaretOnLine(line);
+    }
   }
 
   toggleLeftSidebar(): void {
     this.isLeftSidebarOpen = !this.isLeftSidebarOpen;
   }
 
+  /** Names of the notes in the unsaved changes prompt */
+  get unsavedPromptFileNames(): string[] {
+    return this.unsavedPrompt ? this.unsavedPrompt.documents.map(document => document.file.name) : [];
+  }
+
+  /** The tab of the note shown in the editor */
+  get currentDocument(): OpenDocument | null {
+    const path = this.fileService.currentFile?.path;
+    return path ? this.openDocuments.find(path) : null;
+  }
+
   toggleRightSidebar(): void {
     this.isRightSidebarOpen = !this.isRightSidebarOpen;
   }
 
+  toggleHistoryPanel(): void {
+    if (!this.isHistoryPanelOpen && !this.fileService.currentFile) {
+      this.notificationService.info('Open a file to see its history');
+      return;
+    }
+    this.isHistoryPanelOpen = !this.isHistoryPanelOpen;
+  }
+
+  toggleBacklinksPanel(): void {
+    if (!this.isBacklinksPanelOpen && !this.fileService.currentFile) {
+      this.notificationService.info('Open a file to see the notes linking to it');
+      return;
+    }
+    this.isBacklinksPanelOpen = !this.isBacklinksPanelOpen;
+    if (this.isBacklinksPanelOpen) {
+      this.updateBacklinks();
+    }
+  }
+
+  /**
+   * Lists the notes linking to the open note, indexing notes not read yet
+   */
+  private updateBacklinks(): void {
+    const file = this.fileService.currentFile;
+    if (!file) {
+      this.backlinks = [];
+      return;
+    }
+
+    this.isLoadingBacklinks = true;
+    this.searchService.refresh(this.teams).subscribe({
+      next: () => {
+        // Another note may have been opened while reading
+        if (this.fileService.currentFile?.path === file.path) {
+          this.backlinks = this.searchService.backlinks(file);
+        }
+        this.isLoadingBacklinks = false;
+      },
+      error: error => {
+        console.error('Error listing backlinks:', error);
+        this.isLoadingBacklinks = false;
+      }
+    });
+  }
+
+  /**
+   * Opens a note linking to the open note at its link
+   */
+  openBacklink(backlink: Backlink): void {
+    this.openNoteAt(backlink.id, backlink.name, backlink.line);
+  }
+
+  /**
+   * Opens the note a `[[link]]` in the preview points at, at its heading if it has one
+   */
+  openWikiLink(link: Pick<WikiLink, 'target' | 'heading'>): void {
+    const file = resolveWikiLink(link.target, this.fileService.filesInDirectory);
+    if (!file) {
+      this.notificationService.info(`There is no note named ${link.target} yet`);
+      return;
+    }
+
+    if (!link.heading) {
+      this.showOpenedFile(file);
+      return;
+    }
+
+    this.fileService.readNote(file).subscribe(content => {
+      const line = content === null ? null : headingLine(this.processImagesForEditing(content), link.heading!);
+      this.showOpenedFile(file, line ?? undefined);
+    });
+  }
+
+  openExportDialog(): void {
+    if (!this.fileService.currentFile) {
+      this.notificationService.info('Open a file to export it');
+      return;
+    }
+    this.exportDialogMode = 'export';
+    this.isExportDialogOpen = true;
+  }
+
+  /**
+   * Opens the export dialog for sending the open note to another app
+   */
+  openShareDialog(): void {
+    if (!this.fileService.currentFile) {
+      this.notificationService.info('Open a file to share it');
+      return;
+    }
+    this.exportDialogMode = 'share';
+    this.isExportDialogOpen = true;
+  }
+
+  closeExportDialog(): void {
+    if (!this.isExporting) {
+      this.isExportDialogOpen = false;
+    }
+  }
+
+  /**
+   * Exports the open file in the format chosen in the export dialog, or
+   * shares it when the dialog was opened for sharing. PDFs are made from the
+   * rendered preview, the other formats from the markdown with its images
+   * embedded.
+   * @param request Format and options chosen in the export dialog
+   */
+  exportNote(request: ExportRequest): void {
+    const file = this.fileService.currentFile;
+    const element = this.previewView?.renderedElement;
+    if (!file || (request.format === 'pdf' && !element)) {
+      this.notificationService.error('Nothing to export');
+      return;
+    }
+
+    const share = this.exportDialogMode === 'share';
+    const export$ = request.format === 'pdf'
+      ? this.pdfExportService.exportToPdf(element!, file.name, request.pdfOptions, share)
+      : this.processImagesForSavingAsync(this.markdownContent).pipe(
+          switchMap(markdown => this.exportService.exportNote(markdown, file.name, request.format as DocumentExportFormat, share))
+        );
+
+    this.isExporting = true;
+    export$.subscribe(exported => {
+      this.isExporting = false;
+      if (exported) {
+        this.isExportDialogOpen = false;
+      }
+    });
+  }
+
+  /**
+   * Turns the first waiting share into a new note in the current folder
+   */
+  createNoteFromShare(): void {
+    const share = this.sharedContents.shift();
+    if (!share) {
+      return;
+    }
+
+    const existingNames = this.fileService.filesInDirectory.map(file => file.name);
+    this.createNewFileWithName(sharedNoteName(share, existingNames), sharedContentToMarkdown(share));
+  }
+
+  /**
+   * Appends the first waiting share to the end of the open note
+   */
+  appendShareToNote(): void {
+    const share = this.sharedContents.shift();
+    const file = this.fileService.currentFile;
+    if (!share || !file) {
+      return;
+    }
+
+    // Shared images get placeholders like uploaded ones, next to those of the note
+    const existing = this.imageReplacements;
+    const appended = this.processImagesForEditing(sharedContentToMarkdown(share));
+    const added = this.imageReplacements;
+    this.imageReplacements = { ...existing, ...added };
+
+    const separator = this.markdownContent.trim() ? '\n\n' : '';
+    this.markdownContent = `${this.markdownContent.replace(/\s+$/, '')}${separator}${appended}\n`;
+    this.publishLocalEdit(this.markdownContent);
+    if (Object.keys(added).length > 0) {
+      this.collaboration.shareAssets(added);
+    }
+    this.contentChangeSubject.next(this.markdownContent);
+
+    this.notificationService.success(`Added the shared content to ${file.name}. Save to keep it.`);
+  }
+
+  /**
+   * Drops the first waiting share
+   */
+  discardShare(): void {
+    this.sharedContents.shift();
+  }
+
+  openImportDialog(): void {
+    this.isImportDialogOpen = true;
+  }
+
+  closeImportDialog(): void {
+    this.isImportDialogOpen = false;
+  }
+
+  /**
+   * Where imported notes are written: the team directory in a team, otherwise the current directory
+   */
+  get importDestination(): string {
+    const activeTeam = this.teamService.activeTeam;
+    if (activeTeam) {
+      return this.teamService.getTeamDirectory(activeTeam.id) || `team "${activeTeam.name}"`;
+    }
+    return this.fileService.currentDirectory || '';
+  }
+
+  onNotesImported(): void {
+    this.isImportDialogOpen = false;
+    this.loadAllNotes();
+  }
+
+  /**
+   * Shows or hides who last changed each block of the preview
+   */
+  toggleBlameMode(): void {
+    if (!this.isBlameMode && !this.fileService.currentFile) {
+      this.notificationService.info('Open a file to see who changed it');
+      return;
+    }
+
+    this.isBlameMode = !this.isBlameMode;
+    if (this.isBlameMode) {
+      this.loadBlame();
+    } else {
+      this.blame = null;
+      this.blameBase = null;
+    }
+  }
+
+  /**
+   * Opens the history panel on the changes made by a version
+   * @param versionId The version picked in the blame view
+   */
+  onBlameDiffRequested(versionId: string): void {
+    this.isHistoryPanelOpen = true;
+
+    // The panel may only just have been created
+    setTimeout(() => this.versionHistory?.showChanges(versionId), 0);
+  }
+
+  /**
+   * Fetches the version history of the open file for blame mode
+   */
+  private loadBlame(): void {
+    const file = this.fileService.currentFile;
+    if (!file) {
+      this.blame = null;
+      return;
+    }
+
+    this.versionControl.getBlameRevisions(file.name).subscribe({
+      next: revisions => {
+        if (!this.isBlameMode || this.fileService.currentFile?.name !== file.name) {
+          return;
+        }
+        const diff = (oldText: string, newText: string) => this.mergeService.diffLines(oldText, newText);
+        this.blameBase = blameHistory(revisions.map(revision => ({
+          ...revision,
+          content: this.toImagePlaceholders(revision.content, {})
+        })), diff);
+        this.updateBlame();
+      },
+      error: error => {
+        console.error('❌ Error loading blame:', error);
+        this.notificationService.error('Could not load the version history for blame');
+        this.isBlameMode = false;
+        this.blame = null;
+      }
+    });
+  }
+
+  /**
+   * Attributes the current editor lines to versions
+   */
+  private updateBlame(): void {
+    this.blame = this.blameBase && blameEdits(this.blameBase, this.markdownContent,
+      (oldText, newText) => this.mergeService.diffLines(oldText, newText));
+  }
+
+  /**
+   * Loads restored version content into the editor
+   * @param content Content of the restored version
+   */
+  onVersionRestored(content: string): void {
+    this.markdownContent = this.processImagesForEditing(content);
+    this.previewContent = this.processImagesForPreview(this.markdownContent);
+    this.authorship.recordLocalEdit(this.markdownContent);
+    this.markCurrentDocumentDirty();
+
+    if (this.isBlameMode) {
+      this.loadBlame();
+    }
+  }
+
   openAuthModal(): void {
     this.isAuthModalOpen = true;
   }
@@ -382,14 +1465,27 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
       if (dirPath) {
         this.notificationService.success(`Directory selected: ${dirPath}`);
         // After selecting a directory, clear the current file list and show only files in the selected directory
-        this.markdownContent = ''; // Clear current content
-        this.fileService.currentFile = null; // Clear current file reference
+        // Tabs of the previous directory stay open with their edits
+        this.rememberEditorState();
+        this.clearEditor();
         this.loadAllNotes(); // Refresh the file list from the new directory
       }
     });
   }
 
-  openFile(file: FileInfo): void {
+  /**
+   * Opens a note in the editor
+   * @param line Line to put the caret on once it's loaded, counted from 0
+   */
+  openFile(file: FileInfo, line?: number): void {
+    // Notes already open in a tab keep their unsaved edits
+    const open = this.openDocuments.find(file.path);
+    if (open) {
+      this.showDocument(open, line);
+      return;
+    }
+
+    this.rememberEditorState();
     this.isLoading = true;
     this.statusMessage = `Opening ${file.name}...`;
 
@@ -400,10 +1496,27 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
 
         // Initialize preview content immediately for the newly opened file
         this.previewContent = this.processImagesForPreview(this.markdownContent);
+        this.openDocuments.open(file, this.markdownContent, this.imageReplacements);
+        this.autosave.track(file, this.markdownContent);
+
+        this.startAuthorship(file);
+        this.startCollaboration(file);
+
+        if (this.isBlameMode) {
+          this.loadBlame();
+        }
 
         this.isLoading = false;
         this.statusMessage = '';
         this.notificationService.info(`Opened ${file.name}`);
+
+        if (line !== undefined) {
+          this.revealLine(line);
+        }
+
+        if (this.isBacklinksPanelOpen) {
+          this.updateBacklinks();
+        }
       },
       error: (error) => {
         console.error('Error opening file:', error);
@@ -414,12 +1527,26 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     });
   }
 
-  saveCurrentFile(): void {
+  /**
+   * Saves the open note
+   * @param onSaved Called once the note is saved
+   */
+  saveCurrentFile(onSaved?: () => void): void {
     if (!this.markdownContent) {
       this.notificationService.info('Nothing to save');
       return;
     }
 
+    // The tab saved is the one shown now, even if another is shown by the time saving ends
+    const path = this.fileService.currentFile?.path;
+    const saved = () => {
+      if (path) {
+        this.openDocuments.markSaved(path);
+        this.autosave.markSaved(path);
+      }
+      onSaved?.();
+    };
+
     this.isLoading = true;
     this.statusMessage = 'Processing images...';
 
@@ -439,13 +1566,13 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
         }
 
         this.statusMessage = 'Saving file...';
-        this.continueFileSave(contentToSave);
+        this.continueFileSave(contentToSave, saved);
       } else {
         // For documents with multiple images, use the async processing approach
         this.processImagesForSavingAsync(this.markdownContent).subscribe({
           next: (contentToSave) => {
             this.statusMessage = 'Saving file...';
-            this.continueFileSave(contentToSave);
+            this.continueFileSave(contentToSave, saved);
           },
           error: (error) => {
             console.error('Error processing images for save:', error);
@@ -462,7 +1589,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
    * Continue file save after image processing is complete
    * This is extracted to a separate method to support asynchronous image processing
    */
-  private continueFileSave(contentToSave: string): void {
+  private continueFileSave(contentToSave: string, onSaved: () => void): void {
 
     // Check if we're running in Electron
     const isElectron = this.electronService.isElectron();
@@ -498,7 +1625,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
                   console.log(`Team directory set to: ${teamDirectory}`);
 
                   // Now try saving again with the new directory
-                  setTimeout(() => this.saveCurrentFile(), 500);
+                  setTimeout(() => this.saveCurrentFile(onSaved), 500);
                 });
               } else {
                 this.notificationService.warning('File save cancelled - no team directory selected');
@@ -523,16 +1650,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
           // Ensure file has proper path in team directory
           const fileName = currentFile.name || 'untitled.md';
 
-          // Use path.join if available
-          let savePath: string;
-          try {
-            // Try to use native path module if available
-            const nodePath = (window as any).require('path');
-            savePath = nodePath.join(teamDirectory, fileName);
-          } catch (e) {
-            // Fallback to simple concatenation
-            savePath = `${teamDirectory}/${fileName}`;
-          }
+          const savePath = `${teamDirectory}/${fileName}`;
 
           console.log(`Saving to team path: ${savePath}`);
 
@@ -542,6 +1660,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
               this.isLoading = false;
               this.statusMessage = '';
               this.notificationService.success('File saved successfully');
+              onSaved();
               // Refresh to make sure the file is visible in directory
               this.loadAllNotes();
             },
@@ -568,6 +1687,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
             this.isLoading = false;
             this.statusMessage = '';
             this.notificationService.success('File saved successfully');
+            onSaved();
             // Refresh to make sure the file is visible in directory
             this.loadAllNotes();
           },
@@ -600,6 +1720,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
             this.isLoading = false;
             this.statusMessage = '';
             this.notificationService.success('File saved successfully');
+            onSaved();
             this.loadAllNotes();
           },
           error: (error) => {
@@ -616,6 +1737,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
             this.isLoading = false;
             this.statusMessage = '';
             this.notificationService.success('File saved successfully');
+            onSaved();
             // Refresh after save to ensure file list is updated
             this.loadAllNotes();
           },
@@ -634,6 +1756,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
           this.isLoading = false;
           this.statusMessage = '';
           this.notificationService.success('File saved successfully');
+          onSaved();
 
           // Make sure the file list is refreshed if this was a new file
           this.loadAllNotes();
@@ -648,6 +1771,37 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Saves the current file under a new name or location
+   */
+  saveCurrentFileAs(): void {
+    if (!this.fileService.currentFile && !this.markdownContent) {
+      this.notificationService.info('Nothing to save');
+      return;
+    }
+
+    this.isLoading = true;
+    this.statusMessage = 'Saving file...';
+    this.processImagesForSavingAsync(this.markdownContent).pipe(
+      switchMap(content => this.fileService.saveFile(content, undefined, true))
+    ).subscribe({
+      next: () => {
+        this.isLoading = false;
+        this.statusMessage = '';
+        this.notificationService.success('File saved successfully');
+        this.markCurrentDocumentSaved();
+        this.loadAllNotes();
+      },
+      error: (error) => {
+        this.isLoading = false;
+        this.statusMessage = '';
+        if (error?.message !== 'Save cancelled') {
+          this.notificationService.error(`Error saving file: ${error.message}`);
+        }
+      }
+    });
+  }
+
   addNewFile(): void {
     // First prompt for file name
     if (this.electronService.isElectron()) {
@@ -666,7 +1820,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
   }
 
   // Helper method to create a file with a specified name
-  private createNewFileWithName(fileName: string): void {
+  private createNewFileWithName(fileName: string, initialContent: string = ''): void {
     this.isLoading = true;
     this.statusMessage = `Creating new file ${fileName}...`;
 
@@ -692,11 +1846,11 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
               this.teamService.setTeamDirectory(activeTeam, result.dirPath).subscribe(() => {
                 // After setting directory, proceed with file creation
                 this.notificationService.success(`Set local directory for team "${activeTeam.name}": ${result.dirPath}`);
-                this.continueCreateFile(fileName);
+                this.continueCreateFile(fileName, initialContent);
               });
             } else {
               this.notificationService.warning('Team directory selection cancelled. File will be created in default location.');
-              this.continueCreateFile(fileName);
+              this.continueCreateFile(fileName, initialContent);
             }
           },
           error: err => {
@@ -711,20 +1865,18 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     }
 
     // If not in a team or team already has a directory, proceed with file creation
-    this.continueCreateFile(fileName);
+    this.continueCreateFile(fileName, initialContent);
   }
 
   // Helper method to continue file creation after team directory checks
-  private continueCreateFile(fileName: string): void {
-    this.fileService.addNewFile(fileName, '').subscribe({
+  private continueCreateFile(fileName: string, initialContent: string = ''): void {
+    this.fileService.addNewFile(fileName, initialContent).subscribe({
       next: () => {
         // Refresh list and open the new file
         this.fileService.refreshFileList();
         const newFile = this.fileService.filesInDirectory[this.fileService.filesInDirectory.length - 1];
         this.openFile(newFile);
 
-        // Set the new file as the active tab
-        this.activeTabIndex = this.fileService.filesInDirectory.length - 1;
         // Update allFiles for the Notes tab
         this.loadAllNotes();
         this.isLoading = false;
@@ -748,35 +1900,68 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
   }
 
   renameFile(file: FileInfo): void {
-    // Use Electron's showPrompt if available, otherwise use a simple approach
-    if (this.electronService.isElectron()) {
-      this.electronService.showPrompt('Rename File', 'Enter new file name:', file.name).subscribe(newName => {
-        if (newName && newName !== file.name) {
-          this.doRenameFile(file, newName);
-        }
-      });
-    } else {
-      // Fallback for browser (should never be used in Electron)
-      const newName = window.prompt('Enter new file name:', file.name);
-      if (newName && newName !== file.name) {
-        this.doRenameFile(file, newName);
+    // Files keep their folder; moving them is done by dragging
+    this.askForName('Rename File', 'Enter new file name:', baseName(file.name)).subscribe(newName => {
+      if (newName && newName !== baseName(file.name)) {
+        this.doRenameFile(file, joinPath(parentFolder(file.name), newName));
       }
-    }
+    });
+  }
+
+  /**
+   * Asks for a name, using the native prompt in Electron
+   * @returns Observable of the trimmed name, or null if cancelled or invalid
+   */
+  private askForName(title: string, message: string, defaultValue: string = ''): Observable<string | null> {
+    const answer = this.electronService.isElectron()
+      ? this.electronService.showPrompt(title, message, defaultValue)
+      : of(window.prompt(message, defaultValue));
+
+    return answer.pipe(map(name => {
+      if (name === null || name === undefined || name.trim() === defaultValue) {
+        return null;
+      }
+
+      const error = validateName(name);
+      if (error) {
+        this.notificationService.error(error);
+        return null;
+      }
+      return name.trim();
+    }));
   }
 
   private doRenameFile(file: FileInfo, newName: string): void {
     this.isLoading = true;
     this.statusMessage = `Renaming file to ${newName}...`;
+    const oldName = file.name;
+    const notes = this.fileService.filesInDirectory.filter(note => (note.team_id ?? null) === (file.team_id ?? null));
 
     this.fileService.renameFile(file, newName).subscribe({
       next: () => {
+        // The service rewrites links in the other notes; the open one may have unsaved edits
+        const relinked = renameWikiLinks(this.markdownContent, oldName, newName, notes);
+        if (relinked !== this.markdownContent) {
+          this.markdownContent = relinked;
+          this.publishLocalEdit(relinked);
+          this.contentChangeSubject.next(relinked);
+        }
+
+        // So may the notes in the other tabs
+        this.openDocuments.documents
+          .filter(document => document.file.path !== this.fileService.currentFile?.path)
+          .forEach(document => this.openDocuments.update(document.file.path, {
+            content: renameWikiLinks(document.content, oldName, newName, notes)
+          }));
+
         // If in Electron mode with a directory and file doesn't exist on disk yet,
         // save it after renaming to ensure it's on disk
         if (this.electronService.isElectron() && this.fileService.currentDirectory) {
           // Get the renamed file from the file list
           const renamedFile = this.fileService.filesInDirectory.find(f => f.name === newName);
 
-          if (renamedFile) {
+          // Only the open note's editor content belongs in it
+          if (renamedFile && renamedFile.path === this.fileService.currentFile?.path) {
             console.log('Saving renamed file to disk:', renamedFile.path);
             // Set as current file and save it to disk
             this.fileService.currentFile = renamedFile;
@@ -790,6 +1975,10 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
         // Also update allFiles for the Notes tab
         this.loadAllNotes();
 
+        if (this.isBacklinksPanelOpen) {
+          this.updateBacklinks();
+        }
+
         this.isLoading = false;
         this.statusMessage = '';
         this.notificationService.success(`File renamed to ${newName}`);
@@ -803,9 +1992,9 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     });
   }
 
-  onEditorChange(event: Event): void {
-    const newContent = (event.target as HTMLTextAreaElement).value;
+  onEditorChange(newContent: string): void {
     this.markdownContent = newContent;
+    this.publishLocalEdit(newContent);
 
     // Feed the content to our debounced subject instead of processing immediately
     this.contentChangeSubject.next(newContent);
@@ -816,9 +2005,6 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
    * @param event The mouse event
    */
   onEditorContextMenu(event: MouseEvent): void {
-    // Store reference to editor element
-    this.editorElement = event.target as HTMLTextAreaElement;
-
     // Get selected text
     const selectedText = this.getSelectedText();
 
@@ -837,9 +2023,6 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
    * @param event The touch event
    */
   onEditorTouchStart(event: TouchEvent): void {
-    // Store reference to editor element
-    this.editorElement = event.target as HTMLTextAreaElement;
-
     this.touchStartTime = Date.now();
     this.isTouchMoved = false;
 
@@ -875,29 +2058,12 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     clearTimeout(this.longPressTimeout);
   }
 
-  /**
-   * Handles mouseup events (to detect selected text on desktop)
-   */
-  onEditorMouseUp(event: MouseEvent): void {
-    // Store reference to editor element
-    this.editorElement = event.target as HTMLTextAreaElement;
-  }
-
   /**
    * Gets selected text from the editor
    * @returns The selected text or empty string
    */
   private getSelectedText(): string {
-    if (!this.editorElement) return '';
-
-    const start = this.editorElement.selectionStart;
-    const end = this.editorElement.selectionEnd;
-
-    if (start !== end) {
-      return this.editorElement.value.substring(start, end);
-    }
-
-    return '';
+    return this.markdownEditor?.getSelectedText() ?? '';
   }
 
   /**
@@ -979,21 +2145,8 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
    * @param newText The new text to replace the selection
    */
   private replaceSelectedTextWith(newText: string): void {
-    if (!this.editorElement) return;
-
-    const start = this.editorElement.selectionStart;
-    const end = this.editorElement.selectionEnd;
-    const currentText = this.editorElement.value;
-
-    // Replace the selected text
-    const updatedText = currentText.substring(0, start) + newText + currentText.substring(end);
-    this.markdownContent = updatedText;
-
-    // Update cursor position
-    setTimeout(() => {
-      this.editorElement.focus();
-      this.editorElement.setSelectionRange(start + newText.length, start + newText.length);
-    }, 0);
+    // The edit comes back through onEditorChange like typed text
+    this.markdownEditor?.replaceSelection(newText);
   }
 
   /**
@@ -1001,20 +2154,9 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
    * @param textToInsert The text to insert
    */
   private insertAfterSelectedText(textToInsert: string): void {
-    if (!this.editorElement) return;
-
-    const end = this.editorElement.selectionEnd;
-    const currentText = this.editorElement.value;
-
-    // Insert after the selected text
-    const updatedText = currentText.substring(0, end) + textToInsert + currentText.substring(end);
-    this.markdownContent = updatedText;
+    if (!this.markdownEditor) return;
 
-    // Update cursor position
-    setTimeout(() => {
-      this.editorElement.focus();
-      this.editorElement.setSelectionRange(end + textToInsert.length, end + textToInsert.length);
-    }, 0);
+    this.markdownEditor.insert(textToInsert, this.markdownEditor.getSelection().end);
   }
 
   /**
@@ -1032,38 +2174,24 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
    * @param result - The image upload result containing the markdown text to insert
    */
   handleImageUpload(result: ImageUploadResult): void {
-    if (!this.editorElement) {
+    if (!this.markdownEditor) {
       console.error('Editor element not found');
       return;
     }
 
-    // Get current cursor position
-    const cursorPosition = this.editorElement.selectionStart;
-    const currentText = this.markdownContent;
-
-    // Insert the friendly placeholder in the editor
-    this.markdownContent =
-      currentText.substring(0, cursorPosition) +
-      '\n\n' + result.markdownText + '\n\n' +
-      currentText.substring(cursorPosition);
-
     // Store the actual content with base64 data
     if (result.actualContent) {
-      // Simply store the mapping between placeholder and actual content
+      // Simply store the mapping between placeholder and actual content, before the
+      // placeholder goes into the text so the preview already shows the image
       this.imageReplacements[result.markdownText] = result.actualContent;
-
-      // Trigger a debounced preview update to show the image
-      this.contentChangeSubject.next(this.markdownContent);
+      this.collaboration.shareAssets({ [result.markdownText]: result.actualContent });
 
       console.log(`Image placeholder created for ${Math.round(result.file.size / 1024)}KB image`);
     }
 
-    // Update cursor position after the inserted image
-    setTimeout(() => {
-      this.editorElement.focus();
-      const newPosition = cursorPosition + result.markdownText.length + 4; // Account for newlines
-      this.editorElement.setSelectionRange(newPosition, newPosition);
-    }, 0);
+    // Insert the friendly placeholder at the caret; the edit comes back through onEditorChange
+    const cursorPosition = this.markdownEditor.getSelection().start;
+    this.markdownEditor.insert('\n\n' + result.markdownText + '\n\n', cursorPosition);
 
     this.notificationService.success(
       `Image added (${Math.round(result.file.size / 1024)}KB)`
@@ -1074,40 +2202,240 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     return this.authService.isAuthenticated();
   }
 
-  // Methods to handle tab interactions
-  closeTab(index: number): void {
-    // Logic to close a tab
-    if (this.fileService.filesInDirectory.length > 1) {
-      const fileToClose = this.fileService.filesInDirectory[index];
+  /**
+   * Shows the note of a tab
+   */
+  switchTab(document: OpenDocument): void {
+    if (this.fileService.currentFile?.path !== document.file.path) {
+      this.showDocument(document);
+    }
+  }
+
+  /**
+   * Closes a tab, asking first whether to save its unsaved edits
+   */
+  closeTab(document: OpenDocument): void {
+    if (document.dirty) {
+      this.rememberEditorState();
+      this.unsavedPrompt = { documents: [document], closesWindow: false };
+      return;
+    }
+    this.closeDocument(document);
+  }
+
+  moveTab(move: DocumentTabMove): void {
+    this.openDocuments.move(move.fromIndex, move.toIndex);
+  }
 
-      // Implement logic to close the file
-      console.log('Closing tab:', fileToClose.name);
+  togglePinTab(document: OpenDocument): void {
+    this.openDocuments.togglePin(document.file.path);
+  }
 
-      // If the closed tab is the active one, switch to another tab
-      if (index === this.activeTabIndex) {
-        // Switch to the previous tab if available, otherwise the next one
-        const newIndex = index > 0 ? index - 1 : 0;
-        this.switchTab(newIndex);
-      } else if (index < this.activeTabIndex) {
-        // If we're closing a tab before the active one, adjust the active index
-        this.activeTabIndex--;
-      }
+  /**
+   * Saves the tabs waiting in the unsaved changes prompt, then closes them
+   */
+  saveUnsavedDocuments(): void {
+    const prompt = this.unsavedPrompt;
+    this.unsavedPrompt = null;
+    if (prompt) {
+      this.saveDocuments(prompt.documents, () => this.finishClosing(prompt));
+    }
+  }
+
+  /**
+   * Closes the tabs waiting in the unsaved changes prompt without saving them
+   */
+  discardUnsavedDocuments(): void {
+    const prompt = this.unsavedPrompt;
+    this.unsavedPrompt = null;
+    if (prompt) {
+      prompt.documents.forEach(document => this.autosave.discard(document.file.path));
+      this.finishClosing(prompt);
+    }
+  }
+
+  cancelClosing(): void {
+    this.unsavedPrompt = null;
+  }
+
+  /**
+   * Reopens a note with the edits recovered from the last session, unsaved
+   */
+  restoreBuffer(buffer: AutosaveBuffer): void {
+    this.autosave.restore(buffer.path);
+    this.recoveryBuffers = this.autosave.recoverableBuffers;
+
+    const file = this.fileService.filesInDirectory.find(entry => entry.path === buffer.path)
+      ?? { path: buffer.path, name: buffer.name, team_id: buffer.teamId };
+
+    this.rememberEditorState();
+    const document = this.openDocuments.open(file, buffer.content, buffer.images);
+    this.openDocuments.update(file.path, { content: buffer.content, images: { ...buffer.images } });
+    this.openDocuments.markDirty(file.path);
+
+    // Showing the note again would keep the text on screen over the recovered one
+    if (this.fileService.currentFile?.path === file.path) {
+      this.fileService.currentFile = null;
+    }
+    this.showDocument(document);
+  }
+
+  discardBuffer(buffer: AutosaveBuffer): void {
+    this.autosave.discard(buffer.path);
+    this.recoveryBuffers = this.autosave.recoverableBuffers;
+  }
+
+  /**
+   * Asks about the unsaved tabs before the desktop window closes
+   */
+  private onCloseRequested(): void {
+    this.rememberEditorState();
+    const documents = this.openDocuments.documents.filter(document => document.dirty);
+    if (documents.length === 0) {
+      this.electronService.confirmClose();
+      return;
+    }
+    this.unsavedPrompt = { documents, closesWindow: true };
+  }
+
+  private finishClosing(prompt: { documents: OpenDocument[]; closesWindow: boolean }): void {
+    if (prompt.closesWindow) {
+      this.electronService.confirmClose();
+      return;
+    }
+    prompt.documents.forEach(document => this.closeDocument(document));
+  }
+
+  /**
+   * Saves tabs one after the other, showing each while it's saved
+   * @param done Called once every tab is saved; not called if a save fails
+   */
+  private saveDocuments(documents: OpenDocument[], done: () => void): void {
+    const [document, ...rest] = documents;
+    if (!document) {
+      done();
+      return;
+    }
+
+    if (this.fileService.currentFile?.path !== document.file.path) {
+      this.showDocument(document);
+    }
+    this.saveCurrentFile(() => this.saveDocuments(rest, done));
+  }
+
+  /**
+   * Closes a tab without asking, showing the tab next to it if it was shown
+   */
+  private closeDocument(document: OpenDocument): void {
+    const wasShown = this.fileService.currentFile?.path === document.file.path;
+    const next = this.openDocuments.close(document.file.path);
+    if (!wasShown) {
+      return;
+    }
+
+    if (next) {
+      this.showDocument(next);
+    } else {
+      this.clearEditor();
+    }
+  }
+
+  /**
+   * Shows the active tab after the shown note went away, or another note when no tab is left
+   */
+  private showNextDocument(): void {
+    const next = this.openDocuments.active;
+    if (next) {
+      this.showDocument(next);
+    } else if (this.fileService.filesInDirectory.length > 0) {
+      this.openFile(this.fileService.filesInDirectory[0]);
+    } else {
+      this.clearEditor();
+    }
+  }
+
+  /**
+   * Shows a tab with the text, caret and scroll position it had when it was left
+   * @param line Line to show instead of the remembered position, counted from 0
+   */
+  private showDocument(document: OpenDocument, line?: number): void {
+    this.rememberEditorState();
+    // An outside change still to be resolved waits with its tab
+    if (this.diskChange && this.diskChange.file.path === this.fileService.currentFile?.path) {
+      this.openDocuments.holdDiskChange(this.diskChange);
+    }
+
+    this.openDocuments.activate(document.file.path);
+    this.fileService.currentFile = document.file;
+
+    this.markdownContent = document.content;
+    this.imageReplacements = document.images;
+    this.previewContent = this.processImagesForPreview(this.markdownContent);
+    this.diskChange = this.openDocuments.takeDiskChange(document.file.path);
+
+    this.startAuthorship(document.file);
+    this.startCollaboration(document.file);
+    if (this.isBlameMode) {
+      this.loadBlame();
+    }
+    if (this.isBacklinksPanelOpen) {
+      this.updateBacklinks();
+    }
 
-      // TODO: implement file saving and deleting
+    if (line !== undefined) {
+      this.revealLine(line);
+      return;
     }
+
+    setTimeout(() => {
+      const editor = this.markdownEditor;
+      if (editor) {
+        editor.setSelection(document.selectionStart, document.selectionEnd);
+        editor.scrollTop = document.scrollTop;
+      }
+    });
   }
 
-  switchTab(index: number): void {
-    if (index >= 0 && index < this.fileService.filesInDirectory.length) {
-      this.activeTabIndex = index;
-      this.openFile(this.fileService.filesInDirectory[index]);
+  /**
+   * Keeps the editor text, caret and scroll position of the shown tab for when it's shown again
+   */
+  private rememberEditorState(): void {
+    const path = this.fileService.currentFile?.path;
+    if (!path) {
+      return;
     }
+
+    const editor = this.markdownEditor;
+    this.openDocuments.update(path, {
+      content: this.markdownContent,
+      images: this.imageReplacements,
+      ...(editor && {
+        selectionStart: editor.getSelection().start,
+        selectionEnd: editor.getSelection().end,
+        scrollTop: editor.scrollTop
+      })
+    });
+  }
+
+  private clearEditor(): void {
+    this.markdownContent = '';
+    this.previewContent = '';
+    this.fileService.currentFile = null;
+    this.collaboration.leave();
+    this.authorship.close();
   }
 
   changeViewMode(mode: 'split' | 'editor' | 'preview'): void {
     this.viewMode = mode;
   }
 
+  /**
+   * Shows or hides the preview next to the editor
+   */
+  togglePreview(): void {
+    this.viewMode = this.viewMode === 'editor' ? 'split' : 'editor';
+  }
+
   // Tab navigation
   switchTabView(view: 'recents' | 'notes' | 'shared'): void {
     this.currentTabView = view;
@@ -1169,24 +2497,19 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     this.allFiles = this.fileService.filesInDirectory;
   }
 
-  createNewFolder(): void {
-    // Use Electron's showPrompt if available
-    if (this.electronService.isElectron()) {
-      this.electronService.showPrompt('New Folder', 'Enter folder name:').subscribe(folderName => {
-        if (folderName) {
-          this.doCreateFolder(folderName);
-        }
-      });
-    } else {
-      // Fallback for browser
-      const folderName = window.prompt('Enter folder name:');
+  /**
+   * Asks for the name of a new folder and creates it
+   * @param parent Folder to create it in; '' for the top level
+   */
+  createNewFolder(parent: string = ''): void {
+    this.askForName('New Folder', 'Enter folder name:').subscribe(folderName => {
       if (folderName) {
-        this.doCreateFolder(folderName);
+        this.doCreateFolder(folderName, parent);
       }
-    }
+    });
   }
 
-  private doCreateFolder(folderName: string): void {
+  private doCreateFolder(folderName: string, parent: string = ''): void {
     this.isLoading = true;
     this.statusMessage = `Creating folder ${folderName}...`;
 
@@ -1208,7 +2531,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
               this.teamService.setTeamDirectory(activeTeam, result.dirPath).subscribe(() => {
                 // After setting directory, proceed with folder creation
                 this.notificationService.success(`Set local directory for team "${activeTeam.name}": ${result.dirPath}`);
-                this.continueCreateFolder(folderName);
+                this.continueCreateFolder(folderName, parent);
               });
             } else {
               this.notificationService.warning('Team directory selection cancelled. Folder creation aborted.');
@@ -1228,20 +2551,16 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     }
 
     // If not in a team or team already has a directory, proceed with folder creation
-    this.continueCreateFolder(folderName);
+    this.continueCreateFolder(folderName, parent);
   }
 
   // Helper method to continue folder creation after team directory checks
-  private continueCreateFolder(folderName: string): void {
-    this.fileService.addDirectory(folderName).subscribe({
+  private continueCreateFolder(folderName: string, parent: string = ''): void {
+    this.fileService.addDirectory(folderName, parent).subscribe({
       next: () => {
         this.isLoading = false;
         this.statusMessage = '';
         this.notificationService.success(`Folder "${folderName}" created`);
-
-        // Clear the file content since we're in a new empty directory
-        this.markdownContent = '';
-        this.loadAllNotes(); // Refresh the file list to show empty directory
       },
       error: (error) => {
         console.error('Error creating folder:', error);
@@ -1258,6 +2577,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     this.teamService.getUserTeams().subscribe({
       next: (teams) => {
         this.teams = teams;
+        this.updateTeamMenu();
 
         // Get role for each team
         teams.forEach(team => {
@@ -1413,6 +2733,26 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
     this.notificationService.info(`Inviting to team: ${team.name}`);
   }
 
+  /**
+   * Switches to a team by id, or to personal notes for null
+   */
+  private switchToTeamById(teamId: string | null): void {
+    if (teamId === null) {
+      this.teamService.setActiveTeam(null).subscribe(success => {
+        if (success) {
+          this.notificationService.success('Switched to personal notes');
+          this.switchTabView('notes');
+        }
+      });
+      return;
+    }
+
+    const team = this.teams.find(entry => entry.id === teamId);
+    if (team) {
+      this.switchToTeam(team);
+    }
+  }
+
   switchToTeam(team: Team): void {
     this.teamService.setActiveTeam(team).subscribe(success => {
       if (success) {
@@ -1705,7 +3045,17 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
 
     // Clear existing replacements to avoid memory leaks when opening a new file
     this.imageReplacements = {};
+    return this.toImagePlaceholders(content, this.imageReplacements);
+  }
 
+  /**
+   * Replaces base64 images with the placeholders the editor shows for them
+   *
+   * @param content - The markdown content with base64 images
+   * @param replacements - Receives the image behind each placeholder
+   * @returns Processed content with user-friendly placeholders
+   */
+  private toImagePlaceholders(content: string, replacements: Record<string, string>): string {
     // Define a maximum size for base64 processing (helps prevent stack overflow)
     const MAX_SAFE_LENGTH = 500000; // ~500KB of text
 
@@ -1784,7 +3134,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
           const placeholder = `![${item.altText}](IMAGE:${fileSizeKB}KB:${fileName})`;
 
           // Store the replacement for later use when saving
-          this.imageReplacements[placeholder] = fullImageTag;
+          replacements[placeholder] = fullImageTag;
 
           // Replace in the content
           processedContent =
@@ -1815,7 +3165,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
         const placeholder = `![${altText}](IMAGE:${fileSizeKB}KB:${fileName})`;
 
         // Store the replacement for later use when saving
-        this.imageReplacements[placeholder] = `![${altText}](${dataUrl})`;
+        replacements[placeholder] = `![${altText}](${dataUrl})`;
 
         return placeholder;
       });
@@ -1977,23 +3327,23 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
         if (processedContent.includes(placeholder)) {
           // Handle potential Electron large image indirection
           if (isElectron && actualContent.includes(')') && !actualContent.includes('data:image/')) {
-            // Check if this is a reference to localStorage
+            // Check if this is a reference to stored image data
             const imageIdMatch = /!\[.*?\]\((img_\d+_\d+)\)/.exec(actualContent);
             if (imageIdMatch && imageIdMatch[1]) {
               const imageId = imageIdMatch[1];
               try {
-                // Try to retrieve from localStorage
-                const storedImage = localStorage.getItem(`image_data_${imageId}`);
+                // Try to retrieve from local storage
+                const storedImage = this.storage.getItem(`image_data_${imageId}`);
                 if (storedImage) {
-                  // Use localStorage content
-                  console.log(`Retrieved large image ${imageId} from localStorage for preview`);
+                  // Use stored content
+                  console.log(`Retrieved large image ${imageId} from local storage for preview`);
                   processedContent = processedContent.replace(placeholder, storedImage);
                 } else {
-                  // Fall back to placeholder if not in localStorage
+                  // Fall back to placeholder if not stored
                   processedContent = processedContent.replace(placeholder, `![${placeholder}](preview-placeholder)`);
                 }
               } catch (e) {
-                console.warn(`Error retrieving image from localStorage: ${(e as any)?.message || 'Unknown error'}`);
+                console.warn(`Error retrieving image from local storage: ${(e as any)?.message || 'Unknown error'}`);
                 processedContent = processedContent.replace(placeholder, `![${placeholder}](preview-placeholder)`);
               }
             } else {
@@ -2031,22 +3381,22 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
           let actualContent = replacement;
 
           if (replacement && replacement.startsWith('@storage:')) {
-            // Use our utility method to retrieve from localStorage
-            actualContent = this.retrieveImageFromLocalStorage(replacement);
+            // Use our utility method to retrieve from the image store
+            actualContent = this.retrieveImageFromStorage(replacement);
           }
 
           // Special handling for Electron large image indirection
           if (isElectron && actualContent.includes(')') && !actualContent.includes('data:image/')) {
-            // Check if this is a reference to localStorage
+            // Check if this is a reference to stored image data
             const imageIdMatch = /!\[.*?\]\((img_\d+_\d+)\)/.exec(actualContent);
             if (imageIdMatch && imageIdMatch[1]) {
               const imageId = imageIdMatch[1];
               try {
-                // Try to retrieve from localStorage
-                const storedImage = localStorage.getItem(`image_data_${imageId}`);
+                // Try to retrieve from local storage
+                const storedImage = this.storage.getItem(`image_data_${imageId}`);
                 if (storedImage) {
-                  // Use localStorage content
-                  console.log(`Retrieved large image ${imageId} from localStorage for preview`);
+                  // Use stored content
+                  console.log(`Retrieved large image ${imageId} from local storage for preview`);
                   processedContent = processedContent.replace(placeholder, storedImage);
                 } else {
                   // Fall back to placeholder
@@ -2056,7 +3406,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
                   );
                 }
               } catch (e) {
-                console.warn(`Error retrieving image from localStorage: ${(e as any)?.message || 'Unknown error'}`);
+                console.warn(`Error retrieving image from local storage: ${(e as any)?.message || 'Unknown error'}`);
                 processedContent = processedContent.replace(
                   placeholder,
                   `![${placeholder.split('(')[0].substring(2)}](preview-placeholder)`
@@ -2080,8 +3430,8 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
 
         // Handle storage indirection for newly added images
         if (replacement && replacement.startsWith('@storage:')) {
-          // Use our utility method to retrieve from localStorage
-          return this.retrieveImageFromLocalStorage(replacement);
+          // Use our utility method to retrieve from the image store
+          return this.retrieveImageFromStorage(replacement);
         }
 
         if (replacement) {
@@ -2091,10 +3441,10 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
             if (imageIdMatch && imageIdMatch[1]) {
               const imageId = imageIdMatch[1];
               try {
-                const storedImage = localStorage.getItem(`image_data_${imageId}`);
+                const storedImage = this.storage.getItem(`image_data_${imageId}`);
                 if (storedImage) return storedImage;
               } catch (e) {
-                console.warn(`Error retrieving image from localStorage: ${(e as any)?.message || 'Unknown error'}`);
+                console.warn(`Error retrieving image from local storage: ${(e as any)?.message || 'Unknown error'}`);
               }
               return `![${fileName}](preview-placeholder)`;
             }
@@ -2162,12 +3512,7 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
 
           // If deleted file was current file, open another one
           if (this.fileService.currentFile && this.fileService.currentFile.path === file.path) {
-            if (this.fileService.filesInDirectory.length > 0) {
-              this.openFile(this.fileService.filesInDirectory[0]);
-            } else {
-              this.markdownContent = '';
-              this.fileService.currentFile = null;
-            }
+            this.showNextDocument();
           }
 
           this.isLoading = false;
@@ -2182,4 +3527,119 @@ export class NoteAppLayoutComponent implements OnInit, OnDestroy {
         }
       });
     }};
+
+  renameFolder(folder: string): void {
+    this.askForName('Rename Folder', 'Enter new folder name:', baseName(folder)).subscribe(newName => {
+      if (!newName) {
+        return;
+      }
+
+      this.isLoading = true;
+      this.statusMessage = `Renaming folder to ${newName}...`;
+
+      this.fileService.renameFolder(folder, newName).subscribe({
+        next: () => {
+          this.allFiles = this.fileService.filesInDirectory;
+          this.isLoading = false;
+          this.statusMessage = '';
+          this.notificationService.success(`Folder renamed to ${newName}`);
+        },
+        error: (error) => {
+          console.error('Error renaming folder:', error);
+          this.isLoading = false;
+          this.statusMessage = '';
+          this.notificationService.error(`Error renaming folder: ${error.message}`);
+        }
+      });
+    });
+  }
+
+  deleteFolder(folder: string): void {
+    const count = this.fileService.filesInDirectory.filter(file => isInFolder(file.name, folder)).length;
+    const contents = count === 0 ? '' : count === 1 ? ' and the note in it' : ` and the ${count} notes in it`;
+    if (!confirm(`Are you sure you want to delete the folder ${folder}${contents}?`)) {
+      return;
+    }
+
+    this.isLoading = true;
+    this.statusMessage = `Deleting ${folder}...`;
+
+    this.fileService.deleteFolder(folder).subscribe({
+      next: () => {
+        this.allFiles = this.fileService.filesInDirectory;
+
+        // If the open file was in the folder, open another one
+        if (this.fileService.currentFile && isInFolder(this.fileService.currentFile.name, folder)) {
+          this.showNextDocument();
+        }
+
+        this.isLoading = false;
+        this.statusMessage = '';
+        this.notificationService.success(`Folder ${folder} deleted`);
+      },
+      error: (error) => {
+        console.error('Error deleting folder:', error);
+        this.isLoading = false;
+        this.statusMessage = '';
+        this.notificationService.error(`Error deleting folder: ${error.message}`);
+      }
+    });
+  }
+
+  /**
+   * Moves a note or folder dropped in the file tree. Moves to another team
+   * share the notes with it, so they are confirmed first.
+   */
+  moveInTree(move: FileTreeMove): void {
+    const name = baseName(move.path);
+    const destination = move.team === undefined
+      ? (move.target || 'the top level')
+      : (move.team ? `team "${move.team.name}"` : 'your personal notes');
+
+    if (move.team !== undefined && !confirm(`Move ${name} to ${destination}?`)) {
+      return;
+    }
+
+    this.isLoading = true;
+    this.statusMessage = `Moving ${name}...`;
+
+    const moving: Observable<unknown> = move.file
+      ? this.fileService.moveFile(move.file, move.target, move.team)
+      : this.fileService.moveFolder(move.path, move.target, move.team);
+
+    moving.subscribe({
+      next: () => {
+        this.allFiles = this.fileService.filesInDirectory;
+        this.isLoading = false;
+        this.statusMessage = '';
+        this.notificationService.success(`Moved ${name} to ${destination}`);
+      },
+      error: (error) => {
+        console.error('Error moving in file tree:', error);
+        this.isLoading = false;
+        this.statusMessage = '';
+        this.notificationService.error(`Error moving ${name}: ${error.message}`);
+      }
+    });
+  }
+
+  /**
+   * Teams notes can be dragged to from the file tree, the personal notes included
+   */
+  get fileTreeTeams(): FileTreeTeamTarget[] {
+    const candidates: FileTreeTeamTarget[] = [
+      { team: null, name: 'Personal notes' },
+      ...this.teams.map(team => ({ team, name: team.name }))
+    ];
+    const key = candidates
+      .filter(target => this.fileService.canMoveToTeam(target.team))
+      .map(target => target.team?.id ?? '')
+      .join(',');
+
+    if (key !== this.fileTreeTeamsKey) {
+      this.fileTreeTeamsKey = key;
+      this.cachedFileTreeTeams = candidates.filter(target => this.fileService.canMoveToTeam(target.team));
+    }
+    return this.cachedFileTreeTeams;
+  }
 }
@@ -16,6 +16,12 @@ export interface TextSection {
 
   /** The text content of this section */
   content: string;
+
+  /**
+   * Whether the text was inserted or deleted (defaults to insert).
+   * Deleted sections are empty ranges marking where the text used to be.
+   */
+  type?: 'insert' | 'delete';
 }
 
 /**
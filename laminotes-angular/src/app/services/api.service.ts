@@ -266,12 +266,17 @@ export class ApiService {
   /**
    * Deletes a file from the server
    * @param filename The name of the file to delete
+   * @param teamId Team the file belongs to, if any
    */
-  deleteFile(filename: string): Observable<any> {
+  deleteFile(filename: string, teamId?: string): Observable<any> {
     const url = `${this.baseUrl}/files/${filename}`;
-    console.log(`🗑️ Deleting file: ${filename}`);
+    console.log(`🗑️ Deleting file: ${filename}${teamId ? ' (Team: ' + teamId + ')' : ''}`);
 
-    return this.http.delete(url).pipe(
+    const headers = new HttpHeaders({
+      ...(teamId ? { 'X-Team-ID': teamId } : {})
+    });
+
+    return this.http.delete(url, { headers }).pipe(
       tap((response: any) => console.log(`✅ File deleted: ${filename}`)),
       catchError((error: any) => {
         console.error(`Failed to delete file: ${filename}`, error);
@@ -333,12 +338,17 @@ export class ApiService {
   /**
    * Gets metadata for a file
    * @param filename The name of the file
+   * @param teamId Team the file belongs to, if any
    */
-  getFileMetadata(filename: string): Observable<FileMetadata | null> {
+  getFileMetadata(filename: string, teamId?: string): Observable<FileMetadata | null> {
     const url = `${this.baseUrl}/metadata/${filename}`;
-    console.log(`🔍 Fetching metadata from: ${url}`);
+    console.log(`🔍 Fetching metadata from: ${url}${teamId ? ' (Team: ' + teamId + ')' : ''}`);
+
+    const headers = new HttpHeaders({
+      ...(teamId ? { 'X-Team-ID': teamId } : {})
+    });
 
-    return this.http.get<FileMetadata>(url).pipe(
+    return this.http.get<FileMetadata>(url, { headers }).pipe(
       tap((metadata: FileMetadata) => console.log(`✅ Metadata received:`, metadata)),
       catchError((error: any) => {
         console.warn(`⚠️ No metadata found for file ${filename}, creating default metadata`, error);
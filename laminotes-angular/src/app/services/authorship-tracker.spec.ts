@@ -0,0 +1,68 @@
+import { AuthorInfo, AuthorshipTracker } from './authorship-tracker';
+
+describe('AuthorshipTracker', () => {
+  const alice: AuthorInfo = { userId: 'alice', username: 'Alice', color: '#FF5F1F' };
+  const bob: AuthorInfo = { userId: 'bob', username: 'Bob', color: '#38B6FF' };
+  const now = new Date('2025-01-01T12:00:00Z');
+
+  it('should attribute inserted text to its author', () => {
+    const tracker = AuthorshipTracker.create('note.md', 'Hello');
+
+    tracker.update('Hello world', alice, now);
+
+    const spans = tracker.spans();
+    expect(spans.length).toBe(1);
+    expect(spans[0]).toEqual(jasmine.objectContaining({ start: 5, end: 11, userId: 'alice' }));
+    expect(tracker.metadata.userColors['alice']).toBe('#FF5F1F');
+  });
+
+  it('should move sections when text is inserted before them', () => {
+    const tracker = AuthorshipTracker.create('note.md', '');
+    tracker.update('world', alice, now);
+
+    tracker.update('Hello world', bob, now);
+
+    const spans = tracker.spans();
+    expect(spans.map(span => [span.userId, span.start, span.end])).toEqual([
+      ['bob', 0, 6],
+      ['alice', 6, 11]
+    ]);
+  });
+
+  it('should split a section when someone else writes inside it', () => {
+    const tracker = AuthorshipTracker.create('note.md', '');
+    tracker.update('abcdef', alice, now);
+
+    tracker.update('abcXYZdef', bob, now);
+
+    const spans = tracker.spans();
+    expect(spans.map(span => [span.userId, span.start, span.end])).toEqual([
+      ['alice', 0, 3],
+      ['bob', 3, 6],
+      ['alice', 6, 9]
+    ]);
+    expect(tracker.metadata.changes[0].sections.map(section => section.content)).toEqual(['abc', 'def']);
+  });
+
+  it('should record deletions as markers', () => {
+    const tracker = AuthorshipTracker.create('note.md', 'keep this text');
+
+    tracker.update('keep text', bob, now);
+    tracker.update('keep xt', bob, now);
+
+    const sections = tracker.metadata.changes[0].sections;
+    expect(sections.length).toBe(1);
+    expect(sections[0]).toEqual(jasmine.objectContaining({ type: 'delete', startIndex: 5, content: 'this te' }));
+    expect(tracker.spans().length).toBe(0);
+  });
+
+  it('should not attribute untracked changes', () => {
+    const tracker = AuthorshipTracker.create('note.md', 'abc');
+    tracker.update('abcdef', alice, now);
+
+    tracker.update('xyzabcdef', null, now);
+
+    expect(tracker.metadata.changes.length).toBe(1);
+    expect(tracker.spans()[0]).toEqual(jasmine.objectContaining({ start: 6, end: 9 }));
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Authorship tracker.
+ *
+ * Records who inserted and deleted which characters of a document as
+ * `MarkdownMetadata.changes`. Every recorded range is rebased across later
+ * edits, so the sections always point at the current text no matter who
+ * edited around them.
+ */
+import { DocumentChange, MarkdownMetadata, TextSection } from '../models/document-metadata';
+import { TextChange, diffText } from './text-crdt';
+
+/**
+ * The user an edit is attributed to
+ */
+export interface AuthorInfo {
+  /** User id (key into userColors) */
+  userId: string;
+
+  /** Display name */
+  username: string;
+
+  /** Colour used to show the author's text */
+  color?: string;
+}
+
+/**
+ * A run of the current text written by one user
+ */
+export interface AuthorshipSpan {
+  /** Start offset in the current text */
+  start: number;
+
+  /** End offset (exclusive) in the current text */
+  end: number;
+
+  /** Author's user id */
+  userId: string;
+
+  /** Author's display name */
+  username: string;
+
+  /** When the text was written */
+  timestamp: string;
+}
+
+/**
+ * Tracks per-character authorship of one document
+ */
+export class AuthorshipTracker {
+  /** Consecutive edits by the same user within this window share one change set */
+  static readonly GROUP_WINDOW_MS = 5 * 60 * 1000;
+
+  private constructor(
+    private data: MarkdownMetadata,
+    private text: string
+  ) {}
+
+  /**
+   * Starts tracking a document. Existing text has no known author.
+   * @param documentId Id of the document
+   * @param text Current document text
+   */
+  static create(documentId: string, text: string): AuthorshipTracker {
+    return new AuthorshipTracker({
+      documentId,
+      changes: [],
+      userColors: {},
+      lastModified: new Date().toISOString()
+    }, text);
+  }
+
+  /**
+   * Resumes tracking from saved metadata
+   * @param metadata Metadata recorded for `text`
+   * @param text The text the metadata was recorded against
+   */
+  static restore(metadata: MarkdownMetadata, text: string): AuthorshipTracker {
+    return new AuthorshipTracker(JSON.parse(JSON.stringify(metadata)), text);
+  }
+
+  /**
+   * The recorded metadata
+   */
+  get metadata(): MarkdownMetadata {
+    return this.data;
+  }
+
+  /**
+   * The text the sections currently refer to
+   */
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * Records the edit that turns the tracked text into `text`
+   * @param text Full text after the edit
+   * @param author Who made the edit; null rebases existing sections without attributing the edit
+   * @param now Time of the edit
+   */
+  update(text: string, author: AuthorInfo | null, now: Date = new Date()): void {
+    const change = diffText(this.text, text);
+    if (change) {
+      this.applyChange(change, author, now);
+    }
+  }
+
+  /**
+   * Records a single change to the tracked text
+   * @param change The change, with `index` relative to the current tracked text
+   * @param author Who made the change; null rebases existing sections without attributing the change
+   * @param now Time of the change
+   */
+  applyChange(change: TextChange, author: AuthorInfo | null, now: Date = new Date()): void {
+    const index = Math.max(0, Math.min(change.index, this.text.length));
+    const deleteCount = Math.max(0, Math.min(change.deleteCount, this.text.length - index));
+    if (deleteCount === 0 && change.text.length === 0) {
+      return;
+    }
+
+    const deleted = this.text.substring(index, index + deleteCount);
+    const newText = this.text.substring(0, index) + change.text + this.text.substring(index + deleteCount);
+    const target = author ? this.changeSetFor(author, now) : null;
+
+    // Merge consecutive backspaces/deletes into the author's marker at the deleted range
+    let deletionMarker: TextSection | null = null;
+    if (target && deleteCount > 0) {
+      deletionMarker = target.sections.find(section => section.type === 'delete' &&
+        section.startIndex >= index && section.startIndex <= index + deleteCount) || null;
+      if (deletionMarker) {
+        const split = deletionMarker.startIndex - index;
+        deletionMarker.content = deleted.substring(0, split) + deletionMarker.content + deleted.substring(split);
+      }
+    }
+
+    for (const changeSet of this.data.changes) {
+      changeSet.sections = changeSet.sections.flatMap(section =>
+        this.rebaseSection(section, index, deleteCount, change.text.length)
+      );
+    }
+
+    if (target) {
+      if (deleteCount > 0 && !deletionMarker) {
+        target.sections.push({ startIndex: index, endIndex: index, content: deleted, type: 'delete' });
+      }
+      if (change.text.length > 0) {
+        this.recordInsertion(target, index, index + change.text.length);
+      }
+      target.timestamp = now.toISOString();
+    }
+
+    this.text = newText;
+    for (const changeSet of this.data.changes) {
+      for (const section of changeSet.sections) {
+        if (section.type !== 'delete') {
+          section.content = newText.substring(section.startIndex, section.endIndex);
+        }
+      }
+    }
+
+    // Drop change sets whose text has been entirely removed since
+    this.data.changes = this.data.changes.filter(changeSet => changeSet.sections.length > 0);
+    this.data.lastModified = now.toISOString();
+  }
+
+  /**
+   * Returns the runs of the current text with a known author, in document order
+   */
+  spans(): AuthorshipSpan[] {
+    const spans: AuthorshipSpan[] = [];
+
+    for (const changeSet of this.data.changes) {
+      for (const section of changeSet.sections) {
+        if (section.type !== 'delete' && section.endIndex > section.startIndex) {
+          spans.push({
+            start: section.startIndex,
+            end: section.endIndex,
+            userId: changeSet.userId,
+            username: changeSet.username,
+            timestamp: changeSet.timestamp
+          });
+        }
+      }
+    }
+
+    return spans.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Returns the change set new edits by `author` go into, starting a new one
+   * when the author's last edit is too old or someone else edited since
+   */
+  private changeSetFor(author: AuthorInfo, now: Date): DocumentChange {
+    const last = this.data.changes[this.data.changes.length - 1];
+    if (last && last.userId === author.userId &&
+        now.getTime() - new Date(last.timestamp).getTime() < AuthorshipTracker.GROUP_WINDOW_MS) {
+      return last;
+    }
+
+    if (author.color) {
+      this.data.userColors[author.userId] = author.color;
+    }
+
+    const changeSet: DocumentChange = {
+      userId: author.userId,
+      username: author.username,
+      timestamp: now.toISOString(),
+      sections: []
+    };
+    this.data.changes.push(changeSet);
+    return changeSet;
+  }
+
+  /**
+   * Adds an inserted range to a change set, merging it with the sections it touches
+   */
+  private recordInsertion(changeSet: DocumentChange, start: number, end: number): void {
+    const touching = changeSet.sections.filter(section => section.type !== 'delete' &&
+      section.endIndex >= start && section.startIndex <= end);
+
+    const merged: TextSection = {
+      startIndex: Math.min(start, ...touching.map(section => section.startIndex)),
+      endIndex: Math.max(end, ...touching.map(section => section.endIndex)),
+      content: '',
+      type: 'insert'
+    };
+
+    changeSet.sections = changeSet.sections.filter(section => !touching.includes(section));
+    changeSet.sections.push(merged);
+  }
+
+  /**
+   * Maps a section onto the text after replacing `deleteCount` characters at
+   * `index` with `insertLength` new ones. Inserting inside a section splits it.
+   */
+  private rebaseSection(section: TextSection, index: number, deleteCount: number, insertLength: number): TextSection[] {
+    const afterDelete = (position: number) =>
+      position <= index ? position : Math.max(index, position - deleteCount);
+
+    let start = afterDelete(section.startIndex);
+    let end = afterDelete(section.endIndex);
+
+    if (section.type === 'delete') {
+      // Markers stay in front of text inserted at their position
+      const position = start > index ? start + insertLength : start;
+      return [{ ...section, startIndex: position, endIndex: position }];
+    }
+
+    if (end <= start) {
+      return [];
+    }
+
+    if (end <= index) {
+      return [{ ...section, startIndex: start, endIndex: end }];
+    }
+
+    if (start >= index) {
+      return [{ ...section, startIndex: start + insertLength, endIndex: end + insertLength }];
+    }
+
+    if (insertLength === 0) {
+      return [{ ...section, startIndex: start, endIndex: end }];
+    }
+
+    // Someone else's text landed in the middle of this section
+    return [
+      { ...section, startIndex: start, endIndex: index },
+      { ...section, startIndex: index + insertLength, endIndex: end + insertLength }
+    ];
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Authorship service.
+ *
+ * Keeps the authorship record of the document open in the editor up to date
+ * with local and collaborators' edits, and persists it alongside the note so
+ * attribution survives reloads.
+ */
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { MarkdownMetadata } from '../models/document-metadata';
+import { AuthorInfo, AuthorshipSpan, AuthorshipTracker } from './authorship-tracker';
+import { TextChange } from './text-crdt';
+import { StorageService } from './storage.service';
+
+/**
+ * Authorship record as persisted in local storage
+ */
+interface StoredAuthorship {
+  /** Recorded changes */
+  metadata: MarkdownMetadata;
+
+  /** Text the changes refer to */
+  text: string;
+}
+
+/**
+ * Service responsible for tracking who wrote which part of the open document
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthorshipService implements OnDestroy {
+  /** Prefix for authorship records in local storage */
+  private readonly STORAGE_PREFIX = 'authorship_';
+
+  /** Delay before a burst of edits is written to storage */
+  private readonly SAVE_DELAY_MS = 1000;
+
+  private tracker: AuthorshipTracker | null = null;
+  private localAuthor: AuthorInfo | null = null;
+  private saveTimer: any = null;
+
+  private spansSubject = new BehaviorSubject<AuthorshipSpan[]>([]);
+
+  /** Authored runs of the open document's text */
+  readonly spans$: Observable<AuthorshipSpan[]> = this.spansSubject.asObservable();
+
+  constructor(private storage: StorageService) {}
+
+  /**
+   * The authorship metadata of the open document
+   */
+  get metadata(): MarkdownMetadata | null {
+    return this.tracker?.metadata || null;
+  }
+
+  /**
+   * Starts tracking a document. Saved authorship is reconciled with `text`;
+   * differences made outside the editor are not attributed to anyone.
+   * @param documentId Id of the document (its path)
+   * @param text Text loaded into the editor
+   * @param author The local user
+   */
+  open(documentId: string, text: string, author: AuthorInfo): void {
+    this.close();
+    this.localAuthor = author;
+
+    const stored = this.load(documentId);
+    if (stored) {
+      this.tracker = AuthorshipTracker.restore(stored.metadata, stored.text);
+      this.tracker.update(text, null);
+    } else {
+      this.tracker = AuthorshipTracker.create(documentId, text);
+    }
+
+    this.emit();
+  }
+
+  /**
+   * Stops tracking the current document, saving pending changes
+   */
+  close(): void {
+    this.flush();
+    this.tracker = null;
+    this.spansSubject.next([]);
+  }
+
+  /**
+   * Records an edit made in the local editor
+   * @param text Full editor text after the edit
+   */
+  recordLocalEdit(text: string): void {
+    if (!this.tracker || !this.localAuthor) {
+      return;
+    }
+
+    this.tracker.update(text, this.localAuthor);
+    this.changed();
+  }
+
+  /**
+   * Records edits received from a collaborator
+   * @param changes Changes in the order they were applied
+   * @param author The collaborator, if known
+   */
+  recordRemoteChanges(changes: TextChange[], author?: AuthorInfo): void {
+    if (!this.tracker) {
+      return;
+    }
+
+    changes.forEach(change => this.tracker!.applyChange(change, author || null));
+    this.changed();
+  }
+
+  /**
+   * Moves recorded ranges to a new text without attributing the difference,
+   * e.g. after merging in changes made elsewhere
+   * @param text The new text
+   */
+  syncText(text: string): void {
+    if (!this.tracker) {
+      return;
+    }
+
+    this.tracker.update(text, null);
+    this.changed();
+  }
+
+  ngOnDestroy(): void {
+    this.close();
+  }
+
+  private changed(): void {
+    this.emit();
+
+    clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => this.flush(), this.SAVE_DELAY_MS);
+  }
+
+  private emit(): void {
+    this.spansSubject.next(this.tracker ? this.tracker.spans() : []);
+  }
+
+  private flush(): void {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+
+    if (!this.tracker) {
+      return;
+    }
+
+    const key = `${this.STORAGE_PREFIX}${this.tracker.metadata.documentId}`;
+    if (this.tracker.metadata.changes.length === 0) {
+      this.storage.removeItem(key);
+      return;
+    }
+
+    const record: StoredAuthorship = {
+      metadata: this.tracker.metadata,
+      text: this.tracker.getText()
+    };
+    this.storage.setItem(key, JSON.stringify(record));
+  }
+
+  private load(documentId: string): StoredAuthorship | null {
+    const stored = this.storage.getItem(`${this.STORAGE_PREFIX}${documentId}`);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(stored) as StoredAuthorship;
+    } catch (error) {
+      console.error('❌ Error parsing authorship record:', error);
+      return null;
+    }
+  }
+}
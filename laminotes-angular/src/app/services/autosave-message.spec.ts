@@ -0,0 +1,35 @@
+import { TestBed } from '@angular/core/testing';
+
+import { autosaveMessage } from './autosave-message';
+import { MergeService } from './merge.service';
+
+describe('autosaveMessage', () => {
+  let mergeService: MergeService;
+  const message = (oldText: string, newText: string) => autosaveMessage(mergeService.diffLines(oldText, newText));
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    mergeService = TestBed.inject(MergeService);
+  });
+
+  it('should count the lines changed', () => {
+    expect(message('a\nb', 'a\nb\nc\nd')).toBe('Autosave: +2 lines');
+    expect(message('a\nb', 'a\nB')).toBe('Autosave: +1 −1 lines');
+    expect(message('a\nb', 'a')).toBe('Autosave: −1 line');
+    expect(message('a', 'a')).toBeNull();
+  });
+
+  it('should name the sections changed', () => {
+    const before = '# Plan\nintro\n## Budget\n100\n## Timeline\nMay';
+    const after = '# Plan\nintro\n## Budget\n120\n## Timeline\nJune';
+
+    expect(message(before, after)).toBe('Autosave: +2 −2 lines in Budget, Timeline');
+  });
+
+  it('should not take comments in code for headings', () => {
+    const before = '## Setup\n```sh\n# install\nnpm i\n```';
+    const after = '## Setup\n```sh\n# install\nnpm ci\n```';
+
+    expect(message(before, after)).toBe('Autosave: +1 −1 lines in Setup');
+  });
+});
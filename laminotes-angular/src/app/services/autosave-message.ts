@@ -0,0 +1,68 @@
+/**
+ * Autosave messages.
+ *
+ * Describes an autosaved version for the version history from the lines it
+ * changed: how many were added and removed, and under which headings, e.g.
+ * "Autosave: +3 −1 lines in Budget, Timeline".
+ */
+import { DiffLine } from './merge.service';
+
+const HEADING = /^\s{0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+
+const FENCE = /^\s{0,3}(```|~~~)/;
+
+/** Most headings named in a message */
+const MAX_SECTIONS = 3;
+
+/**
+ * Message for a version made of the changes in a line diff
+ * @returns null when no line changed
+ */
+export function autosaveMessage(diff: DiffLine[]): string | null {
+  let added = 0;
+  let removed = 0;
+  let inFence = false;
+  let section: string | null = null;
+  const sections: string[] = [];
+
+  for (const line of diff) {
+    const heading = inFence ? null : HEADING.exec(line.content);
+
+    // Sections are those of the new text
+    if (line.type !== 'removed') {
+      if (FENCE.test(line.content)) {
+        inFence = !inFence;
+      } else if (heading) {
+        section = heading[1];
+      }
+    }
+
+    if (line.type === 'equal') {
+      continue;
+    }
+
+    if (line.type === 'added') {
+      added++;
+    } else {
+      removed++;
+    }
+
+    const name = heading ? heading[1] : section;
+    if (name && !sections.includes(name)) {
+      sections.push(name);
+    }
+  }
+
+  if (added === 0 && removed === 0) {
+    return null;
+  }
+
+  const counts = [added > 0 ? `+${added}` : '', removed > 0 ? `−${removed}` : ''].filter(Boolean).join(' ');
+  const lines = `${counts} line${added + removed === 1 ? '' : 's'}`;
+  if (sections.length === 0) {
+    return `Autosave: ${lines}`;
+  }
+
+  const more = sections.length > MAX_SECTIONS ? ` and ${sections.length - MAX_SECTIONS} more` : '';
+  return `Autosave: ${lines} in ${sections.slice(0, MAX_SECTIONS).join(', ')}${more}`;
+}
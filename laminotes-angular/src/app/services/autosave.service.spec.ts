@@ -0,0 +1,112 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+
+import { AuthService } from './auth.service';
+import { AutosaveBuffer, AutosaveService } from './autosave.service';
+import { FileInfo } from './file.service';
+import { MergeService } from './merge.service';
+import { StorageService } from './storage.service';
+import { SaveVersionResponse, VersionControlService, VersionMetadata } from './version-control.service';
+
+describe('AutosaveService', () => {
+  let service: AutosaveService;
+  let storage: StorageService;
+  let versionControl: jasmine.SpyObj<VersionControlService>;
+  const auth = { isLoggedIn: true } as AuthService;
+  const file: FileInfo = { name: 'Plan.md', path: '/notes/Plan.md' };
+
+  beforeEach(() => {
+    versionControl = jasmine.createSpyObj<VersionControlService>('VersionControlService', ['getVersionHistory', 'saveVersion', 'toConflictData']);
+    versionControl.getVersionHistory.and.returnValue(of([{ versionId: 'v1' } as VersionMetadata]));
+    versionControl.saveVersion.and.returnValue(of({ status: 'saved', newVersion: 'v2', message: 'Saved' } as SaveVersionResponse));
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: VersionControlService, useValue: versionControl },
+        { provide: AuthService, useValue: auth }
+      ]
+    });
+    storage = TestBed.inject(StorageService);
+    service = TestBed.inject(AutosaveService);
+  });
+
+  afterEach(() => {
+    storage.keys('autosave_buffer_').forEach(key => storage.removeItem(key));
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should commit pending edits as a version with a generated message', () => {
+    service.track(file, '# Plan\nold');
+    service.bufferChanged(file, '# Plan\nnew', {});
+    service.commitPending();
+
+    expect(versionControl.saveVersion)
+      .toHaveBeenCalledWith('Plan.md', '# Plan\nnew', 'v1', 'Autosave: +1 −1 lines in Plan', undefined);
+    expect(storage.keys('autosave_buffer_')).toEqual([]);
+  });
+
+  it('should offer buffers never committed in the next session', () => {
+    jasmine.clock().install();
+    try {
+      service.bufferChanged(file, 'draft', {});
+      jasmine.clock().tick(1500);
+
+      expect(storage.getItem('autosave_buffer_/notes/Plan.md')).toContain('draft');
+
+      const nextSession = new AutosaveService(versionControl, TestBed.inject(MergeService), auth, storage);
+      expect(nextSession.recoverableBuffers.map(buffer => buffer.content)).toEqual(['draft']);
+
+      nextSession.discard(file.path);
+      expect(nextSession.recoverableBuffers).toEqual([]);
+    } finally {
+      jasmine.clock().uninstall();
+    }
+  });
+
+  it('should commit a restored buffer without waiting for another edit', () => {
+    jasmine.clock().install();
+    try {
+      const buffer: AutosaveBuffer = { ...file, content: 'draft', images: {}, savedAt: new Date().toISOString() };
+      storage.setItem('autosave_buffer_/notes/Plan.md', JSON.stringify(buffer));
+
+      const nextSession = new AutosaveService(versionControl, TestBed.inject(MergeService), auth, storage);
+      nextSession.restore(file.path);
+      jasmine.clock().tick(5 * 60 * 1000);
+
+      expect(versionControl.saveVersion).toHaveBeenCalledWith('Plan.md', 'draft', 'v1', jasmine.any(String), undefined);
+    } finally {
+      jasmine.clock().uninstall();
+    }
+  });
+
+  it('should save on top of the version the note was opened at and report conflicts', () => {
+    let conflicts = 0;
+    service.conflicts$.subscribe(() => conflicts++);
+    service.track(file, 'old');
+
+    // A teammate saved a version since the note was opened
+    versionControl.getVersionHistory.and.returnValue(of([{ versionId: 'v2' } as VersionMetadata]));
+    versionControl.saveVersion.and.returnValue(of({
+      status: 'conflict', currentVersion: 'v2', conflicts: [], message: 'Conflict'
+    } as unknown as SaveVersionResponse));
+
+    service.bufferChanged(file, 'new', {});
+    service.commitPending();
+    expect(versionControl.saveVersion).toHaveBeenCalledWith('Plan.md', 'new', 'v1', jasmine.any(String), undefined);
+    expect(conflicts).toBe(1);
+
+    // Not retried until saved with the conflict resolved
+    service.bufferChanged(file, 'newer', {});
+    service.commitPending();
+    expect(versionControl.saveVersion).toHaveBeenCalledTimes(1);
+
+    service.markSaved(file.path);
+    versionControl.saveVersion.and.returnValue(of({ status: 'saved', newVersion: 'v3', message: 'Saved' } as SaveVersionResponse));
+    service.bufferChanged(file, 'newest', {});
+    service.commitPending();
+    expect(versionControl.saveVersion).toHaveBeenCalledWith('Plan.md', 'newest', 'v2', jasmine.any(String), undefined);
+  });
+});
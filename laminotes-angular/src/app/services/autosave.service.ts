@@ -0,0 +1,361 @@
+/**
+ * Autosave service.
+ *
+ * Keeps unsaved edits safe without waiting for an explicit save. Each edited
+ * note's buffer is stored under its own key once typing pauses, and turned into
+ * a server version with a generated message every few minutes or when the
+ * window loses focus. A buffer is dropped once it's committed, saved or
+ * discarded, so buffers still stored at startup are edits lost to a crash or a
+ * closed tab, and are offered for recovery.
+ *
+ * Versions are saved on top of the version the note was opened at or last
+ * committed as, so teammates' versions saved in between are merged in. When
+ * they overlap, the conflict is reported and the note isn't autosaved again
+ * until it's saved with the conflict resolved.
+ */
+import { Injectable } from '@angular/core';
+import { Observable, Subject, of } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+import { ConflictData } from '../components/conflict-resolution/conflict-resolution.component';
+import { AuthService } from './auth.service';
+import { autosaveMessage } from './autosave-message';
+import { FileInfo } from './file.service';
+import { MergeService } from './merge.service';
+import { StorageService } from './storage.service';
+import { VersionControlService } from './version-control.service';
+
+/**
+ * Unsaved edits of a note, as stored
+ */
+export interface AutosaveBuffer {
+  path: string;
+  name: string;
+
+  /** Team the note belongs to, if any */
+  teamId?: string;
+
+  /** Editor text, with embedded images shown as placeholders */
+  content: string;
+
+  /** Embedded images by their placeholder in content */
+  images: Record<string, string>;
+
+  /** When the buffer was last written */
+  savedAt: string;
+
+  /** Server version the edits are based on */
+  baseVersion?: string;
+}
+
+/**
+ * An autosave that overlaps changes saved on the server
+ */
+export interface AutosaveConflict {
+  /** Path of the note */
+  path: string;
+
+  /** Resolver input */
+  conflict: ConflictData;
+}
+
+/**
+ * Service responsible for autosaving edited notes
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AutosaveService {
+  /** Prefix of the storage keys of the buffers, followed by the note's path */
+  private readonly BUFFER_PREFIX = 'autosave_buffer_';
+
+  /** Idle time before a buffer is stored */
+  private readonly BUFFER_DELAY_MS = 1500;
+
+  /** Longest time edits wait before becoming a server version */
+  private readonly VERSION_INTERVAL_MS = 5 * 60 * 1000;
+
+  /** Buffers of the notes edited, keyed by path */
+  private buffers = new Map<string, AutosaveBuffer>();
+
+  /** Buffers left from an earlier session, until restored or discarded */
+  private recovered: AutosaveBuffer[] = [];
+
+  /** Text of each note as last committed, saved or opened */
+  private committed = new Map<string, string>();
+
+  /** Server version each note was opened at or last committed as, keyed by path */
+  private baseVersions = new Map<string, string>();
+
+  /** Notes whose last autosave conflicted, with the server version it conflicted with */
+  private conflicted = new Map<string, string>();
+
+  private conflictsSubject = new Subject<AutosaveConflict>();
+
+  /** Autosaves that conflict with versions saved by others */
+  readonly conflicts$ = this.conflictsSubject.asObservable();
+
+  private bufferTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private versionTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(
+    private versionControl: VersionControlService,
+    private mergeService: MergeService,
+    private authService: AuthService,
+    private storage: StorageService
+  ) {
+    this.recovered = this.loadStoredBuffers()
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+    if (this.recovered.length > 0) {
+      console.log(`🛟 Found ${this.recovered.length} unsaved buffer(s) from the last session`);
+    }
+  }
+
+  /**
+   * Buffers that were never committed in an earlier session
+   */
+  get recoverableBuffers(): AutosaveBuffer[] {
+    return this.recovered;
+  }
+
+  /**
+   * Remembers the text of a note as opened, for describing the edits made to it,
+   * and the server version it was opened at, for merging autosaves
+   */
+  track(file: FileInfo, content: string): void {
+    if (!this.committed.has(file.path)) {
+      this.committed.set(file.path, content);
+    }
+
+    if (!this.baseVersions.has(file.path) && this.authService.isLoggedIn) {
+      this.versionControl.getVersionHistory(file.name).subscribe({
+        next: versions => {
+          if (!this.baseVersions.has(file.path)) {
+            this.baseVersions.set(file.path, versions[0]?.versionId ?? '');
+          }
+        },
+        error: error => console.warn(`⚠️ Could not load the version of ${file.name}`, error)
+      });
+    }
+  }
+
+  /**
+   * Records an edit; the buffer is stored once typing pauses and becomes a version later
+   */
+  bufferChanged(file: FileInfo, content: string, images: Record<string, string>, teamId?: string): void {
+    this.buffers.set(file.path, {
+      path: file.path,
+      name: file.name,
+      teamId,
+      content,
+      images: { ...images },
+      savedAt: new Date().toISOString(),
+      baseVersion: this.baseVersions.get(file.path)
+    });
+
+    clearTimeout(this.bufferTimers.get(file.path));
+    this.bufferTimers.set(file.path, setTimeout(() => this.storeBuffer(file.path), this.BUFFER_DELAY_MS));
+    this.scheduleVersion(file.path);
+  }
+
+  /**
+   * Stores every pending buffer and commits it as a version now, e.g. when the window loses focus
+   */
+  commitPending(): void {
+    for (const path of Array.from(this.versionTimers.keys())) {
+      this.storeBuffer(path);
+      this.commit(path);
+    }
+  }
+
+  /**
+   * Drops the buffer of a note saved explicitly. A note whose autosave
+   * conflicted is now based on the version it conflicted with.
+   */
+  markSaved(path: string): void {
+    const buffer = this.buffers.get(path);
+    if (buffer) {
+      this.committed.set(path, buffer.content);
+    }
+
+    const conflictedWith = this.conflicted.get(path);
+    if (conflictedWith !== undefined) {
+      this.conflicted.delete(path);
+      this.baseVersions.set(path, conflictedWith);
+    }
+    this.discard(path);
+  }
+
+  /**
+   * Drops the buffer of a note whose edits were thrown away, or one not restored
+   */
+  discard(path: string): void {
+    this.cancelTimers(path);
+    this.buffers.delete(path);
+    this.recovered = this.recovered.filter(buffer => buffer.path !== path);
+    this.removeStoredBuffer(path);
+  }
+
+  /**
+   * Takes a recovered buffer back into the editor; it stays stored until committed,
+   * which happens like for any other edit
+   */
+  restore(path: string): AutosaveBuffer | null {
+    const buffer = this.recovered.find(entry => entry.path === path) ?? null;
+    if (buffer) {
+      this.recovered = this.recovered.filter(entry => entry !== buffer);
+      this.buffers.set(path, buffer);
+      if (buffer.baseVersion !== undefined) {
+        this.baseVersions.set(path, buffer.baseVersion);
+      }
+      this.scheduleVersion(path);
+    }
+    return buffer;
+  }
+
+  /**
+   * Moves a note's buffer to the note's new path after a rename or move
+   */
+  rename(oldPath: string, file: FileInfo): void {
+    const buffer = this.buffers.get(oldPath);
+    const committed = this.committed.get(oldPath);
+    const baseVersion = this.baseVersions.get(oldPath);
+    const conflictedWith = this.conflicted.get(oldPath);
+    const versionPending = this.versionTimers.has(oldPath);
+
+    this.discard(oldPath);
+    this.committed.delete(oldPath);
+    this.baseVersions.delete(oldPath);
+    this.conflicted.delete(oldPath);
+    if (committed !== undefined) {
+      this.committed.set(file.path, committed);
+    }
+    if (baseVersion !== undefined) {
+      this.baseVersions.set(file.path, baseVersion);
+    }
+    if (conflictedWith !== undefined) {
+      this.conflicted.set(file.path, conflictedWith);
+    }
+    if (!buffer) {
+      return;
+    }
+
+    this.buffers.set(file.path, { ...buffer, path: file.path, name: file.name });
+    this.storeBuffer(file.path);
+    if (versionPending) {
+      this.scheduleVersion(file.path);
+    }
+  }
+
+  /**
+   * Saves a note's buffer as a server version on top of the version its edits are based on
+   */
+  private commit(path: string): void {
+    clearTimeout(this.versionTimers.get(path));
+    this.versionTimers.delete(path);
+
+    const buffer = this.buffers.get(path);
+    const message = buffer && autosaveMessage(this.mergeService.diffLines(this.committed.get(path) ?? '', buffer.content));
+    if (!buffer || !message || !this.authService.isLoggedIn || this.conflicted.has(path)) {
+      return;
+    }
+
+    this.baseVersionOf(buffer).pipe(
+      switchMap(baseVersion => this.versionControl.saveVersion(
+        buffer.name, this.withImages(buffer), baseVersion, message, buffer.teamId).pipe(
+          map(response => ({ response, baseVersion }))
+        ))
+    ).subscribe({
+      next: ({ response, baseVersion }) => {
+        if (response.status === 'conflict') {
+          console.warn(`⚠️ Autosave of ${buffer.name} conflicts with the server, keeping the buffer`);
+          this.conflicted.set(path, response.currentVersion ?? baseVersion);
+          this.conflictsSubject.next({
+            path,
+            conflict: this.versionControl.toConflictData(path, buffer.name, baseVersion, response)
+          });
+          return;
+        }
+
+        console.log(`💾 Autosaved ${buffer.name}: ${message}`);
+        this.committed.set(path, buffer.content);
+        if (response.newVersion) {
+          this.baseVersions.set(path, response.newVersion);
+        }
+
+        // Edits made while the version was saved wait for the next one
+        if (this.buffers.get(path) === buffer) {
+          this.buffers.delete(path);
+          this.removeStoredBuffer(path);
+        }
+      },
+      error: error => console.error(`❌ Error autosaving ${buffer.name}:`, error)
+    });
+  }
+
+  /**
+   * The version a buffer's edits are based on. Buffers of notes not tracked
+   * since opening, e.g. recovered from before versions were recorded, fall
+   * back to the latest version.
+   */
+  private baseVersionOf(buffer: AutosaveBuffer): Observable<string> {
+    const known = this.baseVersions.get(buffer.path) ?? buffer.baseVersion;
+    if (known !== undefined) {
+      return of(known);
+    }
+    return this.versionControl.getVersionHistory(buffer.name).pipe(
+      map(versions => versions[0]?.versionId ?? '')
+    );
+  }
+
+  /**
+   * Content as saved, with image placeholders replaced by the images
+   */
+  private withImages(buffer: AutosaveBuffer): string {
+    return Object.entries(buffer.images).reduce(
+      (content, [placeholder, image]) => content.split(placeholder).join(image),
+      buffer.content
+    );
+  }
+
+  /**
+   * Makes a note's buffer a version once the interval has passed, unless that's planned already
+   */
+  private scheduleVersion(path: string): void {
+    if (!this.versionTimers.has(path)) {
+      this.versionTimers.set(path, setTimeout(() => this.commit(path), this.VERSION_INTERVAL_MS));
+    }
+  }
+
+  private cancelTimers(path: string): void {
+    clearTimeout(this.bufferTimers.get(path));
+    clearTimeout(this.versionTimers.get(path));
+    this.bufferTimers.delete(path);
+    this.versionTimers.delete(path);
+  }
+
+  private storeBuffer(path: string): void {
+    clearTimeout(this.bufferTimers.get(path));
+    this.bufferTimers.delete(path);
+
+    const buffer = this.buffers.get(path);
+    if (buffer) {
+      this.storage.setItem(`${this.BUFFER_PREFIX}${path}`, JSON.stringify(buffer));
+    }
+  }
+
+  private removeStoredBuffer(path: string): void {
+    this.storage.removeItem(`${this.BUFFER_PREFIX}${path}`);
+  }
+
+  private loadStoredBuffers(): AutosaveBuffer[] {
+    const buffers: AutosaveBuffer[] = [];
+    for (const key of this.storage.keys(this.BUFFER_PREFIX)) {
+      try {
+        buffers.push(JSON.parse(this.storage.getItem(key)!));
+      } catch (e) {
+        console.error(`❌ Error loading autosave buffer ${key}:`, e);
+      }
+    }
+    return buffers;
+  }
+}
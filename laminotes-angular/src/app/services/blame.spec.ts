@@ -0,0 +1,60 @@
+import { TestBed } from '@angular/core/testing';
+
+import { blameEdits, blameHistory, blameLines, latestChange } from './blame';
+import { MergeService } from './merge.service';
+import { VersionMetadata } from './version-control.service';
+
+describe('blameLines', () => {
+  let mergeService: MergeService;
+  const diff = (oldText: string, newText: string) => mergeService.diffLines(oldText, newText);
+
+  const version = (versionId: string, timestamp: string): VersionMetadata => ({
+    versionId,
+    timestamp,
+    userId: `user-${versionId}`,
+    contentHash: ''
+  });
+
+  const v1 = version('v1', '2025-01-01T10:00:00Z');
+  const v2 = version('v2', '2025-01-02T10:00:00Z');
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    mergeService = TestBed.inject(MergeService);
+  });
+
+  it('should attribute each line to the version that last changed it', () => {
+    const blame = blameLines([
+      { version: v1, content: 'title\nintro\nbody' },
+      { version: v2, content: 'title\nnew intro\nbody' }
+    ], 'title\nnew intro\nbody', diff);
+
+    expect(blame.map(line => line.version?.versionId)).toEqual(['v1', 'v2', 'v1']);
+  });
+
+  it('should mark unsaved lines', () => {
+    const blame = blameLines([{ version: v1, content: 'a\nb' }], 'a\nx\nb', diff);
+
+    expect(blame.map(line => line.version?.versionId ?? null)).toEqual(['v1', null, 'v1']);
+  });
+
+  it('should blame edits against the blame of the newest revision', () => {
+    const history = blameHistory([
+      { version: v1, content: 'a\nb' },
+      { version: v2, content: 'a\nB' }
+    ], diff);
+
+    expect(history.text).toBe('a\nB');
+    expect(blameEdits(history, 'a\nB\nc', diff).map(line => line.version?.versionId ?? null)).toEqual(['v1', 'v2', null]);
+  });
+
+  it('should pick the latest change in a range of lines', () => {
+    const blame = blameLines([
+      { version: v1, content: 'a\nb\nc' },
+      { version: v2, content: 'a\nB\nc' }
+    ], 'a\nB\nc', diff);
+
+    expect(latestChange(blame, 0, 2)?.version?.versionId).toBe('v2');
+    expect(latestChange(blame, 2, 2)?.version?.versionId).toBe('v1');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Line blame.
+ *
+ * Works out which saved version last changed each line of a document by
+ * replaying the version history oldest first: lines a version adds or
+ * rewrites are attributed to it, unchanged lines keep their attribution.
+ * The history is replayed once; edits are then only diffed against the
+ * newest version.
+ */
+import { DiffLine } from './merge.service';
+import { VersionMetadata } from './version-control.service';
+
+/**
+ * A version together with its content
+ */
+export interface BlameRevision {
+  /** The version */
+  version: VersionMetadata;
+
+  /** Content of the file at that version */
+  content: string;
+}
+
+/**
+ * Attribution of one line
+ */
+export interface BlameLine {
+  /** Version that last changed the line; null if the change hasn't been saved as a version */
+  version: VersionMetadata | null;
+}
+
+/**
+ * A text with the attribution of each of its lines
+ */
+export interface BlamedText {
+  text: string;
+
+  /** One entry per line of text */
+  lines: BlameLine[];
+}
+
+/**
+ * Computes a line diff (see MergeService.diffLines)
+ */
+export type LineDiff = (oldText: string, newText: string) => DiffLine[];
+
+/**
+ * Attributes every line of the newest revision to the version that last changed it
+ * @param revisions Versions of the document, oldest first
+ * @param diff Line diff used to follow lines from one revision to the next
+ */
+export function blameHistory(revisions: BlameRevision[], diff: LineDiff): BlamedText {
+  return revisions.reduce<BlamedText>(
+    (blamed, revision) => blameChange(blamed, revision.content, { version: revision.version }, diff),
+    { text: '', lines: [] }
+  );
+}
+
+/**
+ * Attributes every line of `current` given the blame of the newest revision;
+ * lines changed since are unsaved
+ * @param history Blame of the newest revision (see blameHistory)
+ * @param current The text to blame, usually the editor content
+ * @param diff Line diff
+ * @returns One entry per line of `current`
+ */
+export function blameEdits(history: BlamedText, current: string, diff: LineDiff): BlameLine[] {
+  return blameChange(history, current, { version: null }, diff).lines;
+}
+
+/**
+ * Attributes every line of `current` to the version that last changed it
+ * @param revisions Versions of the document, oldest first
+ * @param current The text to blame, usually the editor content
+ * @param diff Line diff used to follow lines from one revision to the next
+ * @returns One entry per line of `current`
+ */
+export function blameLines(revisions: BlameRevision[], current: string, diff: LineDiff): BlameLine[] {
+  return blameEdits(blameHistory(revisions, diff), current, diff);
+}
+
+/**
+ * Returns the most recent change among `lines[from..to]` (inclusive), unsaved changes first
+ * @param lines Blame of the whole document
+ * @param from First line
+ * @param to Last line
+ */
+export function latestChange(lines: BlameLine[], from: number, to: number): BlameLine | null {
+  let latest: BlameLine | null = null;
+
+  for (let i = from; i <= to && i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.version) {
+      return line;
+    }
+    if (!latest || new Date(line.version.timestamp).getTime() > new Date(latest.version!.timestamp).getTime()) {
+      latest = line;
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Follows the attribution of lines to a new text, giving changed lines the new attribution
+ */
+function blameChange(blamed: BlamedText, content: string, attribution: BlameLine, diff: LineDiff): BlamedText {
+  const lines: BlameLine[] = [];
+  for (const line of diff(blamed.text, content)) {
+    if (line.type === 'equal') {
+      lines.push(blamed.lines[line.oldLineNumber!] || attribution);
+    } else if (line.type === 'added') {
+      lines.push(attribution);
+    }
+  }
+  return { text: content, lines };
+}
@@ -4,10 +4,14 @@
  * Provides platform-specific functionality for mobile platforms (iOS/iPadOS),
  * handling file system operations and platform detection while maintaining
  * compatibility with the existing application architecture.
+ *
+ * Relative paths lie in the app's Documents directory. Absolute paths lie in
+ * documents and folders the user picked in the Files app; they are reached
+ * through the security-scoped bookmarks kept for those locations.
  */
-import { Injectable } from '@angular/core';
-import { Observable, from, of, throwError, forkJoin } from 'rxjs';
-import { map, catchError, tap, switchMap } from 'rxjs/operators';
+import { Injectable, NgZone } from '@angular/core';
+import { Observable, concat, defer, from, of, throwError, forkJoin } from 'rxjs';
+import { map, catchError, concatMap, mergeMap, startWith, tap, switchMap, toArray } from 'rxjs/operators';
 import { Capacitor, CapacitorException } from '@capacitor/core';
 import { 
   Filesystem, 
@@ -22,6 +26,15 @@ import {
   DeleteFileOptions
 } from '@capacitor/filesystem';
 import { Team } from '../models/team.model';
+import { BookmarkTarget, DocumentPicker, PickedLocation } from './document-picker.plugin';
+import { ShareSheet } from './share-sheet.plugin';
+import { SharedContent } from './shared-content';
+
+/** Markdown files and folders below a directory, named by their path relative to it */
+interface MarkdownListing {
+  files: { name: string; file: any }[];
+  folders: string[];
+}
 
 /**
  * Service responsible for Capacitor platform functionality.
@@ -41,9 +54,17 @@ export class CapacitorService {
   /** Root directory for team files */
   private readonly TEAMS_ROOT_DIR = 'Teams';
 
-  constructor() {
+  /** Local storage key of the bookmarks of picked locations */
+  private readonly BOOKMARKS_KEY = 'laminotes_document_bookmarks';
+
+  /** Bookmarks of the documents and folders picked in the Files app, by path */
+  private bookmarks: Record<string, string> = {};
+
+  constructor(private zone: NgZone) {
     if (this.isCapacitor()) {
+      this.loadBookmarks();
       this.initializeFilesystem();
+      this.refreshBookmarks();
     }
   }
 
@@ -123,9 +144,10 @@ export class CapacitorService {
   /**
    * Saves a file to the filesystem on iOS/iPadOS.
    * Provides team support by placing files in team-specific directories.
+   * New files, and Save As, go wherever the user picks in the Files app.
    * 
-   * @param content The content to write to the file
-   * @param filePath The relative path to save the file to (inside Documents)
+   * @param content The content to write to the file (base64 encoded when saving binary data)
+   * @param filePath The path to save the file to, relative to Documents or inside a picked location
    * @param saveAs Whether to prompt for a save location
    * @param options Additional options for saving
    * @returns Observable containing the result of the operation
@@ -147,32 +169,46 @@ export class CapacitorService {
       return throwError(() => new Error('Not running on Capacitor platform'));
     }
 
-    if (!this.permissionsGranted) {
-      return throwError(() => new Error('Filesystem permissions not granted'));
-    }
-
     // Extract options
     const team = options.team;
     const saveAsBinary = options.saveAsBinary || false;
     const mimeType = options.mimeType || 'text/markdown';
 
-    // If saveAs is true or no filePath is provided, we need to prompt for a path
-    // However, iOS doesn't have a file picker dialog like desktop Electron
-    // So we'll create a default path in the appropriate folder
+    // Let the user choose the location in the Files app
+    if (saveAs || !filePath) {
+      return this.exportDocument(content, filePath, saveAsBinary, mimeType, team);
+    }
+
+    // Documents picked in the Files app are written in place
+    if (this.isExternalPath(filePath)) {
+      return this.withLocation(filePath, location =>
+        DocumentPicker.writeFile({ ...location, data: content, binary: saveAsBinary })
+      ).pipe(
+        map(() => ({
+          success: true,
+          filePath,
+          team_id: team?.id,
+          message: 'File saved successfully'
+        })),
+        catchError(error => {
+          console.error('❌ Error in Capacitor saveFile:', error);
+          return throwError(() => new Error(`Failed to save file: ${error.message}`));
+        })
+      );
+    }
+
+    if (!this.permissionsGranted) {
+      return throwError(() => new Error('Filesystem permissions not granted'));
+    }
+
     let targetPath = filePath;
 
     // If we have a team context, ensure files go to the team directory
     if (team) {
       const teamDir = `${this.TEAMS_ROOT_DIR}/${team.name.replace(/[^a-zA-Z0-9]/g, '_')}`;
       
-      // If no path or saveAs is true, generate a path in the team directory
-      if (saveAs || !targetPath) {
-        const timestamp = new Date().toISOString().replace(/[:\.]/g, '-');
-        const extension = this.getFileExtensionFromMimeType(mimeType);
-        targetPath = `${teamDir}/Document_${timestamp}${extension}`;
-      } 
-      // If we have a path but it doesn't include the team directory, add it
-      else if (targetPath && !targetPath.startsWith(teamDir)) {
+      // If the path doesn't include the team directory, add it
+      if (!targetPath.startsWith(teamDir)) {
         // If it's just a filename without a path
         if (!targetPath.includes('/')) {
           targetPath = `${teamDir}/${targetPath}`;
@@ -184,28 +220,18 @@ export class CapacitorService {
           targetPath = `${teamDir}/${fileName}`;
         }
       }
-    } else {
-      // No team context, use default location
-      if (saveAs || !targetPath) {
-        // Generate a default filename
-        const timestamp = new Date().toISOString().replace(/[:\.]/g, '-');
-        const extension = this.getFileExtensionFromMimeType(mimeType);
-        targetPath = `Laminotes/Document_${timestamp}${extension}`;
-      }
-
+    } else if (!targetPath.includes('/')) {
       // If the path doesn't have a directory structure, add it to the Laminotes folder
-      if (targetPath && !targetPath.includes('/')) {
-        targetPath = `Laminotes/${targetPath}`;
-      }
+      targetPath = `Laminotes/${targetPath}`;
     }
 
     // Ensure the path has appropriate extension if it's markdown
-    if (targetPath && mimeType === 'text/markdown' && !targetPath.toLowerCase().endsWith('.md')) {
+    if (mimeType === 'text/markdown' && !targetPath.toLowerCase().endsWith('.md')) {
       targetPath += '.md';
     }
 
     // Ensure the directory exists
-    const dirPath = targetPath ? targetPath.substring(0, targetPath.lastIndexOf('/')) : 'Laminotes';
+    const dirPath = targetPath.substring(0, targetPath.lastIndexOf('/'));
     
     console.log(`📝 Saving file to ${targetPath}${team ? ' (Team: ' + team.name + ')' : ''}`);
     
@@ -221,7 +247,7 @@ export class CapacitorService {
         console.log(`📱 Preparing to write file to ${targetPath}`);
         
         // Safety check to avoid crashing due to quota issues
-        if (content.length > 200000 && this.isIOS()) { // Over 200KB on iOS
+        if (!saveAsBinary && content.length > 200000 && this.isIOS()) { // Over 200KB on iOS
           console.warn(`⚠️ File content is very large (${Math.round(content.length/1024)}KB). This may exceed iOS storage quota.`);
           // Log the start of the content to see what we're trying to save
           console.log(`Content start: ${content.substring(0, 100)}...`);
@@ -241,10 +267,8 @@ export class CapacitorService {
           data: content
         };
         
-        // For binary files, use base64 encoding
-        if (saveAsBinary) {
-          writeOptions.encoding = Encoding.UTF8; // Use UTF8 as fallback, binary is not directly supported
-        } else {
+        // Binary content arrives base64 encoded; Filesystem decodes data written without an encoding
+        if (!saveAsBinary) {
           writeOptions.encoding = Encoding.UTF8;
         }
         
@@ -264,6 +288,142 @@ export class CapacitorService {
     );
   }
   
+  /**
+   * Lets the user choose where in the Files app a new document goes and writes it there.
+   * 
+   * @param content The content to write (base64 encoded when saving binary data)
+   * @param filePath Current path of the document, used for the suggested name
+   * @param saveAsBinary Whether content is base64 encoded binary data
+   * @param mimeType Type of the content, used for the file extension
+   * @param team Optional team context of the document
+   * @returns Observable containing the result; fails with 'Save cancelled' if the user cancels
+   */
+  private exportDocument(
+    content: string,
+    filePath: string | undefined,
+    saveAsBinary: boolean,
+    mimeType: string,
+    team?: Team
+  ): Observable<any> {
+    const extension = this.getFileExtensionFromMimeType(mimeType);
+    let fileName = filePath?.split('/').pop() || `Untitled${extension}`;
+    if (!fileName.toLowerCase().endsWith(extension)) {
+      fileName += extension;
+    }
+
+    console.log(`📝 Choosing a location for ${fileName}`);
+
+    return from(DocumentPicker.exportDocument({ fileName, data: content, binary: saveAsBinary })).pipe(
+      switchMap(picked => {
+        if (picked.cancelled) {
+          return throwError(() => new Error('Save cancelled'));
+        }
+
+        this.rememberLocation(picked);
+        return of({
+          success: true,
+          filePath: picked.path,
+          team_id: team?.id,
+          message: 'File saved successfully'
+        });
+      }),
+      catchError(error => {
+        if (error.message !== 'Save cancelled') {
+          console.error('❌ Error in Capacitor exportDocument:', error);
+        }
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Lets the user pick a note anywhere in the Files app and reads it.
+   * The note stays reachable after restarts.
+   * 
+   * @returns Observable containing the picked note, or null if the user cancelled
+   */
+  openDocument(): Observable<{ path: string; name: string; content: string } | null> {
+    if (!this.isCapacitor()) {
+      return throwError(() => new Error('Not running on Capacitor platform'));
+    }
+
+    return from(DocumentPicker.pickDocument()).pipe(
+      map(picked => {
+        if (picked.cancelled) {
+          return null;
+        }
+
+        this.rememberLocation(picked);
+        console.log(`✅ Opened ${picked.path} from the Files app`);
+        return { path: picked.path!, name: picked.name!, content: picked.content || '' };
+      }),
+      catchError(error => {
+        console.error('❌ Error in Capacitor openDocument:', error);
+        return throwError(() => new Error(`Failed to open document: ${error.message}`));
+      })
+    );
+  }
+
+  /**
+   * Content shared to Laminotes from other apps through the share sheet,
+   * starting with what was shared while the app was not running. Taking
+   * the waiting content empties the queue, so subscribe once.
+   */
+  sharedContent(): Observable<SharedContent> {
+    if (!this.isIOS()) {
+      return of();
+    }
+
+    const available = new Observable<void>(subscriber => {
+      const handle = ShareSheet.addListener('sharedContentAvailable', () => this.zone.run(() => subscriber.next()));
+      return () => {
+        handle.then(listener => listener.remove());
+      };
+    });
+
+    return available.pipe(
+      startWith(undefined),
+      concatMap(() => defer(() => ShareSheet.takeSharedContent()).pipe(
+        mergeMap(result => from(result.shares)),
+        catchError(error => {
+          console.error('❌ Error taking shared content:', error);
+          return of();
+        })
+      ))
+    );
+  }
+
+  /**
+   * Sends a file to another app through the share sheet
+   * 
+   * @param content Text, or base64 data when binary is set
+   * @param fileName Name the file is shared under
+   * @param binary Whether content is base64 data
+   * @returns Observable that completes when the file was shared; fails with 'Share cancelled' if the user dismissed the sheet
+   */
+  shareFile(content: string, fileName: string, binary = false): Observable<void> {
+    if (!this.isCapacitor()) {
+      return throwError(() => new Error('Not running on Capacitor platform'));
+    }
+
+    console.log(`📤 Sharing ${fileName}`);
+
+    return from(ShareSheet.shareFile({ fileName, data: content, binary })).pipe(
+      map(result => {
+        if (!result.completed) {
+          throw new Error('Share cancelled');
+        }
+        console.log(`✅ Shared ${fileName}`);
+      }),
+      catchError(error => {
+        if (error.message !== 'Share cancelled') {
+          console.error('❌ Error in Capacitor shareFile:', error);
+        }
+        return throwError(() => error);
+      })
+    );
+  }
+
   /**
    * Helper to get file extension from MIME type
    */
@@ -277,6 +437,12 @@ export class CapacitorService {
         return '.png';
       case 'text/plain':
         return '.txt';
+      case 'text/html':
+        return '.html';
+      case 'application/zip':
+        return '.zip';
+      case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+        return '.docx';
       case 'text/markdown':
       default:
         return '.md';
@@ -295,14 +461,16 @@ export class CapacitorService {
     }
 
     console.log(`📖 Reading file: ${filePath}`);
-    
-    return from(
-      Filesystem.readFile({
-        directory: Directory.Documents,
-        path: filePath,
-        encoding: Encoding.UTF8
-      })
-    ).pipe(
+
+    const read = this.isExternalPath(filePath)
+      ? this.withLocation(filePath, location => DocumentPicker.readFile(location))
+      : from(Filesystem.readFile({
+          directory: Directory.Documents,
+          path: filePath,
+          encoding: Encoding.UTF8
+        }));
+
+    return read.pipe(
       tap(result => console.log(`✅ File read successfully, length: ${typeof result.data === 'string' ? result.data.length : 'unknown'} chars`)),
       map(result => result.data as string),
       catchError(error => {
@@ -332,32 +500,35 @@ export class CapacitorService {
     
     console.log(`📂 Listing directory: ${directoryPath}${team ? ' (Team: ' + team.name + ')' : ''}`);
 
-    // Ensure directory exists
-    return from(
-      Filesystem.mkdir({
-        directory: Directory.Documents,
-        path: directoryPath,
-        recursive: true
-      })
-    ).pipe(
-      switchMap(() =>
-        Filesystem.readdir({
-          directory: Directory.Documents,
-          path: directoryPath
-        })
-      ),
-      map((result: any) => {
-        // Filter for markdown files and map to FileInfo format
-        const files = result.files
-          .filter((file: any) => file.name.endsWith('.md'))
-          .map((file: any) => ({
-            path: `${directoryPath}/${file.name}`,
-            name: file.name,
-            type: file.type,
-            size: file.size,
-            lastModified: file.mtime,
-            team_id: team?.id
-          }));
+    const listing: Observable<MarkdownListing> = this.isExternalPath(directoryPath)
+      ? this.withLocation(directoryPath, location => DocumentPicker.listFiles(location)).pipe(
+          map(result => ({
+            files: result.files.map(file => ({ name: file.name, file: { type: 'file', ...file } })),
+            folders: result.folders || []
+          }))
+        )
+      : from(
+          // Ensure directory exists
+          Filesystem.mkdir({
+            directory: Directory.Documents,
+            path: directoryPath,
+            recursive: true
+          })
+        ).pipe(
+          switchMap(() => from(this.listMarkdownFiles(directoryPath)))
+        );
+
+    return listing.pipe(
+      map(({ files: entries, folders }) => {
+        // Map markdown files to FileInfo format; files in subfolders are named by their relative path
+        const files = entries.map(({ name, file }) => ({
+          path: `${directoryPath}/${name}`,
+          name,
+          type: file.type,
+          size: file.size,
+          lastModified: file.mtime,
+          team_id: team?.id
+        }));
 
         console.log(`✅ Found ${files.length} files in ${directoryPath}`);
         
@@ -365,6 +536,7 @@ export class CapacitorService {
           success: true,
           dirPath: directoryPath,
           files: files,
+          folders,
           team_id: team?.id,
           message: 'Directory read successfully'
         };
@@ -376,6 +548,36 @@ export class CapacitorService {
     );
   }
 
+  /**
+   * Collects the markdown files and folders below a directory, skipping hidden entries
+   * @param rootPath Directory to list
+   * @param relativeDir Subfolder currently being read, relative to rootPath
+   */
+  private async listMarkdownFiles(rootPath: string, relativeDir = ''): Promise<MarkdownListing> {
+    const result = await Filesystem.readdir({
+      directory: Directory.Documents,
+      path: relativeDir ? `${rootPath}/${relativeDir}` : rootPath
+    });
+
+    const listing: MarkdownListing = { files: [], folders: [] };
+    for (const file of result.files) {
+      if (file.name.startsWith('.')) {
+        continue;
+      }
+
+      const name = relativeDir ? `${relativeDir}/${file.name}` : file.name;
+      if (file.type === 'directory') {
+        const below = await this.listMarkdownFiles(rootPath, name);
+        listing.folders.push(name, ...below.folders);
+        listing.files.push(...below.files);
+      } else if (file.name.endsWith('.md')) {
+        listing.files.push({ name, file });
+      }
+    }
+
+    return listing;
+  }
+
   /**
    * Creates a directory on iOS/iPadOS.
    * Supports creating team-specific directories.
@@ -390,7 +592,7 @@ export class CapacitorService {
     }
 
     // If team is provided, ensure path includes team directory
-    if (team) {
+    if (team && !this.isExternalPath(dirPath)) {
       const teamDirName = team.name.replace(/[^a-zA-Z0-9]/g, '_');
       
       // If path doesn't already include team directory structure, add it
@@ -408,13 +610,15 @@ export class CapacitorService {
     
     console.log(`📁 Creating directory: ${dirPath}${team ? ' (Team: ' + team.name + ')' : ''}`);
 
-    return from(
-      Filesystem.mkdir({
-        directory: Directory.Documents,
-        path: dirPath,
-        recursive: true
-      })
-    ).pipe(
+    const creation = this.isExternalPath(dirPath)
+      ? this.withLocation(dirPath, location => DocumentPicker.createDirectory(location))
+      : from(Filesystem.mkdir({
+          directory: Directory.Documents,
+          path: dirPath,
+          recursive: true
+        }));
+
+    return creation.pipe(
       map(() => ({
         success: true,
         dirPath: dirPath,
@@ -441,12 +645,14 @@ export class CapacitorService {
     
     console.log(`🗑️ Deleting file: ${filePath}`);
 
-    return from(
-      Filesystem.deleteFile({
-        directory: Directory.Documents,
-        path: filePath
-      })
-    ).pipe(
+    const deletion = this.isExternalPath(filePath)
+      ? this.withLocation(filePath, location => DocumentPicker.deleteFile(location))
+      : from(Filesystem.deleteFile({
+          directory: Directory.Documents,
+          path: filePath
+        }));
+
+    return deletion.pipe(
       map(() => ({
         success: true,
         message: 'File deleted successfully'
@@ -458,6 +664,93 @@ export class CapacitorService {
     );
   }
 
+  /**
+   * Deletes a directory and everything in it on iOS/iPadOS.
+   *
+   * @param dirPath The path of the directory to delete
+   * @returns Observable indicating success or failure
+   */
+  deleteDirectory(dirPath: string): Observable<any> {
+    if (!this.isCapacitor()) {
+      return throwError(() => new Error('Not running on Capacitor platform'));
+    }
+
+    console.log(`🗑️ Deleting directory: ${dirPath}`);
+
+    const deletion = this.isExternalPath(dirPath)
+      ? this.withLocation(dirPath, location => DocumentPicker.deleteFile(location))
+      : from(Filesystem.rmdir({
+          directory: Directory.Documents,
+          path: dirPath,
+          recursive: true
+        }));
+
+    return deletion.pipe(
+      map(() => ({
+        success: true,
+        message: 'Directory deleted successfully'
+      })),
+      catchError(error => {
+        console.error('❌ Error in Capacitor deleteDirectory:', error);
+        return throwError(() => new Error(`Failed to delete directory: ${error.message}`));
+      })
+    );
+  }
+
+  /**
+   * Moves a directory with everything in it on iOS/iPadOS.
+   * Within the app's Documents or within one folder picked in Files the directory
+   * is moved natively; between them its notes are copied one by one.
+   *
+   * @param oldPath The directory's current path
+   * @param newPath The path it moves to; must not exist yet
+   * @returns Observable indicating success or failure
+   */
+  moveDirectory(oldPath: string, newPath: string): Observable<any> {
+    if (!this.isCapacitor()) {
+      return throwError(() => new Error('Not running on Capacitor platform'));
+    }
+
+    console.log(`📝 Moving directory from ${oldPath} to ${newPath}`);
+
+    let move: Observable<unknown>;
+    if (!this.isExternalPath(oldPath) && !this.isExternalPath(newPath)) {
+      const parent = newPath.substring(0, newPath.lastIndexOf('/'));
+      move = from(Filesystem.mkdir({ directory: Directory.Documents, path: parent, recursive: true })).pipe(
+        catchError(() => of(undefined)),
+        switchMap(() => Filesystem.rename({
+          directory: Directory.Documents,
+          toDirectory: Directory.Documents,
+          from: oldPath,
+          to: newPath
+        }))
+      );
+    } else if (this.isExternalPath(oldPath) && this.sameLocation(oldPath, newPath)) {
+      const root = this.locationRoot(oldPath) as string;
+      move = this.withLocation(oldPath, location => DocumentPicker.moveItem({ ...location, to: newPath.substring(root.length + 1) }));
+    } else {
+      move = this.listDirectory(oldPath).pipe(
+        switchMap(result => concat(
+          ...result.files.map((file: any) => this.renameFile(file.path, `${newPath}/${file.name}`)),
+          ...result.folders.map((folder: string) => this.createDirectory(`${newPath}/${folder}`))
+        ).pipe(toArray())),
+        switchMap(() => this.deleteDirectory(oldPath))
+      );
+    }
+
+    return move.pipe(
+      map(() => ({
+        success: true,
+        dirPath: newPath,
+        message: 'Directory moved successfully'
+      })),
+      catchError(error => {
+        console.error('❌ Error in Capacitor moveDirectory:', error);
+        return throwError(() => new Error(`Failed to move directory: ${error.message}`));
+      })
+    );
+  }
+
   /**
    * Renames a file on iOS/iPadOS.
    * On iOS, this is done by copying the file and then deleting the original.
@@ -473,7 +766,7 @@ export class CapacitorService {
     }
     
     // If team is provided, ensure the new path is in team directory
-    if (team && !newPath.startsWith(this.TEAMS_ROOT_DIR)) {
+    if (team && !newPath.startsWith(this.TEAMS_ROOT_DIR) && !this.isExternalPath(newPath)) {
       const teamDirName = team.name.replace(/[^a-zA-Z0-9]/g, '_');
       const fileName = newPath.split('/').pop() || '';
       newPath = `${this.TEAMS_ROOT_DIR}/${teamDirName}/${fileName}`;
@@ -517,12 +810,20 @@ export class CapacitorService {
     
     console.log(`🔍 Checking if file exists: ${filePath}`);
 
-    return from(
-      Filesystem.stat({
-        directory: Directory.Documents,
-        path: filePath
-      })
-    ).pipe(
+    const check: Observable<unknown> = this.isExternalPath(filePath)
+      ? this.withLocation(filePath, location => DocumentPicker.exists(location)).pipe(
+          map(result => {
+            if (!result.exists) {
+              throw new Error('Not found');
+            }
+          })
+        )
+      : from(Filesystem.stat({
+          directory: Directory.Documents,
+          path: filePath
+        }));
+
+    return check.pipe(
       // If stat succeeds, the file exists
       tap(() => console.log(`✅ File exists: ${filePath}`)),
       map(() => true),
@@ -535,42 +836,33 @@ export class CapacitorService {
   }
 
   /**
-   * Shows a dialog to select a directory on iOS/iPadOS.
-   * Note: iOS doesn't have a directory picker API like desktop,
-   * so we implement a simplified version that just returns the appropriate directory
-   * based on context (personal or team).
+   * Lets the user pick a folder anywhere in the Files app, iCloud Drive included,
+   * and lists its notes. The folder stays reachable after restarts, so it can
+   * serve as a team directory.
    * 
-   * @param initialPath Optional starting path
-   * @param team Optional team context for selecting team directory
-   * @returns Observable containing the selected directory
+   * @param team Optional team context for the listed files
+   * @returns Observable containing the listing of the selected directory; success is false if cancelled
    */
-  selectDirectory(initialPath?: string, team?: Team): Observable<any> {
+  selectDirectory(team?: Team): Observable<any> {
     if (!this.isCapacitor()) {
       return throwError(() => new Error('Not running on Capacitor platform'));
     }
 
-    // Determine the appropriate directory path based on context
-    let dirPath: string;
-    
-    if (team) {
-      // Team context - use or create team directory
-      const teamDirName = team.name.replace(/[^a-zA-Z0-9]/g, '_');
-      dirPath = initialPath || `${this.TEAMS_ROOT_DIR}/${teamDirName}`;
-      
-      // If initialPath is provided but doesn't include team context, add it
-      if (initialPath && !initialPath.startsWith(this.TEAMS_ROOT_DIR)) {
-        dirPath = `${this.TEAMS_ROOT_DIR}/${teamDirName}/${initialPath}`;
-      }
-    } else {
-      // Personal context - use general app directory
-      dirPath = initialPath || 'Laminotes';
-    }
-    
-    console.log(`📂 Selecting directory: ${dirPath}${team ? ' (Team: ' + team.name + ')' : ''}`);
+    console.log(`📂 Selecting directory${team ? ' (Team: ' + team.name + ')' : ''}`);
+
+    return from(DocumentPicker.pickDirectory()).pipe(
+      switchMap(picked => {
+        if (picked.cancelled) {
+          return of({ success: false, message: 'Directory selection cancelled' });
+        }
 
-    // Ensure directory exists and return its contents
-    return this.createDirectory(dirPath, team).pipe(
-      switchMap(() => this.listDirectory(dirPath, team))
+        this.rememberLocation(picked);
+        return this.listDirectory(picked.path, team);
+      }),
+      catchError(error => {
+        console.error('❌ Error in Capacitor selectDirectory:', error);
+        return throwError(() => new Error(`Failed to select directory: ${error.message}`));
+      })
     );
   }
 
@@ -737,4 +1029,89 @@ export class CapacitorService {
       value: result
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Whether a path lies in a location picked in the Files app rather than in Documents
+   * 
+   * @param path The path to check
+   * @returns True for absolute paths
+   */
+  isExternalPath(path: string): boolean {
+    return path.startsWith('/');
+  }
+
+  /**
+   * Runs a document picker operation on the picked location holding a path
+   * 
+   * @param path Absolute path inside a picked document or folder
+   * @param operation The operation, given the location's bookmark and the path relative to it
+   * @returns Observable of the operation's result; fails if no picked location holds the path
+   */
+  private withLocation<T>(path: string, operation: (location: BookmarkTarget) => Promise<T>): Observable<T> {
+    const root = this.locationRoot(path);
+    if (!root) {
+      return throwError(() => new Error(`${path} is no longer accessible; open it from the Files app again`));
+    }
+    return from(operation({ bookmark: this.bookmarks[root], path: path.substring(root.length + 1) }));
+  }
+
+  /**
+   * Whether two paths lie below the same picked location, so one bookmark reaches both
+   */
+  private sameLocation(path: string, otherPath: string): boolean {
+    const root = this.locationRoot(path);
+    return !!root && root === this.locationRoot(otherPath);
+  }
+
+  /**
+   * The picked location a path lies in; the innermost one wins
+   */
+  private locationRoot(path: string): string | undefined {
+    return Object.keys(this.bookmarks)
+      .filter(location => path === location || path.startsWith(`${location}/`))
+      .sort((a, b) => b.length - a.length)[0];
+  }
+
+  /**
+   * Keeps the bookmark of a document or folder the user picked
+   */
+  private rememberLocation(picked: PickedLocation): void {
+    if (picked.path && picked.bookmark) {
+      this.bookmarks[picked.path.replace(/\/+$/, '')] = picked.bookmark;
+      this.saveBookmarks();
+    }
+  }
+
+  private loadBookmarks(): void {
+    try {
+      this.bookmarks = JSON.parse(localStorage.getItem(this.BOOKMARKS_KEY) || '{}');
+    } catch (err) {
+      console.error('❌ Failed to load document bookmarks:', err);
+      this.bookmarks = {};
+    }
+  }
+
+  private saveBookmarks(): void {
+    localStorage.setItem(this.BOOKMARKS_KEY, JSON.stringify(this.bookmarks));
+  }
+
+  /**
+   * Replaces stale bookmarks and forgets the ones that no longer resolve,
+   * e.g. because the folder was deleted or the provider was signed out
+   */
+  private async refreshBookmarks(): Promise<void> {
+    for (const [path, bookmark] of Object.entries(this.bookmarks)) {
+      try {
+        const resolved = await DocumentPicker.resolveBookmark({ bookmark });
+        this.bookmarks[path] = resolved.bookmark;
+        if (resolved.path !== path) {
+          console.log(`📱 ${path} moved to ${resolved.path}; still reachable through its bookmark`);
+        }
+      } catch (err) {
+        console.warn(`⚠️ Forgetting ${path}:`, err);
+        delete this.bookmarks[path];
+      }
+    }
+    this.saveBookmarks();
+  }
+}
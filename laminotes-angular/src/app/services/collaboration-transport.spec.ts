@@ -0,0 +1,69 @@
+import { WebSocketCollaborationTransport } from './collaboration-transport';
+
+/** Stand-in socket that records what is sent and lets the test fire its events */
+class FakeSocket {
+  static instances: FakeSocket[] = [];
+  static readonly OPEN = 1;
+
+  readyState = 0;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(data);
+  }
+
+  close(): void {
+    this.readyState = 3;
+  }
+
+  open(): void {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+}
+
+describe('WebSocketCollaborationTransport', () => {
+  const realWebSocket = window.WebSocket;
+
+  beforeEach(() => {
+    FakeSocket.instances = [];
+    (window as any).WebSocket = FakeSocket;
+  });
+
+  afterEach(() => {
+    (window as any).WebSocket = realWebSocket;
+  });
+
+  it('should ignore a late close of a socket it has replaced', () => {
+    jasmine.clock().install();
+    try {
+      const transport = new WebSocketCollaborationTransport('ws://localhost:9090/collab');
+      transport.connect('team/note.md', 'peer');
+      const [first] = FakeSocket.instances;
+      const closeFirst = first.onclose;
+
+      transport.disconnect();
+      transport.connect('team/note.md', 'peer');
+      const second = FakeSocket.instances[1];
+      second.open();
+
+      // Handlers were detached, but a close already queued may still run
+      closeFirst?.();
+      jasmine.clock().tick(60000);
+
+      transport.send({ type: 'presence', room: 'team/note.md', peerId: 'peer' });
+      expect(FakeSocket.instances.length).toBe(2);
+      expect(second.sent.some(data => JSON.parse(data).type === 'presence')).toBe(true);
+    } finally {
+      jasmine.clock().uninstall();
+    }
+  });
+});
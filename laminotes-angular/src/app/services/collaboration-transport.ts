@@ -0,0 +1,357 @@
+/**
+ * Collaboration transports.
+ *
+ * Message channels used by the collaboration service to reach the other peers
+ * editing the same file. The relay behind a transport only has to forward each
+ * message to every other peer in the same room, in the order it received them;
+ * all merging happens on the clients.
+ */
+import { InjectionToken } from '@angular/core';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { environment } from '../../environments/environment';
+
+/**
+ * Kinds of messages exchanged between peers
+ */
+export type CollaborationMessageType = 'join' | 'sync' | 'ops' | 'presence' | 'assets' | 'leave';
+
+/**
+ * Envelope for every message sent through a transport
+ */
+export interface CollaborationMessage {
+  /** Kind of message */
+  type: CollaborationMessageType;
+
+  /** Room (team + file) the message belongs to */
+  room: string;
+
+  /** Sending peer */
+  peerId: string;
+
+  /** Recipient peer for direct replies (omitted for broadcasts) */
+  to?: string;
+
+  /** Message-specific data */
+  payload?: any;
+}
+
+/**
+ * Connection state of a transport
+ */
+export type TransportStatus = 'disconnected' | 'connecting' | 'connected';
+
+/**
+ * A bidirectional channel to the other peers of a room
+ */
+export interface CollaborationTransport {
+  /** Messages received from other peers */
+  readonly messages$: Observable<CollaborationMessage>;
+
+  /** Connection state */
+  readonly status$: Observable<TransportStatus>;
+
+  /**
+   * Opens the channel for a room
+   * @param room Room identifier
+   * @param peerId Id of the local peer
+   */
+  connect(room: string, peerId: string): void;
+
+  /**
+   * Sends a message to the other peers of the room
+   * @param message Message to send
+   */
+  send(message: CollaborationMessage): void;
+
+  /** Closes the channel */
+  disconnect(): void;
+}
+
+/**
+ * Creates a new transport for each collaboration session
+ */
+export type CollaborationTransportFactory = () => CollaborationTransport;
+
+/**
+ * Returns the relay endpoint: `environment.collaborationUrl`, or the `/collab`
+ * path of the API server for environment files that don't set it
+ */
+function collaborationUrl(): string {
+  const settings: { apiUrl: string; collaborationUrl?: string } = environment;
+  if (settings.collaborationUrl) {
+    return settings.collaborationUrl;
+  }
+  return `${settings.apiUrl.replace(/^http/, 'ws').replace(/\/+$/, '')}/collab`;
+}
+
+/**
+ * Injection token for the transport factory.
+ * Defaults to the backend WebSocket relay; tests and offline demos can provide
+ * a factory backed by a LocalCollaborationRelay instead.
+ */
+export const COLLABORATION_TRANSPORT = new InjectionToken<CollaborationTransportFactory>('COLLABORATION_TRANSPORT', {
+  providedIn: 'root',
+  factory: () => () => new WebSocketCollaborationTransport(collaborationUrl())
+});
+
+/**
+ * Transport over a WebSocket relay.
+ * Messages are sent as JSON. The first message on every connection names the
+ * room and peer and carries the auth token, which therefore never ends up in
+ * URLs or server logs; the token is only sent over `wss://`, or to a relay on
+ * this machine during development.
+ * Reconnects with exponential backoff and queues messages while disconnected.
+ */
+export class WebSocketCollaborationTransport implements CollaborationTransport {
+  private messagesSubject = new Subject<CollaborationMessage>();
+  private statusSubject = new BehaviorSubject<TransportStatus>('disconnected');
+
+  readonly messages$ = this.messagesSubject.asObservable();
+  readonly status$ = this.statusSubject.asObservable();
+
+  private socket: WebSocket | null = null;
+  private outbox: string[] = [];
+  private room = '';
+  private peerId = '';
+  private reconnectAttempts = 0;
+  private reconnectTimer: any = null;
+  private closedByUser = false;
+
+  /** Longest wait between reconnection attempts */
+  private readonly MAX_RECONNECT_DELAY_MS = 30000;
+
+  constructor(private url: string) {}
+
+  connect(room: string, peerId: string): void {
+    this.room = room;
+    this.peerId = peerId;
+    this.closedByUser = false;
+    clearTimeout(this.reconnectTimer);
+    this.closeSocket();
+    this.open();
+  }
+
+  send(message: CollaborationMessage): void {
+    const data = JSON.stringify(message);
+
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(data);
+    } else {
+      this.outbox.push(data);
+    }
+  }
+
+  disconnect(): void {
+    this.closedByUser = true;
+    clearTimeout(this.reconnectTimer);
+    this.outbox = [];
+    this.closeSocket();
+
+    this.statusSubject.next('disconnected');
+  }
+
+  private open(): void {
+    if (!this.isSecure()) {
+      console.error(`❌ Refusing to connect to collaboration relay ${this.url} without wss://`);
+      this.statusSubject.next('disconnected');
+      return;
+    }
+
+    this.statusSubject.next('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      console.error('❌ Could not open collaboration socket:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    // Events of a socket that has since been replaced are ignored
+    socket.onopen = () => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      console.log(`✅ Collaboration socket connected for room ${this.room}`);
+      this.reconnectAttempts = 0;
+      socket.send(JSON.stringify({
+        type: 'auth',
+        room: this.room,
+        peer: this.peerId,
+        token: localStorage.getItem('auth_token')
+      }));
+      this.statusSubject.next('connected');
+
+      // Flush anything sent while we were offline
+      const queued = this.outbox;
+      this.outbox = [];
+      queued.forEach(data => socket.send(data));
+    };
+
+    socket.onmessage = event => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      try {
+        const message = JSON.parse(event.data) as CollaborationMessage;
+        if (message.room === this.room && message.peerId !== this.peerId) {
+          this.messagesSubject.next(message);
+        }
+      } catch (error) {
+        console.warn('⚠️ Ignoring malformed collaboration message', error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.socket = null;
+      if (!this.closedByUser) {
+        this.scheduleReconnect();
+      }
+    };
+
+    socket.onerror = error => {
+      console.warn('⚠️ Collaboration socket error', error);
+    };
+  }
+
+  /**
+   * Closes the current socket without letting its late events reach this transport
+   */
+  private closeSocket(): void {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    this.socket = null;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onclose = null;
+    socket.onerror = null;
+    socket.close();
+  }
+
+  /**
+   * Whether the relay is reached over TLS, or runs on this machine
+   */
+  private isSecure(): boolean {
+    try {
+      const url = new URL(this.url);
+      return url.protocol === 'wss:' || ['localhost', '127.0.0.1'].includes(url.hostname);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    this.statusSubject.next('disconnected');
+
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), this.MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+
+    console.log(`🔄 Reconnecting collaboration socket in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => this.open(), delay);
+  }
+}
+
+/**
+ * In-process relay connecting transports created from it.
+ * Delivery is synchronous but queued, so messages keep their send order and
+ * handlers never run re-entrantly; useful for tests and local demos.
+ */
+export class LocalCollaborationRelay {
+  private rooms = new Map<string, Set<LocalCollaborationTransport>>();
+  private queue: { room: string; message: CollaborationMessage }[] = [];
+  private delivering = false;
+
+  /**
+   * Creates a transport attached to this relay
+   */
+  createTransport(): CollaborationTransport {
+    return new LocalCollaborationTransport(this);
+  }
+
+  /** @internal */
+  attach(room: string, transport: LocalCollaborationTransport): void {
+    if (!this.rooms.has(room)) {
+      this.rooms.set(room, new Set());
+    }
+    this.rooms.get(room)!.add(transport);
+  }
+
+  /** @internal */
+  detach(room: string, transport: LocalCollaborationTransport): void {
+    this.rooms.get(room)?.delete(transport);
+  }
+
+  /** @internal */
+  publish(room: string, message: CollaborationMessage): void {
+    this.queue.push({ room, message });
+    if (this.delivering) {
+      return;
+    }
+
+    this.delivering = true;
+    try {
+      while (this.queue.length > 0) {
+        const next = this.queue.shift()!;
+        for (const transport of Array.from(this.rooms.get(next.room) || [])) {
+          transport.deliver(next.message);
+        }
+      }
+    } finally {
+      this.delivering = false;
+    }
+  }
+}
+
+/**
+ * Transport endpoint of a LocalCollaborationRelay
+ */
+class LocalCollaborationTransport implements CollaborationTransport {
+  private messagesSubject = new Subject<CollaborationMessage>();
+  private statusSubject = new BehaviorSubject<TransportStatus>('disconnected');
+
+  readonly messages$ = this.messagesSubject.asObservable();
+  readonly status$ = this.statusSubject.asObservable();
+
+  private room: string | null = null;
+  private peerId = '';
+
+  constructor(private relay: LocalCollaborationRelay) {}
+
+  connect(room: string, peerId: string): void {
+    this.room = room;
+    this.peerId = peerId;
+    this.relay.attach(room, this);
+    this.statusSubject.next('connected');
+  }
+
+  send(message: CollaborationMessage): void {
+    if (this.room) {
+      this.relay.publish(this.room, message);
+    }
+  }
+
+  disconnect(): void {
+    if (this.room) {
+      this.relay.detach(this.room, this);
+      this.room = null;
+    }
+    this.statusSubject.next('disconnected');
+  }
+
+  deliver(message: CollaborationMessage): void {
+    if (message.peerId !== this.peerId) {
+      this.messagesSubject.next(message);
+    }
+  }
+}
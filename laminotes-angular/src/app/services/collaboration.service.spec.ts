@@ -0,0 +1,99 @@
+import { NgZone } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+
+import { CollaborationService } from './collaboration.service';
+import { COLLABORATION_TRANSPORT, CollaborationTransport, LocalCollaborationRelay } from './collaboration-transport';
+
+describe('CollaborationService', () => {
+  let relay: LocalCollaborationRelay;
+  let service: CollaborationService;
+
+  beforeEach(() => {
+    relay = new LocalCollaborationRelay();
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: COLLABORATION_TRANSPORT, useValue: () => relay.createTransport() }
+      ]
+    });
+    service = TestBed.inject(CollaborationService);
+  });
+
+  afterEach(() => {
+    service.leave();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should stream edits and presence to other peers over the relay', () => {
+    const other = new CollaborationService(() => relay.createTransport(), TestBed.inject(NgZone));
+    let otherText = 'hello';
+    other.remoteChanges$.subscribe(update => otherText = update.text);
+
+    service.join('team', 'note.md', 'hello');
+    other.join('team', 'note.md', 'hello');
+
+    service.updateLocalText('hello world');
+    expect(otherText).toBe('hello world');
+
+    let selection: number[] = [];
+    other.participants$.subscribe(participants => {
+      selection = participants.map(p => p.selectionEnd);
+    });
+    service.updateLocalSelection(5, 5);
+    expect(selection).toEqual([5]);
+
+    other.leave();
+  });
+
+  it('should take the document of the room when joining with its text', () => {
+    const other = new CollaborationService(() => relay.createTransport(), TestBed.inject(NgZone));
+    let text = 'hello';
+    service.remoteChanges$.subscribe(update => text = update.text);
+
+    service.join('team', 'note.md', 'hello');
+    text = 'hello world';
+    service.updateLocalText(text);
+
+    // Joins with the file as saved after the edit
+    let otherText = 'hello world';
+    other.remoteChanges$.subscribe(update => otherText = update.text);
+    other.join('team', 'note.md', 'hello world');
+
+    expect(otherText).toBe('hello world');
+    expect(text).toBe('hello world');
+
+    other.updateLocalText('hello world!');
+    expect(text).toBe('hello world!');
+
+    other.leave();
+  });
+
+  it('should recover edits dropped while a peer was disconnected', () => {
+    let transport!: CollaborationTransport;
+    const other = new CollaborationService(() => transport = relay.createTransport(), TestBed.inject(NgZone));
+    let text = 'hello';
+    let otherText = 'hello';
+    service.remoteChanges$.subscribe(update => text = update.text);
+    other.remoteChanges$.subscribe(update => otherText = update.text);
+
+    service.join('team', 'note.md', 'hello');
+    other.join('team', 'note.md', 'hello');
+
+    // Edits on both sides while the relay drops everything between them
+    transport.disconnect();
+    text = 'hello world';
+    service.updateLocalText(text);
+    otherText = 'oh, hello';
+    other.updateLocalText(otherText);
+    expect(otherText).toBe('oh, hello');
+
+    transport.connect('team/note.md', other.peerId);
+
+    expect(text).toBe('oh, hello world');
+    expect(otherText).toBe(text);
+
+    other.leave();
+  });
+});
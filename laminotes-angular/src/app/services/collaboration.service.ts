@@ -0,0 +1,508 @@
+/**
+ * Collaboration service.
+ *
+ * Streams text operations between everyone editing the same team file and
+ * tracks their cursors. Edits are merged with a character CRDT, so peers
+ * converge without a central transformation step, and presence positions are
+ * anchored to characters so they follow concurrent edits.
+ *
+ * A peer joining a room takes the document of the peers already there in place
+ * of its own text, adding only text it alone has (e.g. from an unsaved buffer);
+ * the first peer in a room seeds it with its text. A peer rejoining after
+ * losing its connection swaps document states with everyone in the room and
+ * each side merges the other's in, so edits missed while apart are recovered.
+ */
+import { Inject, Injectable, NgZone, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, Subscription } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
+import { CharId, CrdtOperation, CrdtSnapshot, TextChange, TextCrdt, diffText } from './text-crdt';
+import {
+  COLLABORATION_TRANSPORT,
+  CollaborationMessage,
+  CollaborationTransport,
+  CollaborationTransportFactory,
+  TransportStatus
+} from './collaboration-transport';
+
+/**
+ * Another person currently editing the same file
+ */
+export interface CollaborationParticipant {
+  /** Session id of the peer */
+  peerId: string;
+
+  /** User id (key into userColors) */
+  userId: string;
+
+  /** Display name */
+  name: string;
+
+  /** Presence colour */
+  color: string;
+
+  /** Start of the peer's selection in the local text */
+  selectionStart: number;
+
+  /** End of the peer's selection (caret position) in the local text */
+  selectionEnd: number;
+
+  /** When presence was last received */
+  lastSeen: number;
+}
+
+/**
+ * Text update caused by remote peers
+ */
+export interface RemoteTextUpdate {
+  /** Full text after the update */
+  text: string;
+
+  /** Individual changes in the order they were applied */
+  changes: TextChange[];
+
+  /** Who made the changes; absent when merging another peer's full state */
+  author?: { userId: string; name: string };
+}
+
+/**
+ * Document state as sent over the wire
+ */
+interface SyncPayload {
+  snapshot: CrdtSnapshot;
+  presence: PresencePayload;
+
+  /** Set when answering a sync, which isn't answered again */
+  reply?: boolean;
+}
+
+/**
+ * Presence data as sent over the wire
+ */
+interface PresencePayload {
+  userId: string;
+  name: string;
+  color?: string;
+  anchor: CharId | null;
+  head: CharId | null;
+}
+
+/** Internal presence record with positions kept as character anchors */
+interface PeerPresence extends PresencePayload {
+  peerId: string;
+  lastSeen: number;
+}
+
+/**
+ * Service responsible for real-time collaborative editing sessions.
+ * One session (room) is active at a time, matching the file open in the editor.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CollaborationService implements OnDestroy {
+  /** Colours handed out to participants without one in userColors */
+  private readonly PALETTE = ['#3498db', '#e74c3c', '#2ecc71', '#9b59b6', '#f1c40f', '#1abc9c', '#e67e22', '#fd79a8'];
+
+  /** Presence heartbeat interval */
+  private readonly HEARTBEAT_MS = 15000;
+
+  /** Peers silent for longer than this are dropped */
+  private readonly PRESENCE_TIMEOUT_MS = 45000;
+
+  /** Id of this editing session */
+  readonly peerId = uuidv4();
+
+  private transport: CollaborationTransport | null = null;
+  private transportSubscriptions: Subscription[] = [];
+  private doc: TextCrdt | null = null;
+  private room: string | null = null;
+
+  /** Set from joining a room until the room's document is taken or we seed it */
+  private joining = false;
+  private localUser = { userId: 'anonymous', name: 'Guest' };
+  private userColors: Record<string, string> = {};
+  private peers = new Map<string, PeerPresence>();
+  private localSelection = { start: 0, end: 0 };
+  private heartbeatTimer: any = null;
+
+  private remoteChangesSubject = new Subject<RemoteTextUpdate>();
+  private participantsSubject = new BehaviorSubject<CollaborationParticipant[]>([]);
+  private statusSubject = new BehaviorSubject<TransportStatus>('disconnected');
+  private assetsSubject = new Subject<Record<string, string>>();
+
+  /** Text changes made by other peers */
+  readonly remoteChanges$: Observable<RemoteTextUpdate> = this.remoteChangesSubject.asObservable();
+
+  /** Other peers in the current session */
+  readonly participants$: Observable<CollaborationParticipant[]> = this.participantsSubject.asObservable();
+
+  /** Connection state of the current session */
+  readonly status$: Observable<TransportStatus> = this.statusSubject.asObservable();
+
+  /** Shared assets (e.g. image placeholder data) received from peers */
+  readonly assets$: Observable<Record<string, string>> = this.assetsSubject.asObservable();
+
+  constructor(
+    @Inject(COLLABORATION_TRANSPORT) private transportFactory: CollaborationTransportFactory,
+    private zone: NgZone
+  ) {
+    this.localUser = this.resolveLocalUser();
+  }
+
+  /**
+   * The local user as shown to other participants
+   */
+  get localUserInfo(): { userId: string; name: string } {
+    return { ...this.localUser };
+  }
+
+  /**
+   * Whether a collaboration session is active
+   */
+  get isActive(): boolean {
+    return this.room !== null;
+  }
+
+  /**
+   * Current room identifier, if any
+   */
+  get currentRoom(): string | null {
+    return this.room;
+  }
+
+  /**
+   * Joins the editing session for a team file
+   * @param teamId Team the file belongs to
+   * @param fileId ID of the file
+   * @param initialText Text currently loaded in the editor
+   * @param userColors Known user colours, used for presence
+   */
+  join(teamId: string, fileId: string, initialText: string, userColors: Record<string, string> = {}): void {
+    const room = `${teamId}/${fileId}`;
+    if (this.room === room) {
+      return;
+    }
+
+    this.leave();
+
+    console.log(`🤝 Joining collaboration room ${room}`);
+    this.room = room;
+    this.userColors = userColors;
+    this.localUser = this.resolveLocalUser();
+    // Used until a peer in the room answers, or as the room's document if none does
+    this.doc = TextCrdt.fromText(this.peerId, initialText);
+    this.joining = true;
+    this.localSelection = { start: 0, end: 0 };
+
+    this.transport = this.transportFactory();
+    this.transportSubscriptions = [
+      this.transport.messages$.subscribe(message => this.zone.run(() => this.handleMessage(message))),
+      this.transport.status$.subscribe(status => {
+        this.statusSubject.next(status);
+        // Announce ourselves on connecting and again after reconnecting, which
+        // has the peers send their state for the edits missed in between
+        if (status === 'connected' && this.room) {
+          this.send('join', this.presencePayload());
+        }
+      })
+    ];
+
+    this.transport.connect(room, this.peerId);
+
+    this.heartbeatTimer = setInterval(() => {
+      this.send('presence', this.presencePayload());
+      this.dropSilentPeers();
+    }, this.HEARTBEAT_MS);
+  }
+
+  /**
+   * Leaves the current session
+   */
+  leave(): void {
+    if (!this.room) {
+      return;
+    }
+
+    console.log(`👋 Leaving collaboration room ${this.room}`);
+    this.send('leave');
+
+    clearInterval(this.heartbeatTimer);
+    this.transportSubscriptions.forEach(subscription => subscription.unsubscribe());
+    this.transportSubscriptions = [];
+    this.transport?.disconnect();
+    this.transport = null;
+
+    this.room = null;
+    this.joining = false;
+    this.doc = null;
+    this.peers.clear();
+    this.participantsSubject.next([]);
+    this.statusSubject.next('disconnected');
+  }
+
+  /**
+   * Records a local edit. The new text is diffed against the shared document
+   * and the resulting operations are broadcast.
+   * @param text Full editor text after the edit
+   */
+  updateLocalText(text: string): void {
+    if (!this.doc) {
+      return;
+    }
+
+    const change = diffText(this.doc.getText(), text);
+    if (!change) {
+      return;
+    }
+
+    const operations = [
+      ...this.doc.localDelete(change.index, change.deleteCount),
+      ...this.doc.localInsert(change.index, change.text)
+    ];
+
+    this.send('ops', { operations });
+    this.emitParticipants();
+  }
+
+  /**
+   * Records the local selection and shares it with the other peers
+   * @param start Selection start
+   * @param end Selection end (caret)
+   */
+  updateLocalSelection(start: number, end: number): void {
+    if (!this.doc || (start === this.localSelection.start && end === this.localSelection.end)) {
+      return;
+    }
+
+    this.localSelection = { start, end };
+    this.send('presence', this.presencePayload());
+  }
+
+  /**
+   * Shares assets referenced by the text (such as image placeholders) with the other peers
+   * @param assets Map of placeholder to content
+   */
+  shareAssets(assets: Record<string, string>): void {
+    if (Object.keys(assets).length > 0) {
+      this.send('assets', { assets });
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.leave();
+  }
+
+  private handleMessage(message: CollaborationMessage): void {
+    if (!this.doc || message.room !== this.room || message.peerId === this.peerId) {
+      return;
+    }
+    if (message.to && message.to !== this.peerId) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'join':
+        // Bring the newcomer up to date and tell them where we are; nobody
+        // answered our own join, so our document is the room's now
+        this.joining = false;
+        this.updatePresence(message.peerId, message.payload);
+        this.sendSync(message.peerId, false);
+        break;
+
+      case 'sync':
+        this.applySync(message);
+        break;
+
+      case 'ops':
+        this.applyOperations(message.peerId, message.payload?.operations || []);
+        break;
+
+      case 'presence':
+        this.updatePresence(message.peerId, message.payload);
+        break;
+
+      case 'assets':
+        this.assetsSubject.next(message.payload?.assets || {});
+        break;
+
+      case 'leave':
+        this.peers.delete(message.peerId);
+        this.emitParticipants();
+        break;
+    }
+  }
+
+  /**
+   * Takes the room's document when joining, or else merges the document state
+   * of another peer, and answers with ours so the peer gets the local edits it
+   * hasn't seen
+   */
+  private applySync(message: CollaborationMessage): void {
+    const payload = message.payload as SyncPayload | undefined;
+    if (payload?.presence) {
+      this.updatePresence(message.peerId, payload.presence);
+    }
+
+    if (!payload?.snapshot || !this.doc) {
+      return;
+    }
+
+    if (this.joining) {
+      this.adoptRoomDocument(payload.snapshot);
+    } else {
+      const changes = this.doc.merge(payload.snapshot);
+      if (changes.length > 0) {
+        this.remoteChangesSubject.next({ text: this.doc.getText(), changes });
+      }
+    }
+    this.emitParticipants();
+
+    if (!payload.reply) {
+      this.sendSync(message.peerId, true);
+    }
+  }
+
+  /**
+   * Replaces the document seeded on joining with the room's, keeping text only we have
+   */
+  private adoptRoomDocument(snapshot: CrdtSnapshot): void {
+    this.joining = false;
+
+    const before = this.doc!.getText();
+    const { doc, operations } = TextCrdt.join(this.peerId, snapshot, before);
+    this.doc = doc;
+    if (operations.length > 0) {
+      this.send('ops', { operations });
+    }
+
+    const change = diffText(before, doc.getText());
+    if (change) {
+      this.remoteChangesSubject.next({ text: doc.getText(), changes: [change] });
+    }
+  }
+
+  private sendSync(peerId: string, reply: boolean): void {
+    const payload: SyncPayload = { snapshot: this.doc!.snapshot(), presence: this.presencePayload(), reply };
+    this.send('sync', payload, peerId);
+  }
+
+  private applyOperations(peerId: string, operations: CrdtOperation[]): void {
+    if (!this.doc || operations.length === 0) {
+      return;
+    }
+
+    const changes = this.doc.applyRemote(operations);
+    if (changes.length > 0) {
+      const peer = this.peers.get(peerId);
+      this.remoteChangesSubject.next({
+        text: this.doc.getText(),
+        changes,
+        author: peer ? { userId: peer.userId, name: peer.name } : undefined
+      });
+      this.emitParticipants();
+    }
+  }
+
+  private updatePresence(peerId: string, payload: PresencePayload | undefined): void {
+    if (!payload) {
+      return;
+    }
+
+    this.peers.set(peerId, { ...payload, peerId, lastSeen: Date.now() });
+    this.emitParticipants();
+  }
+
+  private dropSilentPeers(): void {
+    const cutoff = Date.now() - this.PRESENCE_TIMEOUT_MS;
+    let changed = false;
+
+    this.peers.forEach((peer, peerId) => {
+      if (peer.lastSeen < cutoff) {
+        this.peers.delete(peerId);
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      this.emitParticipants();
+    }
+  }
+
+  /**
+   * Publishes participants with their anchors resolved against the current text
+   */
+  private emitParticipants(): void {
+    if (!this.doc) {
+      return;
+    }
+
+    const participants = Array.from(this.peers.values()).map(peer => ({
+      peerId: peer.peerId,
+      userId: peer.userId,
+      name: peer.name,
+      color: this.colorFor(peer.userId, peer.color),
+      selectionStart: this.doc!.indexOf(peer.anchor),
+      selectionEnd: this.doc!.indexOf(peer.head),
+      lastSeen: peer.lastSeen
+    }));
+
+    this.participantsSubject.next(participants);
+  }
+
+  private presencePayload(): PresencePayload {
+    return {
+      userId: this.localUser.userId,
+      name: this.localUser.name,
+      color: this.userColors[this.localUser.userId],
+      anchor: this.doc ? this.doc.idAt(this.localSelection.start) : null,
+      head: this.doc ? this.doc.idAt(this.localSelection.end) : null
+    };
+  }
+
+  /**
+   * Picks a participant's colour: their userColors entry, the colour they announced,
+   * or a stable palette colour derived from their user id
+   */
+  colorFor(userId: string, announced?: string): string {
+    if (this.userColors[userId]) {
+      return this.userColors[userId];
+    }
+    if (announced) {
+      return announced;
+    }
+
+    let hash = 0;
+    for (let i = 0; i < userId.length; i++) {
+      hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+    }
+    return this.PALETTE[Math.abs(hash) % this.PALETTE.length];
+  }
+
+  private send(type: CollaborationMessage['type'], payload?: any, to?: string): void {
+    if (!this.transport || !this.room) {
+      return;
+    }
+
+    this.transport.send({ type, room: this.room, peerId: this.peerId, payload, ...(to ? { to } : {}) });
+  }
+
+  /**
+   * Reads the signed-in user from the auth token, falling back to a guest identity
+   */
+  private resolveLocalUser(): { userId: string; name: string } {
+    try {
+      const token = localStorage.getItem('auth_token');
+      if (token && token.split('.').length === 3) {
+        const claims = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+        const userId = claims.sub || claims.user_id || claims.email;
+        if (userId) {
+          return { userId, name: claims.email || claims.name || userId };
+        }
+      }
+    } catch (e) {
+      console.warn('⚠️ Could not read user from auth token', e);
+    }
+
+    return { userId: `guest-${this.peerId.substring(0, 8)}`, name: 'Guest' };
+  }
+}
@@ -0,0 +1,45 @@
+import { TestBed } from '@angular/core/testing';
+
+import { AppCommand, CommandRegistryService } from './command-registry.service';
+
+describe('CommandRegistryService', () => {
+  let service: CommandRegistryService;
+  let ran: string[];
+
+  const command = (id: string, extra: Partial<AppCommand> = {}): AppCommand => ({
+    id,
+    label: id,
+    run: () => ran.push(id),
+    ...extra
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(CommandRegistryService);
+    ran = [];
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should replace commands registered again and remove them on unregister', () => {
+    service.register(command('a'), command('b'));
+    const unregister = service.register(command('a', { label: 'New A' }));
+
+    expect(service.available().map(entry => entry.label)).toEqual(['b', 'New A']);
+
+    unregister();
+    expect(service.available().map(entry => entry.id)).toEqual(['b']);
+  });
+
+  it('should only run available commands', () => {
+    let enabled = false;
+    service.register(command('a', { isAvailable: () => enabled }));
+
+    expect(service.run('a')).toBe(false);
+    enabled = true;
+    expect(service.run('a')).toBe(true);
+    expect(ran).toEqual(['a']);
+  });
+});
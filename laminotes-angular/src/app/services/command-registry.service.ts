@@ -0,0 +1,87 @@
+/**
+ * Command registry service.
+ *
+ * Holds the actions offered in the quick-open palette. Features register their
+ * commands when they start and remove them when they go away, so the palette
+ * lists whatever the app can do without knowing about each feature.
+ */
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+
+/**
+ * An action that can be run from the quick-open palette
+ */
+export interface AppCommand {
+  /** Unique id, e.g. 'view.split'; registering an id again replaces the command */
+  id: string;
+
+  /** Label shown in the palette, e.g. 'Split Editor and Preview' */
+  label: string;
+
+  /** Group shown before the label, e.g. 'View' or 'AI' */
+  category?: string;
+
+  /** Font Awesome icon class, e.g. 'fa-columns' */
+  icon?: string;
+
+  /** Keyboard shortcut shown next to the label */
+  shortcut?: string;
+
+  /** Other words the command is found by */
+  keywords?: string[];
+
+  /** Whether the command can run now; commands that can't are left out of the palette */
+  isAvailable?: () => boolean;
+
+  run: () => void;
+}
+
+/**
+ * Registry of the commands listed in the quick-open palette
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CommandRegistryService {
+  private commandsSubject = new BehaviorSubject<AppCommand[]>([]);
+
+  /** Every registered command, in the order they were registered */
+  readonly commands$ = this.commandsSubject.asObservable();
+
+  /**
+   * Adds commands, replacing registered ones with the same id
+   * @returns A function removing the commands again
+   */
+  register(...commands: AppCommand[]): () => void {
+    const ids = new Set(commands.map(command => command.id));
+    this.commandsSubject.next([...this.commandsSubject.value.filter(command => !ids.has(command.id)), ...commands]);
+
+    return () => this.unregister(...commands.map(command => command.id));
+  }
+
+  unregister(...ids: string[]): void {
+    this.commandsSubject.next(this.commandsSubject.value.filter(command => !ids.includes(command.id)));
+  }
+
+  /**
+   * Commands that can run now
+   */
+  available(): AppCommand[] {
+    return this.commandsSubject.value.filter(command => !command.isAvailable || command.isAvailable());
+  }
+
+  /**
+   * Runs a command by its id
+   * @returns Whether the command was found and could run
+   */
+  run(id: string): boolean {
+    const command = this.available().find(entry => entry.id === id);
+    if (!command) {
+      console.warn(`⚠️ Unknown or unavailable command: ${id}`);
+      return false;
+    }
+
+    command.run();
+    return true;
+  }
+}
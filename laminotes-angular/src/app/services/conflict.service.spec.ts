@@ -0,0 +1,63 @@
+import { TestBed } from '@angular/core/testing';
+import { EMPTY, of } from 'rxjs';
+
+import { ConflictData } from '../components/conflict-resolution/conflict-resolution.component';
+import { AutosaveService } from './autosave.service';
+import { ConflictService, ResolvedConflict } from './conflict.service';
+import { FileInfo, FileService } from './file.service';
+import { OfflineQueueService } from './offline-queue.service';
+
+describe('ConflictService', () => {
+  let service: ConflictService;
+  let fileService: jasmine.SpyObj<FileService>;
+  const open: FileInfo = { name: 'Open.md', path: '/notes/Open.md' };
+
+  const conflict = (fileName: string): ConflictData => ({
+    fileId: fileName,
+    fileName,
+    localVersion: 'local',
+    remoteVersion: 'remote',
+    lastLocalUpdate: '2024-01-01T00:00:00Z',
+    lastRemoteUpdate: '2024-01-01T00:00:00Z',
+    remoteAuthor: 'another user',
+    conflictRegions: []
+  });
+
+  beforeEach(() => {
+    fileService = jasmine.createSpyObj<FileService>('FileService', ['saveNote'], {
+      currentFile: open,
+      filesInDirectory: [open]
+    });
+    fileService.saveNote.and.returnValue(of(undefined));
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: FileService, useValue: fileService },
+        { provide: AutosaveService, useValue: jasmine.createSpyObj('AutosaveService', ['markSaved'], { conflicts$: EMPTY }) },
+        { provide: OfflineQueueService, useValue: { conflicts$: EMPTY, held$: EMPTY } }
+      ]
+    });
+    service = TestBed.inject(ConflictService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should keep conflicts by note and save a resolution to its note', () => {
+    const resolved: ResolvedConflict[] = [];
+    service.resolved$.subscribe(entry => resolved.push(entry));
+
+    service.add('/notes/Plan.md', 'disk', conflict('Plan.md'));
+    service.add(open.path, 'autosave', conflict('Open.md'));
+    expect(service.conflictFor(open.path)?.conflict.fileName).toBe('Open.md');
+    expect(service.conflictFor('/notes/Plan.md')?.conflict.fileId).toBe('/notes/Plan.md');
+
+    service.resolve('/notes/Plan.md', 'merged').subscribe();
+
+    expect(fileService.saveNote).toHaveBeenCalledWith('/notes/Plan.md', 'merged');
+    expect(resolved).toEqual([{ path: '/notes/Plan.md', content: 'merged' }]);
+    expect(service.conflictFor('/notes/Plan.md')).toBeNull();
+    expect(service.conflictFor(open.path)).not.toBeNull();
+  });
+});
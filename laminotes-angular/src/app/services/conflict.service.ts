@@ -0,0 +1,173 @@
+/**
+ * Conflict service.
+ *
+ * Collects the conflicts found for notes, keyed by the note they belong to:
+ * unsaved edits overlapping changes made on disk, offline changes replayed to
+ * the server, and autosaves overlapping versions saved by others. The resolver
+ * is shown for the conflict of the open note, and a resolution is saved to the
+ * note the conflict belongs to, whichever note is open by then. An offline
+ * change that conflicts stays in the journal until its conflict is resolved.
+ */
+import { Injectable } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { ConflictData } from '../components/conflict-resolution/conflict-resolution.component';
+import { AutosaveConflict, AutosaveService } from './autosave.service';
+import { FileService } from './file.service';
+import { NotificationService } from './notification.service';
+import { OfflineQueueService, ReplayConflict } from './offline-queue.service';
+
+/**
+ * Where a conflict was found
+ */
+export type ConflictSource = 'disk' | 'replay' | 'autosave';
+
+/**
+ * A conflict waiting to be resolved
+ */
+export interface NoteConflict {
+  /** Path of the note */
+  path: string;
+
+  /** Where the conflict was found */
+  source: ConflictSource;
+
+  /** Resolver input; its fileId is the note's path */
+  conflict: ConflictData;
+
+  /** Journaled operation held back by the conflict, for replay conflicts */
+  operationId?: string;
+}
+
+/**
+ * Content saved to a note to resolve its conflict
+ */
+export interface ResolvedConflict {
+  /** Path of the note */
+  path: string;
+
+  /** Content saved */
+  content: string;
+}
+
+/**
+ * Service responsible for the conflicts waiting to be resolved
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConflictService {
+  /** Unresolved conflicts by note path; a newer conflict replaces an older one */
+  private conflicts = new Map<string, NoteConflict>();
+
+  private resolvedSubject = new Subject<ResolvedConflict>();
+
+  /** Conflicts resolved, for showing the saved content if the note is open */
+  readonly resolved$ = this.resolvedSubject.asObservable();
+
+  constructor(
+    private fileService: FileService,
+    private autosave: AutosaveService,
+    private offlineQueue: OfflineQueueService,
+    private notificationService: NotificationService
+  ) {
+    this.offlineQueue.conflicts$.subscribe(conflict => this.onReplayConflict(conflict));
+    this.autosave.conflicts$.subscribe(conflict => this.onAutosaveConflict(conflict));
+
+    // Conflicts of operations discarded from the journal are gone with them
+    this.offlineQueue.held$.subscribe(held => {
+      const heldIds = new Set(held.map(operation => operation.id));
+      for (const entry of Array.from(this.conflicts.values())) {
+        if (entry.operationId && !heldIds.has(entry.operationId)) {
+          this.conflicts.delete(entry.path);
+        }
+      }
+    });
+  }
+
+  /**
+   * The unresolved conflict of a note, if any
+   * @param path Path of the note
+   */
+  conflictFor(path: string | undefined): NoteConflict | null {
+    return path === undefined ? null : this.conflicts.get(path) ?? null;
+  }
+
+  /**
+   * Records a conflict; the resolver shows it while its note is open
+   * @param path Path of the note
+   * @param source Where the conflict was found
+   * @param conflict Resolver input
+   * @param operationId Journaled operation held back by the conflict
+   */
+  add(path: string, source: ConflictSource, conflict: ConflictData, operationId?: string): void {
+    this.conflicts.set(path, { path, source, conflict: { ...conflict, fileId: path }, operationId });
+  }
+
+  /**
+   * Saves the resolved content to the note the conflict belongs to. The
+   * journaled operation that conflicted is replaced by this save.
+   * @param path Path of the note
+   * @param content Resolved content
+   */
+  resolve(path: string, content: string): Observable<void> {
+    const operationId = this.conflicts.get(path)?.operationId;
+
+    return this.fileService.saveNote(path, content).pipe(
+      tap(() => {
+        if (operationId) {
+          this.offlineQueue.discard(operationId);
+        }
+        this.conflicts.delete(path);
+        this.autosave.markSaved(path);
+        this.resolvedSubject.next({ path, content });
+      })
+    );
+  }
+
+  /**
+   * Puts a conflict aside without resolving it; a journaled operation stays
+   * held until it's retried or discarded
+   * @param path Path of the note
+   */
+  dismiss(path: string): void {
+    this.conflicts.delete(path);
+  }
+
+  /**
+   * Records conflicts on content found replaying the journal; others are reported
+   */
+  private onReplayConflict(replayConflict: ReplayConflict): void {
+    const { operation, conflict, message } = replayConflict;
+    const file = this.fileService.filesInDirectory.find(entry =>
+      entry.name === operation.fileName && (entry.team_id ?? null) === (operation.teamId ?? null));
+
+    if (!conflict || !file) {
+      this.notificationService.warning(message);
+      return;
+    }
+
+    this.add(file.path, 'replay', conflict, operation.id);
+    this.reportUnlessOpen(file.path, message);
+  }
+
+  /**
+   * Records an autosave conflict; the note isn't autosaved until it's resolved or saved
+   */
+  private onAutosaveConflict(autosaveConflict: AutosaveConflict): void {
+    this.add(autosaveConflict.path, 'autosave', autosaveConflict.conflict);
+    this.reportUnlessOpen(
+      autosaveConflict.path,
+      `${autosaveConflict.conflict.fileName} was changed on the server. Open it to resolve the conflict; it won't be autosaved until then.`
+    );
+  }
+
+  /**
+   * Tells about a conflict on a note other than the open one, whose resolver isn't showing
+   */
+  private reportUnlessOpen(path: string, message: string): void {
+    if (this.fileService.currentFile?.path !== path) {
+      this.notificationService.warning(message);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Document picker plugin.
+ *
+ * Interface of the native DocumentPicker plugin in ios/App/App, which lets
+ * the user pick documents and folders anywhere in the Files app (iCloud Drive
+ * and other providers included). Picked locations are reached through
+ * security-scoped bookmarks: every file operation names the bookmark of a
+ * picked document or folder and a path relative to it.
+ */
+import { registerPlugin } from '@capacitor/core';
+
+/** A document or folder the user picked */
+export interface PickedLocation {
+  /** True when the picker was dismissed; no other field is set then */
+  cancelled: boolean;
+  /** Absolute path of the location */
+  path?: string;
+  /** Display name, e.g. "Plan.md" */
+  name?: string;
+  /** Base64 security-scoped bookmark that grants access after restarts */
+  bookmark?: string;
+}
+
+/** A picked document with its text */
+export interface PickedDocument extends PickedLocation {
+  content?: string;
+}
+
+/** A file inside a bookmarked location */
+export interface BookmarkTarget {
+  bookmark: string;
+  /** Path relative to the bookmarked location; '' for the location itself */
+  path: string;
+}
+
+/** A markdown file found below a bookmarked folder */
+export interface BookmarkedFile {
+  /** Path relative to the listed folder */
+  name: string;
+  size: number;
+  /** Modification time in milliseconds */
+  mtime: number;
+}
+
+export interface DocumentPickerPlugin {
+  /** Lets the user pick a markdown or text document and reads it */
+  pickDocument(): Promise<PickedDocument>;
+
+  /** Lets the user pick a folder */
+  pickDirectory(): Promise<PickedLocation>;
+
+  /** Lets the user choose where to save a new document, then writes it there */
+  exportDocument(options: { fileName: string; data: string; binary?: boolean }): Promise<PickedLocation>;
+
+  /** Checks that a bookmark still resolves; the returned bookmark replaces a stale one */
+  resolveBookmark(options: { bookmark: string }): Promise<{ path: string; bookmark: string }>;
+
+  /** Lists the markdown files below the target folder, subfolders included, and the subfolders relative to it */
+  listFiles(options: BookmarkTarget): Promise<{ files: BookmarkedFile[]; folders: string[] }>;
+
+  readFile(options: BookmarkTarget): Promise<{ data: string }>;
+
+  /** Writes text, or base64 data when binary is set; missing folders are created */
+  writeFile(options: BookmarkTarget & { data: string; binary?: boolean }): Promise<void>;
+
+  /** Deletes a file, or a folder with everything in it */
+  deleteFile(options: BookmarkTarget): Promise<void>;
+
+  /** Moves a file or folder to another path relative to the same bookmark; fails if that path is taken */
+  moveItem(options: BookmarkTarget & { to: string }): Promise<void>;
+
+  createDirectory(options: BookmarkTarget): Promise<void>;
+
+  exists(options: BookmarkTarget): Promise<{ exists: boolean }>;
+}
+
+export const DocumentPicker = registerPlugin<DocumentPickerPlugin>('DocumentPicker');
@@ -1,33 +1,47 @@
-import { Injectable } from '@angular/core';
-import { from, Observable, of, throwError } from 'rxjs';
-import { catchError, map, tap } from 'rxjs/operators';
+import { Injectable, NgZone } from '@angular/core';
+import { defer, from, merge, Observable, of, throwError } from 'rxjs';
+import { catchError, map, mergeMap, share, tap } from 'rxjs/operators';
 
 @Injectable({
   providedIn: 'root'
 })
 export class ElectronService {
-  private ipcRenderer: any;
-  private electronAPI: any;
+  /** API exposed by the preload script; the renderer has no direct access to Node or ipcRenderer */
+  private electronAPI: ElectronAPI | undefined = window.electronAPI;
   private apiService: any;
 
-  constructor() {
-    if (this.isElectron()) {
-      if ((window as any).require) {
-        this.ipcRenderer = (window as any).require('electron').ipcRenderer;
-      }
-      if ((window as any).electronAPI) {
-        this.electronAPI = (window as any).electronAPI;
-      }
-    }
-  }
+  /** Markdown files added, changed or removed in the watched notes folder */
+  readonly directoryChanges$ = this.fromMainProcess<ElectronDirectoryChange>((api, callback) => api.onDirectoryChanged(callback));
+
+  /** Commands chosen from the application menu or by their shortcut */
+  readonly menuCommands$ = this.fromMainProcess<ElectronMenuCommand>((api, callback) => api.onMenuCommand(callback));
+
+  /** Notes edited in another window */
+  readonly noteSynced$ = this.fromMainProcess<ElectronNote>((api, callback) => api.onNoteSynced(callback));
+
+  /** Paths of the notes open in their own window */
+  readonly noteWindows$ = this.fromMainProcess<string[]>((api, callback) => api.onNoteWindowsChanged(callback));
+
+  /** The main window is being closed while it has unsaved notes */
+  readonly closeRequests$ = this.fromMainProcess<void>((api, callback) => api.onCloseRequested(callback));
+
+  constructor(private zone: NgZone) {}
 
   isElectron(): boolean {
-    // More reliable way to detect Electron
-    return !!(
-      window && 
-      ((window as any).process && (window as any).process.type) || 
-      (window as any).electronAPI
-    );
+    return !!this.electronAPI;
+  }
+
+  /**
+   * Turns messages from the main process into an observable. They arrive
+   * outside Angular, so they are brought back into the Angular zone.
+   */
+  private fromMainProcess<T>(listen: (api: ElectronAPI, callback: (message: T) => void) => () => void): Observable<T> {
+    return new Observable<T>(subscriber => {
+      if (!this.electronAPI) {
+        return undefined;
+      }
+      return listen(this.electronAPI, message => this.zone.run(() => subscriber.next(message)));
+    }).pipe(share());
   }
 
   saveFile(content: string, filePath?: string, saveAs = false, options: { saveAsBinary?: boolean, mimeType?: string } = {}): Observable<void> {
@@ -39,52 +53,23 @@ export class ElectronService {
       mimeType: options.mimeType
     });
     
-    if (!this.isElectron()) {
+    if (!this.electronAPI) {
       console.log('Not running in Electron environment');
       return throwError(() => new Error('Not running in Electron'));
     }
-    
-    // First check if electronAPI is available
-    if (this.electronAPI) {
-      console.log('Using electronAPI.saveFile');
-      const saveOptions = { 
-        content, 
-        filePath, 
-        saveAs,
-        saveAsBinary: options.saveAsBinary || false,
-        mimeType: options.mimeType
-      };
-      console.log('Calling with options:', { 
-        contentProvided: !!content,
-        filePath, 
-        saveAs,
-        saveAsBinary: options.saveAsBinary,
-        mimeType: options.mimeType
-      });
-      
-      return from(this.electronAPI.saveFile(saveOptions))
-        .pipe(
-          tap((result: any) => console.log('saveFile result:', result)),
-          map((result: any) => {
-            if (result && result.success) {
-              return undefined; // Return void on success
-            } else {
-              throw new Error(result?.message || 'Failed to save file');
-            }
-          }),
-          catchError(error => {
-            console.error('Error in saveFile:', error);
-            return throwError(() => error);
-          })
-        );
-    }
 
-    // Fall back to direct IPC for older Electron apps
-    console.log('Using IPC invoke for save-file');
-    return from(this.ipcRenderer.invoke('save-file', { content, filePath, saveAs }))
+    const saveOptions: ElectronSaveOptions = {
+      content,
+      filePath,
+      saveAs,
+      saveAsBinary: options.saveAsBinary || false,
+      mimeType: options.mimeType
+    };
+
+    return from(this.electronAPI.saveFile(saveOptions))
       .pipe(
-        tap((result: any) => console.log('IPC save-file result:', result)),
-        map((result: any) => {
+        tap(result => console.log('saveFile result:', result)),
+        map(result => {
           if (result && result.success) {
             return undefined; // Return void on success
           } else {
@@ -92,7 +77,7 @@ export class ElectronService {
           }
         }),
         catchError(error => {
-          console.error('Error in saveFile IPC:', error);
+          console.error('Error in saveFile:', error);
           return throwError(() => error);
         })
       );
@@ -101,16 +86,11 @@ export class ElectronService {
   deleteFile(filePath: string): Observable<any> {
     console.log('ElectronService: deleteFile', filePath);
 
-    if (!this.isElectron()) {
+    if (!this.electronAPI) {
       return of({ success: false, message: 'Not running in Electron' });
     }
 
-    if (!window.electronAPI) {
-      console.error('Electron API not available');
-      return of({ success: false, message: 'Electron API not available' });
-    }
-
-    return from(window.electronAPI.deleteFile(filePath)).pipe(
+    return from(this.electronAPI.deleteFile(filePath)).pipe(
       map(result => {
         console.log('Delete file result:', result);
         return result;
@@ -125,19 +105,32 @@ export class ElectronService {
     );
   }
 
-  renameFile(oldPath: string, newPath: string): Observable<any> {
-    console.log('ElectronService: renameFile', oldPath, 'to', newPath);
+  deleteDirectory(dirPath: string): Observable<any> {
+    console.log('ElectronService: deleteDirectory', dirPath);
 
-    if (!this.isElectron()) {
+    if (!this.electronAPI) {
       return of({ success: false, message: 'Not running in Electron' });
     }
 
-    if (!window.electronAPI) {
-      console.error('Electron API not available');
-      return of({ success: false, message: 'Electron API not available' });
+    return from(this.electronAPI.deleteDirectory(dirPath)).pipe(
+      catchError(error => {
+        console.error('Error deleting directory:', error);
+        return of({
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      })
+    );
+  }
+
+  renameFile(oldPath: string, newPath: string): Observable<any> {
+    console.log('ElectronService: renameFile', oldPath, 'to', newPath);
+
+    if (!this.electronAPI) {
+      return of({ success: false, message: 'Not running in Electron' });
     }
 
-    return from(window.electronAPI.renameFile(oldPath, newPath)).pipe(
+    return from(this.electronAPI.renameFile(oldPath, newPath)).pipe(
       map(result => {
         console.log('Rename file result:', result);
         return result;
@@ -153,16 +146,11 @@ export class ElectronService {
   }
 
   createDirectory(dirPath: string): Observable<any> {
-    if (!this.isElectron()) {
+    if (!this.electronAPI) {
       return of({ success: false, message: 'Not running in Electron' });
     }
 
-    if (!window.electronAPI) {
-      console.error('Electron API not available');
-      return of({ success: false, message: 'Electron API not available' });
-    }
-
-    return from(window.electronAPI.createDirectory(dirPath)).pipe(
+    return from(this.electronAPI.createDirectory(dirPath)).pipe(
       map(result => {
         console.log('Create directory result:', result);
         return result;
@@ -178,18 +166,13 @@ export class ElectronService {
   }
 
   selectDirectory(initialPath?: string | null): Observable<any> {
-    if (!this.isElectron()) {
+    if (!this.electronAPI) {
       return of({ success: false, message: 'Not running in Electron' });
     }
 
-    if (!window.electronAPI) {
-      console.error('Electron API not available');
-      return of({ success: false, message: 'Electron API not available' });
-    }
-
     // If an initial path is provided, it will be used as the starting directory
     // Handle null/undefined safely and ensure it's passed correctly to the API
-    return from(window.electronAPI.selectDirectory(initialPath || undefined)).pipe(
+    return from(this.electronAPI.selectDirectory(initialPath || undefined)).pipe(
       map(result => {
         console.log('Select directory result:', result);
         return result;
@@ -222,22 +205,16 @@ export class ElectronService {
   showPrompt(title: string, label: string, defaultValue: string = ''): Observable<string | null> {
     console.log('ElectronService: showPrompt', title, label, defaultValue);
 
-    if (!this.isElectron()) {
+    if (!this.electronAPI) {
       // Fallback to browser prompt in non-Electron environments
       const result = prompt(label, defaultValue);
       return of(result);
     }
 
-    if (!window.electronAPI) {
-      console.error('Electron API not available');
-      return of(null);
-    }
-
-    return from(window.electronAPI.showPromptDialog({
+    return from(this.electronAPI.showPromptDialog({
       title,
       label,
-      value: defaultValue,
-      placeholder: 'Enter value'
+      value: defaultValue
     })).pipe(
       map(result => result.success ? result.value : null),
       catchError(error => {
@@ -249,15 +226,11 @@ export class ElectronService {
 
 
   openFile(): Observable<any> {
-    if (!this.isElectron()) {
+    if (!this.electronAPI) {
       return of({ success: false, message: 'Not running in Electron' });
     }
 
-    if (this.electronAPI) {
-      return from(this.electronAPI.openFile());
-    }
-
-    return from(this.ipcRenderer.invoke('open-file'))
+    return from(this.electronAPI.openFile())
       .pipe(
         catchError(error => {
           console.error('Error in openFile:', error);
@@ -270,18 +243,201 @@ export class ElectronService {
   }
 
   checkFileExists(filePath: string): Observable<boolean> {
-    if (!this.isElectron()) {
+    if (!this.electronAPI) {
       return of(false);
     }
 
-    if (this.electronAPI) {
-      return from(this.electronAPI.checkFile(filePath)).pipe(
-        map(result => !!result)
-      );
+    return from(this.electronAPI.checkFile(filePath)).pipe(
+      map(result => !!result),
+      catchError(() => of(false))
+    );
+  }
+
+  /**
+   * Reads a note from a notes folder
+   * @returns The content, or null if it couldn't be read
+   */
+  readFile(filePath: string): Observable<string | null> {
+    if (!this.electronAPI) {
+      return of(null);
     }
 
-    return from(this.ipcRenderer.invoke('check-file', filePath)).pipe(
-      map(result => !!result)
+    return from(this.electronAPI.readFile(filePath)).pipe(
+      map(result => result.success && typeof result.content === 'string' ? result.content : null),
+      catchError(error => {
+        console.error('Error reading file:', error);
+        return of(null);
+      })
+    );
+  }
+
+  /**
+   * Starts reporting changes in a notes folder on directoryChanges$;
+   * only one folder is watched at a time
+   */
+  watchDirectory(dirPath: string): Observable<ElectronResult> {
+    if (!this.electronAPI) {
+      return of({ success: false, message: 'Not running in Electron' });
+    }
+
+    return from(this.electronAPI.watchDirectory(dirPath)).pipe(
+      catchError(error => {
+        console.error('Error watching directory:', error);
+        return of({
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      })
     );
   }
+
+  unwatchDirectory(): Observable<ElectronResult> {
+    if (!this.electronAPI) {
+      return of({ success: false, message: 'Not running in Electron' });
+    }
+
+    return from(this.electronAPI.unwatchDirectory()).pipe(
+      catchError(error => {
+        console.error('Error unwatching directory:', error);
+        return of({
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      })
+    );
+  }
+
+  getShortcuts(): Observable<ElectronShortcut[]> {
+    if (!this.electronAPI) {
+      return of([]);
+    }
+
+    return from(this.electronAPI.getShortcuts()).pipe(
+      catchError(error => {
+        console.error('Error reading shortcuts:', error);
+        return of([]);
+      })
+    );
+  }
+
+  /**
+   * Changes the menu shortcuts
+   * @param accelerators Accelerators by command id; '' removes a shortcut
+   * @returns The shortcuts now in use
+   */
+  setShortcuts(accelerators: Record<string, string>): Observable<ElectronShortcut[]> {
+    if (!this.electronAPI) {
+      return of([]);
+    }
+
+    return from(this.electronAPI.setShortcuts(accelerators)).pipe(
+      catchError(error => {
+        console.error('Error saving shortcuts:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Lists the teams in the Team menu, checking the active one
+   */
+  setMenuTeams(teams: { id: string; name: string }[], activeTeamId: string | null): void {
+    this.electronAPI?.setMenuTeams(teams, activeTeamId).catch(error => {
+      console.error('Error updating team menu:', error);
+    });
+  }
+
+  /**
+   * Opens a note in its own window
+   */
+  openNoteWindow(note: ElectronNoteWindow): Observable<ElectronResult> {
+    if (!this.electronAPI) {
+      return of({ success: false, message: 'Not running in Electron' });
+    }
+
+    return from(this.electronAPI.openNoteWindow(note)).pipe(
+      catchError(error => {
+        console.error('Error opening note window:', error);
+        return of({
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      })
+    );
+  }
+
+  /**
+   * The note this window was opened for; null in the main window
+   */
+  getNoteWindow(): Observable<ElectronNoteWindow | null> {
+    if (!this.electronAPI) {
+      return of(null);
+    }
+
+    return from(this.electronAPI.getNoteWindow()).pipe(
+      catchError(error => {
+        console.error('Error reading note window:', error);
+        return of(null);
+      })
+    );
+  }
+
+  /**
+   * Sends the edited content of a note to the other windows showing it
+   */
+  syncNote(path: string, content: string): void {
+    this.electronAPI?.syncNote(path, content).catch(error => {
+      console.error('Error syncing note:', error);
+    });
+  }
+
+  /**
+   * Markdown files opened from the OS ("Open with", double-click, a second launch),
+   * starting with those opened before the page was ready. Taking the waiting
+   * files empties the queue, so subscribe once.
+   */
+  openedFiles(): Observable<ElectronOpenedFile> {
+    const api = this.electronAPI;
+    if (!api) {
+      return of();
+    }
+
+    return merge(
+      this.fromMainProcess<ElectronOpenedFile>((electronAPI, callback) => electronAPI.onFileOpened(callback)),
+      defer(() => api.takeOpenedFiles()).pipe(
+        mergeMap(files => from(files)),
+        catchError(error => {
+          console.error('Error taking opened files:', error);
+          return of();
+        })
+      )
+    );
+  }
+
+  /**
+   * Tells the main process whether closing the window should ask about unsaved notes first
+   */
+  setUnsavedChanges(unsaved: boolean): void {
+    this.electronAPI?.setUnsavedChanges(unsaved).catch(error => {
+      console.error('Error reporting unsaved changes:', error);
+    });
+  }
+
+  /**
+   * Lets the main window close once its unsaved notes are saved or discarded
+   */
+  confirmClose(): void {
+    this.electronAPI?.confirmClose().catch(error => {
+      console.error('Error closing the window:', error);
+    });
+  }
+
+  /**
+   * Adds a note file to the OS recent documents
+   */
+  addRecentDocument(path: string): void {
+    this.electronAPI?.addRecentDocument(path).catch(error => {
+      console.error('Error adding recent document:', error);
+    });
+  }
 }
@@ -0,0 +1,647 @@
+/**
+ * Export service.
+ *
+ * Exports a note as a self-contained HTML page, a Word document, the
+ * markdown itself, or a zip of the markdown with its images as separate
+ * files. On mobile the export can go to another app through the share sheet. The markdown is rendered
+ * independently of the preview, so every image and diagram ends up in the
+ * export, not just the ones the preview has loaded.
+ */
+import { Injectable } from '@angular/core';
+import { ElectronService } from './electron.service';
+import { CapacitorService } from './capacitor.service';
+import { NotificationService } from './notification.service';
+import { extractDataImages } from './markdown-assets';
+import { Observable, from, of } from 'rxjs';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import { marked, Token, Tokens } from 'marked';
+import JSZip from 'jszip';
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  IRunOptions,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+
+/**
+ * Formats a note can be exported to
+ */
+export type DocumentExportFormat = 'html' | 'docx' | 'markdown' | 'markdown-zip';
+
+/**
+ * File details of each format
+ */
+const FORMATS: Record<DocumentExportFormat, { extension: string; mimeType: string; label: string }> = {
+  'html': { extension: '.html', mimeType: 'text/html', label: 'HTML' },
+  'docx': { extension: '.docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', label: 'Word document' },
+  'markdown': { extension: '.md', mimeType: 'text/markdown', label: 'Markdown' },
+  'markdown-zip': { extension: '.zip', mimeType: 'application/zip', label: 'Markdown archive' }
+};
+
+/**
+ * An image prepared for the Word document
+ */
+interface DocxImage {
+  type: 'png' | 'jpg' | 'gif' | 'bmp';
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Formatting inherited by nested inline tokens
+ */
+type InlineStyle = Pick<IRunOptions, 'bold' | 'italics' | 'strike' | 'style'>;
+
+/**
+ * Formatting inherited by nested blocks
+ */
+interface BlockContext {
+  /** Inside a blockquote */
+  quote?: boolean;
+
+  /** Extra indentation in twips */
+  indent?: number;
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ExportService {
+  /** Widest image in the Word document, in pixels */
+  private readonly MAX_DOCX_IMAGE_WIDTH = 600;
+
+  private readonly HEADINGS = [
+    HeadingLevel.HEADING_1,
+    HeadingLevel.HEADING_2,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6
+  ];
+
+  constructor(
+    private electronService: ElectronService,
+    private capacitorService: CapacitorService,
+    private notificationService: NotificationService
+  ) {}
+
+  /**
+   * Exports a note and saves it in the way the current platform allows
+   * @param markdown Full markdown of the note, with images embedded as data URLs
+   * @param fileName Name of the note; the extension is replaced by the format's
+   * @param format Export format
+   * @param share Send the export to another app through the share sheet instead of saving it (mobile only)
+   * @returns Observable that resolves to whether the export was saved or shared
+   */
+  exportNote(markdown: string, fileName: string, format: DocumentExportFormat, share = false): Observable<boolean> {
+    const { extension, mimeType, label } = FORMATS[format];
+    const title = fileName.replace(/\.[^.\/]+$/, '') || 'note';
+    const exportName = `${title}${extension}`;
+
+    return from(this.inlineObjectUrls(markdown)).pipe(
+      switchMap(content => from(this.build(content, title, format))),
+      switchMap(blob => share ? this.shareBlob(blob, exportName) : this.saveBlob(blob, exportName, mimeType)),
+      map(() => {
+        this.notificationService.success(`${share ? 'Shared' : 'Exported'} ${exportName}`);
+        return true;
+      }),
+      catchError(error => {
+        if (error?.message === 'Save cancelled' || error?.message === 'Share cancelled') {
+          return of(false);
+        }
+        console.error(`❌ Error exporting ${label}:`, error);
+        this.notificationService.error(`Failed to export ${label}: ${error?.message || error}`);
+        return of(false);
+      })
+    );
+  }
+
+  /**
+   * Saves binary content: save dialog on desktop, Documents folder on mobile, download in the browser
+   * @param blob Content to save
+   * @param fileName Suggested file name
+   * @param mimeType MIME type of the content
+   */
+  saveBlob(blob: Blob, fileName: string, mimeType: string): Observable<void> {
+    if (this.electronService.isElectron()) {
+      return from(this.toBase64(blob)).pipe(
+        switchMap(base64 => this.electronService.saveFile(base64, fileName, true, { saveAsBinary: true, mimeType }))
+      );
+    }
+
+    if (this.capacitorService.isCapacitor()) {
+      return from(this.toBase64(blob)).pipe(
+        switchMap(base64 => this.capacitorService.saveFile(base64, `Documents/${fileName}`, false, { saveAsBinary: true, mimeType })),
+        map(() => undefined)
+      );
+    }
+
+    const element = document.createElement('a');
+    element.href = URL.createObjectURL(blob);
+    element.download = fileName;
+    document.body.appendChild(element);
+    element.click();
+    document.body.removeChild(element);
+    setTimeout(() => URL.revokeObjectURL(element.href), 0);
+    return of(undefined);
+  }
+
+  /**
+   * Sends binary content to another app through the share sheet
+   * @param blob Content to share
+   * @param fileName Name the content is shared under
+   */
+  shareBlob(blob: Blob, fileName: string): Observable<void> {
+    return from(this.toBase64(blob)).pipe(
+      switchMap(base64 => this.capacitorService.shareFile(base64, fileName, true))
+    );
+  }
+
+  private build(markdown: string, title: string, format: DocumentExportFormat): Promise<Blob> {
+    switch (format) {
+      case 'html':
+        return this.buildHtml(markdown, title);
+      case 'docx':
+        return this.buildDocx(markdown, title);
+      case 'markdown':
+        return Promise.resolve(new Blob([markdown], { type: FORMATS.markdown.mimeType }));
+      case 'markdown-zip':
+        return this.buildMarkdownZip(markdown, title);
+    }
+  }
+
+  /**
+   * A single HTML page with styles, images and diagrams inlined
+   */
+  private async buildHtml(markdown: string, title: string): Promise<Blob> {
+    const body = await this.renderMarkdown(markdown);
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${this.escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main class="note">
+${body.innerHTML}
+</main>
+</body>
+</html>
+`;
+    return new Blob([html], { type: FORMATS.html.mimeType });
+  }
+
+  /**
+   * The markdown with its images moved to an assets folder
+   */
+  private async buildMarkdownZip(markdown: string, title: string): Promise<Blob> {
+    const { markdown: linked, assets } = extractDataImages(markdown);
+    const zip = new JSZip();
+    const folder = zip.folder(title)!;
+
+    folder.file(`${title}.md`, linked);
+    for (const asset of assets) {
+      folder.file(asset.path, asset.base64, { base64: true });
+    }
+
+    return zip.generateAsync({ type: 'blob', mimeType: FORMATS['markdown-zip'].mimeType, compression: 'DEFLATE' });
+  }
+
+  /**
+   * A Word document built from the markdown tokens
+   */
+  private async buildDocx(markdown: string, title: string): Promise<Blob> {
+    const tokens = marked.lexer(markdown);
+    const images = await this.loadDocxImages(tokens);
+    let orderedLists = 0;
+
+    const inline = (children: Token[] | undefined, style: InlineStyle = {}): ParagraphChild[] => {
+      const runs: ParagraphChild[] = [];
+
+      for (const token of children || []) {
+        switch (token.type) {
+          case 'strong':
+            runs.push(...inline(token.tokens, { ...style, bold: true }));
+            break;
+          case 'em':
+            runs.push(...inline(token.tokens, { ...style, italics: true }));
+            break;
+          case 'del':
+            runs.push(...inline(token.tokens, { ...style, strike: true }));
+            break;
+          case 'codespan':
+            runs.push(new TextRun({
+              ...style,
+              text: this.decodeEntities(token.text),
+              font: 'Consolas',
+              shading: { type: ShadingType.CLEAR, fill: 'F0F0F0', color: 'auto' }
+            }));
+            break;
+          case 'br':
+            runs.push(new TextRun({ break: 1 }));
+            break;
+          case 'link': {
+            const content = inline(token.tokens, { ...style, style: 'Hyperlink' });
+            if (/^(https?|mailto):/i.test(token.href)) {
+              runs.push(new ExternalHyperlink({ link: token.href, children: content }));
+            } else {
+              runs.push(...content);
+            }
+            break;
+          }
+          case 'image': {
+            const image = images.get(token.href);
+            runs.push(image
+              ? this.imageRun(image, token.text)
+              : new TextRun({ ...style, text: token.text ? `[${token.text}]` : '' }));
+            break;
+          }
+          case 'html':
+            runs.push(new TextRun({ ...style, text: this.decodeEntities(token.text.replace(/<[^>]*>/g, '')) }));
+            break;
+          case 'checkbox':
+            break;
+          default:
+            if ('tokens' in token && token.tokens?.length) {
+              runs.push(...inline(token.tokens, style));
+            } else if ('text' in token) {
+              runs.push(new TextRun({ ...style, text: this.decodeEntities(token.text) }));
+            }
+        }
+      }
+
+      return runs;
+    };
+
+    const paragraphStyle = (context: BlockContext) => ({
+      ...(context.indent ? { indent: { left: context.indent } } : {}),
+      ...(context.quote ? { border: { left: { style: BorderStyle.SINGLE, size: 12, color: 'D0D7DE', space: 8 } } } : {})
+    });
+
+    const list = (token: Tokens.List, level: number, context: BlockContext): (Paragraph | Table)[] => {
+      const instance = token.ordered && level === 0 ? ++orderedLists : orderedLists;
+      const output: (Paragraph | Table)[] = [];
+
+      for (const item of token.items) {
+        const [first, ...rest] = item.tokens;
+        const marker = item.task ? (item.checked ? '☑ ' : '☐ ') : '';
+        const children = first && first.type !== 'list' && 'tokens' in first ? inline(first.tokens) : [];
+
+        output.push(new Paragraph({
+          ...paragraphStyle(context),
+          children: [new TextRun(marker), ...children],
+          ...(token.ordered
+            ? { numbering: { reference: 'ordered-list', level, instance } }
+            : { bullet: { level } })
+        }));
+
+        const remaining = first && first.type === 'list' ? item.tokens : rest;
+        for (const child of remaining) {
+          if (child.type === 'list') {
+            output.push(...list(child as Tokens.List, Math.min(level + 1, 8), context));
+          } else {
+            output.push(...blocks([child], { ...context, indent: (context.indent || 0) + 720 * (level + 1) }));
+          }
+        }
+      }
+
+      return output;
+    };
+
+    const blocks = (children: Token[], context: BlockContext = {}): (Paragraph | Table)[] => {
+      const output: (Paragraph | Table)[] = [];
+
+      for (const token of children) {
+        switch (token.type) {
+          case 'heading':
+            output.push(new Paragraph({ heading: this.HEADINGS[token.depth - 1], children: inline(token.tokens) }));
+            break;
+          case 'paragraph':
+          case 'text': {
+            // Block-level text, e.g. in tight lists, may come without inline tokens
+            const children = token.tokens
+              ? inline(token.tokens)
+              : [new TextRun(this.decodeEntities(token.text))];
+            output.push(new Paragraph({ ...paragraphStyle(context), children }));
+            break;
+          }
+          case 'code': {
+            const diagram = token.lang === 'mermaid' ? images.get(this.mermaidKey(token.text)) : undefined;
+            if (diagram) {
+              output.push(new Paragraph({ alignment: AlignmentType.CENTER, children: [this.imageRun(diagram, 'Diagram')] }));
+            } else {
+              output.push(new Paragraph({
+                ...paragraphStyle(context),
+                shading: { type: ShadingType.CLEAR, fill: 'F6F8FA', color: 'auto' },
+                children: token.text.split('\n').map((line: string, index: number) =>
+                  new TextRun({ text: line, font: 'Consolas', size: 18, break: index > 0 ? 1 : undefined }))
+              }));
+            }
+            break;
+          }
+          case 'blockquote':
+            output.push(...blocks(token.tokens || [], { ...context, quote: true, indent: (context.indent || 0) + 360 }));
+            break;
+          case 'list':
+            output.push(...list(token as Tokens.List, 0, context));
+            break;
+          case 'table':
+            output.push(this.table(token as Tokens.Table, inline));
+            break;
+          case 'hr':
+            output.push(new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D0D7DE', space: 1 } } }));
+            break;
+          case 'html': {
+            const text = this.decodeEntities(token.text.replace(/<[^>]*>/g, '')).trim();
+            if (text) {
+              output.push(new Paragraph({ ...paragraphStyle(context), children: [new TextRun(text)] }));
+            }
+            break;
+          }
+        }
+      }
+
+      return output;
+    };
+
+    const document = new Document({
+      title,
+      numbering: {
+        config: [{
+          reference: 'ordered-list',
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } }
+          }))
+        }]
+      },
+      sections: [{ children: blocks(tokens) }]
+    });
+
+    return Packer.toBlob(document);
+  }
+
+  private table(token: Tokens.Table, inline: (tokens: Token[] | undefined, style?: InlineStyle) => ParagraphChild[]): Table {
+    const cell = (content: Tokens.TableCell, header: boolean) => new TableCell({
+      children: [new Paragraph({ children: inline(content.tokens, header ? { bold: true } : {}) })],
+      shading: header ? { type: ShadingType.CLEAR, fill: 'F6F8FA', color: 'auto' } : undefined
+    });
+
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [
+        new TableRow({ tableHeader: true, children: token.header.map(content => cell(content, true)) }),
+        ...token.rows.map(row => new TableRow({ children: row.map(content => cell(content, false)) }))
+      ]
+    });
+  }
+
+  private imageRun(image: DocxImage, altText: string): ImageRun {
+    const scale = Math.min(1, this.MAX_DOCX_IMAGE_WIDTH / image.width);
+    return new ImageRun({
+      type: image.type,
+      data: image.data,
+      transformation: { width: Math.round(image.width * scale), height: Math.round(image.height * scale) },
+      altText: { name: altText || 'Image', description: altText, title: altText }
+    });
+  }
+
+  /**
+   * Loads every image and mermaid diagram of the document, keyed by source
+   */
+  private async loadDocxImages(tokens: Token[]): Promise<Map<string, DocxImage>> {
+    const images = new Map<string, DocxImage>();
+    const sources = new Set<string>();
+    const diagrams = new Set<string>();
+
+    marked.walkTokens(tokens, token => {
+      if (token.type === 'image') {
+        sources.add(token.href);
+      } else if (token.type === 'code' && token.lang === 'mermaid') {
+        diagrams.add(token.text);
+      }
+    });
+
+    for (const source of sources) {
+      const image = await this.loadImage(source).catch(error => {
+        console.warn(`⚠️ Leaving image out of the export: ${source.substring(0, 60)}`, error);
+        return null;
+      });
+      if (image) {
+        images.set(source, image);
+      }
+    }
+
+    for (const code of diagrams) {
+      const svg = await this.renderMermaid(code);
+      const image = svg && await this.loadImage(this.svgDataUrl(svg)).catch(() => null);
+      if (image) {
+        images.set(this.mermaidKey(code), image);
+      }
+    }
+
+    return images;
+  }
+
+  /**
+   * Loads an image in a format Word understands, rasterising anything else to PNG
+   */
+  private async loadImage(source: string): Promise<DocxImage> {
+    const url = source.startsWith('data:') ? source : await this.blobToDataUrl(await (await fetch(source)).blob());
+    const element = await this.decodeImage(url);
+    const width = element.naturalWidth || 300;
+    const height = element.naturalHeight || 150;
+
+    const type = /^data:image\/(png|jpe?g|gif|bmp);base64,/i.exec(url)?.[1].toLowerCase();
+    if (type) {
+      return { type: type === 'jpeg' ? 'jpg' : type as DocxImage['type'], data: this.base64ToBytes(url), width, height };
+    }
+
+    // SVG, WebP and the like are drawn at twice the size so they stay sharp
+    const canvas = document.createElement('canvas');
+    canvas.width = width * 2;
+    canvas.height = height * 2;
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(element, 0, 0, canvas.width, canvas.height);
+
+    return { type: 'png', data: this.base64ToBytes(canvas.toDataURL('image/png')), width, height };
+  }
+
+  private decodeImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('Image could not be decoded'));
+      image.src = url;
+    });
+  }
+
+  /**
+   * Renders markdown to HTML with mermaid diagrams as inline SVG and code highlighted
+   */
+  private async renderMarkdown(markdown: string): Promise<HTMLElement> {
+    const container = document.createElement('div');
+    container.innerHTML = marked.parse(markdown, { async: false }) as string;
+
+    for (const code of Array.from(container.querySelectorAll<HTMLElement>('pre > code.language-mermaid'))) {
+      const svg = await this.renderMermaid(code.textContent || '');
+      if (svg) {
+        const diagram = document.createElement('div');
+        diagram.className = 'mermaid';
+        diagram.innerHTML = svg;
+        code.parentElement!.replaceWith(diagram);
+      }
+    }
+
+    if (window.Prism) {
+      container.querySelectorAll<HTMLElement>('pre > code[class*="language-"]').forEach(code => {
+        window.Prism.highlightElement(code);
+      });
+    }
+
+    return container;
+  }
+
+  /**
+   * Renders a mermaid diagram to SVG markup
+   * @returns null if mermaid isn't loaded or the diagram is invalid
+   */
+  private async renderMermaid(code: string): Promise<string | null> {
+    if (!window.mermaid) {
+      return null;
+    }
+
+    try {
+      const id = `export-mermaid-${Date.now()}-${Math.floor(Math.random() * 1e6)}`;
+      const { svg } = await window.mermaid.render(id, code);
+      return svg;
+    } catch (error) {
+      console.warn('⚠️ Could not render mermaid diagram for export', error);
+      return null;
+    }
+  }
+
+  private mermaidKey(code: string): string {
+    return `mermaid:${code}`;
+  }
+
+  private svgDataUrl(svg: string): string {
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  }
+
+  /**
+   * Replaces object URLs of stored images with data URLs, so the export doesn't depend on this session
+   */
+  private async inlineObjectUrls(markdown: string): Promise<string> {
+    const urls = Array.from(new Set(markdown.match(/blob:[^)\s"']+/g) || []));
+    let result = markdown;
+
+    for (const url of urls) {
+      try {
+        const dataUrl = await this.blobToDataUrl(await (await fetch(url)).blob());
+        result = result.split(url).join(dataUrl);
+      } catch (error) {
+        console.warn('⚠️ Could not inline image for export', error);
+      }
+    }
+
+    return result;
+  }
+
+  private blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  private async toBase64(blob: Blob): Promise<string> {
+    const dataUrl = await this.blobToDataUrl(blob);
+    return dataUrl.substring(dataUrl.indexOf(',') + 1);
+  }
+
+  private base64ToBytes(dataUrl: string): Uint8Array {
+    const binary = atob(dataUrl.substring(dataUrl.indexOf(',') + 1));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private decodeEntities(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
+
+/**
+ * Styles of the exported HTML page, including Prism's token colours
+ */
+const HTML_STYLES = `
+  body {
+    margin: 0;
+    background: #ffffff;
+    color: #1f2328;
+    font-family: system-ui, -apple-system, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+    font-size: 16px;
+    line-height: 1.6;
+  }
+  .note { max-width: 860px; margin: 0 auto; padding: 40px 24px; }
+  h1, h2, h3, h4, h5, h6 { color: #111111; font-weight: 600; line-height: 1.25; margin: 1.4em 0 0.6em; }
+  h1 { font-size: 2em; border-bottom: 1px solid #dddddd; padding-bottom: 0.3em; }
+  h2 { font-size: 1.5em; border-bottom: 1px solid #eeeeee; padding-bottom: 0.3em; }
+  a { color: #0969da; }
+  pre { background: #2d2d2d; color: #cccccc; border-radius: 6px; padding: 12px 16px; overflow: auto; font-size: 0.875em; }
+  code { font-family: Menlo, Monaco, Consolas, 'Courier New', monospace; }
+  :not(pre) > code { background: #f0f0f0; border-radius: 3px; padding: 0.1em 0.3em; font-size: 0.9em; }
+  table { border-collapse: collapse; margin: 1em 0; }
+  th, td { border: 1px solid #d0d7de; padding: 6px 12px; text-align: left; }
+  th { background: #f6f8fa; }
+  blockquote { border-left: 4px solid #d0d7de; color: #57606a; margin: 1em 0; padding: 0 1em; }
+  img { max-width: 100%; }
+  hr { border: none; border-top: 1px solid #d0d7de; margin: 2em 0; }
+  .mermaid { text-align: center; margin: 1em 0; }
+  .token.comment, .token.prolog, .token.doctype, .token.cdata { color: #999999; }
+  .token.punctuation { color: #cccccc; }
+  .token.property, .token.tag, .token.boolean, .token.number, .token.constant, .token.symbol, .token.deleted { color: #f08d49; }
+  .token.selector, .token.attr-name, .token.string, .token.char, .token.builtin, .token.inserted { color: #7ec699; }
+  .token.operator, .token.entity, .token.url { color: #67cdcc; }
+  .token.atrule, .token.attr-value, .token.keyword { color: #cc99cd; }
+  .token.function, .token.class-name { color: #f8c555; }
+  .token.regex, .token.important, .token.variable { color: #e90; }
+`;
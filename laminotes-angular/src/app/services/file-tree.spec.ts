@@ -0,0 +1,70 @@
+import { buildFileTree, canMoveFolder, movedPath, numberedName, parentFolder, validateName } from './file-tree';
+
+describe('buildFileTree', () => {
+  it('should nest notes in their folders, folders first and sorted', () => {
+    const tree = buildFileTree(
+      [{ name: 'b.md' }, { name: 'Projects/Plan.md' }, { name: 'a.md' }, { name: 'Projects/2024/Q1.md' }],
+      ['Archive']
+    );
+
+    expect(tree.map(node => node.path)).toEqual(['Archive', 'Projects', 'a.md', 'b.md']);
+    expect(tree[0].children).toEqual([]);
+    expect(tree[1].children.map(node => node.path)).toEqual(['Projects/2024', 'Projects/Plan.md']);
+    expect(tree[1].children[0].children[0].label).toBe('Q1.md');
+  });
+
+  it('should create the parents of nested empty folders once', () => {
+    const tree = buildFileTree([{ name: 'Work/Notes.md' }], ['Work/Drafts/', 'Work']);
+
+    expect(tree.length).toBe(1);
+    expect(tree[0].children.map(node => node.path)).toEqual(['Work/Drafts', 'Work/Notes.md']);
+  });
+
+  it('should sort numbers naturally', () => {
+    const tree = buildFileTree([{ name: 'Day 10.md' }, { name: 'Day 9.md' }]);
+
+    expect(tree.map(node => node.label)).toEqual(['Day 9.md', 'Day 10.md']);
+  });
+});
+
+describe('movedPath', () => {
+  it('should move the folder and everything below it', () => {
+    expect(movedPath('Projects', 'Projects', 'Archive/Projects')).toBe('Archive/Projects');
+    expect(movedPath('Projects/2024/Q1.md', 'Projects', 'Archive/Projects')).toBe('Archive/Projects/2024/Q1.md');
+    expect(movedPath('Archive/Old/Plan.md', 'Archive/Old', 'Old')).toBe('Old/Plan.md');
+  });
+});
+
+describe('canMoveFolder', () => {
+  it('should refuse moving a folder into itself, its subfolders or where it already is', () => {
+    expect(canMoveFolder('Projects', 'Projects')).toBe(false);
+    expect(canMoveFolder('Projects', 'Projects/2024')).toBe(false);
+    expect(canMoveFolder('Projects/2024', 'Projects')).toBe(false);
+    expect(canMoveFolder('Projects/2024', '')).toBe(true);
+    expect(canMoveFolder('Projects', 'Projects 2')).toBe(true);
+  });
+});
+
+describe('parentFolder', () => {
+  it('should return the top level for notes outside folders', () => {
+    expect(parentFolder('Plan.md')).toBe('');
+    expect(parentFolder('Projects/2024/Q1.md')).toBe('Projects/2024');
+  });
+});
+
+describe('validateName', () => {
+  it('should refuse empty names, separators and hidden names', () => {
+    expect(validateName('  ')).not.toBeNull();
+    expect(validateName('a/b')).not.toBeNull();
+    expect(validateName('.git')).not.toBeNull();
+    expect(validateName('Plans 2024')).toBeNull();
+  });
+});
+
+describe('numberedName', () => {
+  it('should number the name before its extension, in its folder', () => {
+    expect(numberedName('Archive/Plan.md', 1)).toBe('Archive/Plan.md');
+    expect(numberedName('Archive/Plan.md', 2)).toBe('Archive/Plan (2).md');
+    expect(numberedName('v1.2/Notes', 3)).toBe('v1.2/Notes (3)');
+  });
+});
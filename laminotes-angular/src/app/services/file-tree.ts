@@ -0,0 +1,148 @@
+/**
+ * File tree.
+ *
+ * Builds the folder tree of a notes directory from its flat file list, where
+ * notes in subfolders are named by their path relative to the directory,
+ * e.g. `Projects/Plan.md`, and works out the names notes get when they or
+ * their folders are moved or renamed.
+ */
+
+/**
+ * A folder or note in the tree
+ */
+export interface FileTreeNode<T extends { name: string }> {
+  type: 'folder' | 'file';
+
+  /** Last segment of the path, shown in the tree */
+  label: string;
+
+  /** Path relative to the notes directory: the folder path, or the note's name */
+  path: string;
+
+  /** The note, for files */
+  file?: T;
+
+  /** Subfolders first, then notes, each sorted by label; empty for files */
+  children: FileTreeNode<T>[];
+}
+
+/**
+ * Builds the tree of a notes directory
+ * @param files Notes, named by their path relative to the directory
+ * @param folders Folders relative to the directory, including empty ones; folders holding notes are added anyway
+ * @returns The top level folders and notes
+ */
+export function buildFileTree<T extends { name: string }>(files: T[], folders: string[] = []): FileTreeNode<T>[] {
+  const root: FileTreeNode<T> = { type: 'folder', label: '', path: '', children: [] };
+  const foldersByPath = new Map<string, FileTreeNode<T>>([['', root]]);
+
+  const folderNode = (path: string): FileTreeNode<T> => {
+    const existing = foldersByPath.get(path);
+    if (existing) {
+      return existing;
+    }
+
+    const node: FileTreeNode<T> = { type: 'folder', label: baseName(path), path, children: [] };
+    foldersByPath.set(path, node);
+    folderNode(parentFolder(path)).children.push(node);
+    return node;
+  };
+
+  folders.map(normalizeFolder).filter(folder => folder).forEach(folderNode);
+  for (const file of files) {
+    folderNode(parentFolder(file.name)).children.push({ type: 'file', label: baseName(file.name), path: file.name, file, children: [] });
+  }
+
+  sortTree(root.children);
+  return root.children;
+}
+
+/**
+ * Folder holding a note or folder, '' for the top level
+ */
+export function parentFolder(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.substring(0, index);
+}
+
+/**
+ * Last segment of a path
+ */
+export function baseName(path: string): string {
+  return path.substring(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Joins a folder and a name, leaving out an empty folder
+ */
+export function joinPath(folder: string, name: string): string {
+  return folder ? `${folder}/${name}` : name;
+}
+
+/**
+ * A name numbered before its extension, e.g. "Plan (2).md"; the first attempt keeps the name
+ */
+export function numberedName(name: string, attempt: number): string {
+  if (attempt <= 1) {
+    return name;
+  }
+  const base = baseName(name);
+  const dot = base.lastIndexOf('.');
+  const numbered = dot > 0
+    ? `${base.substring(0, dot)} (${attempt})${base.substring(dot)}`
+    : `${base} (${attempt})`;
+  return joinPath(parentFolder(name), numbered);
+}
+
+/**
+ * Whether a path lies in a folder or one of its subfolders
+ */
+export function isInFolder(path: string, folder: string): boolean {
+  return folder === '' || path.startsWith(`${folder}/`);
+}
+
+/**
+ * Name of a note or folder once the folder holding it has moved
+ * @param path The note or folder, somewhere below `from` or `from` itself
+ * @param from The folder's old path
+ * @param to The folder's new path
+ */
+export function movedPath(path: string, from: string, to: string): string {
+  return path === from ? to : joinPath(to, path.substring(from.length + 1));
+}
+
+/**
+ * Whether a folder can be moved into another one; not into itself or its own subfolders
+ */
+export function canMoveFolder(folder: string, target: string): boolean {
+  return folder !== target && !isInFolder(target, folder) && parentFolder(folder) !== target;
+}
+
+/**
+ * Checks a name typed for a note or folder
+ * @returns An error message, or null if the name can be used
+ */
+export function validateName(name: string): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return 'The name cannot be empty';
+  }
+  if (/[\/\\:*?"<>|]/.test(trimmed)) {
+    return 'Names cannot contain / \\ : * ? " < > |';
+  }
+  if (trimmed.startsWith('.')) {
+    return 'Names cannot start with a dot';
+  }
+  return null;
+}
+
+function normalizeFolder(folder: string): string {
+  return folder.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+}
+
+function sortTree<T extends { name: string }>(nodes: FileTreeNode<T>[]): void {
+  nodes.sort((a, b) => a.type !== b.type
+    ? (a.type === 'folder' ? -1 : 1)
+    : a.label.localeCompare(b.label, undefined, { sensitivity: 'base', numeric: true }));
+  nodes.forEach(node => sortTree(node.children));
+}
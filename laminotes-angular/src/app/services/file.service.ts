@@ -2,13 +2,13 @@
  * File management service.
  *
  * Handles all file operations including creating, reading, updating, and deleting files.
- * Provides cross-platform functionality supporting browser localStorage, Electron desktop,
+ * Provides cross-platform functionality supporting browser storage (IndexedDB), Electron desktop,
  * and Capacitor mobile (iOS/iPadOS) filesystem access, with team-specific directory 
  * handling for collaborative workflows.
  */
 import { Injectable } from '@angular/core';
-import { Observable, of, from, throwError, forkJoin, lastValueFrom } from 'rxjs';
-import { map, catchError, switchMap, tap } from 'rxjs/operators';
+import { Observable, Subject, of, from, throwError, forkJoin, lastValueFrom } from 'rxjs';
+import { map, catchError, concatMap, switchMap, tap, toArray } from 'rxjs/operators';
 import { v4 as uuidv4 } from 'uuid';
 
 import { ApiService } from './api.service';
@@ -18,6 +18,12 @@ import { Team, TeamRole } from '../models/team.model';
 import { ElectronService } from '../services/electron.service';
 import { CapacitorService } from '../services/capacitor.service';
 import { NotificationService } from './notification.service';
+import { OfflineQueueService, PendingOperation, ReplayOutcome } from './offline-queue.service';
+import { MergeService } from './merge.service';
+import { StorageService } from './storage.service';
+import { SharedContent } from './shared-content';
+import { baseName, canMoveFolder, isInFolder, joinPath, movedPath, numberedName, parentFolder } from './file-tree';
+import { renameWikiLinks } from './wikilinks';
 
 /**
  * Interface representing file information.
@@ -27,7 +33,7 @@ export interface FileInfo {
   /** File path (either filesystem path or virtual path) */
   path: string;
 
-  /** File name with extension */
+  /** File name with extension; files in subfolders are named by their path relative to the notes directory, e.g. `Projects/Plan.md` */
   name: string;
 
   /** Optional file content data */
@@ -49,6 +55,39 @@ export interface FileInfo {
   isBinary?: boolean;
 }
 
+/**
+ * The open file was changed or removed by another program.
+ */
+export interface DiskChange {
+  /** Whether the file was rewritten or deleted */
+  type: 'change' | 'unlink';
+
+  /** The changed file */
+  file: FileInfo;
+
+  /** Content now on disk; null when the file was deleted */
+  content: string | null;
+
+  /** Content last opened or saved by Laminotes, the common base for a merge */
+  base: string;
+}
+
+/**
+ * A note saved, moved or deleted through the service.
+ */
+export interface FileChange {
+  type: 'saved' | 'renamed' | 'deleted';
+
+  /** The note as it is now; for deletions, as it was */
+  file: FileInfo;
+
+  /** Content saved, for 'saved' */
+  content?: string;
+
+  /** The note before it was renamed or moved, for 'renamed' */
+  previous?: FileInfo;
+}
+
 /**
  * Service responsible for file system operations.
  * Provides methods for creating, reading, updating, and deleting files,
@@ -67,15 +106,41 @@ export class FileService {
   /** List of files in the current directory */
   filesInDirectory: FileInfo[] = [];
 
-  /** Storage key for file list in localStorage */
+  /** Folders of the current directory, empty ones included, by their path relative to it */
+  folders: string[] = [];
+
+  /** Storage key for file list in local storage */
   private readonly STORAGE_KEY = 'laminotes_files';
 
-  /** Prefix for file content keys in localStorage */
+  /** Storage key for the folder list in local storage */
+  private readonly FOLDERS_KEY = 'laminotes_folders';
+
+  /** Prefix for file content keys in local storage */
   private readonly FILE_CONTENT_PREFIX = 'file_';
   
   /** Flag indicating we're running in a mobile environment */
   private isMobileEnvironment: boolean = false;
 
+  /** Files opened from the OS that live outside the current directory */
+  private filesFromSystem: FileInfo[] = [];
+
+  /** Directory the Electron watcher reports changes for */
+  private watchedDirectory: string | null = null;
+
+  private diskChangesSubject = new Subject<DiskChange>();
+
+  /**
+   * Changes made by other programs to notes opened here, for the editor to reload
+   * or merge. The stored copy of the open file is left for the editor to update;
+   * that of any other note is up to date already.
+   */
+  readonly diskChanges$ = this.diskChangesSubject.asObservable();
+
+  private fileChangesSubject = new Subject<FileChange>();
+
+  /** Notes saved, renamed, moved or deleted here, for views kept in step with every note such as search */
+  readonly fileChanges$ = this.fileChangesSubject.asObservable();
+
   /**
    * Gets a file path from the Electron save dialog.
    * Prompts user to select where to save a file.
@@ -90,7 +155,7 @@ export class FileService {
     }
 
     try {
-      if ((window as any).electronAPI) {
+      if (window.electronAPI) {
         let filePath = defaultName;
         if (defaultDir) {
           // Use path.join to ensure path is created correctly
@@ -102,40 +167,11 @@ export class FileService {
           console.log(`Using default directory for save dialog: ${defaultDir}, full path: ${filePath}`);
         }
 
-        const result = await (window as any).electronAPI.saveFile({
+        const result = await window.electronAPI.saveFile({
           content: '', // No content, just getting path
           filePath: filePath,
           saveAs: true,
-          getPathOnly: true, // Special flag just to get path
-          defaultPath: defaultDir // Pass the default directory as well
-        });
-
-        if (result.success && result.filePath) {
-          return result.filePath;
-        }
-      } else {
-        // Fall back to direct IPC
-        const electron = (window as any).require('electron');
-
-        // If a default directory is provided, use it to create a full default path
-        let filePath = defaultName;
-        if (defaultDir) {
-          // Try to use path module if available
-          const nodePath = (window as any).require('path');
-          if (nodePath) {
-            filePath = nodePath.join(defaultDir, defaultName);
-          } else {
-            filePath = `${defaultDir}/${defaultName}`;
-          }
-          console.log(`Using default directory for save dialog: ${defaultDir}, full path: ${filePath}`);
-        }
-
-        const result = await electron.ipcRenderer.invoke('save-file', {
-          content: '',
-          filePath: filePath,
-          saveAs: true,
-          getPathOnly: true,
-          defaultPath: defaultDir
+          getPathOnly: true // Special flag just to get path
         });
 
         if (result.success && result.filePath) {
@@ -151,8 +187,8 @@ export class FileService {
 
   /**
    * Path utility for cross-platform file path handling.
-   * Provides basic path operations that work in both browser and node environments.
-   * Will be replaced with Node.js path module when running in Electron.
+   * Provides basic path operations that work in both browser and Electron,
+   * where the renderer has no access to Node's path module.
    */
   private path: any = {
     /**
@@ -162,7 +198,7 @@ export class FileService {
      * @returns The parent directory path
      */
     dirname: (filePath: string) => {
-      const lastSlashIndex = filePath.lastIndexOf('/');
+      const lastSlashIndex = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'));
       return lastSlashIndex !== -1 ? filePath.substring(0, lastSlashIndex) : '.';
     },
 
@@ -191,6 +227,9 @@ export class FileService {
    * @param teamService - Service for team-related operations
    * @param electronService - Service for Electron-specific functionality
    * @param capacitorService - Service for Capacitor (iOS/iPadOS) functionality
+   * @param offlineQueue - Journal of server operations made while offline
+   * @param mergeService - Three-way merge used when replaying offline saves
+   * @param storage - IndexedDB-backed storage for file list and contents
    */
   constructor(
     private apiService: ApiService,
@@ -198,25 +237,19 @@ export class FileService {
     private teamService: TeamService,
     private electronService: ElectronService,
     private capacitorService: CapacitorService,
-    private notificationService: NotificationService
+    private notificationService: NotificationService,
+    private offlineQueue: OfflineQueueService,
+    private mergeService: MergeService,
+    private storage: StorageService
   ) {
-    this.loadFilesFromLocalStorage();
+    this.loadFilesFromStorage();
+    this.registerReplayHandlers();
+
+    // Keep the file list in step with edits made outside the app
+    this.electronService.directoryChanges$.subscribe(change => this.onDirectoryChanged(change));
 
     // Detect the environment we're running in
     this.isMobileEnvironment = this.capacitorService.isCapacitor();
-
-    // For path operations in Electron environment, use Node.js path module
-    if (this.electronService.isElectron()) {
-      try {
-        const nodePath = (window as any).require('path');
-        if (nodePath) {
-          console.log('Node.js path module loaded');
-          this.path = nodePath;
-        }
-      } catch (e) {
-        console.error('Error loading Node.js path module:', e);
-      }
-    }
     
     if (this.isMobileEnvironment) {
       console.log(`Running in mobile environment: ${this.capacitorService.getPlatformName()}`);
@@ -228,23 +261,32 @@ export class FileService {
   }
 
   /**
-   * Loads file list from localStorage.
+   * Loads file list from local storage.
    * Used for browser mode or when no directory is set in Electron/Capacitor.
    */
-  private loadFilesFromLocalStorage(): void {
-    // Skip localStorage loading when using native filesystem
+  private loadFilesFromStorage(): void {
+    // Skip local storage loading when using native filesystem
     if ((this.electronService.isElectron() || this.isMobileEnvironment) && this.currentDirectory) {
-      console.log(`Using directory-based file list for ${this.currentDirectory}, skipping localStorage load`);
+      console.log(`Using directory-based file list for ${this.currentDirectory}, skipping local storage load`);
       return;
     }
 
-    // Only load from localStorage when not using a directory
-    const storedFiles = localStorage.getItem(this.STORAGE_KEY);
+    // Only load from local storage when not using a directory
+    const storedFiles = this.storage.getItem(this.STORAGE_KEY);
     if (storedFiles) {
       try {
         this.filesInDirectory = JSON.parse(storedFiles);
       } catch (e) {
-        console.error('Error loading files from localStorage', e);
+        console.error('Error loading files from local storage', e);
+      }
+    }
+
+    const storedFolders = this.storage.getItem(this.FOLDERS_KEY);
+    if (storedFolders) {
+      try {
+        this.folders = JSON.parse(storedFolders);
+      } catch (e) {
+        console.error('Error loading folders from local storage', e);
       }
     }
 
@@ -256,11 +298,12 @@ export class FileService {
   }
 
   /**
-   * Saves the current file list to localStorage.
+   * Saves the current file list to local storage.
    * Used for persistence in browser mode and as backup in Electron mode.
    */
-  private saveFilesToLocalStorage(): void {
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.filesInDirectory));
+  private saveFilesToStorage(): void {
+    this.storage.setItem(this.STORAGE_KEY, JSON.stringify(this.filesInDirectory));
+    this.storage.setItem(this.FOLDERS_KEY, JSON.stringify(this.folders));
   }
 
 
@@ -268,7 +311,7 @@ export class FileService {
    * Refreshes the list of files in the current directory.
    *
    * Handles team directory synchronization, directory reading in Electron and Capacitor,
-   * and fallback to localStorage in browser mode.
+   * and fallback to local storage in browser mode.
    */
   /**
    * Handles a team directory failure scenario by prompting for a new directory.
@@ -297,7 +340,8 @@ export class FileService {
               // Update current directory and refresh files
               this.currentDirectory = result.dirPath;
               this.filesInDirectory = result.files || [];
-              this.saveFilesToLocalStorage();
+              this.folders = result.folders || [];
+              this.saveFilesToStorage();
             }
           });
         } else {
@@ -338,8 +382,9 @@ export class FileService {
                 this.electronService.selectDirectory(teamDirectory).subscribe(dirResult => {
                   if (dirResult && dirResult.success) {
                     console.log(`Refreshed file list for newly created directory: ${teamDirectory}`);
-                    this.filesInDirectory = dirResult.files || [];
-                    this.saveFilesToLocalStorage();
+                    this.filesInDirectory = this.withFilesFromSystem(dirResult.files || []);
+                    this.folders = dirResult.folders || [];
+                    this.saveFilesToStorage();
                   }
                 });
               } else {
@@ -353,8 +398,9 @@ export class FileService {
             this.electronService.selectDirectory(teamDirectory).subscribe(dirResult => {
               if (dirResult && dirResult.success) {
                 console.log(`Refreshed existing team directory: ${teamDirectory}`);
-                this.filesInDirectory = dirResult.files || [];
-                this.saveFilesToLocalStorage();
+                this.filesInDirectory = this.withFilesFromSystem(dirResult.files || []);
+                this.folders = dirResult.folders || [];
+                this.saveFilesToStorage();
               } else {
                 console.warn(`Failed to read team directory: ${teamDirectory}`);
                 this.handleDirectoryFailure(activeTeam);
@@ -408,7 +454,8 @@ export class FileService {
                     // Reset to no directory
                     this.currentDirectory = null;
                     this.filesInDirectory = [];
-                    this.saveFilesToLocalStorage();
+                    this.folders = [];
+                    this.saveFilesToStorage();
                     return of(null);
                   }
                 })
@@ -416,7 +463,8 @@ export class FileService {
             } else {
               this.currentDirectory = null;
               this.filesInDirectory = [];
-              this.saveFilesToLocalStorage();
+              this.folders = [];
+              this.saveFilesToStorage();
               return of(null);
             }
           }
@@ -437,22 +485,27 @@ export class FileService {
             }
 
             // Set the files list
-            this.filesInDirectory = result.files;
+            this.filesInDirectory = this.withFilesFromSystem(result.files);
+            this.folders = result.folders || [];
 
-            // Update localStorage
-            this.saveFilesToLocalStorage();
+            // Update local storage
+            this.saveFilesToStorage();
+
+            // Pick up changes made by other programs from now on
+            this.watchDirectory(this.currentDirectory as string);
           } else {
             console.log('No valid result from directory read, showing empty list');
             if (this.currentDirectory) {
               this.filesInDirectory = [];
-              this.saveFilesToLocalStorage();
+              this.folders = [];
+              this.saveFilesToStorage();
             }
           }
         },
         error: (error) => {
           console.error('Error refreshing directory file list:', error);
-          // In case of error, fall back to localStorage
-          this.loadFilesFromLocalStorage();
+          // In case of error, fall back to local storage
+          this.loadFilesFromStorage();
         }
       });
 
@@ -477,28 +530,30 @@ export class FileService {
             }
             
             // Set the files list
-            this.filesInDirectory = result.files;
+            this.filesInDirectory = this.withFilesFromSystem(result.files);
+            this.folders = result.folders || [];
             
-            // Update localStorage as backup
-            this.saveFilesToLocalStorage();
+            // Update local storage as backup
+            this.saveFilesToStorage();
           } else {
             console.log('No valid result from iOS directory read, showing empty list');
             this.filesInDirectory = [];
-            this.saveFilesToLocalStorage();
+            this.folders = [];
+            this.saveFilesToStorage();
           }
         },
         error: (error) => {
           console.error('Error refreshing iOS directory file list:', error);
-          // In case of error, fall back to localStorage
-          this.loadFilesFromLocalStorage();
+          // In case of error, fall back to local storage
+          this.loadFilesFromStorage();
         }
       });
       
       return;
     }
 
-    // If no directory is set, load from localStorage
-    this.loadFilesFromLocalStorage();
+    // If no directory is set, load from local storage
+    this.loadFilesFromStorage();
 
     this.apiService.listFiles().subscribe({
       next: (fileNames) => {
@@ -517,33 +572,233 @@ export class FileService {
           }
         });
 
-        this.saveFilesToLocalStorage();
+        this.saveFilesToStorage();
       },
       error: (error) => console.error('Error refreshing file list:', error)
     });
   }
 
+  /**
+   * Starts the Electron watcher on a notes directory, replacing the one watched before.
+   *
+   * @param dirPath - The directory whose files are listed
+   */
+  private watchDirectory(dirPath: string): void {
+    if (this.watchedDirectory === dirPath) {
+      return;
+    }
+
+    this.watchedDirectory = dirPath;
+    this.electronService.watchDirectory(dirPath).subscribe(result => {
+      if (result.success) {
+        console.log(`✅ Watching ${dirPath} for outside changes`);
+      } else {
+        console.warn(`⚠️ Not watching ${dirPath}: ${result.message}`);
+        this.watchedDirectory = null;
+      }
+    });
+  }
+
+  /**
+   * Applies a change reported by the directory watcher to the file list,
+   * and reports changes to the open file on diskChanges$.
+   *
+   * @param change - The file added, changed or removed on disk
+   */
+  private onDirectoryChanged(change: ElectronDirectoryChange): void {
+    // Late events from a directory we've since left
+    if (!this.watchedDirectory || this.watchedDirectory !== this.currentDirectory) {
+      return;
+    }
+
+    console.log(`🔄 ${change.name} ${change.type === 'unlink' ? 'removed' : change.type === 'add' ? 'added' : 'changed'} on disk`);
+    const index = this.filesInDirectory.findIndex(file => file.path === change.path);
+
+    switch (change.type) {
+      case 'add':
+        if (index === -1) {
+          this.filesInDirectory.push({
+            path: change.path,
+            name: change.name,
+            team_id: this.teamService.activeTeam?.id
+          });
+          this.saveFilesToStorage();
+        }
+        break;
+
+      case 'unlink':
+        if (index !== -1) {
+          this.filesInDirectory.splice(index, 1);
+          this.saveFilesToStorage();
+        }
+        if (this.currentFile?.path === change.path) {
+          this.diskChangesSubject.next({
+            type: 'unlink',
+            file: this.currentFile,
+            content: null,
+            base: this.storage.getItem(`${this.FILE_CONTENT_PREFIX}${change.path}`) || ''
+          });
+        }
+        break;
+
+      case 'change':
+        this.syncChangedFile(change.path);
+        break;
+    }
+  }
+
+  /**
+   * Brings the stored copy of a file changed on disk up to date, and reports the
+   * change for tabs of the file. The open file's copy is left alone, since the
+   * editor may have unsaved edits.
+   *
+   * @param filePath - Path of the changed file
+   */
+  private syncChangedFile(filePath: string): void {
+    const contentKey = `${this.FILE_CONTENT_PREFIX}${filePath}`;
+    const stored = this.storage.getItem(contentKey);
+
+    // Never opened here, so there is no copy to update
+    if (stored === null && this.currentFile?.path !== filePath) {
+      return;
+    }
+
+    this.electronService.readFile(filePath).subscribe(content => {
+      // Unreadable, or our own save coming back
+      if (content === null || content === stored) {
+        return;
+      }
+
+      if (this.currentFile?.path === filePath) {
+        this.diskChangesSubject.next({ type: 'change', file: this.currentFile, content, base: stored || '' });
+        return;
+      }
+
+      this.storage.setItem(contentKey, content);
+      const file = this.filesInDirectory.find(entry => entry.path === filePath);
+      if (file) {
+        this.diskChangesSubject.next({ type: 'change', file, content, base: stored || '' });
+      }
+    });
+  }
+
+  /**
+   * Records content read from disk as the last saved state of a file,
+   * once the editor has reloaded or merged it.
+   *
+   * @param file - The file that changed on disk
+   * @param content - Its content on disk
+   */
+  acceptDiskContent(file: FileInfo, content: string): void {
+    this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${file.path}`, content);
+  }
+
+  /**
+   * Adds a markdown file the OS asked the app to open to the open files.
+   *
+   * @param opened - The file with its content on disk
+   * @returns The file to open in the editor
+   */
+  openFileFromSystem(opened: { path: string; name: string; content: string }): FileInfo {
+    let file = this.filesInDirectory.find(entry => entry.path === opened.path);
+    if (!file) {
+      file = { path: opened.path, name: opened.name, lastModified: Date.now() };
+      this.filesFromSystem = [...this.filesFromSystem.filter(entry => entry.path !== file!.path), file];
+      this.filesInDirectory.push(file);
+      this.saveFilesToStorage();
+    }
+
+    // Leave the open file's saved state alone; the watcher deals with its changes
+    if (this.currentFile?.path !== opened.path) {
+      this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${opened.path}`, opened.content);
+    }
+    return file;
+  }
+
+  /**
+   * Whether notes can be opened from anywhere in the Files app
+   */
+  canOpenDocuments(): boolean {
+    return this.capacitorService.isIOS();
+  }
+
+  /**
+   * Whether notes can be sent to other apps through the share sheet
+   */
+  canShare(): boolean {
+    return this.capacitorService.isIOS();
+  }
+
+  /**
+   * Text, links and images shared to Laminotes from other apps, starting
+   * with those shared while the app was closed. Subscribe once.
+   */
+  sharedContent(): Observable<SharedContent> {
+    return this.capacitorService.sharedContent();
+  }
+
+  /**
+   * Lets the user pick a note in the Files app, iCloud Drive included, and
+   * adds it to the open files.
+   *
+   * @returns Observable containing the file to open in the editor, or null if cancelled
+   */
+  openDocument(): Observable<FileInfo | null> {
+    return this.capacitorService.openDocument().pipe(
+      map(opened => opened ? this.openFileFromSystem(opened) : null)
+    );
+  }
+
+  /**
+   * Keeps files opened from the OS listed when the directory is read again
+   *
+   * @param files - Files of the current directory
+   */
+  private withFilesFromSystem(files: FileInfo[]): FileInfo[] {
+    const paths = new Set(files.map(file => file.path));
+    return [...files, ...this.filesFromSystem.filter(file => !paths.has(file.path))];
+  }
+
   /**
    * Opens a file and returns its content.
-   * Tries localStorage first, then falls back to server fetch if needed.
+   * Tries local storage first, then falls back to server fetch if needed.
    *
    * @param file - The file information object to open
    * @returns Observable of the file content as a string
    */
   openFile(file: FileInfo): Observable<string> {
+    // Note files on disk go into the OS recent documents
+    if (this.electronService.isElectron() && /^(\/|[A-Za-z]:[\\/])/.test(file.path)) {
+      this.electronService.addRecentDocument(file.path);
+    }
+
     // First try to get from local storage
-    const localContent = localStorage.getItem(`${this.FILE_CONTENT_PREFIX}${file.path}`);
+    const localContent = this.storage.getItem(`${this.FILE_CONTENT_PREFIX}${file.path}`);
 
     if (localContent) {
       this.currentFile = file;
       return of(localContent);
     }
 
+    // Notes in folders picked in the Files app are read in place
+    if (this.isMobileEnvironment && this.capacitorService.isExternalPath(file.path)) {
+      return this.capacitorService.readFile(file.path).pipe(
+        tap(content => {
+          this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${file.path}`, content);
+          this.currentFile = file;
+        }),
+        catchError(error => {
+          console.error('Error opening file:', error);
+          return of('');
+        })
+      );
+    }
+
     // If not in local storage, try to get from the server
     return this.apiService.getFile(file.name).pipe(
       tap(content => {
         // Save to local storage
-        localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${file.path}`, content);
+        this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${file.path}`, content);
         this.currentFile = file;
       }),
       catchError(error => {
@@ -554,7 +809,29 @@ export class FileService {
   }
 
   /**
-   * Saves file content to disk or localStorage.
+   * Reads a note without opening it: its stored copy, or the file on disk.
+   * Browser notes never opened here aren't fetched from the server.
+   *
+   * @param file - The note to read
+   * @returns Observable of the content, or null if it can't be read here
+   */
+  readNote(file: FileInfo): Observable<string | null> {
+    const stored = this.storage.getItem(`${this.FILE_CONTENT_PREFIX}${file.path}`);
+    if (stored !== null) {
+      return of(stored);
+    }
+
+    if (this.electronService.isElectron()) {
+      return this.electronService.readFile(file.path);
+    }
+    if (this.isMobileEnvironment) {
+      return this.capacitorService.readFile(file.path).pipe(catchError(() => of(null)));
+    }
+    return of(null);
+  }
+
+  /**
+   * Saves file content to disk or local storage.
    * Handles Electron desktop, Capacitor mobile, and browser environments 
    * with appropriate storage mechanisms.
    *
@@ -564,6 +841,38 @@ export class FileService {
    * @returns Observable completing when the save operation is finished
    */
   saveFile(content: string, newFilePath?: string, forceSaveAs: boolean = false): Observable<void> {
+    return this.writeFile(content, newFilePath, forceSaveAs).pipe(
+      tap(() => {
+        if (this.currentFile) {
+          this.fileChangesSubject.next({ type: 'saved', file: this.currentFile, content });
+        }
+      })
+    );
+  }
+
+  /**
+   * Saves a note by its path, whether or not it's the open one.
+   *
+   * @param path - Path of the note
+   * @param content - The content to save
+   * @returns Observable completing when the note is saved
+   */
+  saveNote(path: string, content: string): Observable<void> {
+    if (this.currentFile?.path === path) {
+      return this.saveFile(content);
+    }
+
+    const file = this.filesInDirectory.find(entry => entry.path === path);
+    if (!file) {
+      return throwError(() => new Error(`${path} is no longer among your notes`));
+    }
+    return this.writeNote(file, content);
+  }
+
+  /**
+   * Writes the content where this environment keeps notes; saveFile without the change event
+   */
+  private writeFile(content: string, newFilePath?: string, forceSaveAs: boolean = false): Observable<void> {
     const activeTeam = this.teamService.activeTeam;
     
     // ELECTRON ENVIRONMENT HANDLING
@@ -688,7 +997,7 @@ export class FileService {
               // Update existing entry
               this.filesInDirectory[existingFileIndex] = this.currentFile;
             }
-            this.saveFilesToLocalStorage();
+            this.saveFilesToStorage();
             return this.electronService.saveFile(content, selectedPath, false);
           }),
           catchError(error => {
@@ -725,7 +1034,7 @@ export class FileService {
       return this.electronService.saveFile(content, filePath, false).pipe(
         tap(() => {
           // On success, update local storage as backup
-          localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${filePath}`, content);
+          this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${filePath}`, content);
 
           // Update lastModified
           if (this.currentFile) {
@@ -736,10 +1045,10 @@ export class FileService {
             const index = this.filesInDirectory.findIndex(f => f.path === filePath);
             if (index !== -1) {
               this.filesInDirectory[index] = this.currentFile;
-              this.saveFilesToLocalStorage();
+              this.saveFilesToStorage();
             } else {
               this.filesInDirectory.push(this.currentFile);
-              this.saveFilesToLocalStorage();
+              this.saveFilesToStorage();
             }
           }
         }),
@@ -794,8 +1103,8 @@ export class FileService {
             filePath = result.filePath;
           }
           
-          // Store a backup in localStorage
-          localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${filePath}`, content);
+          // Store a backup in local storage
+          this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${filePath}`, content);
           
           // Update or create the current file record
           if (!this.currentFile) {
@@ -835,7 +1144,7 @@ export class FileService {
             }
           }
           
-          this.saveFilesToLocalStorage();
+          this.saveFilesToStorage();
         }),
         catchError(error => {
           console.error('Error in Capacitor save:', error);
@@ -846,27 +1155,9 @@ export class FileService {
     }
     // BROWSER ENVIRONMENT HANDLING (fallback)
     else {
-      console.log('Running in browser, using localStorage for file storage');
+      console.log('Running in browser, using IndexedDB for file storage');
       if (this.currentFile) {
-        localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${this.currentFile.path}`, content);
-        this.currentFile.lastModified = Date.now(); // Update timestamp
-        this.saveFilesToLocalStorage();
-
-        return this.metadataService.addCommit(this.currentFile, content).pipe(
-          switchMap(metadata => {
-            return this.apiService.uploadFile(
-              this.currentFile!.name,
-              content,
-              metadata,
-              this.currentFile!.team_id
-            ).pipe(
-              catchError(error => {
-                console.error('Failed to upload to server:', error);
-                return of(undefined);
-              })
-            );
-          })
-        );
+        return this.saveBrowserNote(this.currentFile, content);
       }
 
       return this.saveToLocalStorageOnly(content, newFilePath);
@@ -874,38 +1165,103 @@ export class FileService {
   }
 
   /**
-   * Creates a new directory.
-   * Only supported in Electron mode.
-   *
-   * @param dirName - Name of the directory to create
-   * @returns Observable completing when the directory is created
+   * Saves a browser note to storage and uploads it, journaling the upload while offline
    */
-  addDirectory(dirName: string): Observable<void> {
-    console.log('Adding directory:', dirName);
+  private saveBrowserNote(file: FileInfo, content: string): Observable<void> {
+    const contentKey = `${this.FILE_CONTENT_PREFIX}${file.path}`;
 
-    if (this.electronService.isElectron()) {
-      // Get the current directory path if any
-      const currentDir = this.currentDirectory || '.';
-      const newDirPath = this.path.join(currentDir, dirName);
+    // Last saved content is the base for merging if this save has to wait for the network
+    const baseContent = this.storage.getItem(contentKey);
+    this.storage.setItem(contentKey, content);
+    file.lastModified = Date.now(); // Update timestamp
+    this.saveFilesToStorage();
 
-      return this.electronService.createDirectory(newDirPath).pipe(
-        map(result => {
-          if (result.success) {
-            console.log('Directory created:', newDirPath);
-            // Switch to the newly created directory
-            this.currentDirectory = newDirPath;
-            this.filesInDirectory = [];
-            this.saveFilesToLocalStorage();
-            return undefined;
-          } else {
-            throw new Error(result.message || 'Failed to create directory');
-          }
-        })
-      );
+    return this.metadataService.addCommit(file, content).pipe(
+      switchMap(metadata => {
+        const payload = { content, baseContent, metadata };
+
+        // Keep server operations in order behind anything already journaled
+        if (this.canJournal() && (!this.offlineQueue.isOnline || this.hasPendingOperations())) {
+          this.offlineQueue.enqueue('saveFile', file.name, payload, file.team_id);
+          return this.offlineQueue.replay().pipe(map(() => undefined));
+        }
+
+        return this.apiService.uploadFile(
+          file.name,
+          content,
+          metadata,
+          file.team_id
+        ).pipe(
+          catchError(error => {
+            if (this.canJournal() && this.offlineQueue.isNetworkError(error)) {
+              console.log(`📴 Server unreachable, journaling save of ${file.name}`);
+              this.offlineQueue.enqueue('saveFile', file.name, payload, file.team_id);
+            } else {
+              console.error('Failed to upload to server:', error);
+            }
+            return of(undefined);
+          })
+        );
+      })
+    );
+  }
+
+  /**
+   * Saves a note that needn't be the open one, e.g. when its links are rewritten
+   */
+  private writeNote(file: FileInfo, content: string): Observable<void> {
+    let write: Observable<unknown>;
+    if (this.electronService.isElectron() && this.usesDirectory()) {
+      write = this.electronService.saveFile(content, file.path, false);
+    } else if (this.isMobileEnvironment && this.usesDirectory()) {
+      write = this.capacitorService.saveFile(content, file.path);
     } else {
-      console.log('Directories not supported in browser mode');
-      return of(undefined);
+      write = this.saveBrowserNote(file, content);
+    }
+
+    return write.pipe(
+      map(() => {
+        this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${file.path}`, content);
+        this.fileChangesSubject.next({ type: 'saved', file, content });
+      })
+    );
+  }
+
+  /**
+   * Creates a folder in the current directory.
+   * On Electron and Capacitor the folder is created on disk; in the browser
+   * it exists only in the folder list until notes are moved into it.
+   *
+   * @param dirName - Name of the folder to create
+   * @param parent - Folder to create it in, relative to the current directory; '' for the top level
+   * @returns Observable completing when the folder is created
+   */
+  addDirectory(dirName: string, parent: string = ''): Observable<void> {
+    const folder = joinPath(parent, dirName.trim());
+    console.log('Adding directory:', folder);
+
+    if (this.folderExists(folder)) {
+      return throwError(() => new Error(`A folder named ${folder} already exists`));
+    }
+
+    let creation: Observable<any> = of({ success: true });
+    if (this.electronService.isElectron() && this.currentDirectory) {
+      creation = this.electronService.createDirectory(`${this.currentDirectory}/${folder}`);
+    } else if (this.isMobileEnvironment && this.currentDirectory) {
+      creation = this.capacitorService.createDirectory(`${this.currentDirectory}/${folder}`);
     }
+
+    return creation.pipe(
+      map(result => {
+        if (!result.success) {
+          throw new Error(result.message || 'Failed to create directory');
+        }
+
+        console.log('📂 Directory created:', folder);
+        this.addFolders([folder]);
+        return undefined;
+      })
+    );
   }
 
   /**
@@ -929,12 +1285,13 @@ export class FileService {
 
             // Clear existing files when changing directory
             this.filesInDirectory = [];
+            this.folders = result.folders || [];
             this.currentFile = null;
             if (result.files && Array.isArray(result.files)) {
               console.log('Found', result.files.length, 'files in directory');
 
               this.filesInDirectory = result.files;
-              this.saveFilesToLocalStorage();
+              this.saveFilesToStorage();
             } else {
               console.log('No files in result');
             }
@@ -954,83 +1311,39 @@ export class FileService {
     // CAPACITOR iOS/iPadOS ENVIRONMENT
     else if (this.isMobileEnvironment) {
       console.log('Selecting directory in Capacitor iOS/iPadOS');
-      
-      // iOS doesn't have a proper directory picker, so we'll use a simplified approach
-      // We'll either use an existing team directory or create a default one
       const activeTeam = this.teamService.activeTeam;
-      
-      if (activeTeam) {
-        // For team context, use/create team directory
-        const teamDir = this.teamService.getTeamDirectory(activeTeam.id) || `Teams/${activeTeam.name}`;
-        
-        return this.capacitorService.createDirectory(teamDir).pipe(
-          switchMap(() => this.capacitorService.listDirectory(teamDir)),
-          map(result => {
-            if (result.success) {
-              console.log(`Using team directory for iOS: ${teamDir}`);
-              this.currentDirectory = teamDir;
-              
-              // Update files list
-              this.filesInDirectory = result.files || [];
-              if (this.filesInDirectory.length > 0) {
-                console.log(`Found ${this.filesInDirectory.length} files in iOS directory`);
-                
-                // Tag files with team ID
-                this.filesInDirectory.forEach(file => {
-                  file.team_id = activeTeam.id;
-                });
-              } else {
-                console.log('No files found in iOS directory');
-              }
-              
-              this.saveFilesToLocalStorage();
-              return teamDir;
-            } else {
-              console.error('Error accessing iOS directory:', result.message);
-              return null;
-            }
-          }),
-          catchError(error => {
-            console.error('Error with iOS directory operations:', error);
-            return of(null);
-          })
-        );
-      } else {
-        // For personal context, use default directory
-        const defaultDir = 'Laminotes';
-        
-        return this.capacitorService.createDirectory(defaultDir).pipe(
-          switchMap(() => this.capacitorService.listDirectory(defaultDir)),
-          map(result => {
-            if (result.success) {
-              console.log(`Using default iOS directory: ${defaultDir}`);
-              this.currentDirectory = defaultDir;
-              
-              // Update files list
-              this.filesInDirectory = result.files || [];
-              if (this.filesInDirectory.length > 0) {
-                console.log(`Found ${this.filesInDirectory.length} files in iOS directory`);
-              } else {
-                console.log('No files found in iOS directory');
-              }
-              
-              this.saveFilesToLocalStorage();
-              return defaultDir;
-            } else {
-              console.error('Error accessing iOS directory:', result.message);
-              return null;
-            }
-          }),
-          catchError(error => {
-            console.error('Error with iOS directory operations:', error);
-            return of(null);
-          })
-        );
-      }
-    } 
-    // BROWSER ENVIRONMENT (Fallback)
-    else {
-      console.log('Directory selection not supported in browser mode');
+
+      return this.capacitorService.selectDirectory(activeTeam || undefined).pipe(
+        map(result => {
+          if (!result.success || !result.dirPath) {
+            console.log('Directory selection cancelled');
+            return null;
+          }
+
+          console.log('Directory selected:', result.dirPath);
+          this.currentDirectory = result.dirPath;
+          this.currentFile = null;
+          this.filesInDirectory = this.withFilesFromSystem(result.files || []);
+          this.folders = result.folders || [];
+
+          // The folder's bookmark keeps it reachable, so the team can use it after restarts
+          if (activeTeam) {
+            this.filesInDirectory.forEach(file => file.team_id = activeTeam.id);
+            this.teamService.setTeamDirectory(activeTeam, result.dirPath).subscribe();
+          }
+
+          this.saveFilesToStorage();
+          return result.dirPath;
+        }),
+        catchError(error => {
+          console.error('Error selecting directory:', error);
+          return of(null);
+        })
+      );
+    } 
+    // BROWSER ENVIRONMENT (Fallback)
+    else {
+      console.log('Directory selection not supported in browser mode');
       return of(null);
     }
   }
@@ -1044,8 +1357,8 @@ export class FileService {
       this.currentFile.path = fixedPath;
       this.currentFile.lastModified = Date.now();
 
-      // Store in localStorage as backup
-      localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${fixedPath}`, content);
+      // Store in local storage as backup
+      this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${fixedPath}`, content);
 
       // Update in files list if needed
       const index = this.filesInDirectory.findIndex(f => f.name === this.currentFile!.name);
@@ -1054,14 +1367,14 @@ export class FileService {
       } else {
         this.filesInDirectory.push(this.currentFile);
       }
-      this.saveFilesToLocalStorage();
+      this.saveFilesToStorage();
 
       return of(undefined);
     }
 
-    // Standard localStorage saving for web mode
+    // Standard local storage saving for web mode
     if (newFilePath) {
-      localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${newFilePath}`, content);
+      this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${newFilePath}`, content);
       const fileName = newFilePath.split('/').pop() || 'Untitled.md';
       this.currentFile = {
         path: newFilePath,
@@ -1069,8 +1382,8 @@ export class FileService {
         lastModified: Date.now()
       };
     } else if (this.currentFile) {
-      // Update existing file in localStorage
-      localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${this.currentFile.path}`, content);
+      // Update existing file in local storage
+      this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${this.currentFile.path}`, content);
       this.currentFile.lastModified = Date.now();
     } else {
       // Create a new file with a UUID path
@@ -1078,7 +1391,7 @@ export class FileService {
       const newFileName = 'Untitled.md';
       const newPath = `${id}/${newFileName}`;
 
-      localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${newPath}`, content);
+      this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${newPath}`, content);
 
       this.currentFile = {
         path: newPath,
@@ -1087,7 +1400,7 @@ export class FileService {
       };
 
       this.filesInDirectory.push(this.currentFile);
-      this.saveFilesToLocalStorage();
+      this.saveFilesToStorage();
     }
 
     return of(undefined);
@@ -1135,7 +1448,7 @@ export class FileService {
         // Add to files list and set as current
         this.filesInDirectory.push(newFile);
         this.currentFile = newFile;
-        this.saveFilesToLocalStorage();
+        this.saveFilesToStorage();
 
         return of(undefined);
       }
@@ -1165,7 +1478,7 @@ export class FileService {
             // Add to files list and set as current
             this.filesInDirectory.push(newFile);
             this.currentFile = newFile;
-            this.saveFilesToLocalStorage();
+            this.saveFilesToStorage();
 
             return of(undefined);
           })
@@ -1182,7 +1495,7 @@ export class FileService {
       // Add to files list and set as current
       this.filesInDirectory.push(newFile);
       this.currentFile = newFile;
-      this.saveFilesToLocalStorage();
+      this.saveFilesToStorage();
 
       return of(undefined);
     }
@@ -1232,7 +1545,8 @@ export class FileService {
           // Add to files list and set as current
           this.filesInDirectory.push(newFile);
           this.currentFile = newFile;
-          this.saveFilesToLocalStorage();
+          this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${filePath}`, initialContent);
+          this.saveFilesToStorage();
           
           return undefined;
         }),
@@ -1249,8 +1563,8 @@ export class FileService {
       const id = uuidv4();
       const newFilePath = `${id}/${fileName}`;
 
-      // Save content locally in localStorage
-      localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${newFilePath}`, initialContent);
+      // Save content locally in local storage
+      this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${newFilePath}`, initialContent);
 
       // Create file info object
       const newFile: FileInfo = {
@@ -1260,9 +1574,9 @@ export class FileService {
         lastModified: Date.now()
       };
 
-      // Add to files list and persist to localStorage
+      // Add to files list and persist to local storage
       this.filesInDirectory.push(newFile);
-      this.saveFilesToLocalStorage();
+      this.saveFilesToStorage();
 
       // Create metadata and upload to server if possible
       return this.metadataService.createMetadata(newFile).pipe(
@@ -1283,6 +1597,99 @@ export class FileService {
     }
   }
 
+  /**
+   * Writes a batch of imported notes into the active team's directory, or the
+   * current directory outside a team, keeping their folder structure.
+   *
+   * @param notes - Notes to write, with paths relative to the notes directory
+   * @returns Observable of the created files
+   */
+  importNotes(notes: { path: string; content: string }[]): Observable<FileInfo[]> {
+    const activeTeam = this.teamService.activeTeam;
+
+    // ELECTRON ENVIRONMENT
+    if (this.electronService.isElectron()) {
+      const baseDirectory = (activeTeam && this.teamService.getTeamDirectory(activeTeam.id)) || this.currentDirectory;
+      if (!baseDirectory) {
+        return throwError(() => new Error('Choose a notes folder before importing'));
+      }
+
+      const taken = this.namesInUse(activeTeam?.id);
+      return from(notes).pipe(
+        concatMap(note => this.importName(note.path, taken, name => this.path.join(baseDirectory, name)).pipe(
+          switchMap(name => {
+            const filePath = this.path.join(baseDirectory, name);
+            // The save handler refuses empty content
+            return this.electronService.saveFile(note.content || '\n', filePath, false).pipe(
+              map((): FileInfo => ({ path: filePath, name, team_id: activeTeam?.id, lastModified: Date.now() }))
+            );
+          })
+        )),
+        toArray(),
+        tap(files => {
+          console.log(`✅ Imported ${files.length} notes into ${baseDirectory}`);
+          this.refreshFileList();
+        })
+      );
+    }
+
+    // CAPACITOR iOS/iPadOS ENVIRONMENT
+    if (this.isMobileEnvironment) {
+      const baseDirectory = activeTeam
+        ? this.teamService.getTeamDirectory(activeTeam.id) || `Teams/${activeTeam.name}`
+        : this.currentDirectory || 'Laminotes';
+
+      const taken = this.namesInUse(activeTeam?.id);
+      return from(notes).pipe(
+        concatMap(note => this.importName(note.path, taken, name => `${baseDirectory}/${name}`).pipe(
+          switchMap(name => {
+            const filePath = `${baseDirectory}/${name}`;
+            return this.capacitorService.saveFile(note.content, filePath).pipe(
+              map((): FileInfo => ({ path: filePath, name, team_id: activeTeam?.id, lastModified: Date.now() }))
+            );
+          })
+        )),
+        toArray(),
+        tap(files => {
+          console.log(`✅ Imported ${files.length} notes into ${baseDirectory}`);
+          this.refreshFileList();
+        })
+      );
+    }
+
+    // BROWSER ENVIRONMENT
+    const taken = this.namesInUse(activeTeam?.id);
+    return from(notes).pipe(
+      concatMap(note => this.importName(note.path, taken).pipe(
+        switchMap(name => {
+          const newFile: FileInfo = {
+            path: `${uuidv4()}/${name}`,
+            name,
+            team_id: activeTeam?.id,
+            lastModified: Date.now()
+          };
+
+          this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${newFile.path}`, note.content);
+          this.filesInDirectory.push(newFile);
+
+          return this.metadataService.createMetadata(newFile).pipe(
+            switchMap(metadata => this.apiService.uploadFile(newFile.name, note.content, metadata, activeTeam?.id)),
+            catchError(error => {
+              console.error(`Failed to upload imported note ${name} to server:`, error);
+              return of(undefined); // Keep the local copy even if the upload fails
+            }),
+            map(() => newFile)
+          );
+        })
+      )),
+      toArray(),
+      tap(files => {
+        console.log(`✅ Imported ${files.length} notes`);
+        this.saveFilesToStorage();
+      })
+    );
+  }
+
   private syncWithServer(file: FileInfo, content: string): Observable<void> {
     const activeTeam = this.teamService.activeTeam;
     const teamId = activeTeam ? activeTeam.id : file.team_id;
@@ -1310,6 +1717,175 @@ export class FileService {
     );
   }
   
+  /**
+   * Whether server operations should be journaled for offline replay.
+   * Only signed-in users have a server copy to keep in sync.
+   */
+  private canJournal(): boolean {
+    return !!localStorage.getItem('auth_token');
+  }
+
+  private hasPendingOperations(): boolean {
+    return this.offlineQueue.pendingOperations.length > 0;
+  }
+
+  /**
+   * Records a server-side file operation and replays the journal right away
+   * when online, so the operation reaches the server in order.
+   */
+  private journalServerOperation(type: 'renameFile' | 'deleteFile', file: FileInfo, payload: any): void {
+    if (!this.canJournal()) {
+      return;
+    }
+
+    this.offlineQueue.enqueue(type, file.name, payload, file.team_id);
+    this.offlineQueue.replay().subscribe();
+  }
+
+  /**
+   * Registers the functions that replay journaled file operations
+   */
+  private registerReplayHandlers(): void {
+    this.offlineQueue.registerHandler('saveFile', op => this.replaySave(op));
+    this.offlineQueue.registerHandler('renameFile', op => this.replayRename(op));
+    this.offlineQueue.registerHandler('deleteFile', op => this.replayDelete(op));
+  }
+
+  /**
+   * Fetches the server copy of a file, or null if the server doesn't have it
+   */
+  private fetchServerContent(fileName: string, teamId?: string): Observable<string | null> {
+    return this.apiService.getFile(fileName, teamId).pipe(
+      catchError(error => {
+        if (error?.message?.startsWith('File not found')) {
+          return of(null);
+        }
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Uploads a save made offline. If the server copy changed in the meantime,
+   * the two edits are merged against the content the offline edit started from.
+   */
+  private replaySave(op: PendingOperation): Observable<ReplayOutcome> {
+    const { content, baseContent, metadata } = op.payload;
+
+    return this.fetchServerContent(op.fileName, op.teamId).pipe(
+      switchMap(serverContent => {
+        if (serverContent === null || serverContent === content || serverContent === baseContent) {
+          return this.apiService.uploadFile(op.fileName, content, metadata, op.teamId).pipe(
+            map((): ReplayOutcome => ({ status: 'done' }))
+          );
+        }
+
+        const result = this.mergeService.merge(baseContent ?? '', content, serverContent);
+
+        if (result.clean) {
+          console.log(`🔄 Merged offline changes to ${op.fileName} with server changes`);
+          return this.apiService.uploadFile(op.fileName, result.content, metadata, op.teamId).pipe(
+            tap(() => this.updateLocalContent(op.fileName, result.content)),
+            map((): ReplayOutcome => ({ status: 'done', message: 'Merged with server changes', mergedContent: result.content }))
+          );
+        }
+
+        return of<ReplayOutcome>({
+          status: 'conflict',
+          message: `${op.fileName} was also changed on the server while you were offline`,
+          conflict: {
+            fileId: op.fileName,
+            fileName: op.fileName,
+            localVersion: content,
+            remoteVersion: serverContent,
+            baseVersion: baseContent ?? undefined,
+            lastLocalUpdate: op.createdAt,
+            lastRemoteUpdate: new Date().toISOString(),
+            remoteAuthor: 'another user',
+            conflictRegions: result.conflicts,
+            mergedContent: result.content
+          }
+        });
+      })
+    );
+  }
+
+  /**
+   * Moves the server copy of a file renamed or moved offline to its new name and team
+   */
+  private replayRename(op: PendingOperation): Observable<ReplayOutcome> {
+    const newFileName: string = op.payload.newFileName;
+    // Moves between teams name the new team; null is the personal notes
+    const newTeamId: string | undefined = op.payload.newTeamId === undefined ? op.teamId : op.payload.newTeamId ?? undefined;
+
+    return forkJoin({
+      oldContent: this.fetchServerContent(op.fileName, op.teamId),
+      newContent: this.fetchServerContent(newFileName, newTeamId)
+    }).pipe(
+      switchMap(({ oldContent, newContent }) => {
+        if (oldContent === null) {
+          // Never reached the server, nothing to move
+          return of<ReplayOutcome>({ status: 'done' });
+        }
+
+        if (newContent !== null && newContent !== oldContent) {
+          return of<ReplayOutcome>({
+            status: 'conflict',
+            message: `Could not rename ${op.fileName}: ${newFileName} already exists on the server`
+          });
+        }
+
+        return this.apiService.getFileMetadata(op.fileName, op.teamId).pipe(
+          switchMap(metadata => this.apiService.uploadFile(
+            newFileName,
+            oldContent,
+            metadata ? { ...metadata, fileName: newFileName } : undefined,
+            newTeamId
+          )),
+          switchMap(() => this.apiService.deleteFile(op.fileName, op.teamId)),
+          map((): ReplayOutcome => ({ status: 'done' }))
+        );
+      })
+    );
+  }
+
+  /**
+   * Deletes the server copy of a file deleted offline, unless someone else
+   * changed it in the meantime
+   */
+  private replayDelete(op: PendingOperation): Observable<ReplayOutcome> {
+    const lastKnownContent: string | null = op.payload.lastKnownContent;
+
+    return this.fetchServerContent(op.fileName, op.teamId).pipe(
+      switchMap(serverContent => {
+        if (serverContent === null) {
+          return of<ReplayOutcome>({ status: 'done' });
+        }
+
+        if (lastKnownContent !== null && serverContent !== lastKnownContent) {
+          return of<ReplayOutcome>({
+            status: 'conflict',
+            message: `${op.fileName} was changed on the server after you deleted it; the server copy was kept`
+          });
+        }
+
+        return this.apiService.deleteFile(op.fileName, op.teamId).pipe(
+          map((): ReplayOutcome => ({ status: 'done' }))
+        );
+      })
+    );
+  }
+
+  /**
+   * Stores merged content locally for a file identified by name
+   */
+  private updateLocalContent(fileName: string, content: string): void {
+    const file = this.filesInDirectory.find(f => f.name === fileName);
+    if (file) {
+      this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${file.path}`, content);
+    }
+  }
+
   /**
    * Handles image upload and processing.
    * Supports both base64 embedded images and file references.
@@ -1438,6 +2014,14 @@ export class FileService {
     return mimeType ? mimeType.startsWith('image/') : false;
   }
 
+  /**
+   * Renames a file. The new name is relative to the notes directory, so a
+   * file keeps its folder only when the new name includes it.
+   *
+   * @param file - The file to rename
+   * @param newFileName - New name; `.md` is added when it has no extension
+   * @returns Observable completing when the file is renamed
+   */
   renameFile(file: FileInfo, newFileName: string): Observable<void> {
     console.log('Renaming file:', file, 'to', newFileName);
 
@@ -1445,124 +2029,423 @@ export class FileService {
       return of(undefined);
     }
 
-    if (!newFileName.includes('.')) {
+    if (!baseName(newFileName).includes('.')) {
       newFileName = `${newFileName}.md`;
     }
 
-    // Get the content
-    const content = localStorage.getItem(`${this.FILE_CONTENT_PREFIX}${file.path}`) || '';
+    return this.relocateFile(file, this.rootOf(file), newFileName).pipe(
+      switchMap(renamed => this.updateLinksTo(file, renamed))
+    );
+  }
 
-    // If running in Electron and this is a filesystem path
-    if (this.electronService.isElectron() && file.path.includes('/')) {
-      // Check if file exists on disk first
-      return this.electronService.checkFileExists(file.path).pipe(
-        switchMap(exists => {
-          if (!exists) {
-            console.log(`File ${file.path} does not exist on disk yet. Doing a memory rename only.`);
-            return this.renameBrowserOnly(file, newFileName, content);
+  /**
+   * Points the `[[links]]` of the other notes in the directory at a renamed note.
+   * The open note is left to the editor, which may hold unsaved edits.
+   *
+   * @param file - The note as it was
+   * @param renamed - The note as it is now
+   * @returns Observable completing once every linking note is saved
+   */
+  private updateLinksTo(file: FileInfo, renamed: FileInfo): Observable<void> {
+    if (renamed.name === file.name) {
+      return of(undefined);
+    }
+
+    const teamNotes = this.filesInDirectory.filter(note => !note.isBinary && !this.isImageFile(note)
+      && (note.team_id ?? null) === (renamed.team_id ?? null));
+    // Links are resolved as they were before the rename, so links to notes sharing the old title stay
+    const before = teamNotes.map(note => note.path === renamed.path ? file : note);
+    const notes = teamNotes.filter(note => note.path !== renamed.path && note.path !== this.currentFile?.path);
+
+    return from(notes).pipe(
+      concatMap(note => this.readNote(note).pipe(
+        switchMap(content => {
+          const updated = content === null ? content : renameWikiLinks(content, file.name, renamed.name, before);
+          if (updated === null || updated === content) {
+            return of(false);
           }
+          return this.writeNote(note, updated).pipe(map(() => true));
+        }),
+        catchError(error => {
+          console.error(`❌ Could not update the links in ${note.name}:`, error);
+          return of(false);
+        })
+      )),
+      toArray(),
+      map(updated => {
+        const count = updated.filter(Boolean).length;
+        if (count > 0) {
+          console.log(`✅ Updated links to ${renamed.name} in ${count} notes`);
+        }
+      })
+    );
+  }
 
-          // Get directory path from the file path
-          const dirPath = this.path.dirname(file.path);
-          const newFilePath = this.path.join(dirPath, newFileName);
+  /**
+   * Moves a file into a folder, optionally into another team's directory.
+   *
+   * @param file - The file to move
+   * @param folder - Target folder relative to the notes directory; '' for the top level
+   * @param team - Team to move the file to, null for personal notes; leave out to stay in the current directory
+   * @returns Observable of the moved file
+   */
+  moveFile(file: FileInfo, folder: string, team?: Team | null): Observable<FileInfo> {
+    const root = team === undefined || !this.usesDirectory() ? this.rootOf(file) : this.directoryFor(team);
+    if (root === null) {
+      return throwError(() => new Error(`No directory is set for ${team ? `team "${team.name}"` : 'personal notes'}`));
+    }
 
-          console.log(`Renaming file from ${file.path} to ${newFilePath}`);
+    console.log(`Moving file ${file.name} to ${folder || 'the top level'}${team !== undefined ? ` of ${team ? team.name : 'personal notes'}` : ''}`);
+    return this.relocateFile(file, root, joinPath(folder, baseName(file.name)), team);
+  }
 
-          // Use Electron to rename file
-          return this.electronService.renameFile(file.path, newFilePath).pipe(
-            map(result => {
-              console.log('Electron rename result:', result);
+  /**
+   * Moves a folder with everything in it into another folder, optionally into another team's directory.
+   *
+   * @param folder - The folder to move, relative to the notes directory
+   * @param targetFolder - Folder to move it into; '' for the top level
+   * @param team - Team to move the folder to, null for personal notes; leave out to stay in the current directory
+   * @returns Observable completing when the folder is moved
+   */
+  moveFolder(folder: string, targetFolder: string, team?: Team | null): Observable<void> {
+    if (team === undefined && !canMoveFolder(folder, targetFolder)) {
+      return throwError(() => new Error(`Cannot move ${folder} into ${targetFolder || 'the top level'}`));
+    }
 
-              if (result.success) {
-                // Update local references
-                const newFile: FileInfo = {
-                  path: newFilePath,
-                  name: newFileName,
-                  team_id: file.team_id,
-                  lastModified: Date.now() // Update timestamp
-                };
+    console.log(`Moving folder ${folder} to ${targetFolder || 'the top level'}${team !== undefined ? ` of ${team ? team.name : 'personal notes'}` : ''}`);
+    return this.relocateFolder(folder, joinPath(targetFolder, baseName(folder)), team);
+  }
 
-                // Update files list
-                const index = this.filesInDirectory.findIndex(f => f.path === file.path);
-                if (index !== -1) {
-                  this.filesInDirectory[index] = newFile;
-                  this.saveFilesToLocalStorage();
-                }
+  /**
+   * Renames a folder, keeping it where it is.
+   *
+   * @param folder - The folder to rename, relative to the notes directory
+   * @param newName - Its new name, without parent folders
+   * @returns Observable completing when the folder is renamed
+   */
+  renameFolder(folder: string, newName: string): Observable<void> {
+    const newFolder = joinPath(parentFolder(folder), newName.trim());
+    if (newFolder === folder) {
+      return of(undefined);
+    }
 
-                // Update current file reference if needed
-                if (this.currentFile && this.currentFile.path === file.path) {
-                  this.currentFile = newFile;
-                }
+    console.log(`Renaming folder ${folder} to ${newFolder}`);
+    return this.relocateFolder(folder, newFolder);
+  }
 
-                // Update local storage
-                localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${newFilePath}`, content);
-                localStorage.removeItem(`${this.FILE_CONTENT_PREFIX}${file.path}`);
+  /**
+   * Deletes a folder with everything in it.
+   *
+   * @param folder - The folder to delete, relative to the notes directory
+   * @returns Observable completing when the folder is deleted
+   */
+  deleteFolder(folder: string): Observable<void> {
+    console.log('Deleting folder:', folder);
 
-                return undefined;
-              } else {
-                throw new Error(result.message || 'Failed to rename file');
-              }
-            }),
-            catchError(error => {
-              console.error('Error in Electron rename:', error);
+    let deletion: Observable<any> = of({ success: true });
+    if (this.electronService.isElectron() && this.currentDirectory) {
+      deletion = this.electronService.deleteDirectory(`${this.currentDirectory}/${folder}`);
+    } else if (this.isMobileEnvironment && this.currentDirectory) {
+      deletion = this.capacitorService.deleteDirectory(`${this.currentDirectory}/${folder}`);
+    }
 
-              // Fall back to browser-only rename
-              return this.renameBrowserOnly(file, newFileName, content);
-            })
-          );
+    return deletion.pipe(
+      map(result => {
+        if (!result.success) {
+          throw new Error(result.message || 'Failed to delete directory');
+        }
+
+        this.filesInDirectory
+          .filter(file => isInFolder(file.name, folder))
+          .forEach(file => this.forgetFile(file));
+        this.folders = this.folders.filter(existing => existing !== folder && !isInFolder(existing, folder));
+        this.saveFilesToStorage();
+        return undefined;
+      })
+    );
+  }
+
+  /**
+   * Whether notes can be moved to a team's directory, or to the personal notes for null.
+   * Not to the directory shown now, and not to one that isn't set up on this device.
+   */
+  canMoveToTeam(team: Team | null): boolean {
+    if ((team?.id ?? null) === (this.teamService.activeTeam?.id ?? null)) {
+      return false;
+    }
+    return this.directoryFor(team) !== null;
+  }
+
+  /**
+   * Moves a file to a new name, in its own directory or another team's, on
+   * disk where it lives there, and carries its stored content, the open file
+   * and its server copy along.
+   *
+   * @param file - The file to move
+   * @param root - Directory the file moves to
+   * @param newName - Its name relative to that directory
+   * @param team - Team the file moves to, null for personal notes; undefined to keep its team
+   * @returns Observable of the moved file
+   */
+  private relocateFile(file: FileInfo, root: string, newName: string, team?: Team | null): Observable<FileInfo> {
+    const newPath = `${root}/${newName}`;
+    const teamId = team === undefined ? file.team_id : team?.id;
+    if (newPath === file.path && teamId === file.team_id) {
+      return of(file);
+    }
+
+    const staysHere = this.staysInDirectory(team);
+    const taken: Observable<boolean> = staysHere
+      ? of(this.isNameTaken(newName, file))
+      : this.existsOnDisk(newPath);
+
+    let move: Observable<unknown> = of(undefined);
+    if (this.electronService.isElectron() && file.path.includes('/')) {
+      move = this.electronService.checkFileExists(file.path).pipe(
+        switchMap(exists => exists ? this.electronService.renameFile(file.path, newPath) : of({ success: true })),
+        map(result => {
+          if (!result.success) {
+            throw new Error(result.message || 'Failed to rename file');
+          }
         })
       );
+    } else if (this.isMobileEnvironment && this.currentDirectory) {
+      move = this.capacitorService.checkFileExists(file.path).pipe(
+        switchMap(exists => exists ? this.capacitorService.renameFile(file.path, newPath) : of(undefined))
+      );
+    }
+
+    return taken.pipe(
+      switchMap(isTaken => isTaken
+        ? throwError(() => new Error(`${newName} already exists`))
+        : move),
+      map(() => {
+        const moved: FileInfo = { ...file, path: newPath, name: newName, team_id: teamId, lastModified: Date.now() };
+        this.recordMove(file, moved, staysHere, team);
+        this.saveFilesToStorage();
+        console.log(`✅ Moved ${file.path} to ${newPath}`);
+        return moved;
+      })
+    );
+  }
+
+  /**
+   * Moves a folder to a new path, in the current directory or another
+   * team's, and records the move of every file in it.
+   *
+   * @param folder - The folder's path relative to the current directory
+   * @param newFolder - Its new path relative to the target directory
+   * @param team - Team the folder moves to, null for personal notes; undefined to stay in the current directory
+   */
+  private relocateFolder(folder: string, newFolder: string, team?: Team | null): Observable<void> {
+    const staysHere = this.staysInDirectory(team);
+    const targetRoot = team === undefined ? this.currentDirectory : this.directoryFor(team);
+    if (this.usesDirectory() && targetRoot === null) {
+      return throwError(() => new Error(`No directory is set for ${team ? `team "${team.name}"` : 'personal notes'}`));
+    }
+    if (staysHere && this.folderExists(newFolder)) {
+      return throwError(() => new Error(`A folder named ${newFolder} already exists`));
+    }
+
+    let move: Observable<any> = of({ success: true });
+    if (this.electronService.isElectron() && this.currentDirectory) {
+      move = this.electronService.renameFile(`${this.currentDirectory}/${folder}`, `${targetRoot}/${newFolder}`);
+    } else if (this.isMobileEnvironment && this.currentDirectory) {
+      move = this.capacitorService.moveDirectory(`${this.currentDirectory}/${folder}`, `${targetRoot}/${newFolder}`);
     }
 
-    // Browser-only rename
-    return this.renameBrowserOnly(file, newFileName, content);
+    return move.pipe(
+      map(result => {
+        if (!result.success) {
+          throw new Error(result.message || 'Failed to move directory');
+        }
+
+        for (const file of this.filesInDirectory.filter(f => isInFolder(f.name, folder))) {
+          const newName = movedPath(file.name, folder, newFolder);
+          const root = this.usesDirectory() ? targetRoot : this.rootOf(file);
+          const teamId = team === undefined ? file.team_id : team?.id;
+          this.recordMove(file, { ...file, path: `${root}/${newName}`, name: newName, team_id: teamId }, staysHere, team);
+        }
+
+        const moved = this.folders.filter(existing => existing === folder || isInFolder(existing, folder));
+        this.folders = this.folders.filter(existing => !moved.includes(existing));
+        if (staysHere) {
+          this.addFolders(moved.map(existing => movedPath(existing, folder, newFolder)));
+        }
+        this.saveFilesToStorage();
+        console.log(`✅ Moved folder ${folder} to ${newFolder}`);
+        return undefined;
+      })
+    );
   }
 
-// Helper for browser-only rename
-  private renameBrowserOnly(file: FileInfo, newFileName: string, content: string): Observable<void> {
-    // Create a new file with the new name
-    const id = file.path.split('/')[0];
-    const newFilePath = `${id}/${newFileName}`;
-    localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${newFilePath}`, content);
+  /**
+   * Carries a moved file's stored content, list entry, open file and server copy over to its new path.
+   * Files moved to a directory not shown now leave the list.
+   */
+  private recordMove(file: FileInfo, moved: FileInfo, staysHere: boolean, team?: Team | null): void {
+    const content = this.storage.getItem(`${this.FILE_CONTENT_PREFIX}${file.path}`);
+    if (content !== null) {
+      this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${moved.path}`, content);
+      this.storage.removeItem(`${this.FILE_CONTENT_PREFIX}${file.path}`);
+    }
 
-    // Remove the old file
-    localStorage.removeItem(`${this.FILE_CONTENT_PREFIX}${file.path}`);
+    if (moved.name !== file.name || moved.team_id !== file.team_id) {
+      this.journalServerOperation('renameFile', file, team === undefined
+        ? { newFileName: moved.name }
+        : { newFileName: moved.name, newTeamId: team?.id ?? null });
+    }
 
-    // Update the files list
     const index = this.filesInDirectory.findIndex(f => f.path === file.path);
     if (index !== -1) {
-      const newFile: FileInfo = {
-        path: newFilePath,
-        name: newFileName,
-        team_id: file.team_id
-      };
-
-      this.filesInDirectory[index] = newFile;
-      this.saveFilesToLocalStorage();
-
-      // Update current file reference if needed
-      if (this.currentFile && this.currentFile.path === file.path) {
-        this.currentFile = newFile;
+      if (staysHere) {
+        this.filesInDirectory[index] = moved;
+      } else {
+        this.filesInDirectory.splice(index, 1);
       }
     }
 
-    return of(undefined);
-  }
+    if (this.currentFile && this.currentFile.path === file.path) {
+      this.currentFile = moved;
+    }
 
+    this.fileChangesSubject.next({ type: 'renamed', file: moved, previous: file });
+  }
 
-  deleteFile(file: FileInfo): Observable<void> {
-    console.log('Deleting file:', file);
+  /**
+   * Forgets a deleted file: its stored content, its list entry and its server copy
+   */
+  private forgetFile(file: FileInfo): void {
+    this.journalServerOperation('deleteFile', file, {
+      lastKnownContent: this.storage.getItem(`${this.FILE_CONTENT_PREFIX}${file.path}`)
+    });
 
-    // First, remove from local storage
-    localStorage.removeItem(`${this.FILE_CONTENT_PREFIX}${file.path}`);
+    this.storage.removeItem(`${this.FILE_CONTENT_PREFIX}${file.path}`);
 
-    // Remove from files list
     const index = this.filesInDirectory.findIndex(f => f.path === file.path);
     if (index !== -1) {
       this.filesInDirectory.splice(index, 1);
-      this.saveFilesToLocalStorage();
     }
 
+    this.fileChangesSubject.next({ type: 'deleted', file });
+  }
+
+  /**
+   * Directory a file's name is relative to: the notes directory, or the id
+   * folder of a browser file. Files opened from the OS are relative to their own folder.
+   */
+  private rootOf(file: FileInfo): string {
+    return file.path.endsWith(`/${file.name}`)
+      ? file.path.substring(0, file.path.length - file.name.length - 1)
+      : this.path.dirname(file.path);
+  }
+
+  /**
+   * Directory of a team's notes, or of the personal notes for null; null when
+   * it isn't set up on this device. Browser notes of every team share one list.
+   */
+  private directoryFor(team: Team | null): string | null {
+    if (this.electronService.isElectron()) {
+      return team ? this.teamService.getTeamDirectory(team.id) : null;
+    }
+    if (this.isMobileEnvironment) {
+      return team ? this.teamService.getTeamDirectory(team.id) || `Teams/${team.name}` : 'Laminotes';
+    }
+    return '';
+  }
+
+  /**
+   * Whether notes are files in a directory on disk rather than in browser storage
+   */
+  private usesDirectory(): boolean {
+    return (this.electronService.isElectron() || this.isMobileEnvironment) && !!this.currentDirectory;
+  }
+
+  /**
+   * Whether a move keeps files in the directory shown now
+   */
+  private staysInDirectory(team?: Team | null): boolean {
+    if (team === undefined || !this.usesDirectory()) {
+      return true;
+    }
+    return (team?.id ?? null) === (this.teamService.activeTeam?.id ?? null);
+  }
+
+  private existsOnDisk(path: string): Observable<boolean> {
+    return this.electronService.isElectron()
+      ? this.electronService.checkFileExists(path)
+      : this.capacitorService.checkFileExists(path);
+  }
+
+  /**
+   * Whether another file of the same team already has a name; names differing only in case clash on macOS and iOS
+   */
+  private isNameTaken(name: string, except: FileInfo): boolean {
+    return this.filesInDirectory.some(file => file !== except
+      && file.path !== except.path
+      && file.name.toLowerCase() === name.toLowerCase()
+      && (file.team_id ?? null) === (except.team_id ?? null));
+  }
+
+  /**
+   * Lowercased names of the notes of a team, for comparing without case like isNameTaken
+   */
+  private namesInUse(teamId?: string): Set<string> {
+    return new Set(this.filesInDirectory
+      .filter(file => (file.team_id ?? null) === (teamId ?? null))
+      .map(file => file.name.toLowerCase()));
+  }
+
+  /**
+   * Picks a name for an imported note that is not in use yet, numbering it like "Plan (2).md"
+   * rather than overwriting a note with the same name
+   * @param taken Names in use, lowercased; the picked name is added so later notes of the batch avoid it
+   * @param pathOf Where a name would be written, to also check the disk for files not listed yet
+   */
+  private importName(name: string, taken: Set<string>, pathOf?: (name: string) => string, attempt = 1): Observable<string> {
+    const candidate = numberedName(name, attempt);
+    const exists = taken.has(candidate.toLowerCase())
+      ? of(true)
+      : pathOf ? this.existsOnDisk(pathOf(candidate)) : of(false);
+
+    return exists.pipe(
+      switchMap(found => {
+        if (found) {
+          return this.importName(name, taken, pathOf, attempt + 1);
+        }
+        taken.add(candidate.toLowerCase());
+        if (candidate !== name) {
+          console.log(`📥 ${name} already exists, importing it as ${candidate}`);
+        }
+        return of(candidate);
+      })
+    );
+  }
+
+  private folderExists(folder: string): boolean {
+    return this.folders.some(existing => existing.toLowerCase() === folder.toLowerCase())
+      || this.filesInDirectory.some(file => isInFolder(file.name.toLowerCase(), folder.toLowerCase()));
+  }
+
+  /**
+   * Adds folders and their parents to the folder list
+   */
+  private addFolders(folders: string[]): void {
+    for (let folder of folders) {
+      for (; folder && !this.folders.includes(folder); folder = parentFolder(folder)) {
+        this.folders.push(folder);
+      }
+    }
+    this.saveFilesToStorage();
+  }
+
+  deleteFile(file: FileInfo): Observable<void> {
+    console.log('Deleting file:', file);
+
+    // First, forget it locally
+    this.forgetFile(file);
+    this.saveFilesToStorage();
+
     // If running in Electron and file has a real file system path
     if (this.electronService.isElectron() && file.path.includes('/')) {
       // First check if the file exists on disk
@@ -1618,7 +2501,7 @@ export class FileService {
     }
 
     // Get the file content
-    const content = localStorage.getItem(`${this.FILE_CONTENT_PREFIX}${file.path}`);
+    const content = this.storage.getItem(`${this.FILE_CONTENT_PREFIX}${file.path}`);
     if (!content) {
       console.error('❌ No content found for file:', file.path);
       return throwError(() => new Error('No content found for file'));
@@ -1678,7 +2561,7 @@ export class FileService {
         const filePath = `${id}/${filename}`;
         
         console.log(`💾 Saving downloaded file to local storage at path: ${filePath}`);
-        localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${filePath}`, content);
+        this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${filePath}`, content);
 
         const newFile: FileInfo = {
           path: filePath,
@@ -1697,7 +2580,7 @@ export class FileService {
           this.filesInDirectory.push(newFile);
         }
 
-        this.saveFilesToLocalStorage();
+        this.saveFilesToStorage();
         this.refreshFileList();
 
         return of(newFile);
@@ -1715,7 +2598,7 @@ export class FileService {
       .filter(file => {
         // Try to get lastModified from metadata
         const metadataKey = `metadata_${file.path}`;
-        const storedMetadata = localStorage.getItem(metadataKey);
+        const storedMetadata = this.storage.getItem(metadataKey);
         if (storedMetadata) {
           try {
             const metadata = JSON.parse(storedMetadata);
@@ -1878,19 +2761,19 @@ export class FileService {
                       this.filesInDirectory.push(fileInfo);
                     }
 
-                    // Also store content in localStorage as backup
-                    localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${filePath}`, content);
+                    // Also store content in local storage as backup
+                    this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${filePath}`, content);
 
                     return undefined;
                   })
                 );
               } else {
-                // Standard localStorage approach for non-Electron or no directory
+                // Standard local storage approach for non-Electron or no directory
                 const id = uuidv4();
                 const newFilePath = `${id}/${fileName}`;
 
                 // Save content locally
-                localStorage.setItem(`${this.FILE_CONTENT_PREFIX}${newFilePath}`, content);
+                this.storage.setItem(`${this.FILE_CONTENT_PREFIX}${newFilePath}`, content);
 
                 // Add to files list if not already there
                 const existingIndex = this.filesInDirectory.findIndex(f => f.name === fileName);
@@ -1923,7 +2806,7 @@ export class FileService {
         // Execute all downloads
         return forkJoin(downloadObservables).pipe(
           tap(() => {
-            this.saveFilesToLocalStorage();
+            this.saveFilesToStorage();
             this.refreshFileList();
           }),
           map(() => undefined)
@@ -1986,7 +2869,7 @@ export class FileService {
   private performBatchUpload(teamId?: string): Observable<void> {
     // Create observables for each file to upload
     const uploadObservables = this.filesInDirectory.map(file => {
-      const content = localStorage.getItem(`${this.FILE_CONTENT_PREFIX}${file.path}`) || '';
+      const content = this.storage.getItem(`${this.FILE_CONTENT_PREFIX}${file.path}`) || '';
 
       return this.metadataService.loadMetadata(file).pipe(
         switchMap(metadata => {
@@ -2024,86 +2907,27 @@ export class FileService {
   }
   
   /**
-   * Utility method to check and clean up localStorage when needed.
-   * This helps avoid quota errors by removing old content.
+   * Checks local storage usage and warns when it gets close to the quota.
+   * Notes and images are never removed to make room.
    * 
-   * @returns Observable indicating whether cleanup was performed
+   * @returns Observable indicating whether storage is close to full
    */
   cleanupStorage(): Observable<boolean> {
-    console.log('🧹 Checking if localStorage cleanup is needed');
-    
-    try {
-      // Calculate total localStorage usage
-      let totalSize = 0;
-      let imageContentSize = 0;
-      let largestItem = { key: '', size: 0 };
-      const imagePrefixes = [this.FILE_CONTENT_PREFIX, 'image_data_', 'laminotes_img_'];
-      
-      // Count all items to see what's using space
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (!key) continue;
-        
-        const value = localStorage.getItem(key) || '';
-        const itemSize = key.length + value.length;
-        totalSize += itemSize;
-        
-        // Track largest item for potential cleanup
-        if (itemSize > largestItem.size) {
-          largestItem = { key, size: itemSize };
-        }
-        
-        // Check if this is image content
-        if (imagePrefixes.some(prefix => key.startsWith(prefix))) {
-          imageContentSize += value.length;
-          console.log(`📊 Image item: ${key.substring(0, 20)}... size: ${Math.round(value.length/1024)}KB`);
+    return from(this.storage.estimateUsage()).pipe(
+      map(({ usage, quota }) => {
+        console.log(`📊 Local storage usage: ${Math.round(usage / 1024)}KB${quota ? ` of ${Math.round(quota / 1024)}KB` : ''}`);
+
+        const nearlyFull = quota > 0 && usage / quota > 0.9;
+        if (nearlyFull) {
+          console.warn('⚠️ Local storage is nearly full');
+          this.notificationService.warning('Local storage is nearly full. Consider deleting unused notes or images.');
         }
-      }
-      
-      if (largestItem.size > 500000) { // 500KB
-        console.warn(`⚠️ Found very large item in localStorage: ${largestItem.key.substring(0, 20)}... (${Math.round(largestItem.size/1024)}KB)`);
-      }
-      
-      console.log(`📊 Total localStorage usage: ${Math.round(totalSize/1024)}KB, Images: ${Math.round(imageContentSize/1024)}KB`);
-      
-      // If close to quota limit, clean up image data
-      // iPad/Safari quota is typically around 5-10MB
-      const QUOTA_WARNING_KB = 4000; // 4MB
-      
-      if (totalSize/1024 > QUOTA_WARNING_KB) {
-        console.warn(`⚠️ LocalStorage near quota limit, performing cleanup`);
-        
-        // Find all image-related keys
-        const imageKeys: string[] = [];
-        for (let i = 0; i < localStorage.length; i++) {
-          const key = localStorage.key(i);
-          if (!key) continue;
-          
-          if (imagePrefixes.some(prefix => key.startsWith(prefix))) {
-            imageKeys.push(key);
-          }
-        }
-        
-        // Sort by key (which includes timestamp for our format)
-        // This ensures we remove oldest items first
-        imageKeys.sort();
-        
-        // Remove the oldest half of image items
-        const keysToRemove = imageKeys.slice(0, Math.ceil(imageKeys.length/2));
-        console.log(`🧹 Removing ${keysToRemove.length} old image items from localStorage`);
-        
-        keysToRemove.forEach(key => {
-          localStorage.removeItem(key);
-        });
-        
-        console.log('✅ Cleanup complete');
-        return of(true);
-      }
-      
-      return of(false);
-    } catch (error) {
-      console.error('❌ Error during storage cleanup:', error);
-      return of(false);
-    }
+        return nearlyFull;
+      }),
+      catchError(error => {
+        console.error('❌ Error checking storage usage:', error);
+        return of(false);
+      })
+    );
   }
 }
@@ -0,0 +1,28 @@
+import { fuzzyFilter, fuzzyMatch } from './fuzzy-match';
+
+describe('fuzzyMatch', () => {
+  it('should match characters in order, ignoring case', () => {
+    expect(fuzzyMatch('mtg', 'Meeting.md')?.positions).toEqual([0, 3, 6]);
+    expect(fuzzyMatch('gtm', 'Meeting.md')).toBeNull();
+    expect(fuzzyMatch('', 'Meeting.md')?.score).toBe(0);
+  });
+
+  it('should prefer the starts of words and path segments', () => {
+    expect(fuzzyMatch('pp', 'Projects/Plan.md')?.positions).toEqual([0, 9]);
+    expect(fuzzyMatch('mn', 'Meeting Notes.md')?.positions).toEqual([0, 8]);
+    expect(fuzzyMatch('sm', 'switchMode')?.positions).toEqual([0, 6]);
+  });
+
+  it('should ignore spaces in the query', () => {
+    expect(fuzzyMatch('view split', 'View: Split')).not.toBeNull();
+  });
+});
+
+describe('fuzzyFilter', () => {
+  it('should rank word starts and runs of characters first', () => {
+    const names = ['maintenance.md', 'Meeting Notes.md', 'Plan.md'];
+
+    expect(fuzzyFilter(names, 'mtn', name => name).map(result => result.item)).toEqual(['Meeting Notes.md', 'maintenance.md']);
+    expect(fuzzyFilter(['explanation.md', 'plan.md'], 'plan', name => name).map(result => result.item)).toEqual(['plan.md', 'explanation.md']);
+  });
+});
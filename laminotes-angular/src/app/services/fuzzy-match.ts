@@ -0,0 +1,161 @@
+/**
+ * Fuzzy matching.
+ *
+ * Matches what is typed in the quick-open palette against note names and
+ * command labels: the typed characters have to appear in order, but not next
+ * to each other. Matches at the start of words, of path segments and of
+ * camelCase humps and runs of consecutive characters score higher, so "mtn"
+ * ranks "Meeting Notes.md" above "maintenance.md".
+ */
+
+/**
+ * Where and how well a query matched a text
+ */
+export interface FuzzyMatch {
+  score: number;
+
+  /** Offsets of the matched characters in the text, ascending */
+  positions: number[];
+}
+
+/**
+ * A matched item with its match
+ */
+export interface FuzzyResult<T> {
+  item: T;
+  match: FuzzyMatch;
+}
+
+/** Score of each matched character */
+const MATCH = 16;
+
+/** Extra score of a character starting a word, path segment or camelCase hump */
+const BOUNDARY = 10;
+
+/** Extra score of a character right after the previous match */
+const CONSECUTIVE = 8;
+
+/** Penalty per character skipped between two matches */
+const GAP = 1;
+
+/** Penalty per character before the first match, up to MAX_LEADING */
+const LEADING = 1;
+const MAX_LEADING = 8;
+
+/**
+ * Matches a query against a text, ignoring case and spaces in the query
+ * @returns The best match, or null when the query's characters don't all appear in order
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.replace(/\s+/g, '').toLowerCase();
+  if (!needle) {
+    return { score: 0, positions: [] };
+  }
+
+  const haystack = text.toLowerCase();
+  const n = needle.length;
+  const m = haystack.length;
+  if (n > m) {
+    return null;
+  }
+
+  const bonuses = Array.from({ length: m }, (_, j) => boundaryBonus(text, j));
+
+  // scores[i][j]: best score with needle[i] matched at haystack[j]; from[i][j]: where needle[i - 1] was matched
+  const scores: number[][] = [];
+  const from: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    scores.push(new Array(m).fill(-Infinity));
+    from.push(new Array(m).fill(-1));
+
+    // Best score of needle[i - 1] matched two or more characters back, with its gap paid for
+    let distant = -Infinity;
+    let distantFrom = -1;
+
+    for (let j = i; j < m; j++) {
+      if (i > 0 && j >= 2) {
+        const candidate = scores[i - 1][j - 2] - GAP;
+        if (distant - GAP < candidate) {
+          distant = candidate;
+          distantFrom = j - 2;
+        } else {
+          distant -= GAP;
+        }
+      }
+
+      if (haystack[j] !== needle[i]) {
+        continue;
+      }
+
+      const base = MATCH + bonuses[j];
+      if (i === 0) {
+        scores[i][j] = base - Math.min(j * LEADING, MAX_LEADING);
+        continue;
+      }
+
+      const adjacent = scores[i - 1][j - 1] + CONSECUTIVE;
+      if (adjacent >= distant && adjacent > -Infinity) {
+        scores[i][j] = base + adjacent;
+        from[i][j] = j - 1;
+      } else if (distant > -Infinity) {
+        scores[i][j] = base + distant;
+        from[i][j] = distantFrom;
+      }
+    }
+  }
+
+  let end = -1;
+  for (let j = n - 1; j < m; j++) {
+    if (scores[n - 1][j] > (end === -1 ? -Infinity : scores[n - 1][end])) {
+      end = j;
+    }
+  }
+  if (end === -1) {
+    return null;
+  }
+
+  const positions: number[] = [];
+  for (let i = n - 1, j = end; i >= 0; j = from[i][j], i--) {
+    positions.unshift(j);
+  }
+
+  // Shorter texts win ties
+  return { score: scores[n - 1][end] - m * 0.01, positions };
+}
+
+/**
+ * Keeps the items matching a query, best first
+ * @param textOf Text of an item to match against
+ */
+export function fuzzyFilter<T>(items: T[], query: string, textOf: (item: T) => string): FuzzyResult<T>[] {
+  const results: FuzzyResult<T>[] = [];
+  for (const item of items) {
+    const match = fuzzyMatch(query, textOf(item));
+    if (match) {
+      results.push({ item, match });
+    }
+  }
+  return results.sort((a, b) => b.match.score - a.match.score);
+}
+
+/**
+ * Extra score of the character at an offset for starting a word
+ */
+function boundaryBonus(text: string, index: number): number {
+  if (index === 0) {
+    return BOUNDARY;
+  }
+
+  const previous = text[index - 1];
+  const current = text[index];
+  if (/[\s\/\\_\-.#]/.test(previous)) {
+    return BOUNDARY;
+  }
+  if (/[a-z]/.test(previous) && /[A-Z]/.test(current)) {
+    return BOUNDARY - 2;
+  }
+  if (/\D/.test(previous) && /\d/.test(current)) {
+    return BOUNDARY / 2;
+  }
+  return 0;
+}
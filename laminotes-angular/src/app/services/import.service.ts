@@ -0,0 +1,168 @@
+/**
+ * Import service.
+ *
+ * Brings notes from other apps into the notes directory: reads a zip or a
+ * folder (an Obsidian vault, a Notion markdown export or any tree of `.md`
+ * files), converts links with the note import rules, embeds referenced
+ * images the same way uploaded images are, and writes the notes through the
+ * file service.
+ */
+import { Injectable } from '@angular/core';
+import { FileService, FileInfo } from './file.service';
+import { ImportPlan, convertNote, normalizeImportPath, planImport, referencedImages } from './note-import';
+import { Observable, from, lastValueFrom } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+import JSZip from 'jszip';
+
+/**
+ * A zip or folder chosen for import
+ */
+export interface ImportBundle {
+  /** Name of the zip or folder, without extension */
+  name: string;
+
+  /** What will be imported */
+  plan: ImportPlan;
+
+  /** Reads a file of the bundle by its path in the plan */
+  read: (path: string) => Promise<Blob>;
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ImportResult {
+  /** Notes created */
+  files: FileInfo[];
+
+  /** Images embedded into the notes */
+  images: number;
+
+  /** Notes of the bundle that could not be read */
+  skipped: string[];
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ImportService {
+  constructor(private fileService: FileService) {}
+
+  /**
+   * Opens a zip for import
+   * @param file The zip file
+   */
+  readZip(file: File): Observable<ImportBundle> {
+    return from(JSZip.loadAsync(file)).pipe(
+      map(zip => {
+        // The plan uses normalised paths, which may differ from the entry names
+        const byPath = new Map<string, JSZip.JSZipObject>();
+        for (const entry of Object.values(zip.files)) {
+          const path = normalizeImportPath(entry.name);
+          if (!entry.dir && path) {
+            byPath.set(path, entry);
+          }
+        }
+
+        return {
+          name: file.name.replace(/\.zip$/i, ''),
+          plan: planImport(Array.from(byPath.keys())),
+          read: (path: string) => {
+            const entry = byPath.get(path);
+            return entry ? entry.async('blob') : Promise.reject(new Error(`${path} is not in ${file.name}`));
+          }
+        };
+      })
+    );
+  }
+
+  /**
+   * Opens a folder picked with a directory input for import
+   * @param files Files of the folder; their webkitRelativePath gives the structure
+   */
+  readFolder(files: File[]): ImportBundle {
+    const byPath = new Map<string, File>();
+    for (const file of files) {
+      const path = normalizeImportPath(file.webkitRelativePath || file.name);
+      if (path) {
+        byPath.set(path, file);
+      }
+    }
+    const plan = planImport(Array.from(byPath.keys()));
+
+    return {
+      name: plan.root || 'Import',
+      plan,
+      read: (path: string) => {
+        const file = byPath.get(path);
+        return file ? Promise.resolve(file) : Promise.reject(new Error(`${path} is not in the folder`));
+      }
+    };
+  }
+
+  /**
+   * Converts the notes of a bundle and writes them to the notes directory
+   * @param bundle The bundle to import
+   * @param folder Folder to import into, relative to the notes directory; '' for the top level
+   */
+  importBundle(bundle: ImportBundle, folder: string): Observable<ImportResult> {
+    return from(this.convertNotes(bundle, folder)).pipe(
+      switchMap(({ notes, images, skipped }) => this.fileService.importNotes(notes).pipe(
+        map(files => ({ files, images, skipped }))
+      ))
+    );
+  }
+
+  private async convertNotes(
+    bundle: ImportBundle,
+    folder: string
+  ): Promise<{ notes: { path: string; content: string }[]; images: number; skipped: string[] }> {
+    const prefix = folder.replace(/^\/+|\/+$/g, '');
+    const imageUrls = new Map<string, string | null>();
+    const notes: { path: string; content: string }[] = [];
+    const skipped: string[] = [];
+
+    for (const [sourcePath, targetPath] of bundle.plan.notes) {
+      let markdown: string;
+      try {
+        markdown = await (await bundle.read(sourcePath)).text();
+      } catch (error) {
+        console.warn(`⚠️ Could not import note ${sourcePath}`, error);
+        skipped.push(sourcePath);
+        continue;
+      }
+
+      for (const imagePath of referencedImages(markdown, sourcePath, bundle.plan)) {
+        if (!imageUrls.has(imagePath)) {
+          imageUrls.set(imagePath, await this.embedImage(bundle, imagePath));
+        }
+      }
+
+      notes.push({
+        path: prefix ? `${prefix}/${targetPath}` : targetPath,
+        content: convertNote(markdown, sourcePath, bundle.plan, path => imageUrls.get(path) || null)
+      });
+    }
+
+    const images = Array.from(imageUrls.values()).filter(url => url).length;
+    console.log(`🔄 Converted ${notes.length} notes and ${images} images from ${bundle.plan.source}`);
+    return { notes, images, skipped };
+  }
+
+  /**
+   * Embeds an image through the regular image upload path
+   * @returns The data URL of the image, or null if it couldn't be read
+   */
+  private async embedImage(bundle: ImportBundle, imagePath: string): Promise<string | null> {
+    try {
+      const blob = await bundle.read(imagePath);
+      const name = imagePath.substring(imagePath.lastIndexOf('/') + 1);
+      const file = new File([blob], name, { type: blob.type || this.fileService.getMimeType(name) || 'image/png' });
+      const markdown = await lastValueFrom(this.fileService.uploadImage(file, file.size, true));
+      return /\]\((data:[^)]+)\)$/.exec(markdown)?.[1] || null;
+    } catch (error) {
+      console.warn(`⚠️ Could not import image ${imagePath}`, error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { extractDataImages, inlineDataImages, parseDataUrl } from './markdown-assets';
+
+describe('extractDataImages', () => {
+  const png = 'data:image/png;base64,iVBORw0KGgo=';
+
+  it('should move data images into assets with relative links', () => {
+    const result = extractDataImages(`# Title\n\n![Team photo.png](${png})\n`);
+
+    expect(result.markdown).toBe('# Title\n\n![Team photo.png](assets/team-photo.png)\n');
+    expect(result.assets).toEqual([{ path: 'assets/team-photo.png', mimeType: 'image/png', base64: 'iVBORw0KGgo=' }]);
+  });
+
+  it('should store an image used twice once and keep names unique', () => {
+    const jpeg = 'data:image/jpeg;base64,/9j/4AAQ';
+    const result = extractDataImages(`![](${png}) ![](${png}) ![](${jpeg})`);
+
+    expect(result.markdown).toBe('![](assets/image-1.png) ![](assets/image-1.png) ![](assets/image-2.jpg)');
+    expect(result.assets.map(asset => asset.path)).toEqual(['assets/image-1.png', 'assets/image-2.jpg']);
+  });
+
+  it('should rewrite html images and leave other links alone', () => {
+    const result = extractDataImages(`<img alt="logo" src="${png}">\n![remote](https://example.com/a.png)`);
+
+    expect(result.markdown).toBe('<img alt="logo" src="assets/logo.png">\n![remote](https://example.com/a.png)');
+    expect(result.assets.length).toBe(1);
+  });
+
+  it('should base64 encode url-encoded data', () => {
+    expect(parseDataUrl('data:image/svg+xml;charset=utf-8,%3Csvg%2F%3E')).toEqual({
+      mimeType: 'image/svg+xml',
+      base64: btoa('<svg/>')
+    });
+  });
+});
+
+describe('inlineDataImages', () => {
+  it('should restore the images extracted from a document', () => {
+    const png = 'data:image/png;base64,iVBORw0KGgo=';
+    const markdown = `![My diagram](${png} "Flow")\n<img alt="logo" src="${png}">\n![remote](assets/remote.png)`;
+    const extracted = extractDataImages(markdown);
+
+    expect(extracted.markdown).toContain('(assets/my-diagram.png "Flow")');
+    expect(inlineDataImages(extracted.markdown, extracted.assets)).toBe(markdown);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Markdown assets.
+ *
+ * Pulls images embedded as `data:` URLs out of a markdown document so they
+ * can be written next to it as ordinary files, with the document pointing at
+ * them through relative links, and puts them back.
+ */
+
+/**
+ * An image taken out of a document
+ */
+export interface MarkdownAsset {
+  /** Path of the file relative to the document, e.g. `assets/diagram.png` */
+  path: string;
+
+  /** MIME type from the data URL */
+  mimeType: string;
+
+  /** File content, base64 encoded */
+  base64: string;
+}
+
+/**
+ * A document whose embedded images have been replaced by relative links
+ */
+export interface ExtractedMarkdown {
+  /** The rewritten document */
+  markdown: string;
+
+  /** Images it now links to */
+  assets: MarkdownAsset[];
+}
+
+/** Markdown image with a data URL: ![alt](data:...) */
+const MARKDOWN_DATA_IMAGE = /!\[([^\]]*)\]\((data:[^)\s]+)((?:\s+"[^"]*")?)\)/g;
+
+/** HTML image with a data URL: <img ... src="data:..."> */
+const HTML_DATA_IMAGE = /(<img\b[^>]*?\bsrc=)(["'])(data:[^"']+)\2/gi;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp'
+};
+
+/**
+ * Moves every `data:` image of a document into a separate asset
+ * @param markdown The document
+ * @param folder Folder the assets are placed in, relative to the document
+ * @returns The document with relative links and the extracted files; the same image used twice is stored once
+ */
+export function extractDataImages(markdown: string, folder = 'assets'): ExtractedMarkdown {
+  const assets: MarkdownAsset[] = [];
+  const pathsByUrl = new Map<string, string>();
+  const usedNames = new Set<string>();
+
+  const assetFor = (url: string, name: string): string | null => {
+    const existing = pathsByUrl.get(url);
+    if (existing) {
+      return existing;
+    }
+
+    const parsed = parseDataUrl(url);
+    if (!parsed) {
+      return null;
+    }
+
+    const extension = EXTENSIONS[parsed.mimeType] || 'bin';
+    const base = uniqueName(slug(name) || `image-${assets.length + 1}`, usedNames);
+    const path = `${folder}/${base}.${extension}`;
+
+    assets.push({ path, mimeType: parsed.mimeType, base64: parsed.base64 });
+    pathsByUrl.set(url, path);
+    return path;
+  };
+
+  const rewritten = markdown
+    .replace(MARKDOWN_DATA_IMAGE, (match, alt: string, url: string, title: string) => {
+      const path = assetFor(url, alt);
+      return path ? `![${alt}](${encodeURI(path)}${title})` : match;
+    })
+    .replace(HTML_DATA_IMAGE, (match, prefix: string, quote: string, url: string) => {
+      const alt = /\balt=(["'])([^"']*)\1/i.exec(match)?.[2] || '';
+      const path = assetFor(url, alt);
+      return path ? `${prefix}${quote}${encodeURI(path)}${quote}` : match;
+    });
+
+  return { markdown: rewritten, assets };
+}
+
+/**
+ * Embeds extracted assets again, undoing extractDataImages
+ * @param markdown A document with relative links to the assets
+ * @param assets The assets it links to
+ * @returns The document with the links turned back into data URLs; links to other files are kept
+ */
+export function inlineDataImages(markdown: string, assets: MarkdownAsset[]): string {
+  const urls = new Map(assets.map(asset => [encodeURI(asset.path), `data:${asset.mimeType};base64,${asset.base64}`]));
+  if (urls.size === 0) {
+    return markdown;
+  }
+
+  return markdown
+    .replace(/(!\[[^\]]*\]\()([^)\s]+)(?=[)\s])/g, (match, prefix: string, path: string) =>
+      urls.has(path) ? `${prefix}${urls.get(path)}` : match)
+    .replace(/(<img\b[^>]*?\bsrc=)(["'])([^"']+)\2/gi, (match, prefix: string, quote: string, path: string) =>
+      urls.has(path) ? `${prefix}${quote}${urls.get(path)}${quote}` : match);
+}
+
+/**
+ * Splits a data URL into its MIME type and base64 payload
+ * @returns null if the URL isn't a data URL
+ */
+export function parseDataUrl(url: string): { mimeType: string; base64: string } | null {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s.exec(url);
+  if (!match) {
+    return null;
+  }
+
+  const mimeType = (match[1] || 'text/plain').toLowerCase();
+  const isBase64 = match[2].split(';').includes('base64');
+  const base64 = isBase64
+    ? match[3]
+    : btoa(unescape(encodeURIComponent(decodeURIComponent(match[3]))));
+
+  return { mimeType, base64 };
+}
+
+/**
+ * Turns alt text into a file name
+ */
+function slug(text: string): string {
+  return text
+    .replace(/\.[a-z0-9]{2,4}$/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 60);
+}
+
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; used.has(candidate); i++) {
+    candidate = `${name}-${i}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
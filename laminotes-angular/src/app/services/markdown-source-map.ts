@@ -0,0 +1,170 @@
+/**
+ * Markdown source map.
+ *
+ * Relates the top-level blocks of a markdown document to the lines they were
+ * written on, and lets views find the rendered elements of each block.
+ * Blocks are tagged by placing an HTML comment before each of them in the
+ * markdown handed to the renderer; comments render as nothing, survive the
+ * renderer untouched and stay in front of the block's elements even when the
+ * browser restructures invalid markup.
+ */
+import { marked } from 'marked';
+
+/**
+ * A top-level block of a markdown document
+ */
+export interface SourceBlock {
+  /** Token type (heading, paragraph, code, list, ...) */
+  type: string;
+
+  /** Offset of the first character */
+  start: number;
+
+  /** Offset after the last character, excluding trailing newlines */
+  end: number;
+
+  /** First line (0-based) */
+  startLine: number;
+
+  /** Last line (0-based, inclusive) */
+  endLine: number;
+}
+
+/**
+ * The rendered elements of a source block
+ */
+export interface RenderedBlock {
+  /** First source line (0-based) */
+  startLine: number;
+
+  /** Last source line (0-based, inclusive) */
+  endLine: number;
+
+  /** Top-level elements rendered for the block */
+  elements: HTMLElement[];
+}
+
+const MARKER_PATTERN = /^source:(\d+)-(\d+)$/;
+
+/**
+ * Returns the offset each line of `text` starts at
+ * @param text The text
+ */
+export function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Returns the 0-based line containing `offset`
+ * @param starts Line starts from {@link lineStarts}
+ * @param offset Offset into the text
+ */
+export function lineAt(starts: number[], offset: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (starts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Splits a markdown document into its top-level blocks
+ * @param markdown Markdown text with `\n` line endings
+ */
+export function mapMarkdownBlocks(markdown: string): SourceBlock[] {
+  let tokens: ReturnType<typeof marked.lexer>;
+  try {
+    tokens = marked.lexer(markdown);
+  } catch (error) {
+    console.error('❌ Error tokenizing markdown:', error);
+    return [];
+  }
+
+  const starts = lineStarts(markdown);
+  const blocks: SourceBlock[] = [];
+  let cursor = 0;
+
+  for (const token of tokens) {
+    if (token.type === 'space' || !token.raw) {
+      continue;
+    }
+
+    // Token raws don't cover the whole source (link definitions produce no
+    // token), so each block is looked up rather than summed
+    const start = markdown.indexOf(token.raw, cursor);
+    if (start < 0) {
+      continue;
+    }
+
+    const end = start + token.raw.replace(/\n+$/, '').length;
+    blocks.push({
+      type: token.type,
+      start,
+      end,
+      startLine: lineAt(starts, start),
+      endLine: lineAt(starts, Math.max(start, end - 1))
+    });
+    cursor = start + token.raw.length;
+  }
+
+  return blocks;
+}
+
+/**
+ * Returns `markdown` with a source marker comment in front of every block.
+ * Rendering the result looks the same as rendering `markdown`.
+ * @param markdown Markdown text with `\n` line endings
+ */
+export function withSourceMarkers(markdown: string): string {
+  const blocks = mapMarkdownBlocks(markdown);
+  let result = '';
+  let cursor = 0;
+
+  for (const block of blocks) {
+    const before = markdown.substring(cursor, block.start);
+    result += before;
+
+    // A blank line first, so the marker never continues the previous block
+    const separated = block.start === 0 || /\n\s*\n$/.test(result);
+    result += `${separated ? '' : '\n'}<!--source:${block.startLine}-${block.endLine}-->\n\n`;
+    cursor = block.start;
+  }
+
+  return result + markdown.substring(cursor);
+}
+
+/**
+ * Groups the rendered children of `container` by the source block they came
+ * from, using the markers added by {@link withSourceMarkers}
+ * @param container The element the markdown was rendered into
+ */
+export function collectRenderedBlocks(container: HTMLElement): RenderedBlock[] {
+  const blocks: RenderedBlock[] = [];
+  let current: RenderedBlock | null = null;
+
+  container.childNodes.forEach(node => {
+    if (node.nodeType === Node.COMMENT_NODE) {
+      const match = MARKER_PATTERN.exec((node.textContent || '').trim());
+      if (match) {
+        current = { startLine: +match[1], endLine: +match[2], elements: [] };
+        blocks.push(current);
+      }
+    } else if (node.nodeType === Node.ELEMENT_NODE && current) {
+      current.elements.push(node as HTMLElement);
+    }
+  });
+
+  return blocks.filter(block => block.elements.length > 0);
+}
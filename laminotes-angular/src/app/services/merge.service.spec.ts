@@ -0,0 +1,58 @@
+import { TestBed } from '@angular/core/testing';
+
+import { MergeService } from './merge.service';
+
+describe('MergeService', () => {
+  let service: MergeService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(MergeService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should merge changes to different lines', () => {
+    const base = 'a\nb\nc\nd\ne';
+    const local = 'A\nb\nc\nd\ne';
+    const remote = 'a\nb\nc\nd\nE';
+
+    const result = service.merge(base, local, remote);
+
+    expect(result.clean).toBeTrue();
+    expect(result.content).toBe('A\nb\nc\nd\nE');
+  });
+
+  it('should report overlapping edits as a conflict region', () => {
+    const base = 'a\nb\nc';
+    const local = 'a\nmine\nc';
+    const remote = 'a\ntheirs\nc';
+
+    const result = service.merge(base, local, remote);
+
+    expect(result.clean).toBeFalse();
+    expect(result.conflicts).toEqual([{
+      startLine: 1,
+      endLine: 2,
+      localContent: 'mine',
+      remoteContent: 'theirs',
+      baseContent: 'b'
+    }]);
+    expect(result.content).toBe('a\ntheirs\nc');
+  });
+
+  it('should accept identical changes from both sides', () => {
+    const result = service.merge('a\nb', 'a\nx', 'a\nx');
+
+    expect(result.clean).toBeTrue();
+    expect(result.content).toBe('a\nx');
+  });
+
+  it('should produce a minimal line diff', () => {
+    const diff = service.diffLines('a\nb\nc', 'a\nc\nd');
+
+    expect(diff.map(line => line.type)).toEqual(['equal', 'removed', 'equal', 'added']);
+  });
+});
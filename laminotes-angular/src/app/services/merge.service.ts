@@ -0,0 +1,405 @@
+/**
+ * Merge service.
+ *
+ * Provides line-based diffing and diff3-style three-way merging of document
+ * versions. Concurrent edits that touch different parts of a file are combined
+ * automatically; only hunks that genuinely overlap are reported as conflicts.
+ */
+import { Injectable } from '@angular/core';
+import { ConflictRegion } from '../components/conflict-resolution/conflict-resolution.component';
+
+/**
+ * A single line in a computed diff.
+ */
+export interface DiffLine {
+  /** Whether the line is unchanged, added in the new text or removed from the old text */
+  type: 'equal' | 'added' | 'removed';
+
+  /** Text of the line (without the trailing newline) */
+  content: string;
+
+  /** Zero-based line index in the old text (unset for added lines) */
+  oldLineNumber?: number;
+
+  /** Zero-based line index in the new text (unset for removed lines) */
+  newLineNumber?: number;
+}
+
+/**
+ * Result of a three-way merge.
+ */
+export interface MergeResult {
+  /** True when every change could be merged without user intervention */
+  clean: boolean;
+
+  /**
+   * Merged document. Non-overlapping changes from both sides are applied;
+   * each conflicting hunk holds the remote side so that the regions below
+   * can be resolved in place.
+   */
+  content: string;
+
+  /** Overlapping hunks, with line ranges relative to `content` */
+  conflicts: ConflictRegion[];
+}
+
+/**
+ * A contiguous change between a base text and a derived text.
+ * `baseStart`..`baseEnd` (exclusive) are replaced by `lines`.
+ */
+interface Hunk {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+  side: 'local' | 'remote';
+}
+
+/** Edit script step produced by the Myers diff */
+interface EditStep {
+  type: 'equal' | 'insert' | 'delete';
+  aIndex: number;
+  bIndex: number;
+}
+
+/**
+ * Service responsible for diffing and merging document versions.
+ * Used by version control to auto-merge concurrent team edits and by
+ * the history views to display differences between versions.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MergeService {
+  /**
+   * Upper bound on the edit distance explored by the diff.
+   * Beyond this the differing middle section is treated as a single replacement,
+   * which keeps memory bounded for completely rewritten documents.
+   */
+  private readonly MAX_EDIT_DISTANCE = 4000;
+
+  /**
+   * Computes a line-by-line diff between two texts.
+   *
+   * @param oldText The original text
+   * @param newText The changed text
+   * @returns Diff lines in document order
+   */
+  diffLines(oldText: string, newText: string): DiffLine[] {
+    const oldLines = this.splitLines(oldText);
+    const newLines = this.splitLines(newText);
+
+    return this.diffSequences(oldLines, newLines).map(step => {
+      switch (step.type) {
+        case 'equal':
+          return {
+            type: 'equal',
+            content: oldLines[step.aIndex],
+            oldLineNumber: step.aIndex,
+            newLineNumber: step.bIndex
+          };
+        case 'delete':
+          return { type: 'removed', content: oldLines[step.aIndex], oldLineNumber: step.aIndex };
+        default:
+          return { type: 'added', content: newLines[step.bIndex], newLineNumber: step.bIndex };
+      }
+    });
+  }
+
+  /**
+   * Performs a three-way merge of two texts derived from a common base.
+   *
+   * @param base The common ancestor both sides started from
+   * @param local The local (our) version
+   * @param remote The remote (their) version
+   * @returns The merged content and any conflicting regions
+   */
+  merge(base: string, local: string, remote: string): MergeResult {
+    // Trivial cases don't need a diff at all
+    if (local === remote || remote === base) {
+      return { clean: true, content: local, conflicts: [] };
+    }
+    if (local === base) {
+      return { clean: true, content: remote, conflicts: [] };
+    }
+
+    const baseLines = this.splitLines(base);
+    const localLines = this.splitLines(local);
+    const remoteLines = this.splitLines(remote);
+
+    const hunks = [
+      ...this.computeHunks(baseLines, localLines, 'local'),
+      ...this.computeHunks(baseLines, remoteLines, 'remote')
+    ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+    const output: string[] = [];
+    const conflicts: ConflictRegion[] = [];
+    let baseCursor = 0;
+    let index = 0;
+
+    while (index < hunks.length) {
+      // Collect every hunk that overlaps the current group
+      const group: Hunk[] = [hunks[index]];
+      let groupStart = hunks[index].baseStart;
+      let groupEnd = hunks[index].baseEnd;
+      index++;
+
+      while (index < hunks.length && this.overlaps(hunks[index], groupStart, groupEnd)) {
+        group.push(hunks[index]);
+        groupEnd = Math.max(groupEnd, hunks[index].baseEnd);
+        index++;
+      }
+
+      // Copy unchanged base lines up to the group
+      output.push(...baseLines.slice(baseCursor, groupStart));
+      baseCursor = groupEnd;
+
+      const localHunks = group.filter(h => h.side === 'local');
+      const remoteHunks = group.filter(h => h.side === 'remote');
+
+      // Only one side touched this region, take its change
+      if (localHunks.length === 0 || remoteHunks.length === 0) {
+        output.push(...this.applyHunks(baseLines, group, groupStart, groupEnd));
+        continue;
+      }
+
+      const localResult = this.applyHunks(baseLines, localHunks, groupStart, groupEnd);
+      const remoteResult = this.applyHunks(baseLines, remoteHunks, groupStart, groupEnd);
+
+      // Both sides made the same change
+      if (localResult.join('\n') === remoteResult.join('\n')) {
+        output.push(...localResult);
+        continue;
+      }
+
+      // Genuine conflict: keep the remote side in place and record the region
+      conflicts.push({
+        startLine: output.length,
+        endLine: output.length + remoteResult.length,
+        localContent: localResult.join('\n'),
+        remoteContent: remoteResult.join('\n'),
+        baseContent: baseLines.slice(groupStart, groupEnd).join('\n')
+      });
+      output.push(...remoteResult);
+    }
+
+    output.push(...baseLines.slice(baseCursor));
+
+    return {
+      clean: conflicts.length === 0,
+      content: output.join('\n'),
+      conflicts
+    };
+  }
+
+  /**
+   * Checks whether a hunk belongs to the group spanning `start`..`end` of the base.
+   * Changes touching the same base lines overlap, as do insertions at the
+   * boundary of another change, since their relative order is ambiguous.
+   */
+  private overlaps(hunk: Hunk, start: number, end: number): boolean {
+    if (hunk.baseStart < end || hunk.baseStart === start) {
+      return true;
+    }
+    if (hunk.baseStart === end) {
+      return hunk.baseStart === hunk.baseEnd || start === end;
+    }
+    return false;
+  }
+
+  /**
+   * Rebuilds the base range `start`..`end` with the given (non-overlapping) hunks applied.
+   */
+  private applyHunks(baseLines: string[], hunks: Hunk[], start: number, end: number): string[] {
+    const result: string[] = [];
+    let cursor = start;
+
+    for (const hunk of hunks) {
+      result.push(...baseLines.slice(cursor, hunk.baseStart));
+      result.push(...hunk.lines);
+      cursor = Math.max(cursor, hunk.baseEnd);
+    }
+
+    result.push(...baseLines.slice(cursor, end));
+    return result;
+  }
+
+  /**
+   * Converts the diff between base and a derived version into change hunks.
+   */
+  private computeHunks(baseLines: string[], otherLines: string[], side: 'local' | 'remote'): Hunk[] {
+    const hunks: Hunk[] = [];
+    let current: Hunk | null = null;
+    let basePosition = 0;
+
+    for (const step of this.diffSequences(baseLines, otherLines)) {
+      if (step.type === 'equal') {
+        if (current) {
+          hunks.push(current);
+          current = null;
+        }
+        basePosition = step.aIndex + 1;
+        continue;
+      }
+
+      if (!current) {
+        current = { baseStart: basePosition, baseEnd: basePosition, lines: [], side };
+      }
+
+      if (step.type === 'delete') {
+        current.baseEnd = step.aIndex + 1;
+        basePosition = step.aIndex + 1;
+      } else {
+        current.lines.push(otherLines[step.bIndex]);
+      }
+    }
+
+    if (current) {
+      hunks.push(current);
+    }
+
+    return hunks;
+  }
+
+  /**
+   * Myers O((N+M)D) diff of two line arrays.
+   * Common prefixes and suffixes are trimmed first since most edits are local.
+   */
+  private diffSequences(a: string[], b: string[]): EditStep[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < a.length - prefix &&
+      suffix < b.length - prefix &&
+      a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const steps: EditStep[] = [];
+    for (let i = 0; i < prefix; i++) {
+      steps.push({ type: 'equal', aIndex: i, bIndex: i });
+    }
+
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    for (const step of this.myers(middleA, middleB)) {
+      steps.push({ type: step.type, aIndex: step.aIndex + prefix, bIndex: step.bIndex + prefix });
+    }
+
+    for (let i = suffix; i > 0; i--) {
+      steps.push({ type: 'equal', aIndex: a.length - i, bIndex: b.length - i });
+    }
+
+    return steps;
+  }
+
+  /**
+   * Core Myers shortest-edit-script search with backtracking.
+   * Only the diagonals reachable at each edit distance are kept in the trace.
+   */
+  private myers(a: string[], b: string[]): EditStep[] {
+    const n = a.length;
+    const m = b.length;
+
+    if (n === 0 || m === 0) {
+      return this.replaceAll(n, m);
+    }
+
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Array<number>(2 * max + 3).fill(0);
+    const trace: number[][] = [];
+    let found = false;
+
+    for (let d = 0; d <= max && d <= this.MAX_EDIT_DISTANCE; d++) {
+      // Snapshot diagonals -(d+1)..(d+1) as left by the previous round
+      trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+      for (let k = -d; k <= d; k += 2) {
+        let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+        let y = x - k;
+
+        while (x < n && y < m && a[x] === b[y]) {
+          x++;
+          y++;
+        }
+
+        v[offset + k] = x;
+
+        if (x >= n && y >= m) {
+          found = true;
+          break;
+        }
+      }
+
+      if (found) {
+        break;
+      }
+    }
+
+    if (!found) {
+      console.warn(`⚠️ Diff exceeded ${this.MAX_EDIT_DISTANCE} edits, treating section as a full replacement`);
+      return this.replaceAll(n, m);
+    }
+
+    const steps: EditStep[] = [];
+    let x = n;
+    let y = m;
+
+    for (let d = trace.length - 1; d >= 0; d--) {
+      const snapshot = trace[d];
+      const at = (k: number) => snapshot[k + d + 1];
+      const k = x - y;
+
+      const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+      const prevX = at(prevK);
+      const prevY = prevX - prevK;
+
+      while (x > prevX && y > prevY) {
+        steps.push({ type: 'equal', aIndex: x - 1, bIndex: y - 1 });
+        x--;
+        y--;
+      }
+
+      if (d > 0) {
+        if (x === prevX) {
+          steps.push({ type: 'insert', aIndex: x, bIndex: y - 1 });
+        } else {
+          steps.push({ type: 'delete', aIndex: x - 1, bIndex: y });
+        }
+      }
+
+      x = prevX;
+      y = prevY;
+    }
+
+    return steps.reverse();
+  }
+
+  /**
+   * Edit script that deletes all of `a` and inserts all of `b`.
+   */
+  private replaceAll(n: number, m: number): EditStep[] {
+    const steps: EditStep[] = [];
+    for (let i = 0; i < n; i++) {
+      steps.push({ type: 'delete', aIndex: i, bIndex: 0 });
+    }
+    for (let j = 0; j < m; j++) {
+      steps.push({ type: 'insert', aIndex: n, bIndex: j });
+    }
+    return steps;
+  }
+
+  /**
+   * Splits text into lines, normalising Windows line endings.
+   */
+  private splitLines(text: string): string[] {
+    return (text || '').replace(/\r\n/g, '\n').split('\n');
+  }
+}
@@ -13,6 +13,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { FileMetadata, FileMetadataImpl } from '../models/file-metadata';
 import { ApiService } from './api.service';
 import { FileInfo } from './file.service';
+import { StorageService } from './storage.service';
 
 /**
  * Service responsible for managing file metadata.
@@ -23,19 +24,23 @@ import { FileInfo } from './file.service';
   providedIn: 'root'
 })
 export class MetadataService {
-  /** Prefix used for storing metadata keys in localStorage */
+  /** Prefix used for storing metadata keys in local storage */
   private readonly METADATA_STORAGE_PREFIX = 'metadata_';
 
   /**
    * Creates a new MetadataService instance.
    * 
    * @param apiService Service for communicating with the backend API
+   * @param storage IndexedDB-backed local storage
    */
-  constructor(private apiService: ApiService) { }
+  constructor(
+    private apiService: ApiService,
+    private storage: StorageService
+  ) { }
 
   /**
    * Loads metadata for a file from local storage or server.
-   * First attempts to retrieve metadata from localStorage, and if not found,
+   * First attempts to retrieve metadata from local storage, and if not found,
    * falls back to retrieving it from the backend server.
    * 
    * @param file The file information object containing path and name
@@ -43,7 +48,7 @@ export class MetadataService {
    */
   loadMetadata(file: FileInfo): Observable<FileMetadata | null> {
     const key = `${this.METADATA_STORAGE_PREFIX}${file.path}`;
-    const storedMetadata = localStorage.getItem(key);
+    const storedMetadata = this.storage.getItem(key);
 
     if (storedMetadata) {
       try {
@@ -89,7 +94,7 @@ export class MetadataService {
   saveMetadata(file: FileInfo, metadata: FileMetadata): Observable<void> {
     const key = `${this.METADATA_STORAGE_PREFIX}${file.path}`;
     try {
-      localStorage.setItem(key, JSON.stringify(metadata));
+      this.storage.setItem(key, JSON.stringify(metadata));
       return of(undefined);
     } catch (error) {
       console.error('Error saving metadata:', error);
@@ -0,0 +1,67 @@
+import { convertNote, planImport, referencedImages } from './note-import';
+
+describe('note import', () => {
+  const noImages = () => null;
+
+  it('should detect an Obsidian vault and strip the wrapping folder', () => {
+    const plan = planImport([
+      'Vault/.obsidian/app.json',
+      'Vault/Index.md',
+      'Vault/Projects/Plan.md',
+      'Vault/attachments/diagram.png'
+    ]);
+
+    expect(plan.source).toBe('obsidian');
+    expect(plan.root).toBe('Vault');
+    expect(Array.from(plan.notes.values())).toEqual(['Index.md', 'Projects/Plan.md']);
+    expect(Array.from(plan.images)).toEqual(['Vault/attachments/diagram.png']);
+  });
+
+  it('should normalise paths and leave out files outside the import', () => {
+    const plan = planImport(['./notes\\Index.md', '/notes/Other.md', 'notes/../../escape.md']);
+
+    expect(Array.from(plan.notes.keys())).toEqual(['notes/Index.md', 'notes/Other.md']);
+    expect(Array.from(plan.notes.values())).toEqual(['Index.md', 'Other.md']);
+  });
+
+  it('should turn wikilinks into relative links', () => {
+    const plan = planImport(['Vault/.obsidian/app.json', 'Vault/Index.md', 'Vault/Projects/Project Plan.md']);
+    const markdown = 'See [[Project Plan]], [[Project Plan#Next steps|the plan]] and [[Missing]].';
+
+    expect(convertNote(markdown, 'Vault/Index.md', plan, noImages)).toBe(
+      'See [Project Plan](Projects/Project%20Plan.md), [the plan](Projects/Project%20Plan.md#next-steps) and [Missing](Missing.md).'
+    );
+    expect(convertNote('Back to [[Index]]', 'Vault/Projects/Project Plan.md', plan, noImages)).toBe(
+      'Back to [Index](../Index.md)'
+    );
+  });
+
+  it('should leave wikilinks in code alone', () => {
+    const plan = planImport(['Index.md', 'Other.md']);
+    const markdown = '`[[Other]]`\n\n```\n[[Other]]\n```\n[[Other]]';
+
+    expect(convertNote(markdown, 'Index.md', plan, noImages)).toBe('`[[Other]]`\n\n```\n[[Other]]\n```\n[Other](Other.md)');
+  });
+
+  it('should embed referenced images with the resolved URL', () => {
+    const plan = planImport(['notes/Index.md', 'notes/img/photo.png', 'notes/img/chart.png']);
+    const markdown = '![[chart.png|300]]\n![Photo](img/photo.png "Title")';
+    const url = (path: string) => `data:image/png;base64,${path.length}`;
+
+    expect(referencedImages(markdown, 'notes/Index.md', plan)).toEqual(['notes/img/chart.png', 'notes/img/photo.png']);
+    expect(convertNote(markdown, 'notes/Index.md', plan, url)).toBe(
+      '![chart](data:image/png;base64,19)\n![Photo](data:image/png;base64,19 "Title")'
+    );
+  });
+
+  it('should drop Notion page ids and follow renamed links', () => {
+    const id = '0123456789abcdef0123456789abcdef';
+    const plan = planImport([`Export/Home ${id}.md`, `Export/Home ${id}/Tasks ${id}.md`]);
+
+    expect(plan.source).toBe('notion');
+    expect(plan.notes.get(`Export/Home ${id}/Tasks ${id}.md`)).toBe('Home/Tasks.md');
+    expect(convertNote(`[Tasks](Home%20${id}/Tasks%20${id}.md)`, `Export/Home ${id}.md`, plan, noImages)).toBe(
+      '[Tasks](Home/Tasks.md)'
+    );
+  });
+});
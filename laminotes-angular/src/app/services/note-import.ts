@@ -0,0 +1,287 @@
+/**
+ * Note import.
+ *
+ * Works out how a tree of markdown files from another app maps onto our
+ * notes directory, and rewrites the notes so their links survive the move:
+ * Obsidian `[[wikilinks]]` and embeds become relative markdown links and
+ * images, Notion's page ids are dropped from file names, and images are
+ * swapped for the URLs they are stored under.
+ */
+
+/**
+ * Where an import came from
+ */
+export type ImportSource = 'obsidian' | 'notion' | 'markdown';
+
+/**
+ * What an import will create
+ */
+export interface ImportPlan {
+  /** App the files were exported from */
+  source: ImportSource;
+
+  /** Folder every file was wrapped in, such as the vault name; '' if there was none */
+  root: string;
+
+  /** Notes to create: path in the import mapped to the path relative to the destination folder */
+  notes: Map<string, string>;
+
+  /** Paths of the images in the import */
+  images: Set<string>;
+}
+
+/**
+ * Returns the URL an image should be embedded with, or null to keep the original link
+ */
+export type ImageUrlResolver = (imagePath: string) => string | null;
+
+const IMAGE_EXTENSION = /\.(png|jpe?g|gif|webp|svg|bmp)$/i;
+
+/** Suffix Notion adds to exported page names */
+const NOTION_ID = /\s+[0-9a-f]{32}(?=\.md$|$)/i;
+
+/** Code (left untouched), wikilinks and markdown links/images */
+const LINK_PATTERN = /(^(```|~~~)[^\n]*\n[\s\S]*?^\2[^\n]*$|`[^`\n]+`)|(!?)\[\[([^\]\n]+?)\]\]|(!?)\[([^\]\n]*)\]\((<[^>\n]+>|[^)\s]+)((?:\s+"[^"\n]*")?)\)/gm;
+
+/**
+ * Normalises a path of a zip or folder entry to a relative, '/' separated path
+ * @param path Path as stored in the zip or folder
+ * @returns The normalised path, or null if it climbs out of the import with '..'
+ */
+export function normalizeImportPath(path: string): string | null {
+  const normalized = path.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+  return normalized.split('/').includes('..') ? null : normalized;
+}
+
+/**
+ * Decides which files of an import become notes and where they go.
+ * Files whose path climbs out of the import with '..' are left out.
+ * @param paths Paths of all files in the zip or folder
+ */
+export function planImport(paths: string[]): ImportPlan {
+  const normalized = paths
+    .map(normalizeImportPath)
+    .filter((path): path is string => path !== null);
+  const source: ImportSource = normalized.some(path => path.split('/').includes('.obsidian'))
+    ? 'obsidian'
+    : normalized.some(path => NOTION_ID.test(basename(path)))
+      ? 'notion'
+      : 'markdown';
+
+  const files = normalized.filter(path => !path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX'));
+  const root = commonRoot(files);
+
+  const notes = new Map<string, string>();
+  const used = new Set<string>();
+  for (const path of files.filter(file => /\.md$/i.test(file))) {
+    let target = path.substring(root ? root.length + 1 : 0);
+    if (source === 'notion') {
+      target = target.split('/').map(segment => segment.replace(NOTION_ID, '')).join('/');
+    }
+    notes.set(path, uniquePath(target, used));
+  }
+
+  const images = new Set(files.filter(file => IMAGE_EXTENSION.test(file)));
+
+  return { source, root: source === 'notion' ? root.replace(NOTION_ID, '') : root, notes, images };
+}
+
+/**
+ * Rewrites the links of one note for its new location
+ * @param markdown Content of the note
+ * @param notePath Path of the note in the import
+ * @param plan The import plan
+ * @param imageUrl URL to embed each referenced image with
+ */
+export function convertNote(markdown: string, notePath: string, plan: ImportPlan, imageUrl: ImageUrlResolver): string {
+  const target = plan.notes.get(notePath) || notePath;
+
+  return markdown.replace(LINK_PATTERN, (match, code, _fence, wikiEmbed, wikilink, embed, text, href, title) => {
+    if (code) {
+      return match;
+    }
+
+    if (wikilink !== undefined) {
+      return convertWikilink(wikilink, wikiEmbed === '!', notePath, target, plan, imageUrl);
+    }
+
+    const destination = href.startsWith('<') ? href.slice(1, -1) : href;
+    if (/^([a-z][a-z0-9+.-]*:|#|\/)/i.test(destination)) {
+      return match;
+    }
+
+    const [file, fragment] = splitFragment(destination);
+    const resolved = resolveRelative(dirname(notePath), safeDecode(file));
+
+    if (embed && plan.images.has(resolved)) {
+      const url = imageUrl(resolved);
+      return url ? `![${text}](${url}${title})` : match;
+    }
+
+    const linked = plan.notes.get(resolved);
+    if (linked) {
+      return `${embed}[${text}](${linkTo(target, linked)}${fragment}${title})`;
+    }
+
+    return match;
+  });
+}
+
+/**
+ * Lists the images a note references, so they can be loaded before converting it
+ * @param markdown Content of the note
+ * @param notePath Path of the note in the import
+ * @param plan The import plan
+ */
+export function referencedImages(markdown: string, notePath: string, plan: ImportPlan): string[] {
+  const images = new Set<string>();
+  convertNote(markdown, notePath, plan, path => {
+    images.add(path);
+    return null;
+  });
+  return Array.from(images);
+}
+
+/**
+ * Turns a heading into the anchor markdown renderers give it
+ */
+export function headingSlug(heading: string): string {
+  return heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+function convertWikilink(
+  content: string,
+  isEmbed: boolean,
+  notePath: string,
+  target: string,
+  plan: ImportPlan,
+  imageUrl: ImageUrlResolver
+): string {
+  const separator = content.search(/\\?\|/);
+  const reference = (separator >= 0 ? content.substring(0, separator) : content).trim();
+  const alias = separator >= 0 ? content.substring(separator).replace(/^\\?\|/, '').trim() : '';
+  const hash = reference.indexOf('#');
+  const name = hash >= 0 ? reference.substring(0, hash).trim() : reference;
+  const heading = hash >= 0 ? reference.substring(hash + 1).trim() : '';
+
+  // ![[diagram.png|300]] - the alias of an image embed is its size
+  if (isEmbed && IMAGE_EXTENSION.test(name)) {
+    const image = resolveName(name, notePath, plan, Array.from(plan.images));
+    const alt = alias && !/^\d+(x\d+)?$/.test(alias) ? alias : basename(name).replace(IMAGE_EXTENSION, '');
+    const url = image ? imageUrl(image) : null;
+    return `![${alt}](${url || encodePath(name)})`;
+  }
+
+  const anchor = heading && !heading.startsWith('^') ? `#${headingSlug(heading)}` : '';
+  if (!name) {
+    return `[${alias || heading}](${anchor})`;
+  }
+
+  const linked = resolveName(name, notePath, plan, Array.from(plan.notes.keys()));
+  const destination = linked ? plan.notes.get(linked)! : `${name.replace(/\.md$/i, '')}.md`;
+  const label = alias || (anchor ? `${basename(name)} > ${heading}` : basename(name));
+
+  return `[${label}](${linkTo(target, destination)}${anchor})`;
+}
+
+/**
+ * Finds the file a wikilink refers to the way Obsidian does: by path from the
+ * vault root, else by file name, preferring the linking note's folder and
+ * then the shortest path
+ */
+function resolveName(name: string, notePath: string, plan: ImportPlan, candidates: string[]): string | null {
+  const wanted = (IMAGE_EXTENSION.test(name) || /\.md$/i.test(name) ? name : `${name}.md`).toLowerCase();
+  const inVault = (path: string) => (plan.root ? path.substring(plan.root.length + 1) : path).toLowerCase();
+
+  const exact = candidates.find(path => inVault(path) === wanted);
+  if (exact) {
+    return exact;
+  }
+
+  const matches = candidates.filter(path => inVault(path).endsWith(`/${wanted}`) || inVault(path) === basename(wanted));
+  if (matches.length === 0) {
+    return null;
+  }
+
+  const folder = dirname(notePath);
+  return matches.find(path => dirname(path) === folder)
+    || matches.sort((a, b) => a.split('/').length - b.split('/').length || a.length - b.length)[0];
+}
+
+/**
+ * Relative, URL encoded link from one note to another
+ */
+function linkTo(from: string, to: string): string {
+  const fromParts = dirname(from) ? dirname(from).split('/') : [];
+  const toParts = to.split('/');
+
+  let common = 0;
+  while (common < fromParts.length && common < toParts.length - 1 && fromParts[common] === toParts[common]) {
+    common++;
+  }
+
+  const up = fromParts.slice(common).map(() => '..');
+  return encodePath([...up, ...toParts.slice(common)].join('/'));
+}
+
+function encodePath(path: string): string {
+  return path
+    .split('/')
+    .map(segment => segment === '..' ? segment : encodeURIComponent(segment).replace(/\(/g, '%28').replace(/\)/g, '%29'))
+    .join('/');
+}
+
+function resolveRelative(folder: string, path: string): string {
+  const parts = folder ? folder.split('/') : [];
+  for (const segment of path.split('/')) {
+    if (segment === '..') {
+      parts.pop();
+    } else if (segment && segment !== '.') {
+      parts.push(segment);
+    }
+  }
+  return parts.join('/');
+}
+
+function commonRoot(paths: string[]): string {
+  if (paths.length === 0 || paths.some(path => !path.includes('/'))) {
+    return '';
+  }
+  const first = paths[0].split('/')[0];
+  return paths.every(path => path.split('/')[0] === first) ? first : '';
+}
+
+function uniquePath(path: string, used: Set<string>): string {
+  let candidate = path;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    candidate = path.replace(/(\.md)?$/i, ` (${i})$1`);
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function splitFragment(href: string): [string, string] {
+  const hash = href.indexOf('#');
+  return hash >= 0 ? [href.substring(0, hash), href.substring(hash)] : [href, ''];
+}
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash >= 0 ? path.substring(0, slash) : '';
+}
+
+function basename(path: string): string {
+  return path.substring(path.lastIndexOf('/') + 1);
+}
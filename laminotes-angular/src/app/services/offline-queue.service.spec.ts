@@ -0,0 +1,149 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { Subject, of, throwError } from 'rxjs';
+
+import { OfflineQueueService, PendingOperation, ReplayOutcome } from './offline-queue.service';
+
+describe('OfflineQueueService', () => {
+  let service: OfflineQueueService;
+
+  beforeEach(() => {
+    localStorage.removeItem('laminotes_offline_queue');
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(OfflineQueueService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('laminotes_offline_queue');
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should collapse consecutive saves of the same file', () => {
+    service.enqueue('saveFile', 'a.md', { content: 'one', baseContent: 'base' });
+    service.enqueue('saveFile', 'a.md', { content: 'two', baseContent: 'one' });
+
+    const pending = service.pendingOperations;
+    expect(pending.length).toBe(1);
+    expect(pending[0].payload.content).toBe('two');
+    expect(pending[0].payload.baseContent).toBe('base');
+  });
+
+  it('should replay operations in the order they were made', () => {
+    const replayed: string[] = [];
+    const handler = (op: PendingOperation) => {
+      replayed.push(`${op.type}:${op.fileName}`);
+      return of({ status: 'done' as const });
+    };
+    service.registerHandler('saveFile', handler);
+    service.registerHandler('renameFile', handler);
+    service.registerHandler('deleteFile', handler);
+
+    service.enqueue('saveFile', 'a.md', { content: 'x', baseContent: null });
+    service.enqueue('renameFile', 'a.md', { newFileName: 'b.md' });
+    service.enqueue('deleteFile', 'c.md', { lastKnownContent: null });
+
+    service.replay().subscribe();
+
+    expect(replayed).toEqual(['saveFile:a.md', 'renameFile:a.md', 'deleteFile:c.md']);
+    expect(service.pendingOperations.length).toBe(0);
+  });
+
+  it('should queue a save made while the previous one is being replayed', () => {
+    const response = new Subject<ReplayOutcome>();
+    const uploaded: string[] = [];
+    service.registerHandler('saveFile', op => {
+      uploaded.push(op.payload.content);
+      return op.payload.content === 'one' ? response : of({ status: 'done' as const });
+    });
+
+    service.enqueue('saveFile', 'a.md', { content: 'one', baseContent: 'base' });
+    const subscription = service.replay().subscribe();
+    service.enqueue('saveFile', 'a.md', { content: 'two', baseContent: 'one' });
+    expect(service.pendingOperations.length).toBe(2);
+
+    response.next({ status: 'done' });
+    expect(uploaded).toEqual(['one', 'two']);
+    expect(service.pendingOperations.length).toBe(0);
+    subscription.unsubscribe();
+  });
+
+  it('should replay again after a replay was unsubscribed from', () => {
+    const attempts: string[] = [];
+    service.registerHandler('saveFile', op => {
+      attempts.push(op.fileName);
+      return attempts.length === 1 ? new Subject<ReplayOutcome>() : of({ status: 'done' as const });
+    });
+
+    service.enqueue('saveFile', 'a.md', { content: 'x', baseContent: null });
+    service.replay().subscribe().unsubscribe();
+    service.replay().subscribe();
+
+    expect(attempts).toEqual(['a.md', 'a.md']);
+    expect(service.pendingOperations.length).toBe(0);
+  });
+
+  it('should retry a failed operation with backoff', fakeAsync(() => {
+    let attempts = 0;
+    service.registerHandler('saveFile', () => {
+      attempts++;
+      return attempts === 1 ? throwError(() => ({ status: 500, message: 'Server error' })) : of({ status: 'done' as const });
+    });
+
+    service.enqueue('saveFile', 'a.md', { content: 'x', baseContent: null });
+    service.replay().subscribe();
+    expect(attempts).toBe(1);
+    expect(service.pendingOperations.length).toBe(1);
+
+    tick(2000);
+    expect(attempts).toBe(2);
+    expect(service.pendingOperations.length).toBe(0);
+  }));
+
+  it('should hold an operation that keeps failing, and the saves behind it, until retried or discarded', fakeAsync(() => {
+    let failing = true;
+    const uploaded: string[] = [];
+    service.registerHandler('saveFile', op => {
+      if (failing && op.fileName === 'a.md') {
+        return throwError(() => ({ status: 500, message: 'Server error' }));
+      }
+      uploaded.push(`${op.fileName}:${op.payload.content}`);
+      return of({ status: 'done' as const });
+    });
+
+    service.enqueue('saveFile', 'a.md', { content: 'one', baseContent: null });
+    service.replay().subscribe();
+    tick(2000 + 4000 + 8000 + 16000);
+
+    const held = service.pendingOperations[0];
+    expect(held.held).toBe('failed');
+    expect(held.payload.content).toBe('one');
+
+    service.enqueue('saveFile', 'a.md', { content: 'two', baseContent: 'one' });
+    service.enqueue('saveFile', 'b.md', { content: 'three', baseContent: null });
+    service.replay().subscribe();
+    expect(uploaded).toEqual(['b.md:three']);
+    expect(service.pendingOperations.length).toBe(2);
+
+    failing = false;
+    service.retry(held.id).subscribe();
+    expect(uploaded).toEqual(['b.md:three', 'a.md:one', 'a.md:two']);
+    expect(service.pendingOperations.length).toBe(0);
+  }));
+
+  it('should keep an operation that ran into a conflict until it is discarded', () => {
+    const conflicts: string[] = [];
+    service.conflicts$.subscribe(conflict => conflicts.push(conflict.operation.id));
+    service.registerHandler('saveFile', () => of({ status: 'conflict' as const, message: 'Changed on the server' }));
+
+    const operation = service.enqueue('saveFile', 'a.md', { content: 'x', baseContent: null });
+    service.replay().subscribe();
+
+    expect(conflicts).toEqual([operation.id]);
+    expect(service.pendingOperations.map(op => op.held)).toEqual(['conflict']);
+
+    service.discard(operation.id);
+    expect(service.pendingOperations.length).toBe(0);
+  });
+});
@@ -0,0 +1,471 @@
+/**
+ * Offline queue service.
+ *
+ * Persistent journal of file operations that still have to reach the server.
+ * Operations are recorded while offline (or when a request fails for lack of
+ * connectivity) and replayed strictly in the order they were made once the
+ * browser comes back online. Services register a handler per operation type,
+ * which performs the server call and reports conflicts found during replay.
+ *
+ * Operations that keep failing or run into a conflict aren't dropped: they are
+ * held in the journal, along with later operations on the same file, until the
+ * user retries or discards them.
+ */
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, defer, of } from 'rxjs';
+import { catchError, finalize, map, switchMap } from 'rxjs/operators';
+import { v4 as uuidv4 } from 'uuid';
+import { ConflictData } from '../components/conflict-resolution/conflict-resolution.component';
+import { NotificationService } from './notification.service';
+
+/**
+ * Operations that can be journaled
+ */
+export type PendingOperationType = 'saveFile' | 'renameFile' | 'deleteFile' | 'saveVersion';
+
+/**
+ * A journaled operation waiting to be sent to the server
+ */
+export interface PendingOperation {
+  /** Unique operation ID */
+  id: string;
+
+  /** Position in the journal; replay follows this order */
+  sequence: number;
+
+  /** Kind of operation */
+  type: PendingOperationType;
+
+  /** Name of the file the operation applies to */
+  fileName: string;
+
+  /** Team the file belongs to, if any */
+  teamId?: string;
+
+  /** Operation-specific data needed for replay */
+  payload: any;
+
+  /** When the operation was recorded */
+  createdAt: string;
+
+  /** Number of failed replay attempts */
+  attempts: number;
+
+  /** Last replay error, if any */
+  lastError?: string;
+
+  /** Why the operation is held back from replay until it's retried or discarded */
+  held?: 'failed' | 'conflict';
+}
+
+/**
+ * Result of replaying a single operation
+ */
+export interface ReplayOutcome {
+  /** Whether the operation was applied or ran into a conflict */
+  status: 'done' | 'conflict';
+
+  /** Human-readable description of the outcome */
+  message?: string;
+
+  /** Resolver input for content conflicts */
+  conflict?: ConflictData;
+
+  /** New file content when replay merged in changes from the server */
+  mergedContent?: string;
+}
+
+/**
+ * A file whose content changed while replaying the journal
+ */
+export interface ReplayedContent {
+  /** Name of the file */
+  fileName: string;
+
+  /** Team the file belongs to, if any */
+  teamId?: string;
+
+  /** Content now stored locally and on the server */
+  content: string;
+}
+
+/**
+ * A conflict detected while replaying the journal
+ */
+export interface ReplayConflict {
+  /** The operation that could not be applied as recorded */
+  operation: PendingOperation;
+
+  /** Description of the conflict */
+  message: string;
+
+  /** Resolver input for content conflicts */
+  conflict?: ConflictData;
+}
+
+/**
+ * Summary of a replay run
+ */
+export interface ReplaySummary {
+  /** Operations applied successfully */
+  replayed: number;
+
+  /** Operations that ran into conflicts */
+  conflicts: number;
+
+  /** Operations still waiting */
+  remaining: number;
+}
+
+/**
+ * Performs an operation against the server during replay
+ */
+export type PendingOperationHandler = (operation: PendingOperation) => Observable<ReplayOutcome>;
+
+/**
+ * Service responsible for the offline operation journal
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineQueueService {
+  /** Local storage key for the journal */
+  private readonly QUEUE_KEY = 'laminotes_offline_queue';
+
+  /** Operations are held for the user after this many failed (non-network) attempts */
+  private readonly MAX_ATTEMPTS = 5;
+
+  /** Delay before retrying an operation after its first failure; doubles with each attempt */
+  private readonly RETRY_BASE_DELAY_MS = 2000;
+
+  private queue: PendingOperation[] = [];
+  private handlers = new Map<PendingOperationType, PendingOperationHandler>();
+  private replaying = false;
+  private retryTimer: any = null;
+
+  /** Operation whose request is on its way to the server */
+  private inFlightId: string | null = null;
+
+  private pendingCountSubject = new BehaviorSubject<number>(0);
+  private heldSubject = new BehaviorSubject<PendingOperation[]>([]);
+  private onlineSubject = new BehaviorSubject<boolean>(typeof navigator === 'undefined' || navigator.onLine);
+  private conflictsSubject = new Subject<ReplayConflict>();
+  private mergedSubject = new Subject<ReplayedContent>();
+
+  /** Number of operations waiting to reach the server */
+  readonly pendingCount$ = this.pendingCountSubject.asObservable();
+
+  /** Operations held back after failing or conflicting, waiting for the user */
+  readonly held$ = this.heldSubject.asObservable();
+
+  /** Whether the browser reports a network connection */
+  readonly online$ = this.onlineSubject.asObservable();
+
+  /** Conflicts detected during replay */
+  readonly conflicts$ = this.conflictsSubject.asObservable();
+
+  /** Files whose content was merged with server changes during replay */
+  readonly merged$ = this.mergedSubject.asObservable();
+
+  constructor(
+    private notificationService: NotificationService,
+    private zone: NgZone
+  ) {
+    this.loadQueue();
+
+    window.addEventListener('online', () => this.zone.run(() => {
+      console.log('🔄 Connection restored, replaying offline operations');
+      this.onlineSubject.next(true);
+      this.replay().subscribe();
+    }));
+
+    window.addEventListener('offline', () => this.zone.run(() => {
+      console.log('📴 Connection lost, journaling file operations');
+      this.onlineSubject.next(false);
+    }));
+  }
+
+  /**
+   * Whether the browser currently reports being online
+   */
+  get isOnline(): boolean {
+    return navigator.onLine;
+  }
+
+  /**
+   * Snapshot of the journaled operations in replay order
+   */
+  get pendingOperations(): PendingOperation[] {
+    return [...this.queue];
+  }
+
+  /**
+   * Registers the function that replays one type of operation.
+   * Called by the service that owns the operation.
+   * @param type Operation type
+   * @param handler Replay function
+   */
+  registerHandler(type: PendingOperationType, handler: PendingOperationHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Records an operation in the journal.
+   * Consecutive saves of the same file are collapsed into one, keeping the
+   * base content of the first so conflicts are still detected. A save being
+   * replayed or held is left alone, as its request already carries its content.
+   * @param type Operation type
+   * @param fileName File the operation applies to
+   * @param payload Data needed to replay the operation
+   * @param teamId Team the file belongs to
+   * @returns The journaled operation
+   */
+  enqueue(type: PendingOperationType, fileName: string, payload: any, teamId?: string): PendingOperation {
+    const last = this.queue[this.queue.length - 1];
+
+    if (type === 'saveFile' && last && last.type === 'saveFile' && last.id !== this.inFlightId && !last.held &&
+        last.fileName === fileName && last.teamId === teamId) {
+      last.payload = { ...payload, baseContent: last.payload.baseContent };
+      last.createdAt = new Date().toISOString();
+      this.saveQueue();
+      console.log(`📝 Updated queued save for ${fileName}`);
+      return last;
+    }
+
+    const operation: PendingOperation = {
+      id: uuidv4(),
+      sequence: (last?.sequence ?? 0) + 1,
+      type,
+      fileName,
+      teamId,
+      payload,
+      createdAt: new Date().toISOString(),
+      attempts: 0
+    };
+
+    this.queue.push(operation);
+    this.saveQueue();
+    console.log(`📥 Queued ${type} for ${fileName} (${this.queue.length} pending)`);
+
+    return operation;
+  }
+
+  /**
+   * Replays the journal in order. Stops at the first operation that fails
+   * for lack of connectivity so later operations never overtake it; held
+   * operations and later ones on the same files are skipped.
+   */
+  replay(): Observable<ReplaySummary> {
+    return defer(() => {
+      const summary: ReplaySummary = { replayed: 0, conflicts: 0, remaining: this.queue.length };
+
+      if (this.replaying || !this.nextOperation() || !navigator.onLine) {
+        return of(summary);
+      }
+
+      this.replaying = true;
+
+      return this.replayNext(summary).pipe(
+        map(result => {
+          result.remaining = this.queue.length;
+
+          if (result.replayed > 0 || result.conflicts > 0) {
+            console.log(`✅ Replayed ${result.replayed} offline operation(s), ${result.conflicts} conflict(s), ${result.remaining} remaining`);
+            if (result.conflicts === 0 && result.remaining === 0) {
+              this.notificationService.success(`Synced ${result.replayed} offline change(s)`);
+            }
+          }
+
+          return result;
+        }),
+        // Also when unsubscribed early, so the journal can be replayed again
+        finalize(() => {
+          this.replaying = false;
+          this.inFlightId = null;
+        })
+      );
+    });
+  }
+
+  /**
+   * Replays a held operation again, along with anything waiting behind it
+   * @param operationId ID of the held operation
+   */
+  retry(operationId: string): Observable<ReplaySummary> {
+    const operation = this.queue.find(op => op.id === operationId);
+    if (operation) {
+      operation.held = undefined;
+      operation.attempts = 0;
+      operation.lastError = undefined;
+      this.saveQueue();
+    }
+    return this.replay();
+  }
+
+  /**
+   * Removes an operation from the journal without sending it, e.g. a held
+   * operation the user gave up on or whose conflict was resolved. Local
+   * content is left as it is.
+   * @param operationId ID of the operation
+   */
+  discard(operationId: string): void {
+    const operation = this.queue.find(op => op.id === operationId);
+    if (operation && operation.id !== this.inFlightId) {
+      console.log(`🗑️ Discarded ${operation.type} for ${operation.fileName}`);
+      this.removeOperation(operation);
+      this.replay().subscribe();
+    }
+  }
+
+  /**
+   * Checks whether an error was caused by missing connectivity
+   * @param error Error from an HTTP call
+   */
+  isNetworkError(error: any): boolean {
+    return (
+      !navigator.onLine ||
+      error?.status === 0 ||
+      /Unknown Error|Failed to fetch|NetworkError/i.test(error?.message || '')
+    );
+  }
+
+  private replayNext(summary: ReplaySummary): Observable<ReplaySummary> {
+    const operation = this.nextOperation();
+    if (!operation) {
+      return of(summary);
+    }
+
+    const handler = this.handlers.get(operation.type);
+    if (!handler) {
+      // The owning service hasn't been created yet; try again on the next replay
+      console.warn(`⚠️ No replay handler registered for ${operation.type}`);
+      return of(summary);
+    }
+
+    this.inFlightId = operation.id;
+
+    return handler(operation).pipe(
+      map(outcome => ({ outcome, error: null as any })),
+      catchError(error => of({ outcome: null, error })),
+      switchMap(({ outcome, error }) => {
+        this.inFlightId = null;
+
+        if (error) {
+          if (this.isNetworkError(error)) {
+            console.log(`📴 Still offline, keeping ${this.queue.length} operation(s) queued`);
+            return of(summary);
+          }
+
+          operation.attempts++;
+          operation.lastError = error?.message || String(error);
+          console.error(`❌ Replay of ${operation.type} for ${operation.fileName} failed:`, error);
+
+          if (operation.attempts < this.MAX_ATTEMPTS) {
+            this.saveQueue();
+            this.scheduleRetry(operation);
+            return of(summary);
+          }
+
+          this.notificationService.error(
+            `Could not sync ${operation.type} of ${operation.fileName}: ${operation.lastError}. It's kept until you retry or discard it.`
+          );
+          operation.held = 'failed';
+          this.saveQueue();
+          return this.replayNext(summary);
+        }
+
+        if (outcome!.status === 'conflict') {
+          // Kept until the conflict is resolved or the operation discarded
+          operation.held = 'conflict';
+          this.saveQueue();
+          summary.conflicts++;
+          const message = outcome!.message || `${operation.fileName} was changed on the server`;
+          console.warn(`⚠️ Conflict replaying ${operation.type} for ${operation.fileName}: ${message}`);
+          this.conflictsSubject.next({ operation, message, conflict: outcome!.conflict });
+        } else {
+          this.removeOperation(operation);
+          summary.replayed++;
+          if (outcome!.mergedContent !== undefined) {
+            this.mergedSubject.next({
+              fileName: operation.fileName,
+              teamId: operation.teamId,
+              content: outcome!.mergedContent
+            });
+          }
+        }
+
+        return this.replayNext(summary);
+      })
+    );
+  }
+
+  /**
+   * Replays the journal again after a failed operation, backing off
+   * exponentially so a failing server isn't hammered
+   */
+  private scheduleRetry(operation: PendingOperation): void {
+    clearTimeout(this.retryTimer);
+
+    const delay = this.RETRY_BASE_DELAY_MS * Math.pow(2, operation.attempts - 1);
+    console.log(`⏳ Retrying ${operation.type} for ${operation.fileName} in ${delay / 1000}s`);
+
+    this.retryTimer = setTimeout(() => this.zone.run(() => {
+      this.retryTimer = null;
+      this.replay().subscribe();
+    }), delay);
+  }
+
+  /**
+   * The first operation that may be replayed: not held, and not behind a held
+   * operation on the same file
+   */
+  private nextOperation(): PendingOperation | undefined {
+    const blocked = new Set<string>();
+    const key = (fileName: string, teamId?: string | null) => `${teamId ?? ''}/${fileName}`;
+
+    for (const operation of this.queue) {
+      if (operation.held) {
+        blocked.add(key(operation.fileName, operation.teamId));
+        if (operation.type === 'renameFile') {
+          const newTeamId = operation.payload.newTeamId === undefined ? operation.teamId : operation.payload.newTeamId;
+          blocked.add(key(operation.payload.newFileName, newTeamId));
+        }
+      } else if (!blocked.has(key(operation.fileName, operation.teamId))) {
+        return operation;
+      }
+    }
+    return undefined;
+  }
+
+  private removeOperation(operation: PendingOperation): void {
+    this.queue = this.queue.filter(op => op.id !== operation.id);
+    this.saveQueue();
+  }
+
+  private loadQueue(): void {
+    try {
+      const stored = localStorage.getItem(this.QUEUE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed)) {
+          this.queue = parsed.sort((a: PendingOperation, b: PendingOperation) => a.sequence - b.sequence);
+          console.log(`✅ Loaded ${this.queue.length} pending offline operation(s)`);
+        }
+      }
+    } catch (e) {
+      console.error('❌ Error loading offline queue:', e);
+    }
+    this.pendingCountSubject.next(this.queue.length);
+    this.heldSubject.next(this.queue.filter(op => op.held));
+  }
+
+  private saveQueue(): void {
+    try {
+      localStorage.setItem(this.QUEUE_KEY, JSON.stringify(this.queue));
+    } catch (e) {
+      console.error('❌ Error saving offline queue:', e);
+    }
+    this.pendingCountSubject.next(this.queue.length);
+    this.heldSubject.next(this.queue.filter(op => op.held));
+  }
+}
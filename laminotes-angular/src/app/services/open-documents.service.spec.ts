@@ -0,0 +1,78 @@
+import { TestBed } from '@angular/core/testing';
+
+import { FileInfo } from './file.service';
+import { OpenDocumentsService } from './open-documents.service';
+
+describe('OpenDocumentsService', () => {
+  let service: OpenDocumentsService;
+
+  const file = (name: string): FileInfo => ({ name, path: `/notes/${name}` });
+  const names = () => service.documents.map(document => document.file.name);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(OpenDocumentsService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should keep one tab per note and its own buffer', () => {
+    service.open(file('a.md'), 'A');
+    service.open(file('b.md'), 'B');
+    const again = service.open(file('a.md'), 'changed on disk');
+
+    expect(names()).toEqual(['a.md', 'b.md']);
+    expect(again.content).toBe('A');
+    expect(service.active?.file.name).toBe('a.md');
+  });
+
+  it('should show the neighbour of a closed active tab', () => {
+    ['a.md', 'b.md', 'c.md'].forEach(name => service.open(file(name), ''));
+
+    expect(service.close('/notes/c.md')?.file.name).toBe('b.md');
+    service.activate('/notes/a.md');
+    expect(service.close('/notes/a.md')?.file.name).toBe('b.md');
+    expect(service.close('/notes/b.md')).toBeNull();
+  });
+
+  it('should track unsaved edits', () => {
+    service.open(file('a.md'), '');
+    service.markDirty('/notes/a.md');
+    expect(service.hasUnsavedChanges).toBe(true);
+
+    service.markSaved('/notes/a.md');
+    expect(service.hasUnsavedChanges).toBe(false);
+  });
+
+  it('should keep pinned tabs in front', () => {
+    ['a.md', 'b.md', 'c.md'].forEach(name => service.open(file(name), ''));
+
+    service.togglePin('/notes/c.md');
+    expect(names()).toEqual(['c.md', 'a.md', 'b.md']);
+
+    service.move(2, 0);
+    expect(names()).toEqual(['c.md', 'b.md', 'a.md']);
+
+    service.move(0, 2);
+    expect(names()).toEqual(['c.md', 'b.md', 'a.md']);
+  });
+
+  it('should reload clean tabs changed on disk and hold the change for dirty ones', () => {
+    const a = service.open(file('a.md'), 'A');
+    const b = service.open(file('b.md'), 'B');
+    service.markDirty('/notes/b.md');
+
+    const change = (document: typeof a) =>
+      ({ type: 'change' as const, file: document.file, content: 'disk', base: document.content });
+
+    expect(service.changedOnDisk(change(a), 'disk', {})).toBe(true);
+    expect(a.content).toBe('disk');
+
+    expect(service.changedOnDisk(change(b), 'disk', {})).toBe(false);
+    expect(b.content).toBe('B');
+    expect(service.takeDiskChange('/notes/b.md')?.content).toBe('disk');
+    expect(b.diskChange).toBeNull();
+  });
+});
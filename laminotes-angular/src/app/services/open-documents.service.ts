@@ -0,0 +1,266 @@
+/**
+ * Open documents service.
+ *
+ * Keeps the notes open in editor tabs. Each tab holds its own editor buffer,
+ * whether it has unsaved edits, and where the caret and scroll position were
+ * when the user last left it. Pinned tabs stay in front of the others.
+ * Tabs follow changes made to their note outside Laminotes while they're in
+ * the background.
+ */
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { DiskChange, FileInfo } from './file.service';
+
+/**
+ * A note open in a tab
+ */
+export interface OpenDocument {
+  file: FileInfo;
+
+  /** Editor text, with embedded images shown as placeholders */
+  content: string;
+
+  /** Embedded images by their placeholder in content */
+  images: Record<string, string>;
+
+  /** Whether content has edits not saved yet */
+  dirty: boolean;
+
+  selectionStart: number;
+  selectionEnd: number;
+  scrollTop: number;
+
+  /** Pinned tabs stay in front of the others */
+  pinned: boolean;
+
+  /** Change made on disk while the tab had unsaved edits, to resolve when it's shown */
+  diskChange: DiskChange | null;
+}
+
+/**
+ * The editor state a tab restores when it's shown again
+ */
+export type DocumentState = Partial<Pick<OpenDocument, 'content' | 'images' | 'selectionStart' | 'selectionEnd' | 'scrollTop'>>;
+
+/**
+ * Tabs of the notes open in the editor
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OpenDocumentsService {
+  private documentsSubject = new BehaviorSubject<OpenDocument[]>([]);
+
+  /** Open documents in tab order */
+  readonly documents$ = this.documentsSubject.asObservable();
+
+  private activePath: string | null = null;
+
+  get documents(): OpenDocument[] {
+    return this.documentsSubject.value;
+  }
+
+  /** The document shown in the editor */
+  get active(): OpenDocument | null {
+    return this.activePath === null ? null : this.find(this.activePath);
+  }
+
+  /** Whether any tab has unsaved edits */
+  get hasUnsavedChanges(): boolean {
+    return this.documents.some(document => document.dirty);
+  }
+
+  find(path: string): OpenDocument | null {
+    return this.documents.find(document => document.file.path === path) ?? null;
+  }
+
+  /**
+   * Opens a note in a new tab after the others and shows it
+   * @returns The new document, or the one already open for the note
+   */
+  open(file: FileInfo, content: string, images: Record<string, string> = {}): OpenDocument {
+    let document = this.find(file.path);
+    if (!document) {
+      document = {
+        file,
+        content,
+        images,
+        dirty: false,
+        selectionStart: 0,
+        selectionEnd: 0,
+        scrollTop: 0,
+        pinned: false,
+        diskChange: null
+      };
+      this.emit([...this.documents, document]);
+    }
+
+    this.activePath = file.path;
+    return document;
+  }
+
+  /**
+   * Shows an open document
+   * @returns The document, or null if the note isn't open
+   */
+  activate(path: string): OpenDocument | null {
+    const document = this.find(path);
+    if (document) {
+      this.activePath = path;
+    }
+    return document;
+  }
+
+  /**
+   * Remembers the editor state of a document, e.g. when leaving its tab
+   */
+  update(path: string, state: DocumentState): void {
+    const document = this.find(path);
+    if (document) {
+      Object.assign(document, state);
+    }
+  }
+
+  markDirty(path: string): void {
+    this.setDirty(path, true);
+  }
+
+  markSaved(path: string): void {
+    this.setDirty(path, false);
+  }
+
+  /**
+   * Brings a tab in step with its note changed on disk. A tab without unsaved
+   * edits takes the new text; one with edits keeps them and holds on to the
+   * change until it's resolved.
+   * @param change The change reported by the file service
+   * @param content Text on disk, with embedded images shown as placeholders
+   * @param images Embedded images by their placeholder in content
+   * @returns Whether the tab took the new text
+   */
+  changedOnDisk(change: DiskChange, content: string, images: Record<string, string>): boolean {
+    const document = this.find(change.file.path);
+    if (!document) {
+      return false;
+    }
+
+    if (document.dirty) {
+      this.holdDiskChange(change);
+      return false;
+    }
+
+    document.content = content;
+    document.images = images;
+    document.diskChange = null;
+    this.emit([...this.documents]);
+    return true;
+  }
+
+  /**
+   * Keeps a disk change with its tab until the tab is shown again
+   */
+  holdDiskChange(change: DiskChange): void {
+    const document = this.find(change.file.path);
+    if (document) {
+      document.diskChange = change;
+      this.emit([...this.documents]);
+    }
+  }
+
+  /**
+   * Hands over a tab's pending disk change, e.g. to ask about it once the tab is shown
+   * @returns The change, or null if there is none
+   */
+  takeDiskChange(path: string): DiskChange | null {
+    const document = this.find(path);
+    const change = document?.diskChange ?? null;
+    if (document && change) {
+      document.diskChange = null;
+      this.emit([...this.documents]);
+    }
+    return change;
+  }
+
+  /**
+   * Closes a tab, showing its neighbour if it was the active one
+   * @returns The document now active, or null when no tab is left
+   */
+  close(path: string): OpenDocument | null {
+    const index = this.documents.findIndex(document => document.file.path === path);
+    if (index === -1) {
+      return this.active;
+    }
+
+    const documents = this.documents.filter((_, i) => i !== index);
+    if (this.activePath === path) {
+      // The tab before takes its place, or the one after for the first tab
+      const next = documents[Math.max(0, index - 1)];
+      this.activePath = next ? next.file.path : null;
+    }
+
+    this.emit(documents);
+    return this.active;
+  }
+
+  /**
+   * Moves a tab; pinned tabs can't be dragged behind unpinned ones nor the other way round
+   */
+  move(fromIndex: number, toIndex: number): void {
+    const documents = [...this.documents];
+    const [document] = documents.splice(fromIndex, 1);
+    if (!document) {
+      return;
+    }
+
+    const pinnedCount = documents.filter(entry => entry.pinned).length;
+    const target = document.pinned
+      ? Math.min(Math.max(toIndex, 0), pinnedCount)
+      : Math.min(Math.max(toIndex, pinnedCount), documents.length);
+
+    documents.splice(target, 0, document);
+    this.emit(documents);
+  }
+
+  /**
+   * Pins a tab after the other pinned ones, or unpins it in front of the unpinned ones
+   */
+  togglePin(path: string): void {
+    const document = this.find(path);
+    if (!document) {
+      return;
+    }
+
+    const documents = this.documents.filter(entry => entry !== document);
+    document.pinned = !document.pinned;
+    documents.splice(documents.filter(entry => entry.pinned).length, 0, document);
+    this.emit(documents);
+  }
+
+  /**
+   * Points a tab at its note's new path after a rename or move
+   */
+  rename(oldPath: string, file: FileInfo): void {
+    const document = this.find(oldPath);
+    if (!document) {
+      return;
+    }
+
+    document.file = file;
+    if (this.activePath === oldPath) {
+      this.activePath = file.path;
+    }
+    this.emit([...this.documents]);
+  }
+
+  private setDirty(path: string, dirty: boolean): void {
+    const document = this.find(path);
+    if (document && document.dirty !== dirty) {
+      document.dirty = dirty;
+      this.emit([...this.documents]);
+    }
+  }
+
+  private emit(documents: OpenDocument[]): void {
+    this.documentsSubject.next(documents);
+  }
+}
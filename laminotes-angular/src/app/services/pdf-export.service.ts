@@ -1,114 +1,513 @@
+/**
+ * PDF export service.
+ *
+ * Turns the rendered markdown preview into a paginated PDF: headings,
+ * paragraphs, lists, code, quotes and tables are written as PDF text in a
+ * light print style, images and mermaid diagrams are placed as pictures, and
+ * every page gets a header and footer. An optional table of contents links
+ * to the page of each heading. The PDF is saved through the export service.
+ *
+ * Text is set in the standard PDF fonts, which lack glyphs for scripts
+ * beyond Western European ones (see PdfLayout).
+ */
 import { Injectable } from '@angular/core';
-import { ElectronService } from './electron.service';
-import { CapacitorService } from './capacitor.service';
+import { ExportService } from './export.service';
 import { NotificationService } from './notification.service';
 import { Observable, from, of } from 'rxjs';
-import { catchError, map, tap } from 'rxjs/operators';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import { jsPDF } from 'jspdf';
+import { PdfLayout, TextRun, pdfText } from './pdf-layout';
+
+/**
+ * Paper sizes offered for export
+ */
+export type PdfPageSize = 'a4' | 'a5' | 'letter' | 'legal';
+
+/**
+ * Options for PDF export
+ */
+export interface PdfExportOptions {
+  /** Paper size */
+  pageSize: PdfPageSize;
+
+  /** Page orientation */
+  orientation: 'portrait' | 'landscape';
+
+  /** Margins in millimetres: top, right, bottom, left */
+  margins: [number, number, number, number];
+
+  /** Whether to start with a table of contents */
+  includeToc: boolean;
+
+  /** Text of the page header; defaults to the file name */
+  title?: string;
+}
+
+/**
+ * Export defaults
+ */
+export const DEFAULT_PDF_OPTIONS: PdfExportOptions = {
+  pageSize: 'a4',
+  orientation: 'portrait',
+  margins: [20, 15, 20, 15],
+  includeToc: true
+};
+
+/**
+ * Where the blocks of an element are written
+ */
+interface BlockContext {
+  /** Indent from the left margin in mm */
+  indent: number;
+
+  /** Text colour, e.g. for quotes */
+  color?: [number, number, number];
+
+  /** Mermaid diagrams drawn on canvases, by their SVG element */
+  diagrams: Map<Element, DrawnImage>;
+
+  /** Page each heading was written on */
+  headingPages: Map<Element, number>;
+}
+
+/**
+ * An image drawn on a canvas, with its size in the preview
+ */
+interface DrawnImage {
+  canvas: HTMLCanvasElement;
+
+  /** Width in mm */
+  width: number;
+
+  /** Height in mm */
+  height: number;
+}
+
+/** Millimetres per CSS pixel */
+const MM_PER_PX = 25.4 / 96;
+
+/** Font size of each heading level, in points */
+const HEADING_SIZES: Record<string, number> = { H1: 20, H2: 16, H3: 13, H4: 12, H5: 11, H6: 11 };
+
+/** Elements laid out as blocks of their own */
+const BLOCK_TAGS = new Set([
+  'P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'PRE', 'BLOCKQUOTE', 'TABLE',
+  'HR', 'DIV', 'SECTION', 'ARTICLE', 'FIGURE', 'DETAILS', 'IMG', 'svg'
+]);
 
 @Injectable({
   providedIn: 'root'
 })
 export class PdfExportService {
+  /** Headings listed in the table of contents */
+  private readonly TOC_HEADINGS = 'h1, h2, h3';
+
   constructor(
-    private electronService: ElectronService,
-    private capacitorService: CapacitorService,
+    private exportService: ExportService,
     private notificationService: NotificationService
   ) {}
 
   /**
-   * Exports content to PDF, handling different platforms appropriately
-   * @param contentElement The HTML element to export
+   * Exports rendered markdown to PDF, handling different platforms appropriately
+   * @param contentElement The rendered markdown element to export
    * @param filename Default filename for the PDF
-   * @returns Observable that resolves when export is complete
+   * @param options Page setup
+   * @param share Send the PDF to another app through the share sheet instead of saving it (mobile only)
+   * @returns Observable that resolves to whether the PDF was saved or shared
    */
-  exportToPdf(contentElement: HTMLElement, filename: string = 'document.pdf'): Observable<boolean> {
-    // Simple text-based export - gets just the text content
-    return new Observable(observer => {
-      try {
-        // Extract text content
-        const textContent = contentElement.innerText || contentElement.textContent || '';
-        
-        // Format as plain text
-        const formattedContent = `# ${filename.replace('.pdf', '')}\n\n${textContent}`;
-        
-        // Handle according to platform
-        if (this.electronService.isElectron()) {
-          // For Electron, use saveFile dialog
-          this.electronService.saveFile(
-            formattedContent,
-            filename.replace('.pdf', '.txt'),
-            true // Always use save dialog
-          ).subscribe({
-            next: () => {
-              this.notificationService.success('Document exported successfully as text');
-              observer.next(true);
-              observer.complete();
-            },
-            error: (error) => {
-              console.error('Error exporting document:', error);
-              this.notificationService.error('Failed to export document');
-              observer.next(false);
-              observer.complete();
-            }
-          });
-        } 
-        else if (this.capacitorService.isCapacitor()) {
-          // For Capacitor, save to a documents directory
-          const dirPath = 'Documents';
-          const filePath = `${dirPath}/${filename.replace('.pdf', '.txt')}`;
-          
-          this.capacitorService.createDirectory(dirPath).pipe(
-            tap(() => console.log(`Created Documents directory: ${dirPath}`)),
-            map(() => {
-              return this.capacitorService.saveFile(
-                formattedContent,
-                filePath,
-                false
-              );
-            }),
-            catchError(error => {
-              console.error('Error creating Documents directory:', error);
-              this.notificationService.error('Failed to create Documents directory');
-              observer.next(false);
-              observer.complete();
-              return of(null);
-            })
-          ).subscribe({
-            next: (result) => {
-              if (result) {
-                this.notificationService.success(`Document exported to ${filePath}`);
-                observer.next(true);
-                observer.complete();
-              }
-            },
-            error: (error) => {
-              console.error('Error saving document:', error);
-              this.notificationService.error('Failed to save document');
-              observer.next(false);
-              observer.complete();
-            }
-          });
+  exportToPdf(
+    contentElement: HTMLElement,
+    filename: string = 'document.pdf',
+    options: Partial<PdfExportOptions> = {},
+    share = false
+  ): Observable<boolean> {
+    const settings: PdfExportOptions = { ...DEFAULT_PDF_OPTIONS, ...options };
+    const pdfName = filename.toLowerCase().endsWith('.pdf') ? filename : `${filename.replace(/\.[^.\/]+$/, '')}.pdf`;
+    const title = settings.title || filename.replace(/\.[^.\/]+$/, '');
+
+    return from(this.renderPdf(contentElement, title, settings)).pipe(
+      switchMap(pdf => share
+        ? this.exportService.shareBlob(pdf.output('blob'), pdfName)
+        : this.exportService.saveBlob(pdf.output('blob'), pdfName, 'application/pdf')),
+      map(() => {
+        this.notificationService.success(`${share ? 'Shared' : 'Exported'} ${pdfName}`);
+        return true;
+      }),
+      catchError(error => {
+        if (error?.message === 'Save cancelled' || error?.message === 'Share cancelled') {
+          return of(false);
+        }
+        console.error('❌ Error exporting PDF:', error);
+        this.notificationService.error(`Failed to export PDF: ${error?.message || error}`);
+        return of(false);
+      })
+    );
+  }
+
+  /**
+   * Writes the rendered preview to a jsPDF document
+   */
+  private async renderPdf(contentElement: HTMLElement, title: string, settings: PdfExportOptions): Promise<jsPDF> {
+    const [top, right, bottom, left] = settings.margins;
+    const margins = { top, right, bottom, left };
+    const pdf = new jsPDF({ unit: 'mm', format: settings.pageSize, orientation: settings.orientation });
+    const layout = new PdfLayout(pdf, margins);
+
+    const context: BlockContext = {
+      indent: 0,
+      diagrams: await this.drawDiagrams(contentElement),
+      headingPages: new Map()
+    };
+    this.writeBlocks(contentElement, layout, context);
+
+    const headings = Array.from(context.headingPages.keys()).filter(heading => heading.matches(this.TOC_HEADINGS));
+    if (settings.includeToc && headings.length > 0) {
+      this.writeToc(pdf, layout, title, headings, context.headingPages, margins);
+    }
+
+    this.decoratePages(pdf, title, margins);
+    return pdf;
+  }
+
+  /**
+   * Writes the block elements among the children of an element, gathering
+   * the text between them into paragraphs
+   */
+  private writeBlocks(element: Element, layout: PdfLayout, context: BlockContext): void {
+    let runs: TextRun[] = [];
+    const flush = () => {
+      if (runs.some(run => run.text.trim())) {
+        layout.text(runs, { fontSize: 11, indent: context.indent, color: context.color });
+        layout.space(3);
+      }
+      runs = [];
+    };
+
+    for (const node of Array.from(element.childNodes)) {
+      if (node instanceof Element && this.isHidden(node)) {
+        continue;
+      }
+      if (node instanceof Element && BLOCK_TAGS.has(node.tagName)) {
+        flush();
+        this.writeBlock(node, layout, context);
+      } else {
+        this.collectRuns(node, {}, runs);
+      }
+    }
+    flush();
+  }
+
+  /**
+   * Writes one block element
+   */
+  private writeBlock(element: Element, layout: PdfLayout, context: BlockContext): void {
+    const tag = element.tagName;
+    const { indent } = context;
+
+    if (HEADING_SIZES[tag]) {
+      const fontSize = HEADING_SIZES[tag];
+      layout.space(4);
+      // Keep the heading with the start of its section
+      layout.ensure(PdfLayout.lineHeight(fontSize) + PdfLayout.lineHeight(11) * 2);
+      context.headingPages.set(element, layout.currentPage);
+      layout.text(this.runsOf(element), { fontSize, bold: true, indent, color: [17, 17, 17] });
+      if (tag === 'H1' || tag === 'H2') {
+        layout.rule(indent);
+      }
+      layout.space(2);
+    } else if (tag === 'UL' || tag === 'OL') {
+      this.writeList(element, layout, context);
+      layout.space(2);
+    } else if (tag === 'PRE') {
+      layout.code(element.textContent || '', 9, indent);
+      layout.space(3);
+    } else if (tag === 'BLOCKQUOTE') {
+      layout.quoteDepth++;
+      this.writeBlocks(element, layout, { ...context, indent: indent + 5, color: [87, 96, 106] });
+      layout.quoteDepth--;
+    } else if (tag === 'TABLE') {
+      const rows = Array.from(element.querySelectorAll('tr')).map(row =>
+        Array.from(row.children).map(cell => ({
+          text: (cell.textContent || '').replace(/\s+/g, ' ').trim(),
+          header: cell.tagName === 'TH'
+        })));
+      layout.table(rows, 10, indent);
+      layout.space(3);
+    } else if (tag === 'HR') {
+      layout.space(2);
+      layout.rule(indent);
+      layout.space(2);
+    } else if (tag === 'IMG') {
+      this.writeImage(element as HTMLImageElement, layout, context);
+    } else if (tag === 'svg') {
+      const diagram = context.diagrams.get(element);
+      if (diagram) {
+        layout.image(diagram.canvas, diagram.width, diagram.height, indent);
+        layout.space(3);
+      }
+    } else {
+      // Paragraphs and containers; images inside a paragraph follow its text
+      this.writeBlocks(element, layout, context);
+      if (tag === 'P') {
+        element.querySelectorAll('img').forEach(image => this.writeImage(image, layout, context));
+      }
+    }
+  }
+
+  /**
+   * Writes a list with a bullet or number in front of each item
+   */
+  private writeList(list: Element, layout: PdfLayout, context: BlockContext): void {
+    const ordered = list.tagName === 'OL';
+    let number = Number(list.getAttribute('start') || 1);
+    const indent = context.indent + 6;
+
+    for (const item of Array.from(list.children)) {
+      if (item.tagName !== 'LI' || this.isHidden(item)) {
+        continue;
+      }
+
+      const marker = ordered ? `${number++}.` : '•';
+      let runs: TextRun[] = [];
+      let first = true;
+      const flush = () => {
+        if (runs.some(run => run.text.trim()) || first) {
+          layout.text(runs, { fontSize: 11, indent, color: context.color, marker: first ? marker : undefined });
+          first = false;
         }
-        else {
-          // For browser, create a download link
-          const element = document.createElement('a');
-          const file = new Blob([formattedContent], {type: 'text/plain'});
-          element.href = URL.createObjectURL(file);
-          element.download = filename.replace('.pdf', '.txt');
-          document.body.appendChild(element);
-          element.click();
-          document.body.removeChild(element);
-          
-          this.notificationService.success('Document exported successfully');
-          observer.next(true);
-          observer.complete();
+        runs = [];
+      };
+
+      for (const node of Array.from(item.childNodes)) {
+        if (node instanceof Element && this.isHidden(node)) {
+          continue;
+        }
+        // Loose lists wrap item text in paragraphs
+        if (node instanceof Element && node.tagName === 'P') {
+          node.childNodes.forEach(child => this.collectRuns(child, {}, runs));
+          flush();
+        } else if (node instanceof Element && BLOCK_TAGS.has(node.tagName)) {
+          flush();
+          this.writeBlock(node, layout, { ...context, indent });
+        } else {
+          this.collectRuns(node, {}, runs);
         }
-      } catch (error) {
-        console.error('Error exporting document:', error);
-        this.notificationService.error('Failed to export document');
-        observer.next(false);
-        observer.complete();
       }
+      flush();
+      layout.space(1);
+    }
+  }
+
+  /**
+   * Places an image as shown in the preview, or its description if it can't be drawn
+   */
+  private writeImage(image: HTMLImageElement, layout: PdfLayout, context: BlockContext): void {
+    const box = image.getBoundingClientRect();
+    const width = (box.width || image.naturalWidth) * MM_PER_PX;
+    const height = (box.height || image.naturalHeight) * MM_PER_PX;
+
+    try {
+      if (!image.complete || image.naturalWidth === 0) {
+        throw new Error('Image not loaded');
+      }
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      canvas.getContext('2d')!.drawImage(image, 0, 0);
+      layout.image(canvas, width, height, context.indent);
+    } catch (error) {
+      // e.g. an image from another site, which the canvas may not read back
+      console.warn(`⚠️ Could not add image ${image.src.slice(0, 80)} to the PDF:`, error);
+      layout.text([{ text: `[Image: ${image.alt || 'not available'}]`, italic: true }],
+        { fontSize: 10, indent: context.indent, color: [87, 96, 106] });
+    }
+    layout.space(3);
+  }
+
+  /**
+   * Adds the inline text of a node to runs, in the style of the elements it's in
+   */
+  private collectRuns(node: Node, style: Omit<TextRun, 'text'>, runs: TextRun[]): void {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = (node.textContent || '').replace(/\s+/g, ' ');
+      if (text) {
+        runs.push({ ...style, text });
+      }
+      return;
+    }
+
+    if (!(node instanceof Element) || this.isHidden(node)) {
+      return;
+    }
+
+    switch (node.tagName) {
+      case 'BR':
+        runs.push({ text: '\n' });
+        return;
+      case 'IMG':
+        // Placed as blocks after the paragraph
+        return;
+      case 'INPUT':
+        if ((node as HTMLInputElement).type === 'checkbox') {
+          runs.push({ ...style, text: (node as HTMLInputElement).checked ? '[x] ' : '[ ] ', code: true });
+        }
+        return;
+      case 'STRONG':
+      case 'B':
+        style = { ...style, bold: true };
+        break;
+      case 'EM':
+      case 'I':
+        style = { ...style, italic: true };
+        break;
+      case 'CODE':
+        style = { ...style, code: true };
+        break;
+      case 'A': {
+        const href = node.getAttribute('href');
+        if (href && !href.startsWith('#')) {
+          style = { ...style, url: (node as HTMLAnchorElement).href };
+        }
+        break;
+      }
+    }
+
+    node.childNodes.forEach(child => this.collectRuns(child, style, runs));
+  }
+
+  /**
+   * Inline text of an element
+   */
+  private runsOf(element: Element): TextRun[] {
+    const runs: TextRun[] = [];
+    element.childNodes.forEach(child => this.collectRuns(child, {}, runs));
+    return runs;
+  }
+
+  /**
+   * Writes the table of contents and moves it in front of the document.
+   * Its entries are one line each, so page numbers are filled in once it's
+   * known how many pages the table itself takes.
+   */
+  private writeToc(
+    pdf: jsPDF,
+    layout: PdfLayout,
+    title: string,
+    headings: Element[],
+    headingPages: Map<Element, number>,
+    margins: { left: number; right: number }
+  ): void {
+    const firstPage = pdf.getNumberOfPages() + 1;
+    layout.moveTo(firstPage);
+
+    layout.text([{ text: title }], { fontSize: 20, bold: true, color: [17, 17, 17] });
+    layout.rule();
+    layout.space(4);
+    layout.text([{ text: 'CONTENTS' }], { fontSize: 9, bold: true, color: [87, 96, 106] });
+    layout.space(2);
+
+    const rows = headings.map(heading => {
+      const level = Number(heading.tagName.slice(1));
+      const fontSize = level === 3 ? 10 : 11;
+      const indent = (level - 1) * 6;
+      const numberWidth = 12;
+
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(fontSize);
+      const label = (heading.textContent || '').replace(/\s+/g, ' ').trim();
+      const lines: string[] = pdf.splitTextToSize(pdfText(label), layout.contentWidth - indent - numberWidth);
+      const text = lines.length > 1 ? `${lines[0].replace(/\s*\S{0,3}$/, '')}…` : lines[0] || '';
+
+      layout.ensure(PdfLayout.lineHeight(fontSize));
+      const row = { heading, fontSize, page: layout.currentPage, y: layout.currentY };
+      layout.text([{ text }], { fontSize, indent });
+      return row;
     });
+
+    const tocPages = pdf.getNumberOfPages() - firstPage + 1;
+    const width = pdf.internal.pageSize.getWidth();
+    for (const row of rows) {
+      const target = headingPages.get(row.heading)! + tocPages;
+      pdf.setPage(row.page);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(row.fontSize);
+      pdf.setTextColor(87, 96, 106);
+      pdf.text(String(target), width - margins.right, row.y + PdfLayout.baseline(row.fontSize), { align: 'right' });
+      pdf.link(margins.left, row.y, layout.contentWidth, PdfLayout.lineHeight(row.fontSize), { pageNumber: target });
+    }
+
+    for (let page = 0; page < tocPages; page++) {
+      pdf.movePage(firstPage + page, 1 + page);
+    }
   }
-}
\ No newline at end of file
+
+  /**
+   * Draws the rendered mermaid diagrams on canvases, as PDFs take raster images
+   */
+  private async drawDiagrams(contentElement: HTMLElement): Promise<Map<Element, DrawnImage>> {
+    const diagrams = new Map<Element, DrawnImage>();
+
+    for (const svg of Array.from(contentElement.querySelectorAll<SVGSVGElement>('.mermaid svg'))) {
+      const box = svg.getBoundingClientRect();
+      if (box.width === 0 || box.height === 0) {
+        continue;
+      }
+
+      const clone = svg.cloneNode(true) as SVGSVGElement;
+      clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+      clone.setAttribute('width', String(box.width));
+      clone.setAttribute('height', String(box.height));
+
+      try {
+        const image = new Image();
+        image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(clone))}`;
+        await image.decode();
+
+        // Twice the preview's resolution so diagrams stay sharp in print
+        const canvas = document.createElement('canvas');
+        canvas.width = box.width * 2;
+        canvas.height = box.height * 2;
+        const context = canvas.getContext('2d')!;
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+        diagrams.set(svg, { canvas, width: box.width * MM_PER_PX, height: box.height * MM_PER_PX });
+      } catch (error) {
+        console.warn('⚠️ Could not draw a diagram for the PDF:', error);
+      }
+    }
+
+    return diagrams;
+  }
+
+  /**
+   * Whether an element is hidden in the preview, e.g. the source of a rendered mermaid diagram
+   */
+  private isHidden(element: Element): boolean {
+    return getComputedStyle(element).display === 'none';
+  }
+
+  /**
+   * Adds the title header and page footer to every page
+   */
+  private decoratePages(pdf: jsPDF, title: string, margins: { top: number; right: number; bottom: number; left: number }): void {
+    const pageCount = pdf.getNumberOfPages();
+    const width = pdf.internal.pageSize.getWidth();
+    const height = pdf.internal.pageSize.getHeight();
+
+    for (let page = 1; page <= pageCount; page++) {
+      pdf.setPage(page);
+      pdf.setFontSize(9);
+      pdf.setTextColor(130, 130, 130);
+
+      pdf.text(title, margins.left, margins.top / 2 + 2);
+      pdf.setDrawColor(220, 220, 220);
+      pdf.line(margins.left, margins.top / 2 + 4, width - margins.right, margins.top / 2 + 4);
+
+      pdf.text(title, margins.left, height - margins.bottom / 2);
+      pdf.text(`Page ${page} of ${pageCount}`, width - margins.right, height - margins.bottom / 2, { align: 'right' });
+    }
+  }
+}
+
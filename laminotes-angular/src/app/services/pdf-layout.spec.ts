@@ -0,0 +1,33 @@
+import { jsPDF } from 'jspdf';
+
+import { PdfLayout, pdfText } from './pdf-layout';
+
+describe('PdfLayout', () => {
+  const margins = { top: 20, right: 15, bottom: 20, left: 15 };
+
+  it('should write text as PDF text', () => {
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4', compress: false });
+    const layout = new PdfLayout(pdf, margins);
+
+    layout.text([{ text: 'Searchable text in ' }, { text: 'bold', bold: true }], { fontSize: 11 });
+
+    const output = pdf.output();
+    expect(output).toContain('(Searchable text in ) Tj');
+    expect(output).toContain('(bold) Tj');
+  });
+
+  it('should wrap text at the margin and continue on new pages', () => {
+    const pdf = new jsPDF({ unit: 'mm', format: 'a5' });
+    const layout = new PdfLayout(pdf, margins);
+
+    layout.text([{ text: 'word '.repeat(2000) }], { fontSize: 11 });
+
+    expect(pdf.getNumberOfPages()).toBeGreaterThan(1);
+    expect(layout.currentPage).toBe(pdf.getNumberOfPages());
+    expect(layout.currentY).toBeLessThanOrEqual(pdf.internal.pageSize.getHeight() - margins.bottom);
+  });
+
+  it('should replace characters the standard fonts lack', () => {
+    expect(pdfText('Café – “quoted” 😀 日本')).toBe('Café - "quoted" ? ??');
+  });
+});
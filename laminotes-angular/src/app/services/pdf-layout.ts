@@ -0,0 +1,462 @@
+/**
+ * PDF text layout.
+ *
+ * Writes blocks of a document into a jsPDF document as PDF text, so exported
+ * notes can be selected, searched and read by screen readers. Paragraphs are
+ * wrapped word by word across runs of differently styled text, and everything
+ * flows onto new pages as the current one fills up.
+ *
+ * The standard PDF fonts are used, which cover Latin-1. Typographic quotes,
+ * dashes and the like are written as their plain equivalents, and other
+ * characters the fonts have no glyph for as "?".
+ */
+import { jsPDF } from 'jspdf';
+
+/** Millimetres per typographic point */
+const MM_PER_PT = 25.4 / 72;
+
+/** Plain equivalents of common characters beyond Latin-1 */
+const PLAIN_CHARACTERS: Record<string, string> = {
+  '‘': "'", '’': "'", '‚': ',', '“': '"', '”': '"', '„': '"', '–': '-', '—': '-', '−': '-',
+  '…': '...', '•': '·', '€': 'EUR', '™': '(TM)', '\u00a0': ' '
+};
+
+/**
+ * A piece of inline text sharing one style
+ */
+export interface TextRun {
+  /** The text; a run of just '\n' breaks the line */
+  text: string;
+
+  bold?: boolean;
+  italic?: boolean;
+
+  /** Set in the monospace font on a shaded background */
+  code?: boolean;
+
+  /** Address the text links to */
+  url?: string;
+}
+
+/**
+ * How a block of text is set
+ */
+export interface TextStyle {
+  /** Font size in points */
+  fontSize: number;
+
+  /** Text colour as RGB; defaults to near black */
+  color?: [number, number, number];
+
+  /** Bold throughout, e.g. for headings */
+  bold?: boolean;
+
+  /** Indent from the left margin in mm */
+  indent?: number;
+
+  /** Bullet or number set left of the indent, on the first line; '•' is drawn as a dot */
+  marker?: string;
+}
+
+/**
+ * A cell of a table
+ */
+export interface TableCell {
+  text: string;
+
+  /** Header cells are bold on a shaded background */
+  header: boolean;
+}
+
+/**
+ * Page margins in mm
+ */
+export interface PdfMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * A word or space of a line, with the style it's set in
+ */
+interface Piece {
+  text: string;
+  run: TextRun;
+  width: number;
+}
+
+/**
+ * Lays out text, images and rules top to bottom over the pages of a PDF
+ */
+export class PdfLayout {
+  /** Page being written, 1-based */
+  private page = 1;
+
+  /** Top of the next block on the page, in mm */
+  private y: number;
+
+  /** Blockquotes the text is in; each adds a bar in front of its lines */
+  quoteDepth = 0;
+
+  constructor(private pdf: jsPDF, private margins: PdfMargins) {
+    this.y = margins.top;
+  }
+
+  /** Page being written, 1-based */
+  get currentPage(): number {
+    return this.page;
+  }
+
+  /** Top of the next block on the page, in mm */
+  get currentY(): number {
+    return this.y;
+  }
+
+  /** Width between the margins, in mm */
+  get contentWidth(): number {
+    return this.pdf.internal.pageSize.getWidth() - this.margins.left - this.margins.right;
+  }
+
+  /** Height between the margins, in mm */
+  get contentHeight(): number {
+    return this.pdf.internal.pageSize.getHeight() - this.margins.top - this.margins.bottom;
+  }
+
+  /**
+   * Height of a line of text, in mm
+   * @param fontSize Font size in points
+   */
+  static lineHeight(fontSize: number): number {
+    return fontSize * MM_PER_PT * 1.45;
+  }
+
+  /**
+   * Distance from the top of a line of text to its baseline, in mm
+   * @param fontSize Font size in points
+   */
+  static baseline(fontSize: number): number {
+    return (PdfLayout.lineHeight(fontSize) + fontSize * MM_PER_PT * 0.7) / 2;
+  }
+
+  /**
+   * Continues at the top of a page, adding pages up to it as needed
+   * @param page Page number, 1-based
+   */
+  moveTo(page: number): void {
+    while (this.pdf.getNumberOfPages() < page) {
+      this.pdf.addPage();
+    }
+    this.page = page;
+    this.pdf.setPage(page);
+    this.y = this.margins.top;
+  }
+
+  /**
+   * Continues at the top of the next page
+   */
+  newPage(): void {
+    this.moveTo(this.page + 1);
+  }
+
+  /**
+   * Leaves vertical space, unless at the top of a page
+   * @param height Space in mm
+   */
+  space(height: number): void {
+    if (this.y > this.margins.top) {
+      this.y = Math.min(this.y + height, this.pageBottom);
+    }
+  }
+
+  /**
+   * Starts a new page unless the rest of this one has room
+   * @param height Room needed in mm
+   */
+  ensure(height: number): void {
+    if (this.y + height > this.pageBottom && this.y > this.margins.top) {
+      this.newPage();
+    }
+  }
+
+  /**
+   * Writes a paragraph, wrapping it at the right margin
+   * @param runs Text of the paragraph
+   * @param style How the paragraph is set
+   */
+  text(runs: TextRun[], style: TextStyle): void {
+    const indent = style.indent ?? 0;
+    const lineHeight = PdfLayout.lineHeight(style.fontSize);
+    const lines = this.wrap(runs, style, this.contentWidth - indent);
+
+    lines.forEach((line, index) => {
+      this.ensure(lineHeight);
+      const baseline = this.y + PdfLayout.baseline(style.fontSize);
+
+      if (index === 0 && style.marker === '•') {
+        const [r, g, b] = style.color ?? [31, 35, 40];
+        this.pdf.setFillColor(r, g, b);
+        this.pdf.circle(this.margins.left + indent - 3, baseline - style.fontSize * MM_PER_PT * 0.3, 0.6, 'F');
+      } else if (index === 0 && style.marker) {
+        this.setFont({ text: style.marker, bold: style.bold }, style);
+        this.pdf.text(pdfText(style.marker), this.margins.left + indent - 1.5, baseline, { align: 'right' });
+      }
+
+      let x = this.margins.left + indent;
+      for (const piece of this.joinRuns(line)) {
+        if (piece.run.code && piece.text.trim()) {
+          this.pdf.setFillColor(240, 240, 240);
+          this.pdf.rect(x, this.y + lineHeight * 0.1, piece.width, lineHeight * 0.8, 'F');
+        }
+        this.setFont(piece.run, style);
+        this.pdf.text(pdfText(piece.text), x, baseline);
+        if (piece.run.url && piece.text.trim()) {
+          this.pdf.link(x, this.y, piece.width, lineHeight, { url: piece.run.url });
+        }
+        x += piece.width;
+      }
+
+      this.drawQuoteBars(lineHeight);
+      this.y += lineHeight;
+    });
+  }
+
+  /**
+   * Writes preformatted text on a shaded background, keeping its line breaks
+   * @param code The text
+   * @param fontSize Font size in points
+   * @param indent Indent from the left margin in mm
+   */
+  code(code: string, fontSize: number, indent = 0): void {
+    const padding = 2;
+    const width = this.contentWidth - indent;
+    const lineHeight = PdfLayout.lineHeight(fontSize);
+
+    this.pdf.setFont('courier', 'normal');
+    this.pdf.setFontSize(fontSize);
+    const lines: string[] = code.replace(/\n$/, '').split('\n')
+      .flatMap(line => this.pdf.splitTextToSize(pdfText(line.replace(/\t/g, '    ')), width - 2 * padding) as string[]);
+
+    lines.forEach((line, index) => {
+      this.ensure(lineHeight + (index === 0 ? padding : 0));
+      const first = index === 0 || this.y === this.margins.top;
+      const last = index === lines.length - 1;
+      const top = first ? padding : 0;
+      const bottom = last ? padding : 0;
+
+      this.pdf.setFillColor(245, 245, 245);
+      this.pdf.rect(this.margins.left + indent, this.y, width, top + lineHeight + bottom, 'F');
+
+      this.y += top;
+      this.pdf.setFont('courier', 'normal');
+      this.pdf.setFontSize(fontSize);
+      this.pdf.setTextColor(36, 41, 47);
+      this.pdf.text(line, this.margins.left + indent + padding, this.y + PdfLayout.baseline(fontSize));
+      this.drawQuoteBars(lineHeight);
+      this.y += lineHeight + bottom;
+    });
+  }
+
+  /**
+   * Draws a horizontal line across the text width
+   * @param indent Indent from the left margin in mm
+   */
+  rule(indent = 0): void {
+    this.ensure(2);
+    this.pdf.setDrawColor(210, 210, 210);
+    this.pdf.setLineWidth(0.3);
+    this.pdf.line(this.margins.left + indent, this.y + 1, this.margins.left + this.contentWidth, this.y + 1);
+    this.y += 2;
+  }
+
+  /**
+   * Places an image, scaled down to fit the text width and the page
+   * @param image The image, drawn on a canvas
+   * @param width Natural width in mm
+   * @param height Natural height in mm
+   * @param indent Indent from the left margin in mm
+   */
+  image(image: HTMLCanvasElement, width: number, height: number, indent = 0): void {
+    const available = this.contentWidth - indent;
+    const scale = Math.min(1, available / width, this.contentHeight / height);
+    const w = width * scale;
+    const h = height * scale;
+
+    this.ensure(h);
+    this.pdf.addImage(image, 'PNG', this.margins.left + indent + (available - w) / 2, this.y, w, h);
+    this.y += h;
+  }
+
+  /**
+   * Writes a table with columns of equal width; rows are kept whole on a page
+   * @param rows Cells of each row
+   * @param fontSize Font size in points
+   * @param indent Indent from the left margin in mm
+   */
+  table(rows: TableCell[][], fontSize: number, indent = 0): void {
+    const columns = Math.max(0, ...rows.map(row => row.length));
+    if (columns === 0) {
+      return;
+    }
+
+    const padding = 1.5;
+    const lineHeight = PdfLayout.lineHeight(fontSize);
+    const columnWidth = (this.contentWidth - indent) / columns;
+
+    for (const row of rows) {
+      const cells = row.map(cell => {
+        this.pdf.setFont('helvetica', cell.header ? 'bold' : 'normal');
+        this.pdf.setFontSize(fontSize);
+        return { cell, lines: this.pdf.splitTextToSize(pdfText(cell.text), columnWidth - 2 * padding) as string[] };
+      });
+      const height = Math.max(1, ...cells.map(({ lines }) => lines.length)) * lineHeight + 2 * padding;
+
+      this.ensure(height);
+      cells.forEach(({ cell, lines }, column) => {
+        const x = this.margins.left + indent + column * columnWidth;
+        this.pdf.setDrawColor(208, 215, 222);
+        this.pdf.setLineWidth(0.2);
+        if (cell.header) {
+          this.pdf.setFillColor(246, 248, 250);
+          this.pdf.rect(x, this.y, columnWidth, height, 'FD');
+        } else {
+          this.pdf.rect(x, this.y, columnWidth, height, 'S');
+        }
+
+        this.pdf.setFont('helvetica', cell.header ? 'bold' : 'normal');
+        this.pdf.setFontSize(fontSize);
+        this.pdf.setTextColor(31, 35, 40);
+        lines.forEach((line, index) => {
+          this.pdf.text(line, x + padding, this.y + padding + index * lineHeight + PdfLayout.baseline(fontSize));
+        });
+      });
+      this.y += height;
+    }
+  }
+
+  /**
+   * Splits runs into lines that fit the width
+   */
+  private wrap(runs: TextRun[], style: TextStyle, width: number): Piece[][] {
+    const lines: Piece[][] = [[]];
+    let x = 0;
+
+    const place = (piece: Piece) => {
+      const line = lines[lines.length - 1];
+      if (x + piece.width > width && line.length > 0) {
+        lines.push([]);
+        x = 0;
+      }
+      // Lines don't start with a space
+      if (x === 0 && !piece.text.trim()) {
+        return;
+      }
+      lines[lines.length - 1].push(piece);
+      x += piece.width;
+    };
+
+    for (const run of runs) {
+      if (run.text === '\n') {
+        lines.push([]);
+        x = 0;
+        continue;
+      }
+
+      this.setFont(run, style);
+      for (const token of run.text.split(/(\s+)/).filter(Boolean)) {
+        const text = /^\s+$/.test(token) ? ' ' : token;
+        const tokenWidth = this.measure(text);
+
+        if (tokenWidth <= width) {
+          place({ text, run, width: tokenWidth });
+          continue;
+        }
+
+        // Longer than a line, e.g. a URL: break it anywhere
+        let part = '';
+        for (const char of Array.from(text)) {
+          if (part && this.measure(part + char) > width) {
+            place({ text: part, run, width: this.measure(part) });
+            part = '';
+          }
+          part += char;
+        }
+        if (part) {
+          place({ text: part, run, width: this.measure(part) });
+        }
+      }
+    }
+
+    // Spaces at the end of a line take no room
+    for (const line of lines) {
+      while (line.length > 0 && !line[line.length - 1].text.trim()) {
+        line.pop();
+      }
+    }
+
+    // A break at the very end doesn't start another line
+    if (lines.length > 1 && lines[lines.length - 1].length === 0) {
+      lines.pop();
+    }
+    return lines;
+  }
+
+  /**
+   * Joins the neighbouring pieces of a line set in the same run, so each is written in one go
+   */
+  private joinRuns(line: Piece[]): Piece[] {
+    const joined: Piece[] = [];
+    for (const piece of line) {
+      const last = joined[joined.length - 1];
+      if (last && last.run === piece.run) {
+        joined[joined.length - 1] = { run: last.run, text: last.text + piece.text, width: last.width + piece.width };
+      } else {
+        joined.push(piece);
+      }
+    }
+    return joined;
+  }
+
+  private setFont(run: TextRun, style: TextStyle): void {
+    const bold = run.bold || style.bold;
+    const fontStyle = bold && run.italic ? 'bolditalic' : bold ? 'bold' : run.italic ? 'italic' : 'normal';
+
+    this.pdf.setFont(run.code ? 'courier' : 'helvetica', run.code ? (bold ? 'bold' : 'normal') : fontStyle);
+    this.pdf.setFontSize(run.code ? style.fontSize * 0.9 : style.fontSize);
+    if (run.url) {
+      this.pdf.setTextColor(9, 105, 218);
+    } else {
+      const [r, g, b] = style.color ?? [31, 35, 40];
+      this.pdf.setTextColor(r, g, b);
+    }
+  }
+
+  /** Width of text in the current font, in mm */
+  private measure(text: string): number {
+    return this.pdf.getTextWidth(pdfText(text));
+  }
+
+  private drawQuoteBars(lineHeight: number): void {
+    this.pdf.setDrawColor(208, 215, 222);
+    this.pdf.setLineWidth(0.8);
+    for (let depth = 0; depth < this.quoteDepth; depth++) {
+      const x = this.margins.left + depth * 5 + 0.4;
+      this.pdf.line(x, this.y, x, this.y + lineHeight);
+    }
+  }
+
+  private get pageBottom(): number {
+    return this.pdf.internal.pageSize.getHeight() - this.margins.bottom;
+  }
+}
+
+/**
+ * Text the standard fonts can show: common characters beyond Latin-1 become
+ * their plain equivalents, others "?"
+ */
+export function pdfText(text: string): string {
+  return Array.from(text)
+    .map(char => PLAIN_CHARACTERS[char] ?? (char.charCodeAt(0) <= 0xff ? char : '?'))
+    .join('');
+}
@@ -0,0 +1,36 @@
+import { blockAnchors, lineForOffset, offsetForLine } from './scroll-sync';
+
+describe('scroll sync', () => {
+  // A heading on line 0 and a four-line paragraph on lines 2-5
+  const anchors = blockAnchors([
+    { startLine: 0, endLine: 0, top: 10, bottom: 40 },
+    { startLine: 2, endLine: 5, top: 60, bottom: 140 }
+  ]);
+
+  it('should put block lines at their block', () => {
+    expect(offsetForLine(anchors, 0)).toBe(10);
+    expect(offsetForLine(anchors, 2)).toBe(60);
+    expect(offsetForLine(anchors, 4)).toBe(100);
+    expect(offsetForLine(anchors, 6)).toBe(140);
+  });
+
+  it('should interpolate between blocks', () => {
+    expect(offsetForLine(anchors, 1.5)).toBe(50);
+    expect(offsetForLine(anchors, 20)).toBe(140);
+  });
+
+  it('should map offsets back to lines', () => {
+    expect(lineForOffset(anchors, 0)).toBe(0);
+    expect(lineForOffset(anchors, 100)).toBe(4);
+    expect(lineForOffset(anchors, 500)).toBe(6);
+  });
+
+  it('should leave out blocks out of order', () => {
+    const unordered = blockAnchors([
+      { startLine: 4, endLine: 4, top: 100, bottom: 120 },
+      { startLine: 2, endLine: 2, top: 50, bottom: 70 }
+    ]);
+
+    expect(unordered.map(anchor => anchor.line)).toEqual([0, 4, 5]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Scroll sync.
+ *
+ * Converts between source lines and vertical offsets in a rendered view, so
+ * the editor and the preview can be scrolled to the same place. Anchors pair
+ * a line with the offset it's shown at, such as the top and bottom of each
+ * rendered block; between two anchors positions are interpolated linearly.
+ */
+
+/**
+ * A source line and the offset it's shown at
+ */
+export interface ScrollAnchor {
+  /** Line counted from 0, possibly with a fraction */
+  line: number;
+
+  /** Offset from the top of the scrolled content */
+  offset: number;
+}
+
+/**
+ * A rendered block with the offsets of its top and bottom
+ */
+export interface MeasuredBlock {
+  /** First source line (0-based) */
+  startLine: number;
+
+  /** Last source line (0-based, inclusive) */
+  endLine: number;
+
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Anchors of measured blocks: a block's first line is at its top, and the
+ * line after its last at its bottom. Blocks out of order are left out.
+ */
+export function blockAnchors(blocks: MeasuredBlock[]): ScrollAnchor[] {
+  const anchors: ScrollAnchor[] = [{ line: 0, offset: 0 }];
+
+  for (const block of blocks) {
+    const last = anchors[anchors.length - 1];
+    if (block.startLine < last.line || block.top < last.offset) {
+      continue;
+    }
+    anchors.push(
+      { line: block.startLine, offset: block.top },
+      { line: block.endLine + 1, offset: Math.max(block.top, block.bottom) }
+    );
+  }
+
+  return anchors;
+}
+
+/**
+ * Offset a source line is shown at
+ */
+export function offsetForLine(anchors: ScrollAnchor[], line: number): number {
+  return interpolate(anchors, line, anchor => anchor.line, anchor => anchor.offset);
+}
+
+/**
+ * Source line shown at an offset
+ */
+export function lineForOffset(anchors: ScrollAnchor[], offset: number): number {
+  return interpolate(anchors, offset, anchor => anchor.offset, anchor => anchor.line);
+}
+
+function interpolate(
+  anchors: ScrollAnchor[],
+  value: number,
+  from: (anchor: ScrollAnchor) => number,
+  to: (anchor: ScrollAnchor) => number
+): number {
+  if (anchors.length === 0) {
+    return 0;
+  }
+
+  for (let i = 1; i < anchors.length; i++) {
+    const a = anchors[i - 1];
+    const b = anchors[i];
+    if (value < from(b)) {
+      const span = from(b) - from(a);
+      const fraction = span > 0 ? Math.max(0, value - from(a)) / span : 0;
+      return to(a) + fraction * (to(b) - to(a));
+    }
+  }
+
+  return to(anchors[anchors.length - 1]);
+}
@@ -0,0 +1,99 @@
+import { SearchIndex, parseQuery } from './search-index';
+
+function indexOf(...notes: { id: string; name?: string; teamId?: string; content: string }[]): SearchIndex {
+  const index = new SearchIndex();
+  notes.forEach(note => index.add({ name: note.id, ...note }));
+  return index;
+}
+
+describe('parseQuery', () => {
+  it('should split words and phrases and match the word being typed as a prefix', () => {
+    expect(parseQuery('"Pump station" Café repa')).toEqual([
+      { words: ['pump', 'station'], prefix: false },
+      { words: ['cafe'], prefix: false },
+      { words: ['repa'], prefix: true }
+    ]);
+    expect(parseQuery('inv* total ')).toEqual([
+      { words: ['inv'], prefix: true },
+      { words: ['total'], prefix: false }
+    ]);
+  });
+});
+
+describe('SearchIndex', () => {
+  it('should find notes containing every word, at the line of the match', () => {
+    const index = indexOf(
+      { id: 'a.md', content: '# Plans\n\nThe pump needs repair.\nOrder parts.' },
+      { id: 'b.md', content: 'The pump works.' }
+    );
+
+    const hits = index.search('pump repair');
+    expect(hits.map(hit => hit.id)).toEqual(['a.md']);
+    expect(hits[0].line).toBe(2);
+    expect(hits[0].snippet).toBe('The pump needs repair.');
+    expect(hits[0].highlights).toEqual([[4, 8], [15, 21]]);
+  });
+
+  it('should match phrases only when the words are adjacent', () => {
+    const index = indexOf(
+      { id: 'a.md', content: 'pump station north' },
+      { id: 'b.md', content: 'station of the pump' }
+    );
+
+    expect(index.search('"pump station"').map(hit => hit.id)).toEqual(['a.md']);
+    expect(index.search('"pump station"')[0].highlights).toEqual([[0, 12]]);
+  });
+
+  it('should match prefixes, ignoring case and accents', () => {
+    const index = indexOf({ id: 'a.md', content: 'Invoices from the Café' });
+
+    expect(index.search('INVOI').length).toBe(1);
+    expect(index.search('cafe').length).toBe(1);
+    expect(index.search('invoi ').length).toBe(0);
+  });
+
+  it('should rank notes with more matches and matching names first', () => {
+    const index = indexOf(
+      { id: 'a.md', content: 'budget' },
+      { id: 'b.md', content: 'budget budget budget and more budget' },
+      { id: 'Budget.md', content: 'numbers' }
+    );
+
+    expect(index.search('budget').map(hit => hit.id)).toEqual(['Budget.md', 'b.md', 'a.md']);
+  });
+
+  it('should filter by team and folder', () => {
+    const index = indexOf(
+      { id: '/t/Projects/a.md', name: 'Projects/a.md', teamId: 'team-1', content: 'roadmap' },
+      { id: '/t/b.md', name: 'b.md', teamId: 'team-1', content: 'roadmap' },
+      { id: '/p/a.md', name: 'a.md', content: 'roadmap' }
+    );
+
+    expect(index.search('roadmap', { teamId: 'team-1' }).length).toBe(2);
+    expect(index.search('roadmap', { teamId: null }).map(hit => hit.id)).toEqual(['/p/a.md']);
+    expect(index.search('roadmap', { folder: 'Projects' }).map(hit => hit.id)).toEqual(['/t/Projects/a.md']);
+  });
+
+  it('should update notes incrementally', () => {
+    const index = indexOf({ id: 'a.md', content: 'old text' });
+
+    index.add({ id: 'a.md', name: 'a.md', content: 'new text' });
+    expect(index.search('old').length).toBe(0);
+    expect(index.search('new').length).toBe(1);
+
+    index.rename('a.md', 'Archive/a.md', 'Archive/a.md');
+    expect(index.search('new')[0].id).toBe('Archive/a.md');
+
+    index.remove('Archive/a.md');
+    expect(index.search('text').length).toBe(0);
+    expect(index.size).toBe(0);
+  });
+
+  it('should shorten long lines around the match', () => {
+    const index = indexOf({ id: 'a.md', content: `${'word '.repeat(60)}needle ${'word '.repeat(60)}` });
+
+    const hit = index.search('needle')[0];
+    expect(hit.snippet.startsWith('…')).toBe(true);
+    expect(hit.snippet.substring(hit.highlights[0][0], hit.highlights[0][1])).toBe('needle');
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Full-text search index.
+ *
+ * An inverted index over note contents that is updated one note at a time,
+ * so saving, renaming or deleting a note never rebuilds it. Queries match
+ * every word (AND), "quoted phrases" match words next to each other, and a
+ * word ending in * as well as the word still being typed match as prefixes.
+ * Words are compared case- and accent-insensitively.
+ */
+
+/**
+ * A note to index
+ */
+export interface SearchDocument {
+  /** Unique id, the file path */
+  id: string;
+
+  /** Name relative to the notes directory, e.g. `Projects/Plan.md` */
+  name: string;
+
+  /** Team of the note; undefined for personal notes */
+  teamId?: string;
+
+  content: string;
+}
+
+/**
+ * Restricts a search to part of the notes
+ */
+export interface SearchFilters {
+  /** Only notes of this team, or only personal notes for null */
+  teamId?: string | null;
+
+  /** Only notes in this folder or its subfolders */
+  folder?: string;
+
+  /** Most hits returned; 50 when not given */
+  limit?: number;
+}
+
+/**
+ * A note matching a search
+ */
+export interface SearchHit {
+  id: string;
+  name: string;
+  teamId?: string;
+  score: number;
+
+  /** Line of the best match, counted from 0 */
+  line: number;
+
+  /** Text of that line around the match */
+  snippet: string;
+
+  /** Start and end offsets of the matched words in the snippet */
+  highlights: [number, number][];
+}
+
+/**
+ * A word or phrase of a query
+ */
+export interface QueryTerm {
+  /** Folded words; more than one for a phrase */
+  words: string[];
+
+  /** Whether the last word matches as a prefix */
+  prefix: boolean;
+}
+
+/** A word of a note and where it is */
+interface Token {
+  term: string;
+  line: number;
+  start: number;
+  end: number;
+}
+
+interface IndexedDocument {
+  doc: Omit<SearchDocument, 'content'>;
+  lines: string[];
+  tokens: Token[];
+  nameTerms: Set<string>;
+}
+
+/** Occurrences of a query term: token index of its first word, by document */
+type TermMatches = Map<string, number[]>;
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+
+/** BM25 document length normalization */
+const B = 0.75;
+
+/** Longest snippet, in characters */
+const SNIPPET_LENGTH = 140;
+
+/** Characters kept before the first match in a shortened snippet */
+const SNIPPET_LEAD = 40;
+
+const WORD = /[\p{L}\p{N}_]+/gu;
+
+/**
+ * Lowercases a word and strips its accents, so "Café" finds "cafe"
+ */
+export function foldWord(word: string): string {
+  return word.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+/**
+ * Splits a query into words and phrases
+ */
+export function parseQuery(query: string): QueryTerm[] {
+  const terms: QueryTerm[] = [];
+  const parts = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = parts.exec(query)) !== null) {
+    const isPhrase = match[1] !== undefined;
+    const text = isPhrase ? match[1] : match[2];
+    const words = (text.match(WORD) || []).map(foldWord);
+    if (words.length === 0) {
+      continue;
+    }
+
+    // Punctuated words such as "e-mail" become a phrase of their parts
+    const isLast = parts.lastIndex === query.length;
+    terms.push({ words, prefix: text.endsWith('*') || (!isPhrase && isLast) });
+  }
+
+  return terms;
+}
+
+/**
+ * Inverted index of notes, updated incrementally
+ */
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+
+  /** Document ids and token positions of every word */
+  private postings = new Map<string, Map<string, number[]>>();
+
+  /** Every indexed word in order, for prefix lookups; rebuilt when words were added */
+  private sortedTerms: string[] | null = null;
+
+  private totalTokens = 0;
+
+  /** Number of indexed notes */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /** Ids of every indexed note */
+  ids(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
+  /**
+   * An indexed note with its content
+   */
+  get(id: string): SearchDocument | null {
+    const indexed = this.documents.get(id);
+    return indexed ? { ...indexed.doc, content: indexed.lines.join('\n') } : null;
+  }
+
+  /**
+   * Adds a note, replacing what was indexed under its id before
+   */
+  add(document: SearchDocument): void {
+    this.remove(document.id);
+
+    const lines = document.content.split('\n');
+    const tokens: Token[] = [];
+    lines.forEach((text, line) => {
+      for (const match of text.matchAll(WORD)) {
+        tokens.push({ term: foldWord(match[0]), line, start: match.index!, end: match.index! + match[0].length });
+      }
+    });
+
+    const { content, ...doc } = document;
+    this.documents.set(document.id, {
+      doc,
+      lines,
+      tokens,
+      nameTerms: new Set((document.name.match(WORD) || []).map(foldWord))
+    });
+
+    tokens.forEach((token, position) => {
+      let documents = this.postings.get(token.term);
+      if (!documents) {
+        documents = new Map();
+        this.postings.set(token.term, documents);
+        this.sortedTerms = null;
+      }
+
+      const positions = documents.get(document.id);
+      if (positions) {
+        positions.push(position);
+      } else {
+        documents.set(document.id, [position]);
+      }
+    });
+    this.totalTokens += tokens.length;
+  }
+
+  /**
+   * Moves a note to a new id and name, e.g. after it was renamed, without reindexing its content
+   */
+  rename(id: string, newId: string, newName: string, teamId?: string): void {
+    const indexed = this.documents.get(id);
+    if (!indexed) {
+      return;
+    }
+
+    const content = indexed.lines.join('\n');
+    this.remove(id);
+    this.add({ id: newId, name: newName, teamId, content });
+  }
+
+  remove(id: string): void {
+    const indexed = this.documents.get(id);
+    if (!indexed) {
+      return;
+    }
+
+    for (const token of indexed.tokens) {
+      const documents = this.postings.get(token.term);
+      if (documents?.delete(id) && documents.size === 0) {
+        this.postings.delete(token.term);
+        this.sortedTerms = null;
+      }
+    }
+
+    this.totalTokens -= indexed.tokens.length;
+    this.documents.delete(id);
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.sortedTerms = null;
+    this.totalTokens = 0;
+  }
+
+  /**
+   * Finds the notes matching every word and phrase of a query, best first
+   */
+  search(query: string, filters: SearchFilters = {}): SearchHit[] {
+    const terms = parseQuery(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const candidates = Array.from(this.documents.values()).filter(indexed => this.passes(indexed, filters));
+    const averageLength = this.documents.size > 0 ? this.totalTokens / this.documents.size : 0;
+    const termMatches = terms.map(term => this.matchesOf(term));
+
+    const hits: SearchHit[] = [];
+    for (const indexed of candidates) {
+      const id = indexed.doc.id;
+      const inName = terms.map(term => this.matchesName(indexed, term));
+      if (!terms.every((term, i) => termMatches[i].has(id) || inName[i])) {
+        continue;
+      }
+
+      let score = 0;
+      terms.forEach((term, i) => {
+        const frequency = termMatches[i].get(id)?.length ?? 0;
+        const idf = Math.log(1 + (this.documents.size + 1) / (termMatches[i].size + 1));
+        const saturation = (frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + B * indexed.tokens.length / (averageLength || 1)));
+        score += idf * saturation * term.words.length * (term.prefix ? 0.8 : 1);
+        if (inName[i]) {
+          score += 2 * idf;
+        }
+      });
+
+      const positions = termMatches.map((matches, i) => ({ term: terms[i], positions: matches.get(id) ?? [] }));
+      hits.push({ ...indexed.doc, score, ...this.snippetOf(indexed, positions) });
+    }
+
+    return hits
+      .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+      .slice(0, filters.limit ?? 50);
+  }
+
+  private passes(indexed: IndexedDocument, filters: SearchFilters): boolean {
+    if (filters.teamId !== undefined && (indexed.doc.teamId ?? null) !== filters.teamId) {
+      return false;
+    }
+    return !filters.folder || indexed.doc.name.startsWith(`${filters.folder}/`);
+  }
+
+  /**
+   * Where a word or phrase occurs, by document
+   */
+  private matchesOf(term: QueryTerm): TermMatches {
+    const last = term.words.length - 1;
+    const first = this.postingsOf(term.words[0], term.prefix && last === 0);
+    if (last === 0) {
+      return first;
+    }
+
+    const matches: TermMatches = new Map();
+    first.forEach((positions, id) => {
+      const tokens = this.documents.get(id)!.tokens;
+      const found = positions.filter(position => term.words.every((word, offset) => {
+        const token = tokens[position + offset];
+        if (!token) {
+          return false;
+        }
+        return term.prefix && offset === last ? token.term.startsWith(word) : token.term === word;
+      }));
+      if (found.length > 0) {
+        matches.set(id, found);
+      }
+    });
+    return matches;
+  }
+
+  /**
+   * Positions of a word, or of every word it starts, by document
+   */
+  private postingsOf(word: string, prefix: boolean): TermMatches {
+    if (!prefix) {
+      return this.postings.get(word) ?? new Map();
+    }
+
+    const merged: TermMatches = new Map();
+    for (const term of this.termsStartingWith(word)) {
+      this.postings.get(term)!.forEach((positions, id) => {
+        merged.set(id, [...(merged.get(id) ?? []), ...positions]);
+      });
+    }
+    merged.forEach(positions => positions.sort((a, b) => a - b));
+    return merged;
+  }
+
+  private termsStartingWith(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+
+    const terms = this.sortedTerms;
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (terms[middle] < prefix) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    const found: string[] = [];
+    for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) {
+      found.push(terms[i]);
+    }
+    return found;
+  }
+
+  private matchesName(indexed: IndexedDocument, term: QueryTerm): boolean {
+    return term.words.every((word, i) => term.prefix && i === term.words.length - 1
+      ? Array.from(indexed.nameTerms).some(name => name.startsWith(word))
+      : indexed.nameTerms.has(word));
+  }
+
+  /**
+   * Picks the line matching the most query terms and cuts the snippet around its first match
+   */
+  private snippetOf(
+    indexed: IndexedDocument,
+    matches: { term: QueryTerm; positions: number[] }[]
+  ): Pick<SearchHit, 'line' | 'snippet' | 'highlights'> {
+    // Matched token ranges and which query terms each line contains
+    const ranges = new Map<number, [number, number][]>();
+    const termsByLine = new Map<number, Set<number>>();
+    matches.forEach(({ term, positions }, termIndex) => {
+      for (const position of positions) {
+        const first = indexed.tokens[position];
+        const lastToken = indexed.tokens[position + term.words.length - 1];
+        const end = lastToken.line === first.line ? lastToken.end : indexed.lines[first.line].length;
+        ranges.set(first.line, [...(ranges.get(first.line) ?? []), [first.start, end]]);
+        termsByLine.set(first.line, (termsByLine.get(first.line) ?? new Set()).add(termIndex));
+      }
+    });
+
+    let line = -1;
+    termsByLine.forEach((terms, candidate) => {
+      const best = termsByLine.get(line)?.size ?? 0;
+      if (terms.size > best || (terms.size === best && candidate < line)) {
+        line = candidate;
+      }
+    });
+
+    // Only the name matched: show the first line with text
+    if (line === -1) {
+      line = Math.max(0, indexed.lines.findIndex(text => text.trim() !== ''));
+      return { line, snippet: indexed.lines[line]?.trim().substring(0, SNIPPET_LENGTH) ?? '', highlights: [] };
+    }
+
+    const text = indexed.lines[line];
+    const lineRanges = ranges.get(line)!.sort((a, b) => a[0] - b[0]);
+    const start = text.length <= SNIPPET_LENGTH ? 0 : Math.max(0, Math.min(lineRanges[0][0] - SNIPPET_LEAD, text.length - SNIPPET_LENGTH));
+    const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+    const lead = start > 0 ? '…' : '';
+    return {
+      line,
+      snippet: lead + text.substring(start, end) + (end < text.length ? '…' : ''),
+      highlights: lineRanges
+        .filter(([from, to]) => from >= start && to <= end)
+        .map(([from, to]): [number, number] => [from - start + lead.length, to - start + lead.length])
+    };
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Search service.
+ *
+ * Keeps a full-text index of every note on this device: the notes in browser
+ * storage, the team directories on desktop and the Laminotes and team folders
+ * in the Capacitor documents. Notes are read once, then kept in step with the
+ * saves, renames and deletions made in the app and, on desktop, with changes
+ * other programs make to the open directory.
+ */
+import { Injectable } from '@angular/core';
+import { Observable, concat, from, of } from 'rxjs';
+import { catchError, concatMap, map, switchMap, toArray } from 'rxjs/operators';
+
+import { FileChange, FileInfo, FileService } from './file.service';
+import { ElectronService } from './electron.service';
+import { CapacitorService } from './capacitor.service';
+import { TeamService } from './team.service';
+import { Team } from '../models/team.model';
+import { SearchFilters, SearchHit, SearchIndex } from './search-index';
+import { findWikiLinks, resolveWikiLink } from './wikilinks';
+
+/**
+ * Notes of one directory or of the browser storage
+ */
+interface NoteListing {
+  /** Directory the notes were listed from; null for the current file list */
+  directory: string | null;
+
+  files: FileInfo[];
+
+  /** Team of notes that don't record their own */
+  teamId?: string;
+}
+
+/**
+ * A note linking to another one
+ */
+export interface Backlink {
+  /** Path of the linking note */
+  id: string;
+
+  name: string;
+
+  /** Line of its first link to the note, counted from 0 */
+  line: number;
+
+  /** Text of that line */
+  snippet: string;
+}
+
+/**
+ * Full-text search over every note on this device
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SearchService {
+  private index = new SearchIndex();
+
+  constructor(
+    private fileService: FileService,
+    private electronService: ElectronService,
+    private capacitorService: CapacitorService,
+    private teamService: TeamService
+  ) {
+    this.fileService.fileChanges$.subscribe(change => this.onFileChange(change));
+    this.electronService.directoryChanges$.subscribe(change => this.onDirectoryChanged(change));
+  }
+
+  /** Number of indexed notes */
+  get size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * Searches the indexed notes, best matches first
+   */
+  search(query: string, filters: SearchFilters = {}): SearchHit[] {
+    return this.index.search(query, filters);
+  }
+
+  /**
+   * Notes of the same team whose `[[links]]` lead to a note, not to another one sharing its title.
+   * Only indexed notes are found, so refresh first.
+   */
+  backlinks(file: FileInfo): Backlink[] {
+    const teamId = this.teamOf(file) ?? null;
+    // Links are resolved the way the editor follows them
+    const notes = this.fileService.filesInDirectory.filter(note => (this.teamOf(note) ?? null) === teamId);
+    const backlinks: Backlink[] = [];
+
+    for (const id of this.index.ids()) {
+      const note = this.index.get(id)!;
+      if (id === file.path || (note.teamId ?? null) !== teamId) {
+        continue;
+      }
+
+      const link = findWikiLinks(note.content).find(entry => resolveWikiLink(entry.target, notes)?.name === file.name);
+      if (link) {
+        const lineStart = note.content.lastIndexOf('\n', link.start) + 1;
+        const lineEnd = note.content.indexOf('\n', link.start);
+        backlinks.push({
+          id,
+          name: note.name,
+          line: note.content.substring(0, link.start).split('\n').length - 1,
+          snippet: note.content.substring(lineStart, lineEnd === -1 ? undefined : lineEnd).trim()
+        });
+      }
+    }
+
+    return backlinks.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true }));
+  }
+
+  /**
+   * Indexes the notes that aren't indexed yet and drops the ones gone from their directory
+   *
+   * @param teams - Teams of the user; their directories are indexed besides the one shown now
+   * @returns Observable of the number of indexed notes, once done
+   */
+  refresh(teams: Team[]): Observable<number> {
+    const listings = [this.currentListing(), ...this.teamListings(teams)];
+
+    return concat(...listings.map(listing => listing.pipe(
+      switchMap(found => this.indexListing(found)),
+      catchError(error => {
+        console.warn('⚠️ Could not index a notes directory:', error);
+        return of(undefined);
+      })
+    ))).pipe(
+      toArray(),
+      map(() => {
+        console.log(`✅ Search index holds ${this.index.size} notes`);
+        return this.index.size;
+      })
+    );
+  }
+
+  private currentListing(): Observable<NoteListing> {
+    const onDevice = this.electronService.isElectron() || this.capacitorService.isCapacitor();
+    return of({
+      directory: onDevice ? this.fileService.currentDirectory : null,
+      files: this.fileService.filesInDirectory,
+      teamId: onDevice ? this.teamService.activeTeam?.id : undefined
+    });
+  }
+
+  /**
+   * Directories of the personal and team notes other than the one shown now.
+   * Browser notes of every team are all in the current file list.
+   */
+  private teamListings(teams: Team[]): Observable<NoteListing>[] {
+    const current = this.fileService.currentDirectory;
+
+    if (this.electronService.isElectron()) {
+      return teams
+        .map(team => ({ team, directory: this.teamService.getTeamDirectory(team.id) }))
+        .filter(({ directory }) => directory && directory !== current)
+        .map(({ team, directory }) => this.electronService.checkFileExists(directory!).pipe(
+          // Reading a directory that doesn't exist would open the folder picker instead
+          switchMap(exists => exists ? this.electronService.selectDirectory(directory) : of({ success: false })),
+          map(result => ({ directory, files: result.success ? result.files || [] : [], teamId: team.id }))
+        ));
+    }
+
+    if (this.capacitorService.isCapacitor()) {
+      const directories: { directory: string; team?: Team }[] = [
+        { directory: 'Laminotes' },
+        ...teams.map(team => ({ directory: this.teamService.getTeamDirectory(team.id) || `Teams/${team.name}`, team }))
+      ];
+      return directories
+        .filter(({ directory }) => directory !== current)
+        .map(({ directory, team }) => this.capacitorService.listDirectory(directory, team).pipe(
+          map(result => ({ directory, files: result.files || [], teamId: team?.id }))
+        ));
+    }
+
+    return [];
+  }
+
+  /**
+   * Reads the notes of a listing that aren't indexed yet, one at a time
+   */
+  private indexListing(listing: NoteListing): Observable<void> {
+    const listed = new Set(listing.files.map(file => file.path));
+    if (listing.directory) {
+      this.index.ids()
+        .filter(id => id.startsWith(`${listing.directory}/`) && !listed.has(id))
+        .forEach(id => this.index.remove(id));
+    }
+
+    const unread = listing.files.filter(file => !this.index.has(file.path) && !file.isBinary && !this.fileService.isImageFile(file));
+    return from(unread).pipe(
+      concatMap(file => this.fileService.readNote(file).pipe(
+        map(content => {
+          if (content !== null) {
+            this.index.add({ id: file.path, name: file.name, teamId: file.team_id ?? listing.teamId, content });
+          }
+        })
+      )),
+      toArray(),
+      map(() => undefined)
+    );
+  }
+
+  private onFileChange(change: FileChange): void {
+    const file = change.file;
+    switch (change.type) {
+      case 'saved':
+        this.index.add({ id: file.path, name: file.name, teamId: this.teamOf(file), content: change.content || '' });
+        break;
+
+      case 'renamed':
+        this.index.rename(change.previous!.path, file.path, file.name, this.teamOf(file));
+        break;
+
+      case 'deleted':
+        this.index.remove(file.path);
+        break;
+    }
+  }
+
+  /**
+   * Follows changes other programs make in the open directory on desktop
+   */
+  private onDirectoryChanged(change: ElectronDirectoryChange): void {
+    if (change.type === 'unlink') {
+      this.index.remove(change.path);
+      return;
+    }
+
+    // Notes not indexed yet are read on the next refresh
+    if (change.type === 'change' && !this.index.has(change.path)) {
+      return;
+    }
+
+    this.electronService.readFile(change.path).subscribe(content => {
+      if (content !== null) {
+        this.index.add({ id: change.path, name: change.name, teamId: this.teamService.activeTeam?.id, content });
+      }
+    });
+  }
+
+  /**
+   * Team of a note; notes in a directory on disk belong to the team whose directory is shown
+   */
+  private teamOf(file: FileInfo): string | undefined {
+    const onDevice = this.electronService.isElectron() || this.capacitorService.isCapacitor();
+    return file.team_id ?? (onDevice ? this.teamService.activeTeam?.id : undefined);
+  }
+}
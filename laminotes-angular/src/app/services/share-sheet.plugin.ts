@@ -0,0 +1,23 @@
+/**
+ * Share sheet plugin.
+ *
+ * Interface of the native ShareSheet plugin in ios/App/App. The Laminotes
+ * share extension leaves whatever is shared to it in the app group container;
+ * the plugin hands it over and raises `sharedContentAvailable` when the app
+ * becomes active with shares waiting. It also shows the system share sheet
+ * for a file, which is how notes are sent to other apps.
+ */
+import { PluginListenerHandle, registerPlugin } from '@capacitor/core';
+import { SharedContent } from './shared-content';
+
+export interface ShareSheetPlugin {
+  /** Returns the content shared since the last call, oldest first; each share is returned once */
+  takeSharedContent(): Promise<{ shares: SharedContent[] }>;
+
+  /** Shows the share sheet for a file made from text, or base64 data when binary is set */
+  shareFile(options: { fileName: string; data: string; binary?: boolean }): Promise<{ completed: boolean }>;
+
+  addListener(eventName: 'sharedContentAvailable', listener: () => void): Promise<PluginListenerHandle>;
+}
+
+export const ShareSheet = registerPlugin<ShareSheetPlugin>('ShareSheet');
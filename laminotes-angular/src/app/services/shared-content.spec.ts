@@ -0,0 +1,56 @@
+import { SharedContent, describeSharedContent, sharedContentToMarkdown, sharedNoteName } from './shared-content';
+
+function share(comment: string, items: SharedContent['items']): SharedContent {
+  return { id: 'share-1', createdAt: 1700000000000, comment, items };
+}
+
+describe('sharedContentToMarkdown', () => {
+  it('should write the comment and items in the order they were shared', () => {
+    const markdown = sharedContentToMarkdown(share('Site visit', [
+      { type: 'text', text: '  Pump 3 is leaking.\n' },
+      { type: 'url', url: 'https://example.com/manual', title: 'Pump [v2] manual' },
+      { type: 'image', name: 'IMG_0042', mimeType: 'image/jpeg', data: '/9j/4AAQ' }
+    ]));
+
+    expect(markdown).toBe(
+      'Site visit\n\n' +
+      'Pump 3 is leaking.\n\n' +
+      '[Pump \\[v2\\] manual](<https://example.com/manual>)\n\n' +
+      '![IMG_0042](data:image/jpeg;base64,/9j/4AAQ)'
+    );
+  });
+
+  it('should use the address of a link without a title', () => {
+    expect(sharedContentToMarkdown(share('', [{ type: 'url', url: 'https://example.com/a', title: '' }])))
+      .toBe('[https://example.com/a](<https://example.com/a>)');
+  });
+});
+
+describe('describeSharedContent', () => {
+  it('should count the shared items', () => {
+    expect(describeSharedContent(share('', [
+      { type: 'image', data: 'a' },
+      { type: 'image', data: 'b' },
+      { type: 'url', url: 'https://example.com' }
+    ]))).toBe('a link and 2 images');
+    expect(describeSharedContent(share('Just a thought', []))).toBe('a comment');
+  });
+});
+
+describe('sharedNoteName', () => {
+  it('should name the note after the comment or the text', () => {
+    expect(sharedNoteName(share('Site visit: pump 3\nmore', []), [])).toBe('Site visit- pump 3.md');
+    expect(sharedNoteName(share('', [{ type: 'text', text: '# Shopping list\n- milk' }]), [])).toBe('Shopping list.md');
+  });
+
+  it('should fall back to the link and then to the kind of content', () => {
+    expect(sharedNoteName(share('', [{ type: 'url', url: 'https://www.example.com/a', title: '' }]), [])).toBe('example.com.md');
+    expect(sharedNoteName(share('', [{ type: 'image', data: 'a' }]), [])).toBe('Shared image.md');
+  });
+
+  it('should shorten long names and keep them unique', () => {
+    const long = 'x'.repeat(100);
+    expect(sharedNoteName(share(long, []), [])).toBe(`${'x'.repeat(60)}.md`);
+    expect(sharedNoteName(share('Notes', []), ['notes.md', 'Notes 2.md'])).toBe('Notes 3.md');
+  });
+});
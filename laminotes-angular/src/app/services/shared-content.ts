@@ -0,0 +1,146 @@
+/**
+ * Shared content.
+ *
+ * Text, links and images other apps share to Laminotes through the system
+ * share sheet, and how they are written into a note.
+ */
+
+/**
+ * One thing shared from another app
+ */
+export interface SharedItem {
+  type: 'text' | 'url' | 'image';
+
+  /** Shared text, for 'text' */
+  text?: string;
+
+  /** Web address, for 'url' */
+  url?: string;
+
+  /** Page title sent along with a link; may be empty */
+  title?: string;
+
+  /** File name of an image, without extension */
+  name?: string;
+
+  /** MIME type of an image */
+  mimeType?: string;
+
+  /** Image content, base64 encoded */
+  data?: string;
+}
+
+/**
+ * Everything shared in one go from the share sheet
+ */
+export interface SharedContent {
+  id: string;
+
+  /** When it was shared, in milliseconds */
+  createdAt: number;
+
+  /** What the user typed into the share sheet; may be empty */
+  comment: string;
+
+  items: SharedItem[];
+}
+
+/** Longest note name made from shared content, without extension */
+const MAX_NAME_LENGTH = 60;
+
+/** Characters not allowed in file names on any of our platforms */
+const INVALID_NAME_CHARACTERS = /[\/\\:*?"<>|]/g;
+
+/**
+ * Writes shared content as markdown: the comment, then every item in the order it was shared
+ */
+export function sharedContentToMarkdown(share: SharedContent): string {
+  const blocks: string[] = [];
+
+  if (share.comment.trim()) {
+    blocks.push(share.comment.trim());
+  }
+
+  for (const item of share.items) {
+    if (item.type === 'text' && item.text?.trim()) {
+      blocks.push(item.text.trim());
+    } else if (item.type === 'url' && item.url) {
+      const title = item.title?.trim() || item.url;
+      blocks.push(`[${escapeLinkText(title)}](<${item.url}>)`);
+    } else if (item.type === 'image' && item.data) {
+      const alt = escapeLinkText(item.name || 'Shared image');
+      blocks.push(`![${alt}](data:${item.mimeType || 'image/jpeg'};base64,${item.data})`);
+    }
+  }
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Short description of shared content, e.g. "2 images and a link"
+ */
+export function describeSharedContent(share: SharedContent): string {
+  const count = (type: SharedItem['type']) => share.items.filter(item => item.type === type).length;
+  const parts = [
+    counted(count('text'), 'text', 'texts'),
+    counted(count('url'), 'link', 'links'),
+    counted(count('image'), 'image', 'images')
+  ].filter(part => part);
+
+  if (parts.length === 0) {
+    return share.comment.trim() ? 'a comment' : 'nothing';
+  }
+  return parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+}
+
+/**
+ * File name for a note made from shared content
+ * @param share The shared content
+ * @param existingNames Names already used in the folder the note goes into
+ * @returns A name like "Meeting notes.md", made unique with a number
+ */
+export function sharedNoteName(share: SharedContent, existingNames: string[]): string {
+  const firstLine = (text: string | undefined) => (text || '').trim().split('\n')[0].replace(/^#+\s*/, '').trim();
+  const text = share.items.find(item => item.type === 'text' && item.text?.trim());
+  const link = share.items.find(item => item.type === 'url' && item.url);
+
+  let title = firstLine(share.comment) || firstLine(text?.text);
+  if (!title && link) {
+    title = link.title?.trim() || hostOf(link.url!);
+  }
+  if (!title) {
+    title = share.items.some(item => item.type === 'image') ? 'Shared image' : 'Shared note';
+  }
+
+  let base = title.replace(INVALID_NAME_CHARACTERS, '-').replace(/\s+/g, ' ').trim();
+  if (base.length > MAX_NAME_LENGTH) {
+    base = base.substring(0, MAX_NAME_LENGTH).trim();
+  }
+  base = base.replace(/^\.+/, '') || 'Shared note';
+
+  const taken = new Set(existingNames.map(name => name.toLowerCase()));
+  let name = `${base}.md`;
+  for (let number = 2; taken.has(name.toLowerCase()); number++) {
+    name = `${base} ${number}.md`;
+  }
+  return name;
+}
+
+function escapeLinkText(text: string): string {
+  return text.replace(/([\[\]\\])/g, '\\$1').replace(/\s+/g, ' ');
+}
+
+function counted(count: number, singular: string, plural: string): string {
+  if (count === 0) {
+    return '';
+  }
+  return count === 1 ? `a ${singular}` : `${count} ${plural}`;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,33 @@
+import { TestBed } from '@angular/core/testing';
+
+import { SlashCommand, SlashCommandRegistryService } from './slash-command-registry.service';
+
+describe('SlashCommandRegistryService', () => {
+  let service: SlashCommandRegistryService;
+
+  const command = (id: string, label = id): SlashCommand => ({ id, label, insert: () => id });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(SlashCommandRegistryService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should offer the built-in blocks', () => {
+    expect(service.commands().map(entry => entry.id))
+      .toEqual(['table', 'tasks', 'mermaid', 'note', 'tip', 'warning', 'date']);
+  });
+
+  it('should replace commands registered again and remove them on unregister', () => {
+    service.register(command('image'));
+    const unregister = service.register(command('table', 'Grid'));
+
+    expect(service.commands().slice(-2).map(entry => entry.label)).toEqual(['image', 'Grid']);
+
+    unregister();
+    expect(service.commands().some(entry => entry.id === 'table')).toBe(false);
+  });
+});
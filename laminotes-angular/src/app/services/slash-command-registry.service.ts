@@ -0,0 +1,129 @@
+/**
+ * Slash command registry service.
+ *
+ * Holds the blocks offered when `/` is typed in the editor. Tables, task
+ * lists, diagrams, callouts and dates come built in; other features register
+ * their own commands the same way, and remove them when they go away.
+ */
+import { Injectable } from '@angular/core';
+
+/** Marks where the caret goes in a command's text */
+export const SLASH_CURSOR = '{cursor}';
+
+/**
+ * A block that can be inserted from the `/` menu
+ */
+export interface SlashCommand {
+  /** Unique id, typed after the slash, e.g. 'table'; registering an id again replaces the command */
+  id: string;
+
+  /** Label shown in the menu, e.g. 'Table' */
+  label: string;
+
+  /** Short description shown next to the label */
+  description?: string;
+
+  /** Other words the command is found by */
+  keywords?: string[];
+
+  /**
+   * Markdown put in place of the typed `/command`, with SLASH_CURSOR where
+   * the caret goes; blocks of several lines start on a line of their own
+   */
+  insert?: () => string;
+
+  /** Runs instead of inserting text, once the typed `/command` is removed */
+  run?: () => void;
+}
+
+/**
+ * Registry of the commands in the editor's `/` menu
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SlashCommandRegistryService {
+  private registered: SlashCommand[] = [];
+
+  constructor() {
+    this.register(...BUILT_IN_COMMANDS);
+  }
+
+  /**
+   * Adds commands, replacing registered ones with the same id
+   * @returns A function removing the commands again
+   */
+  register(...commands: SlashCommand[]): () => void {
+    const ids = new Set(commands.map(command => command.id));
+    this.registered = [...this.registered.filter(command => !ids.has(command.id)), ...commands];
+
+    return () => this.unregister(...commands.map(command => command.id));
+  }
+
+  unregister(...ids: string[]): void {
+    this.registered = this.registered.filter(command => !ids.includes(command.id));
+  }
+
+  /**
+   * Every registered command, in the order they were registered
+   */
+  commands(): SlashCommand[] {
+    return this.registered;
+  }
+}
+
+const BUILT_IN_COMMANDS: SlashCommand[] = [
+  {
+    id: 'table',
+    label: 'Table',
+    description: 'Three columns with a header row',
+    keywords: ['grid', 'columns'],
+    insert: () => `| ${SLASH_CURSOR}Column 1 | Column 2 | Column 3 |\n| --- | --- | --- |\n|  |  |  |\n`
+  },
+  {
+    id: 'tasks',
+    label: 'Task list',
+    description: 'Items to tick off',
+    keywords: ['todo', 'checklist', 'checkbox'],
+    insert: () => `- [ ] ${SLASH_CURSOR}\n`
+  },
+  {
+    id: 'mermaid',
+    label: 'Mermaid diagram',
+    description: 'Flowchart drawn in the preview',
+    keywords: ['diagram', 'flowchart', 'chart'],
+    insert: () => `\`\`\`mermaid\nflowchart TD\n    ${SLASH_CURSOR}A[Start] --> B[End]\n\`\`\`\n`
+  },
+  {
+    id: 'note',
+    label: 'Note callout',
+    description: 'Quote marked as a note',
+    keywords: ['callout', 'info', 'admonition'],
+    insert: () => `> [!NOTE]\n> ${SLASH_CURSOR}\n`
+  },
+  {
+    id: 'tip',
+    label: 'Tip callout',
+    description: 'Quote marked as a tip',
+    keywords: ['callout', 'hint', 'admonition'],
+    insert: () => `> [!TIP]\n> ${SLASH_CURSOR}\n`
+  },
+  {
+    id: 'warning',
+    label: 'Warning callout',
+    description: 'Quote marked as a warning',
+    keywords: ['callout', 'caution', 'admonition'],
+    insert: () => `> [!WARNING]\n> ${SLASH_CURSOR}\n`
+  },
+  {
+    id: 'date',
+    label: 'Date',
+    description: 'Today as YYYY-MM-DD',
+    keywords: ['today'],
+    insert: () => {
+      const today = new Date();
+      const pad = (value: number) => String(value).padStart(2, '0');
+      return `${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`;
+    }
+  }
+];
@@ -0,0 +1,28 @@
+import { TestBed } from '@angular/core/testing';
+
+import { StorageService } from './storage.service';
+
+describe('StorageService', () => {
+  let service: StorageService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(StorageService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should convert base64 data URLs to blobs', () => {
+    const blob = service.dataUrlToBlob('data:image/png;base64,AAEC');
+
+    expect(blob).not.toBeNull();
+    expect(blob!.type).toBe('image/png');
+    expect(blob!.size).toBe(3);
+  });
+
+  it('should reject strings that are not data URLs', () => {
+    expect(service.dataUrlToBlob('![image](data:image/png;base64,AAEC)')).toBeNull();
+  });
+});
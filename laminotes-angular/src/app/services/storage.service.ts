@@ -0,0 +1,426 @@
+/**
+ * Local storage service.
+ *
+ * Key-value storage for notes, metadata and images backed by IndexedDB, which
+ * is not bound by the few megabytes localStorage allows. Entries are loaded
+ * into memory once at startup so reads stay synchronous; writes update memory
+ * immediately and are persisted in the background, in order.
+ * Falls back to localStorage where IndexedDB is unavailable.
+ */
+import { Injectable } from '@angular/core';
+import { NotificationService } from './notification.service';
+
+/**
+ * An image kept in the image store
+ */
+export interface StoredImage {
+  /** Image bytes */
+  blob: Blob;
+
+  /** Original file name or alt text */
+  name?: string;
+}
+
+/**
+ * Storage usage as reported by the browser
+ */
+export interface StorageUsage {
+  /** Bytes used by this origin */
+  usage: number;
+
+  /** Bytes available to this origin */
+  quota: number;
+}
+
+/**
+ * Service responsible for persisting local data
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StorageService {
+  private readonly DB_NAME = 'laminotes';
+  private readonly DB_VERSION = 1;
+
+  /** Object store for text entries (notes, file list, metadata) */
+  private readonly ENTRY_STORE = 'entries';
+
+  /** Object store for binary images */
+  private readonly IMAGE_STORE = 'images';
+
+  /** Set in localStorage once existing keys have been moved to IndexedDB */
+  private readonly MIGRATION_FLAG = 'laminotes_idb_migrated';
+
+  /** localStorage keys that belong in this store */
+  private readonly MIGRATED_PREFIXES = ['laminotes_files', 'file_', 'metadata_', 'laminotes_img_', 'image_data_', 'autosave_buffer_'];
+
+  /** Prefix of keys holding images */
+  private readonly IMAGE_PREFIX = 'laminotes_img_';
+
+  private db: IDBDatabase | null = null;
+  private initialized: Promise<void> | null = null;
+  private entries = new Map<string, string>();
+  private images = new Map<string, StoredImage>();
+  private imageUrls = new Map<string, string>();
+  private quotaWarningShown = false;
+
+  constructor(private notificationService: NotificationService) {}
+
+  /**
+   * Opens the database, migrates localStorage data on first run and loads
+   * all entries into memory. Runs once, before the app starts.
+   */
+  init(): Promise<void> {
+    if (!this.initialized) {
+      this.initialized = this.openDatabase()
+        .then(db => {
+          this.db = db;
+          return this.migrateFromLocalStorage();
+        })
+        .then(() => this.loadAll())
+        .then(() => console.log(`✅ Storage ready: ${this.entries.size} entries, ${this.images.size} images`))
+        .catch(error => {
+          console.error('❌ IndexedDB unavailable, falling back to localStorage:', error);
+          this.db = null;
+          this.loadFromLocalStorage();
+        });
+    }
+    return this.initialized;
+  }
+
+  /**
+   * Whether data is stored in IndexedDB (false when using the localStorage fallback)
+   */
+  get isIndexedDb(): boolean {
+    return this.db !== null;
+  }
+
+  /**
+   * Returns a stored text entry, or null if there is none
+   * @param key Entry key
+   */
+  getItem(key: string): string | null {
+    return this.entries.has(key) ? this.entries.get(key)! : null;
+  }
+
+  /**
+   * Stores a text entry
+   * @param key Entry key
+   * @param value Text to store
+   */
+  setItem(key: string, value: string): void {
+    this.entries.set(key, value);
+
+    if (!this.db) {
+      this.writeLocalStorage(key, value);
+      return;
+    }
+
+    this.write(this.ENTRY_STORE, store => store.put(value, key), key);
+  }
+
+  /**
+   * Removes a text entry
+   * @param key Entry key
+   */
+  removeItem(key: string): void {
+    this.entries.delete(key);
+
+    if (!this.db) {
+      localStorage.removeItem(key);
+      return;
+    }
+
+    this.write(this.ENTRY_STORE, store => store.delete(key), key);
+  }
+
+  /**
+   * Lists the keys of text entries
+   * @param prefix Only return keys starting with this prefix
+   */
+  keys(prefix: string = ''): string[] {
+    return Array.from(this.entries.keys()).filter(key => key.startsWith(prefix));
+  }
+
+  /**
+   * Stores an image
+   * @param key Image key
+   * @param blob Image bytes
+   * @param name Original file name or alt text
+   */
+  putImage(key: string, blob: Blob, name?: string): void {
+    this.revokeImageUrl(key);
+    const image: StoredImage = { blob, name };
+    this.images.set(key, image);
+
+    if (!this.db) {
+      // localStorage only holds strings
+      this.blobToDataUrl(blob)
+        .then(dataUrl => this.writeLocalStorage(key, dataUrl))
+        .catch(error => this.handleWriteError(key, error));
+      return;
+    }
+
+    this.write(this.IMAGE_STORE, store => store.put(image, key), key);
+  }
+
+  /**
+   * Returns a stored image, or null if there is none
+   * @param key Image key
+   */
+  getImage(key: string): StoredImage | null {
+    return this.images.get(key) || null;
+  }
+
+  /**
+   * Returns an object URL for a stored image, usable as an img src
+   * @param key Image key
+   */
+  getImageUrl(key: string): string | null {
+    const image = this.images.get(key);
+    if (!image) {
+      return null;
+    }
+
+    let url = this.imageUrls.get(key);
+    if (!url) {
+      url = URL.createObjectURL(image.blob);
+      this.imageUrls.set(key, url);
+    }
+    return url;
+  }
+
+  /**
+   * Removes a stored image
+   * @param key Image key
+   */
+  removeImage(key: string): void {
+    this.revokeImageUrl(key);
+    this.images.delete(key);
+
+    if (!this.db) {
+      localStorage.removeItem(key);
+      return;
+    }
+
+    this.write(this.IMAGE_STORE, store => store.delete(key), key);
+  }
+
+  /**
+   * Lists the keys of stored images
+   */
+  imageKeys(): string[] {
+    return Array.from(this.images.keys());
+  }
+
+  /**
+   * Reports how much storage the app uses
+   */
+  estimateUsage(): Promise<StorageUsage> {
+    if (navigator.storage?.estimate) {
+      return navigator.storage.estimate().then(estimate => ({
+        usage: estimate.usage || 0,
+        quota: estimate.quota || 0
+      }));
+    }
+
+    let usage = 0;
+    this.entries.forEach((value, key) => usage += (key.length + value.length) * 2);
+    this.images.forEach(image => usage += image.blob.size);
+    return Promise.resolve({ usage, quota: 0 });
+  }
+
+  /**
+   * Converts a base64 data URL to a Blob
+   * @param dataUrl A `data:<mime>;base64,<data>` URL
+   * @returns The Blob, or null if the string is not a base64 data URL
+   */
+  dataUrlToBlob(dataUrl: string): Blob | null {
+    const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl);
+    if (!match) {
+      return null;
+    }
+
+    try {
+      const binary = atob(match[2]);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+      }
+      return new Blob([bytes], { type: match[1] });
+    } catch (error) {
+      console.warn('⚠️ Invalid base64 image data', error);
+      return null;
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not supported'));
+        return;
+      }
+
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(this.ENTRY_STORE)) {
+          db.createObjectStore(this.ENTRY_STORE);
+        }
+        if (!db.objectStoreNames.contains(this.IMAGE_STORE)) {
+          db.createObjectStore(this.IMAGE_STORE);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Database upgrade blocked by another tab'));
+    });
+  }
+
+  /**
+   * Moves existing localStorage data into IndexedDB. Keys are only removed
+   * from localStorage after the transaction has committed.
+   */
+  private migrateFromLocalStorage(): Promise<void> {
+    if (localStorage.getItem(this.MIGRATION_FLAG)) {
+      return Promise.resolve();
+    }
+
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && this.MIGRATED_PREFIXES.some(prefix => key.startsWith(prefix))) {
+        keys.push(key);
+      }
+    }
+
+    if (keys.length === 0) {
+      localStorage.setItem(this.MIGRATION_FLAG, new Date().toISOString());
+      return Promise.resolve();
+    }
+
+    console.log(`🔄 Migrating ${keys.length} item(s) from localStorage to IndexedDB`);
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.ENTRY_STORE, this.IMAGE_STORE], 'readwrite');
+      const entryStore = transaction.objectStore(this.ENTRY_STORE);
+      const imageStore = transaction.objectStore(this.IMAGE_STORE);
+
+      for (const key of keys) {
+        const value = localStorage.getItem(key) || '';
+        const blob = key.startsWith(this.IMAGE_PREFIX) ? this.dataUrlToBlob(value) : null;
+
+        if (blob) {
+          imageStore.put({ blob } as StoredImage, key);
+        } else {
+          entryStore.put(value, key);
+        }
+      }
+
+      transaction.oncomplete = () => {
+        keys.forEach(key => localStorage.removeItem(key));
+        localStorage.setItem(this.MIGRATION_FLAG, new Date().toISOString());
+        console.log(`✅ Migrated ${keys.length} item(s) to IndexedDB`);
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private loadAll(): Promise<void> {
+    return Promise.all([
+      this.readStore<string>(this.ENTRY_STORE).then(entries => this.entries = entries),
+      this.readStore<StoredImage>(this.IMAGE_STORE).then(images => this.images = images)
+    ]).then(() => undefined);
+  }
+
+  private readStore<T>(storeName: string): Promise<Map<string, T>> {
+    return new Promise((resolve, reject) => {
+      const result = new Map<string, T>();
+      const request = this.db!.transaction(storeName, 'readonly').objectStore(storeName).openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          result.set(String(cursor.key), cursor.value as T);
+          cursor.continue();
+        } else {
+          resolve(result);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Loads entries kept in localStorage when IndexedDB can't be used
+   */
+  private loadFromLocalStorage(): void {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key || !this.MIGRATED_PREFIXES.some(prefix => key.startsWith(prefix))) {
+        continue;
+      }
+
+      const value = localStorage.getItem(key) || '';
+      const blob = key.startsWith(this.IMAGE_PREFIX) ? this.dataUrlToBlob(value) : null;
+      if (blob) {
+        this.images.set(key, { blob });
+      } else {
+        this.entries.set(key, value);
+      }
+    }
+  }
+
+  /**
+   * Persists a change in its own transaction. IndexedDB runs transactions on
+   * the same store in the order they were created, so writes never reorder.
+   */
+  private write(storeName: string, operation: (store: IDBObjectStore) => IDBRequest, key: string): void {
+    try {
+      const transaction = this.db!.transaction(storeName, 'readwrite');
+      operation(transaction.objectStore(storeName));
+      transaction.onerror = () => this.handleWriteError(key, transaction.error);
+      transaction.onabort = () => this.handleWriteError(key, transaction.error);
+    } catch (error) {
+      this.handleWriteError(key, error);
+    }
+  }
+
+  private writeLocalStorage(key: string, value: string): void {
+    try {
+      localStorage.setItem(key, value);
+    } catch (error) {
+      this.handleWriteError(key, error);
+    }
+  }
+
+  private handleWriteError(key: string, error: any): void {
+    console.error(`❌ Failed to persist ${key}:`, error);
+
+    if (error?.name === 'QuotaExceededError' && !this.quotaWarningShown) {
+      this.quotaWarningShown = true;
+      this.notificationService.error('Local storage is full. Recent changes may not be kept after reload.');
+    }
+  }
+
+  private revokeImageUrl(key: string): void {
+    const url = this.imageUrls.get(key);
+    if (url) {
+      URL.revokeObjectURL(url);
+      this.imageUrls.delete(key);
+    }
+  }
+
+  private blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  }
+}
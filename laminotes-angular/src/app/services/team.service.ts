@@ -223,8 +223,7 @@ export class TeamService {
       return this.validateTeamDirectory(team.id).pipe(
         switchMap(isValid => {
           // If directory is invalid but we're in Electron, we need to fix it
-          if (!isValid && typeof window !== 'undefined' && 
-              ((window as any).electronAPI || ((window as any).require && (window as any).require('electron')))) {
+          if (!isValid && typeof window !== 'undefined' && window.electronAPI) {
               
             console.log(`⚠️ Team directory invalid or missing for ${team.name}, will prompt for new selection`);
             // We'll proceed but log the issue - actual directory selection will be handled
@@ -0,0 +1,70 @@
+import { TextCrdt } from './text-crdt';
+
+describe('TextCrdt', () => {
+  it('should converge when concurrent edits arrive in different orders', () => {
+    const a = TextCrdt.fromText('a', 'abc');
+    const b = TextCrdt.fromText('b', 'abc');
+
+    const fromA = [...a.localInsert(1, 'X'), ...a.localDelete(3, 1)];
+    const fromB = [...b.localInsert(1, 'Y'), ...b.localInsert(4, 'Z')];
+
+    a.applyRemote(fromB);
+    b.applyRemote(fromA);
+
+    expect(a.getText()).toBe(b.getText());
+    expect(a.getText().length).toBe(5);
+  });
+
+  it('should hold back operations until their dependencies arrive', () => {
+    const a = TextCrdt.fromText('a', '');
+    const b = TextCrdt.fromText('b', '');
+
+    const first = a.localInsert(0, 'h');
+    const second = a.localInsert(1, 'i');
+
+    b.applyRemote(second);
+    expect(b.getText()).toBe('');
+
+    b.applyRemote(first);
+    expect(b.getText()).toBe('hi');
+  });
+
+  it('should merge a snapshot without losing characters it has not seen', () => {
+    const a = TextCrdt.fromText('a', 'abc');
+    const b = TextCrdt.fromText('b', 'abc');
+
+    a.localInsert(3, ' from a');
+    b.localDelete(0, 1);
+    b.localInsert(2, ' from b');
+
+    a.merge(b.snapshot());
+    b.merge(a.snapshot());
+
+    expect(a.getText()).toBe(b.getText());
+    expect(a.getText()).toContain(' from a');
+    expect(a.getText()).toContain(' from b');
+    expect(a.getText().startsWith('a')).toBe(false);
+  });
+
+  it('should take the session text when joining with the same text', () => {
+    const a = TextCrdt.fromText('a', 'hello');
+    a.localInsert(5, ' world');
+
+    const { doc: b, operations } = TextCrdt.join('b', a.snapshot(), 'hello world');
+    a.applyRemote(operations);
+
+    expect(operations).toEqual([]);
+    expect(b.getText()).toBe('hello world');
+    expect(a.getText()).toBe('hello world');
+  });
+
+  it('should add only the text a joining peer alone has', () => {
+    const a = TextCrdt.fromText('a', 'hello world');
+
+    const { doc: b, operations } = TextCrdt.join('b', a.snapshot(), 'hello there');
+    a.applyRemote(operations);
+
+    expect(a.getText()).toBe(b.getText());
+    expect(a.getText()).toBe('hello worldthere');
+  });
+});
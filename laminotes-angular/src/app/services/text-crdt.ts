@@ -0,0 +1,453 @@
+/**
+ * Text CRDT.
+ *
+ * Replicated growable array (RGA) of characters used for live collaborative
+ * editing. Every character carries a unique, totally ordered id so that
+ * concurrent inserts and deletes from different peers converge to the same
+ * text regardless of delivery order, without any server-side transformation.
+ */
+
+/**
+ * Unique identifier of a character: a Lamport clock plus the id of the peer that created it
+ */
+export interface CharId {
+  /** Peer (site) that inserted the character */
+  site: string;
+
+  /** Lamport timestamp at insertion */
+  clock: number;
+}
+
+/**
+ * A single replicated operation
+ */
+export type CrdtOperation =
+  | { type: 'insert'; id: CharId; after: CharId | null; value: string }
+  | { type: 'delete'; id: CharId };
+
+/**
+ * A visible change produced by applying an operation, expressed on plain text
+ */
+export interface TextChange {
+  /** Position in the text before the change was applied */
+  index: number;
+
+  /** Number of characters removed at `index` */
+  deleteCount: number;
+
+  /** Text inserted at `index` */
+  text: string;
+}
+
+/**
+ * Serializable state of a document, used to bring new peers up to date
+ */
+export interface CrdtSnapshot {
+  /** Characters in document order, including deleted ones, with the character each was inserted after */
+  chars: { id: CharId; after: CharId | null; value: string; deleted: boolean }[];
+
+  /** Highest clock seen by the sender */
+  clock: number;
+}
+
+/**
+ * Describes the difference between two texts as a single change.
+ * Edits are contiguous in practice, so a prefix/suffix comparison is enough.
+ * @param before Previous text
+ * @param after New text
+ * @returns The change, or null when the texts are equal
+ */
+export function diffText(before: string, after: string): TextChange | null {
+  if (before === after) {
+    return null;
+  }
+
+  let prefix = 0;
+  const maxPrefix = Math.min(before.length, after.length);
+  while (prefix < maxPrefix && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  const maxSuffix = Math.min(before.length, after.length) - prefix;
+  while (suffix < maxSuffix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  return {
+    index: prefix,
+    deleteCount: before.length - prefix - suffix,
+    text: after.substring(prefix, after.length - suffix)
+  };
+}
+
+/** Internal character node */
+interface CharNode {
+  id: CharId;
+
+  /** Character this one was inserted after */
+  after: CharId | null;
+
+  value: string;
+  deleted: boolean;
+}
+
+/** Prefix of the site id used for the characters of the initial document text */
+const SEED_SITE = '~seed';
+
+/**
+ * Site id for the seed characters of a text, derived from its content so
+ * peers starting from different text never share character ids
+ * @param text Initial document text
+ */
+function seedSite(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return `${SEED_SITE}:${text.length}:${(hash >>> 0).toString(16)}`;
+}
+
+/**
+ * Collaborative text document replicated between peers
+ */
+export class TextCrdt {
+  /** All characters in document order, including tombstones */
+  private nodes: CharNode[] = [];
+
+  /** Character lookup by id key */
+  private byId = new Map<string, CharNode>();
+
+  /** Operations waiting for the character they depend on */
+  private pending: CrdtOperation[] = [];
+
+  /** Lamport clock of this replica */
+  private clock = 0;
+
+  constructor(readonly siteId: string) {}
+
+  /**
+   * Creates a document holding `text`, for the first peer of a session; peers
+   * joining later take that peer's state with `join`. Seed ids depend on the
+   * text, so seeds of different text never mix characters under the same ids.
+   * @param siteId Id of the local peer
+   * @param text Initial document text
+   */
+  static fromText(siteId: string, text: string): TextCrdt {
+    const doc = new TextCrdt(siteId);
+    const site = seedSite(text);
+    for (let i = 0; i < text.length; i++) {
+      const after = i > 0 ? { site, clock: i } : null;
+      doc.addNode({ id: { site, clock: i + 1 }, after, value: text[i], deleted: false }, doc.nodes.length);
+    }
+    doc.clock = text.length;
+    return doc;
+  }
+
+  /**
+   * Creates a document from a snapshot received from another peer
+   * @param siteId Id of the local peer
+   * @param snapshot State to load
+   */
+  static fromSnapshot(siteId: string, snapshot: CrdtSnapshot): TextCrdt {
+    const doc = new TextCrdt(siteId);
+    for (const char of snapshot.chars) {
+      doc.addNode({ id: { ...char.id }, after: char.after, value: char.value, deleted: char.deleted }, doc.nodes.length);
+    }
+    doc.clock = snapshot.clock;
+    return doc;
+  }
+
+  /**
+   * Creates a replica of a session's document for a peer joining with
+   * `localText`. The session's text is kept as it is; text only the joining
+   * peer has is inserted after it, so nothing present on both sides is
+   * duplicated and nothing written by others is lost.
+   * @param siteId Id of the joining peer
+   * @param snapshot State of the session
+   * @param localText Text the joining peer has
+   * @returns The document, and the operations inserting the local text to broadcast
+   */
+  static join(siteId: string, snapshot: CrdtSnapshot, localText: string): { doc: TextCrdt; operations: CrdtOperation[] } {
+    const doc = TextCrdt.fromSnapshot(siteId, snapshot);
+    const change = diffText(doc.getText(), localText);
+    const operations = change && change.text
+      ? doc.localInsert(change.index + change.deleteCount, change.text)
+      : [];
+    return { doc, operations };
+  }
+
+  /**
+   * Returns the current visible text
+   */
+  getText(): string {
+    let text = '';
+    for (const node of this.nodes) {
+      if (!node.deleted) {
+        text += node.value;
+      }
+    }
+    return text;
+  }
+
+  /**
+   * Returns the full state for sending to a new peer
+   */
+  snapshot(): CrdtSnapshot {
+    return {
+      chars: this.nodes.map(node => ({ id: { ...node.id }, after: node.after, value: node.value, deleted: node.deleted })),
+      clock: this.clock
+    };
+  }
+
+  /**
+   * Inserts text at a visible position and returns the operations to broadcast
+   * @param index Visible position to insert at
+   * @param text Text to insert
+   */
+  localInsert(index: number, text: string): CrdtOperation[] {
+    const operations: CrdtOperation[] = [];
+    let after = this.idAt(index);
+
+    // Work in UTF-16 code units to match textarea selection offsets
+    for (let i = 0; i < text.length; i++) {
+      const operation: CrdtOperation = {
+        type: 'insert',
+        id: { site: this.siteId, clock: ++this.clock },
+        after,
+        value: text[i]
+      };
+      this.integrate(operation);
+      operations.push(operation);
+      after = operation.id;
+    }
+
+    return operations;
+  }
+
+  /**
+   * Deletes visible characters and returns the operations to broadcast
+   * @param index Visible position of the first character to delete
+   * @param count Number of characters to delete
+   */
+  localDelete(index: number, count: number): CrdtOperation[] {
+    const targets = this.visibleNodes(index, count);
+    const operations: CrdtOperation[] = [];
+
+    for (const node of targets) {
+      const operation: CrdtOperation = { type: 'delete', id: { ...node.id } };
+      this.integrate(operation);
+      operations.push(operation);
+    }
+
+    return operations;
+  }
+
+  /**
+   * Applies operations received from other peers.
+   * Operations whose dependencies have not arrived yet are held back and applied later.
+   * @param operations Remote operations
+   * @returns The visible changes, in the order they were applied
+   */
+  applyRemote(operations: CrdtOperation[]): TextChange[] {
+    const changes: TextChange[] = [];
+    this.pending.push(...operations);
+
+    let progressed = true;
+    while (progressed && this.pending.length > 0) {
+      progressed = false;
+      const waiting: CrdtOperation[] = [];
+
+      for (const operation of this.pending) {
+        if (!this.canApply(operation)) {
+          waiting.push(operation);
+          continue;
+        }
+
+        progressed = true;
+        if (operation.type === 'insert') {
+          this.clock = Math.max(this.clock, operation.id.clock);
+        }
+
+        const change = this.integrate(operation);
+        if (change) {
+          changes.push(change);
+        }
+      }
+
+      this.pending = waiting;
+    }
+
+    return changes;
+  }
+
+  /**
+   * Merges the state of another replica: characters missing here are
+   * integrated and characters deleted there are deleted here, while local
+   * characters the other replica hasn't seen yet are kept
+   * @param snapshot State of the other replica
+   * @returns The visible changes, in the order they were applied
+   */
+  merge(snapshot: CrdtSnapshot): TextChange[] {
+    const operations: CrdtOperation[] = [];
+    for (const char of snapshot.chars) {
+      operations.push({ type: 'insert', id: char.id, after: char.after, value: char.value });
+      if (char.deleted) {
+        operations.push({ type: 'delete', id: char.id });
+      }
+    }
+
+    const changes = this.applyRemote(operations);
+    this.clock = Math.max(this.clock, snapshot.clock);
+    return changes;
+  }
+
+  /**
+   * Returns the id of the character just before a visible position (null for the start).
+   * Positions stored this way stay attached to the text across concurrent edits.
+   * @param index Visible position
+   */
+  idAt(index: number): CharId | null {
+    if (index <= 0) {
+      return null;
+    }
+
+    let visible = 0;
+    for (const node of this.nodes) {
+      if (!node.deleted) {
+        visible++;
+        if (visible === index) {
+          return node.id;
+        }
+      }
+    }
+
+    // Past the end: anchor to the last visible character
+    for (let i = this.nodes.length - 1; i >= 0; i--) {
+      if (!this.nodes[i].deleted) {
+        return this.nodes[i].id;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolves a position created with `idAt` back to a visible position
+   * @param id Id of the character before the position
+   */
+  indexOf(id: CharId | null): number {
+    if (!id) {
+      return 0;
+    }
+
+    const target = this.byId.get(this.key(id));
+    if (!target) {
+      return 0;
+    }
+
+    let visible = 0;
+    for (const node of this.nodes) {
+      if (!node.deleted) {
+        visible++;
+      }
+      if (node === target) {
+        return visible;
+      }
+    }
+    return visible;
+  }
+
+  /**
+   * Checks whether everything an operation refers to is present
+   */
+  private canApply(operation: CrdtOperation): boolean {
+    if (operation.type === 'insert') {
+      return !operation.after || this.byId.has(this.key(operation.after));
+    }
+    return this.byId.has(this.key(operation.id));
+  }
+
+  /**
+   * Integrates an operation whose dependencies are present
+   * @returns The visible change, or null when the operation had no effect
+   */
+  private integrate(operation: CrdtOperation): TextChange | null {
+    if (operation.type === 'delete') {
+      const node = this.byId.get(this.key(operation.id));
+      if (!node || node.deleted) {
+        return null;
+      }
+      const index = this.visibleIndexOf(node);
+      node.deleted = true;
+      return { index, deleteCount: 1, text: '' };
+    }
+
+    // Already integrated (duplicate delivery)
+    if (this.byId.has(this.key(operation.id))) {
+      return null;
+    }
+
+    let position = operation.after
+      ? this.nodes.indexOf(this.byId.get(this.key(operation.after))!) + 1
+      : 0;
+
+    // Concurrent inserts at the same spot are ordered by descending id
+    while (position < this.nodes.length && this.compareIds(this.nodes[position].id, operation.id) > 0) {
+      position++;
+    }
+
+    const node: CharNode = { id: { ...operation.id }, after: operation.after, value: operation.value, deleted: false };
+    this.addNode(node, position);
+    return { index: this.visibleIndexOf(node), deleteCount: 0, text: operation.value };
+  }
+
+  private addNode(node: CharNode, position: number): void {
+    this.nodes.splice(position, 0, node);
+    this.byId.set(this.key(node.id), node);
+  }
+
+  /**
+   * Returns the `count` visible nodes starting at visible position `index`
+   */
+  private visibleNodes(index: number, count: number): CharNode[] {
+    const result: CharNode[] = [];
+    let visible = 0;
+
+    for (const node of this.nodes) {
+      if (node.deleted) continue;
+      if (visible >= index && result.length < count) {
+        result.push(node);
+      }
+      visible++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Number of visible characters before a node
+   */
+  private visibleIndexOf(target: CharNode): number {
+    let visible = 0;
+    for (const node of this.nodes) {
+      if (node === target) {
+        return visible;
+      }
+      if (!node.deleted) {
+        visible++;
+      }
+    }
+    return visible;
+  }
+
+  private compareIds(a: CharId, b: CharId): number {
+    if (a.clock !== b.clock) {
+      return a.clock - b.clock;
+    }
+    return a.site < b.site ? -1 : a.site > b.site ? 1 : 0;
+  }
+
+  private key(id: CharId): string {
+    return `${id.clock}@${id.site}`;
+  }
+}
@@ -1,3 +1,5 @@
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
 import { TestBed } from '@angular/core/testing';
 
 import { VersionControlService } from './version-control.service';
@@ -6,11 +8,28 @@ describe('VersionControlService', () => {
   let service: VersionControlService;
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
     service = TestBed.inject(VersionControlService);
   });
 
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('should give the resolver the local and remote content of a conflict', () => {
+    const conflict = service.toConflictData('f1', 'Plan.md', 'v1', {
+      status: 'conflict',
+      conflicts: [],
+      currentVersion: 'v2',
+      localContent: 'local text',
+      remoteContent: 'remote text',
+      message: 'Conflict'
+    });
+
+    expect(conflict.localVersion).toBe('local text');
+    expect(conflict.remoteVersion).toBe('remote text');
+    expect(conflict.baseVersion).toBe('v1');
+  });
 });
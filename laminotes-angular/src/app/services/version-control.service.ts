@@ -8,9 +8,12 @@ import { Injectable } from '@angular/core';
 import { HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
 import { Observable, throwError, of, from, forkJoin } from 'rxjs';
 import { catchError, map, tap, switchMap } from 'rxjs/operators';
-import { ConflictData } from '../components/conflict-resolution/conflict-resolution.component';
+import { ConflictData, ConflictRegion } from '../components/conflict-resolution/conflict-resolution.component';
 import { ElectronService } from './electron.service';
 import { CapacitorService } from './capacitor.service';
+import { DiffLine, MergeService } from './merge.service';
+import { OfflineQueueService, PendingOperation, ReplayOutcome } from './offline-queue.service';
+import { BlameRevision } from './blame';
 
 /**
  * Metadata for a file version
@@ -72,8 +75,23 @@ export interface SaveVersionResponse {
   /** New version ID if save was successful */
   newVersion?: string;
   
-  /** List of conflicts if status is 'conflict' */
-  conflicts?: any[];
+  /** Overlapping regions that could not be merged if status is 'conflict' */
+  conflicts?: ConflictRegion[];
+  
+  /**
+   * Result of the three-way merge if status is 'conflict' or 'auto_merged'.
+   * Non-overlapping changes are already applied; conflict line ranges refer to this text.
+   */
+  mergedContent?: string;
+  
+  /** Server version the merge was performed against */
+  currentVersion?: string;
+  
+  /** Content that was being saved, if status is 'conflict' */
+  localContent?: string;
+  
+  /** Content of currentVersion, if status is 'conflict' */
+  remoteContent?: string;
   
   /** Human-readable message about the result */
   message: string;
@@ -99,6 +117,36 @@ export interface ResolveConflictRequest {
   platform?: string;
 }
 
+/**
+ * Result of comparing two versions of a file
+ */
+export interface VersionComparison {
+  /** Line changes between the two versions */
+  changes: {
+    /** Line numbers (in the new version) of lines that were added */
+    added: number[];
+    /** Line numbers (in the old version) of lines that were removed */
+    removed: number[];
+    /** Line numbers (in the new version) of lines that replaced old ones */
+    changed: number[];
+  };
+  
+  /** Full line diff in document order */
+  diff: DiffLine[];
+  
+  /** Content of the old version */
+  oldContent: string;
+  
+  /** Content of the new version */
+  newContent: string;
+  
+  /** ID of the old version (empty when comparing the first version with an empty file) */
+  oldVersion: string;
+  
+  /** ID of the new version */
+  newVersion: string;
+}
+
 /**
  * Cache entry for local version history 
  * Used for offline support
@@ -135,12 +183,27 @@ export class VersionControlService {
   /** Local version history cache */
   private versionCache: Map<string, LocalVersionCacheEntry> = new Map();
 
+  /** Local storage key for server ids of versions saved offline */
+  private readonly OFFLINE_VERSIONS_KEY = 'laminotes_offline_versions';
+
+  /** Most recent versions replayed for blame; older lines are attributed to the oldest of them */
+  private readonly MAX_BLAME_VERSIONS = 30;
+
+  /** Merges tried when the file keeps changing on the server while a merged version is saved */
+  private readonly MAX_MERGE_ATTEMPTS = 3;
+
+  /** Contents of versions fetched for blame, keyed by file and version id (versions never change) */
+  private versionContentCache: Map<string, string> = new Map();
+
   constructor(
     private http: HttpClient,
     private electronService: ElectronService,
-    private capacitorService: CapacitorService
+    private capacitorService: CapacitorService,
+    private mergeService: MergeService,
+    private offlineQueue: OfflineQueueService
   ) { 
     this.loadCacheFromStorage();
+    this.offlineQueue.registerHandler('saveVersion', op => this.replaySaveVersion(op));
   }
   
   /**
@@ -217,6 +280,34 @@ export class VersionControlService {
     baseVersion: string,
     message?: string,
     teamId?: string
+  ): Observable<SaveVersionResponse> {
+    baseVersion = this.resolveOfflineVersion(baseVersion);
+
+    // Versions still waiting in the journal must reach the server first
+    if (baseVersion.startsWith('offline-') || this.hasPendingVersions(fileId)) {
+      return this.saveVersionOffline(fileId, content, baseVersion, message, teamId);
+    }
+
+    return this.postVersion(fileId, content, baseVersion, message, teamId).pipe(
+      catchError(error => {
+        if (this.isNetworkError(error)) {
+          console.log(`📱 Device appears to be offline, saving locally`);
+          return this.saveVersionOffline(fileId, content, baseVersion, message, teamId);
+        }
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Sends a version to the server, merging with concurrent changes when needed
+   */
+  private postVersion(
+    fileId: string,
+    content: string,
+    baseVersion: string,
+    message?: string,
+    teamId?: string
   ): Observable<SaveVersionResponse> {
     const url = `${this.API_URL}/files/${fileId}/save`;
     const platform = this.getPlatformInfo();
@@ -245,7 +336,24 @@ export class VersionControlService {
     });
 
     return this.http.post<SaveVersionResponse>(url, data, { headers }).pipe(
+      switchMap(response => {
+        // Server reported a concurrent change, try to merge it client-side
+        if (response.status === 'conflict') {
+          const remoteVersion = this.extractRemoteVersion(response);
+          if (remoteVersion) {
+            return this.mergeAndSave(fileId, content, baseVersion, remoteVersion, message, teamId);
+          }
+          // Without the server version there is nothing to merge or resolve against
+          return throwError(() => new Error(response.message || 'The file was changed on the server'));
+        }
+        return of(response);
+      }),
       tap(response => {
+        if (response.status === 'conflict') {
+          console.log(`⚠️ Version not saved, ${response.conflicts?.length} conflicting region(s) to resolve`);
+          return;
+        }
+
         console.log(`✅ Version saved successfully:`, response);
         
         // Update local version cache if we have the history already cached
@@ -266,12 +374,20 @@ export class VersionControlService {
         }
       }),
       catchError(error => {
+        // A 409 means the file moved on since our base version
+        if (error instanceof HttpErrorResponse && error.status === 409 && error.error?.status === 'conflict') {
+          const remoteVersion = this.extractRemoteVersion(error.error);
+          if (remoteVersion) {
+            console.log(`🔄 Version conflict on save, attempting three-way merge`);
+            return this.mergeAndSave(fileId, content, baseVersion, remoteVersion, message, teamId);
+          }
+        }
+        
         console.error(`❌ Error saving version:`, error);
         
-        // Special handling for offline mode in Capacitor
-        if (this.capacitorService.isCapacitor() && this.isNetworkError(error)) {
-          console.log(`📱 Device appears to be offline, saving locally`);
-          return this.saveVersionOffline(fileId, content, baseVersion, message);
+        // Connectivity errors are left to the caller so the save can be journaled
+        if (this.isNetworkError(error)) {
+          return throwError(() => error);
         }
         
         return this.handleVersionControlError(error);
@@ -280,25 +396,209 @@ export class VersionControlService {
   }
   
   /**
-   * Save a version locally when offline
-   * (Currently just simulates success)
+   * Merges local changes with the current server version and saves the result.
+   * Changes that don't overlap are saved as a new version on top of the remote one;
+   * otherwise a typed conflict response is returned for the resolver.
+   * @param fileId The ID of the file
+   * @param content The local content
+   * @param baseVersion The version the local content was based on
+   * @param remoteVersion The current server version
+   * @param message Optional commit message
+   * @param teamId Optional team ID for team files
+   * @param attempt Number of merges tried, as the file may change again while merging
+   */
+  private mergeAndSave(
+    fileId: string,
+    content: string,
+    baseVersion: string,
+    remoteVersion: string,
+    message?: string,
+    teamId?: string,
+    attempt: number = 1
+  ): Observable<SaveVersionResponse> {
+    return forkJoin({
+      baseContent: this.getVersionContent(fileId, baseVersion),
+      remoteContent: this.getVersionContent(fileId, remoteVersion)
+    }).pipe(
+      switchMap(({ baseContent, remoteContent }) => {
+        const result = this.mergeService.merge(baseContent, content, remoteContent);
+        
+        if (!result.clean) {
+          console.log(`⚠️ Merge produced ${result.conflicts.length} conflicting region(s)`);
+          return of<SaveVersionResponse>({
+            status: 'conflict',
+            conflicts: result.conflicts,
+            mergedContent: result.content,
+            currentVersion: remoteVersion,
+            localContent: content,
+            remoteContent,
+            message: `${result.conflicts.length} conflicting change(s) need to be resolved`
+          });
+        }
+        
+        const headers = new HttpHeaders({
+          'Content-Type': 'application/json',
+          ...(teamId ? { 'X-Team-ID': teamId } : {})
+        });
+        
+        const data: SaveVersionRequest = {
+          content: result.content,
+          baseVersion: remoteVersion,
+          message: `${message || 'Update file'} (auto-merged)`,
+          platform: this.getPlatformInfo()
+        };
+        
+        return this.http.post<SaveVersionResponse>(`${this.API_URL}/files/${fileId}/save`, data, { headers }).pipe(
+          switchMap(response => {
+            if (response.status === 'conflict') {
+              // Someone saved again while we were merging, merge with their version instead
+              const newerVersion = this.extractRemoteVersion(response);
+              if (newerVersion && newerVersion !== remoteVersion && attempt < this.MAX_MERGE_ATTEMPTS) {
+                return this.mergeAndSave(fileId, content, baseVersion, newerVersion, message, teamId, attempt + 1);
+              }
+              return throwError(() => new Error('The file kept changing while merging, please retry'));
+            }
+            
+            console.log(`✅ Auto-merged concurrent changes for file ${fileId}`);
+            return of({
+              ...response,
+              status: 'auto_merged',
+              mergedContent: result.content,
+              message: 'Your changes were merged with the latest version'
+            } as SaveVersionResponse);
+          })
+        );
+      })
+    );
+  }
+  
+  /**
+   * Reads the current server version from a conflict payload
+   * @param payload Conflict response body
+   */
+  private extractRemoteVersion(payload: any): string | null {
+    return payload?.currentVersion || payload?.current_version || payload?.remote_version || null;
+  }
+  
+  /**
+   * Builds resolver input from a conflict response returned by saveVersion.
+   * The resolver works on text, so the local and remote sides carry content.
+   * @param fileId The ID of the file
+   * @param fileName Display name of the file
+   * @param baseVersion The version the local content was based on
+   * @param response The conflict response
+   * @param remoteAuthor Optional name of the user who made the remote change
+   */
+  toConflictData(
+    fileId: string,
+    fileName: string,
+    baseVersion: string,
+    response: SaveVersionResponse,
+    remoteAuthor?: string
+  ): ConflictData {
+    return {
+      fileId,
+      fileName,
+      localVersion: response.localContent ?? '',
+      remoteVersion: response.remoteContent ?? '',
+      baseVersion,
+      lastLocalUpdate: new Date().toISOString(),
+      lastRemoteUpdate: new Date().toISOString(),
+      remoteAuthor: remoteAuthor || 'another user',
+      conflictRegions: response.conflicts || [],
+      mergedContent: response.mergedContent
+    };
+  }
+  
+  /**
+   * Journals a version saved while offline so it is sent once the connection
+   * returns. The placeholder version id is mapped to the real one on replay.
    */
   private saveVersionOffline(
     fileId: string,
     content: string,
     baseVersion: string,
-    message?: string
+    message?: string,
+    teamId?: string
   ): Observable<SaveVersionResponse> {
-    // In a full implementation, we would store the change in IndexedDB or localStorage
-    // and sync when back online. For now, we'll just return a successful response.
     console.log(`📱 Saving version offline for file ${fileId}`);
+
+    const offlineVersion = `offline-${Date.now()}`;
+    this.offlineQueue.enqueue('saveVersion', fileId, {
+      content,
+      baseVersion,
+      message,
+      offlineVersion
+    }, teamId);
     
     return of({
       status: 'saved',
-      newVersion: `offline-${Date.now()}`,
+      newVersion: offlineVersion,
       message: 'Saved offline (will sync when connection is restored)'
     });
   }
+
+  /**
+   * Sends a journaled version to the server
+   */
+  private replaySaveVersion(op: PendingOperation): Observable<ReplayOutcome> {
+    const { content, message, offlineVersion } = op.payload;
+    const baseVersion = this.resolveOfflineVersion(op.payload.baseVersion);
+
+    return this.postVersion(op.fileName, content, baseVersion, message, op.teamId).pipe(
+      map((response): ReplayOutcome => {
+        if (response.status === 'conflict') {
+          return {
+            status: 'conflict',
+            message: response.message,
+            conflict: this.toConflictData(op.fileName, op.fileName, baseVersion, response)
+          };
+        }
+
+        if (response.newVersion) {
+          this.recordOfflineVersion(offlineVersion, response.newVersion);
+        }
+
+        return {
+          status: 'done',
+          message: response.message,
+          mergedContent: response.status === 'auto_merged' ? response.mergedContent : undefined
+        };
+      })
+    );
+  }
+
+  /**
+   * Whether versions of a file are still waiting in the journal
+   */
+  private hasPendingVersions(fileId: string): boolean {
+    return this.offlineQueue.pendingOperations.some(op => op.type === 'saveVersion' && op.fileName === fileId);
+  }
+
+  /**
+   * Maps a placeholder id from an offline save to the id the server assigned, once known
+   * @param versionId A version id, possibly an offline placeholder
+   */
+  private resolveOfflineVersion(versionId: string): string {
+    if (!versionId?.startsWith('offline-')) {
+      return versionId;
+    }
+    return this.loadOfflineVersions()[versionId] || versionId;
+  }
+
+  private recordOfflineVersion(offlineVersion: string, serverVersion: string): void {
+    const versions = this.loadOfflineVersions();
+    versions[offlineVersion] = serverVersion;
+    localStorage.setItem(this.OFFLINE_VERSIONS_KEY, JSON.stringify(versions));
+  }
+
+  private loadOfflineVersions(): Record<string, string> {
+    try {
+      return JSON.parse(localStorage.getItem(this.OFFLINE_VERSIONS_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
   
   /**
    * Check if an error is related to network connectivity
@@ -377,6 +677,36 @@ export class VersionControlService {
     );
   }
 
+  /**
+   * Get the most recent versions of a file with their content, oldest first, for blame
+   * @param fileId The ID of the file
+   */
+  getBlameRevisions(fileId: string): Observable<BlameRevision[]> {
+    return this.getVersionHistory(fileId).pipe(
+      switchMap(history => {
+        const versions = [...history]
+          .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+          .slice(-this.MAX_BLAME_VERSIONS);
+
+        if (versions.length === 0) {
+          return of([]);
+        }
+
+        return forkJoin(versions.map(version => {
+          const key = `${fileId}:${version.versionId}`;
+          const cached = this.versionContentCache.get(key);
+          const content$ = cached !== undefined
+            ? of(cached)
+            : this.getVersionContent(fileId, version.versionId).pipe(
+                tap(content => this.versionContentCache.set(key, content))
+              );
+          return content$.pipe(map(content => ({ version, content })));
+        }));
+      }),
+      tap(revisions => console.log(`✅ Loaded ${revisions.length} versions of ${fileId} for blame`))
+    );
+  }
+
   /**
    * Register as an active editor of a file
    * This will create a lock and register in version control
@@ -524,21 +854,19 @@ export class VersionControlService {
   /**
    * Compare two versions and get the differences
    * @param fileId The ID of the file 
-   * @param oldVersion The old version ID
+   * @param oldVersion The old version ID, or null to compare against an empty file
    * @param newVersion The new version ID
    */
-  compareVersions(fileId: string, oldVersion: string, newVersion: string): Observable<any> {
-    console.log(`📊 Comparing versions ${oldVersion} and ${newVersion} of file ${fileId}`);
+  compareVersions(fileId: string, oldVersion: string | null, newVersion: string): Observable<VersionComparison> {
+    console.log(`📊 Comparing versions ${oldVersion || '(empty)'} and ${newVersion} of file ${fileId}`);
     
     // Get content of both versions
     return forkJoin({
-      oldContent: this.getVersionContent(fileId, oldVersion),
+      oldContent: oldVersion ? this.getVersionContent(fileId, oldVersion) : of(''),
       newContent: this.getVersionContent(fileId, newVersion)
     }).pipe(
       map(({ oldContent, newContent }) => {
-        // Perform a simple line-by-line diff
-        const oldLines = oldContent.split('\n');
-        const newLines = newContent.split('\n');
+        const diff = this.mergeService.diffLines(oldContent, newContent);
         
         // Find added, removed, and changed lines
         const changes = {
@@ -547,25 +875,33 @@ export class VersionControlService {
           changed: [] as number[]
         };
         
-        // This is a very simple diff - in a real implementation, 
-        // we would use a proper diff algorithm
-        const maxLength = Math.max(oldLines.length, newLines.length);
-        
-        for (let i = 0; i < maxLength; i++) {
-          if (i >= oldLines.length) {
-            changes.added.push(i);
-          } else if (i >= newLines.length) {
-            changes.removed.push(i);
-          } else if (oldLines[i] !== newLines[i]) {
-            changes.changed.push(i);
+        // Walk each run of removed/added lines; paired lines count as changed
+        let index = 0;
+        while (index < diff.length) {
+          if (diff[index].type === 'equal') {
+            index++;
+            continue;
+          }
+          
+          const removed: DiffLine[] = [];
+          const added: DiffLine[] = [];
+          while (index < diff.length && diff[index].type !== 'equal') {
+            (diff[index].type === 'removed' ? removed : added).push(diff[index]);
+            index++;
           }
+          
+          const paired = Math.min(removed.length, added.length);
+          changes.changed.push(...added.slice(0, paired).map(line => line.newLineNumber!));
+          changes.added.push(...added.slice(paired).map(line => line.newLineNumber!));
+          changes.removed.push(...removed.slice(paired).map(line => line.oldLineNumber!));
         }
         
         return {
           changes,
+          diff,
           oldContent,
           newContent,
-          oldVersion,
+          oldVersion: oldVersion || '',
           newVersion
         };
       }),
@@ -0,0 +1,89 @@
+import {
+  findWikiLinks,
+  headingLine,
+  renameWikiLinks,
+  renderWikiLinks,
+  resolveWikiLink,
+  wikiLinkCompletion
+} from './wikilinks';
+
+describe('findWikiLinks', () => {
+  it('should read targets, headings and aliases', () => {
+    const links = findWikiLinks('See [[Plan]], [[Plan#Budget]] and [[Projects/Plan|the plan]].');
+
+    expect(links.map(link => [link.target, link.heading, link.alias])).toEqual([
+      ['Plan', undefined, undefined],
+      ['Plan', 'Budget', undefined],
+      ['Projects/Plan', undefined, 'the plan']
+    ]);
+    expect(links[0].start).toBe(4);
+    expect(links[0].end).toBe(12);
+  });
+
+  it('should skip links in code', () => {
+    const text = 'Use `[[Plan]]` here\n```\n[[Plan]]\n```\n[[Notes]]';
+
+    expect(findWikiLinks(text).map(link => link.target)).toEqual(['Notes']);
+  });
+});
+
+describe('resolveWikiLink', () => {
+  it('should prefer a matching path over a matching title', () => {
+    const files = [{ name: 'Archive/Plan.md' }, { name: 'Plan.md' }, { name: 'Projects/Plan.md' }];
+
+    expect(resolveWikiLink('plan', files)?.name).toBe('Plan.md');
+    expect(resolveWikiLink('Projects/Plan', files)?.name).toBe('Projects/Plan.md');
+    expect(resolveWikiLink('Missing', files)).toBeNull();
+  });
+});
+
+describe('renameWikiLinks', () => {
+  it('should point links at the new name, keeping headings, aliases and paths', () => {
+    const text = '[[Plan]] [[plan#Budget|money]] [[Projects/Plan]] [[Planning]]';
+    const files = [{ name: 'Projects/Plan.md' }, { name: 'Planning.md' }];
+
+    expect(renameWikiLinks(text, 'Projects/Plan.md', 'Projects/Roadmap.md', files))
+      .toBe('[[Roadmap]] [[Roadmap#Budget|money]] [[Projects/Roadmap]] [[Planning]]');
+    expect(renameWikiLinks('No links', 'Plan.md', 'Roadmap.md', [{ name: 'Plan.md' }])).toBe('No links');
+  });
+
+  it('should leave links to other notes with the same title alone', () => {
+    const text = '[[Plan]] [[Archive/Plan]]';
+    const files = [{ name: 'Plan.md' }, { name: 'Archive/Plan.md' }];
+
+    expect(renameWikiLinks(text, 'Archive/Plan.md', 'Archive/Old plan.md', files))
+      .toBe('[[Plan]] [[Archive/Old plan]]');
+    expect(renameWikiLinks(text, 'Plan.md', 'Roadmap.md', files))
+      .toBe('[[Roadmap]] [[Archive/Plan]]');
+  });
+
+  it('should switch a title to a path when another note has the new title', () => {
+    const files = [{ name: 'Plan.md' }, { name: 'Archive/Draft.md' }];
+
+    expect(renameWikiLinks('[[Draft]]', 'Archive/Draft.md', 'Archive/Plan.md', files)).toBe('[[Archive/Plan]]');
+  });
+});
+
+describe('wikiLinkCompletion', () => {
+  it('should find the link being typed', () => {
+    expect(wikiLinkCompletion('See [[Pla', 9)).toEqual({ start: 6, query: 'Pla' });
+    expect(wikiLinkCompletion('See [[Plan]] ', 13)).toBeNull();
+    expect(wikiLinkCompletion('[[Plan\nnext', 11)).toBeNull();
+  });
+});
+
+describe('headingLine', () => {
+  it('should find headings ignoring case', () => {
+    expect(headingLine('# Plan\n\n## Budget ##\ntext', 'budget')).toBe(2);
+    expect(headingLine('# Plan', 'Budget')).toBeNull();
+  });
+});
+
+describe('renderWikiLinks', () => {
+  it('should render anchors and mark missing notes', () => {
+    const html = renderWikiLinks('[[Plan#Q&A]] and [[Missing|gone]]', link => link.target === 'Plan');
+
+    expect(html).toBe('<a href="#" class="wikilink" data-target="Plan" data-heading="Q&amp;A">Plan › Q&amp;A</a>'
+      + ' and <a href="#" class="wikilink wikilink-missing" data-target="Missing">gone</a>');
+  });
+});
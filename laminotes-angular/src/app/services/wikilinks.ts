@@ -0,0 +1,237 @@
+/**
+ * Wiki links.
+ *
+ * Finds, resolves and rewrites `[[Note Name]]` links between notes. A link
+ * names its target by title, the note's file name without `.md`, or by its
+ * path in the notes directory (`[[Projects/Plan]]`). It may point at a heading
+ * (`[[Plan#Budget]]`) and show other text (`[[Plan|the plan]]`). Links in code
+ * blocks and code spans are plain text.
+ */
+import { baseName } from './file-tree';
+
+/**
+ * A `[[link]]` in a note
+ */
+export interface WikiLink {
+  /** Note linked to, as written */
+  target: string;
+
+  /** Heading linked to, if any */
+  heading?: string;
+
+  /** Text shown instead of the target, if any */
+  alias?: string;
+
+  /** Offset of the opening brackets */
+  start: number;
+
+  /** Offset after the closing brackets */
+  end: number;
+}
+
+/**
+ * The `[[link` being typed before the caret
+ */
+export interface WikiLinkCompletion {
+  /** Offset after the opening brackets, where the completed name goes */
+  start: number;
+
+  /** Text typed so far */
+  query: string;
+}
+
+const LINK = /\[\[([^\[\]\n|#]+)(?:#([^\[\]\n|]*))?(?:\|([^\[\]\n]*))?\]\]/g;
+
+const FENCE = /^\s{0,3}(```|~~~)/;
+
+const MARKDOWN_EXTENSION = /\.(md|markdown)$/i;
+
+/**
+ * Title of a note: its file name without the markdown extension
+ */
+export function noteTitle(name: string): string {
+  return baseName(name).replace(MARKDOWN_EXTENSION, '');
+}
+
+/**
+ * Finds the links of a note, leaving out those in code
+ */
+export function findWikiLinks(text: string): WikiLink[] {
+  const links: WikiLink[] = [];
+  const code = codeRanges(text);
+
+  for (const match of text.matchAll(LINK)) {
+    const start = match.index!;
+    if (code.some(([from, to]) => start >= from && start < to)) {
+      continue;
+    }
+
+    const link: WikiLink = { target: match[1].trim(), start, end: start + match[0].length };
+    if (match[2] !== undefined && match[2].trim()) {
+      link.heading = match[2].trim();
+    }
+    if (match[3] !== undefined && match[3].trim()) {
+      link.alias = match[3].trim();
+    }
+    links.push(link);
+  }
+
+  return links;
+}
+
+/**
+ * Whether a link target names a note, by title or by path
+ * @param name The note's name relative to its notes directory
+ */
+function linksTo(target: string, name: string): boolean {
+  const key = linkKey(target);
+  return key.includes('/')
+    ? key === linkKey(name)
+    : key === noteTitle(name).toLowerCase();
+}
+
+/**
+ * Finds the note a link target names; a note whose path matches wins over notes sharing its title
+ */
+export function resolveWikiLink<T extends { name: string }>(target: string, files: T[]): T | null {
+  const key = linkKey(target);
+  return files.find(file => linkKey(file.name) === key)
+    ?? files.find(file => linksTo(target, file.name))
+    ?? null;
+}
+
+/**
+ * Points the links to a renamed note at its new name. Only links that lead to
+ * that note are rewritten, not those to other notes sharing its title.
+ * @param oldName The note's old name relative to the notes directory
+ * @param newName Its new name
+ * @param files The notes links lead to, as they were before the rename
+ * @returns The text with its links rewritten; the same text when none linked to the note
+ */
+export function renameWikiLinks(text: string, oldName: string, newName: string, files: { name: string }[]): string {
+  const renamed = [...files.filter(file => file.name !== oldName), { name: newName }];
+  let result = '';
+  let position = 0;
+
+  for (const link of findWikiLinks(text)) {
+    if (resolveWikiLink(link.target, files)?.name !== oldName) {
+      continue;
+    }
+
+    // Links keep their form: titles stay titles, paths stay paths, unless the title now leads elsewhere
+    const title = noteTitle(newName);
+    const target = !link.target.includes('/') && resolveWikiLink(title, renamed)?.name === newName
+      ? title
+      : newName.replace(MARKDOWN_EXTENSION, '');
+    result += text.substring(position, link.start) + formatWikiLink({ ...link, target });
+    position = link.end;
+  }
+
+  return position === 0 ? text : result + text.substring(position);
+}
+
+/**
+ * Writes a link back as `[[target#heading|alias]]`
+ */
+export function formatWikiLink(link: Pick<WikiLink, 'target' | 'heading' | 'alias'>): string {
+  const heading = link.heading ? `#${link.heading}` : '';
+  const alias = link.alias ? `|${link.alias}` : '';
+  return `[[${link.target}${heading}${alias}]]`;
+}
+
+/**
+ * Finds the link being typed before the caret, for autocompletion
+ * @returns null when the caret isn't inside an unclosed `[[`
+ */
+export function wikiLinkCompletion(text: string, caret: number): WikiLinkCompletion | null {
+  const lineStart = text.lastIndexOf('\n', caret - 1) + 1;
+  const before = text.substring(lineStart, caret);
+  const open = before.lastIndexOf('[[');
+  if (open === -1) {
+    return null;
+  }
+
+  const query = before.substring(open + 2);
+  if (/[\]|#\[]/.test(query)) {
+    return null;
+  }
+  return { start: lineStart + open + 2, query };
+}
+
+/**
+ * Line of a heading in a note, matched case-insensitively
+ * @returns The line counted from 0, or null when there is no such heading
+ */
+export function headingLine(text: string, heading: string): number | null {
+  const wanted = heading.trim().toLowerCase();
+  const lines = text.split('\n');
+  const index = lines.findIndex(line => {
+    const match = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/.exec(line);
+    return !!match && match[1].toLowerCase() === wanted;
+  });
+  return index === -1 ? null : index;
+}
+
+/**
+ * Replaces the links of markdown with HTML anchors for the preview
+ * @param exists Whether a link's note exists; missing notes get the `wikilink-missing` class
+ */
+export function renderWikiLinks(markdown: string, exists: (link: WikiLink) => boolean): string {
+  let result = '';
+  let position = 0;
+
+  for (const link of findWikiLinks(markdown)) {
+    const text = link.alias || (link.heading ? `${link.target} › ${link.heading}` : link.target);
+    const classes = exists(link) ? 'wikilink' : 'wikilink wikilink-missing';
+    const heading = link.heading ? ` data-heading="${escapeHtml(link.heading)}"` : '';
+
+    result += markdown.substring(position, link.start)
+      + `<a href="#" class="${classes}" data-target="${escapeHtml(link.target)}"${heading}>${escapeHtml(text)}</a>`;
+    position = link.end;
+  }
+
+  return result + markdown.substring(position);
+}
+
+function linkKey(target: string): string {
+  return target.trim().replace(/\\/g, '/').replace(MARKDOWN_EXTENSION, '').toLowerCase();
+}
+
+/**
+ * Offsets of fenced code blocks and code spans
+ */
+function codeRanges(text: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  let fenceStart = -1;
+  let offset = 0;
+
+  for (const line of text.split('\n')) {
+    const end = offset + line.length;
+    if (FENCE.test(line)) {
+      if (fenceStart === -1) {
+        fenceStart = offset;
+      } else {
+        ranges.push([fenceStart, end]);
+        fenceStart = -1;
+      }
+    } else if (fenceStart === -1) {
+      for (const span of line.matchAll(/(`+)[^`]*?\1/g)) {
+        ranges.push([offset + span.index!, offset + span.index! + span[0].length]);
+      }
+    }
+    offset = end + 1;
+  }
+
+  if (fenceStart !== -1) {
+    ranges.push([fenceStart, text.length]);
+  }
+  return ranges;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
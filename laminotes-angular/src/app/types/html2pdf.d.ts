@@ -42,6 +42,16 @@ declare module 'html2pdf.js' {
   interface HTML2PDFInstance {
     from(element: HTMLElement): HTML2PDFInstance;
     set(options: HTML2PDFOptions): HTML2PDFInstance;
+    /** Clones the source into the render container and applies page breaks */
+    toContainer(): HTML2PDFInstance;
+    /** Renders the container to a canvas */
+    toCanvas(): HTML2PDFInstance;
+    /** Splits the canvas into pages of a jsPDF document */
+    toPdf(): HTML2PDFInstance;
+    /** Resolves the chain to an internal property ('pdf', 'container', 'canvas', ...) */
+    get(key: string, callback?: (value: any) => void): HTML2PDFInstance;
+    /** Runs a step in the chain; `this` is the worker, whose `prop` holds its state */
+    then(onFulfilled?: (this: any, value: any) => any, onRejected?: (error: any) => any): HTML2PDFInstance;
     outputPdf(type: string): Promise<any>;
     save(): Promise<void>;
     [key: string]: any;
@@ -1,40 +1,172 @@
 // src/electron.d.ts
+// API exposed by electron/preload.js. Every path must lie inside a notes
+// folder or a location the user picked in a native dialog; other requests
+// are refused by the main process.
+
+/** Outcome of a filesystem request */
+interface ElectronResult {
+  success: boolean;
+  message: string;
+}
+
+interface ElectronSaveOptions {
+  /** Text, or base64 data when saveAsBinary is set */
+  content: string;
+  filePath?: string;
+  /** Show the save dialog even if filePath is set */
+  saveAs?: boolean;
+  /** Only ask for a location, don't write anything */
+  getPathOnly?: boolean;
+  saveAsBinary?: boolean;
+  mimeType?: string;
+}
+
+interface ElectronSaveResult extends ElectronResult {
+  filePath?: string;
+}
+
+interface ElectronOpenResult extends ElectronResult {
+  filePath?: string;
+  content?: string;
+}
+
+/** A markdown file found in a notes folder */
+interface ElectronFileEntry {
+  path: string;
+  /** Path relative to the folder */
+  name: string;
+}
+
+interface ElectronDirectoryResult extends ElectronResult {
+  dirPath?: string;
+  files?: ElectronFileEntry[];
+  /** Folders below dirPath, empty ones included, relative to it */
+  folders?: string[];
+}
+
+/** A markdown file added, changed or removed outside the app */
+interface ElectronDirectoryChange {
+  type: 'add' | 'change' | 'unlink';
+  path: string;
+  /** Path relative to the watched folder */
+  name: string;
+}
+
+interface ElectronPromptOptions {
+  title?: string;
+  label?: string;
+  value?: string;
+}
+
+interface ElectronPromptResult {
+  success: boolean;
+  value: string | null;
+}
+
+/** A command chosen from the application menu or by its shortcut */
+interface ElectronMenuCommand {
+  command: string;
+  /** e.g. the team id for 'switch-team'; null for personal notes */
+  argument: string | null;
+}
+
+/** A menu command and its keyboard shortcut */
+interface ElectronShortcut {
+  id: string;
+  label: string;
+  /** Electron accelerator, e.g. CommandOrControl+S; '' for none */
+  accelerator: string;
+  defaultAccelerator: string;
+  /** Works while the app is in the background */
+  global: boolean;
+}
+
+/** A note and its content, shared between windows */
+interface ElectronNote {
+  path: string;
+  content: string;
+}
+
+interface ElectronNoteWindow extends ElectronNote {
+  name: string;
+}
+
+/** A markdown file the OS asked the app to open */
+type ElectronOpenedFile = ElectronNoteWindow;
+
 interface ElectronAPI {
-  saveFile: (options: {
-    content: string;
-    filePath?: string;
-    saveAs?: boolean;
-  }) => Promise<{
-    success: boolean;
-    filePath?: string;
-    message: string;
-  }>;
-
-  openFile: () => Promise<{
-    success: boolean;
-    filePath?: string;
-    content?: string;
-    message: string;
-  }>;
+  saveFile: (options: ElectronSaveOptions) => Promise<ElectronSaveResult>;
+
+  openFile: () => Promise<ElectronOpenResult>;
 
   checkFile: (path: string) => Promise<boolean>;
 
-  deleteFile: (path: string) => Promise<{
-    success: boolean;
-    message: string;
-  }>;
+  deleteFile: (path: string) => Promise<ElectronResult>;
+
+  /** Deletes a folder inside a notes folder with everything in it */
+  deleteDirectory: (path: string) => Promise<ElectronResult>;
+
+  renameFile: (oldPath: string, newPath: string) => Promise<ElectronResult>;
+
+  showPromptDialog: (options: ElectronPromptOptions) => Promise<ElectronPromptResult>;
+
+  createDirectory: (path: string) => Promise<ElectronResult>;
+
+  /** Reads a notes folder, or asks for one when no readable initialPath is given */
+  selectDirectory: (initialPath?: string) => Promise<ElectronDirectoryResult>;
+
+  readFile: (path: string) => Promise<ElectronOpenResult>;
+
+  /** Watches a notes folder, replacing the folder watched before */
+  watchDirectory: (path: string) => Promise<ElectronResult>;
+
+  unwatchDirectory: () => Promise<ElectronResult>;
+
+  /** Subscribes to changes in the watched folder; returns the unsubscribe function */
+  onDirectoryChanged: (callback: (change: ElectronDirectoryChange) => void) => () => void;
+
+  onMenuCommand: (callback: (command: ElectronMenuCommand) => void) => () => void;
+
+  getShortcuts: () => Promise<ElectronShortcut[]>;
+
+  /** Sets the accelerators by command id and rebuilds the menu; returns the shortcuts now in use */
+  setShortcuts: (accelerators: Record<string, string>) => Promise<ElectronShortcut[]>;
+
+  /** Lists the teams in the Team menu */
+  setMenuTeams: (teams: { id: string; name: string }[], activeTeamId: string | null) => Promise<ElectronResult>;
+
+  /** Opens a note in its own window, or focuses the window already showing it */
+  openNoteWindow: (note: ElectronNoteWindow) => Promise<ElectronResult>;
+
+  /** The note shown by this window; null in the main window */
+  getNoteWindow: () => Promise<ElectronNoteWindow | null>;
+
+  /** Sends the edited content of a note to the other windows */
+  syncNote: (path: string, content: string) => Promise<ElectronResult>;
+
+  onNoteSynced: (callback: (note: ElectronNote) => void) => () => void;
+
+  /** Paths of the notes open in their own window; sent to the main window */
+  onNoteWindowsChanged: (callback: (paths: string[]) => void) => () => void;
+
+  /** Files opened from the OS before the page listened; later ones arrive through onFileOpened */
+  takeOpenedFiles: () => Promise<ElectronOpenedFile[]>;
+
+  onFileOpened: (callback: (file: ElectronOpenedFile) => void) => () => void;
+
+  /** Adds a note to the OS recent documents */
+  addRecentDocument: (path: string) => Promise<ElectronResult>;
+
+  /** Tells the main process whether closing the main window should ask about unsaved notes first */
+  setUnsavedChanges: (unsaved: boolean) => Promise<ElectronResult>;
 
-  renameFile: (oldPath: string, newPath: string) => Promise<{
-    success: boolean;
-    message: string;
-  }>;
+  /** The main window is being closed while it has unsaved notes; answer with confirmClose or do nothing to cancel */
+  onCloseRequested: (callback: () => void) => () => void;
 
-  showPromptDialog: (options: any) => Promise<any>;
-  createDirectory: (path: string) => Promise<any>;
-  selectDirectory: (initialPath?: string) => Promise<any>;
+  /** Closes the main window (or quits) after the unsaved notes were saved or discarded */
+  confirmClose: () => Promise<ElectronResult>;
 }
 
 interface Window {
-  process?: any;
   electronAPI?: ElectronAPI;
 }
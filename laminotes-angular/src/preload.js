@@ -1 +0,0 @@
-window.ipcRenderer = require('electron').ipcRenderer;